@@ -13,7 +13,19 @@ import {
   AuditLog,
   AuditLogInput,
   IdempotencyRecord,
-  IdempotencyRecordInput
+  IdempotencyRecordInput,
+  IdempotencyClaimInput,
+  CreditHold,
+  CreditHoldInput,
+  CreditLot,
+  CreditLotInput,
+  Organization,
+  MemberSpendingLimit,
+  MemberSpendingLimitInput,
+  SpendingLimitPeriod,
+  ScheduledTierChange,
+  ScheduledTierChangeInput,
+  UserAddOn
 } from '../core/types';
 
 /**
@@ -21,6 +33,9 @@ import {
  * 
  * 所有方法都接受可选的事务上下文参数 (txn)，用于支持事务透传。
  * 当提供事务上下文时，所有操作应该在该事务范围内执行。
+ * 
+ * 标记为可选 (`?`) 的方法只在使用对应特性时需要实现，
+ * 未实现时 CreditsEngine 会在调用相应特性时抛出 ConfigurationError。
  */
 export interface IStorageAdapter {
   /**
@@ -56,6 +71,34 @@ export interface IStorageAdapter {
    */
   updateUserCredits(userId: string, amount: number, txn?: any): Promise<User>;
 
+  /**
+   * 条件扣减用户积分
+   *
+   * 仅当扣减后余额不低于 minBalance 时才扣减，检查与更新必须在单个原子操作中完成，
+   * 防止并发扣费同时通过余额检查导致余额变为负数。
+   *
+   * @param userId - 用户唯一标识符
+   * @param amount - 扣减金额 (正数)
+   * @param minBalance - 扣减后允许的最低余额 (通常为 0 或当前冻结总额，允许透支时可以为负数)
+   * @param txn - 可选的事务上下文
+   * @returns 扣减后的用户对象 (来自实际写入的记录)；余额不足时返回 null
+   * @throws 如果用户不存在应该抛出错误
+   *
+   * 实现注意事项：
+   * - 必须是条件更新，例如 SQL 中的
+   *   `UPDATE ... SET credits = credits - ? WHERE id = ? AND credits - ? >= ?`
+   * - 返回值必须是更新后的记录，而不是更新前读取的快照
+   * - 可选方法：只调用其他方法的适配器无需实现；未实现时 charge 等需要扣减积分的操作
+   *   抛出 ConfigurationError，引擎不会用 updateUserCredits 模拟条件扣减
+   *
+   * @example
+   * const user = await adapter.debitUserCredits('user-123', 10, 0);
+   * if (!user) {
+   *   // 余额不足，未扣减
+   * }
+   */
+  debitUserCredits?(userId: string, amount: number, minBalance: number, txn?: any): Promise<User | null>;
+
   /**
    * 创建交易记录
    * 
@@ -249,4 +292,634 @@ export interface IStorageAdapter {
     membershipExpiresAt?: Date | null,
     txn?: any
   ): Promise<User>;
+
+  /**
+   * 设置或清除用户的试用结束时间（可选，用于会员试用特性）
+   * 
+   * @param userId - 用户唯一标识符
+   * @param trialEndsAt - 试用结束时间；null 表示当前会员不是试用
+   * @param txn - 可选的事务上下文
+   * @throws 如果用户不存在应该抛出错误
+   * 
+   * 实现注意事项：
+   * - 实现此方法时，getUserById 等返回用户的方法需要同时返回 trialEndsAt
+   */
+  setMembershipTrial?(userId: string, trialEndsAt: Date | null, txn?: any): Promise<void>;
+
+  /**
+   * 创建积分冻结记录（可选，用于预授权特性）
+   * 
+   * @param hold - 冻结记录数据
+   * @param txn - 可选的事务上下文
+   * @returns 创建的冻结记录 (状态为 pending，包含生成的 ID 和时间戳)
+   * 
+   * @example
+   * const hold = await adapter.createCreditHold({
+   *   userId: 'user-123',
+   *   action: 'ai-completion',
+   *   amount: 50,
+   *   expiresAt: new Date(Date.now() + 60 * 60 * 1000)
+   * });
+   */
+  createCreditHold?(hold: CreditHoldInput, txn?: any): Promise<CreditHold>;
+
+  /**
+   * 条件创建积分冻结记录（可选，用于预授权特性）
+   * 
+   * 仅当 用户余额 - 未过期的 pending 冻结总额 - hold.amount >= minBalance 时才创建冻结，
+   * 检查与创建必须是原子的，防止并发预授权同时通过可用余额检查而超额冻结。
+   * 
+   * @param hold - 冻结记录数据
+   * @param minBalance - 冻结后可用余额之外必须保留的额度 (通常为已过期未清除的批次积分)
+   * @param now - 当前时间，用于排除已过期的冻结
+   * @param txn - 可选的事务上下文
+   * @returns 创建的冻结记录；可用余额不足时返回 null
+   * @throws 如果用户不存在应该抛出错误
+   * 
+   * 实现注意事项：
+   * - 数据库实现应先锁定用户行 (例如 `SELECT ... FOR UPDATE`)，
+   *   再统计冻结总额并插入，同一用户的并发预授权由行锁串行化
+   * - 统计冻结总额的语句必须在获得行锁之后执行，才能读取到其他事务已提交的冻结
+   * - 未实现时 reserve 先检查可用余额再调用 createCreditHold，并发预授权可能超额冻结
+   */
+  createCreditHoldIfAvailable?(
+    hold: CreditHoldInput,
+    minBalance: number,
+    now: Date,
+    txn?: any
+  ): Promise<CreditHold | null>;
+
+  /**
+   * 根据 ID 获取积分冻结记录（可选，用于预授权特性）
+   * 
+   * @param holdId - 冻结记录 ID
+   * @param txn - 可选的事务上下文
+   * @returns 冻结记录，如果不存在则返回 null（不论状态或是否过期）
+   */
+  getCreditHold?(holdId: string, txn?: any): Promise<CreditHold | null>;
+
+  /**
+   * 获取用户当前占用的冻结总额（可选，用于预授权特性）
+   * 
+   * @param userId - 用户唯一标识符
+   * @param now - 当前时间，用于排除已过期的冻结
+   * @param txn - 可选的事务上下文
+   * @returns 状态为 pending 且 expiresAt > now 的冻结金额之和
+   * 
+   * 实现注意事项：
+   * - 已过期的冻结不应计入，这样冻结会在到期后自动失效
+   */
+  getActiveHoldsTotal?(userId: string, now: Date, txn?: any): Promise<number>;
+
+  /**
+   * 完结积分冻结记录（可选，用于预授权特性）
+   * 
+   * 将 pending 状态的冻结记录原子地变更为 captured 或 released。
+   * 
+   * @param holdId - 冻结记录 ID
+   * @param status - 目标状态
+   * @param capturedAmount - 实际结算金额 (released 时为 null)
+   * @param txn - 可选的事务上下文
+   * @returns 更新后的冻结记录；如果记录已不是 pending 状态则返回 null
+   * 
+   * 实现注意事项：
+   * - 必须是条件更新（仅当 status 为 pending 时更新），
+   *   防止并发的结算/释放重复完结同一冻结
+   */
+  finalizeCreditHold?(
+    holdId: string,
+    status: 'captured' | 'released',
+    capturedAmount: number | null,
+    txn?: any
+  ): Promise<CreditHold | null>;
+
+  /**
+   * 创建积分批次（可选，用于积分到期特性）
+   * 
+   * @param lot - 批次数据
+   * @param txn - 可选的事务上下文
+   * @returns 创建的批次 (remaining 等于 amount，包含生成的 ID 和时间戳)
+   * 
+   * @example
+   * const lot = await adapter.createCreditLot({
+   *   userId: 'user-123',
+   *   amount: 100,
+   *   expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+   * });
+   */
+  createCreditLot?(lot: CreditLotInput, txn?: any): Promise<CreditLot>;
+
+  /**
+   * 获取用户所有仍有剩余的积分批次（可选，用于积分到期特性）
+   * 
+   * @param userId - 用户唯一标识符
+   * @param txn - 可选的事务上下文
+   * @returns remaining > 0 的批次（包括已过期但尚未清除的），按 expiresAt 升序排列
+   */
+  getCreditLots?(userId: string, txn?: any): Promise<CreditLot[]>;
+
+  /**
+   * 从积分批次中扣减剩余金额（可选，用于积分到期特性）
+   * 
+   * @param lotId - 批次 ID
+   * @param amount - 最多扣减的金额
+   * @param txn - 可选的事务上下文
+   * @returns 实际扣减的金额，即 min(remaining, amount)；批次不存在或已耗尽时返回 0
+   * 
+   * 实现注意事项：
+   * - 读取 remaining 与更新必须在单个原子操作中完成，
+   *   防止并发扣费重复消耗同一批次
+   */
+  consumeCreditLot?(lotId: string, amount: number, txn?: any): Promise<number>;
+
+  /**
+   * 获取已过期但仍有剩余的积分批次（可选，用于积分到期特性）
+   * 
+   * @param now - 当前时间
+   * @param limit - 最多返回的数量
+   * @param txn - 可选的事务上下文
+   * @returns 所有用户中 remaining > 0 且 expiresAt <= now 的批次，按 expiresAt 升序排列
+   */
+  getExpiredCreditLots?(now: Date, limit: number, txn?: any): Promise<CreditLot[]>;
+
+  /**
+   * 根据交易 ID 获取交易记录（可选，用于按原交易退款）
+   * 
+   * @param transactionId - 交易唯一标识符
+   * @param txn - 可选的事务上下文
+   * @returns 交易记录 (包含 refundedAmount)，如果不存在则返回 null
+   */
+  getTransactionById?(transactionId: string, txn?: any): Promise<Transaction | null>;
+
+  /**
+   * 条件增加扣费交易的累计退款金额（可选，用于按原交易退款）
+   * 
+   * 仅当增加后的累计退款金额不超过 maxTotal 时才更新，
+   * 检查与更新必须在单个原子操作中完成，避免并发退款重复退回同一笔扣费。
+   * 
+   * @param transactionId - 原扣费交易 ID
+   * @param amount - 本次退款金额 (正数)
+   * @param maxTotal - 累计退款金额上限 (原扣费金额)
+   * @param txn - 可选的事务上下文
+   * @returns 更新后的累计退款金额；会超过上限时返回 null
+   * @throws TransactionNotFoundError 如果交易不存在
+   * 
+   * 实现注意事项：
+   * - 必须是条件更新，例如 SQL 中的
+   *   `UPDATE ... SET refundedAmount = refundedAmount + ? WHERE id = ? AND refundedAmount + ? <= ?`
+   * 
+   * @example
+   * const refunded = await adapter.addTransactionRefund('txn-123', 10, 50);
+   * if (refunded === null) {
+   *   // 累计退款会超过原扣费金额，未更新
+   * }
+   */
+  addTransactionRefund?(
+    transactionId: string,
+    amount: number,
+    maxTotal: number,
+    txn?: any
+  ): Promise<number | null>;
+
+  /**
+   * 在一个数据库事务中执行回调（可选，用于转账等需要原子性的多步操作）
+   * 
+   * @param fn - 在事务中执行的回调，参数为事务上下文
+   * @returns 回调的返回值
+   * 
+   * 实现注意事项：
+   * - 回调抛出错误时必须回滚事务中的所有写入，并重新抛出该错误
+   * - 传给回调的事务上下文应该可以作为其他方法的 txn 参数使用
+   * 
+   * @example
+   * await adapter.runInTransaction(async (txn) => {
+   *   await adapter.updateUserCredits('user-1', -10, txn);
+   *   await adapter.updateUserCredits('user-2', 10, txn);
+   * });
+   */
+  runInTransaction?<T>(fn: (txn: any) => Promise<T>): Promise<T>;
+
+  /**
+   * 判断存储操作抛出的错误是否为瞬态故障（可选，用于重试）
+   *
+   * @param error - 存储操作抛出的错误
+   * @returns true 表示可以重试，false 表示不应重试，undefined 表示无法判断
+   *
+   * 实现注意事项：
+   * - 应根据错误代码等结构化信息判断，不要匹配错误消息
+   * - 无法判断时返回 undefined，RetryHandler 会回退到默认的错误代码列表
+   * - 业务错误（CreditsSDKError 及其子类）始终不会重试，无需在此处理
+   *
+   * @example
+   * isTransientError(error) {
+   *   if (error?.code === 'SQLITE_BUSY') return true;
+   *   if (error?.code === 'SQLITE_CONSTRAINT') return false;
+   *   return undefined;
+   * }
+   */
+  isTransientError?(error: unknown): boolean | undefined;
+
+  /**
+   * 获取用户某个附加钱包的余额（可选，用于多钱包特性）
+   * 
+   * 默认钱包的余额保存在 User.credits 中，不会通过此方法查询。
+   * 
+   * @param userId - 用户唯一标识符
+   * @param wallet - 钱包名称
+   * @param txn - 可选的事务上下文
+   * @returns 钱包余额；钱包尚不存在时返回 0
+   */
+  getWalletBalance?(userId: string, wallet: string, txn?: any): Promise<number>;
+
+  /**
+   * 获取用户所有附加钱包的余额（可选，用于多钱包特性）
+   * 
+   * @param userId - 用户唯一标识符
+   * @param txn - 可选的事务上下文
+   * @returns 钱包名称到余额的映射 (不包括默认钱包)
+   */
+  getWalletBalances?(userId: string, txn?: any): Promise<Record<string, number>>;
+
+  /**
+   * 变更用户附加钱包的余额（可选，用于多钱包特性）
+   * 
+   * @param userId - 用户唯一标识符
+   * @param wallet - 钱包名称
+   * @param amount - 变更金额 (正数为增加，负数为减少)
+   * @param txn - 可选的事务上下文
+   * @returns 变更后的钱包余额
+   * 
+   * 实现注意事项：
+   * - 钱包不存在时应该以余额 0 创建后再变更
+   * 
+   * @example
+   * const balance = await adapter.updateWalletBalance('user-123', 'image', 50);
+   */
+  updateWalletBalance?(userId: string, wallet: string, amount: number, txn?: any): Promise<number>;
+
+  /**
+   * 条件扣减用户附加钱包的余额（可选，用于多钱包特性）
+   * 
+   * 语义与 debitUserCredits 相同：仅当扣减后余额不低于 minBalance 时才扣减，
+   * 检查与更新必须在单个原子操作中完成。
+   * 
+   * @param userId - 用户唯一标识符
+   * @param wallet - 钱包名称
+   * @param amount - 扣减金额 (正数)
+   * @param minBalance - 扣减后允许的最低余额
+   * @param txn - 可选的事务上下文
+   * @returns 扣减后的钱包余额；余额不足时返回 null (不存在的钱包视为余额 0)
+   */
+  debitWalletBalance?(
+    userId: string,
+    wallet: string,
+    amount: number,
+    minBalance: number,
+    txn?: any
+  ): Promise<number | null>;
+
+  /**
+   * 根据组织 ID 获取组织信息（可选，用于组织积分池特性）
+   * 
+   * @param organizationId - 组织唯一标识符
+   * @param txn - 可选的事务上下文
+   * @returns 组织对象，如果不存在则返回 null
+   */
+  getOrganizationById?(organizationId: string, txn?: any): Promise<Organization | null>;
+
+  /**
+   * 条件扣减组织积分池（可选，用于组织积分池特性）
+   * 
+   * 语义与 debitUserCredits 相同：仅当扣减后余额不低于 minBalance 时才扣减，
+   * 检查与更新必须在单个原子操作中完成。
+   * 
+   * @param organizationId - 组织唯一标识符
+   * @param amount - 扣减金额 (正数)
+   * @param minBalance - 扣减后允许的最低余额
+   * @param txn - 可选的事务上下文
+   * @returns 扣减后的组织对象；余额不足时返回 null
+   * @throws OrganizationNotFoundError 如果组织不存在
+   */
+  debitOrganizationCredits?(
+    organizationId: string,
+    amount: number,
+    minBalance: number,
+    txn?: any
+  ): Promise<Organization | null>;
+
+  /**
+   * 变更组织积分池余额（可选，用于退回组织积分池的扣费）
+   * 
+   * @param organizationId - 组织唯一标识符
+   * @param amount - 变更金额 (正数为增加，负数为减少)
+   * @param txn - 可选的事务上下文
+   * @returns 更新后的组织对象
+   * @throws OrganizationNotFoundError 如果组织不存在
+   */
+  updateOrganizationCredits?(
+    organizationId: string,
+    amount: number,
+    txn?: any
+  ): Promise<Organization>;
+
+  /**
+   * 获取组织成员的所有消费限额（可选，用于成员消费限额特性）
+   * 
+   * @param organizationId - 组织唯一标识符
+   * @param userId - 成员的用户 ID
+   * @param txn - 可选的事务上下文
+   * @returns 消费限额数组 (每个统计周期最多一条)；没有限额时返回空数组
+   */
+  getMemberSpendingLimits?(
+    organizationId: string,
+    userId: string,
+    txn?: any
+  ): Promise<MemberSpendingLimit[]>;
+
+  /**
+   * 创建或更新组织成员的消费限额（可选，用于成员消费限额特性）
+   * 
+   * @param limit - 消费限额数据
+   * @param txn - 可选的事务上下文
+   * @returns 保存后的消费限额
+   * 
+   * 实现注意事项：
+   * - 以 (organizationId, userId, period) 为唯一键，已存在时覆盖 limit
+   */
+  setMemberSpendingLimit?(
+    limit: MemberSpendingLimitInput,
+    txn?: any
+  ): Promise<MemberSpendingLimit>;
+
+  /**
+   * 删除组织成员某个周期的消费限额（可选，用于成员消费限额特性）
+   * 
+   * @param organizationId - 组织唯一标识符
+   * @param userId - 成员的用户 ID
+   * @param period - 统计周期
+   * @param txn - 可选的事务上下文
+   * 
+   * 实现注意事项：
+   * - 限额不存在时应该静默返回
+   */
+  deleteMemberSpendingLimit?(
+    organizationId: string,
+    userId: string,
+    period: SpendingLimitPeriod,
+    txn?: any
+  ): Promise<void>;
+
+  /**
+   * 统计组织成员从组织积分池消费的积分（可选，用于成员消费限额特性）
+   * 
+   * @param organizationId - 组织唯一标识符
+   * @param userId - 成员的用户 ID
+   * @param since - 统计起始时间 (包含)
+   * @param txn - 可选的事务上下文
+   * @returns 消费总额 (正数)
+   * 
+   * 实现注意事项：
+   * - 统计该成员 metadata.organizationId 等于 organizationId、
+   *   金额为负且 createdAt >= since 的交易记录
+   */
+  getMemberSpending?(
+    organizationId: string,
+    userId: string,
+    since: Date,
+    txn?: any
+  ): Promise<number>;
+
+  /**
+   * 统计用户执行某个操作的次数（可选，用于用量配额特性）
+   * 
+   * @param userId - 用户唯一标识符
+   * @param action - 操作名称
+   * @param since - 统计起始时间 (包含)
+   * @param txn - 可选的事务上下文
+   * @returns 次数
+   * 
+   * 实现注意事项：
+   * - 只统计该用户 action 等于 action、operation 为 'charge'、'chargeBatch' 或 'capture'
+   *   且 createdAt >= since 的扣费记录（包括成本为 0 的扣费）
+   * - 退款记录沿用原扣费的 action 但 operation 为 'refund'，不得计入
+   */
+  countActionUsage?(
+    userId: string,
+    action: string,
+    since: Date,
+    txn?: any
+  ): Promise<number>;
+
+  /**
+   * 占用幂等键（可选，用于并发重复请求的互斥）
+   * 
+   * @param claim - 占用数据
+   * @param txn - 可选的事务上下文
+   * @returns 占用成功时返回 null；幂等键已被占用或已有结果时返回现有记录
+   * 
+   * 实现注意事项：
+   * - 检查和写入必须是原子的，并发调用中只能有一个占用成功
+   * - 不存在记录，或现有记录已过期（包括超时未完成的占用）时，
+   *   写入 status 为 'pending' 的记录并返回 null
+   * - 实现此方法时必须同时实现 completeIdempotencyRecord 和 releaseIdempotencyRecord
+   * 
+   * @example
+   * const existing = await adapter.claimIdempotencyRecord({
+   *   key: 'charge:order-123',
+   *   fingerprint: 'f3a9...',
+   *   expiresAt: new Date(Date.now() + 60 * 1000)
+   * });
+   * if (existing?.status === 'pending') {
+   *   // 相同请求仍在执行
+   * }
+   */
+  claimIdempotencyRecord?(
+    claim: IdempotencyClaimInput,
+    txn?: any
+  ): Promise<IdempotencyRecord | null>;
+
+  /**
+   * 保存请求结果并完成幂等键占用（可选，用于并发重复请求的互斥）
+   * 
+   * @param record - 幂等性记录数据
+   * @param txn - 可选的事务上下文
+   * @returns 保存的幂等性记录
+   * 
+   * 实现注意事项：
+   * - 覆盖同一幂等键的 pending 记录，不存在时创建
+   * - 保存后的记录 status 为 'completed'
+   */
+  completeIdempotencyRecord?(record: IdempotencyRecordInput, txn?: any): Promise<IdempotencyRecord>;
+
+  /**
+   * 释放未完成的幂等键占用（可选，用于并发重复请求的互斥）
+   * 
+   * 请求失败后调用，使相同的请求可以立即重新执行。
+   * 
+   * @param key - 幂等键
+   * @param fingerprint - 请求指纹，提供时只释放指纹相同的占用
+   * @param txn - 可选的事务上下文
+   * 
+   * 实现注意事项：
+   * - 只删除 status 为 'pending' 的记录，已完成的记录保持不变
+   */
+  releaseIdempotencyRecord?(key: string, fingerprint?: string, txn?: any): Promise<void>;
+
+  /**
+   * 删除已过期的幂等性记录（可选，用于过期数据清理）
+   * 
+   * @param before - 删除 expiresAt 早于此时间的记录
+   * @param batchSize - 本次最多删除的数量
+   * @param txn - 可选的事务上下文
+   * @returns 实际删除的数量，小于 batchSize 表示已没有更多过期记录
+   * 
+   * 实现注意事项：
+   * - 应当利用 expiresAt 索引，避免全表扫描
+   */
+  deleteExpiredIdempotencyRecords?(before: Date, batchSize: number, txn?: any): Promise<number>;
+
+  /**
+   * 删除已过期的冻结记录（可选，用于过期数据清理）
+   * 
+   * 包括所有状态的冻结：过期的 pending 冻结已不占用余额，
+   * 已结算的冻结由对应的扣费交易记录保留。
+   * 
+   * 实现注意事项：
+   * - pending 冻结只有在当前时间已过期时才能删除，不能只按 before 判断，
+   *   否则会删除仍在占用余额的冻结
+   * 
+   * @param before - 删除 expiresAt 早于此时间的冻结
+   * @param batchSize - 本次最多删除的数量
+   * @param txn - 可选的事务上下文
+   * @returns 实际删除的数量，小于 batchSize 表示已没有更多过期冻结
+   */
+  deleteExpiredCreditHolds?(before: Date, batchSize: number, txn?: any): Promise<number>;
+
+  /**
+   * 删除已过期且已耗尽的积分批次（可选，用于过期数据清理）
+   * 
+   * @param before - 删除 expiresAt 早于此时间的批次
+   * @param batchSize - 本次最多删除的数量
+   * @param txn - 可选的事务上下文
+   * @returns 实际删除的数量，小于 batchSize 表示已没有更多可删除的批次
+   * 
+   * 实现注意事项：
+   * - 只删除 remaining 为 0 的批次，仍有剩余的批次需要先由 expireCredits 清除积分
+   */
+  deleteExpiredCreditLots?(before: Date, batchSize: number, txn?: any): Promise<number>;
+
+  /**
+   * 分页获取余额为负数的用户（可选，用于透支查询）
+   * 
+   * @param limit - 返回的最大数量
+   * @param offset - 跳过的数量
+   * @param txn - 可选的事务上下文
+   * @returns credits < 0 的用户列表
+   * 
+   * 实现注意事项：
+   * - 按 credits 升序排序（透支最多的在前），credits 相同时按 id 排序，保证分页稳定
+   * 
+   * @example
+   * const firstPage = await adapter.getOverdrawnUsers(100, 0);
+   */
+  getOverdrawnUsers?(limit: number, offset: number, txn?: any): Promise<User[]>;
+
+  /**
+   * 获取会员已过期的用户（可选，用于会员到期处理）
+   * 
+   * @param now - 当前时间
+   * @param limit - 最多返回的数量
+   * @param txn - 可选的事务上下文
+   * @returns membershipTier 不为 null 且 membershipExpiresAt < now 的用户，按 membershipExpiresAt 升序排列
+   * 
+   * 实现注意事项：
+   * - 不需要 offset：处理后的用户会清除到期时间，下一次查询自然不再返回
+   */
+  getUsersWithExpiredMembership?(now: Date, limit: number, txn?: any): Promise<User[]>;
+
+  /**
+   * 保存用户计划中的等级变更（可选，用于计划等级变更特性）
+   * 
+   * @param change - 计划变更数据
+   * @param txn - 可选的事务上下文
+   * @returns 保存后的计划变更
+   * 
+   * 实现注意事项：
+   * - 每个用户最多一条，以 userId 为唯一键，已存在时覆盖 targetTier、effectiveAt 和 metadata
+   */
+  saveScheduledTierChange?(
+    change: ScheduledTierChangeInput,
+    txn?: any
+  ): Promise<ScheduledTierChange>;
+
+  /**
+   * 获取用户计划中的等级变更（可选，用于计划等级变更特性）
+   * 
+   * @param userId - 用户唯一标识符
+   * @param txn - 可选的事务上下文
+   * @returns 计划变更；没有时返回 null
+   */
+  getScheduledTierChange?(userId: string, txn?: any): Promise<ScheduledTierChange | null>;
+
+  /**
+   * 删除用户计划中的等级变更（可选，用于计划等级变更特性）
+   * 
+   * @param userId - 用户唯一标识符
+   * @param txn - 可选的事务上下文
+   * 
+   * 实现注意事项：
+   * - 计划变更不存在时应该静默返回
+   */
+  deleteScheduledTierChange?(userId: string, txn?: any): Promise<void>;
+
+  /**
+   * 获取已到生效时间的计划等级变更（可选，用于 applyDueTierChanges）
+   * 
+   * @param now - 当前时间
+   * @param limit - 最多返回的数量
+   * @param txn - 可选的事务上下文
+   * @returns effectiveAt <= now 的计划变更，按 effectiveAt 升序排列，相同时按 id 排序
+   * 
+   * 实现注意事项：
+   * - 不需要 offset：处理后的计划变更会被删除，下一次查询自然不再返回
+   */
+  getDueScheduledTierChanges?(
+    now: Date,
+    limit: number,
+    txn?: any
+  ): Promise<ScheduledTierChange[]>;
+
+  /**
+   * 获取用户持有的附加包（可选，用于权益特性）
+   * 
+   * @param userId - 用户唯一标识符
+   * @param txn - 可选的事务上下文
+   * @returns 附加包数组，按 createdAt 升序排列；没有附加包时返回空数组
+   */
+  getUserAddOns?(userId: string, txn?: any): Promise<UserAddOn[]>;
+
+  /**
+   * 为用户保存附加包（可选，用于权益特性）
+   * 
+   * @param userId - 用户唯一标识符
+   * @param addOn - 附加包名称
+   * @param txn - 可选的事务上下文
+   * @returns 保存后的附加包
+   * 
+   * 实现注意事项：
+   * - 以 (userId, addOn) 为唯一键，已存在时保留原来的 createdAt
+   */
+  saveUserAddOn?(userId: string, addOn: string, txn?: any): Promise<UserAddOn>;
+
+  /**
+   * 删除用户的附加包（可选，用于权益特性）
+   * 
+   * @param userId - 用户唯一标识符
+   * @param addOn - 附加包名称
+   * @param txn - 可选的事务上下文
+   * 
+   * 实现注意事项：
+   * - 附加包不存在时应该静默返回
+   */
+  deleteUserAddOn?(userId: string, addOn: string, txn?: any): Promise<void>;
 }
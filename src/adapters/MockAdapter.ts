@@ -14,9 +14,25 @@ import {
   AuditLog,
   AuditLogInput,
   IdempotencyRecord,
-  IdempotencyRecordInput
+  IdempotencyRecordInput,
+  IdempotencyClaimInput,
+  CreditHold,
+  CreditHoldInput,
+  CreditLot,
+  CreditLotInput,
+  Organization,
+  MemberSpendingLimit,
+  MemberSpendingLimitInput,
+  SpendingLimitPeriod,
+  ScheduledTierChange,
+  ScheduledTierChangeInput,
+  UserAddOn
 } from '../core/types';
-import { UserNotFoundError } from '../core/errors';
+import {
+  UserNotFoundError,
+  OrganizationNotFoundError,
+  TransactionNotFoundError
+} from '../core/errors';
 
 /**
  * 生成唯一 ID
@@ -27,6 +43,35 @@ function generateId(): string {
   return `mock-${Date.now()}-${++idCounter}`;
 }
 
+/**
+ * 从 Map 中删除最多 batchSize 个满足条件的条目
+ * 
+ * @param entries - 存储条目
+ * @param predicate - 判断条目是否需要删除
+ * @param batchSize - 最多删除的数量
+ * @returns 实际删除的数量
+ */
+function deleteBatch<V>(
+  entries: Map<string, V>,
+  predicate: (value: V) => boolean,
+  batchSize: number
+): number {
+  let deleted = 0;
+
+  for (const [key, value] of entries) {
+    if (deleted >= batchSize) {
+      break;
+    }
+
+    if (predicate(value)) {
+      entries.delete(key);
+      deleted++;
+    }
+  }
+
+  return deleted;
+}
+
 /**
  * Mock 适配器类
  * 
@@ -71,6 +116,30 @@ export class MockAdapter implements IStorageAdapter {
   /** 幂等性记录存储 */
   private idempotencyRecords = new Map<string, IdempotencyRecord>();
 
+  /** 积分冻结记录存储 */
+  private creditHolds = new Map<string, CreditHold>();
+
+  /** 积分批次存储 */
+  private creditLots = new Map<string, CreditLot>();
+
+  /** 附加钱包余额存储 (userId -> 钱包名称 -> 余额) */
+  private wallets = new Map<string, Map<string, number>>();
+
+  /** 组织存储 */
+  private organizations = new Map<string, Organization>();
+
+  /** 成员消费限额存储 (organizationId:userId:period -> 限额) */
+  private spendingLimits = new Map<string, MemberSpendingLimit>();
+
+  /** 计划等级变更存储 (userId -> 计划变更) */
+  private scheduledTierChanges = new Map<string, ScheduledTierChange>();
+
+  /** 附加包存储 (userId:addOn -> 附加包) */
+  private addOns = new Map<string, UserAddOn>();
+
+  /** 前一个事务结束时完成的 Promise，用于串行执行事务 */
+  private transactionQueue: Promise<void> = Promise.resolve();
+
   /**
    * 根据用户 ID 获取用户信息
    * 
@@ -106,6 +175,40 @@ export class MockAdapter implements IStorageAdapter {
     return { ...user }; // 返回副本
   }
 
+  /**
+   * 条件扣减用户积分
+   *
+   * 检查与更新之间没有 await，在单线程事件循环中是原子的。
+   *
+   * @param userId - 用户唯一标识符
+   * @param amount - 扣减金额
+   * @param minBalance - 扣减后允许的最低余额
+   * @param _txn - 可选的事务上下文
+   * @returns 扣减后的用户对象；余额不足时返回 null
+   * @throws UserNotFoundError 如果用户不存在
+   */
+  async debitUserCredits(
+    userId: string,
+    amount: number,
+    minBalance: number,
+    _txn?: any
+  ): Promise<User | null> {
+    const user = this.users.get(userId);
+
+    if (!user) {
+      throw new UserNotFoundError(userId);
+    }
+
+    if (user.credits - amount < minBalance) {
+      return null;
+    }
+
+    user.credits -= amount;
+    user.updatedAt = new Date();
+
+    return { ...user }; // 返回副本
+  }
+
   /**
    * 创建交易记录
    * 
@@ -121,6 +224,8 @@ export class MockAdapter implements IStorageAdapter {
       amount: transaction.amount,
       balanceBefore: transaction.balanceBefore,
       balanceAfter: transaction.balanceAfter,
+      ...(transaction.wallet !== undefined && { wallet: transaction.wallet }),
+      ...(transaction.operation !== undefined && { operation: transaction.operation }),
       metadata: transaction.metadata || {},
       createdAt: new Date()
     };
@@ -187,13 +292,270 @@ export class MockAdapter implements IStorageAdapter {
       key: record.key,
       result: record.result,
       createdAt: new Date(),
-      expiresAt: record.expiresAt
+      expiresAt: record.expiresAt,
+      ...(record.fingerprint !== undefined && { fingerprint: record.fingerprint })
     };
 
     this.idempotencyRecords.set(record.key, created);
     return { ...created }; // 返回副本
   }
 
+  /**
+   * 占用幂等键
+   * 
+   * 检查和写入之间没有 await，因此在单线程中是原子的。
+   * 
+   * @param claim - 占用数据
+   * @param _txn - 可选的事务上下文
+   * @returns 占用成功时返回 null，否则返回现有记录
+   */
+  async claimIdempotencyRecord(
+    claim: IdempotencyClaimInput,
+    _txn?: any
+  ): Promise<IdempotencyRecord | null> {
+    const existing = this.idempotencyRecords.get(claim.key);
+
+    if (existing && existing.expiresAt >= new Date()) {
+      return { ...existing };
+    }
+
+    this.idempotencyRecords.set(claim.key, {
+      key: claim.key,
+      result: null,
+      createdAt: new Date(),
+      expiresAt: claim.expiresAt,
+      status: 'pending',
+      ...(claim.fingerprint !== undefined && { fingerprint: claim.fingerprint })
+    });
+    return null;
+  }
+
+  /**
+   * 保存请求结果并完成幂等键占用
+   * 
+   * @param record - 幂等性记录数据
+   * @param txn - 可选的事务上下文
+   * @returns 保存的幂等性记录
+   */
+  async completeIdempotencyRecord(record: IdempotencyRecordInput, txn?: any): Promise<IdempotencyRecord> {
+    return this.createIdempotencyRecord(record, txn);
+  }
+
+  /**
+   * 释放未完成的幂等键占用
+   * 
+   * @param key - 幂等键
+   * @param fingerprint - 请求指纹，提供时只释放指纹相同的占用
+   * @param _txn - 可选的事务上下文
+   */
+  async releaseIdempotencyRecord(key: string, fingerprint?: string, _txn?: any): Promise<void> {
+    const existing = this.idempotencyRecords.get(key);
+
+    if (
+      existing?.status === 'pending' &&
+      (fingerprint === undefined || existing.fingerprint === fingerprint)
+    ) {
+      this.idempotencyRecords.delete(key);
+    }
+  }
+
+  /**
+   * 删除已过期的幂等性记录
+   * 
+   * @param before - 删除 expiresAt 早于此时间的记录
+   * @param batchSize - 本次最多删除的数量
+   * @param _txn - 可选的事务上下文
+   * @returns 实际删除的数量
+   */
+  async deleteExpiredIdempotencyRecords(before: Date, batchSize: number, _txn?: any): Promise<number> {
+    return deleteBatch(this.idempotencyRecords, record => record.expiresAt < before, batchSize);
+  }
+
+  /**
+   * 删除已过期的冻结记录
+   * 
+   * @param before - 删除 expiresAt 早于此时间的冻结
+   * @param batchSize - 本次最多删除的数量
+   * @param _txn - 可选的事务上下文
+   * @returns 实际删除的数量
+   */
+  async deleteExpiredCreditHolds(before: Date, batchSize: number, _txn?: any): Promise<number> {
+    const now = new Date();
+    return deleteBatch(
+      this.creditHolds,
+      hold => hold.expiresAt < before && (hold.status !== 'pending' || hold.expiresAt < now),
+      batchSize
+    );
+  }
+
+  /**
+   * 删除已过期且已耗尽的积分批次
+   * 
+   * @param before - 删除 expiresAt 早于此时间的批次
+   * @param batchSize - 本次最多删除的数量
+   * @param _txn - 可选的事务上下文
+   * @returns 实际删除的数量
+   */
+  async deleteExpiredCreditLots(before: Date, batchSize: number, _txn?: any): Promise<number> {
+    return deleteBatch(
+      this.creditLots,
+      lot => lot.remaining === 0 && lot.expiresAt < before,
+      batchSize
+    );
+  }
+
+  /**
+   * 分页获取余额为负数的用户
+   * 
+   * @param limit - 返回的最大数量
+   * @param offset - 跳过的数量
+   * @param _txn - 可选的事务上下文
+   * @returns 按 credits 升序、id 升序排序的用户副本
+   */
+  async getOverdrawnUsers(limit: number, offset: number, _txn?: any): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter(user => user.credits < 0)
+      .sort((a, b) => a.credits - b.credits || a.id.localeCompare(b.id))
+      .slice(offset, offset + limit)
+      .map(user => ({ ...user }));
+  }
+
+  /**
+   * 获取会员已过期的用户
+   * 
+   * @param now - 当前时间
+   * @param limit - 最多返回的数量
+   * @param _txn - 可选的事务上下文
+   * @returns 有会员等级且 membershipExpiresAt < now 的用户副本，按到期时间升序排列
+   */
+  async getUsersWithExpiredMembership(now: Date, limit: number, _txn?: any): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter(user =>
+        user.membershipTier !== null &&
+        user.membershipExpiresAt !== null &&
+        user.membershipExpiresAt < now
+      )
+      .sort((a, b) =>
+        a.membershipExpiresAt!.getTime() - b.membershipExpiresAt!.getTime() || a.id.localeCompare(b.id)
+      )
+      .slice(0, limit)
+      .map(user => ({ ...user }));
+  }
+
+  /**
+   * 保存用户计划中的等级变更
+   * 
+   * @param change - 计划变更数据
+   * @param _txn - 可选的事务上下文
+   * @returns 保存后的计划变更，已存在时覆盖
+   */
+  async saveScheduledTierChange(
+    change: ScheduledTierChangeInput,
+    _txn?: any
+  ): Promise<ScheduledTierChange> {
+    const saved: ScheduledTierChange = {
+      id: generateId(),
+      userId: change.userId,
+      targetTier: change.targetTier,
+      effectiveAt: change.effectiveAt,
+      metadata: change.metadata ?? {},
+      createdAt: new Date()
+    };
+
+    this.scheduledTierChanges.set(change.userId, saved);
+    return { ...saved };
+  }
+
+  /**
+   * 获取用户计划中的等级变更
+   * 
+   * @param userId - 用户唯一标识符
+   * @param _txn - 可选的事务上下文
+   * @returns 计划变更的副本；没有时返回 null
+   */
+  async getScheduledTierChange(userId: string, _txn?: any): Promise<ScheduledTierChange | null> {
+    const change = this.scheduledTierChanges.get(userId);
+    return change ? { ...change } : null;
+  }
+
+  /**
+   * 删除用户计划中的等级变更
+   * 
+   * @param userId - 用户唯一标识符
+   * @param _txn - 可选的事务上下文
+   */
+  async deleteScheduledTierChange(userId: string, _txn?: any): Promise<void> {
+    this.scheduledTierChanges.delete(userId);
+  }
+
+  /**
+   * 获取已到生效时间的计划等级变更
+   * 
+   * @param now - 当前时间
+   * @param limit - 最多返回的数量
+   * @param _txn - 可选的事务上下文
+   * @returns effectiveAt <= now 的计划变更副本，按生效时间升序排列
+   */
+  async getDueScheduledTierChanges(
+    now: Date,
+    limit: number,
+    _txn?: any
+  ): Promise<ScheduledTierChange[]> {
+    return Array.from(this.scheduledTierChanges.values())
+      .filter(change => change.effectiveAt <= now)
+      .sort((a, b) =>
+        a.effectiveAt.getTime() - b.effectiveAt.getTime() || a.id.localeCompare(b.id)
+      )
+      .slice(0, limit)
+      .map(change => ({ ...change }));
+  }
+
+  /**
+   * 获取用户持有的附加包
+   * 
+   * @param userId - 用户唯一标识符
+   * @param _txn - 可选的事务上下文
+   * @returns 附加包副本，按授予时间升序排列
+   */
+  async getUserAddOns(userId: string, _txn?: any): Promise<UserAddOn[]> {
+    return Array.from(this.addOns.values())
+      .filter(addOn => addOn.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(addOn => ({ ...addOn }));
+  }
+
+  /**
+   * 为用户保存附加包
+   * 
+   * @param userId - 用户唯一标识符
+   * @param addOn - 附加包名称
+   * @param _txn - 可选的事务上下文
+   * @returns 保存后的附加包；已存在时返回原来的记录
+   */
+  async saveUserAddOn(userId: string, addOn: string, _txn?: any): Promise<UserAddOn> {
+    const key = `${userId}:${addOn}`;
+    const existing = this.addOns.get(key);
+
+    if (existing) {
+      return { ...existing };
+    }
+
+    const saved: UserAddOn = { userId, addOn, createdAt: new Date() };
+    this.addOns.set(key, saved);
+    return { ...saved };
+  }
+
+  /**
+   * 删除用户的附加包
+   * 
+   * @param userId - 用户唯一标识符
+   * @param addOn - 附加包名称
+   * @param _txn - 可选的事务上下文
+   */
+  async deleteUserAddOn(userId: string, addOn: string, _txn?: any): Promise<void> {
+    this.addOns.delete(`${userId}:${addOn}`);
+  }
+
   /**
    * 获取用户的交易历史
    * 
@@ -293,6 +655,601 @@ export class MockAdapter implements IStorageAdapter {
     return { ...user }; // 返回副本
   }
 
+  /**
+   * 设置或清除用户的试用结束时间
+   * 
+   * @param userId - 用户唯一标识符
+   * @param trialEndsAt - 试用结束时间；null 表示不是试用
+   * @param _txn - 可选的事务上下文
+   * @throws UserNotFoundError 如果用户不存在
+   */
+  async setMembershipTrial(userId: string, trialEndsAt: Date | null, _txn?: any): Promise<void> {
+    const user = this.users.get(userId);
+
+    if (!user) {
+      throw new UserNotFoundError(userId);
+    }
+
+    user.trialEndsAt = trialEndsAt;
+    user.updatedAt = new Date();
+  }
+
+  /**
+   * 创建积分冻结记录
+   * 
+   * @param hold - 冻结记录数据
+   * @param _txn - 可选的事务上下文
+   * @returns 创建的冻结记录
+   */
+  async createCreditHold(hold: CreditHoldInput, _txn?: any): Promise<CreditHold> {
+    const now = new Date();
+    const created: CreditHold = {
+      id: generateId(),
+      userId: hold.userId,
+      action: hold.action,
+      amount: hold.amount,
+      status: 'pending',
+      capturedAmount: null,
+      metadata: hold.metadata || {},
+      expiresAt: hold.expiresAt,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.creditHolds.set(created.id, created);
+    return { ...created }; // 返回副本
+  }
+
+  /**
+   * 条件创建积分冻结记录
+   * 
+   * 检查与创建之间没有 await，不会与其他并发操作交错执行。
+   * 
+   * @param hold - 冻结记录数据
+   * @param minBalance - 冻结后必须保留的额度
+   * @param now - 当前时间
+   * @param txn - 可选的事务上下文
+   * @returns 创建的冻结记录；可用余额不足时返回 null
+   * @throws UserNotFoundError 如果用户不存在
+   */
+  async createCreditHoldIfAvailable(
+    hold: CreditHoldInput,
+    minBalance: number,
+    now: Date,
+    txn?: any
+  ): Promise<CreditHold | null> {
+    const user = this.users.get(hold.userId);
+
+    if (!user) {
+      throw new UserNotFoundError(hold.userId);
+    }
+
+    if (user.credits - this.sumActiveHolds(hold.userId, now) - hold.amount < minBalance) {
+      return null;
+    }
+
+    return this.createCreditHold(hold, txn);
+  }
+
+  /**
+   * 根据 ID 获取积分冻结记录
+   * 
+   * @param holdId - 冻结记录 ID
+   * @param _txn - 可选的事务上下文
+   * @returns 冻结记录，如果不存在则返回 null
+   */
+  async getCreditHold(holdId: string, _txn?: any): Promise<CreditHold | null> {
+    const hold = this.creditHolds.get(holdId);
+    return hold ? { ...hold } : null;
+  }
+
+  /**
+   * 获取用户当前占用的冻结总额
+   * 
+   * @param userId - 用户唯一标识符
+   * @param now - 当前时间
+   * @param _txn - 可选的事务上下文
+   * @returns 未过期的 pending 冻结金额之和
+   */
+  async getActiveHoldsTotal(userId: string, now: Date, _txn?: any): Promise<number> {
+    return this.sumActiveHolds(userId, now);
+  }
+
+  /**
+   * 同步计算用户未过期的 pending 冻结金额之和
+   * 
+   * @param userId - 用户唯一标识符
+   * @param now - 当前时间
+   * @returns 冻结金额之和
+   */
+  private sumActiveHolds(userId: string, now: Date): number {
+    let total = 0;
+
+    for (const hold of this.creditHolds.values()) {
+      if (hold.userId === userId && hold.status === 'pending' && hold.expiresAt > now) {
+        total += hold.amount;
+      }
+    }
+
+    return total;
+  }
+
+  /**
+   * 完结积分冻结记录
+   * 
+   * @param holdId - 冻结记录 ID
+   * @param status - 目标状态
+   * @param capturedAmount - 实际结算金额
+   * @param _txn - 可选的事务上下文
+   * @returns 更新后的冻结记录；如果记录不存在或已不是 pending 状态则返回 null
+   */
+  async finalizeCreditHold(
+    holdId: string,
+    status: 'captured' | 'released',
+    capturedAmount: number | null,
+    _txn?: any
+  ): Promise<CreditHold | null> {
+    const hold = this.creditHolds.get(holdId);
+
+    // 条件更新：只有 pending 状态的冻结可以被完结
+    if (!hold || hold.status !== 'pending') {
+      return null;
+    }
+
+    hold.status = status;
+    hold.capturedAmount = capturedAmount;
+    hold.updatedAt = new Date();
+
+    return { ...hold };
+  }
+
+  /**
+   * 创建积分批次
+   * 
+   * @param lot - 批次数据
+   * @param _txn - 可选的事务上下文
+   * @returns 创建的批次
+   */
+  async createCreditLot(lot: CreditLotInput, _txn?: any): Promise<CreditLot> {
+    const now = new Date();
+    const created: CreditLot = {
+      id: generateId(),
+      userId: lot.userId,
+      amount: lot.amount,
+      remaining: lot.amount,
+      expiresAt: lot.expiresAt,
+      metadata: lot.metadata || {},
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.creditLots.set(created.id, created);
+    return { ...created }; // 返回副本
+  }
+
+  /**
+   * 获取用户所有仍有剩余的积分批次
+   * 
+   * @param userId - 用户唯一标识符
+   * @param _txn - 可选的事务上下文
+   * @returns remaining > 0 的批次，按 expiresAt 升序排列
+   */
+  async getCreditLots(userId: string, _txn?: any): Promise<CreditLot[]> {
+    return Array.from(this.creditLots.values())
+      .filter(lot => lot.userId === userId && lot.remaining > 0)
+      .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime())
+      .map(lot => ({ ...lot }));
+  }
+
+  /**
+   * 从积分批次中扣减剩余金额
+   * 
+   * @param lotId - 批次 ID
+   * @param amount - 最多扣减的金额
+   * @param _txn - 可选的事务上下文
+   * @returns 实际扣减的金额
+   */
+  async consumeCreditLot(lotId: string, amount: number, _txn?: any): Promise<number> {
+    const lot = this.creditLots.get(lotId);
+
+    if (!lot || lot.remaining <= 0) {
+      return 0;
+    }
+
+    // 同步完成读取与更新，与条件更新等价
+    const consumed = Math.min(lot.remaining, amount);
+    lot.remaining -= consumed;
+    lot.updatedAt = new Date();
+
+    return consumed;
+  }
+
+  /**
+   * 获取已过期但仍有剩余的积分批次
+   * 
+   * @param now - 当前时间
+   * @param limit - 最多返回的数量
+   * @param _txn - 可选的事务上下文
+   * @returns remaining > 0 且 expiresAt <= now 的批次，按 expiresAt 升序排列
+   */
+  async getExpiredCreditLots(now: Date, limit: number, _txn?: any): Promise<CreditLot[]> {
+    return Array.from(this.creditLots.values())
+      .filter(lot => lot.remaining > 0 && lot.expiresAt <= now)
+      .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime())
+      .slice(0, limit)
+      .map(lot => ({ ...lot }));
+  }
+
+  /**
+   * 获取用户某个附加钱包的余额
+   * 
+   * @param userId - 用户唯一标识符
+   * @param wallet - 钱包名称
+   * @param _txn - 可选的事务上下文
+   * @returns 钱包余额；钱包不存在时返回 0
+   */
+  async getWalletBalance(userId: string, wallet: string, _txn?: any): Promise<number> {
+    return this.wallets.get(userId)?.get(wallet) ?? 0;
+  }
+
+  /**
+   * 获取用户所有附加钱包的余额
+   * 
+   * @param userId - 用户唯一标识符
+   * @param _txn - 可选的事务上下文
+   * @returns 钱包名称到余额的映射
+   */
+  async getWalletBalances(userId: string, _txn?: any): Promise<Record<string, number>> {
+    return Object.fromEntries(this.wallets.get(userId) ?? []);
+  }
+
+  /**
+   * 变更用户附加钱包的余额
+   * 
+   * @param userId - 用户唯一标识符
+   * @param wallet - 钱包名称
+   * @param amount - 变更金额 (正数为增加，负数为减少)
+   * @param _txn - 可选的事务上下文
+   * @returns 变更后的钱包余额
+   * @throws UserNotFoundError 如果用户不存在
+   */
+  async updateWalletBalance(
+    userId: string,
+    wallet: string,
+    amount: number,
+    _txn?: any
+  ): Promise<number> {
+    if (!this.users.has(userId)) {
+      throw new UserNotFoundError(userId);
+    }
+
+    let balances = this.wallets.get(userId);
+    if (!balances) {
+      balances = new Map();
+      this.wallets.set(userId, balances);
+    }
+
+    const balance = (balances.get(wallet) ?? 0) + amount;
+    balances.set(wallet, balance);
+
+    return balance;
+  }
+
+  /**
+   * 条件扣减用户附加钱包的余额
+   * 
+   * @param userId - 用户唯一标识符
+   * @param wallet - 钱包名称
+   * @param amount - 扣减金额
+   * @param minBalance - 扣减后允许的最低余额
+   * @param _txn - 可选的事务上下文
+   * @returns 扣减后的钱包余额；余额不足时返回 null
+   * @throws UserNotFoundError 如果用户不存在
+   */
+  async debitWalletBalance(
+    userId: string,
+    wallet: string,
+    amount: number,
+    minBalance: number,
+    _txn?: any
+  ): Promise<number | null> {
+    if (!this.users.has(userId)) {
+      throw new UserNotFoundError(userId);
+    }
+
+    // 同步完成检查与更新，与条件更新等价
+    const current = this.wallets.get(userId)?.get(wallet) ?? 0;
+    if (current - amount < minBalance) {
+      return null;
+    }
+
+    return await this.updateWalletBalance(userId, wallet, -amount);
+  }
+
+  /**
+   * 根据组织 ID 获取组织信息
+   * 
+   * @param organizationId - 组织唯一标识符
+   * @param _txn - 可选的事务上下文
+   * @returns 组织对象，如果不存在则返回 null
+   */
+  async getOrganizationById(organizationId: string, _txn?: any): Promise<Organization | null> {
+    const organization = this.organizations.get(organizationId);
+    return organization ? { ...organization } : null;
+  }
+
+  /**
+   * 条件扣减组织积分池
+   * 
+   * @param organizationId - 组织唯一标识符
+   * @param amount - 扣减金额
+   * @param minBalance - 扣减后允许的最低余额
+   * @param _txn - 可选的事务上下文
+   * @returns 扣减后的组织对象；余额不足时返回 null
+   * @throws OrganizationNotFoundError 如果组织不存在
+   */
+  async debitOrganizationCredits(
+    organizationId: string,
+    amount: number,
+    minBalance: number,
+    _txn?: any
+  ): Promise<Organization | null> {
+    const organization = this.organizations.get(organizationId);
+
+    if (!organization) {
+      throw new OrganizationNotFoundError(organizationId);
+    }
+
+    if (organization.credits - amount < minBalance) {
+      return null;
+    }
+
+    organization.credits -= amount;
+    organization.updatedAt = new Date();
+
+    return { ...organization };
+  }
+
+  /**
+   * 变更组织积分池余额
+   * 
+   * @param organizationId - 组织唯一标识符
+   * @param amount - 变更金额 (正数为增加，负数为减少)
+   * @param _txn - 可选的事务上下文
+   * @returns 更新后的组织对象
+   * @throws OrganizationNotFoundError 如果组织不存在
+   */
+  async updateOrganizationCredits(
+    organizationId: string,
+    amount: number,
+    _txn?: any
+  ): Promise<Organization> {
+    const organization = this.organizations.get(organizationId);
+
+    if (!organization) {
+      throw new OrganizationNotFoundError(organizationId);
+    }
+
+    organization.credits += amount;
+    organization.updatedAt = new Date();
+
+    return { ...organization };
+  }
+
+  /**
+   * 获取组织成员的所有消费限额
+   * 
+   * @param organizationId - 组织唯一标识符
+   * @param userId - 成员的用户 ID
+   * @param _txn - 可选的事务上下文
+   * @returns 消费限额数组
+   */
+  async getMemberSpendingLimits(
+    organizationId: string,
+    userId: string,
+    _txn?: any
+  ): Promise<MemberSpendingLimit[]> {
+    return Array.from(this.spendingLimits.values())
+      .filter(l => l.organizationId === organizationId && l.userId === userId)
+      .map(l => ({ ...l }));
+  }
+
+  /**
+   * 创建或更新组织成员的消费限额
+   * 
+   * @param limit - 消费限额数据
+   * @param _txn - 可选的事务上下文
+   * @returns 保存后的消费限额
+   */
+  async setMemberSpendingLimit(
+    limit: MemberSpendingLimitInput,
+    _txn?: any
+  ): Promise<MemberSpendingLimit> {
+    const key = `${limit.organizationId}:${limit.userId}:${limit.period}`;
+    const existing = this.spendingLimits.get(key);
+    const now = new Date();
+
+    const saved: MemberSpendingLimit = {
+      ...limit,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+
+    this.spendingLimits.set(key, saved);
+    return { ...saved };
+  }
+
+  /**
+   * 删除组织成员某个周期的消费限额
+   * 
+   * @param organizationId - 组织唯一标识符
+   * @param userId - 成员的用户 ID
+   * @param period - 统计周期
+   * @param _txn - 可选的事务上下文
+   */
+  async deleteMemberSpendingLimit(
+    organizationId: string,
+    userId: string,
+    period: SpendingLimitPeriod,
+    _txn?: any
+  ): Promise<void> {
+    this.spendingLimits.delete(`${organizationId}:${userId}:${period}`);
+  }
+
+  /**
+   * 统计组织成员从组织积分池消费的积分
+   * 
+   * @param organizationId - 组织唯一标识符
+   * @param userId - 成员的用户 ID
+   * @param since - 统计起始时间 (包含)
+   * @param _txn - 可选的事务上下文
+   * @returns 消费总额
+   */
+  async getMemberSpending(
+    organizationId: string,
+    userId: string,
+    since: Date,
+    _txn?: any
+  ): Promise<number> {
+    return this.transactions
+      .filter(t =>
+        t.userId === userId &&
+        t.metadata.organizationId === organizationId &&
+        t.amount < 0 &&
+        t.createdAt >= since
+      )
+      .reduce((sum, t) => sum - t.amount, 0);
+  }
+
+  /**
+   * 统计用户执行某个操作的次数
+   * 
+   * @param userId - 用户唯一标识符
+   * @param action - 操作名称
+   * @param since - 统计起始时间 (包含)
+   * @param _txn - 可选的事务上下文
+   * @returns 次数
+   */
+  async countActionUsage(userId: string, action: string, since: Date, _txn?: any): Promise<number> {
+    return this.transactions.filter(t =>
+      t.userId === userId &&
+      t.action === action &&
+      ['charge', 'chargeBatch', 'capture'].includes(t.operation!) &&
+      t.createdAt >= since
+    ).length;
+  }
+
+  /**
+   * 根据交易 ID 获取交易记录
+   * 
+   * @param transactionId - 交易唯一标识符
+   * @param _txn - 可选的事务上下文
+   * @returns 交易记录，如果不存在则返回 null
+   */
+  async getTransactionById(transactionId: string, _txn?: any): Promise<Transaction | null> {
+    const transaction = this.transactions.find(t => t.id === transactionId);
+    return transaction ? { ...transaction } : null;
+  }
+
+  /**
+   * 条件增加扣费交易的累计退款金额
+   * 
+   * @param transactionId - 原扣费交易 ID
+   * @param amount - 本次退款金额
+   * @param maxTotal - 累计退款金额上限
+   * @param _txn - 可选的事务上下文
+   * @returns 更新后的累计退款金额；会超过上限时返回 null
+   * @throws TransactionNotFoundError 如果交易不存在
+   */
+  async addTransactionRefund(
+    transactionId: string,
+    amount: number,
+    maxTotal: number,
+    _txn?: any
+  ): Promise<number | null> {
+    const transaction = this.transactions.find(t => t.id === transactionId);
+
+    if (!transaction) {
+      throw new TransactionNotFoundError(transactionId);
+    }
+
+    const refundedAmount = (transaction.refundedAmount ?? 0) + amount;
+    if (refundedAmount > maxTotal) {
+      return null;
+    }
+
+    transaction.refundedAmount = refundedAmount;
+    return refundedAmount;
+  }
+
+  /**
+   * 在事务中执行回调
+   * 
+   * 事务按调用顺序串行执行：前一个事务提交或回滚后才开始下一个，
+   * 因此回滚只会撤销本事务的写入，不会撤销其他事务已提交的写入。
+   * 执行前保存所有存储的快照，回调抛出错误时恢复快照，模拟数据库事务的回滚。
+   * 
+   * 注意：未在事务中执行的并发写入不参与串行，回滚时仍可能被撤销；
+   * 回调中不能再调用 runInTransaction，否则会等待自身而无法结束。
+   * 
+   * @param fn - 在事务中执行的回调
+   * @returns 回调的返回值
+   */
+  async runInTransaction<T>(fn: (txn: any) => Promise<T>): Promise<T> {
+    const previous = this.transactionQueue;
+    let release!: () => void;
+    this.transactionQueue = new Promise(resolve => {
+      release = resolve;
+    });
+
+    await previous;
+
+    try {
+      return await this.executeTransaction(fn);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * 执行事务回调，回调抛出错误时恢复执行前的快照
+   * 
+   * @param fn - 在事务中执行的回调
+   * @returns 回调的返回值
+   */
+  private async executeTransaction<T>(fn: (txn: any) => Promise<T>): Promise<T> {
+    const snapshot = {
+      users: new Map(Array.from(this.users, ([id, u]) => [id, { ...u }])),
+      transactions: this.transactions.map(t => ({ ...t })),
+      auditLogs: this.auditLogs.map(l => ({ ...l })),
+      idempotencyRecords: new Map(this.idempotencyRecords),
+      creditHolds: new Map(Array.from(this.creditHolds, ([id, h]) => [id, { ...h }])),
+      creditLots: new Map(Array.from(this.creditLots, ([id, l]) => [id, { ...l }])),
+      wallets: new Map(Array.from(this.wallets, ([id, w]) => [id, new Map(w)])),
+      organizations: new Map(Array.from(this.organizations, ([id, o]) => [id, { ...o }])),
+      spendingLimits: new Map(this.spendingLimits),
+      scheduledTierChanges: new Map(this.scheduledTierChanges),
+      addOns: new Map(this.addOns)
+    };
+
+    try {
+      return await fn({ mockTransaction: true });
+    } catch (error) {
+      this.users = snapshot.users;
+      this.transactions = snapshot.transactions;
+      this.auditLogs = snapshot.auditLogs;
+      this.idempotencyRecords = snapshot.idempotencyRecords;
+      this.creditHolds = snapshot.creditHolds;
+      this.creditLots = snapshot.creditLots;
+      this.wallets = snapshot.wallets;
+      this.organizations = snapshot.organizations;
+      this.spendingLimits = snapshot.spendingLimits;
+      this.scheduledTierChanges = snapshot.scheduledTierChanges;
+      this.addOns = snapshot.addOns;
+      throw error;
+    }
+  }
+
   // ==================== 测试辅助方法 ====================
 
   /**
@@ -319,6 +1276,8 @@ export class MockAdapter implements IStorageAdapter {
       credits: user.credits ?? 0,
       membershipTier: user.membershipTier ?? null,
       membershipExpiresAt: user.membershipExpiresAt ?? null,
+      ...(user.trialEndsAt !== undefined && { trialEndsAt: user.trialEndsAt }),
+      ...(user.organizationId !== undefined && { organizationId: user.organizationId }),
       createdAt: user.createdAt ?? now,
       updatedAt: user.updatedAt ?? now
     };
@@ -327,6 +1286,36 @@ export class MockAdapter implements IStorageAdapter {
     return { ...created };
   }
 
+  /**
+   * 创建组织（测试辅助方法）
+   * 
+   * 这个方法不是 IStorageAdapter 接口的一部分，
+   * 用于在测试中准备组织积分池。
+   * 
+   * @param organization - 组织数据（可以是部分数据，会填充默认值）
+   * @returns 创建的组织对象
+   * 
+   * @example
+   * ```typescript
+   * await adapter.createOrganization({ id: 'org-1', credits: 5000 });
+   * await adapter.createUser({ id: 'user-123', organizationId: 'org-1' });
+   * ```
+   */
+  async createOrganization(
+    organization: Partial<Organization> & { id: string }
+  ): Promise<Organization> {
+    const now = new Date();
+    const created: Organization = {
+      id: organization.id,
+      credits: organization.credits ?? 0,
+      createdAt: organization.createdAt ?? now,
+      updatedAt: organization.updatedAt ?? now
+    };
+
+    this.organizations.set(created.id, created);
+    return { ...created };
+  }
+
   /**
    * 重置所有存储（测试辅助方法）
    * 
@@ -344,6 +1333,13 @@ export class MockAdapter implements IStorageAdapter {
     this.transactions = [];
     this.auditLogs = [];
     this.idempotencyRecords.clear();
+    this.creditHolds.clear();
+    this.creditLots.clear();
+    this.wallets.clear();
+    this.organizations.clear();
+    this.spendingLimits.clear();
+    this.scheduledTierChanges.clear();
+    this.addOns.clear();
     idCounter = 0; // 重置 ID 计数器
   }
 
@@ -416,6 +1412,40 @@ export class MockAdapter implements IStorageAdapter {
     return Array.from(this.idempotencyRecords.values()).map(r => ({ ...r }));
   }
 
+  /**
+   * 获取所有积分冻结记录（测试辅助方法）
+   * 
+   * 返回所有冻结记录的副本，用于测试断言。
+   * 
+   * @returns 所有冻结记录的数组
+   * 
+   * @example
+   * ```typescript
+   * const holds = adapter.getAllCreditHolds();
+   * expect(holds[0].status).toBe('captured');
+   * ```
+   */
+  getAllCreditHolds(): CreditHold[] {
+    return Array.from(this.creditHolds.values()).map(h => ({ ...h }));
+  }
+
+  /**
+   * 获取所有积分批次（测试辅助方法）
+   * 
+   * 返回所有批次（包括已耗尽的）的副本，用于测试断言。
+   * 
+   * @returns 所有积分批次的数组
+   * 
+   * @example
+   * ```typescript
+   * const lots = adapter.getAllCreditLots();
+   * expect(lots[0].remaining).toBe(0);
+   * ```
+   */
+  getAllCreditLots(): CreditLot[] {
+    return Array.from(this.creditLots.values()).map(l => ({ ...l }));
+  }
+
   /**
    * 设置用户（测试辅助方法）
    * 
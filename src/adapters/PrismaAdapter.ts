@@ -15,9 +15,38 @@ import {
   AuditLog,
   AuditLogInput,
   IdempotencyRecord,
-  IdempotencyRecordInput
+  IdempotencyRecordInput,
+  IdempotencyClaimInput,
+  CreditHold,
+  CreditHoldInput,
+  CreditLot,
+  CreditLotInput,
+  Organization,
+  MemberSpendingLimit,
+  MemberSpendingLimitInput,
+  SpendingLimitPeriod,
+  ScheduledTierChange,
+  ScheduledTierChangeInput,
+  UserAddOn
 } from '../core/types';
-import { UserNotFoundError } from '../core/errors';
+import {
+  UserNotFoundError,
+  OrganizationNotFoundError,
+  TransactionNotFoundError
+} from '../core/errors';
+
+/**
+ * 可重试的 Prisma 错误代码
+ * 连接类错误、连接池超时和写冲突通常在稍后重试时成功
+ */
+const TRANSIENT_PRISMA_ERROR_CODES = [
+  'P1001', // Can't reach database server
+  'P1002', // Database server timed out
+  'P1008', // Operations timed out
+  'P1017', // Server has closed the connection
+  'P2024', // Timed out fetching a new connection from the connection pool
+  'P2034'  // Transaction failed due to a write conflict or a deadlock
+];
 
 /**
  * Prisma 适配器类
@@ -84,6 +113,8 @@ export class PrismaAdapter implements IStorageAdapter {
         credits: user.credits,
         membershipTier: user.membershipTier,
         membershipExpiresAt: user.membershipExpiresAt,
+        trialEndsAt: user.trialEndsAt,
+        organizationId: user.organizationId,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt
       };
@@ -119,6 +150,8 @@ export class PrismaAdapter implements IStorageAdapter {
         credits: user.credits,
         membershipTier: user.membershipTier,
         membershipExpiresAt: user.membershipExpiresAt,
+        trialEndsAt: user.trialEndsAt,
+        organizationId: user.organizationId,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt
       };
@@ -133,6 +166,68 @@ export class PrismaAdapter implements IStorageAdapter {
     }
   }
 
+  /**
+   * 条件扣减用户积分
+   *
+   * 使用单条 `UPDATE ... WHERE credits - amount >= minBalance RETURNING` 语句，
+   * 余额检查与扣减在数据库中原子完成，并直接返回实际写入的记录。
+   *
+   * @param userId - 用户唯一标识符
+   * @param amount - 扣减金额
+   * @param minBalance - 扣减后允许的最低余额
+   * @param txn - 可选的事务上下文
+   * @returns 扣减后的用户对象；余额不足时返回 null
+   * @throws UserNotFoundError 如果用户不存在
+   */
+  async debitUserCredits(
+    userId: string,
+    amount: number,
+    minBalance: number,
+    txn?: any
+  ): Promise<User | null> {
+    const client = this.getClient(txn);
+
+    try {
+      const rows: any[] = await client.$queryRaw`
+        UPDATE "User"
+        SET "credits" = "credits" - ${amount}, "updatedAt" = NOW()
+        WHERE "id" = ${userId} AND "credits" - ${amount} >= ${minBalance}
+        RETURNING "id", "credits", "membershipTier", "membershipExpiresAt", "trialEndsAt", "organizationId", "createdAt", "updatedAt"
+      `;
+
+      if (rows.length === 0) {
+        // 未更新任何行：区分用户不存在与余额不足
+        const existing = await client.user.findUnique({
+          where: { id: userId }
+        });
+
+        if (!existing) {
+          throw new UserNotFoundError(userId);
+        }
+
+        return null;
+      }
+
+      const user = rows[0];
+      return {
+        id: user.id,
+        credits: user.credits,
+        membershipTier: user.membershipTier,
+        membershipExpiresAt: user.membershipExpiresAt,
+        trialEndsAt: user.trialEndsAt,
+        organizationId: user.organizationId,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt
+      };
+    } catch (error) {
+      if (error instanceof UserNotFoundError) {
+        throw error;
+      }
+
+      throw this.handlePrismaError(error, 'debitUserCredits');
+    }
+  }
+
   /**
    * 创建交易记录
    * 
@@ -151,6 +246,8 @@ export class PrismaAdapter implements IStorageAdapter {
           amount: transaction.amount,
           balanceBefore: transaction.balanceBefore,
           balanceAfter: transaction.balanceAfter,
+          ...(transaction.wallet !== undefined && { wallet: transaction.wallet }),
+          ...(transaction.operation !== undefined && { operation: transaction.operation }),
           metadata: transaction.metadata || {}
         }
       });
@@ -163,6 +260,8 @@ export class PrismaAdapter implements IStorageAdapter {
         amount: created.amount,
         balanceBefore: created.balanceBefore,
         balanceAfter: created.balanceAfter,
+        ...(created.wallet && { wallet: created.wallet }),
+        ...(created.operation && { operation: created.operation }),
         metadata: created.metadata as Record<string, any>,
         createdAt: created.createdAt
       };
@@ -233,13 +332,7 @@ export class PrismaAdapter implements IStorageAdapter {
         return null;
       }
 
-      // 将 Prisma 模型映射到 SDK IdempotencyRecord 类型
-      return {
-        key: record.key,
-        result: record.result,
-        createdAt: record.createdAt,
-        expiresAt: record.expiresAt
-      };
+      return this.mapIdempotencyRecord(record);
     } catch (error) {
       throw this.handlePrismaError(error, 'getIdempotencyRecord');
     }
@@ -260,185 +353,1543 @@ export class PrismaAdapter implements IStorageAdapter {
         data: {
           key: record.key,
           result: record.result,
-          expiresAt: record.expiresAt
+          expiresAt: record.expiresAt,
+          ...(record.fingerprint !== undefined && { fingerprint: record.fingerprint })
         }
       });
 
-      // 将 Prisma 模型映射到 SDK IdempotencyRecord 类型
-      return {
-        key: created.key,
-        result: created.result,
-        createdAt: created.createdAt,
-        expiresAt: created.expiresAt
-      };
+      return this.mapIdempotencyRecord(created);
     } catch (error) {
       throw this.handlePrismaError(error, 'createIdempotencyRecord');
     }
   }
 
   /**
-   * 获取用户的交易历史
+   * 占用幂等键
    * 
-   * @param userId - 用户唯一标识符
-   * @param options - 查询选项 (分页、过滤等)
+   * 使用 INSERT ... ON CONFLICT 原子地写入 pending 记录，
+   * 现有记录已过期时覆盖，否则保持不变并返回现有记录。
+   * 
+   * @param claim - 占用数据
    * @param txn - 可选的事务上下文
-   * @returns 交易记录列表，按时间戳降序排列
+   * @returns 占用成功时返回 null，否则返回现有记录
    */
-  async getTransactions(
-    userId: string,
-    options?: {
-      limit?: number;
-      offset?: number;
-      startDate?: Date;
-      endDate?: Date;
-      action?: string;
-    },
+  async claimIdempotencyRecord(
+    claim: IdempotencyClaimInput,
     txn?: any
-  ): Promise<Transaction[]> {
+  ): Promise<IdempotencyRecord | null> {
     const client = this.getClient(txn);
-    
+    const fingerprint = claim.fingerprint ?? null;
+
     try {
-      // 构建查询条件
-      const where: any = {
-        userId
-      };
+      const rows: any[] = await client.$queryRaw`
+        INSERT INTO "IdempotencyRecord" ("key", "result", "fingerprint", "status", "createdAt", "expiresAt")
+        VALUES (${claim.key}, 'null'::jsonb, ${fingerprint}, 'pending', NOW(), ${claim.expiresAt})
+        ON CONFLICT ("key") DO UPDATE
+        SET "result" = 'null'::jsonb,
+            "fingerprint" = EXCLUDED."fingerprint",
+            "status" = 'pending',
+            "createdAt" = NOW(),
+            "expiresAt" = EXCLUDED."expiresAt"
+        WHERE "IdempotencyRecord"."expiresAt" < NOW()
+        RETURNING "key"
+      `;
 
-      // 添加日期范围过滤
-      if (options?.startDate || options?.endDate) {
-        where.createdAt = {};
-        if (options.startDate) {
-          where.createdAt.gte = options.startDate;
-        }
-        if (options.endDate) {
-          where.createdAt.lte = options.endDate;
-        }
+      if (rows.length > 0) {
+        return null;
       }
 
-      // 添加操作类型过滤
-      if (options?.action) {
-        where.action = options.action;
-      }
+      const existing = await client.idempotencyRecord.findUnique({
+        where: { key: claim.key }
+      });
 
-      const transactions = await client.transaction.findMany({
-        where,
-        orderBy: {
-          createdAt: 'desc'
-        },
-        take: options?.limit,
-        skip: options?.offset
+      return existing ? this.mapIdempotencyRecord(existing) : null;
+    } catch (error) {
+      throw this.handlePrismaError(error, 'claimIdempotencyRecord');
+    }
+  }
+
+  /**
+   * 保存请求结果并完成幂等键占用
+   * 
+   * @param record - 幂等性记录数据
+   * @param txn - 可选的事务上下文
+   * @returns 保存的幂等性记录
+   */
+  async completeIdempotencyRecord(record: IdempotencyRecordInput, txn?: any): Promise<IdempotencyRecord> {
+    const client = this.getClient(txn);
+    const data = {
+      result: record.result,
+      expiresAt: record.expiresAt,
+      status: 'completed',
+      fingerprint: record.fingerprint ?? null
+    };
+
+    try {
+      const saved = await client.idempotencyRecord.upsert({
+        where: { key: record.key },
+        create: { key: record.key, ...data },
+        update: data
       });
 
-      // 将 Prisma 模型映射到 SDK Transaction 类型
-      return transactions.map((t: any) => ({
-        id: t.id,
-        userId: t.userId,
-        action: t.action,
-        amount: t.amount,
-        balanceBefore: t.balanceBefore,
-        balanceAfter: t.balanceAfter,
-        metadata: t.metadata as Record<string, any>,
-        createdAt: t.createdAt
-      }));
+      return this.mapIdempotencyRecord(saved);
     } catch (error) {
-      throw this.handlePrismaError(error, 'getTransactions');
+      throw this.handlePrismaError(error, 'completeIdempotencyRecord');
     }
   }
 
   /**
-   * 更新用户会员等级和积分
+   * 释放未完成的幂等键占用
    * 
-   * 在单个原子操作中同时更新用户的会员等级、积分余额和会员到期时间。
+   * @param key - 幂等键
+   * @param fingerprint - 请求指纹，提供时只释放指纹相同的占用
+   * @param txn - 可选的事务上下文
+   */
+  async releaseIdempotencyRecord(key: string, fingerprint?: string, txn?: any): Promise<void> {
+    const client = this.getClient(txn);
+
+    try {
+      await client.idempotencyRecord.deleteMany({
+        where: {
+          key,
+          status: 'pending',
+          ...(fingerprint !== undefined && { fingerprint })
+        }
+      });
+    } catch (error) {
+      throw this.handlePrismaError(error, 'releaseIdempotencyRecord');
+    }
+  }
+
+  /**
+   * 删除已过期的幂等性记录
    * 
-   * @param userId - 用户唯一标识符
-   * @param membershipTier - 新的会员等级
-   * @param credits - 新的积分余额
-   * @param membershipExpiresAt - 会员到期时间（可选）
+   * Prisma 的 deleteMany 不支持 take，使用子查询限制每批删除的数量。
+   * 
+   * @param before - 删除 expiresAt 早于此时间的记录
+   * @param batchSize - 本次最多删除的数量
    * @param txn - 可选的事务上下文
-   * @returns 更新后的用户对象
-   * @throws UserNotFoundError 如果用户不存在
+   * @returns 实际删除的数量
    */
-  async updateUserMembership(
-    userId: string,
-    membershipTier: string,
-    credits: number,
-    membershipExpiresAt?: Date | null,
-    txn?: any
-  ): Promise<User> {
+  async deleteExpiredIdempotencyRecords(before: Date, batchSize: number, txn?: any): Promise<number> {
     const client = this.getClient(txn);
-    
+
     try {
-      // 构建更新数据对象
-      const updateData: any = {
-        membershipTier,
-        credits
-      };
+      return await client.$executeRaw`
+        DELETE FROM "IdempotencyRecord"
+        WHERE "key" IN (
+          SELECT "key" FROM "IdempotencyRecord"
+          WHERE "expiresAt" < ${before}
+          LIMIT ${batchSize}
+        )
+      `;
+    } catch (error) {
+      throw this.handlePrismaError(error, 'deleteExpiredIdempotencyRecords');
+    }
+  }
 
-      // 处理 membershipExpiresAt 参数
-      // undefined: 不修改现有值（不包含在 updateData 中）
-      // null: 清除到期时间
-      // Date: 设置为指定日期
-      if (membershipExpiresAt !== undefined) {
-        updateData.membershipExpiresAt = membershipExpiresAt;
-      }
+  /**
+   * 删除已过期的冻结记录
+   * 
+   * pending 冻结只有在当前时间已过期时才删除，即使 before 晚于当前时间也不会删除仍然有效的冻结。
+   * 
+   * @param before - 删除 expiresAt 早于此时间的冻结
+   * @param batchSize - 本次最多删除的数量
+   * @param txn - 可选的事务上下文
+   * @returns 实际删除的数量
+   */
+  async deleteExpiredCreditHolds(before: Date, batchSize: number, txn?: any): Promise<number> {
+    const client = this.getClient(txn);
+    const now = new Date();
 
-      // 在单个原子操作中更新所有字段
-      const user = await client.user.update({
-        where: { id: userId },
-        data: updateData
+    try {
+      return await client.$executeRaw`
+        DELETE FROM "CreditHold"
+        WHERE "id" IN (
+          SELECT "id" FROM "CreditHold"
+          WHERE "expiresAt" < ${before}
+            AND ("status" <> 'pending' OR "expiresAt" < ${now})
+          LIMIT ${batchSize}
+        )
+      `;
+    } catch (error) {
+      throw this.handlePrismaError(error, 'deleteExpiredCreditHolds');
+    }
+  }
+
+  /**
+   * 删除已过期且已耗尽的积分批次
+   * 
+   * @param before - 删除 expiresAt 早于此时间的批次
+   * @param batchSize - 本次最多删除的数量
+   * @param txn - 可选的事务上下文
+   * @returns 实际删除的数量
+   */
+  async deleteExpiredCreditLots(before: Date, batchSize: number, txn?: any): Promise<number> {
+    const client = this.getClient(txn);
+
+    try {
+      return await client.$executeRaw`
+        DELETE FROM "CreditLot"
+        WHERE "id" IN (
+          SELECT "id" FROM "CreditLot"
+          WHERE "remaining" = 0 AND "expiresAt" < ${before}
+          LIMIT ${batchSize}
+        )
+      `;
+    } catch (error) {
+      throw this.handlePrismaError(error, 'deleteExpiredCreditLots');
+    }
+  }
+
+  /**
+   * 分页获取余额为负数的用户
+   * 
+   * @param limit - 返回的最大数量
+   * @param offset - 跳过的数量
+   * @param txn - 可选的事务上下文
+   * @returns 按 credits 升序、id 升序排序的用户列表
+   */
+  async getOverdrawnUsers(limit: number, offset: number, txn?: any): Promise<User[]> {
+    const client = this.getClient(txn);
+
+    try {
+      const users = await client.user.findMany({
+        where: { credits: { lt: 0 } },
+        orderBy: [{ credits: 'asc' }, { id: 'asc' }],
+        take: limit,
+        skip: offset
       });
 
-      // 将 Prisma 模型映射到 SDK User 类型
-      return {
+      return users.map((user: any) => ({
         id: user.id,
         credits: user.credits,
         membershipTier: user.membershipTier,
         membershipExpiresAt: user.membershipExpiresAt,
+        trialEndsAt: user.trialEndsAt,
+        organizationId: user.organizationId,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt
-      };
-    } catch (error: any) {
-      // 处理用户不存在的情况
-      if (error.code === 'P2025') {
-        throw new UserNotFoundError(userId);
-      }
-      
-      // 转换其他 Prisma 错误
-      throw this.handlePrismaError(error, 'updateUserMembership');
+      }));
+    } catch (error) {
+      throw this.handlePrismaError(error, 'getOverdrawnUsers');
     }
   }
 
   /**
-   * 处理 Prisma 错误并转换为 SDK 错误
+   * 获取会员已过期的用户
    * 
-   * @param error - Prisma 错误对象
-   * @param operation - 操作名称 (用于错误消息)
-   * @returns SDK 错误
+   * @param now - 当前时间
+   * @param limit - 最多返回的数量
+   * @param txn - 可选的事务上下文
+   * @returns 有会员等级且 membershipExpiresAt < now 的用户，按到期时间升序排列
    */
-  private handlePrismaError(error: any, operation: string): Error {
-    // 如果已经是 SDK 错误（CreditsSDKError 及其子类），直接返回
-    if (error instanceof Error && error.constructor.name.includes('CreditsSDKError')) {
-      return error;
+  async getUsersWithExpiredMembership(now: Date, limit: number, txn?: any): Promise<User[]> {
+    const client = this.getClient(txn);
+
+    try {
+      const users = await client.user.findMany({
+        where: {
+          membershipTier: { not: null },
+          membershipExpiresAt: { lt: now }
+        },
+        orderBy: [{ membershipExpiresAt: 'asc' }, { id: 'asc' }],
+        take: limit
+      });
+
+      return users.map((user: any) => ({
+        id: user.id,
+        credits: user.credits,
+        membershipTier: user.membershipTier,
+        membershipExpiresAt: user.membershipExpiresAt,
+        trialEndsAt: user.trialEndsAt,
+        organizationId: user.organizationId,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt
+      }));
+    } catch (error) {
+      throw this.handlePrismaError(error, 'getUsersWithExpiredMembership');
     }
+  }
+
+  /**
+   * 保存用户计划中的等级变更
+   * 
+   * 使用 upsert，以 userId 为唯一键。
+   * 
+   * @param change - 计划变更数据
+   * @param txn - 可选的事务上下文
+   * @returns 保存后的计划变更
+   */
+  async saveScheduledTierChange(
+    change: ScheduledTierChangeInput,
+    txn?: any
+  ): Promise<ScheduledTierChange> {
+    const client = this.getClient(txn);
+    const { userId, targetTier, effectiveAt, metadata = {} } = change;
+
+    try {
+      const saved = await client.scheduledTierChange.upsert({
+        where: { userId },
+        create: { userId, targetTier, effectiveAt, metadata },
+        update: { targetTier, effectiveAt, metadata }
+      });
+
+      return this.mapScheduledTierChange(saved);
+    } catch (error) {
+      throw this.handlePrismaError(error, 'saveScheduledTierChange');
+    }
+  }
+
+  /**
+   * 获取用户计划中的等级变更
+   * 
+   * @param userId - 用户唯一标识符
+   * @param txn - 可选的事务上下文
+   * @returns 计划变更；没有时返回 null
+   */
+  async getScheduledTierChange(userId: string, txn?: any): Promise<ScheduledTierChange | null> {
+    const client = this.getClient(txn);
+
+    try {
+      const change = await client.scheduledTierChange.findUnique({
+        where: { userId }
+      });
+
+      return change ? this.mapScheduledTierChange(change) : null;
+    } catch (error) {
+      throw this.handlePrismaError(error, 'getScheduledTierChange');
+    }
+  }
+
+  /**
+   * 删除用户计划中的等级变更
+   * 
+   * 使用 deleteMany，计划变更不存在时不会报错。
+   * 
+   * @param userId - 用户唯一标识符
+   * @param txn - 可选的事务上下文
+   */
+  async deleteScheduledTierChange(userId: string, txn?: any): Promise<void> {
+    const client = this.getClient(txn);
+
+    try {
+      await client.scheduledTierChange.deleteMany({
+        where: { userId }
+      });
+    } catch (error) {
+      throw this.handlePrismaError(error, 'deleteScheduledTierChange');
+    }
+  }
+
+  /**
+   * 获取已到生效时间的计划等级变更
+   * 
+   * 使用 ScheduledTierChange 的 effectiveAt 索引。
+   * 
+   * @param now - 当前时间
+   * @param limit - 最多返回的数量
+   * @param txn - 可选的事务上下文
+   * @returns effectiveAt <= now 的计划变更，按生效时间升序排列
+   */
+  async getDueScheduledTierChanges(
+    now: Date,
+    limit: number,
+    txn?: any
+  ): Promise<ScheduledTierChange[]> {
+    const client = this.getClient(txn);
+
+    try {
+      const changes = await client.scheduledTierChange.findMany({
+        where: { effectiveAt: { lte: now } },
+        orderBy: [{ effectiveAt: 'asc' }, { id: 'asc' }],
+        take: limit
+      });
+
+      return changes.map((change: any) => this.mapScheduledTierChange(change));
+    } catch (error) {
+      throw this.handlePrismaError(error, 'getDueScheduledTierChanges');
+    }
+  }
+
+  /**
+   * 获取用户持有的附加包
+   * 
+   * @param userId - 用户唯一标识符
+   * @param txn - 可选的事务上下文
+   * @returns 附加包数组，按授予时间升序排列
+   */
+  async getUserAddOns(userId: string, txn?: any): Promise<UserAddOn[]> {
+    const client = this.getClient(txn);
+
+    try {
+      const addOns = await client.userAddOn.findMany({
+        where: { userId },
+        orderBy: [{ createdAt: 'asc' }, { addOn: 'asc' }]
+      });
+
+      return addOns.map((addOn: any) => this.mapUserAddOn(addOn));
+    } catch (error) {
+      throw this.handlePrismaError(error, 'getUserAddOns');
+    }
+  }
+
+  /**
+   * 为用户保存附加包
+   * 
+   * 使用 upsert，已存在时不修改记录。
+   * 
+   * @param userId - 用户唯一标识符
+   * @param addOn - 附加包名称
+   * @param txn - 可选的事务上下文
+   * @returns 保存后的附加包
+   */
+  async saveUserAddOn(userId: string, addOn: string, txn?: any): Promise<UserAddOn> {
+    const client = this.getClient(txn);
+
+    try {
+      const saved = await client.userAddOn.upsert({
+        where: { userId_addOn: { userId, addOn } },
+        create: { userId, addOn },
+        update: {}
+      });
+
+      return this.mapUserAddOn(saved);
+    } catch (error) {
+      throw this.handlePrismaError(error, 'saveUserAddOn');
+    }
+  }
+
+  /**
+   * 删除用户的附加包
+   * 
+   * 使用 deleteMany，附加包不存在时不会报错。
+   * 
+   * @param userId - 用户唯一标识符
+   * @param addOn - 附加包名称
+   * @param txn - 可选的事务上下文
+   */
+  async deleteUserAddOn(userId: string, addOn: string, txn?: any): Promise<void> {
+    const client = this.getClient(txn);
+
+    try {
+      await client.userAddOn.deleteMany({
+        where: { userId, addOn }
+      });
+    } catch (error) {
+      throw this.handlePrismaError(error, 'deleteUserAddOn');
+    }
+  }
+
+  /**
+   * 获取用户的交易历史
+   * 
+   * @param userId - 用户唯一标识符
+   * @param options - 查询选项 (分页、过滤等)
+   * @param txn - 可选的事务上下文
+   * @returns 交易记录列表，按时间戳降序排列
+   */
+  async getTransactions(
+    userId: string,
+    options?: {
+      limit?: number;
+      offset?: number;
+      startDate?: Date;
+      endDate?: Date;
+      action?: string;
+    },
+    txn?: any
+  ): Promise<Transaction[]> {
+    const client = this.getClient(txn);
+    
+    try {
+      // 构建查询条件
+      const where: any = {
+        userId
+      };
+
+      // 添加日期范围过滤
+      if (options?.startDate || options?.endDate) {
+        where.createdAt = {};
+        if (options.startDate) {
+          where.createdAt.gte = options.startDate;
+        }
+        if (options.endDate) {
+          where.createdAt.lte = options.endDate;
+        }
+      }
+
+      // 添加操作类型过滤
+      if (options?.action) {
+        where.action = options.action;
+      }
+
+      const transactions = await client.transaction.findMany({
+        where,
+        orderBy: {
+          createdAt: 'desc'
+        },
+        take: options?.limit,
+        skip: options?.offset
+      });
+
+      // 将 Prisma 模型映射到 SDK Transaction 类型
+      return transactions.map((t: any) => ({
+        id: t.id,
+        userId: t.userId,
+        action: t.action,
+        amount: t.amount,
+        balanceBefore: t.balanceBefore,
+        balanceAfter: t.balanceAfter,
+        ...(t.wallet && { wallet: t.wallet }),
+        ...(t.refundedAmount > 0 && { refundedAmount: t.refundedAmount }),
+        ...(t.operation && { operation: t.operation }),
+        metadata: t.metadata as Record<string, any>,
+        createdAt: t.createdAt
+      }));
+    } catch (error) {
+      throw this.handlePrismaError(error, 'getTransactions');
+    }
+  }
+
+  /**
+   * 更新用户会员等级和积分
+   * 
+   * 在单个原子操作中同时更新用户的会员等级、积分余额和会员到期时间。
+   * 
+   * @param userId - 用户唯一标识符
+   * @param membershipTier - 新的会员等级
+   * @param credits - 新的积分余额
+   * @param membershipExpiresAt - 会员到期时间（可选）
+   * @param txn - 可选的事务上下文
+   * @returns 更新后的用户对象
+   * @throws UserNotFoundError 如果用户不存在
+   */
+  async updateUserMembership(
+    userId: string,
+    membershipTier: string,
+    credits: number,
+    membershipExpiresAt?: Date | null,
+    txn?: any
+  ): Promise<User> {
+    const client = this.getClient(txn);
+    
+    try {
+      // 构建更新数据对象
+      const updateData: any = {
+        membershipTier,
+        credits
+      };
+
+      // 处理 membershipExpiresAt 参数
+      // undefined: 不修改现有值（不包含在 updateData 中）
+      // null: 清除到期时间
+      // Date: 设置为指定日期
+      if (membershipExpiresAt !== undefined) {
+        updateData.membershipExpiresAt = membershipExpiresAt;
+      }
+
+      // 在单个原子操作中更新所有字段
+      const user = await client.user.update({
+        where: { id: userId },
+        data: updateData
+      });
+
+      // 将 Prisma 模型映射到 SDK User 类型
+      return {
+        id: user.id,
+        credits: user.credits,
+        membershipTier: user.membershipTier,
+        membershipExpiresAt: user.membershipExpiresAt,
+        trialEndsAt: user.trialEndsAt,
+        organizationId: user.organizationId,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt
+      };
+    } catch (error: any) {
+      // 处理用户不存在的情况
+      if (error.code === 'P2025') {
+        throw new UserNotFoundError(userId);
+      }
+      
+      // 转换其他 Prisma 错误
+      throw this.handlePrismaError(error, 'updateUserMembership');
+    }
+  }
+
+  /**
+   * 设置或清除用户的试用结束时间
+   * 
+   * @param userId - 用户唯一标识符
+   * @param trialEndsAt - 试用结束时间；null 表示不是试用
+   * @param txn - 可选的事务上下文
+   * @throws UserNotFoundError 如果用户不存在
+   */
+  async setMembershipTrial(userId: string, trialEndsAt: Date | null, txn?: any): Promise<void> {
+    const client = this.getClient(txn);
+
+    try {
+      await client.user.update({
+        where: { id: userId },
+        data: { trialEndsAt }
+      });
+    } catch (error: any) {
+      if (error.code === 'P2025') {
+        throw new UserNotFoundError(userId);
+      }
+
+      throw this.handlePrismaError(error, 'setMembershipTrial');
+    }
+  }
+
+  /**
+   * 创建积分冻结记录
+   * 
+   * @param hold - 冻结记录数据
+   * @param txn - 可选的事务上下文
+   * @returns 创建的冻结记录
+   */
+  async createCreditHold(hold: CreditHoldInput, txn?: any): Promise<CreditHold> {
+    const client = this.getClient(txn);
+    
+    try {
+      const created = await client.creditHold.create({
+        data: {
+          userId: hold.userId,
+          action: hold.action,
+          amount: hold.amount,
+          status: 'pending',
+          metadata: hold.metadata || {},
+          expiresAt: hold.expiresAt
+        }
+      });
+
+      return this.mapCreditHold(created);
+    } catch (error) {
+      throw this.handlePrismaError(error, 'createCreditHold');
+    }
+  }
+
+  /**
+   * 条件创建积分冻结记录
+   * 
+   * 在事务中先用 SELECT ... FOR UPDATE 锁定用户行，同一用户的并发预授权会在此等待；
+   * 获得行锁后再统计冻结总额，读取到的是其他事务已提交的冻结。
+   * 未提供事务上下文时自动开启事务。
+   * 
+   * @param hold - 冻结记录数据
+   * @param minBalance - 冻结后必须保留的额度
+   * @param now - 当前时间
+   * @param txn - 可选的事务上下文
+   * @returns 创建的冻结记录；可用余额不足时返回 null
+   * @throws UserNotFoundError 如果用户不存在
+   */
+  async createCreditHoldIfAvailable(
+    hold: CreditHoldInput,
+    minBalance: number,
+    now: Date,
+    txn?: any
+  ): Promise<CreditHold | null> {
+    if (!txn) {
+      return await this.runInTransaction(tx => this.createCreditHoldIfAvailable(hold, minBalance, now, tx));
+    }
+
+    let rows: any[];
+    try {
+      rows = await txn.$queryRaw`
+        SELECT "credits" FROM "User" WHERE "id" = ${hold.userId} FOR UPDATE
+      `;
+    } catch (error) {
+      throw this.handlePrismaError(error, 'createCreditHoldIfAvailable');
+    }
+
+    if (rows.length === 0) {
+      throw new UserNotFoundError(hold.userId);
+    }
+
+    const heldTotal = await this.getActiveHoldsTotal(hold.userId, now, txn);
+    if (Number(rows[0].credits) - heldTotal - hold.amount < minBalance) {
+      return null;
+    }
+
+    return await this.createCreditHold(hold, txn);
+  }
+
+  /**
+   * 根据 ID 获取积分冻结记录
+   * 
+   * @param holdId - 冻结记录 ID
+   * @param txn - 可选的事务上下文
+   * @returns 冻结记录，如果不存在则返回 null
+   */
+  async getCreditHold(holdId: string, txn?: any): Promise<CreditHold | null> {
+    const client = this.getClient(txn);
+    
+    try {
+      const hold = await client.creditHold.findUnique({
+        where: { id: holdId }
+      });
+
+      return hold ? this.mapCreditHold(hold) : null;
+    } catch (error) {
+      throw this.handlePrismaError(error, 'getCreditHold');
+    }
+  }
+
+  /**
+   * 获取用户当前占用的冻结总额
+   * 
+   * @param userId - 用户唯一标识符
+   * @param now - 当前时间
+   * @param txn - 可选的事务上下文
+   * @returns 未过期的 pending 冻结金额之和
+   */
+  async getActiveHoldsTotal(userId: string, now: Date, txn?: any): Promise<number> {
+    const client = this.getClient(txn);
+    
+    try {
+      const aggregate = await client.creditHold.aggregate({
+        where: {
+          userId,
+          status: 'pending',
+          expiresAt: { gt: now }
+        },
+        _sum: { amount: true }
+      });
+
+      return aggregate._sum.amount ?? 0;
+    } catch (error) {
+      throw this.handlePrismaError(error, 'getActiveHoldsTotal');
+    }
+  }
+
+  /**
+   * 完结积分冻结记录
+   * 
+   * 使用条件更新（status = 'pending'）保证同一冻结只会被完结一次。
+   * 
+   * @param holdId - 冻结记录 ID
+   * @param status - 目标状态
+   * @param capturedAmount - 实际结算金额
+   * @param txn - 可选的事务上下文
+   * @returns 更新后的冻结记录；如果记录已不是 pending 状态则返回 null
+   */
+  async finalizeCreditHold(
+    holdId: string,
+    status: 'captured' | 'released',
+    capturedAmount: number | null,
+    txn?: any
+  ): Promise<CreditHold | null> {
+    const client = this.getClient(txn);
+    
+    try {
+      const { count } = await client.creditHold.updateMany({
+        where: { id: holdId, status: 'pending' },
+        data: { status, capturedAmount }
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const hold = await client.creditHold.findUnique({
+        where: { id: holdId }
+      });
+
+      return hold ? this.mapCreditHold(hold) : null;
+    } catch (error) {
+      throw this.handlePrismaError(error, 'finalizeCreditHold');
+    }
+  }
+
+  /**
+   * 创建积分批次
+   * 
+   * @param lot - 批次数据
+   * @param txn - 可选的事务上下文
+   * @returns 创建的批次
+   */
+  async createCreditLot(lot: CreditLotInput, txn?: any): Promise<CreditLot> {
+    const client = this.getClient(txn);
+    
+    try {
+      const created = await client.creditLot.create({
+        data: {
+          userId: lot.userId,
+          amount: lot.amount,
+          remaining: lot.amount,
+          expiresAt: lot.expiresAt,
+          metadata: lot.metadata || {}
+        }
+      });
+
+      return this.mapCreditLot(created);
+    } catch (error) {
+      throw this.handlePrismaError(error, 'createCreditLot');
+    }
+  }
+
+  /**
+   * 获取用户所有仍有剩余的积分批次
+   * 
+   * @param userId - 用户唯一标识符
+   * @param txn - 可选的事务上下文
+   * @returns remaining > 0 的批次，按 expiresAt 升序排列
+   */
+  async getCreditLots(userId: string, txn?: any): Promise<CreditLot[]> {
+    const client = this.getClient(txn);
+    
+    try {
+      const lots = await client.creditLot.findMany({
+        where: {
+          userId,
+          remaining: { gt: 0 }
+        },
+        orderBy: { expiresAt: 'asc' }
+      });
+
+      return lots.map((lot: any) => this.mapCreditLot(lot));
+    } catch (error) {
+      throw this.handlePrismaError(error, 'getCreditLots');
+    }
+  }
+
+  /**
+   * 从积分批次中扣减剩余金额
+   * 
+   * 锁定批次行后在同一条语句中扣减 min(remaining, amount)，
+   * 并返回扣减前后的差值，保证并发扣费不会重复消耗同一批次。
+   * 
+   * @param lotId - 批次 ID
+   * @param amount - 最多扣减的金额
+   * @param txn - 可选的事务上下文
+   * @returns 实际扣减的金额
+   */
+  async consumeCreditLot(lotId: string, amount: number, txn?: any): Promise<number> {
+    const client = this.getClient(txn);
+    
+    try {
+      const rows: any[] = await client.$queryRaw`
+        WITH prev AS (
+          SELECT "id", "remaining" FROM "CreditLot" WHERE "id" = ${lotId} FOR UPDATE
+        )
+        UPDATE "CreditLot" AS lot
+        SET "remaining" = prev."remaining" - LEAST(prev."remaining", ${amount}), "updatedAt" = NOW()
+        FROM prev
+        WHERE lot."id" = prev."id" AND prev."remaining" > 0
+        RETURNING prev."remaining" - lot."remaining" AS "consumed"
+      `;
+
+      return rows.length > 0 ? Number(rows[0].consumed) : 0;
+    } catch (error) {
+      throw this.handlePrismaError(error, 'consumeCreditLot');
+    }
+  }
+
+  /**
+   * 获取已过期但仍有剩余的积分批次
+   * 
+   * @param now - 当前时间
+   * @param limit - 最多返回的数量
+   * @param txn - 可选的事务上下文
+   * @returns remaining > 0 且 expiresAt <= now 的批次，按 expiresAt 升序排列
+   */
+  async getExpiredCreditLots(now: Date, limit: number, txn?: any): Promise<CreditLot[]> {
+    const client = this.getClient(txn);
+    
+    try {
+      const lots = await client.creditLot.findMany({
+        where: {
+          remaining: { gt: 0 },
+          expiresAt: { lte: now }
+        },
+        orderBy: { expiresAt: 'asc' },
+        take: limit
+      });
+
+      return lots.map((lot: any) => this.mapCreditLot(lot));
+    } catch (error) {
+      throw this.handlePrismaError(error, 'getExpiredCreditLots');
+    }
+  }
+
+  /**
+   * 根据交易 ID 获取交易记录
+   * 
+   * @param transactionId - 交易唯一标识符
+   * @param txn - 可选的事务上下文
+   * @returns 交易记录，如果不存在则返回 null
+   */
+  async getTransactionById(transactionId: string, txn?: any): Promise<Transaction | null> {
+    const client = this.getClient(txn);
+    
+    try {
+      const t = await client.transaction.findUnique({
+        where: { id: transactionId }
+      });
+
+      if (!t) {
+        return null;
+      }
+
+      return {
+        id: t.id,
+        userId: t.userId,
+        action: t.action,
+        amount: t.amount,
+        balanceBefore: t.balanceBefore,
+        balanceAfter: t.balanceAfter,
+        ...(t.wallet && { wallet: t.wallet }),
+        ...(t.refundedAmount > 0 && { refundedAmount: t.refundedAmount }),
+        ...(t.operation && { operation: t.operation }),
+        metadata: t.metadata as Record<string, any>,
+        createdAt: t.createdAt
+      };
+    } catch (error) {
+      throw this.handlePrismaError(error, 'getTransactionById');
+    }
+  }
+
+  /**
+   * 条件增加扣费交易的累计退款金额
+   * 
+   * 使用单条条件 UPDATE 语句原子完成检查与更新，并发退款不会超过上限。
+   * 
+   * @param transactionId - 原扣费交易 ID
+   * @param amount - 本次退款金额
+   * @param maxTotal - 累计退款金额上限
+   * @param txn - 可选的事务上下文
+   * @returns 更新后的累计退款金额；会超过上限时返回 null
+   * @throws TransactionNotFoundError 如果交易不存在
+   */
+  async addTransactionRefund(
+    transactionId: string,
+    amount: number,
+    maxTotal: number,
+    txn?: any
+  ): Promise<number | null> {
+    const client = this.getClient(txn);
+
+    try {
+      const rows: any[] = await client.$queryRaw`
+        UPDATE "Transaction"
+        SET "refundedAmount" = "refundedAmount" + ${amount}
+        WHERE "id" = ${transactionId} AND "refundedAmount" + ${amount} <= ${maxTotal}
+        RETURNING "refundedAmount"
+      `;
+
+      if (rows.length === 0) {
+        // 未更新任何行：区分交易不存在与超额退款
+        const existing = await client.transaction.findUnique({
+          where: { id: transactionId }
+        });
+
+        if (!existing) {
+          throw new TransactionNotFoundError(transactionId);
+        }
+
+        return null;
+      }
+
+      return rows[0].refundedAmount;
+    } catch (error) {
+      if (error instanceof TransactionNotFoundError) {
+        throw error;
+      }
+
+      throw this.handlePrismaError(error, 'addTransactionRefund');
+    }
+  }
+
+  /**
+   * 在 Prisma 交互式事务中执行回调
+   * 
+   * @param fn - 在事务中执行的回调，参数为 Prisma 事务客户端
+   * @returns 回调的返回值
+   */
+  async runInTransaction<T>(fn: (txn: any) => Promise<T>): Promise<T> {
+    return await this.prisma.$transaction((tx: any) => fn(tx));
+  }
+
+  /**
+   * 获取用户某个附加钱包的余额
+   * 
+   * @param userId - 用户唯一标识符
+   * @param wallet - 钱包名称
+   * @param txn - 可选的事务上下文
+   * @returns 钱包余额；钱包不存在时返回 0
+   */
+  async getWalletBalance(userId: string, wallet: string, txn?: any): Promise<number> {
+    const client = this.getClient(txn);
+    
+    try {
+      const record = await client.creditWallet.findUnique({
+        where: { userId_wallet: { userId, wallet } }
+      });
+
+      return record?.credits ?? 0;
+    } catch (error) {
+      throw this.handlePrismaError(error, 'getWalletBalance');
+    }
+  }
+
+  /**
+   * 获取用户所有附加钱包的余额
+   * 
+   * @param userId - 用户唯一标识符
+   * @param txn - 可选的事务上下文
+   * @returns 钱包名称到余额的映射
+   */
+  async getWalletBalances(userId: string, txn?: any): Promise<Record<string, number>> {
+    const client = this.getClient(txn);
+    
+    try {
+      const records = await client.creditWallet.findMany({
+        where: { userId }
+      });
+
+      return Object.fromEntries(records.map((r: any) => [r.wallet, r.credits]));
+    } catch (error) {
+      throw this.handlePrismaError(error, 'getWalletBalances');
+    }
+  }
+
+  /**
+   * 变更用户附加钱包的余额
+   * 
+   * 使用 upsert，钱包不存在时以变更金额创建。
+   * 
+   * @param userId - 用户唯一标识符
+   * @param wallet - 钱包名称
+   * @param amount - 变更金额 (正数为增加，负数为减少)
+   * @param txn - 可选的事务上下文
+   * @returns 变更后的钱包余额
+   * @throws UserNotFoundError 如果用户不存在
+   */
+  async updateWalletBalance(
+    userId: string,
+    wallet: string,
+    amount: number,
+    txn?: any
+  ): Promise<number> {
+    const client = this.getClient(txn);
+    
+    try {
+      const record = await client.creditWallet.upsert({
+        where: { userId_wallet: { userId, wallet } },
+        create: { userId, wallet, credits: amount },
+        update: { credits: { increment: amount } }
+      });
+
+      return record.credits;
+    } catch (error: any) {
+      // 外键约束失败，说明用户不存在
+      if (error.code === 'P2003') {
+        throw new UserNotFoundError(userId);
+      }
+
+      throw this.handlePrismaError(error, 'updateWalletBalance');
+    }
+  }
+
+  /**
+   * 条件扣减用户附加钱包的余额
+   * 
+   * 与 debitUserCredits 相同，使用单条条件 UPDATE 语句原子完成检查与扣减。
+   * 
+   * @param userId - 用户唯一标识符
+   * @param wallet - 钱包名称
+   * @param amount - 扣减金额
+   * @param minBalance - 扣减后允许的最低余额
+   * @param txn - 可选的事务上下文
+   * @returns 扣减后的钱包余额；余额不足时返回 null
+   */
+  async debitWalletBalance(
+    userId: string,
+    wallet: string,
+    amount: number,
+    minBalance: number,
+    txn?: any
+  ): Promise<number | null> {
+    const client = this.getClient(txn);
+    
+    try {
+      const rows: any[] = await client.$queryRaw`
+        UPDATE "CreditWallet"
+        SET "credits" = "credits" - ${amount}, "updatedAt" = NOW()
+        WHERE "userId" = ${userId} AND "wallet" = ${wallet} AND "credits" - ${amount} >= ${minBalance}
+        RETURNING "credits"
+      `;
+
+      if (rows.length > 0) {
+        return rows[0].credits;
+      }
+
+      // 未更新任何行：钱包不存在时按余额 0 判断（例如扣减 0）
+      if (0 - amount >= minBalance) {
+        const existing = await client.creditWallet.findUnique({
+          where: { userId_wallet: { userId, wallet } }
+        });
+
+        if (!existing) {
+          return 0;
+        }
+      }
+
+      return null;
+    } catch (error) {
+      throw this.handlePrismaError(error, 'debitWalletBalance');
+    }
+  }
+
+  /**
+   * 根据组织 ID 获取组织信息
+   * 
+   * @param organizationId - 组织唯一标识符
+   * @param txn - 可选的事务上下文
+   * @returns 组织对象，如果不存在则返回 null
+   */
+  async getOrganizationById(organizationId: string, txn?: any): Promise<Organization | null> {
+    const client = this.getClient(txn);
+    
+    try {
+      const organization = await client.organization.findUnique({
+        where: { id: organizationId }
+      });
+
+      return organization ? this.mapOrganization(organization) : null;
+    } catch (error) {
+      throw this.handlePrismaError(error, 'getOrganizationById');
+    }
+  }
+
+  /**
+   * 条件扣减组织积分池
+   * 
+   * 与 debitUserCredits 相同，使用单条条件 UPDATE 语句原子完成检查与扣减。
+   * 
+   * @param organizationId - 组织唯一标识符
+   * @param amount - 扣减金额
+   * @param minBalance - 扣减后允许的最低余额
+   * @param txn - 可选的事务上下文
+   * @returns 扣减后的组织对象；余额不足时返回 null
+   * @throws OrganizationNotFoundError 如果组织不存在
+   */
+  async debitOrganizationCredits(
+    organizationId: string,
+    amount: number,
+    minBalance: number,
+    txn?: any
+  ): Promise<Organization | null> {
+    const client = this.getClient(txn);
+
+    try {
+      const rows: any[] = await client.$queryRaw`
+        UPDATE "Organization"
+        SET "credits" = "credits" - ${amount}, "updatedAt" = NOW()
+        WHERE "id" = ${organizationId} AND "credits" - ${amount} >= ${minBalance}
+        RETURNING "id", "credits", "createdAt", "updatedAt"
+      `;
+
+      if (rows.length === 0) {
+        // 未更新任何行：区分组织不存在与余额不足
+        const existing = await client.organization.findUnique({
+          where: { id: organizationId }
+        });
+
+        if (!existing) {
+          throw new OrganizationNotFoundError(organizationId);
+        }
+
+        return null;
+      }
+
+      return this.mapOrganization(rows[0]);
+    } catch (error) {
+      if (error instanceof OrganizationNotFoundError) {
+        throw error;
+      }
+
+      throw this.handlePrismaError(error, 'debitOrganizationCredits');
+    }
+  }
+
+  /**
+   * 变更组织积分池余额
+   * 
+   * @param organizationId - 组织唯一标识符
+   * @param amount - 变更金额 (正数为增加，负数为减少)
+   * @param txn - 可选的事务上下文
+   * @returns 更新后的组织对象
+   * @throws OrganizationNotFoundError 如果组织不存在
+   */
+  async updateOrganizationCredits(
+    organizationId: string,
+    amount: number,
+    txn?: any
+  ): Promise<Organization> {
+    const client = this.getClient(txn);
+    
+    try {
+      const organization = await client.organization.update({
+        where: { id: organizationId },
+        data: {
+          credits: { increment: amount }
+        }
+      });
+
+      return this.mapOrganization(organization);
+    } catch (error: any) {
+      if (error.code === 'P2025') {
+        throw new OrganizationNotFoundError(organizationId);
+      }
+
+      throw this.handlePrismaError(error, 'updateOrganizationCredits');
+    }
+  }
+
+  /**
+   * 获取组织成员的所有消费限额
+   * 
+   * @param organizationId - 组织唯一标识符
+   * @param userId - 成员的用户 ID
+   * @param txn - 可选的事务上下文
+   * @returns 消费限额数组
+   */
+  async getMemberSpendingLimits(
+    organizationId: string,
+    userId: string,
+    txn?: any
+  ): Promise<MemberSpendingLimit[]> {
+    const client = this.getClient(txn);
+    
+    try {
+      const limits = await client.memberSpendingLimit.findMany({
+        where: { organizationId, userId }
+      });
+
+      return limits.map((l: any) => this.mapMemberSpendingLimit(l));
+    } catch (error) {
+      throw this.handlePrismaError(error, 'getMemberSpendingLimits');
+    }
+  }
+
+  /**
+   * 创建或更新组织成员的消费限额
+   * 
+   * 使用 upsert，以 (organizationId, userId, period) 为唯一键。
+   * 
+   * @param limit - 消费限额数据
+   * @param txn - 可选的事务上下文
+   * @returns 保存后的消费限额
+   */
+  async setMemberSpendingLimit(
+    limit: MemberSpendingLimitInput,
+    txn?: any
+  ): Promise<MemberSpendingLimit> {
+    const client = this.getClient(txn);
+    const { organizationId, userId, period } = limit;
+    
+    try {
+      const saved = await client.memberSpendingLimit.upsert({
+        where: { organizationId_userId_period: { organizationId, userId, period } },
+        create: { organizationId, userId, period, limit: limit.limit },
+        update: { limit: limit.limit }
+      });
+
+      return this.mapMemberSpendingLimit(saved);
+    } catch (error) {
+      throw this.handlePrismaError(error, 'setMemberSpendingLimit');
+    }
+  }
+
+  /**
+   * 删除组织成员某个周期的消费限额
+   * 
+   * 使用 deleteMany，限额不存在时不会报错。
+   * 
+   * @param organizationId - 组织唯一标识符
+   * @param userId - 成员的用户 ID
+   * @param period - 统计周期
+   * @param txn - 可选的事务上下文
+   */
+  async deleteMemberSpendingLimit(
+    organizationId: string,
+    userId: string,
+    period: SpendingLimitPeriod,
+    txn?: any
+  ): Promise<void> {
+    const client = this.getClient(txn);
+    
+    try {
+      await client.memberSpendingLimit.deleteMany({
+        where: { organizationId, userId, period }
+      });
+    } catch (error) {
+      throw this.handlePrismaError(error, 'deleteMemberSpendingLimit');
+    }
+  }
+
+  /**
+   * 统计组织成员从组织积分池消费的积分
+   * 
+   * 按 metadata.organizationId 过滤交易记录 (PostgreSQL JSON 路径过滤)。
+   * 
+   * @param organizationId - 组织唯一标识符
+   * @param userId - 成员的用户 ID
+   * @param since - 统计起始时间 (包含)
+   * @param txn - 可选的事务上下文
+   * @returns 消费总额
+   */
+  async getMemberSpending(
+    organizationId: string,
+    userId: string,
+    since: Date,
+    txn?: any
+  ): Promise<number> {
+    const client = this.getClient(txn);
+    
+    try {
+      const aggregate = await client.transaction.aggregate({
+        where: {
+          userId,
+          amount: { lt: 0 },
+          createdAt: { gte: since },
+          metadata: { path: ['organizationId'], equals: organizationId }
+        },
+        _sum: { amount: true }
+      });
+
+      return -(aggregate._sum.amount ?? 0);
+    } catch (error) {
+      throw this.handlePrismaError(error, 'getMemberSpending');
+    }
+  }
+
+  /**
+   * 统计用户执行某个操作的次数
+   * 
+   * 使用 Transaction 的 (userId, createdAt) 索引。
+   * 
+   * @param userId - 用户唯一标识符
+   * @param action - 操作名称
+   * @param since - 统计起始时间 (包含)
+   * @param txn - 可选的事务上下文
+   * @returns 次数
+   */
+  async countActionUsage(userId: string, action: string, since: Date, txn?: any): Promise<number> {
+    const client = this.getClient(txn);
+
+    try {
+      return await client.transaction.count({
+        where: {
+          userId,
+          action,
+          operation: { in: ['charge', 'chargeBatch', 'capture'] },
+          createdAt: { gte: since }
+        }
+      });
+    } catch (error) {
+      throw this.handlePrismaError(error, 'countActionUsage');
+    }
+  }
+
+  /**
+   * 将 Prisma IdempotencyRecord 模型映射到 SDK IdempotencyRecord 类型
+   * 
+   * @param record - Prisma 幂等性记录
+   * @returns SDK 幂等性记录
+   */
+  private mapIdempotencyRecord(record: any): IdempotencyRecord {
+    return {
+      key: record.key,
+      result: record.result,
+      createdAt: record.createdAt,
+      expiresAt: record.expiresAt,
+      ...(record.fingerprint && { fingerprint: record.fingerprint }),
+      ...(record.status === 'pending' && { status: 'pending' as const })
+    };
+  }
+
+  /**
+   * 将 Prisma Organization 模型映射到 SDK Organization 类型
+   * 
+   * @param organization - Prisma 组织
+   * @returns SDK 组织
+   */
+  private mapOrganization(organization: any): Organization {
+    return {
+      id: organization.id,
+      credits: organization.credits,
+      createdAt: organization.createdAt,
+      updatedAt: organization.updatedAt
+    };
+  }
+
+  /**
+   * 将 Prisma MemberSpendingLimit 模型映射到 SDK MemberSpendingLimit 类型
+   * 
+   * @param limit - Prisma 消费限额
+   * @returns SDK 消费限额
+   */
+  private mapMemberSpendingLimit(limit: any): MemberSpendingLimit {
+    return {
+      organizationId: limit.organizationId,
+      userId: limit.userId,
+      period: limit.period as SpendingLimitPeriod,
+      limit: limit.limit,
+      createdAt: limit.createdAt,
+      updatedAt: limit.updatedAt
+    };
+  }
+
+  /**
+   * 将 Prisma ScheduledTierChange 模型映射到 SDK ScheduledTierChange 类型
+   * 
+   * @param change - Prisma 计划等级变更
+   * @returns SDK 计划等级变更
+   */
+  private mapScheduledTierChange(change: any): ScheduledTierChange {
+    return {
+      id: change.id,
+      userId: change.userId,
+      targetTier: change.targetTier,
+      effectiveAt: change.effectiveAt,
+      metadata: change.metadata as Record<string, any>,
+      createdAt: change.createdAt
+    };
+  }
+
+  /**
+   * 将 Prisma UserAddOn 模型映射到 SDK UserAddOn 类型
+   * 
+   * @param addOn - Prisma 附加包
+   * @returns SDK 附加包
+   */
+  private mapUserAddOn(addOn: any): UserAddOn {
+    return {
+      userId: addOn.userId,
+      addOn: addOn.addOn,
+      createdAt: addOn.createdAt
+    };
+  }
+
+  /**
+   * 将 Prisma CreditLot 模型映射到 SDK CreditLot 类型
+   * 
+   * @param lot - Prisma 积分批次
+   * @returns SDK 积分批次
+   */
+  private mapCreditLot(lot: any): CreditLot {
+    return {
+      id: lot.id,
+      userId: lot.userId,
+      amount: lot.amount,
+      remaining: lot.remaining,
+      expiresAt: lot.expiresAt,
+      metadata: lot.metadata as Record<string, any>,
+      createdAt: lot.createdAt,
+      updatedAt: lot.updatedAt
+    };
+  }
+
+  /**
+   * 将 Prisma CreditHold 模型映射到 SDK CreditHold 类型
+   * 
+   * @param hold - Prisma 冻结记录
+   * @returns SDK 冻结记录
+   */
+  private mapCreditHold(hold: any): CreditHold {
+    return {
+      id: hold.id,
+      userId: hold.userId,
+      action: hold.action,
+      amount: hold.amount,
+      status: hold.status as CreditHold['status'],
+      capturedAmount: hold.capturedAmount ?? null,
+      metadata: hold.metadata as Record<string, any>,
+      expiresAt: hold.expiresAt,
+      createdAt: hold.createdAt,
+      updatedAt: hold.updatedAt
+    };
+  }
+
+  /**
+   * 判断错误是否为瞬态故障
+   * 
+   * 优先读取 handlePrismaError 标记的 retryable 字段；
+   * 未经转换的 Prisma 错误（例如事务提交时抛出的错误）按错误代码判断。
+   * 
+   * @param error - 存储操作抛出的错误
+   * @returns 是否可以重试；不是 Prisma 错误时返回 undefined
+   */
+  isTransientError(error: unknown): boolean | undefined {
+    const retryable = (error as { retryable?: unknown } | null)?.retryable;
+    if (typeof retryable === 'boolean') {
+      return retryable;
+    }
+
+    const code = this.getPrismaErrorCode(error);
+    return code ? TRANSIENT_PRISMA_ERROR_CODES.includes(code) : undefined;
+  }
+
+  /**
+   * 读取 Prisma 错误代码
+   * 
+   * PrismaClientKnownRequestError 使用 code，PrismaClientInitializationError 使用 errorCode
+   * 
+   * @param error - 错误对象
+   * @returns Prisma 错误代码（P 加四位数字）；不是 Prisma 错误时返回 undefined
+   */
+  private getPrismaErrorCode(error: any): string | undefined {
+    const code = error?.code ?? error?.errorCode;
+    return typeof code === 'string' && /^P\d{4}$/.test(code) ? code : undefined;
+  }
+
+  /**
+   * 处理 Prisma 错误并转换为 SDK 错误
+   * 
+   * 转换后的错误保留原始错误代码（code）和原始错误（cause），
+   * Prisma 错误还会带上 retryable 标记，供 isTransientError 判断是否重试。
+   * 
+   * @param error - Prisma 错误对象
+   * @param operation - 操作名称 (用于错误消息)
+   * @returns SDK 错误
+   */
+  private handlePrismaError(error: any, operation: string): Error {
+    // 如果已经是 SDK 错误（CreditsSDKError 及其子类），直接返回
+    if (error instanceof Error && error.constructor.name.includes('CreditsSDKError')) {
+      return error;
+    }
+
+    // Prisma 特定错误代码
+    // P2025: Record not found
+    // P2002: Unique constraint violation
+    // P2003: Foreign key constraint violation
+    
+    const tag = (message: string): Error => {
+      const prismaCode = this.getPrismaErrorCode(error);
+      return Object.assign(new Error(message), {
+        ...(error.code && { code: error.code }),
+        ...(prismaCode && { retryable: TRANSIENT_PRISMA_ERROR_CODES.includes(prismaCode) }),
+        cause: error
+      });
+    };
 
-    // Prisma 特定错误代码
-    // P2025: Record not found
-    // P2002: Unique constraint violation
-    // P2003: Foreign key constraint violation
-    
     if (error.code) {
       switch (error.code) {
         case 'P2025':
-          return new Error(`Record not found in ${operation}`);
+          return tag(`Record not found in ${operation}`);
         case 'P2002':
-          return new Error(`Unique constraint violation in ${operation}: ${error.meta?.target || 'unknown field'}`);
+          return tag(`Unique constraint violation in ${operation}: ${error.meta?.target || 'unknown field'}`);
         case 'P2003':
-          return new Error(`Foreign key constraint violation in ${operation}`);
+          return tag(`Foreign key constraint violation in ${operation}`);
         default:
-          return new Error(`Prisma error in ${operation}: ${error.message}`);
+          return tag(`Prisma error in ${operation}: ${error.message}`);
       }
     }
 
     // 通用错误
-    return new Error(`Database error in ${operation}: ${error.message || 'Unknown error'}`);
+    return tag(`Database error in ${operation}: ${error.message || 'Unknown error'}`);
   }
 }
@@ -5,40 +5,228 @@
  * 验证需求: 17.1-17.5
  */
 
+import { randomBytes } from 'crypto';
 import { IStorageAdapter } from '../adapters/IStorageAdapter';
 import { ILogAdapter, ConsoleLogger } from '../adapters/ILogAdapter';
 import {
   CreditsConfig,
   ChargeParams,
   ChargeResult,
+  EstimateParams,
+  EstimateResult,
+  EstimateFailureReason,
+  ChargeBatchItem,
+  ChargeBatchOptions,
+  ChargeBatchItemResult,
+  ChargeBatchResult,
+  CalculationDetails,
   RefundParams,
   RefundResult,
+  TransactionRefundParams,
   GrantParams,
   GrantResult,
   UpgradeTierParams,
   DowngradeTierParams,
   TierChangeResult,
+  RenewMembershipParams,
+  RenewMembershipResult,
+  RolloverPolicy,
+  ProrationDetails,
   Transaction,
-  HistoryOptions
+  HistoryOptions,
+  ReserveParams,
+  ReserveResult,
+  CaptureParams,
+  CaptureResult,
+  ReleaseParams,
+  ReleaseResult,
+  CreditHold,
+  CreditLot,
+  QueryBalanceOptions,
+  BalanceBreakdown,
+  ExpireCreditsParams,
+  ExpireCreditsResult,
+  PurgeExpiredDataParams,
+  PurgeExpiredDataResult,
+  ProcessExpiredMembershipsParams,
+  ProcessExpiredMembershipsResult,
+  ApplyDueTierChangesParams,
+  ApplyDueTierChangesResult,
+  ScheduleTierChangeParams,
+  ScheduleTierChangeResult,
+  CancelScheduledTierChangeParams,
+  CancelScheduledTierChangeResult,
+  ScheduledTierChange,
+  MembershipStatus,
+  MembershipState,
+  StartTrialParams,
+  StartTrialResult,
+  AddOnParams,
+  AddOnResult,
+  UserEntitlements,
+  ValidateAccessOptions,
+  CircuitBreakerStatus,
+  OverdrawnUsersOptions,
+  OverdrawnUser,
+  TransferParams,
+  TransferResult,
+  MemberSpendingLimit,
+  SetMemberSpendingLimitParams,
+  SpendingLimitPeriod,
+  QuotaStatus,
+  User
 } from './types';
 import {
   DynamicCostFormula,
   MembershipValidator,
+  QuotaManager,
   IdempotencyManager,
   AuditTrail,
-  RetryHandler
+  RetryHandler,
+  RetryOptions,
+  ValidationResult
 } from '../features';
 import {
+  CreditsSDKError,
   ConfigurationError,
   UserNotFoundError,
   MembershipRequiredError,
+  EntitlementRequiredError,
   InsufficientCreditsError,
   UndefinedTierError,
   InvalidTierChangeError,
   MissingVariableError,
-  FormulaEvaluationError
+  FormulaEvaluationError,
+  HoldNotFoundError,
+  InvalidHoldOperationError,
+  OrganizationNotFoundError,
+  SpendingLimitExceededError,
+  QuotaExceededError,
+  TransactionNotFoundError,
+  RefundExceedsChargeError,
+  IdempotencyKeyConflictError,
+  IdempotencyRequestInProgressError
 } from './errors';
 
+/**
+ * 默认冻结有效期（秒）
+ * 未配置 reservations.defaultTtl 时使用
+ */
+const DEFAULT_HOLD_TTL_SECONDS = 3600;
+
+/**
+ * expireCredits、processExpiredMemberships 和 applyDueTierChanges 默认每批处理的数量
+ */
+const DEFAULT_EXPIRY_BATCH_SIZE = 100;
+
+/**
+ * purgeExpiredData 默认每批删除的记录数量
+ */
+const DEFAULT_PURGE_BATCH_SIZE = 1000;
+
+/**
+ * 默认钱包名称
+ * 默认钱包的余额保存在 User.credits 中
+ */
+const DEFAULT_WALLET = 'default';
+
+/**
+ * 可以按原交易退款的扣费操作
+ * 引擎写入的交易在 Transaction.operation 中记录操作名称（调用方元数据无法修改）；
+ * 等级变更、转账和过期清除等其他扣减不是扣费，不能按原交易退款
+ */
+const REFUNDABLE_OPERATIONS = new Set(['charge', 'chargeBatch', 'capture']);
+
+/**
+ * 引擎写入的非扣费交易使用的 action
+ * 早期版本写入的交易没有 operation，按 action 排除其中的非扣费扣减
+ */
+const NON_CHARGE_ACTIONS = new Set([
+  'tier-upgrade',
+  'tier-downgrade',
+  'tier-expired',
+  'tier-upgrade-scheduled',
+  'tier-downgrade-scheduled',
+  'trial-started',
+  'membership-reset',
+  'membership-rollover',
+  'credit-hold',
+  'credit-hold-release',
+  'credit-expiry',
+  'transfer-out',
+  'transfer-in'
+]);
+
+/**
+ * 存储操作的重试选项
+ * SDK 业务错误（余额不足、用户不存在等）不是瞬态故障，重试不会成功
+ */
+const RETRY_OPTIONS: RetryOptions = {
+  shouldRetry: error => !(error instanceof CreditsSDKError)
+};
+
+/**
+ * 退款对象
+ * 由 refund 的参数或原扣费交易解析得到
+ */
+interface RefundTarget {
+  userId: string;
+  amount: number;
+  action: string;
+  wallet: string;
+  /** 退回的组织积分池 (原扣费来自组织积分池时) */
+  organizationId: string | null;
+  /** 原扣费交易的退款登记结果 (仅按原交易退款时) */
+  original?: {
+    transactionId: string;
+    totalRefunded: number;
+    remainingRefundable: number;
+  };
+}
+
+/**
+ * 退款过程中解析出的原交易和退款对象
+ * 由 executeRefund 填写，refund 失败时用于确定审计日志的用户
+ */
+interface RefundResolution {
+  originalCharge?: Transaction;
+  target?: RefundTarget;
+}
+
+/**
+ * 批量扣费的执行参数
+ */
+interface ChargeBatchExecution extends ChargeBatchOptions {
+  items: ChargeBatchItem[];
+}
+
+/**
+ * 批量扣费中一个扣费账户（用户钱包或组织积分池）的累计状态
+ */
+interface ChargeBatchAccount {
+  /** 首个扣费用户，钱包账户即钱包所有者 */
+  userId: string;
+  wallet: string;
+  organizationId: string | null;
+  /** 不可用额度（冻结中和已过期未清除的积分） */
+  unavailable: number;
+  /** 透支额度 */
+  overdraftLimit: number;
+  /** 读取时的可用余额（包含透支额度） */
+  available: number;
+  /** 未过期的积分批次 */
+  lots: CreditLot[];
+  /** 通过校验的条目，按 items 中的顺序 */
+  entries: Array<{
+    index: number;
+    item: ChargeBatchItem;
+    cost: number;
+    calculationDetails: CalculationDetails;
+  }>;
+  /** 通过校验的条目的成本合计 */
+  total: number;
+}
+
 /**
  * CreditsEngine 选项类型
  * 用于初始化 CreditsEngine 实例
@@ -62,12 +250,15 @@ export interface CreditsEngineOptions {
  * - queryBalance: 查询余额
  * - getHistory: 获取交易历史
  * - validateAccess: 验证访问权限
+ * - reserve / capture / release: 两阶段扣费（预授权、结算、释放）
+ * - transfer: 用户间原子转账
+ * - expireCredits: 清除已过期的积分批次
  * 
  * 核心特性：
  * - 适配器模式：通过 IStorageAdapter 解耦存储层
  * - 事务透传：支持将操作嵌入到更大的业务事务中
  * - 幂等性：防止重复扣费
- * - 重试机制：自动处理瞬态故障
+ * - 重试机制：自动处理瞬态故障，写操作通过幂等记录保证重试不会重复执行
  * - 审计日志：记录所有操作用于合规和调试
  * - 会员验证：基于会员等级的访问控制
  * - 成本计算：灵活的分层定价
@@ -118,9 +309,9 @@ export class CreditsEngine {
   // 特性模块
   private readonly costFormula: DynamicCostFormula;
   private readonly membershipValidator: MembershipValidator;
+  private readonly quotaManager: QuotaManager;
   private readonly idempotencyManager: IdempotencyManager;
   private readonly auditTrail: AuditTrail;
-  // @ts-expect-error - RetryHandler is initialized but not yet integrated into all operations
   private readonly retryHandler: RetryHandler;
 
   /**
@@ -133,6 +324,7 @@ export class CreditsEngine {
    * 4. 初始化所有特性模块：
    *    - CostFormula: 成本计算
    *    - MembershipValidator: 会员验证
+   *    - QuotaManager: 用量配额
    *    - IdempotencyManager: 幂等性管理
    *    - AuditTrail: 审计日志
    *    - RetryHandler: 重试处理
@@ -197,6 +389,12 @@ export class CreditsEngine {
       tiersCount: Object.keys(this.config.membership.tiers).length
     });
 
+    // 用量配额模块
+    this.quotaManager = new QuotaManager(this.config.quotas);
+    this.logger.debug('QuotaManager initialized', {
+      actionsCount: this.quotaManager.getActions().length
+    });
+
     // 幂等性管理模块
     this.idempotencyManager = new IdempotencyManager(
       this.storage,
@@ -214,12 +412,26 @@ export class CreditsEngine {
     });
 
     // 重试处理模块
-    this.retryHandler = new RetryHandler(this.config.retry, this.logger);
+    this.retryHandler = new RetryHandler(
+      this.config.retry,
+      this.logger,
+      this.storage.isTransientError && (error => this.storage.isTransientError!(error))
+    );
     this.logger.debug('RetryHandler initialized', {
       enabled: this.config.retry.enabled,
-      maxAttempts: this.config.retry.maxAttempts
+      maxAttempts: this.config.retry.maxAttempts,
+      jitter: this.config.retry.jitter ?? 'none',
+      circuitBreaker: !!this.config.retry.circuitBreaker,
+      adapterClassifier: !!this.storage.isTransientError
     });
 
+    if (this.config.retry.enabled && typeof this.storage.runInTransaction !== 'function') {
+      this.logger.warn(
+        'Write retries are disabled because the storage adapter does not implement runInTransaction; ' +
+        'only reads will be retried'
+      );
+    }
+
     this.logger.info('CreditsEngine initialized successfully');
   }
 
@@ -233,7 +445,8 @@ export class CreditsEngine {
    * - idempotency 配置存在且包含所有必需字段
    * - audit 配置存在
    * - 成本配置中的每个操作都有 default 值
-   * - 会员等级层次结构有效（数值类型）
+   * - 会员等级层次结构有效（数值类型），等级名称不是成本配置保留的 wallet
+   * - 用量配额引用已定义的操作和等级，规则有效
    * 
    * @param config - 要验证的配置
    * @throws {ConfigurationError} 当配置无效时
@@ -258,6 +471,15 @@ export class CreditsEngine {
           `Action '${action}' default cost must be non-negative`
         );
       }
+      // wallet 可选，配置时必须是非空字符串
+      if (
+        costConfig.wallet !== undefined &&
+        (typeof costConfig.wallet !== 'string' || costConfig.wallet.length === 0)
+      ) {
+        throw new ConfigurationError(
+          `Action '${action}' wallet must be a non-empty string`
+        );
+      }
     }
 
     // 验证 membership 配置
@@ -275,6 +497,12 @@ export class CreditsEngine {
 
     // 验证会员等级层次结构
     for (const [tier, level] of Object.entries(config.membership.tiers)) {
+      // 成本配置中的 wallet 键表示钱包名称，不能同时作为等级的成本
+      if (tier === 'wallet') {
+        throw new ConfigurationError(
+          `Membership tier 'wallet' conflicts with the wallet key of cost entries`
+        );
+      }
       if (typeof level !== 'number') {
         throw new ConfigurationError(
           `Membership tier '${tier}' must have a numeric level`
@@ -311,6 +539,192 @@ export class CreditsEngine {
       }
     }
 
+    // 验证透支额度配置
+    for (const [tier, limit] of Object.entries(config.membership.overdraftLimits ?? {})) {
+      if (!(tier in config.membership.tiers)) {
+        throw new ConfigurationError(
+          `Overdraft limit references undefined tier '${tier}'`
+        );
+      }
+
+      if (typeof limit !== 'number' || !Number.isFinite(limit) || limit < 0) {
+        throw new ConfigurationError(
+          `Overdraft limit for tier '${tier}' must be a non-negative number`
+        );
+      }
+    }
+
+    // 验证会员到期回退等级
+    const { fallbackTier } = config.membership;
+    if (fallbackTier !== undefined && !(fallbackTier in config.membership.tiers)) {
+      throw new ConfigurationError(
+        `Fallback tier '${fallbackTier}' is not a defined membership tier`
+      );
+    }
+
+    // 验证续费策略配置
+    for (const [tier, policy] of Object.entries(config.membership.rolloverPolicies ?? {})) {
+      if (!(tier in config.membership.tiers)) {
+        throw new ConfigurationError(
+          `Rollover policy references undefined tier '${tier}'`
+        );
+      }
+
+      if (!policy || !['reset', 'accumulate', 'carryover'].includes(policy.type)) {
+        throw new ConfigurationError(
+          `Rollover policy for tier '${tier}' must be 'reset', 'accumulate' or 'carryover'`
+        );
+      }
+
+      if (policy.type === 'carryover') {
+        const { maxPercent, maxCredits } = policy;
+
+        if (maxPercent === undefined && maxCredits === undefined) {
+          throw new ConfigurationError(
+            `Carryover policy for tier '${tier}' must set maxPercent or maxCredits`
+          );
+        }
+
+        if (
+          maxPercent !== undefined &&
+          (typeof maxPercent !== 'number' || !Number.isFinite(maxPercent) || maxPercent < 0 || maxPercent > 100)
+        ) {
+          throw new ConfigurationError(
+            `Carryover maxPercent for tier '${tier}' must be between 0 and 100`
+          );
+        }
+
+        if (
+          maxCredits !== undefined &&
+          (typeof maxCredits !== 'number' || !Number.isFinite(maxCredits) || maxCredits < 0)
+        ) {
+          throw new ConfigurationError(
+            `Carryover maxCredits for tier '${tier}' must be a non-negative number`
+          );
+        }
+      }
+    }
+
+    // 验证按比例折算配置
+    const { proration } = config.membership;
+    if (proration !== undefined) {
+      if (
+        typeof proration.periodDays !== 'number' ||
+        !Number.isFinite(proration.periodDays) ||
+        proration.periodDays <= 0
+      ) {
+        throw new ConfigurationError('Proration periodDays must be a positive number');
+      }
+
+      if (
+        proration.rounding !== undefined &&
+        !['floor', 'ceil', 'round'].includes(proration.rounding)
+      ) {
+        throw new ConfigurationError(
+          `Proration rounding must be 'floor', 'ceil' or 'round', got '${proration.rounding}'`
+        );
+      }
+    }
+
+    // 验证试用配置
+    const { trialDays, gracePeriodDays } = config.membership;
+    if (trialDays !== undefined) {
+      for (const [tier, days] of Object.entries(trialDays)) {
+        if (!(tier in config.membership.tiers)) {
+          throw new ConfigurationError(
+            `Trial tier '${tier}' is not defined in membership.tiers`
+          );
+        }
+
+        if (typeof days !== 'number' || !Number.isFinite(days) || days <= 0) {
+          throw new ConfigurationError(
+            `Trial days for tier '${tier}' must be a positive number`
+          );
+        }
+      }
+    }
+
+    // 验证宽限期配置
+    if (
+      gracePeriodDays !== undefined &&
+      (typeof gracePeriodDays !== 'number' || !Number.isFinite(gracePeriodDays) || gracePeriodDays < 0)
+    ) {
+      throw new ConfigurationError('gracePeriodDays must be a non-negative number');
+    }
+
+    // 验证权益配置
+    const { entitlements } = config.membership;
+    if (entitlements !== undefined) {
+      const granted = new Set<string>();
+
+      for (const [source, grants] of [
+        ['tiers', entitlements.tiers ?? {}],
+        ['addOns', entitlements.addOns ?? {}]
+      ] as const) {
+        for (const [name, features] of Object.entries(grants)) {
+          if (source === 'tiers' && !(name in config.membership.tiers)) {
+            throw new ConfigurationError(
+              `Entitlement tier '${name}' is not defined in membership.tiers`
+            );
+          }
+
+          if (!Array.isArray(features) || features.some(f => typeof f !== 'string' || f === '')) {
+            throw new ConfigurationError(
+              `Entitlements of ${source} '${name}' must be an array of feature names`
+            );
+          }
+
+          features.forEach(feature => granted.add(feature));
+        }
+      }
+
+      for (const [action, features] of Object.entries(entitlements.requirements ?? {})) {
+        if (!Array.isArray(features)) {
+          throw new ConfigurationError(
+            `Entitlement requirements of action '${action}' must be an array of feature names`
+          );
+        }
+
+        const ungranted = features.find(feature => !granted.has(feature));
+        if (ungranted !== undefined) {
+          throw new ConfigurationError(
+            `Entitlement '${ungranted}' required by action '${action}' is not granted by any tier or add-on`
+          );
+        }
+      }
+    }
+
+    // 验证用量配额配置
+    for (const [action, tierRules] of Object.entries(config.quotas ?? {})) {
+      if (!(action in config.costs)) {
+        throw new ConfigurationError(
+          `Quota action '${action}' is not defined in costs`
+        );
+      }
+
+      for (const [tier, rules] of Object.entries(tierRules ?? {})) {
+        if (tier !== 'default' && !(tier in config.membership.tiers)) {
+          throw new ConfigurationError(
+            `Quota for action '${action}' references undefined tier '${tier}'`
+          );
+        }
+
+        for (const rule of rules === null ? [] : Array.isArray(rules) ? rules : [rules]) {
+          if (!rule || !Number.isInteger(rule.limit) || rule.limit < 0) {
+            throw new ConfigurationError(
+              `Quota limit for action '${action}' and tier '${tier}' must be a non-negative integer`
+            );
+          }
+
+          if (!['minute', 'hour', 'day', 'month'].includes(rule.window)) {
+            throw new ConfigurationError(
+              `Quota window for action '${action}' and tier '${tier}' must be 'minute', 'hour', 'day' or 'month'`
+            );
+          }
+        }
+      }
+    }
+
     // 验证 retry 配置
     if (!config.retry || typeof config.retry !== 'object') {
       throw new ConfigurationError('Configuration must include retry object');
@@ -348,6 +762,31 @@ export class CreditsEngine {
       throw new ConfigurationError('Retry backoffMultiplier must be >= 1');
     }
 
+    if (
+      config.retry.jitter !== undefined &&
+      !['none', 'full', 'decorrelated'].includes(config.retry.jitter)
+    ) {
+      throw new ConfigurationError(
+        `Retry jitter must be 'none', 'full' or 'decorrelated', got '${config.retry.jitter}'`
+      );
+    }
+
+    if (config.retry.deadline !== undefined && config.retry.deadline <= 0) {
+      throw new ConfigurationError('Retry deadline must be positive');
+    }
+
+    if (config.retry.circuitBreaker !== undefined) {
+      const { failureThreshold, resetTimeout } = config.retry.circuitBreaker;
+
+      if (!Number.isInteger(failureThreshold) || failureThreshold < 1) {
+        throw new ConfigurationError('Circuit breaker failureThreshold must be a positive integer');
+      }
+
+      if (!(resetTimeout >= 0)) {
+        throw new ConfigurationError('Circuit breaker resetTimeout must be non-negative');
+      }
+    }
+
     // 验证 idempotency 配置
     if (!config.idempotency || typeof config.idempotency !== 'object') {
       throw new ConfigurationError('Configuration must include idempotency object');
@@ -365,6 +804,14 @@ export class CreditsEngine {
       throw new ConfigurationError('Idempotency ttl must be non-negative');
     }
 
+    if (config.idempotency.lockTimeout !== undefined && config.idempotency.lockTimeout <= 0) {
+      throw new ConfigurationError('Idempotency lockTimeout must be positive');
+    }
+
+    if (config.idempotency.waitTimeout !== undefined && config.idempotency.waitTimeout < 0) {
+      throw new ConfigurationError('Idempotency waitTimeout must be non-negative');
+    }
+
     // 验证 audit 配置
     if (!config.audit || typeof config.audit !== 'object') {
       throw new ConfigurationError('Configuration must include audit object');
@@ -373,6 +820,13 @@ export class CreditsEngine {
     if (!('enabled' in config.audit) || config.audit.enabled === undefined) {
       throw new ConfigurationError('Audit configuration must include enabled');
     }
+
+    // 验证 reservations 配置（可选）
+    if (config.reservations !== undefined) {
+      if (typeof config.reservations.defaultTtl !== 'number' || config.reservations.defaultTtl <= 0) {
+        throw new ConfigurationError('Reservations defaultTtl must be a positive number');
+      }
+    }
   }
 
   /**
@@ -381,7 +835,7 @@ export class CreditsEngine {
    * 执行完整的扣费流程：
    * 1. 幂等性检查 - 如果提供了幂等键且操作已执行，返回缓存结果
    * 2. 用户验证 - 检查用户是否存在
-   * 3. 会员验证 - 检查用户是否有权限执行该操作
+   * 3. 会员验证 - 检查用户是否有权限执行该操作，以及当前窗口内的用量配额
    * 4. 成本计算 - 根据操作和会员等级计算成本
    * 5. 余额检查 - 确保用户有足够的积分
    * 6. 余额更新 - 扣除积分
@@ -392,11 +846,21 @@ export class CreditsEngine {
    * 所有操作在事务中执行（如果提供了事务上下文）或自动提交。
    * 任何步骤失败都会导致整个操作回滚（在事务中）。
    * 
+   * 扣费的钱包依次取 params.wallet、成本配置中的 wallet，都未设置时为默认钱包。
+   * 
+   * 用户设置了 organizationId 时，默认钱包的扣费改为从组织积分池扣除，
+   * 并校验该成员在当前周期的消费限额。交易记录仍属于该成员，
+   * metadata.organizationId 记录所扣的积分池。
+   * 
    * @param params - 扣费参数
-   * @returns 扣费结果
+   * @returns 扣费结果（余额为所扣钱包或组织积分池的余额）
    * @throws {UserNotFoundError} 当用户不存在时
    * @throws {MembershipRequiredError} 当用户缺少所需会员资格时
-   * @throws {InsufficientCreditsError} 当用户积分不足时
+   * @throws {EntitlementRequiredError} 当用户缺少操作所需的功能时
+   * @throws {QuotaExceededError} 当用户在当前窗口内的操作次数已达到配额时
+   * @throws {InsufficientCreditsError} 当用户积分（或组织积分池）不足时
+   * @throws {SpendingLimitExceededError} 当组织成员超出消费限额时
+   * @throws {OrganizationNotFoundError} 当用户所属的组织不存在时
    * @throws {UndefinedActionError} 当操作未在配置中定义时
    * 
    * @example
@@ -434,281 +898,267 @@ export class CreditsEngine {
    */
   async charge(params: ChargeParams): Promise<ChargeResult> {
     const { userId, action, idempotencyKey, metadata = {}, txn, variables } = params;
+    const wallet = this.resolveWallet(action, params.wallet);
 
     this.logger.info('Starting charge operation', {
       userId,
       action,
+      wallet,
       hasIdempotencyKey: !!idempotencyKey,
       hasTransaction: !!txn,
       hasVariables: !!variables
     });
 
     try {
-      // 步骤 1: 幂等性检查
-      if (idempotencyKey) {
-        this.logger.debug('Checking idempotency', { idempotencyKey });
-        const existingRecord = await this.idempotencyManager.check(idempotencyKey, txn);
-        
-        if (existingRecord) {
-          this.logger.info('Idempotency key found, returning cached result', {
-            idempotencyKey,
-            userId
-          });
-          return existingRecord.result as ChargeResult;
-        }
-      }
-
-      // 步骤 2: 获取用户信息
-      this.logger.debug('Fetching user', { userId });
-      const user = await this.storage.getUserById(userId, txn);
-      
-      if (!user) {
-        this.logger.warn('User not found', { userId });
-        throw new UserNotFoundError(userId);
-      }
-
-      this.logger.debug('User found', {
-        userId,
-        credits: user.credits,
-        membershipTier: user.membershipTier
-      });
+      return await this.runWithRetry('charge', params, p => this.executeCharge(p));
+    } catch (error) {
+      // 增强的错误处理：特别处理公式计算错误
+      let errorMetadata: Record<string, any> = {
+        operation: action,
+        error: error instanceof Error ? error.message : String(error),
+        ...metadata
+      };
 
-      // 步骤 3: 会员验证
-      const requiredTier = this.config.membership.requirements[action] || null;
-      
-      if (requiredTier !== null) {
-        this.logger.debug('Validating membership', {
+      // 如果是公式相关错误，添加详细的上下文信息
+      if (error instanceof MissingVariableError) {
+        // MissingVariableError: 添加公式和变量信息
+        errorMetadata = {
+          ...errorMetadata,
+          errorType: 'MissingVariableError',
+          errorCode: error.code,
+          formula: error.formula,
+          missingVariable: error.missingVariable,
+          providedVariables: error.providedVariables,
+          variables: variables || {}
+        };
+        
+        this.logger.error('Formula calculation failed: missing variable', {
           userId,
-          requiredTier,
-          currentTier: user.membershipTier
+          action,
+          formula: error.formula,
+          missingVariable: error.missingVariable,
+          providedVariables: error.providedVariables
         });
-
-        const validationResult = this.membershipValidator.validate(user, requiredTier);
+      } else if (error instanceof FormulaEvaluationError) {
+        // FormulaEvaluationError: 添加公式、变量和错误原因
+        errorMetadata = {
+          ...errorMetadata,
+          errorType: 'FormulaEvaluationError',
+          errorCode: error.code,
+          formula: error.formula,
+          variables: error.variables,
+          cause: error.cause
+        };
         
-        if (!validationResult.valid) {
-          this.logger.warn('Membership validation failed', {
-            userId,
-            reason: validationResult.reason,
-            requiredTier,
-            currentTier: validationResult.currentTier
-          });
+        this.logger.error('Formula calculation failed: evaluation error', {
+          userId,
+          action,
+          formula: error.formula,
+          variables: error.variables,
+          cause: error.cause
+        });
+      } else {
+        // 其他错误：记录通用错误日志
+        this.logger.error('Charge operation failed', {
+          userId,
+          action,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
 
-          throw new MembershipRequiredError(
-            userId,
-            requiredTier,
-            validationResult.currentTier
+      // 记录失败的审计日志
+      if (this.config.audit.enabled) {
+        try {
+          await this.auditTrail.log(
+            {
+              userId,
+              action: 'charge',
+              status: 'failed',
+              metadata: errorMetadata,
+              errorMessage: error instanceof Error ? error.message : String(error)
+            },
+            txn
           );
+        } catch (auditError) {
+          // 如果审计日志记录失败，只记录警告，不影响主错误的抛出
+          this.logger.warn('Failed to create audit log for failed operation', {
+            userId,
+            action,
+            error: auditError
+          });
         }
-
-        this.logger.debug('Membership validation passed', { userId });
       }
 
-      // 步骤 4: 计算成本
-      this.logger.debug('Calculating cost', {
-        action,
-        membershipTier: user.membershipTier,
-        hasVariables: !!variables
-      });
+      // 重新抛出原始错误
+      throw error;
+    }
+  }
 
-      const cost = this.costFormula.calculate(action, user.membershipTier, variables);
-      
-      // 获取计算详情（用于记录到metadata）
-      const calculationDetails = this.costFormula.getCalculationDetails(
-        action,
-        user.membershipTier,
-        variables
-      );
-      
-      this.logger.debug('Cost calculated', { cost, isDynamic: calculationDetails.isDynamic });
-
-      // 步骤 5: 检查余额
-      if (user.credits < cost) {
-        this.logger.warn('Insufficient credits', {
-          userId,
-          required: cost,
-          available: user.credits
-        });
-
-        throw new InsufficientCreditsError(userId, cost, user.credits);
-      }
-
-      this.logger.debug('Balance check passed', {
-        userId,
-        credits: user.credits,
-        cost
-      });
-
-      // 步骤 6: 更新余额
-      const balanceBefore = user.credits;
-      const balanceAfter = balanceBefore - cost;
-
-      this.logger.debug('Updating user balance', {
-        userId,
-        balanceBefore,
-        balanceAfter
-      });
+  /**
+   * 预估扣费（不修改任何数据）
+   * 
+   * 与 charge 使用相同的成本计算、会员验证、用量配额、成员消费限额和余额检查，
+   * 但不扣减余额、不写交易记录和审计日志，也不占用幂等键。
+   * 
+   * 执行流程：
+   * 1. 用户验证 - 用户不存在时抛出错误
+   * 2. 成本计算 - 计算成本和计算详情
+   * 3. 依次检查会员资格、用量配额、成员消费限额和可用余额，记录第一个不满足的条件
+   * 
+   * 预估基于读取时的状态，之后的并发扣费仍可能使 charge 失败。
+   * 
+   * @param params - 预估参数
+   * @returns 预估结果：成本、计算详情、是否会成功和失败原因
+   * @throws {UserNotFoundError} 当用户不存在时
+   * @throws {UndefinedActionError} 当操作未在配置中定义时
+   * @throws {MissingVariableError} 当动态公式缺少变量时
+   * @throws {OrganizationNotFoundError} 当用户所属的组织不存在时
+   * 
+   * @example
+   * ```typescript
+   * const estimate = await engine.estimate({
+   *   userId: 'user-123',
+   *   action: 'ai-completion',
+   *   variables: { token: 3500 }
+   * });
+   * 
+   * if (estimate.wouldSucceed) {
+   *   console.log(`This will cost ${estimate.cost} credits, you have ${estimate.available}`);
+   * } else {
+   *   console.log(estimate.failureReason?.message);
+   * }
+   * ```
+   */
+  async estimate(params: EstimateParams): Promise<EstimateResult> {
+    const { userId, action, txn } = params;
 
-      await this.storage.updateUserCredits(userId, -cost, txn);
+    this.logger.info('Estimating charge', {
+      userId,
+      action,
+      hasVariables: !!params.variables
+    });
 
-      // 步骤 7: 创建交易记录
-      this.logger.debug('Creating transaction record', { userId, action, cost });
+    const result = await this.retryRead(txn, () => this.evaluateCharge(params));
 
-      // 构建交易元数据，只在使用动态公式时添加dynamicCost字段
-      const transactionMetadata = {
-        ...metadata,
-        ...(calculationDetails.isDynamic && {
-          dynamicCost: {
-            formula: calculationDetails.formula,
-            variables: calculationDetails.variables,
-            rawCost: calculationDetails.rawCost,
-            finalCost: calculationDetails.finalCost
-          }
-        })
-      };
+    this.logger.info('Charge estimated', {
+      userId,
+      action,
+      cost: result.cost,
+      wouldSucceed: result.wouldSucceed,
+      ...(result.failureReason && { reason: result.failureReason.code })
+    });
 
-      const transaction = await this.storage.createTransaction(
-        {
-          userId,
-          action,
-          amount: -cost, // 负数表示扣费
-          balanceBefore,
-          balanceAfter,
-          metadata: transactionMetadata
-        },
-        txn
-      );
+    return result;
+  }
 
-      this.logger.debug('Transaction record created', {
-        transactionId: transaction.id
-      });
+  /**
+   * 批量扣费
+   * 
+   * 用于批量提交累计的用量事件。每个条目与一次 charge 相同：可以有自己的操作、变量、钱包和幂等键，
+   * 并写入自己的交易记录；同一扣费账户（用户钱包或组织积分池）的条目合并为一次余额扣减。
+   * 
+   * 执行流程（在一个存储事务中）：
+   * 1. 幂等性检查 - 幂等键已使用过的条目返回缓存结果（replayed），不再扣费
+   * 2. 按 charge 的顺序校验每个条目：用户、会员资格、用量配额、成本、成员消费限额、余额；
+   *    同一账户内按条目顺序累计，余额不足的条目标记为 failed；
+   *    用量配额包含本批次中同一用户同一操作已通过校验的条目
+   * 3. all-or-nothing 模式下有条目失败时不写入任何扣费，其余条目标记为 skipped
+   * 4. 每个账户一次条件扣减，再逐条写入交易记录和幂等记录
+   * 5. 每个涉及的用户写一条 chargeBatch 审计日志
+   * 
+   * 条目级的业务错误记录在结果中，不会抛出；存储错误或扣减时发现余额被并发修改会使整批失败并回滚。
+   * 
+   * @param items - 扣费条目
+   * @param options - 批量扣费选项
+   * @returns 每个条目的结果和汇总数量
+   * @throws {ConfigurationError} 当模式无效、批次内幂等键重复或存储适配器未实现 runInTransaction 时
+   * @throws {InsufficientCreditsError} 当扣减时余额已被并发修改时
+   * 
+   * @example
+   * ```typescript
+   * const result = await engine.chargeBatch(
+   *   events.map(event => ({
+   *     userId: event.userId,
+   *     action: 'ai-completion',
+   *     variables: { token: event.tokens },
+   *     idempotencyKey: event.id
+   *   })),
+   *   { mode: 'best-effort' }
+   * );
+   * 
+   * for (const item of result.items) {
+   *   if (item.status === 'failed') {
+   *     console.log(`Event ${events[item.index].id} not charged: ${item.error?.message}`);
+   *   }
+   * }
+   * ```
+   */
+  async chargeBatch(
+    items: ChargeBatchItem[],
+    options: ChargeBatchOptions = {}
+  ): Promise<ChargeBatchResult> {
+    const { mode = 'all-or-nothing', txn } = options;
+
+    this.logger.info('Starting charge batch operation', {
+      items: items.length,
+      mode,
+      hasTransaction: !!txn
+    });
 
-      // 步骤 8: 创建审计日志
-      if (this.config.audit.enabled) {
-        this.logger.debug('Creating audit log', { userId, action });
+    if (mode !== 'all-or-nothing' && mode !== 'best-effort') {
+      throw new ConfigurationError(`Invalid charge batch mode '${mode}'`);
+    }
 
-        await this.auditTrail.log(
-          {
-            userId,
-            action: 'charge',
-            status: 'success',
-            metadata: {
-              operation: action,
-              cost,
-              balanceBefore,
-              balanceAfter,
-              transactionId: transaction.id,
-              ...metadata
-            }
-          },
-          txn
-        );
+    const keys = items.flatMap(item => (item.idempotencyKey === undefined ? [] : [item.idempotencyKey]));
+    if (new Set(keys).size !== keys.length) {
+      throw new ConfigurationError('Idempotency keys must be unique within a charge batch');
+    }
 
-        this.logger.debug('Audit log created', { userId });
-      }
+    if (items.length === 0) {
+      return { mode, succeeded: 0, failed: 0, items: [] };
+    }
 
-      // 构建结果
-      const result: ChargeResult = {
-        success: true,
-        transactionId: transaction.id,
-        cost,
-        balanceBefore,
-        balanceAfter
-      };
+    if (!txn) {
+      this.requireStorage('runInTransaction', 'batch charges');
+    }
 
-      // 步骤 9: 保存幂等记录
-      if (idempotencyKey) {
-        this.logger.debug('Saving idempotency record', { idempotencyKey });
-        await this.idempotencyManager.save(idempotencyKey, result, txn);
-      }
+    try {
+      const execution: ChargeBatchExecution = { items, mode, txn };
+      // 批量扣费没有整体的幂等键，只有每个条目都有幂等键时重试才能命中已提交的记录
+      const result = await this.runWithRetry(
+        'chargeBatch',
+        execution,
+        params =>
+          params.txn
+            ? this.executeChargeBatch(params)
+            : this.storage.runInTransaction!(tx => this.executeChargeBatch({ ...params, txn: tx })),
+        items.every(item => !!item.idempotencyKey)
+      );
 
-      this.logger.info('Charge operation completed successfully', {
-        userId,
-        action,
-        cost,
-        transactionId: transaction.id
+      this.logger.info('Charge batch operation completed', {
+        mode,
+        succeeded: result.succeeded,
+        failed: result.failed
       });
 
       return result;
 
     } catch (error) {
-      // 增强的错误处理：特别处理公式计算错误
-      let errorMetadata: Record<string, any> = {
-        operation: action,
-        error: error instanceof Error ? error.message : String(error),
-        ...metadata
-      };
+      this.logger.error('Charge batch operation failed', {
+        items: items.length,
+        mode,
+        error: error instanceof Error ? error.message : String(error)
+      });
 
-      // 如果是公式相关错误，添加详细的上下文信息
-      if (error instanceof MissingVariableError) {
-        // MissingVariableError: 添加公式和变量信息
-        errorMetadata = {
-          ...errorMetadata,
-          errorType: 'MissingVariableError',
-          errorCode: error.code,
-          formula: error.formula,
-          missingVariable: error.missingVariable,
-          providedVariables: error.providedVariables,
-          variables: variables || {}
-        };
-        
-        this.logger.error('Formula calculation failed: missing variable', {
-          userId,
-          action,
-          formula: error.formula,
-          missingVariable: error.missingVariable,
-          providedVariables: error.providedVariables
-        });
-      } else if (error instanceof FormulaEvaluationError) {
-        // FormulaEvaluationError: 添加公式、变量和错误原因
-        errorMetadata = {
-          ...errorMetadata,
-          errorType: 'FormulaEvaluationError',
-          errorCode: error.code,
-          formula: error.formula,
-          variables: error.variables,
-          cause: error.cause
-        };
-        
-        this.logger.error('Formula calculation failed: evaluation error', {
-          userId,
-          action,
-          formula: error.formula,
-          variables: error.variables,
-          cause: error.cause
-        });
-      } else {
-        // 其他错误：记录通用错误日志
-        this.logger.error('Charge operation failed', {
-          userId,
-          action,
+      // 整批失败时为每个涉及的用户记录失败审计日志，写在批量扣费事务之外
+      for (const userId of new Set(items.map(item => item.userId))) {
+        await this.logFailedOperation(userId, 'chargeBatch', {
+          mode,
+          items: items.filter(item => item.userId === userId).length,
           error: error instanceof Error ? error.message : String(error)
-        });
-      }
-
-      // 记录失败的审计日志
-      if (this.config.audit.enabled) {
-        try {
-          await this.auditTrail.log(
-            {
-              userId,
-              action: 'charge',
-              status: 'failed',
-              metadata: errorMetadata,
-              errorMessage: error instanceof Error ? error.message : String(error)
-            },
-            txn
-          );
-        } catch (auditError) {
-          // 如果审计日志记录失败，只记录警告，不影响主错误的抛出
-          this.logger.warn('Failed to create audit log for failed operation', {
-            userId,
-            action,
-            error: auditError
-          });
-        }
+        }, error, txn);
       }
 
-      // 重新抛出原始错误
       throw error;
     }
   }
@@ -718,21 +1168,38 @@ export class CreditsEngine {
    * 
    * 执行退款流程：
    * 1. 幂等性检查 - 如果提供了幂等键且操作已执行，返回缓存结果
-   * 2. 用户验证 - 检查用户是否存在
-   * 3. 余额更新 - 增加积分
-   * 4. 交易记录 - 创建交易记录（正金额表示增加）
-   * 5. 审计日志 - 记录操作
-   * 6. 幂等记录 - 保存结果用于后续幂等性检查
+   * 2. 确定退款对象 - 按原交易退款时查找原扣费交易，并原子登记累计退款金额
+   * 3. 用户验证 - 检查用户是否存在
+   * 4. 余额更新 - 增加积分
+   * 5. 交易记录 - 创建交易记录（正金额表示增加）
+   * 6. 审计日志 - 记录操作
+   * 7. 幂等记录 - 保存结果用于后续幂等性检查
    * 
    * 所有操作在事务中执行（如果提供了事务上下文）或自动提交。
    * 任何步骤失败都会导致整个操作回滚（在事务中）。
    * 
+   * 提供 transactionId 时按原扣费交易退款：积分退回原交易所扣的钱包
+   * （组织成员的扣费退回组织积分池），对同一笔扣费的累计退款不超过原扣费金额，
+   * 退款交易的 metadata.originalTransactionId 指向原交易。
+   * 原扣费消耗的积分批次不会恢复，退回的积分不会过期。
+   * 
    * @param params - 退款参数
    * @returns 退款结果
    * @throws {UserNotFoundError} 当用户不存在时
+   * @throws {TransactionNotFoundError} 当原交易不存在时
+   * @throws {RefundExceedsChargeError} 当累计退款会超过原扣费金额时
+   * @throws {ConfigurationError} 当原交易不是扣费、用户与原交易不一致、退款金额不是正数，
+   *   或存储适配器未实现按交易退款所需的方法时
    * 
    * @example
    * ```typescript
+   * // 按原扣费交易全额退款
+   * const result = await engine.refund({ transactionId: 'txn-123' });
+   * 
+   * // 部分退款
+   * const partial = await engine.refund({ transactionId: 'txn-123', amount: 5 });
+   * console.log(`Refundable left: ${partial.remainingRefundable}`);
+   * 
    * // 基本退款
    * const result = await engine.refund({
    *   userId: 'user-123',
@@ -768,127 +1235,30 @@ export class CreditsEngine {
    * - 5.5: 支持退款操作的事务上下文
    */
   async refund(params: RefundParams): Promise<RefundResult> {
-    const { userId, amount, action, idempotencyKey, metadata = {}, txn } = params;
+    const { transactionId, idempotencyKey, metadata = {}, txn } = params;
 
     this.logger.info('Starting refund operation', {
-      userId,
-      amount,
-      action,
+      userId: params.userId,
+      amount: params.amount,
+      action: params.action,
+      transactionId,
       hasIdempotencyKey: !!idempotencyKey,
       hasTransaction: !!txn
     });
 
-    try {
-      // 步骤 1: 幂等性检查
-      if (idempotencyKey) {
-        this.logger.debug('Checking idempotency', { idempotencyKey });
-        const existingRecord = await this.idempotencyManager.check(idempotencyKey, txn);
-        
-        if (existingRecord) {
-          this.logger.info('Idempotency key found, returning cached result', {
-            idempotencyKey,
-            userId
-          });
-          return existingRecord.result as RefundResult;
-        }
-      }
-
-      // 步骤 2: 获取用户信息
-      this.logger.debug('Fetching user', { userId });
-      const user = await this.storage.getUserById(userId, txn);
-      
-      if (!user) {
-        this.logger.warn('User not found', { userId });
-        throw new UserNotFoundError(userId);
-      }
-
-      this.logger.debug('User found', {
-        userId,
-        credits: user.credits
-      });
-
-      // 步骤 3: 更新余额（增加积分）
-      const balanceBefore = user.credits;
-      const balanceAfter = balanceBefore + amount;
-
-      this.logger.debug('Updating user balance', {
-        userId,
-        balanceBefore,
-        balanceAfter,
-        amount
-      });
-
-      await this.storage.updateUserCredits(userId, amount, txn);
-
-      // 步骤 4: 创建交易记录（正金额表示增加）
-      this.logger.debug('Creating transaction record', { userId, action, amount });
-
-      const transaction = await this.storage.createTransaction(
-        {
-          userId,
-          action,
-          amount, // 正数表示退款/增加
-          balanceBefore,
-          balanceAfter,
-          metadata
-        },
-        txn
-      );
-
-      this.logger.debug('Transaction record created', {
-        transactionId: transaction.id
-      });
-
-      // 步骤 5: 创建审计日志
-      if (this.config.audit.enabled) {
-        this.logger.debug('Creating audit log', { userId, action });
-
-        await this.auditTrail.log(
-          {
-            userId,
-            action: 'refund',
-            status: 'success',
-            metadata: {
-              operation: action,
-              amount,
-              balanceBefore,
-              balanceAfter,
-              transactionId: transaction.id,
-              ...metadata
-            }
-          },
-          txn
-        );
-
-        this.logger.debug('Audit log created', { userId });
-      }
-
-      // 构建结果
-      const result: RefundResult = {
-        success: true,
-        transactionId: transaction.id,
-        amount,
-        balanceAfter
-      };
-
-      // 步骤 6: 保存幂等记录
-      if (idempotencyKey) {
-        this.logger.debug('Saving idempotency record', { idempotencyKey });
-        await this.idempotencyManager.save(idempotencyKey, result, txn);
-      }
-
-      this.logger.info('Refund operation completed successfully', {
-        userId,
-        action,
-        amount,
-        transactionId: transaction.id
-      });
-
-      return result;
+    // 按原交易退款时，用户、金额和操作在解析原交易后才能确定
+    const resolved: RefundResolution = {};
 
+    try {
+      return await this.runWithRetry('refund', params, p => this.executeRefund(p, resolved));
     } catch (error) {
-      // 记录失败的审计日志
-      if (this.config.audit.enabled) {
+      const { originalCharge, target } = resolved;
+      const userId = target?.userId ?? originalCharge?.userId ?? params.userId;
+      const action = target?.action ?? params.action;
+      const amount = target?.amount ?? params.amount;
+
+      // 记录失败的审计日志（原交易不存在时无法确定用户，不记录）
+      if (this.config.audit.enabled && userId) {
         try {
           await this.auditTrail.log(
             {
@@ -898,6 +1268,7 @@ export class CreditsEngine {
               metadata: {
                 operation: action,
                 amount,
+                ...(transactionId && { originalTransactionId: transactionId }),
                 error: error instanceof Error ? error.message : String(error),
                 ...metadata
               },
@@ -919,6 +1290,7 @@ export class CreditsEngine {
         userId,
         action,
         amount,
+        transactionId,
         error: error instanceof Error ? error.message : String(error)
       });
 
@@ -932,18 +1304,24 @@ export class CreditsEngine {
    * 
    * 执行发放流程：
    * 1. 验证金额为正数
-   * 2. 用户验证 - 检查用户是否存在
-   * 3. 余额更新 - 增加积分
-   * 4. 交易记录 - 创建交易记录（正金额表示增加）
-   * 5. 审计日志 - 记录操作
+   * 2. 幂等性检查 - 如果提供了幂等键且操作已执行，返回缓存结果
+   * 3. 用户验证 - 检查用户是否存在
+   * 4. 余额更新 - 增加积分（指定 expiresAt 时同时创建积分批次）
+   * 5. 交易记录 - 创建交易记录（正金额表示增加）
+   * 6. 审计日志 - 记录操作
+   * 7. 幂等记录 - 保存结果用于后续幂等性检查
    * 
    * 所有操作在事务中执行（如果提供了事务上下文）或自动提交。
    * 任何步骤失败都会导致整个操作回滚（在事务中）。
    * 
+   * 指定 expiresAt 的积分在到期前可以正常扣费（扣费时优先消耗最早到期的批次），
+   * 到期后不再计入可用余额，并由 expireCredits 从余额中清除。
+   * 
    * @param params - 发放参数
-   * @returns 发放结果
+   * @returns 发放结果（指定 expiresAt 时包含 lotId）
    * @throws {UserNotFoundError} 当用户不存在时
-   * @throws {ConfigurationError} 当发放金额小于或等于零时
+   * @throws {ConfigurationError} 当发放金额小于或等于零、expiresAt 不晚于当前时间，
+   *   或指定 expiresAt 但存储适配器未实现积分批次方法时
    * 
    * @example
    * ```typescript
@@ -954,9 +1332,17 @@ export class CreditsEngine {
    *   action: 'promotion-bonus'
    * });
    * 
-   * // 在事务中发放
-   * await prisma.$transaction(async (tx) => {
-   *   const result = await engine.grant({
+   * // 发放 30 天后到期的积分
+   * const { lotId } = await engine.grant({
+   *   userId: 'user-123',
+   *   amount: 100,
+   *   action: 'monthly-bonus',
+   *   expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
+   * });
+   * 
+   * // 在事务中发放
+   * await prisma.$transaction(async (tx) => {
+   *   const result = await engine.grant({
    *     userId: 'user-123',
    *     amount: 100,
    *     action: 'promotion-bonus',
@@ -974,113 +1360,29 @@ export class CreditsEngine {
    * - 6.5: 验证发放金额为正数
    */
   async grant(params: GrantParams): Promise<GrantResult> {
-    const { userId, amount, action, metadata = {}, txn } = params;
+    const {
+      userId,
+      amount,
+      action,
+      wallet = DEFAULT_WALLET,
+      expiresAt,
+      idempotencyKey,
+      metadata = {},
+      txn
+    } = params;
 
     this.logger.info('Starting grant operation', {
       userId,
       amount,
       action,
+      wallet,
+      hasExpiry: !!expiresAt,
+      hasIdempotencyKey: !!idempotencyKey,
       hasTransaction: !!txn
     });
 
     try {
-      // 步骤 1: 验证金额为正数
-      if (amount <= 0) {
-        this.logger.warn('Invalid grant amount', { userId, amount });
-        throw new ConfigurationError(
-          `Grant amount must be positive, got ${amount}`
-        );
-      }
-
-      this.logger.debug('Amount validation passed', { amount });
-
-      // 步骤 2: 获取用户信息
-      this.logger.debug('Fetching user', { userId });
-      const user = await this.storage.getUserById(userId, txn);
-      
-      if (!user) {
-        this.logger.warn('User not found', { userId });
-        throw new UserNotFoundError(userId);
-      }
-
-      this.logger.debug('User found', {
-        userId,
-        credits: user.credits
-      });
-
-      // 步骤 3: 更新余额（增加积分）
-      const balanceBefore = user.credits;
-      const balanceAfter = balanceBefore + amount;
-
-      this.logger.debug('Updating user balance', {
-        userId,
-        balanceBefore,
-        balanceAfter,
-        amount
-      });
-
-      await this.storage.updateUserCredits(userId, amount, txn);
-
-      // 步骤 4: 创建交易记录（正金额表示增加）
-      this.logger.debug('Creating transaction record', { userId, action, amount });
-
-      const transaction = await this.storage.createTransaction(
-        {
-          userId,
-          action,
-          amount, // 正数表示发放/增加
-          balanceBefore,
-          balanceAfter,
-          metadata
-        },
-        txn
-      );
-
-      this.logger.debug('Transaction record created', {
-        transactionId: transaction.id
-      });
-
-      // 步骤 5: 创建审计日志
-      if (this.config.audit.enabled) {
-        this.logger.debug('Creating audit log', { userId, action });
-
-        await this.auditTrail.log(
-          {
-            userId,
-            action: 'grant',
-            status: 'success',
-            metadata: {
-              operation: action,
-              amount,
-              balanceBefore,
-              balanceAfter,
-              transactionId: transaction.id,
-              ...metadata
-            }
-          },
-          txn
-        );
-
-        this.logger.debug('Audit log created', { userId });
-      }
-
-      // 构建结果
-      const result: GrantResult = {
-        success: true,
-        transactionId: transaction.id,
-        amount,
-        balanceAfter
-      };
-
-      this.logger.info('Grant operation completed successfully', {
-        userId,
-        action,
-        amount,
-        transactionId: transaction.id
-      });
-
-      return result;
-
+      return await this.runWithRetry('grant', params, p => this.executeGrant(p));
     } catch (error) {
       // 记录失败的审计日志
       if (this.config.audit.enabled) {
@@ -1123,948 +1425,6179 @@ export class CreditsEngine {
   }
 
   /**
-   * 升级会员等级
+   * 预授权（冻结积分）
    * 
-   * 执行会员升级流程：
+   * 两阶段扣费的第一步，适用于最终成本要在操作完成后才能确定的长任务：
    * 1. 幂等性检查 - 如果提供了幂等键且操作已执行，返回缓存结果
    * 2. 用户验证 - 检查用户是否存在
-   * 3. 目标等级验证 - 检查目标等级是否在配置中定义
-   * 4. 升级方向验证 - 确保目标等级高于当前等级
-   * 5. 等级和积分更新 - 更新用户等级并设置积分为目标等级的上限
-   * 6. 交易记录创建 - 创建交易记录以记录积分变动
-   * 7. 审计日志记录 - 记录操作详情
-   * 8. 幂等记录保存 - 保存结果用于后续幂等性检查
+   * 3. 会员验证 - 检查用户是否有权限执行该操作，以及当前窗口内的用量配额
+   *    (capture 的交易记录使用冻结的操作名称，计入配额用量)
+   * 4. 冻结金额 - 使用传入的 amount，或按成本配置（含动态公式）估算
+   * 5. 可用余额检查 - 可用余额 = 余额 - 未过期的冻结总额
+   * 6. 冻结记录 - 创建 pending 状态的冻结记录（到期后自动失效），
+   *    存储适配器实现 createCreditHoldIfAvailable 时在创建的同一原子操作中再次校验可用余额
+   * 7. 交易记录 - 创建金额为 0 的 'credit-hold' 交易记录
+   * 8. 审计日志 - 记录操作
+   * 9. 幂等记录 - 保存结果用于后续幂等性检查
    * 
-   * 所有操作在事务中执行（如果提供了事务上下文）或自动提交。
-   * 任何步骤失败都会导致整个操作回滚（在事务中）。
+   * 冻结不会修改用户余额，只会减少可用余额；
+   * 实际扣费发生在 capture 时，release 或过期则不产生扣费。
    * 
-   * @param params - 升级参数
-   * @returns 等级变更结果
+   * 以上步骤在一个存储事务中执行（提供了 txn 时使用该事务），
+   * 任何步骤失败时冻结记录、交易记录和审计日志一起回滚。
+   * 
+   * @param params - 预授权参数
+   * @returns 预授权结果
    * @throws {UserNotFoundError} 当用户不存在时
-   * @throws {UndefinedTierError} 当目标等级未在配置中定义时
-   * @throws {InvalidTierChangeError} 当目标等级不高于当前等级时
+   * @throws {MembershipRequiredError} 当用户缺少所需会员资格时
+   * @throws {EntitlementRequiredError} 当用户缺少操作所需的功能时
+   * @throws {QuotaExceededError} 当用户在当前窗口内的操作次数已达到配额时
+   * @throws {InsufficientCreditsError} 当可用余额不足时
+   * @throws {ConfigurationError} 当冻结金额无效、存储适配器不支持冻结，
+   *   或未提供 txn 且存储适配器未实现 runInTransaction 时
    * 
    * @example
    * ```typescript
-   * // 基本升级
-   * const result = await engine.upgradeTier({
-   *   userId: 'user-123',
-   *   targetTier: 'premium'
-   * });
-   * 
-   * // 带会员到期时间的升级
-   * const result = await engine.upgradeTier({
-   *   userId: 'user-123',
-   *   targetTier: 'premium',
-   *   membershipExpiresAt: new Date('2025-12-31')
-   * });
-   * 
-   * // 带幂等键的升级
-   * const result = await engine.upgradeTier({
+   * // 按预估 token 数冻结
+   * const hold = await engine.reserve({
    *   userId: 'user-123',
-   *   targetTier: 'premium',
-   *   idempotencyKey: 'upgrade-unique-key-123'
+   *   action: 'ai-completion',
+   *   variables: { token: 8000 },
+   *   ttl: 600
    * });
    * 
-   * // 在事务中升级
-   * await prisma.$transaction(async (tx) => {
-   *   const result = await engine.upgradeTier({
-   *     userId: 'user-123',
-   *     targetTier: 'premium',
-   *     txn: tx
-   *   });
-   *   // ... 其他操作 ...
+   * // 任务完成后按实际 token 数结算
+   * await engine.capture({
+   *   holdId: hold.holdId,
+   *   variables: { token: 5200 }
    * });
    * ```
-   * 
-   * 验证需求:
-   * - 1.1: 验证目标等级高于当前等级
-   * - 1.2: 更新用户的会员等级字段为目标等级
-   * - 1.3: 将用户积分设置为目标等级的预设积分上限
-   * - 1.4: 创建交易记录以记录积分变动
-   * - 1.5: 创建审计日志记录操作详情
-   * - 1.6: 目标等级不存在于配置中时抛出配置错误
-   * - 1.7: 目标等级不高于当前等级时抛出验证错误
-   * - 1.8: 用户不存在时抛出用户不存在错误
    */
-  async upgradeTier(params: UpgradeTierParams): Promise<TierChangeResult> {
-    const { userId, targetTier, membershipExpiresAt, idempotencyKey, metadata = {}, txn } = params;
+  async reserve(params: ReserveParams): Promise<ReserveResult> {
+    const { userId, action, variables, idempotencyKey, metadata = {}, txn } = params;
 
-    this.logger.info('Starting upgradeTier operation', {
+    this.logger.info('Starting reserve operation', {
       userId,
-      targetTier,
-      hasMembershipExpiresAt: membershipExpiresAt !== undefined,
+      action,
+      hasAmount: params.amount !== undefined,
       hasIdempotencyKey: !!idempotencyKey,
-      hasTransaction: !!txn
+      hasTransaction: !!txn,
+      hasVariables: !!variables
     });
 
     try {
-      // 步骤 1: 幂等性检查
-      if (idempotencyKey) {
-        this.logger.debug('Checking idempotency', { idempotencyKey });
-        const existingRecord = await this.idempotencyManager.check(idempotencyKey, txn);
-        
-        if (existingRecord) {
-          this.logger.info('Idempotency key found, returning cached result', {
-            idempotencyKey,
-            userId
-          });
-          return existingRecord.result as TierChangeResult;
-        }
-      }
+      this.requireStorage('createCreditHold', 'credit reservations');
+      this.requireStorage('getActiveHoldsTotal', 'credit reservations');
 
-      // 步骤 2: 获取用户信息
-      this.logger.debug('Fetching user', { userId });
-      const user = await this.storage.getUserById(userId, txn);
-      
-      if (!user) {
-        this.logger.warn('User not found', { userId });
-        throw new UserNotFoundError(userId);
+      if (!txn) {
+        this.requireStorage('runInTransaction', 'credit reservations');
       }
 
-      this.logger.debug('User found', {
+      const result = await this.runWithRetry('reserve', params, p =>
+        p.txn
+          ? this.executeReserve(p, p.txn)
+          : this.storage.runInTransaction!(tx => this.executeReserve(p, tx))
+      );
+
+      this.logger.info('Reserve operation completed successfully', {
         userId,
-        credits: user.credits,
-        membershipTier: user.membershipTier
+        action,
+        amount: result.amount,
+        holdId: result.holdId
       });
 
-      // 步骤 3: 验证目标等级存在
-      if (!(targetTier in this.config.membership.tiers)) {
-        this.logger.warn('Target tier not defined', { targetTier });
-        throw new UndefinedTierError(targetTier);
-      }
+      return result;
 
-      this.logger.debug('Target tier validated', { targetTier });
+    } catch (error) {
+      await this.logFailedOperation(userId, 'reserve', {
+        operation: action,
+        amount: params.amount,
+        error: error instanceof Error ? error.message : String(error),
+        ...metadata
+      }, error, txn);
 
-      // 步骤 4: 验证升级方向
-      const currentLevel = user.membershipTier 
-        ? (this.config.membership.tiers[user.membershipTier] ?? -1)
-        : -1;
-      const targetLevel = this.config.membership.tiers[targetTier];
-      
-      // TypeScript 类型保护：确保 targetLevel 已定义
-      if (targetLevel === undefined) {
-        throw new UndefinedTierError(targetTier);
-      }
+      this.logger.error('Reserve operation failed', {
+        userId,
+        action,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * 执行预授权步骤
+   * 
+   * @param params - 预授权参数
+   * @param txn - 本次预授权使用的事务
+   * @returns 预授权结果
+   */
+  private async executeReserve(params: ReserveParams, txn: any): Promise<ReserveResult> {
+    const { userId, action, variables, ttl, idempotencyKey, metadata = {} } = params;
+
+    // 步骤 1: 幂等性检查
+    if (idempotencyKey) {
+      this.logger.debug('Checking idempotency', { idempotencyKey });
+      const existingRecord = await this.idempotencyManager.claim(
+        idempotencyKey,
+        txn,
+        { operation: 'reserve', params }
+      );
       
-      if (targetLevel <= currentLevel) {
-        this.logger.warn('Invalid upgrade direction', {
-          userId,
-          currentTier: user.membershipTier,
-          currentLevel,
-          targetTier,
-          targetLevel
+      if (existingRecord) {
+        this.logger.info('Idempotency key found, returning cached result', {
+          idempotencyKey,
+          userId
         });
-
-        throw new InvalidTierChangeError(
-          userId, 
-          user.membershipTier, 
-          targetTier,
-          'Target tier must be higher than current tier for upgrade'
-        );
+        return existingRecord.result as ReserveResult;
       }
+    }
 
-      this.logger.debug('Upgrade direction validated', {
-        currentLevel,
-        targetLevel
-      });
+    // 步骤 2: 获取用户信息
+    this.logger.debug('Fetching user', { userId });
+    const user = await this.storage.getUserById(userId, txn);
+    
+    if (!user) {
+      this.logger.warn('User not found', { userId });
+      throw new UserNotFoundError(userId);
+    }
 
-      // 步骤 5: 获取目标等级的积分上限
-      const newCredits = this.config.membership.creditsCaps[targetTier];
-      
-      // TypeScript 类型保护：确保 newCredits 已定义
-      if (newCredits === undefined) {
-        throw new UndefinedTierError(targetTier);
-      }
-      
-      this.logger.debug('Credits cap retrieved', {
-        targetTier,
-        newCredits
-      });
+    // 步骤 3: 会员验证和用量配额检查
+    await this.assertMembership(user, action, txn);
+    await this.assertQuota(user, action, 1, txn);
+
+    // 步骤 4: 确定冻结金额
+    const amount = params.amount !== undefined
+      ? params.amount
+      : this.costFormula.calculate(action, user.membershipTier, variables);
+
+    if (amount <= 0) {
+      this.logger.warn('Invalid hold amount', { userId, amount });
+      throw new ConfigurationError(
+        `Hold amount must be positive, got ${amount}`
+      );
+    }
+
+    this.logger.debug('Hold amount determined', { userId, amount });
 
-      // 步骤 6: 更新用户等级和积分
-      const balanceBefore = user.credits;
-      const creditsDelta = newCredits - balanceBefore;
+    // 步骤 5: 检查可用余额
+    const now = new Date();
+    const heldCredits = await this.getHeldCredits(userId, txn);
+    const { expiredTotal } = await this.getCreditLots(userId, now, txn);
+    const availableBefore = user.credits - heldCredits - expiredTotal;
 
-      this.logger.debug('Updating user membership', {
+    if (availableBefore < amount) {
+      this.logger.warn('Insufficient credits for hold', {
         userId,
-        targetTier,
-        newCredits,
-        balanceBefore,
-        creditsDelta,
-        membershipExpiresAt
+        required: amount,
+        available: availableBefore,
+        heldCredits
       });
 
-      await this.storage.updateUserMembership(
-        userId,
-        targetTier,
-        newCredits,
-        membershipExpiresAt,
-        txn
-      );
+      throw new InsufficientCreditsError(userId, amount, availableBefore);
+    }
+
+    // 步骤 6: 创建冻结记录
+    // 上面的检查基于读取时的快照，并发预授权可能同时通过；
+    // 存储层支持时由其在创建冻结的同一原子操作中再次校验可用余额
+    const ttlSeconds = ttl ?? this.config.reservations?.defaultTtl ?? DEFAULT_HOLD_TTL_SECONDS;
+    const expiresAt = new Date(now.getTime() + ttlSeconds * 1000);
+    const holdInput = {
+      userId,
+      action,
+      amount,
+      expiresAt,
+      metadata: {
+        ...metadata,
+        ...(variables && { variables })
+      }
+    };
+
+    this.logger.debug('Creating credit hold', { userId, amount, expiresAt });
 
-      this.logger.debug('User membership updated', { userId });
+    const hold = typeof this.storage.createCreditHoldIfAvailable === 'function'
+      ? await this.storage.createCreditHoldIfAvailable(holdInput, expiredTotal, now, txn)
+      : await this.storage.createCreditHold!(holdInput, txn);
 
-      // 步骤 7: 创建交易记录
-      this.logger.debug('Creating transaction record', {
+    if (!hold) {
+      const latestUser = await this.storage.getUserById(userId, txn);
+      const latestAvailable = latestUser
+        ? (await this.getSpendableBalance(latestUser, DEFAULT_WALLET, txn)).available
+        : 0;
+
+      this.logger.warn('Insufficient credits for hold after concurrent update', {
         userId,
-        action: 'tier-upgrade',
-        creditsDelta
+        required: amount,
+        available: latestAvailable
       });
 
-      const transaction = await this.storage.createTransaction(
+      throw new InsufficientCreditsError(userId, amount, latestAvailable);
+    }
+
+    // 步骤 7: 创建交易记录（冻结不改变余额，金额为 0）
+    const transaction = await this.storage.createTransaction(
+      {
+        userId,
+        action: 'credit-hold',
+        amount: 0,
+        balanceBefore: user.credits,
+        balanceAfter: user.credits,
+        operation: 'reserve',
+        metadata: {
+          holdId: hold.id,
+          operation: action,
+          heldAmount: amount,
+          expiresAt,
+          ...metadata
+        }
+      },
+      txn
+    );
+
+    const availableAfter = availableBefore - amount;
+
+    // 步骤 8: 创建审计日志
+    if (this.config.audit.enabled) {
+      await this.auditTrail.log(
         {
           userId,
-          action: 'tier-upgrade',
-          amount: creditsDelta,
-          balanceBefore,
-          balanceAfter: newCredits,
+          action: 'reserve',
+          status: 'success',
           metadata: {
-            oldTier: user.membershipTier,
-            newTier: targetTier,
-            oldCredits: balanceBefore,
-            newCredits,
-            creditsDelta,
-            membershipExpiresAt,
+            operation: action,
+            holdId: hold.id,
+            amount,
+            availableBefore,
+            availableAfter,
+            expiresAt,
+            transactionId: transaction.id,
             ...metadata
           }
         },
         txn
       );
+    }
 
-      this.logger.debug('Transaction record created', {
-        transactionId: transaction.id
+    const result: ReserveResult = {
+      success: true,
+      holdId: hold.id,
+      transactionId: transaction.id,
+      amount,
+      expiresAt,
+      availableBefore,
+      availableAfter
+    };
+
+    // 步骤 9: 保存幂等记录
+    if (idempotencyKey) {
+      this.logger.debug('Saving idempotency record', { idempotencyKey });
+      await this.idempotencyManager.save(idempotencyKey, result, txn, {
+        operation: 'reserve',
+        params
       });
+    }
 
-      // 步骤 8: 创建审计日志
-      if (this.config.audit.enabled) {
-        this.logger.debug('Creating audit log', { userId, action: 'upgradeTier' });
+    return result;
+  }
 
-        await this.auditTrail.log(
-          {
-            userId,
-            action: 'upgradeTier',
-            status: 'success',
-            metadata: {
-              oldTier: user.membershipTier,
-              newTier: targetTier,
-              oldCredits: balanceBefore,
-              newCredits,
-              creditsDelta,
-              transactionId: transaction.id,
-              membershipExpiresAt,
-              ...metadata
-            }
-          },
-          txn
-        );
+  /**
+   * 结算冻结（按最终金额扣费）
+   * 
+   * 执行结算流程：
+   * 1. 幂等性检查
+   * 2. 冻结验证 - 冻结必须存在、处于 pending 状态且未过期
+   * 3. 最终金额 - 使用传入的 amount，或按 variables 通过成本公式计算，
+   *    两者都未提供时按冻结金额结算
+   * 4. 金额校验 - 最终金额不能超过冻结金额
+   * 5. 完结冻结 - 条件更新为 captured，防止重复结算
+   * 6. 余额更新 - 条件扣减最终金额，扣减后余额不得低于其他冻结和已过期积分之和减去透支额度
+   * 7. 交易记录 - 以冻结时的 action 创建扣费记录
+   * 8. 审计日志 - 记录操作
+   * 9. 幂等记录 - 保存结果
+   * 
+   * 以上步骤在一个存储事务中执行（提供了 txn 时使用该事务），
+   * 扣减失败时冻结的完结一起回滚，冻结保持 pending。
+   * 
+   * @param params - 结算参数
+   * @returns 结算结果
+   * @throws {HoldNotFoundError} 当冻结不存在时
+   * @throws {InvalidHoldOperationError} 当冻结已完结、已过期或最终金额超过冻结金额时
+   * @throws {UserNotFoundError} 当用户不存在时
+   * @throws {InsufficientCreditsError} 当余额已被并发扣减、不足以结算时
+   * @throws {ConfigurationError} 当未提供 txn 且存储适配器未实现 runInTransaction 时
+   * 
+   * @example
+   * ```typescript
+   * const result = await engine.capture({
+   *   holdId: 'hold-123',
+   *   variables: { token: 5200 }
+   * });
+   * console.log(result.cost, result.releasedAmount);
+   * ```
+   */
+  async capture(params: CaptureParams): Promise<CaptureResult> {
+    const { holdId, variables, idempotencyKey, metadata = {}, txn } = params;
 
-        this.logger.debug('Audit log created', { userId });
-      }
+    this.logger.info('Starting capture operation', {
+      holdId,
+      hasAmount: params.amount !== undefined,
+      hasIdempotencyKey: !!idempotencyKey,
+      hasTransaction: !!txn,
+      hasVariables: !!variables
+    });
 
-      // 构建结果
-      const result: TierChangeResult = {
-        success: true,
-        transactionId: transaction.id,
-        oldTier: user.membershipTier,
-        newTier: targetTier,
-        oldCredits: balanceBefore,
-        newCredits,
-        creditsDelta
-      };
+    const context: { hold?: CreditHold } = {};
 
-      // 步骤 9: 保存幂等记录
-      if (idempotencyKey) {
-        this.logger.debug('Saving idempotency record', { idempotencyKey });
-        await this.idempotencyManager.save(idempotencyKey, result, txn);
+    try {
+      this.requireStorage('getCreditHold', 'credit reservations');
+      this.requireStorage('finalizeCreditHold', 'credit reservations');
+
+      if (!txn) {
+        this.requireStorage('runInTransaction', 'credit captures');
       }
 
-      this.logger.info('UpgradeTier operation completed successfully', {
-        userId,
-        oldTier: user.membershipTier,
-        newTier: targetTier,
-        creditsDelta,
-        transactionId: transaction.id
+      const result = await this.runWithRetry('capture', params, p =>
+        p.txn
+          ? this.executeCapture(p, p.txn, context)
+          : this.storage.runInTransaction!(tx => this.executeCapture(p, tx, context))
+      );
+
+      this.logger.info('Capture operation completed successfully', {
+        holdId,
+        cost: result.cost,
+        transactionId: result.transactionId
       });
 
       return result;
 
     } catch (error) {
-      // 记录失败的审计日志
-      if (this.config.audit.enabled) {
-        try {
-          await this.auditTrail.log(
-            {
-              userId,
-              action: 'upgradeTier',
-              status: 'failed',
-              metadata: {
-                targetTier,
-                error: error instanceof Error ? error.message : String(error),
-                ...metadata
-              },
-              errorMessage: error instanceof Error ? error.message : String(error)
-            },
-            txn
-          );
-        } catch (auditError) {
-          // 如果审计日志记录失败，只记录警告，不影响主错误的抛出
-          this.logger.warn('Failed to create audit log for failed operation', {
-            userId,
-            action: 'upgradeTier',
-            error: auditError
-          });
-        }
+      const { hold } = context;
+      if (hold) {
+        await this.logFailedOperation(hold.userId, 'capture', {
+          operation: hold.action,
+          holdId,
+          amount: params.amount,
+          error: error instanceof Error ? error.message : String(error),
+          ...metadata
+        }, error, txn);
       }
 
-      this.logger.error('UpgradeTier operation failed', {
-        userId,
-        targetTier,
+      this.logger.error('Capture operation failed', {
+        holdId,
         error: error instanceof Error ? error.message : String(error)
       });
 
-      // 重新抛出原始错误
       throw error;
     }
   }
 
   /**
-   * 降级会员等级
-   * 
-   * 执行会员降级流程：
-   * 1. 幂等性检查 - 如果提供了幂等键且操作已执行，返回缓存结果
-   * 2. 用户验证 - 检查用户是否存在
-   * 3. 目标等级验证 - 检查目标等级是否在配置中定义
-   * 4. 降级方向验证 - 确保目标等级低于当前等级
-   * 5. 等级和积分更新 - 更新用户等级并设置积分为目标等级的上限
-   * 6. 会员到期时间清除 - 如果指定，清除会员到期时间
-   * 7. 交易记录创建 - 创建交易记录以记录积分变动
-   * 8. 审计日志记录 - 记录操作详情
-   * 9. 幂等记录保存 - 保存结果用于后续幂等性检查
-   * 
-   * 所有操作在事务中执行（如果提供了事务上下文）或自动提交。
-   * 任何步骤失败都会导致整个操作回滚（在事务中）。
-   * 
-   * @param params - 降级参数
-   * @returns 等级变更结果
-   * @throws {UserNotFoundError} 当用户不存在时
-   * @throws {UndefinedTierError} 当目标等级未在配置中定义时
-   * @throws {InvalidTierChangeError} 当目标等级不低于当前等级时
-   * 
-   * @example
-   * ```typescript
-   * // 基本降级
-   * const result = await engine.downgradeTier({
-   *   userId: 'user-123',
-   *   targetTier: 'free'
-   * });
-   * 
-   * // 降级并清除会员到期时间
-   * const result = await engine.downgradeTier({
-   *   userId: 'user-123',
-   *   targetTier: 'free',
-   *   clearExpiration: true
-   * });
-   * 
-   * // 带幂等键的降级
-   * const result = await engine.downgradeTier({
-   *   userId: 'user-123',
-   *   targetTier: 'free',
-   *   idempotencyKey: 'downgrade-unique-key-123'
-   * });
-   * 
-   * // 在事务中降级
-   * await prisma.$transaction(async (tx) => {
-   *   const result = await engine.downgradeTier({
-   *     userId: 'user-123',
-   *     targetTier: 'free',
-   *     txn: tx
-   *   });
-   *   // ... 其他操作 ...
-   * });
-   * ```
+   * 执行结算步骤
    * 
-   * 验证需求:
-   * - 2.1: 验证目标等级低于当前等级
-   * - 2.2: 更新用户的会员等级字段为目标等级
-   * - 2.3: 将用户积分设置为目标等级的预设积分上限
-   * - 2.4: 创建交易记录以记录积分变动
-   * - 2.5: 创建审计日志记录操作详情
-   * - 2.6: 目标等级不存在于配置中时抛出配置错误
-   * - 2.7: 目标等级不低于当前等级时抛出验证错误
-   * - 2.8: 用户不存在时抛出用户不存在错误
-   * - 6.3: 降级时可选地清除会员到期时间
+   * @param params - 结算参数
+   * @param txn - 本次结算使用的事务
+   * @param context - 找到冻结后记录在 context.hold 中，供失败时写审计日志
+   * @returns 结算结果
    */
-  async downgradeTier(params: DowngradeTierParams): Promise<TierChangeResult> {
-    const { userId, targetTier, clearExpiration = false, idempotencyKey, metadata = {}, txn } = params;
-
-    this.logger.info('Starting downgradeTier operation', {
-      userId,
-      targetTier,
-      clearExpiration,
-      hasIdempotencyKey: !!idempotencyKey,
-      hasTransaction: !!txn
-    });
-
-    try {
-      // 步骤 1: 幂等性检查
-      if (idempotencyKey) {
-        this.logger.debug('Checking idempotency', { idempotencyKey });
-        const existingRecord = await this.idempotencyManager.check(idempotencyKey, txn);
-        
-        if (existingRecord) {
-          this.logger.info('Idempotency key found, returning cached result', {
-            idempotencyKey,
-            userId
-          });
-          return existingRecord.result as TierChangeResult;
-        }
-      }
-
-      // 步骤 2: 获取用户信息
-      this.logger.debug('Fetching user', { userId });
-      const user = await this.storage.getUserById(userId, txn);
+  private async executeCapture(
+    params: CaptureParams,
+    txn: any,
+    context: { hold?: CreditHold }
+  ): Promise<CaptureResult> {
+    const { holdId, variables, idempotencyKey, metadata = {} } = params;
+
+    // 步骤 1: 幂等性检查
+    if (idempotencyKey) {
+      this.logger.debug('Checking idempotency', { idempotencyKey });
+      const existingRecord = await this.idempotencyManager.claim(
+        idempotencyKey,
+        txn,
+        { operation: 'capture', params }
+      );
       
-      if (!user) {
-        this.logger.warn('User not found', { userId });
-        throw new UserNotFoundError(userId);
+      if (existingRecord) {
+        this.logger.info('Idempotency key found, returning cached result', {
+          idempotencyKey,
+          holdId
+        });
+        return existingRecord.result as CaptureResult;
       }
+    }
 
-      this.logger.debug('User found', {
-        userId,
-        credits: user.credits,
-        membershipTier: user.membershipTier
-      });
+    // 步骤 2: 验证冻结
+    const hold = await this.getPendingHold(holdId, txn);
+    context.hold = hold;
 
-      // 步骤 3: 验证目标等级存在
-      if (!(targetTier in this.config.membership.tiers)) {
-        this.logger.warn('Target tier not defined', { targetTier });
-        throw new UndefinedTierError(targetTier);
-      }
+    const user = await this.storage.getUserById(hold.userId, txn);
+    
+    if (!user) {
+      this.logger.warn('User not found', { userId: hold.userId });
+      throw new UserNotFoundError(hold.userId);
+    }
 
-      this.logger.debug('Target tier validated', { targetTier });
+    // 步骤 3: 确定最终金额
+    let cost: number;
+    let calculationDetails = null;
 
-      // 步骤 4: 验证降级方向
-      const currentLevel = user.membershipTier 
-        ? (this.config.membership.tiers[user.membershipTier] ?? -1)
-        : -1;
-      const targetLevel = this.config.membership.tiers[targetTier];
-      
-      // TypeScript 类型保护：确保 targetLevel 已定义
-      if (targetLevel === undefined) {
-        throw new UndefinedTierError(targetTier);
-      }
-      
-      if (targetLevel >= currentLevel) {
-        this.logger.warn('Invalid downgrade direction', {
-          userId,
-          currentTier: user.membershipTier,
-          currentLevel,
-          targetTier,
-          targetLevel
-        });
+    if (params.amount !== undefined) {
+      cost = params.amount;
+    } else if (variables) {
+      cost = this.costFormula.calculate(hold.action, user.membershipTier, variables);
+      calculationDetails = this.costFormula.getCalculationDetails(
+        hold.action,
+        user.membershipTier,
+        variables
+      );
+    } else {
+      cost = hold.amount;
+    }
 
-        throw new InvalidTierChangeError(
-          userId, 
-          user.membershipTier, 
-          targetTier,
-          'Target tier must be lower than current tier for downgrade'
-        );
-      }
+    // 步骤 4: 校验最终金额
+    if (cost < 0) {
+      throw new ConfigurationError(`Capture amount must be non-negative, got ${cost}`);
+    }
 
-      this.logger.debug('Downgrade direction validated', {
-        currentLevel,
-        targetLevel
+    if (cost > hold.amount) {
+      this.logger.warn('Capture amount exceeds hold', {
+        holdId,
+        heldAmount: hold.amount,
+        cost
       });
 
-      // 步骤 5: 获取目标等级的积分上限
-      const newCredits = this.config.membership.creditsCaps[targetTier];
-      
-      // TypeScript 类型保护：确保 newCredits 已定义
-      if (newCredits === undefined) {
-        throw new UndefinedTierError(targetTier);
-      }
-      
-      this.logger.debug('Credits cap retrieved', {
-        targetTier,
-        newCredits
-      });
+      throw new InvalidHoldOperationError(
+        holdId,
+        hold.status,
+        `Capture amount ${cost} exceeds held amount ${hold.amount}`
+      );
+    }
 
-      // 步骤 6: 更新用户等级和积分
-      const balanceBefore = user.credits;
-      const creditsDelta = newCredits - balanceBefore;
+    // 步骤 5: 完结冻结（条件更新，防止并发重复结算）
+    const finalized = await this.storage.finalizeCreditHold!(holdId, 'captured', cost, txn);
 
-      // 确定会员到期时间：如果 clearExpiration 为 true，则设置为 null
-      const membershipExpiresAt = clearExpiration ? null : undefined;
+    if (!finalized) {
+      throw new InvalidHoldOperationError(holdId, hold.status, 'Hold has already been finalized');
+    }
 
-      this.logger.debug('Updating user membership', {
-        userId,
-        targetTier,
-        newCredits,
-        balanceBefore,
-        creditsDelta,
-        clearExpiration,
-        membershipExpiresAt
+    // 步骤 6: 条件扣减余额，并按到期时间由近到远消耗积分批次
+    // 冻结已完结，不可用额度中只剩其他冻结和已过期未清除的积分
+    const { lots, unavailable, overdraftLimit } = await this.getChargeableBalance(
+      user,
+      DEFAULT_WALLET,
+      null,
+      txn
+    );
+    const minBalance = unavailable - overdraftLimit;
+    const balanceAfter = await this.debitWallet(hold.userId, DEFAULT_WALLET, cost, minBalance, txn);
+
+    if (balanceAfter === null) {
+      const latestAvailable = (await this.getWalletBalance(hold.userId, DEFAULT_WALLET, txn)) - minBalance;
+
+      this.logger.warn('Insufficient credits to capture hold', {
+        holdId,
+        required: cost,
+        available: latestAvailable
       });
 
-      await this.storage.updateUserMembership(
-        userId,
-        targetTier,
-        newCredits,
-        membershipExpiresAt,
-        txn
-      );
+      throw new InsufficientCreditsError(hold.userId, cost, latestAvailable);
+    }
 
-      this.logger.debug('User membership updated', { userId });
+    const balanceBefore = balanceAfter + cost;
+    const releasedAmount = hold.amount - cost;
+    const consumedLots = await this.consumeCreditLots(lots.active, cost, txn);
 
-      // 步骤 7: 创建交易记录
-      this.logger.debug('Creating transaction record', {
-        userId,
-        action: 'tier-downgrade',
-        creditsDelta
-      });
+    // 步骤 7: 创建交易记录
+    const transaction = await this.storage.createTransaction(
+      {
+        userId: hold.userId,
+        action: hold.action,
+        amount: -cost,
+        balanceBefore,
+        balanceAfter,
+        operation: 'capture',
+        metadata: {
+          ...metadata,
+          holdId,
+          heldAmount: hold.amount,
+          releasedAmount,
+          ...(consumedLots.length > 0 && { creditLots: consumedLots }),
+          ...(calculationDetails?.isDynamic && {
+            dynamicCost: {
+              formula: calculationDetails.formula,
+              variables: calculationDetails.variables,
+              rawCost: calculationDetails.rawCost,
+              finalCost: calculationDetails.finalCost
+            }
+          })
+        }
+      },
+      txn
+    );
 
-      const transaction = await this.storage.createTransaction(
+    // 步骤 8: 创建审计日志
+    if (this.config.audit.enabled) {
+      await this.auditTrail.log(
         {
-          userId,
-          action: 'tier-downgrade',
-          amount: creditsDelta,
-          balanceBefore,
-          balanceAfter: newCredits,
+          userId: hold.userId,
+          action: 'capture',
+          status: 'success',
           metadata: {
-            oldTier: user.membershipTier,
-            newTier: targetTier,
-            oldCredits: balanceBefore,
-            newCredits,
-            creditsDelta,
-            clearExpiration,
+            operation: hold.action,
+            holdId,
+            heldAmount: hold.amount,
+            cost,
+            releasedAmount,
+            balanceBefore,
+            balanceAfter,
+            transactionId: transaction.id,
             ...metadata
           }
         },
         txn
       );
+    }
 
-      this.logger.debug('Transaction record created', {
-        transactionId: transaction.id
+    const result: CaptureResult = {
+      success: true,
+      holdId,
+      transactionId: transaction.id,
+      cost,
+      releasedAmount,
+      balanceBefore,
+      balanceAfter
+    };
+
+    // 步骤 9: 保存幂等记录
+    if (idempotencyKey) {
+      this.logger.debug('Saving idempotency record', { idempotencyKey });
+      await this.idempotencyManager.save(idempotencyKey, result, txn, {
+        operation: 'capture',
+        params
       });
+    }
 
-      // 步骤 8: 创建审计日志
-      if (this.config.audit.enabled) {
-        this.logger.debug('Creating audit log', { userId, action: 'downgradeTier' });
+    return result;
+  }
 
-        await this.auditTrail.log(
-          {
-            userId,
-            action: 'downgradeTier',
-            status: 'success',
-            metadata: {
-              oldTier: user.membershipTier,
-              newTier: targetTier,
-              oldCredits: balanceBefore,
-              newCredits,
-              creditsDelta,
-              transactionId: transaction.id,
-              clearExpiration,
-              ...metadata
-            }
-          },
-          txn
-        );
+  /**
+   * 释放冻结（不扣费）
+   * 
+   * 执行释放流程：
+   * 1. 幂等性检查
+   * 2. 冻结验证 - 冻结必须存在且处于 pending 状态（已过期的冻结也可以显式释放）
+   * 3. 完结冻结 - 条件更新为 released
+   * 4. 交易记录 - 创建金额为 0 的 'credit-hold-release' 交易记录
+   * 5. 审计日志 - 记录操作
+   * 6. 幂等记录 - 保存结果
+   * 
+   * 以上步骤在一个存储事务中执行（提供了 txn 时使用该事务），
+   * 写入交易记录或审计日志失败时冻结的完结一起回滚，冻结保持 pending。
+   * 
+   * @param params - 释放参数
+   * @returns 释放结果
+   * @throws {HoldNotFoundError} 当冻结不存在时
+   * @throws {InvalidHoldOperationError} 当冻结已完结时
+   * @throws {ConfigurationError} 当未提供 txn 且存储适配器未实现 runInTransaction 时
+   * 
+   * @example
+   * ```typescript
+   * // 任务失败，释放冻结
+   * await engine.release({ holdId: 'hold-123' });
+   * ```
+   */
+  async release(params: ReleaseParams): Promise<ReleaseResult> {
+    const { holdId, idempotencyKey, metadata = {}, txn } = params;
 
-        this.logger.debug('Audit log created', { userId });
-      }
+    this.logger.info('Starting release operation', {
+      holdId,
+      hasIdempotencyKey: !!idempotencyKey,
+      hasTransaction: !!txn
+    });
 
-      // 构建结果
-      const result: TierChangeResult = {
-        success: true,
-        transactionId: transaction.id,
-        oldTier: user.membershipTier,
-        newTier: targetTier,
-        oldCredits: balanceBefore,
-        newCredits,
-        creditsDelta
-      };
+    const context: { hold?: CreditHold } = {};
 
-      // 步骤 9: 保存幂等记录
-      if (idempotencyKey) {
-        this.logger.debug('Saving idempotency record', { idempotencyKey });
-        await this.idempotencyManager.save(idempotencyKey, result, txn);
+    try {
+      this.requireStorage('getCreditHold', 'credit reservations');
+      this.requireStorage('finalizeCreditHold', 'credit reservations');
+
+      if (!txn) {
+        this.requireStorage('runInTransaction', 'credit reservations');
       }
 
-      this.logger.info('DowngradeTier operation completed successfully', {
-        userId,
-        oldTier: user.membershipTier,
-        newTier: targetTier,
-        creditsDelta,
-        transactionId: transaction.id
+      const result = await this.runWithRetry('release', params, p =>
+        p.txn
+          ? this.executeRelease(p, p.txn, context)
+          : this.storage.runInTransaction!(tx => this.executeRelease(p, tx, context))
+      );
+
+      this.logger.info('Release operation completed successfully', {
+        holdId,
+        releasedAmount: result.releasedAmount,
+        transactionId: result.transactionId
       });
 
       return result;
 
     } catch (error) {
-      // 记录失败的审计日志
-      if (this.config.audit.enabled) {
-        try {
-          await this.auditTrail.log(
-            {
-              userId,
-              action: 'downgradeTier',
-              status: 'failed',
-              metadata: {
-                targetTier,
-                clearExpiration,
-                error: error instanceof Error ? error.message : String(error),
-                ...metadata
-              },
-              errorMessage: error instanceof Error ? error.message : String(error)
-            },
-            txn
-          );
-        } catch (auditError) {
-          // 如果审计日志记录失败，只记录警告，不影响主错误的抛出
-          this.logger.warn('Failed to create audit log for failed operation', {
-            userId,
-            action: 'downgradeTier',
-            error: auditError
-          });
-        }
+      const { hold } = context;
+      if (hold) {
+        await this.logFailedOperation(hold.userId, 'release', {
+          operation: hold.action,
+          holdId,
+          error: error instanceof Error ? error.message : String(error),
+          ...metadata
+        }, error, txn);
       }
 
-      this.logger.error('DowngradeTier operation failed', {
-        userId,
-        targetTier,
+      this.logger.error('Release operation failed', {
+        holdId,
         error: error instanceof Error ? error.message : String(error)
       });
 
-      // 重新抛出原始错误
       throw error;
     }
   }
 
   /**
-   * 查询余额
-   * 
-   * 查询用户的当前积分余额。
-   * 
-   * 执行流程：
-   * 1. 获取用户信息
-   * 2. 验证用户存在
-   * 3. 返回积分余额
-   * 
-   * 支持事务上下文以确保读取一致性。
+   * 执行释放步骤
    * 
-   * @param userId - 用户 ID
-   * @param txn - 可选的事务上下文
-   * @returns 用户当前积分余额（数值类型）
-   * @throws {UserNotFoundError} 当用户不存在时
+   * @param params - 释放参数
+   * @param txn - 本次释放使用的事务
+   * @param context - 找到冻结后记录在 context.hold 中，供失败时写审计日志
+   * @returns 释放结果
+   */
+  private async executeRelease(
+    params: ReleaseParams,
+    txn: any,
+    context: { hold?: CreditHold }
+  ): Promise<ReleaseResult> {
+    const { holdId, idempotencyKey, metadata = {} } = params;
+
+    // 步骤 1: 幂等性检查
+    if (idempotencyKey) {
+      this.logger.debug('Checking idempotency', { idempotencyKey });
+      const existingRecord = await this.idempotencyManager.claim(
+        idempotencyKey,
+        txn,
+        { operation: 'release', params }
+      );
+      
+      if (existingRecord) {
+        this.logger.info('Idempotency key found, returning cached result', {
+          idempotencyKey,
+          holdId
+        });
+        return existingRecord.result as ReleaseResult;
+      }
+    }
+
+    // 步骤 2: 验证冻结（允许释放已过期的冻结）
+    const hold = await this.storage.getCreditHold!(holdId, txn);
+
+    if (!hold) {
+      this.logger.warn('Credit hold not found', { holdId });
+      throw new HoldNotFoundError(holdId);
+    }
+
+    context.hold = hold;
+
+    if (hold.status !== 'pending') {
+      throw new InvalidHoldOperationError(holdId, hold.status, 'Hold is not pending');
+    }
+
+    // 步骤 3: 完结冻结
+    const finalized = await this.storage.finalizeCreditHold!(holdId, 'released', null, txn);
+
+    if (!finalized) {
+      throw new InvalidHoldOperationError(holdId, hold.status, 'Hold has already been finalized');
+    }
+
+    // 步骤 4: 创建交易记录（释放不改变余额，金额为 0）
+    const user = await this.storage.getUserById(hold.userId, txn);
+    const balance = user ? user.credits : 0;
+
+    const transaction = await this.storage.createTransaction(
+      {
+        userId: hold.userId,
+        action: 'credit-hold-release',
+        amount: 0,
+        balanceBefore: balance,
+        balanceAfter: balance,
+        operation: 'release',
+        metadata: {
+          holdId,
+          operation: hold.action,
+          releasedAmount: hold.amount,
+          ...metadata
+        }
+      },
+      txn
+    );
+
+    // 步骤 5: 创建审计日志
+    if (this.config.audit.enabled) {
+      await this.auditTrail.log(
+        {
+          userId: hold.userId,
+          action: 'release',
+          status: 'success',
+          metadata: {
+            operation: hold.action,
+            holdId,
+            releasedAmount: hold.amount,
+            transactionId: transaction.id,
+            ...metadata
+          }
+        },
+        txn
+      );
+    }
+
+    const result: ReleaseResult = {
+      success: true,
+      holdId,
+      transactionId: transaction.id,
+      releasedAmount: hold.amount
+    };
+
+    // 步骤 6: 保存幂等记录
+    if (idempotencyKey) {
+      this.logger.debug('Saving idempotency record', { idempotencyKey });
+      await this.idempotencyManager.save(idempotencyKey, result, txn, {
+        operation: 'release',
+        params
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 用户间转账
+   * 
+   * 在一个存储事务中执行转账流程：
+   * 1. 幂等性检查 - 如果提供了幂等键且操作已执行，返回缓存结果
+   * 2. 用户验证 - 检查转出和转入用户是否存在
+   * 3. 余额检查 - 与 charge 相同，冻结中和已过期未清除的积分不可转出
+   * 4. 余额更新 - 原子条件扣减转出方，增加转入方
+   * 5. 交易记录 - 创建两条共享 transferId 的交易记录
+   * 6. 审计日志 - 记录一条 transfer 日志
+   * 7. 幂等记录 - 保存结果用于后续幂等性检查
+   * 
+   * 提供了 txn 时在该事务中执行；否则通过存储适配器的 runInTransaction 开启事务，
+   * 任何步骤失败都会回滚双方的余额变更。
+   * 
+   * @param params - 转账参数
+   * @returns 转账结果
+   * @throws {UserNotFoundError} 当转出或转入用户不存在时
+   * @throws {InsufficientCreditsError} 当转出方可用余额不足时
+   * @throws {ConfigurationError} 当金额不是正数、双方为同一用户，
+   *   或未提供 txn 且存储适配器未实现 runInTransaction 时
    * 
    * @example
    * ```typescript
-   * // 基本查询
-   * const balance = await engine.queryBalance('user-123');
-   * console.log(`Current balance: ${balance}`);
-   * 
-   * // 在事务中查询（确保读取一致性）
-   * await prisma.$transaction(async (tx) => {
-   *   const balance = await engine.queryBalance('user-123', tx);
-   *   // ... 基于余额的其他操作 ...
+   * const result = await engine.transfer({
+   *   fromUserId: 'admin-1',
+   *   toUserId: 'member-2',
+   *   amount: 100,
+   *   idempotencyKey: 'transfer-req-123'
    * });
+   * console.log(`Transfer ${result.transferId} completed`);
    * ```
-   * 
-   * 验证需求:
-   * - 7.1: 使用有效用户 ID 调用时，返回当前积分余额
-   * - 7.2: 使用无效用户 ID 调用时，抛出 UserNotFoundError
-   * - 7.3: 支持余额查询的事务上下文以确保读取一致性
-   * - 7.4: 返回具有适当精度的数值类型余额
    */
-  async queryBalance(userId: string, txn?: any): Promise<number> {
-    this.logger.info('Starting queryBalance operation', {
-      userId,
+  async transfer(params: TransferParams): Promise<TransferResult> {
+    const {
+      fromUserId,
+      toUserId,
+      amount,
+      wallet = DEFAULT_WALLET,
+      idempotencyKey,
+      metadata = {},
+      txn
+    } = params;
+
+    this.logger.info('Starting transfer operation', {
+      fromUserId,
+      toUserId,
+      amount,
+      wallet,
+      hasIdempotencyKey: !!idempotencyKey,
       hasTransaction: !!txn
     });
 
     try {
-      // 步骤 1: 获取用户信息
-      this.logger.debug('Fetching user', { userId });
-      const user = await this.storage.getUserById(userId, txn);
-      
-      // 步骤 2: 验证用户存在
-      if (!user) {
-        this.logger.warn('User not found', { userId });
-        throw new UserNotFoundError(userId);
+      if (amount <= 0) {
+        throw new ConfigurationError(`Transfer amount must be positive, got ${amount}`);
       }
 
-      this.logger.debug('User found', {
-        userId,
-        credits: user.credits
-      });
+      if (fromUserId === toUserId) {
+        throw new ConfigurationError('Cannot transfer credits to the same user');
+      }
 
-      // 步骤 3: 返回积分余额
-      this.logger.info('QueryBalance operation completed successfully', {
-        userId,
-        balance: user.credits
+      if (!txn) {
+        this.requireStorage('runInTransaction', 'transfers');
+      }
+
+      const result = await this.runWithRetry('transfer', params, p =>
+        p.txn
+          ? this.executeTransfer(p, p.txn)
+          : this.storage.runInTransaction!(tx => this.executeTransfer(p, tx))
+      );
+
+      this.logger.info('Transfer operation completed successfully', {
+        fromUserId,
+        toUserId,
+        amount,
+        transferId: result.transferId
       });
 
-      return user.credits;
+      return result;
 
     } catch (error) {
-      this.logger.error('QueryBalance operation failed', {
-        userId,
+      // 失败日志写在转账事务之外，不会随转账一起回滚
+      await this.logFailedOperation(fromUserId, 'transfer', {
+        toUserId,
+        amount,
+        ...(wallet !== DEFAULT_WALLET && { wallet }),
+        error: error instanceof Error ? error.message : String(error),
+        ...metadata
+      }, error, txn);
+
+      this.logger.error('Transfer operation failed', {
+        fromUserId,
+        toUserId,
+        amount,
         error: error instanceof Error ? error.message : String(error)
       });
 
-      // 重新抛出原始错误
       throw error;
     }
   }
 
   /**
-   * 获取交易历史
-   * 
-   * 查询用户的积分交易记录，支持分页和过滤。
+   * 设置组织成员的消费限额
    * 
-   * 执行流程：
-   * 1. 通过 StorageAdapter 查询交易记录
-   * 2. 应用分页参数 (limit, offset)
-   * 3. 应用日期范围过滤 (startDate, endDate)
-   * 4. 应用操作类型过滤 (action)
-   * 5. 返回按时间戳降序排列的交易列表
-   * 
-   * 支持事务上下文以确保读取一致性。
+   * 每个成员每个统计周期 (daily / monthly) 最多一个限额，重复设置会覆盖。
+   * limit 为 null 时移除该周期的限额。限额只约束从组织积分池的扣费，
+   * 按 UTC 自然日或自然月统计成员的消费。
    * 
-   * @param userId - 用户 ID
-   * @param options - 查询选项
-   * @returns 交易记录列表，按时间戳降序排列
+   * @param params - 限额参数
+   * @returns 保存后的限额；移除时返回 null
+   * @throws {UserNotFoundError} 当用户不存在时
+   * @throws {ConfigurationError} 当周期或限额无效、用户不属于该组织，
+   *   或存储适配器未实现限额方法时
    * 
    * @example
    * ```typescript
-   * // 获取最近 10 条交易
-   * const history = await engine.getHistory('user-123', { limit: 10 });
-   * 
-   * // 分页查询
-   * const history = await engine.getHistory('user-123', { 
-   *   limit: 20, 
-   *   offset: 40 
-   * });
-   * 
-   * // 按日期范围过滤
-   * const history = await engine.getHistory('user-123', {
-   *   startDate: new Date('2024-01-01'),
-   *   endDate: new Date('2024-12-31')
-   * });
-   * 
-   * // 按操作类型过滤
-   * const history = await engine.getHistory('user-123', {
-   *   action: 'generate-post'
-   * });
-   * 
-   * // 组合多个过滤条件
-   * const history = await engine.getHistory('user-123', {
-   *   limit: 50,
-   *   offset: 0,
-   *   startDate: new Date('2024-01-01'),
-   *   action: 'generate-post'
+   * // 成员每天最多消费 500 积分
+   * await engine.setMemberSpendingLimit({
+   *   organizationId: 'org-1',
+   *   userId: 'user-123',
+   *   period: 'daily',
+   *   limit: 500
    * });
    * 
-   * // 在事务中查询（确保读取一致性）
-   * await prisma.$transaction(async (tx) => {
-   *   const history = await engine.getHistory('user-123', { 
-   *     limit: 10,
-   *     txn: tx 
-   *   });
-   *   // ... 基于历史的其他操作 ...
+   * // 移除每日限额
+   * await engine.setMemberSpendingLimit({
+   *   organizationId: 'org-1',
+   *   userId: 'user-123',
+   *   period: 'daily',
+   *   limit: null
    * });
    * ```
-   * 
-   * 验证需求:
-   * - 8.1: 返回指定用户的交易列表
-   * - 8.2: 通过 limit 和 offset 参数支持分页
-   * - 8.3: 支持按日期范围过滤
-   * - 8.4: 支持按操作类型过滤
-   * - 8.5: 返回按时间戳降序排列的交易
    */
-  async getHistory(userId: string, options?: HistoryOptions): Promise<Transaction[]> {
-    const { limit, offset, startDate, endDate, action, txn } = options || {};
+  async setMemberSpendingLimit(
+    params: SetMemberSpendingLimitParams
+  ): Promise<MemberSpendingLimit | null> {
+    const { organizationId, userId, period, limit, txn } = params;
 
-    this.logger.info('Starting getHistory operation', {
+    this.logger.info('Setting member spending limit', {
+      organizationId,
       userId,
-      limit,
-      offset,
-      hasStartDate: !!startDate,
-      hasEndDate: !!endDate,
-      action,
-      hasTransaction: !!txn
+      period,
+      limit
     });
 
-    try {
-      // 查询交易历史
-      this.logger.debug('Fetching transaction history', {
-        userId,
-        filters: { limit, offset, startDate, endDate, action }
-      });
+    if (period !== 'daily' && period !== 'monthly') {
+      throw new ConfigurationError(`Invalid spending limit period: ${period}`);
+    }
 
-      const transactions = await this.storage.getTransactions(
-        userId,
-        {
-          limit,
-          offset,
-          startDate,
-          endDate,
-          action
-        },
-        txn
-      );
+    if (limit !== null && (!Number.isFinite(limit) || limit < 0)) {
+      throw new ConfigurationError(`Spending limit must be a non-negative number, got ${limit}`);
+    }
 
-      this.logger.info('GetHistory operation completed successfully', {
-        userId,
-        transactionCount: transactions.length
-      });
+    const user = await this.storage.getUserById(userId, txn);
+    if (!user) {
+      throw new UserNotFoundError(userId);
+    }
 
-      return transactions;
+    if (user.organizationId !== organizationId) {
+      throw new ConfigurationError(
+        `User ${userId} is not a member of organization ${organizationId}`
+      );
+    }
 
-    } catch (error) {
-      this.logger.error('GetHistory operation failed', {
-        userId,
-        error: error instanceof Error ? error.message : String(error)
-      });
+    let saved: MemberSpendingLimit | null = null;
 
-      // 重新抛出原始错误
-      throw error;
+    if (limit === null) {
+      this.requireStorage('deleteMemberSpendingLimit', 'member spending limits');
+      await this.storage.deleteMemberSpendingLimit!(organizationId, userId, period, txn);
+    } else {
+      this.requireStorage('setMemberSpendingLimit', 'member spending limits');
+      saved = await this.storage.setMemberSpendingLimit!(
+        { organizationId, userId, period, limit },
+        txn
+      );
     }
+
+    if (this.config.audit.enabled) {
+      await this.auditTrail.log(
+        {
+          userId,
+          action: 'setMemberSpendingLimit',
+          status: 'success',
+          metadata: { organizationId, period, limit }
+        },
+        txn
+      );
+    }
+
+    return saved;
   }
 
   /**
-   * 验证访问权限
+   * 清除已过期的积分
    * 
-   * 检查用户是否有权限执行某个操作。
-   * 验证用户的会员等级是否满足操作所需的等级。
+   * 分批查找已过期但仍有剩余的积分批次，对每个批次：
+   * 1. 将批次剩余金额清零（原子操作，与并发扣费互不重复）
+   * 2. 从用户余额中扣除对应积分（余额不足时最多扣至 0）
+   * 3. 创建 credit-expiry 交易记录（负金额）
+   * 4. 创建审计日志
    * 
-   * 验证流程：
-   * 1. 获取用户信息
-   * 2. 检查操作的会员要求
-   * 3. 验证用户会员等级和过期状态
-   * 4. 返回验证结果
+   * 每个批次在独立的事务中处理（提供了 txn 时在该事务中），瞬态故障按配置重试；
+   * 处理失败的批次保持原样，重新调用时会再次处理。
+   * 适合由定时任务周期性调用。在此之前，过期积分已不计入可用余额，
+   * 清除只是让账面余额与之保持一致。
    * 
-   * @param userId - 用户 ID
-   * @param action - 操作名称
-   * @param txn - 可选的事务上下文
-   * @returns 是否有权限
-   * @throws {UserNotFoundError} 当用户不存在时
-   * @throws {MembershipRequiredError} 当用户缺少所需会员资格时
+   * @param params - 清理参数（可选）
+   * @returns 清理结果
+   * @throws {ConfigurationError} 当存储适配器未实现积分批次方法，或未提供 txn 且未实现 runInTransaction 时
    * 
    * @example
    * ```typescript
-   * // 验证用户是否可以执行操作
-   * try {
-   *   const hasAccess = await engine.validateAccess('user-123', 'generate-post');
-   *   if (hasAccess) {
-   *     // 用户有权限
-   *   }
-   * } catch (error) {
-   *   if (error instanceof MembershipRequiredError) {
-   *     // 用户缺少所需会员资格
-   *   }
-   * }
+   * const result = await engine.expireCredits();
+   * console.log(`Expired ${result.expiredCredits} credits from ${result.expiredLots} lots`);
    * ```
-   * 
-   * 验证需求:
-   * - 9.1: 检查用户的会员等级是否满足操作所需的等级
-   * - 9.2: 当用户的会员资格已过期时，将其视为没有会员资格
-   * - 9.3: 当用户缺少所需会员资格时，抛出 MembershipRequiredError
-   * - 9.4: 当用户具有足够的会员资格时，返回 true
-   * - 9.5: 支持每个操作的可配置会员要求
    */
-  async validateAccess(userId: string, action: string, txn?: any): Promise<boolean> {
-    this.logger.info('Validating access', { userId, action });
+  async expireCredits(params: ExpireCreditsParams = {}): Promise<ExpireCreditsResult> {
+    const { now = new Date(), batchSize = DEFAULT_EXPIRY_BATCH_SIZE, txn } = params;
+
+    this.logger.info('Starting expireCredits operation', {
+      now,
+      batchSize,
+      hasTransaction: !!txn
+    });
+
+    const result: ExpireCreditsResult = {
+      expiredLots: 0,
+      expiredCredits: 0,
+      transactionIds: []
+    };
 
     try {
-      // 步骤 1: 获取用户信息
-      this.logger.debug('Fetching user for access validation', { userId });
-      const user = await this.storage.getUserById(userId, txn);
-      
-      if (!user) {
-        this.logger.warn('User not found during access validation', { userId });
-        throw new UserNotFoundError(userId);
+      this.requireStorage('getExpiredCreditLots', 'credit expiry');
+      this.requireStorage('consumeCreditLot', 'credit expiry');
+      if (!txn) this.requireStorage('runInTransaction', 'credit expiry');
+
+      if (!Number.isInteger(batchSize) || batchSize <= 0) {
+        throw new ConfigurationError(`Expiry batch size must be a positive integer, got ${batchSize}`);
       }
 
-      this.logger.debug('User found for access validation', {
-        userId,
-        membershipTier: user.membershipTier,
-        membershipExpiresAt: user.membershipExpiresAt
-      });
+      while (true) {
+        const lots = await this.retryRead(txn, () =>
+          this.storage.getExpiredCreditLots!(now, batchSize, txn)
+        );
 
-      // 步骤 2: 检查操作的会员要求
-      const requiredTier = this.config.membership.requirements[action] || null;
-      
-      this.logger.debug('Checking membership requirement', {
-        action,
-        requiredTier
-      });
+        for (const lot of lots) {
+          const expired = await this.runWithRetry(
+            'expireCredits',
+            { txn },
+            p => p.txn
+              ? this.expireCreditLot(lot, p.txn)
+              : this.storage.runInTransaction!(tx => this.expireCreditLot(lot, tx))
+          );
 
-      // 如果操作不需要会员，直接返回 true
-      if (requiredTier === null) {
-        this.logger.info('Access granted - no membership required', {
-          userId,
-          action
-        });
-        return true;
+          if (!expired) {
+            continue;
+          }
+
+          result.expiredLots++;
+          result.expiredCredits += expired.debited;
+          result.transactionIds.push(expired.transactionId);
+        }
+
+        if (lots.length < batchSize) {
+          break;
+        }
       }
 
-      // 步骤 3: 验证用户会员等级和过期状态
-      this.logger.debug('Validating membership', {
-        userId,
-        requiredTier,
-        currentTier: user.membershipTier
+      this.logger.info('ExpireCredits operation completed successfully', {
+        expiredLots: result.expiredLots,
+        expiredCredits: result.expiredCredits
       });
 
-      const validationResult = this.membershipValidator.validate(user, requiredTier);
-      
-      if (!validationResult.valid) {
-        this.logger.warn('Access denied - membership validation failed', {
-          userId,
-          action,
-          reason: validationResult.reason,
-          requiredTier,
-          currentTier: validationResult.currentTier,
-          isExpired: validationResult.isExpired
-        });
+      return result;
 
-        // 步骤 4: 抛出适当的错误
-        throw new MembershipRequiredError(
-          userId,
-          requiredTier,
-          validationResult.currentTier
+    } catch (error) {
+      this.logger.error('ExpireCredits operation failed', {
+        expiredLots: result.expiredLots,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * 清除一个已过期的积分批次
+   * 
+   * 批次清零与余额扣除在调用方提供的同一事务中执行，
+   * 任一步骤失败时两者一起回滚，批次可以在下次清理时重新处理。
+   * 
+   * @param lot - 已过期的积分批次
+   * @param txn - 事务上下文
+   * @returns 实际扣除的金额和交易记录 ID；批次已被并发操作消耗完时返回 null
+   */
+  private async expireCreditLot(
+    lot: CreditLot,
+    txn: any
+  ): Promise<{ debited: number; transactionId: string } | null> {
+    // 步骤 1: 清零批次剩余金额
+    const expiredAmount = await this.storage.consumeCreditLot!(lot.id, lot.remaining, txn);
+
+    if (expiredAmount === 0) {
+      // 已被并发操作消耗完
+      return null;
+    }
+
+    // 步骤 2: 扣除用户余额
+    const { debited, balanceAfter } = await this.debitExpiredCredits(
+      lot.userId,
+      expiredAmount,
+      txn
+    );
+    const balanceBefore = balanceAfter + debited;
+
+    // 步骤 3: 创建交易记录
+    const transaction = await this.storage.createTransaction(
+      {
+        userId: lot.userId,
+        action: 'credit-expiry',
+        amount: -debited,
+        balanceBefore,
+        balanceAfter,
+        operation: 'expireCredits',
+        metadata: {
+          lotId: lot.id,
+          expiresAt: lot.expiresAt.toISOString(),
+          expiredAmount
+        }
+      },
+      txn
+    );
+
+    // 步骤 4: 创建审计日志
+    if (this.config.audit.enabled) {
+      await this.auditTrail.log(
+        {
+          userId: lot.userId,
+          action: 'expireCredits',
+          status: 'success',
+          metadata: {
+            lotId: lot.id,
+            expiredAmount,
+            balanceBefore,
+            balanceAfter,
+            transactionId: transaction.id
+          }
+        },
+        txn
+      );
+    }
+
+    return { debited, transactionId: transaction.id };
+  }
+
+  /**
+   * 删除已过期的数据
+   * 
+   * 依次分批删除：
+   * 1. 已过期的幂等性记录（包括超时未完成的占用）
+   * 2. 已过期的冻结记录
+   * 3. 已过期且已耗尽的积分批次（仍有剩余的批次需要先调用 expireCredits）
+   * 
+   * 每批独立提交，避免长时间持有锁；删除操作可以安全地重复执行，瞬态故障会按配置重试。
+   * 存储适配器未实现某类数据的删除方法时跳过该类数据。适合由定时任务周期性调用。
+   * before 只能用于保留更多数据，不能晚于当前时间，否则会删除仍然有效的冻结和幂等记录。
+   * 
+   * @param params - 清理参数（可选）
+   * @returns 各类数据删除的数量
+   * @throws {ConfigurationError} 当 before 晚于当前时间或 batchSize 不是正整数时
+   * 
+   * @example
+   * ```typescript
+   * // 保留过期一周内的数据便于排查问题
+   * const result = await engine.purgeExpiredData({
+   *   before: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
+   * });
+   * console.log(`Purged ${result.idempotencyRecords} idempotency records`);
+   * ```
+   */
+  async purgeExpiredData(params: PurgeExpiredDataParams = {}): Promise<PurgeExpiredDataResult> {
+    const { before = new Date(), batchSize = DEFAULT_PURGE_BATCH_SIZE } = params;
+
+    this.logger.info('Starting purgeExpiredData operation', { before, batchSize });
+
+    const result: PurgeExpiredDataResult = {
+      idempotencyRecords: 0,
+      creditHolds: 0,
+      creditLots: 0
+    };
+
+    try {
+      if (!Number.isInteger(batchSize) || batchSize <= 0) {
+        throw new ConfigurationError(`Purge batch size must be a positive integer, got ${batchSize}`);
+      }
+
+      // 晚于当前时间的 before 会删除仍然有效的数据
+      if (!(before.getTime() <= Date.now())) {
+        throw new ConfigurationError(`Purge cutoff must be a date no later than now, got ${String(before)}`);
+      }
+
+      result.idempotencyRecords = await this.purgeInBatches(
+        'deleteExpiredIdempotencyRecords',
+        before,
+        batchSize
+      );
+      result.creditHolds = await this.purgeInBatches('deleteExpiredCreditHolds', before, batchSize);
+      result.creditLots = await this.purgeInBatches('deleteExpiredCreditLots', before, batchSize);
+
+      this.logger.info('PurgeExpiredData operation completed successfully', { ...result });
+
+      return result;
+
+    } catch (error) {
+      this.logger.error('PurgeExpiredData operation failed', {
+        ...result,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * 处理已到期的会员
+   * 
+   * 分批查找会员已到期但仍保留等级的用户，对每个用户：
+   * 1. 重新读取用户，跳过已续费或已被其他任务处理的用户
+   * 2. 等级高于回退等级时，按 downgradeTier 的步骤降级到 membership.fallbackTier，
+   *    积分设为回退等级的上限，创建 tier-expired 交易记录和 expireMembership 审计日志；
+   *    用户通过 downgradeTier({ atPeriodEnd: true }) 计划了降级时，降级到计划的等级
+   * 3. 等级不高于回退等级时不修改等级和积分
+   * 
+   * 两种情况都会清除到期时间，因此重复执行不会再次处理同一用户；
+   * 每个用户的降级使用由用户和到期时间生成的幂等键，并发执行的任务也不会重复降级。
+   * 配置了 membership.gracePeriodDays 时，只处理到期时间早于 now 减去宽限天数的用户，
+   * 宽限期内的会员保留等级。
+   * 适合由定时任务周期性调用。在此之前，宽限期外的已到期会员在权限检查时已被视为无会员。
+   * 
+   * @param params - 处理参数（可选）
+   * @returns 处理结果
+   * @throws {ConfigurationError} 当未配置 fallbackTier、batchSize 无效或存储适配器未实现查询方法时
+   * 
+   * @example
+   * ```typescript
+   * const result = await engine.processExpiredMemberships();
+   * console.log(`Downgraded ${result.downgraded} expired members`);
+   * ```
+   */
+  async processExpiredMemberships(
+    params: ProcessExpiredMembershipsParams = {}
+  ): Promise<ProcessExpiredMembershipsResult> {
+    const { now = new Date(), batchSize = DEFAULT_EXPIRY_BATCH_SIZE, txn } = params;
+    const { fallbackTier, gracePeriodDays = 0 } = this.config.membership;
+    // 宽限期内的会员不降级
+    const cutoff = new Date(now.getTime() - gracePeriodDays * 24 * 60 * 60 * 1000);
+
+    this.logger.info('Starting processExpiredMemberships operation', {
+      now,
+      cutoff,
+      batchSize,
+      fallbackTier,
+      hasTransaction: !!txn
+    });
+
+    const result: ProcessExpiredMembershipsResult = {
+      downgraded: 0,
+      cleared: 0,
+      transactionIds: []
+    };
+
+    try {
+      if (fallbackTier === undefined) {
+        throw new ConfigurationError(
+          'Membership configuration must include fallbackTier to process expired memberships'
         );
       }
 
-      this.logger.info('Access granted - membership validation passed', {
-        userId,
-        action,
-        currentTier: validationResult.currentTier
+      this.requireStorage('getUsersWithExpiredMembership', 'membership expiry');
+
+      if (!Number.isInteger(batchSize) || batchSize <= 0) {
+        throw new ConfigurationError(`Expiry batch size must be a positive integer, got ${batchSize}`);
+      }
+
+      while (true) {
+        const users = await this.retryRead(txn, () =>
+          this.storage.getUsersWithExpiredMembership!(cutoff, batchSize, txn)
+        );
+
+        for (const user of users) {
+          const outcome = await this.runWithRetry(
+            'downgradeTier',
+            {
+              userId: user.id,
+              targetTier: fallbackTier,
+              clearExpiration: true,
+              idempotencyKey: `membership-expiry:${user.id}:${user.membershipExpiresAt!.toISOString()}`,
+              metadata: { expiredAt: user.membershipExpiresAt!.toISOString() },
+              txn
+            },
+            p => this.executeMembershipExpiry(p, cutoff)
+          );
+
+          if (outcome.status === 'downgraded') {
+            result.downgraded++;
+            result.transactionIds.push(outcome.result!.transactionId);
+          } else if (outcome.status === 'cleared') {
+            result.cleared++;
+          }
+        }
+
+        if (users.length < batchSize) {
+          break;
+        }
+      }
+
+      this.logger.info('ProcessExpiredMemberships operation completed successfully', {
+        downgraded: result.downgraded,
+        cleared: result.cleared
       });
 
-      // 返回 true 表示有权限
-      return true;
+      return result;
+
     } catch (error) {
-      // 记录错误到审计日志
-      if (this.config.audit.enabled) {
-        await this.auditTrail.log(
-          {
-            userId,
-            action: 'validateAccess',
-            status: 'failed',
-            metadata: {
-              targetAction: action,
-              error: error instanceof Error ? error.message : String(error)
-            },
-            errorMessage: error instanceof Error ? error.message : String(error)
-          },
-          txn
+      this.logger.error('ProcessExpiredMemberships operation failed', {
+        downgraded: result.downgraded,
+        cleared: result.cleared,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * 执行已到生效时间的计划等级变更
+   * 
+   * 分批查找 effectiveAt 不晚于 now 的计划变更，对每个计划变更：
+   * 1. 重新读取计划变更，跳过已被取消、替换或已被其他任务处理的
+   * 2. 目标等级已不在配置中、用户不存在或目标等级与当前等级相同时，删除计划变更
+   * 3. 目标等级高于当前等级时按 upgradeTier 的步骤升级，否则按 downgradeTier 的步骤降级，
+   *    交易记录和审计日志的 metadata 中记录 scheduledChangeId
+   * 
+   * 生效时会员周期已经结束的，同时清除会员到期时间，新等级不会在权限检查时被视为已过期。
+   * 每个计划变更使用由其 ID 和生效时间生成的幂等键，并发执行的任务不会重复变更。
+   * 适合由定时任务周期性调用。
+   * 
+   * @param params - 处理参数（可选）
+   * @returns 处理结果
+   * @throws {ConfigurationError} 当 batchSize 无效或存储适配器未实现计划等级变更方法时
+   * 
+   * @example
+   * ```typescript
+   * const result = await engine.applyDueTierChanges();
+   * console.log(`Applied ${result.upgraded + result.downgraded} scheduled tier changes`);
+   * ```
+   */
+  async applyDueTierChanges(
+    params: ApplyDueTierChangesParams = {}
+  ): Promise<ApplyDueTierChangesResult> {
+    const { now = new Date(), batchSize = DEFAULT_EXPIRY_BATCH_SIZE, txn } = params;
+
+    this.logger.info('Starting applyDueTierChanges operation', {
+      now,
+      batchSize,
+      hasTransaction: !!txn
+    });
+
+    const result: ApplyDueTierChangesResult = {
+      upgraded: 0,
+      downgraded: 0,
+      discarded: 0,
+      transactionIds: []
+    };
+
+    try {
+      this.requireStorage('getDueScheduledTierChanges', 'scheduled tier changes');
+
+      if (!Number.isInteger(batchSize) || batchSize <= 0) {
+        throw new ConfigurationError(`Tier change batch size must be a positive integer, got ${batchSize}`);
+      }
+
+      while (true) {
+        const changes = await this.retryRead(txn, () =>
+          this.storage.getDueScheduledTierChanges!(now, batchSize, txn)
         );
+
+        for (const change of changes) {
+          const outcome = await this.runWithRetry(
+            'applyScheduledTierChange',
+            {
+              userId: change.userId,
+              scheduledChangeId: change.id,
+              idempotencyKey: `scheduled-tier-change:${change.id}:${change.effectiveAt.toISOString()}`,
+              txn
+            },
+            p => this.executeScheduledTierChange(p, now)
+          );
+
+          if (outcome.status === 'upgraded' || outcome.status === 'downgraded') {
+            result[outcome.status]++;
+            result.transactionIds.push(outcome.result!.transactionId);
+          } else if (outcome.status === 'discarded') {
+            result.discarded++;
+          }
+        }
+
+        if (changes.length < batchSize) {
+          break;
+        }
       }
 
-      // 重新抛出错误
+      this.logger.info('ApplyDueTierChanges operation completed successfully', {
+        upgraded: result.upgraded,
+        downgraded: result.downgraded,
+        discarded: result.discarded
+      });
+
+      return result;
+
+    } catch (error) {
+      this.logger.error('ApplyDueTierChanges operation failed', {
+        upgraded: result.upgraded,
+        downgraded: result.downgraded,
+        discarded: result.discarded,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
       throw error;
     }
   }
+
+  /**
+   * 升级会员等级
+   * 
+   * 执行会员升级流程：
+   * 1. 幂等性检查 - 如果提供了幂等键且操作已执行，返回缓存结果
+   * 2. 用户验证 - 检查用户是否存在
+   * 3. 目标等级验证 - 检查目标等级是否在配置中定义
+   * 4. 升级方向验证 - 确保目标等级高于当前等级
+   * 5. 等级和积分更新 - 更新用户等级并设置积分为目标等级的上限
+   * 6. 交易记录创建 - 创建交易记录以记录积分变动
+   * 7. 审计日志记录 - 记录操作详情
+   * 8. 幂等记录保存 - 保存结果用于后续幂等性检查
+   * 
+   * 配置了 membership.proration 且会员周期未到期时，第 5 步改为保留现有积分，
+   * 再加上 (目标等级上限 - 原等级上限) * 剩余时间占比，计算过程记录在结果和交易记录的 proration 中。
+   * 
+   * 积分按与当前余额的差值增量更新，读取之后并发提交的扣费和发放不会被覆盖。
+   * 
+   * 所有操作在事务中执行（如果提供了事务上下文）或自动提交。
+   * 任何步骤失败都会导致整个操作回滚（在事务中）。
+   * 
+   * @param params - 升级参数
+   * @returns 等级变更结果
+   * @throws {UserNotFoundError} 当用户不存在时
+   * @throws {UndefinedTierError} 当目标等级未在配置中定义时
+   * @throws {InvalidTierChangeError} 当目标等级不高于当前等级时
+   * @throws {ConfigurationError} 当 prorate 为 true 但未配置 membership.proration 时
+   * 
+   * @example
+   * ```typescript
+   * // 基本升级
+   * const result = await engine.upgradeTier({
+   *   userId: 'user-123',
+   *   targetTier: 'premium'
+   * });
+   * 
+   * // 带会员到期时间的升级
+   * const result = await engine.upgradeTier({
+   *   userId: 'user-123',
+   *   targetTier: 'premium',
+   *   membershipExpiresAt: new Date('2025-12-31')
+   * });
+   * 
+   * // 带幂等键的升级
+   * const result = await engine.upgradeTier({
+   *   userId: 'user-123',
+   *   targetTier: 'premium',
+   *   idempotencyKey: 'upgrade-unique-key-123'
+   * });
+   * 
+   * // 在事务中升级
+   * await prisma.$transaction(async (tx) => {
+   *   const result = await engine.upgradeTier({
+   *     userId: 'user-123',
+   *     targetTier: 'premium',
+   *     txn: tx
+   *   });
+   *   // ... 其他操作 ...
+   * });
+   * ```
+   * 
+   * 验证需求:
+   * - 1.1: 验证目标等级高于当前等级
+   * - 1.2: 更新用户的会员等级字段为目标等级
+   * - 1.3: 将用户积分设置为目标等级的预设积分上限
+   * - 1.4: 创建交易记录以记录积分变动
+   * - 1.5: 创建审计日志记录操作详情
+   * - 1.6: 目标等级不存在于配置中时抛出配置错误
+   * - 1.7: 目标等级不高于当前等级时抛出验证错误
+   * - 1.8: 用户不存在时抛出用户不存在错误
+   */
+  async upgradeTier(params: UpgradeTierParams): Promise<TierChangeResult> {
+    const { userId, targetTier, membershipExpiresAt, idempotencyKey, metadata = {}, txn } = params;
+
+    this.logger.info('Starting upgradeTier operation', {
+      userId,
+      targetTier,
+      hasMembershipExpiresAt: membershipExpiresAt !== undefined,
+      hasIdempotencyKey: !!idempotencyKey,
+      hasTransaction: !!txn
+    });
+
+    try {
+      return await this.runWithRetry('upgradeTier', params, p => this.executeUpgradeTier(p));
+    } catch (error) {
+      // 记录失败的审计日志
+      if (this.config.audit.enabled) {
+        try {
+          await this.auditTrail.log(
+            {
+              userId,
+              action: 'upgradeTier',
+              status: 'failed',
+              metadata: {
+                targetTier,
+                error: error instanceof Error ? error.message : String(error),
+                ...metadata
+              },
+              errorMessage: error instanceof Error ? error.message : String(error)
+            },
+            txn
+          );
+        } catch (auditError) {
+          // 如果审计日志记录失败，只记录警告，不影响主错误的抛出
+          this.logger.warn('Failed to create audit log for failed operation', {
+            userId,
+            action: 'upgradeTier',
+            error: auditError
+          });
+        }
+      }
+
+      this.logger.error('UpgradeTier operation failed', {
+        userId,
+        targetTier,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      // 重新抛出原始错误
+      throw error;
+    }
+  }
+
+  /**
+   * 降级会员等级
+   * 
+   * 执行会员降级流程：
+   * 1. 幂等性检查 - 如果提供了幂等键且操作已执行，返回缓存结果
+   * 2. 用户验证 - 检查用户是否存在
+   * 3. 目标等级验证 - 检查目标等级是否在配置中定义
+   * 4. 降级方向验证 - 确保目标等级低于当前等级
+   * 5. 等级和积分更新 - 更新用户等级并设置积分为目标等级的上限
+   * 6. 会员到期时间清除 - 如果指定，清除会员到期时间
+   * 7. 交易记录创建 - 创建交易记录以记录积分变动
+   * 8. 审计日志记录 - 记录操作详情
+   * 9. 幂等记录保存 - 保存结果用于后续幂等性检查
+   * 
+   * 配置了 membership.proration 且会员周期未到期时，第 5 步改为按剩余时间折算：
+   * 积分减少 (原等级上限 - 目标等级上限) * 剩余时间占比，最多扣至 0，计算过程记录在结果和交易记录的 proration 中。
+   * 
+   * 积分按与当前余额的差值条件扣减，读取之后余额被并发修改时重新读取并计算，不会覆盖并发提交的扣费和发放。
+   * 
+   * atPeriodEnd 为 true 时第 5-7 步改为保存计划变更和一条金额为 0 的 tier-downgrade-scheduled 交易记录，
+   * 等级和积分保持不变，由 processExpiredMemberships 在会员到期后执行降级。
+   * 立即生效的升级或降级会取消之前计划的降级。
+   * 
+   * 所有操作在事务中执行（如果提供了事务上下文）或自动提交。
+   * 任何步骤失败都会导致整个操作回滚（在事务中）。
+   * 
+   * @param params - 降级参数
+   * @returns 等级变更结果
+   * @throws {UserNotFoundError} 当用户不存在时
+   * @throws {UndefinedTierError} 当目标等级未在配置中定义时
+   * @throws {InvalidTierChangeError} 当目标等级不低于当前等级，或 atPeriodEnd 时用户没有未到期的会员周期
+   * @throws {ConfigurationError} 当 prorate 为 true 但未配置 proration，或 atPeriodEnd 时存储适配器不支持计划变更
+   * 
+   * @example
+   * ```typescript
+   * // 基本降级
+   * const result = await engine.downgradeTier({
+   *   userId: 'user-123',
+   *   targetTier: 'free'
+   * });
+   * 
+   * // 降级并清除会员到期时间
+   * const result = await engine.downgradeTier({
+   *   userId: 'user-123',
+   *   targetTier: 'free',
+   *   clearExpiration: true
+   * });
+   * 
+   * // 带幂等键的降级
+   * const result = await engine.downgradeTier({
+   *   userId: 'user-123',
+   *   targetTier: 'free',
+   *   idempotencyKey: 'downgrade-unique-key-123'
+   * });
+   * 
+   * // 当前周期结束时再降级
+   * const result = await engine.downgradeTier({
+   *   userId: 'user-123',
+   *   targetTier: 'free',
+   *   atPeriodEnd: true
+   * });
+   * 
+   * // 在事务中降级
+   * await prisma.$transaction(async (tx) => {
+   *   const result = await engine.downgradeTier({
+   *     userId: 'user-123',
+   *     targetTier: 'free',
+   *     txn: tx
+   *   });
+   *   // ... 其他操作 ...
+   * });
+   * ```
+   * 
+   * 验证需求:
+   * - 2.1: 验证目标等级低于当前等级
+   * - 2.2: 更新用户的会员等级字段为目标等级
+   * - 2.3: 将用户积分设置为目标等级的预设积分上限
+   * - 2.4: 创建交易记录以记录积分变动
+   * - 2.5: 创建审计日志记录操作详情
+   * - 2.6: 目标等级不存在于配置中时抛出配置错误
+   * - 2.7: 目标等级不低于当前等级时抛出验证错误
+   * - 2.8: 用户不存在时抛出用户不存在错误
+   * - 6.3: 降级时可选地清除会员到期时间
+   */
+  async downgradeTier(params: DowngradeTierParams): Promise<TierChangeResult> {
+    const { userId, targetTier, clearExpiration = false, idempotencyKey, metadata = {}, txn } = params;
+
+    this.logger.info('Starting downgradeTier operation', {
+      userId,
+      targetTier,
+      clearExpiration,
+      hasIdempotencyKey: !!idempotencyKey,
+      hasTransaction: !!txn
+    });
+
+    try {
+      return await this.runWithRetry('downgradeTier', params, p => this.executeDowngradeTier(p));
+    } catch (error) {
+      // 记录失败的审计日志
+      if (this.config.audit.enabled) {
+        try {
+          await this.auditTrail.log(
+            {
+              userId,
+              action: 'downgradeTier',
+              status: 'failed',
+              metadata: {
+                targetTier,
+                clearExpiration,
+                error: error instanceof Error ? error.message : String(error),
+                ...metadata
+              },
+              errorMessage: error instanceof Error ? error.message : String(error)
+            },
+            txn
+          );
+        } catch (auditError) {
+          // 如果审计日志记录失败，只记录警告，不影响主错误的抛出
+          this.logger.warn('Failed to create audit log for failed operation', {
+            userId,
+            action: 'downgradeTier',
+            error: auditError
+          });
+        }
+      }
+
+      this.logger.error('DowngradeTier operation failed', {
+        userId,
+        targetTier,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      // 重新抛出原始错误
+      throw error;
+    }
+  }
+
+  /**
+   * 续费会员
+   * 
+   * 为用户当前等级开始新的计费周期：
+   * 1. 幂等性检查 - 如果提供了幂等键且操作已执行，返回缓存结果
+   * 2. 用户验证 - 检查用户存在且有已配置的会员等级（已过期的会员也可以续费）
+   * 3. 按等级的续费策略计算保留和作废的剩余积分
+   * 4. 条件扣除作废的积分并按增量发放等级上限，会员到期时间设为 periodEnd
+   * 5. 交易记录 - 有作废积分时创建 membership-reset 交易，再创建发放等级上限的 membership-rollover 交易
+   * 6. 审计日志记录
+   * 7. 幂等记录保存
+   * 
+   * 续费策略只作用于永久积分；带到期时间的积分批次按自己的到期时间失效，不参与计算。
+   * 未过期的冻结占用的积分保留到冻结结算，不会被作废。
+   * 负余额不会被清零，会原样带入新周期。
+   * 余额按增量调整而不是写入读取时计算的值，读取之后并发的扣费和发放不会丢失。
+   * 
+   * @param params - 续费参数
+   * @returns 续费结果
+   * @throws {UserNotFoundError} 当用户不存在时
+   * @throws {InvalidTierChangeError} 当用户没有会员等级时
+   * @throws {UndefinedTierError} 当用户的等级未在配置中定义时
+   * @throws {ConfigurationError} 当 periodEnd 不是未来的时间时
+   * 
+   * @example
+   * ```typescript
+   * // 在订阅扣款成功的回调中续费
+   * const result = await engine.renewMembership({
+   *   userId: 'user-123',
+   *   periodEnd: new Date('2025-08-01'),
+   *   idempotencyKey: `renewal-${invoice.id}`
+   * });
+   * console.log(`Carried over ${result.carriedOver}, forfeited ${result.forfeited}`);
+   * ```
+   */
+  async renewMembership(params: RenewMembershipParams): Promise<RenewMembershipResult> {
+    const { userId, periodEnd, idempotencyKey, metadata = {}, txn } = params;
+
+    this.logger.info('Starting renewMembership operation', {
+      userId,
+      periodEnd,
+      hasIdempotencyKey: !!idempotencyKey,
+      hasTransaction: !!txn
+    });
+
+    try {
+      return await this.runWithRetry('renewMembership', params, p => this.executeRenewMembership(p));
+    } catch (error) {
+      await this.logFailedOperation(userId, 'renewMembership', {
+        periodEnd: periodEnd instanceof Date ? periodEnd.toISOString() : periodEnd,
+        error: error instanceof Error ? error.message : String(error),
+        ...metadata
+      }, error, txn);
+
+      this.logger.error('RenewMembership operation failed', {
+        userId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * 计划在未来某个时间变更会员等级
+   * 
+   * 执行流程：
+   * 1. 幂等性检查 - 如果提供了幂等键且操作已执行，返回缓存结果
+   * 2. 用户验证 - 检查用户是否存在
+   * 3. 目标等级验证 - 目标等级必须已定义且与当前等级不同，可以高于或低于当前等级
+   * 4. 保存计划变更 - 用户已有计划变更时替换它
+   * 5. 交易记录 - 创建金额为 0 的 tier-upgrade-scheduled 或 tier-downgrade-scheduled 交易
+   * 6. 审计日志记录
+   * 7. 幂等记录保存
+   * 
+   * 计划变更由 applyDueTierChanges 在 effectiveAt 之后执行，在此之前等级和积分不变。
+   * 任何立即生效的升级或降级都会删除计划变更。
+   * 
+   * @param params - 计划变更参数
+   * @returns 计划变更结果
+   * @throws {UserNotFoundError} 当用户不存在时
+   * @throws {UndefinedTierError} 当目标等级未在配置中定义时
+   * @throws {InvalidTierChangeError} 当目标等级与当前等级相同时
+   * @throws {ConfigurationError} 当 effectiveAt 不是未来的时间，或存储适配器不支持计划变更时
+   * 
+   * @example
+   * ```typescript
+   * // 年付到期后切换到月付的基础版
+   * const result = await engine.scheduleTierChange({
+   *   userId: 'user-123',
+   *   targetTier: 'basic',
+   *   effectiveAt: new Date('2025-12-31')
+   * });
+   * console.log(`Scheduled change ${result.scheduledChange.id}`);
+   * ```
+   */
+  async scheduleTierChange(params: ScheduleTierChangeParams): Promise<ScheduleTierChangeResult> {
+    const { userId, targetTier, effectiveAt, idempotencyKey, metadata = {}, txn } = params;
+
+    this.logger.info('Starting scheduleTierChange operation', {
+      userId,
+      targetTier,
+      effectiveAt,
+      hasIdempotencyKey: !!idempotencyKey,
+      hasTransaction: !!txn
+    });
+
+    try {
+      return await this.runWithRetry('scheduleTierChange', params, p => this.executeScheduleTierChange(p));
+    } catch (error) {
+      await this.logFailedOperation(userId, 'scheduleTierChange', {
+        targetTier,
+        effectiveAt: effectiveAt instanceof Date ? effectiveAt.toISOString() : effectiveAt,
+        error: error instanceof Error ? error.message : String(error),
+        ...metadata
+      }, error, txn);
+
+      this.logger.error('ScheduleTierChange operation failed', {
+        userId,
+        targetTier,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * 取消用户计划中的等级变更
+   * 
+   * 包括 scheduleTierChange 和 downgradeTier({ atPeriodEnd: true }) 创建的计划变更。
+   * 没有计划变更时不做处理，返回的 cancelled 为 null，因此可以安全地重复调用。
+   * 
+   * @param params - 取消参数
+   * @returns 取消结果
+   * @throws {ConfigurationError} 当存储适配器不支持计划变更时
+   * 
+   * @example
+   * ```typescript
+   * // 用户在周期结束前恢复订阅
+   * const { cancelled } = await engine.cancelScheduledTierChange({ userId: 'user-123' });
+   * if (cancelled) {
+   *   console.log(`Cancelled the change to ${cancelled.targetTier}`);
+   * }
+   * ```
+   */
+  async cancelScheduledTierChange(
+    params: CancelScheduledTierChangeParams
+  ): Promise<CancelScheduledTierChangeResult> {
+    const { userId, metadata = {}, txn } = params;
+
+    this.logger.info('Cancelling scheduled tier change', { userId });
+
+    this.requireStorage('getScheduledTierChange', 'scheduled tier changes');
+    this.requireStorage('deleteScheduledTierChange', 'scheduled tier changes');
+
+    const cancelled = await this.storage.getScheduledTierChange!(userId, txn);
+
+    if (!cancelled) {
+      return { success: true, cancelled: null };
+    }
+
+    await this.storage.deleteScheduledTierChange!(userId, txn);
+
+    if (this.config.audit.enabled) {
+      await this.auditTrail.log(
+        {
+          userId,
+          action: 'cancelScheduledTierChange',
+          status: 'success',
+          metadata: {
+            scheduledChangeId: cancelled.id,
+            targetTier: cancelled.targetTier,
+            effectiveAt: cancelled.effectiveAt.toISOString(),
+            ...metadata
+          }
+        },
+        txn
+      );
+    }
+
+    return { success: true, cancelled };
+  }
+
+  /**
+   * 开始会员试用
+   * 
+   * 将用户升级到试用等级，持续 membership.trialDays 中为该等级配置的天数，
+   * 积分设为试用等级的上限，会员到期时间设为试用结束时间。
+   * 用户原来有永久会员等级时，计划在试用结束时恢复原等级（由 applyDueTierChanges 执行）；
+   * 否则试用结束后视为无会员，由 processExpiredMemberships 降级到回退等级。
+   * 试用结束后没有宽限期。
+   * 
+   * 每个用户只能试用一次。试用期内升级、降级或续费会结束试用，续费后转为付费会员。
+   * 
+   * @param params - 试用参数
+   * @returns 试用结果
+   * @throws {UserNotFoundError} 当用户不存在时
+   * @throws {ConfigurationError} 当试用等级未配置试用天数或存储适配器不支持试用时
+   * @throws {InvalidTierChangeError} 当用户已有付费会员周期、试用等级不高于当前等级或已试用过时
+   * 
+   * @example
+   * ```typescript
+   * // 配置 membership.trialDays: { premium: 7 }
+   * const result = await engine.startTrial({ userId: 'user-123', tier: 'premium' });
+   * console.log(`Premium trial ends at ${result.trialEndsAt.toISOString()}`);
+   * ```
+   */
+  async startTrial(params: StartTrialParams): Promise<StartTrialResult> {
+    const { userId, tier, idempotencyKey, metadata = {}, txn } = params;
+
+    this.logger.info('Starting startTrial operation', {
+      userId,
+      tier,
+      hasIdempotencyKey: !!idempotencyKey,
+      hasTransaction: !!txn
+    });
+
+    try {
+      return await this.runWithRetry('startTrial', params, p => this.executeStartTrial(p));
+    } catch (error) {
+      await this.logFailedOperation(userId, 'startTrial', {
+        tier,
+        error: error instanceof Error ? error.message : String(error),
+        ...metadata
+      }, error, txn);
+
+      this.logger.error('StartTrial operation failed', {
+        userId,
+        tier,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * 为用户授予附加包
+   * 
+   * 附加包授予 membership.entitlements.addOns 中配置的功能，独立于会员等级，
+   * 直到 revokeAddOn 撤销前一直有效。重复授予不做修改，返回的 changed 为 false。
+   * 
+   * @param params - 附加包参数
+   * @returns 授予后用户持有的附加包
+   * @throws {UserNotFoundError} 当用户不存在时
+   * @throws {ConfigurationError} 当附加包未配置或存储适配器未实现附加包方法时
+   * 
+   * @example
+   * ```typescript
+   * // 免费用户购买 API 访问附加包
+   * await engine.grantAddOn({ userId: 'user-123', addOn: 'api-access' });
+   * ```
+   */
+  async grantAddOn(params: AddOnParams): Promise<AddOnResult> {
+    const { addOn } = params;
+
+    if (!this.config.membership.entitlements?.addOns?.[addOn]) {
+      throw new ConfigurationError(
+        `Add-on '${addOn}' is not defined in membership.entitlements.addOns`
+      );
+    }
+
+    this.requireStorage('saveUserAddOn', 'add-ons');
+
+    return this.changeAddOn(params, true);
+  }
+
+  /**
+   * 撤销用户的附加包
+   * 
+   * 用户未持有该附加包时不做修改，返回的 changed 为 false，因此可以安全地重复调用。
+   * 已从配置中移除的附加包也可以撤销。
+   * 
+   * @param params - 附加包参数
+   * @returns 撤销后用户持有的附加包
+   * @throws {UserNotFoundError} 当用户不存在时
+   * @throws {ConfigurationError} 当存储适配器未实现附加包方法时
+   * 
+   * @example
+   * ```typescript
+   * await engine.revokeAddOn({ userId: 'user-123', addOn: 'api-access' });
+   * ```
+   */
+  async revokeAddOn(params: AddOnParams): Promise<AddOnResult> {
+    this.requireStorage('deleteUserAddOn', 'add-ons');
+
+    return this.changeAddOn(params, false);
+  }
+
+  /**
+   * 查询余额
+   * 
+   * 查询用户的当前积分余额。
+   * 
+   * 执行流程：
+   * 1. 获取用户信息
+   * 2. 验证用户存在
+   * 3. 返回积分余额（options.breakdown 为 true 时返回余额明细）
+   * 
+   * 支持事务上下文以确保读取一致性。
+   * 
+   * @param userId - 用户 ID
+   * @param txn - 可选的事务上下文
+   * @param options - 查询选项（可选）
+   * @returns 用户当前积分余额（数值类型），或按批次划分的余额明细
+   * @throws {UserNotFoundError} 当用户不存在时
+   * 
+   * @example
+   * ```typescript
+   * // 基本查询
+   * const balance = await engine.queryBalance('user-123');
+   * console.log(`Current balance: ${balance}`);
+   * 
+   * // 在事务中查询（确保读取一致性）
+   * await prisma.$transaction(async (tx) => {
+   *   const balance = await engine.queryBalance('user-123', tx);
+   *   // ... 基于余额的其他操作 ...
+   * });
+   * 
+   * // 查询余额明细
+   * const breakdown = await engine.queryBalance('user-123', undefined, { breakdown: true });
+   * console.log(`Available: ${breakdown.available}, expiring lots: ${breakdown.lots.length}`);
+   * ```
+   * 
+   * 验证需求:
+   * - 7.1: 使用有效用户 ID 调用时，返回当前积分余额
+   * - 7.2: 使用无效用户 ID 调用时，抛出 UserNotFoundError
+   * - 7.3: 支持余额查询的事务上下文以确保读取一致性
+   * - 7.4: 返回具有适当精度的数值类型余额
+   */
+  async queryBalance(userId: string, txn?: any): Promise<number>;
+  async queryBalance(
+    userId: string,
+    txn: any,
+    options: QueryBalanceOptions & { breakdown: true }
+  ): Promise<BalanceBreakdown>;
+  async queryBalance(
+    userId: string,
+    txn?: any,
+    options?: QueryBalanceOptions
+  ): Promise<number | BalanceBreakdown>;
+  async queryBalance(
+    userId: string,
+    txn?: any,
+    options: QueryBalanceOptions = {}
+  ): Promise<number | BalanceBreakdown> {
+    this.logger.info('Starting queryBalance operation', {
+      userId,
+      hasTransaction: !!txn,
+      breakdown: !!options.breakdown
+    });
+
+    try {
+      // 步骤 1: 获取用户信息
+      this.logger.debug('Fetching user', { userId });
+      const user = await this.retryRead(txn, () => this.storage.getUserById(userId, txn));
+      
+      // 步骤 2: 验证用户存在
+      if (!user) {
+        this.logger.warn('User not found', { userId });
+        throw new UserNotFoundError(userId);
+      }
+
+      this.logger.debug('User found', {
+        userId,
+        credits: user.credits
+      });
+
+      // 步骤 3: 返回积分余额
+      this.logger.info('QueryBalance operation completed successfully', {
+        userId,
+        balance: user.credits
+      });
+
+      if (options.breakdown) {
+        return await this.retryRead(txn, () => this.buildBalanceBreakdown(user, txn));
+      }
+
+      const { wallet } = options;
+
+      if (wallet !== undefined && wallet !== DEFAULT_WALLET) {
+        return await this.retryRead(txn, () => this.getWalletBalance(userId, wallet, txn));
+      }
+
+      return user.credits;
+
+    } catch (error) {
+      this.logger.error('QueryBalance operation failed', {
+        userId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      // 重新抛出原始错误
+      throw error;
+    }
+  }
+
+  /**
+   * 获取交易历史
+   * 
+   * 查询用户的积分交易记录，支持分页和过滤。
+   * 
+   * 执行流程：
+   * 1. 通过 StorageAdapter 查询交易记录
+   * 2. 应用分页参数 (limit, offset)
+   * 3. 应用日期范围过滤 (startDate, endDate)
+   * 4. 应用操作类型过滤 (action)
+   * 5. 返回按时间戳降序排列的交易列表
+   * 
+   * 支持事务上下文以确保读取一致性。
+   * 
+   * @param userId - 用户 ID
+   * @param options - 查询选项
+   * @returns 交易记录列表，按时间戳降序排列
+   * 
+   * @example
+   * ```typescript
+   * // 获取最近 10 条交易
+   * const history = await engine.getHistory('user-123', { limit: 10 });
+   * 
+   * // 分页查询
+   * const history = await engine.getHistory('user-123', { 
+   *   limit: 20, 
+   *   offset: 40 
+   * });
+   * 
+   * // 按日期范围过滤
+   * const history = await engine.getHistory('user-123', {
+   *   startDate: new Date('2024-01-01'),
+   *   endDate: new Date('2024-12-31')
+   * });
+   * 
+   * // 按操作类型过滤
+   * const history = await engine.getHistory('user-123', {
+   *   action: 'generate-post'
+   * });
+   * 
+   * // 组合多个过滤条件
+   * const history = await engine.getHistory('user-123', {
+   *   limit: 50,
+   *   offset: 0,
+   *   startDate: new Date('2024-01-01'),
+   *   action: 'generate-post'
+   * });
+   * 
+   * // 在事务中查询（确保读取一致性）
+   * await prisma.$transaction(async (tx) => {
+   *   const history = await engine.getHistory('user-123', { 
+   *     limit: 10,
+   *     txn: tx 
+   *   });
+   *   // ... 基于历史的其他操作 ...
+   * });
+   * ```
+   * 
+   * 验证需求:
+   * - 8.1: 返回指定用户的交易列表
+   * - 8.2: 通过 limit 和 offset 参数支持分页
+   * - 8.3: 支持按日期范围过滤
+   * - 8.4: 支持按操作类型过滤
+   * - 8.5: 返回按时间戳降序排列的交易
+   */
+  async getHistory(userId: string, options?: HistoryOptions): Promise<Transaction[]> {
+    const { limit, offset, startDate, endDate, action, txn } = options || {};
+
+    this.logger.info('Starting getHistory operation', {
+      userId,
+      limit,
+      offset,
+      hasStartDate: !!startDate,
+      hasEndDate: !!endDate,
+      action,
+      hasTransaction: !!txn
+    });
+
+    try {
+      // 查询交易历史
+      this.logger.debug('Fetching transaction history', {
+        userId,
+        filters: { limit, offset, startDate, endDate, action }
+      });
+
+      const transactions = await this.retryRead(txn, () =>
+        this.storage.getTransactions(
+          userId,
+          {
+            limit,
+            offset,
+            startDate,
+            endDate,
+            action
+          },
+          txn
+        )
+      );
+
+      this.logger.info('GetHistory operation completed successfully', {
+        userId,
+        transactionCount: transactions.length
+      });
+
+      return transactions;
+
+    } catch (error) {
+      this.logger.error('GetHistory operation failed', {
+        userId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+
+      // 重新抛出原始错误
+      throw error;
+    }
+  }
+  /**
+   * 查询当前处于透支状态的用户
+   * 
+   * 返回余额为负数的用户，透支最多的在前，用于对账和催收。
+   * 
+   * @param options - 分页选项 (默认 limit 100，offset 0)
+   * @returns 透支用户列表，包含余额和当前生效的透支额度
+   * @throws {ConfigurationError} 当 limit 或 offset 无效，或存储适配器未实现 getOverdrawnUsers 时
+   * 
+   * @example
+   * ```typescript
+   * const overdrawn = await engine.getOverdrawnUsers({ limit: 50 });
+   * for (const user of overdrawn) {
+   *   console.log(`${user.userId} owes ${-user.credits} credits (limit ${user.overdraftLimit})`);
+   * }
+   * ```
+   */
+  async getOverdrawnUsers(options: OverdrawnUsersOptions = {}): Promise<OverdrawnUser[]> {
+    const { limit = 100, offset = 0, txn } = options;
+
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new ConfigurationError(`limit must be a positive integer, got ${limit}`);
+    }
+
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new ConfigurationError(`offset must be a non-negative integer, got ${offset}`);
+    }
+
+    this.requireStorage('getOverdrawnUsers', 'overdraft queries');
+    this.logger.info('Fetching overdrawn users', { limit, offset });
+
+    const users = await this.retryRead(txn, () =>
+      this.storage.getOverdrawnUsers!(limit, offset, txn)
+    );
+
+    return users.map(user => ({
+      userId: user.id,
+      credits: user.credits,
+      membershipTier: user.membershipTier,
+      overdraftLimit: this.getOverdraftLimit(user)
+    }));
+  }
+
+  /**
+   * 查询用户的会员状态
+   * 
+   * 返回存储的会员等级、到期时间、是否已过期和会员状态，以及计划中的等级变更。
+   * 存储适配器未实现计划等级变更特性时 pendingChange 始终为 null。
+   * 
+   * @param userId - 用户 ID
+   * @param txn - 可选的事务上下文
+   * @returns 会员状态
+   * @throws {UserNotFoundError} 当用户不存在时
+   * 
+   * @example
+   * ```typescript
+   * const status = await engine.getMembershipStatus('user-123');
+   * if (status.pendingChange) {
+   *   console.log(`Moves to ${status.pendingChange.targetTier} on ${status.pendingChange.effectiveAt}`);
+   * }
+   * ```
+   */
+  async getMembershipStatus(userId: string, txn?: any): Promise<MembershipStatus> {
+    this.logger.info('Fetching membership status', { userId });
+
+    const user = await this.retryRead(txn, () => this.storage.getUserById(userId, txn));
+
+    if (!user) {
+      throw new UserNotFoundError(userId);
+    }
+
+    const pendingChange = typeof this.storage.getScheduledTierChange === 'function'
+      ? await this.retryRead(txn, () => this.storage.getScheduledTierChange!(userId, txn))
+      : null;
+
+    const { effectiveTier: _effectiveTier, ...stateDetails } = this.membershipValidator.getState(user);
+
+    return {
+      userId,
+      tier: user.membershipTier,
+      expiresAt: user.membershipExpiresAt,
+      expired: this.membershipValidator.isExpired(user.membershipExpiresAt),
+      ...stateDetails,
+      pendingChange
+    };
+  }
+
+  /**
+   * 查询用户的权益
+   * 
+   * 返回用户持有的附加包，以及有效会员等级和附加包授予的全部功能。
+   * 未配置 membership.entitlements 时 entitlements 为空数组。
+   * 
+   * @param userId - 用户 ID
+   * @param txn - 可选的事务上下文
+   * @returns 用户权益
+   * @throws {UserNotFoundError} 当用户不存在时
+   * 
+   * @example
+   * ```typescript
+   * const { entitlements } = await engine.getEntitlements('user-123');
+   * if (entitlements.includes('api')) {
+   *   showApiKeys();
+   * }
+   * ```
+   */
+  async getEntitlements(userId: string, txn?: any): Promise<UserEntitlements> {
+    this.logger.info('Fetching entitlements', { userId });
+
+    const user = await this.retryRead(txn, () => this.storage.getUserById(userId, txn));
+
+    if (!user) {
+      throw new UserNotFoundError(userId);
+    }
+
+    const addOns = await this.retryRead(txn, () => this.getUserAddOnNames(userId, txn));
+
+    return {
+      userId,
+      tier: this.membershipValidator.getState(user).effectiveTier,
+      addOns,
+      entitlements: this.membershipValidator.getEntitlements(user, addOns)
+    };
+  }
+
+  /**
+   * 查询用户的用量配额状态
+   * 
+   * 按用户的有效会员等级列出适用的每条配额规则，以及当前窗口内的用量和重置时间。
+   * 不限次数的操作不出现在结果中。
+   * 
+   * @param userId - 用户 ID
+   * @param txn - 可选的事务上下文
+   * @returns 用户配额状态
+   * @throws {UserNotFoundError} 当用户不存在时
+   * @throws {ConfigurationError} 当有适用的配额但存储适配器未实现 countActionUsage 时
+   * 
+   * @example
+   * ```typescript
+   * const { quotas } = await engine.getQuotaStatus('user-123');
+   * for (const quota of quotas) {
+   *   console.log(`${quota.action}: ${quota.used}/${quota.limit} per ${quota.window}`);
+   * }
+   * ```
+   */
+  async getQuotaStatus(userId: string, txn?: any): Promise<QuotaStatus> {
+    this.logger.info('Fetching quota status', { userId });
+
+    const user = await this.retryRead(txn, () => this.storage.getUserById(userId, txn));
+
+    if (!user) {
+      throw new UserNotFoundError(userId);
+    }
+
+    const { effectiveTier } = this.membershipValidator.getState(user);
+    const now = new Date();
+    const quotas: QuotaStatus['quotas'] = [];
+
+    for (const action of this.quotaManager.getActions()) {
+      for (const { limit, window } of this.quotaManager.getRules(action, effectiveTier)) {
+        this.requireStorage('countActionUsage', 'usage quotas');
+
+        const range = this.quotaManager.getWindow(window, now);
+        const used = await this.retryRead(txn, () =>
+          this.storage.countActionUsage!(userId, action, range.start, txn)
+        );
+
+        quotas.push({
+          action,
+          limit,
+          window,
+          used,
+          remaining: Math.max(0, limit - used),
+          resetsAt: range.end
+        });
+      }
+    }
+
+    return { userId, tier: effectiveTier, quotas };
+  }
+
+  /**
+   * 验证访问权限
+   * 
+   * 检查用户是否有权限执行某个操作。
+   * 验证用户的会员等级是否满足操作所需的等级。
+   * 
+   * 验证流程：
+   * 1. 获取用户信息
+   * 2. 检查操作的会员要求
+   * 3. 验证用户会员等级和过期状态
+   * 4. 返回验证结果
+   * 
+   * 配置了 gracePeriodDays 时，到期后宽限期内的会员保留原等级的权限。
+   * options.details 为 true 时返回验证详情，其中 state 说明权限来自有效会员、试用还是宽限期。
+   * 
+   * @param userId - 用户 ID
+   * @param action - 操作名称
+   * @param txn - 可选的事务上下文
+   * @param options - 验证选项（可选）
+   * @returns 是否有权限，或验证详情
+   * @throws {UserNotFoundError} 当用户不存在时
+   * @throws {MembershipRequiredError} 当用户缺少所需会员资格时
+   * @throws {EntitlementRequiredError} 当用户缺少操作所需的功能时
+   * 
+   * @example
+   * ```typescript
+   * // 获取验证详情，在宽限期内提醒用户续费
+   * const access = await engine.validateAccess('user-123', 'generate-post', undefined, { details: true });
+   * if (access.state === 'grace') {
+   *   showRenewalBanner(access.graceEndsAt);
+   * }
+   * 
+   * // 验证用户是否可以执行操作
+   * try {
+   *   const hasAccess = await engine.validateAccess('user-123', 'generate-post');
+   *   if (hasAccess) {
+   *     // 用户有权限
+   *   }
+   * } catch (error) {
+   *   if (error instanceof MembershipRequiredError) {
+   *     // 用户缺少所需会员资格
+   *   }
+   * }
+   * ```
+   * 
+   * 验证需求:
+   * - 9.1: 检查用户的会员等级是否满足操作所需的等级
+   * - 9.2: 当用户的会员资格已过期时，将其视为没有会员资格
+   * - 9.3: 当用户缺少所需会员资格时，抛出 MembershipRequiredError
+   * - 9.4: 当用户具有足够的会员资格时，返回 true
+   * - 9.5: 支持每个操作的可配置会员要求
+   */
+  async validateAccess(userId: string, action: string, txn?: any): Promise<boolean>;
+  async validateAccess(
+    userId: string,
+    action: string,
+    txn: any,
+    options: ValidateAccessOptions & { details: true }
+  ): Promise<ValidationResult>;
+  async validateAccess(
+    userId: string,
+    action: string,
+    txn?: any,
+    options?: ValidateAccessOptions
+  ): Promise<boolean | ValidationResult>;
+  async validateAccess(
+    userId: string,
+    action: string,
+    txn?: any,
+    options: ValidateAccessOptions = {}
+  ): Promise<boolean | ValidationResult> {
+    this.logger.info('Validating access', { userId, action });
+
+    try {
+      // 步骤 1: 获取用户信息
+      this.logger.debug('Fetching user for access validation', { userId });
+      const user = await this.storage.getUserById(userId, txn);
+      
+      if (!user) {
+        this.logger.warn('User not found during access validation', { userId });
+        throw new UserNotFoundError(userId);
+      }
+
+      this.logger.debug('User found for access validation', {
+        userId,
+        membershipTier: user.membershipTier,
+        membershipExpiresAt: user.membershipExpiresAt
+      });
+
+      // 步骤 2: 检查操作的会员和功能要求
+      const requiredTier = this.config.membership.requirements[action] || null;
+      const requiredEntitlements = this.config.membership.entitlements?.requirements?.[action] ?? [];
+      
+      this.logger.debug('Checking membership requirement', {
+        action,
+        requiredTier,
+        requiredEntitlements
+      });
+
+      // 如果操作不需要会员和功能，直接返回 true
+      if (requiredTier === null && requiredEntitlements.length === 0) {
+        this.logger.info('Access granted - no membership required', {
+          userId,
+          action
+        });
+        return options.details ? this.membershipValidator.validate(user, null) : true;
+      }
+
+      // 步骤 3: 验证用户会员等级、过期状态和功能
+      this.logger.debug('Validating membership', {
+        userId,
+        requiredTier,
+        currentTier: user.membershipTier
+      });
+
+      const validationResult = await this.validateAction(user, action, txn);
+      
+      if (!validationResult.valid) {
+        this.logger.warn('Access denied - membership validation failed', {
+          userId,
+          action,
+          reason: validationResult.reason,
+          requiredTier,
+          currentTier: validationResult.currentTier,
+          isExpired: validationResult.isExpired,
+          missingEntitlements: validationResult.missingEntitlements
+        });
+
+        // 步骤 4: 抛出适当的错误
+        throw this.createAccessError(user.id, action, validationResult);
+      }
+
+      this.logger.info('Access granted - membership validation passed', {
+        userId,
+        action,
+        currentTier: validationResult.currentTier,
+        state: validationResult.state
+      });
+
+      // 返回 true 表示有权限
+      return options.details ? validationResult : true;
+    } catch (error) {
+      // 记录错误到审计日志
+      if (this.config.audit.enabled) {
+        await this.auditTrail.log(
+          {
+            userId,
+            action: 'validateAccess',
+            status: 'failed',
+            metadata: {
+              targetAction: action,
+              error: error instanceof Error ? error.message : String(error)
+            },
+            errorMessage: error instanceof Error ? error.message : String(error)
+          },
+          txn
+        );
+      }
+
+      // 重新抛出错误
+      throw error;
+    }
+  }
+
+  /**
+   * 获取存储熔断器的状态
+   * 
+   * 熔断器由 retry.circuitBreaker 配置，本实例所有经过重试处理的存储操作共享同一个熔断器。
+   * 
+   * @returns 熔断器状态快照；未配置熔断器时返回 null
+   * 
+   * @example
+   * ```typescript
+   * const status = engine.getCircuitBreakerStatus();
+   * if (status?.state === 'open') {
+   *   // 存储不可用，CreditsEngine 会以 CircuitOpenError 快速失败
+   *   console.log(`Storage calls resume at ${status.retryAt}`);
+   * }
+   * ```
+   */
+  getCircuitBreakerStatus(): CircuitBreakerStatus | null {
+    return this.retryHandler.getCircuitBreakerStatus();
+  }
+
+  /**
+   * 验证用户是否满足操作的会员和功能要求
+   * 
+   * @param user - 用户对象
+   * @param action - 操作名称
+   * @param txn - 可选的事务上下文
+   * @returns 用户的会员状态
+   * @throws {MembershipRequiredError} 当用户缺少所需会员资格时
+   * @throws {EntitlementRequiredError} 当用户缺少所需功能时
+   */
+  private async assertMembership(user: User, action: string, txn?: any): Promise<MembershipState> {
+    const validationResult = await this.validateAction(user, action, txn);
+    
+    if (!validationResult.valid) {
+      this.logger.warn('Membership validation failed', {
+        userId: user.id,
+        reason: validationResult.reason,
+        requiredTier: validationResult.requiredTier,
+        currentTier: validationResult.currentTier,
+        missingEntitlements: validationResult.missingEntitlements
+      });
+
+      throw this.createAccessError(user.id, action, validationResult);
+    }
+
+    this.logger.debug('Membership validation passed', {
+      userId: user.id,
+      state: validationResult.state
+    });
+
+    return validationResult.state;
+  }
+
+  /**
+   * 按操作的会员要求和功能要求验证用户
+   * 
+   * 只在操作要求功能时读取用户的附加包。
+   * 
+   * @param user - 用户对象
+   * @param action - 操作名称
+   * @param txn - 可选的事务上下文
+   * @returns 验证结果
+   */
+  private async validateAction(user: User, action: string, txn?: any): Promise<ValidationResult> {
+    const requiredTier = this.config.membership.requirements[action] || null;
+    const required = this.config.membership.entitlements?.requirements?.[action] ?? [];
+
+    if (required.length === 0) {
+      return this.membershipValidator.validate(user, requiredTier);
+    }
+
+    const addOns = await this.getUserAddOnNames(user.id, txn);
+    return this.membershipValidator.validate(user, requiredTier, { required, addOns });
+  }
+
+  /**
+   * 根据验证失败的结果创建错误
+   * 
+   * @param userId - 用户 ID
+   * @param action - 操作名称
+   * @param result - 验证失败的结果
+   * @returns 缺少功能时为 EntitlementRequiredError，否则为 MembershipRequiredError
+   */
+  private createAccessError(
+    userId: string,
+    action: string,
+    result: ValidationResult
+  ): MembershipRequiredError | EntitlementRequiredError {
+    if (result.missingEntitlements) {
+      return new EntitlementRequiredError(userId, action, result.missingEntitlements);
+    }
+
+    return new MembershipRequiredError(userId, result.requiredTier!, result.currentTier);
+  }
+
+  /**
+   * 执行授予或撤销附加包的步骤
+   * 
+   * @param params - 附加包参数
+   * @param grant - true 为授予，false 为撤销
+   * @returns 修改后用户持有的附加包
+   */
+  private async changeAddOn(params: AddOnParams, grant: boolean): Promise<AddOnResult> {
+    const { userId, addOn, metadata = {}, txn } = params;
+    const operation = grant ? 'grantAddOn' : 'revokeAddOn';
+
+    this.logger.info('Changing add-on', { userId, addOn, operation });
+
+    this.requireStorage('getUserAddOns', 'add-ons');
+
+    const user = await this.storage.getUserById(userId, txn);
+    if (!user) {
+      throw new UserNotFoundError(userId);
+    }
+
+    const held = (await this.getUserAddOnNames(userId, txn)).includes(addOn);
+    const changed = grant !== held;
+
+    if (changed && grant) {
+      await this.storage.saveUserAddOn!(userId, addOn, txn);
+    } else if (changed) {
+      await this.storage.deleteUserAddOn!(userId, addOn, txn);
+    }
+
+    if (this.config.audit.enabled) {
+      await this.auditTrail.log(
+        {
+          userId,
+          action: operation,
+          status: 'success',
+          metadata: { addOn, changed, ...metadata }
+        },
+        txn
+      );
+    }
+
+    return {
+      success: true,
+      userId,
+      addOns: await this.getUserAddOnNames(userId, txn),
+      changed
+    };
+  }
+
+  /**
+   * 获取用户持有的附加包名称
+   * 
+   * 存储适配器未实现附加包特性时返回空数组。
+   * 
+   * @param userId - 用户 ID
+   * @param txn - 可选的事务上下文
+   * @returns 附加包名称，按授予时间排序
+   */
+  private async getUserAddOnNames(userId: string, txn?: any): Promise<string[]> {
+    if (typeof this.storage.getUserAddOns !== 'function') {
+      return [];
+    }
+
+    const addOns = await this.storage.getUserAddOns(userId, txn);
+    return addOns.map(addOn => addOn.addOn);
+  }
+
+  /**
+   * 获取用户当前被冻结的积分总额
+   * 
+   * 存储适配器未实现冻结特性时返回 0。
+   * 
+   * @param userId - 用户 ID
+   * @param txn - 可选的事务上下文
+   * @returns 未过期的冻结总额
+   */
+  private async getHeldCredits(userId: string, txn?: any): Promise<number> {
+    if (typeof this.storage.getActiveHoldsTotal !== 'function') {
+      return 0;
+    }
+
+    return await this.storage.getActiveHoldsTotal(userId, new Date(), txn);
+  }
+
+  /**
+   * 获取用户仍有剩余的积分批次，并按是否过期划分
+   * 
+   * 存储适配器未实现积分批次特性时返回空结果。
+   * 
+   * @param userId - 用户 ID
+   * @param now - 判断过期的时间点
+   * @param txn - 可选的事务上下文
+   * @returns 未过期的批次（按到期时间升序）和已过期未清除的积分总额
+   */
+  private async getCreditLots(
+    userId: string,
+    now: Date,
+    txn?: any
+  ): Promise<{ active: CreditLot[]; expiredTotal: number }> {
+    if (
+      typeof this.storage.getCreditLots !== 'function' ||
+      typeof this.storage.consumeCreditLot !== 'function'
+    ) {
+      return { active: [], expiredTotal: 0 };
+    }
+
+    const lots = await this.storage.getCreditLots(userId, txn);
+    const active: CreditLot[] = [];
+    let expiredTotal = 0;
+
+    for (const lot of lots) {
+      if (lot.expiresAt > now) {
+        active.push(lot);
+      } else {
+        expiredTotal += lot.remaining;
+      }
+    }
+
+    return { active, expiredTotal };
+  }
+
+  /**
+   * 按顺序从积分批次中消耗指定金额
+   * 
+   * 超出批次剩余总额的部分视为消耗永久积分，不做记录。
+   * 
+   * @param lots - 未过期的批次，按到期时间升序排列
+   * @param amount - 需要消耗的金额
+   * @param txn - 可选的事务上下文
+   * @returns 每个批次实际消耗的金额
+   */
+  private async consumeCreditLots(
+    lots: CreditLot[],
+    amount: number,
+    txn?: any
+  ): Promise<Array<{ lotId: string; amount: number }>> {
+    const consumed: Array<{ lotId: string; amount: number }> = [];
+    let remaining = amount;
+
+    for (const lot of lots) {
+      if (remaining <= 0) {
+        break;
+      }
+
+      // 以实际扣减结果为准，批次可能已被并发扣费消耗
+      const taken = await this.storage.consumeCreditLot!(lot.id, remaining, txn);
+
+      if (taken > 0) {
+        consumed.push({ lotId: lot.id, amount: taken });
+        remaining -= taken;
+      }
+    }
+
+    return consumed;
+  }
+
+  /**
+   * 从用户余额中扣除过期积分
+   * 
+   * 使用条件扣减，余额不足时最多扣至 0；并发扣费导致条件不满足时重新读取余额。
+   * 
+   * @param userId - 用户 ID
+   * @param amount - 过期的积分金额
+   * @param txn - 可选的事务上下文
+   * @returns 实际扣除的金额和扣除后的余额
+   */
+  private async debitExpiredCredits(
+    userId: string,
+    amount: number,
+    txn?: any
+  ): Promise<{ debited: number; balanceAfter: number }> {
+    while (true) {
+      const user = await this.storage.getUserById(userId, txn);
+
+      if (!user) {
+        throw new UserNotFoundError(userId);
+      }
+
+      const debited = Math.min(amount, Math.max(user.credits, 0));
+
+      if (debited === 0) {
+        return { debited, balanceAfter: user.credits };
+      }
+
+      const updated = await this.debitUserCredits(userId, debited, 0, txn);
+
+      if (updated) {
+        return { debited, balanceAfter: updated.credits };
+      }
+    }
+  }
+
+  /**
+   * 构建用户的余额明细
+   * 
+   * @param user - 用户对象
+   * @param txn - 可选的事务上下文
+   * @returns 余额明细
+   */
+  private async buildBalanceBreakdown(user: User, txn?: any): Promise<BalanceBreakdown> {
+    const held = await this.getHeldCredits(user.id, txn);
+    const { active, expiredTotal } = await this.getCreditLots(user.id, new Date(), txn);
+    const lotsTotal = active.reduce((sum, lot) => sum + lot.remaining, 0);
+
+    return {
+      userId: user.id,
+      total: user.credits,
+      available: user.credits - held - expiredTotal,
+      held,
+      expired: expiredTotal,
+      permanent: Math.max(0, user.credits - lotsTotal - expiredTotal),
+      lots: active.map(lot => ({
+        lotId: lot.id,
+        remaining: lot.remaining,
+        expiresAt: lot.expiresAt
+      })),
+      wallets: {
+        [DEFAULT_WALLET]: user.credits,
+        ...(typeof this.storage.getWalletBalances === 'function' &&
+          await this.storage.getWalletBalances(user.id, txn))
+      }
+    };
+  }
+
+  /**
+   * 执行扣费步骤
+   * 
+   * @param params - 扣费参数（txn 和 idempotencyKey 为本次尝试使用的值）
+   * @returns 扣费结果
+   */
+  private async executeCharge(params: ChargeParams): Promise<ChargeResult> {
+    const { userId, action, idempotencyKey, metadata = {}, txn, variables } = params;
+    const wallet = this.resolveWallet(action, params.wallet);
+
+    // 步骤 1: 幂等性检查
+    if (idempotencyKey) {
+      this.logger.debug('Checking idempotency', { idempotencyKey });
+      const existingRecord = await this.idempotencyManager.claim(
+        idempotencyKey,
+        txn,
+        { operation: 'charge', params }
+      );
+      
+      if (existingRecord) {
+        this.logger.info('Idempotency key found, returning cached result', {
+          idempotencyKey,
+          userId
+        });
+        return existingRecord.result as ChargeResult;
+      }
+    }
+
+    // 步骤 2: 获取用户信息
+    this.logger.debug('Fetching user', { userId });
+    const user = await this.storage.getUserById(userId, txn);
+    
+    if (!user) {
+      this.logger.warn('User not found', { userId });
+      throw new UserNotFoundError(userId);
+    }
+
+    this.logger.debug('User found', {
+      userId,
+      credits: user.credits,
+      membershipTier: user.membershipTier
+    });
+
+    // 步骤 3: 会员验证（宽限期内的会员保留权限）和用量配额检查
+    const membershipState = await this.assertMembership(user, action, txn);
+    await this.assertQuota(user, action, 1, txn);
+
+    // 步骤 4: 计算成本
+    this.logger.debug('Calculating cost', {
+      action,
+      membershipTier: user.membershipTier,
+      hasVariables: !!variables
+    });
+
+    const cost = this.costFormula.calculate(action, user.membershipTier, variables);
+    
+    // 获取计算详情（用于记录到metadata）
+    const calculationDetails = this.costFormula.getCalculationDetails(
+      action,
+      user.membershipTier,
+      variables
+    );
+    
+    this.logger.debug('Cost calculated', { cost, isDynamic: calculationDetails.isDynamic });
+
+    // 步骤 5: 检查余额（冻结中的积分和已过期未清除的积分不可用于扣费，会员等级的透支额度可用）
+    // 组织成员的默认钱包扣费从组织积分池扣除，并先校验成员消费限额
+    const isDefaultWallet = wallet === DEFAULT_WALLET;
+    const organizationId = isDefaultWallet ? user.organizationId ?? null : null;
+
+    if (organizationId) {
+      await this.assertSpendingLimits(organizationId, userId, cost, txn);
+    }
+
+    const { balance, heldCredits, lots, unavailable, available, overdraftLimit } =
+      await this.getChargeableBalance(user, wallet, organizationId, txn);
+
+    if (available < cost) {
+      this.logger.warn('Insufficient credits', {
+        userId,
+        required: cost,
+        available,
+        heldCredits,
+        expiredCredits: lots.expiredTotal
+      });
+
+      throw new InsufficientCreditsError(userId, cost, available);
+    }
+
+    this.logger.debug('Balance check passed', {
+      userId,
+      wallet,
+      credits: balance,
+      heldCredits,
+      cost
+    });
+
+    // 步骤 6: 原子条件扣减余额
+    // 上面的检查基于读取时的快照，并发扣费可能同时通过；
+    // 由存储层在同一操作中再次校验余额，扣减后余额不得低于不可用额度减去透支额度
+    const minBalance = unavailable - overdraftLimit;
+
+    this.logger.debug('Updating user balance', {
+      userId,
+      wallet,
+      organizationId,
+      cost,
+      minBalance
+    });
+
+    const balanceAfter = organizationId
+      ? await this.debitPool(organizationId, cost, txn)
+      : await this.debitWallet(userId, wallet, cost, minBalance, txn);
+
+    if (balanceAfter === null) {
+      const latestAvailable = organizationId
+        ? (await this.getPoolBalance(organizationId, txn)).available
+        : (await this.getWalletBalance(userId, wallet, txn)) - minBalance;
+
+      this.logger.warn('Insufficient credits after concurrent update', {
+        userId,
+        required: cost,
+        available: latestAvailable
+      });
+
+      throw new InsufficientCreditsError(userId, cost, latestAvailable);
+    }
+
+    // 余额取自实际写入的记录，而不是扣减前读取的快照
+    const balanceBefore = balanceAfter + cost;
+
+    this.logger.debug('User balance updated', {
+      userId,
+      balanceBefore,
+      balanceAfter
+    });
+
+    // 按到期时间由近到远消耗积分批次
+    const consumedLots = await this.consumeCreditLots(lots.active, cost, txn);
+
+    // 步骤 7: 创建交易记录
+    this.logger.debug('Creating transaction record', { userId, action, cost });
+
+    const overdraft = this.getOverdraftUsage(cost, balanceAfter, unavailable, overdraftLimit);
+
+    if (overdraft) {
+      this.logger.info('Charge used overdraft', { userId, ...overdraft, balanceAfter });
+    }
+
+    const transactionMetadata = this.buildChargeMetadata(
+      metadata,
+      organizationId,
+      consumedLots,
+      calculationDetails,
+      overdraft
+    );
+
+    const transaction = await this.storage.createTransaction(
+      {
+        userId,
+        action,
+        amount: -cost, // 负数表示扣费
+        balanceBefore,
+        balanceAfter,
+        ...(!isDefaultWallet && { wallet }),
+        operation: 'charge',
+        metadata: transactionMetadata
+      },
+      txn
+    );
+
+    this.logger.debug('Transaction record created', {
+      transactionId: transaction.id
+    });
+
+    // 步骤 8: 创建审计日志
+    if (this.config.audit.enabled) {
+      this.logger.debug('Creating audit log', { userId, action });
+
+      await this.auditTrail.log(
+        {
+          userId,
+          action: 'charge',
+          status: 'success',
+          metadata: {
+            operation: action,
+            cost,
+            balanceBefore,
+            balanceAfter,
+            ...(!isDefaultWallet && { wallet }),
+            ...(organizationId && { organizationId }),
+            transactionId: transaction.id,
+            ...metadata
+          }
+        },
+        txn
+      );
+
+      this.logger.debug('Audit log created', { userId });
+    }
+
+    // 构建结果
+    const result: ChargeResult = {
+      success: true,
+      transactionId: transaction.id,
+      cost,
+      balanceBefore,
+      balanceAfter,
+      ...(organizationId && { organizationId }),
+      ...((membershipState === 'trial' || membershipState === 'grace') && { membershipState })
+    };
+
+    // 步骤 9: 保存幂等记录
+    if (idempotencyKey) {
+      this.logger.debug('Saving idempotency record', { idempotencyKey });
+      await this.idempotencyManager.save(idempotencyKey, result, txn, {
+        operation: 'charge',
+        params
+      });
+    }
+
+    this.logger.info('Charge operation completed successfully', {
+      userId,
+      action,
+      cost,
+      transactionId: transaction.id
+    });
+
+    return result;
+  }
+
+  /**
+   * 按 charge 的检查步骤评估一次扣费，只读取不写入
+   * 
+   * @param params - 预估参数
+   * @returns 预估结果
+   */
+  private async evaluateCharge(params: EstimateParams): Promise<EstimateResult> {
+    const { userId, action, txn, variables } = params;
+    const wallet = this.resolveWallet(action, params.wallet);
+
+    // 步骤 1: 获取用户信息
+    const user = await this.storage.getUserById(userId, txn);
+
+    if (!user) {
+      this.logger.warn('User not found', { userId });
+      throw new UserNotFoundError(userId);
+    }
+
+    // 步骤 2: 计算成本（会员验证失败时仍按用户当前等级给出成本）
+    const cost = this.costFormula.calculate(action, user.membershipTier, variables);
+    const calculationDetails = this.costFormula.getCalculationDetails(
+      action,
+      user.membershipTier,
+      variables
+    );
+
+    // 步骤 3: 按 charge 的顺序检查，记录第一个失败原因
+    const organizationId = wallet === DEFAULT_WALLET ? user.organizationId ?? null : null;
+    const { available } = await this.getChargeableBalance(user, wallet, organizationId, txn);
+
+    let failure:
+      | MembershipRequiredError
+      | EntitlementRequiredError
+      | QuotaExceededError
+      | SpendingLimitExceededError
+      | InsufficientCreditsError
+      | null = null;
+
+    try {
+      await this.assertMembership(user, action, txn);
+      await this.assertQuota(user, action, 1, txn);
+
+      if (organizationId) {
+        await this.assertSpendingLimits(organizationId, userId, cost, txn);
+      }
+
+      if (available < cost) {
+        throw new InsufficientCreditsError(userId, cost, available);
+      }
+    } catch (error) {
+      if (
+        !(error instanceof MembershipRequiredError) &&
+        !(error instanceof EntitlementRequiredError) &&
+        !(error instanceof QuotaExceededError) &&
+        !(error instanceof SpendingLimitExceededError) &&
+        !(error instanceof InsufficientCreditsError)
+      ) {
+        throw error;
+      }
+
+      failure = error;
+    }
+
+    return {
+      cost,
+      calculationDetails,
+      wouldSucceed: failure === null,
+      available,
+      ...(organizationId && { organizationId }),
+      ...(failure && {
+        failureReason: {
+          code: failure.code as EstimateFailureReason['code'],
+          message: failure.message
+        }
+      })
+    };
+  }
+
+  /**
+   * 执行批量扣费步骤
+   * 
+   * @param params - 批量扣费参数（txn 为本次尝试使用的事务）
+   * @returns 批量扣费结果
+   */
+  private async executeChargeBatch(params: ChargeBatchExecution): Promise<ChargeBatchResult> {
+    const { items, mode = 'all-or-nothing', txn } = params;
+    const outcomes: ChargeBatchItemResult[] = items.map((_, index) => ({ index, status: 'skipped' }));
+    const claimedKeys = new Map<number, string>();
+
+    // 步骤 1: 幂等性检查（条目的幂等键与 charge 共用命名空间）
+    for (const [index, item] of items.entries()) {
+      const key = item.idempotencyKey;
+      if (!key) {
+        continue;
+      }
+
+      try {
+        const existingRecord = await this.idempotencyManager.claim(key, txn, {
+          operation: 'charge',
+          params: item
+        });
+
+        if (existingRecord) {
+          outcomes[index] = { index, status: 'replayed', result: existingRecord.result as ChargeResult };
+        } else {
+          claimedKeys.set(index, key);
+        }
+      } catch (error) {
+        // 幂等键冲突或仍在处理中，只影响该条目
+        if (!(error instanceof CreditsSDKError)) {
+          throw error;
+        }
+
+        outcomes[index] = { index, status: 'failed', error: { code: error.code, message: error.message } };
+      }
+    }
+
+    // 步骤 2: 逐条校验，同一账户内累计成本
+    const users = new Map<string, User | null>();
+    const accounts = new Map<string, ChargeBatchAccount>();
+    const quotaPending = new Map<string, number>();
+
+    for (const [index, item] of items.entries()) {
+      if (outcomes[index]!.status !== 'skipped') {
+        continue;
+      }
+
+      try {
+        if (!users.has(item.userId)) {
+          users.set(item.userId, await this.storage.getUserById(item.userId, txn));
+        }
+
+        const user = users.get(item.userId);
+        if (!user) {
+          throw new UserNotFoundError(item.userId);
+        }
+
+        await this.assertMembership(user, item.action, txn);
+
+        const quotaKey = `${user.id}:${item.action}`;
+        const quotaCount = quotaPending.get(quotaKey) ?? 0;
+        await this.assertQuota(user, item.action, quotaCount + 1, txn);
+
+        const cost = this.costFormula.calculate(item.action, user.membershipTier, item.variables);
+        const calculationDetails = this.costFormula.getCalculationDetails(
+          item.action,
+          user.membershipTier,
+          item.variables
+        );
+
+        const wallet = this.resolveWallet(item.action, item.wallet);
+        const organizationId = wallet === DEFAULT_WALLET ? user.organizationId ?? null : null;
+        const accountKey = organizationId ? `organization:${organizationId}` : `user:${user.id}:${wallet}`;
+
+        let account = accounts.get(accountKey);
+        if (!account) {
+          const { unavailable, available, lots, overdraftLimit } = await this.getChargeableBalance(
+            user,
+            wallet,
+            organizationId,
+            txn
+          );
+
+          account = {
+            userId: user.id,
+            wallet,
+            organizationId,
+            unavailable,
+            overdraftLimit,
+            available,
+            lots: lots.active,
+            entries: [],
+            total: 0
+          };
+          accounts.set(accountKey, account);
+        }
+
+        if (organizationId) {
+          // 成员消费限额包含本批次中该成员已通过校验的条目
+          const pending = account.entries
+            .filter(entry => entry.item.userId === user.id)
+            .reduce((sum, entry) => sum + entry.cost, 0);
+
+          await this.assertSpendingLimits(organizationId, user.id, pending + cost, txn);
+        }
+
+        const remaining = account.available - account.total;
+        if (remaining < cost) {
+          throw new InsufficientCreditsError(user.id, cost, remaining);
+        }
+
+        account.entries.push({ index, item, cost, calculationDetails });
+        account.total += cost;
+        quotaPending.set(quotaKey, quotaCount + 1);
+      } catch (error) {
+        if (!(error instanceof CreditsSDKError)) {
+          throw error;
+        }
+
+        this.logger.warn('Charge batch item rejected', {
+          index,
+          userId: item.userId,
+          action: item.action,
+          error: error.message
+        });
+
+        outcomes[index] = { index, status: 'failed', error: { code: error.code, message: error.message } };
+      }
+    }
+
+    const failed = outcomes.filter(outcome => outcome.status === 'failed').length;
+    const aborted = mode === 'all-or-nothing' && failed > 0;
+
+    // 步骤 3: 释放未扣费条目占用的幂等键，之后可以用同一个键重新提交
+    for (const [index, key] of claimedKeys) {
+      if (aborted || outcomes[index]!.status === 'failed') {
+        await this.idempotencyManager.release(key, txn, { operation: 'charge', params: items[index]! });
+      }
+    }
+
+    // 步骤 4: 每个账户一次条件扣减，逐条写入交易记录
+    if (!aborted) {
+      for (const account of accounts.values()) {
+        if (account.entries.length > 0) {
+          await this.writeChargeBatchAccount(account, outcomes, claimedKeys, txn);
+        }
+      }
+    }
+
+    // 步骤 5: 每个用户一条审计日志
+    if (this.config.audit.enabled) {
+      for (const userId of new Set(items.map(item => item.userId))) {
+        const userOutcomes = outcomes.filter(
+          outcome => items[outcome.index]!.userId === userId && outcome.status !== 'replayed'
+        );
+
+        if (userOutcomes.length > 0) {
+          await this.logChargeBatchAudit(userId, mode, items, userOutcomes, txn);
+        }
+      }
+    }
+
+    return {
+      mode,
+      succeeded: outcomes.filter(outcome => outcome.status === 'charged' || outcome.status === 'replayed')
+        .length,
+      failed,
+      items: outcomes
+    };
+  }
+
+  /**
+   * 扣减一个批量扣费账户并写入各条目的交易记录和幂等记录
+   * 
+   * @param account - 账户累计状态
+   * @param outcomes - 条目结果，扣费成功的条目会被更新为 charged
+   * @param claimedKeys - 条目下标到已占用幂等键的映射
+   * @param txn - 事务上下文
+   * @throws {InsufficientCreditsError} 当余额在校验后被并发扣减时
+   */
+  private async writeChargeBatchAccount(
+    account: ChargeBatchAccount,
+    outcomes: ChargeBatchItemResult[],
+    claimedKeys: Map<number, string>,
+    txn: any
+  ): Promise<void> {
+    const { userId, wallet, organizationId, unavailable, overdraftLimit, entries, total } = account;
+    const minBalance = unavailable - overdraftLimit;
+
+    const balanceAfter = organizationId
+      ? await this.debitPool(organizationId, total, txn)
+      : await this.debitWallet(userId, wallet, total, minBalance, txn);
+
+    if (balanceAfter === null) {
+      const latestAvailable = organizationId
+        ? (await this.getPoolBalance(organizationId, txn)).available
+        : (await this.getWalletBalance(userId, wallet, txn)) - minBalance;
+
+      this.logger.warn('Insufficient credits after concurrent update', {
+        userId,
+        required: total,
+        available: latestAvailable
+      });
+
+      throw new InsufficientCreditsError(userId, total, latestAvailable);
+    }
+
+    // 从扣减后的余额倒推每个条目的前后余额，最后一个条目的余额与实际写入的余额一致
+    const balances: Array<{ before: number; after: number }> = [];
+    let after = balanceAfter;
+    for (let i = entries.length - 1; i >= 0; i--) {
+      balances[i] = { before: after + entries[i]!.cost, after };
+      after = balances[i]!.before;
+    }
+
+    const lotShares = this.splitConsumedLots(
+      await this.consumeCreditLots(account.lots, total, txn),
+      entries.map(entry => entry.cost)
+    );
+
+    for (const [position, { index, item, cost, calculationDetails }] of entries.entries()) {
+      const { before, after: itemBalanceAfter } = balances[position]!;
+
+      const transaction = await this.storage.createTransaction(
+        {
+          userId: item.userId,
+          action: item.action,
+          amount: -cost,
+          balanceBefore: before,
+          balanceAfter: itemBalanceAfter,
+          ...(wallet !== DEFAULT_WALLET && { wallet }),
+          operation: 'chargeBatch',
+          metadata: this.buildChargeMetadata(
+            item.metadata ?? {},
+            organizationId,
+            lotShares[position]!,
+            calculationDetails,
+            this.getOverdraftUsage(cost, itemBalanceAfter, unavailable, overdraftLimit)
+          )
+        },
+        txn
+      );
+
+      const result: ChargeResult = {
+        success: true,
+        transactionId: transaction.id,
+        cost,
+        balanceBefore: before,
+        balanceAfter: itemBalanceAfter,
+        ...(organizationId && { organizationId })
+      };
+
+      outcomes[index] = { index, status: 'charged', result };
+
+      const key = claimedKeys.get(index);
+      if (key) {
+        await this.idempotencyManager.save(key, result, txn, { operation: 'charge', params: item });
+      }
+    }
+  }
+
+  /**
+   * 记录一个用户的批量扣费审计日志
+   * 
+   * 有条目扣费成功时状态为 success，否则为 failed。
+   * 
+   * @param userId - 用户 ID
+   * @param mode - 批量扣费模式
+   * @param items - 全部扣费条目
+   * @param outcomes - 该用户的条目结果（不含 replayed）
+   * @param txn - 事务上下文
+   */
+  private async logChargeBatchAudit(
+    userId: string,
+    mode: ChargeBatchResult['mode'],
+    items: ChargeBatchItem[],
+    outcomes: ChargeBatchItemResult[],
+    txn: any
+  ): Promise<void> {
+    const charged = outcomes.filter(outcome => outcome.status === 'charged');
+    const failed = outcomes.filter(outcome => outcome.status === 'failed');
+    const skipped = outcomes.length - charged.length - failed.length;
+
+    await this.auditTrail.log(
+      {
+        userId,
+        action: 'chargeBatch',
+        status: charged.length > 0 ? 'success' : 'failed',
+        metadata: {
+          mode,
+          cost: charged.reduce((sum, outcome) => sum + outcome.result!.cost, 0),
+          transactionIds: charged.map(outcome => outcome.result!.transactionId),
+          ...(failed.length > 0 && {
+            failedItems: failed.map(outcome => ({
+              index: outcome.index,
+              action: items[outcome.index]!.action,
+              error: outcome.error!.message
+            }))
+          }),
+          ...(skipped > 0 && { skippedItems: skipped })
+        },
+        ...(charged.length === 0 && {
+          errorMessage: failed[0]?.error!.message ?? 'Batch aborted because other items failed'
+        })
+      },
+      txn
+    );
+  }
+
+  /**
+   * 构建扣费交易的元数据
+   * 
+   * 只在实际消耗了积分批次时添加 creditLots，只在透支时添加 overdraft，只在使用动态公式时添加 dynamicCost。
+   * 
+   * @param metadata - 调用方提供的元数据
+   * @param organizationId - 扣费的组织积分池
+   * @param consumedLots - 本次消耗的积分批次
+   * @param calculationDetails - 成本计算详情
+   * @param overdraft - 本次使用的透支额度
+   * @returns 交易元数据
+   */
+  private buildChargeMetadata(
+    metadata: Record<string, any>,
+    organizationId: string | null,
+    consumedLots: Array<{ lotId: string; amount: number }>,
+    calculationDetails: CalculationDetails,
+    overdraft: { amount: number; limit: number } | null
+  ): Record<string, any> {
+    return {
+      ...metadata,
+      ...(organizationId && { organizationId }),
+      ...(consumedLots.length > 0 && { creditLots: consumedLots }),
+      ...(overdraft && { overdraft }),
+      ...(calculationDetails.isDynamic && {
+        dynamicCost: {
+          formula: calculationDetails.formula,
+          variables: calculationDetails.variables,
+          rawCost: calculationDetails.rawCost,
+          finalCost: calculationDetails.finalCost
+        }
+      })
+    };
+  }
+
+  /**
+   * 将一次消耗的积分批次按顺序分摊给多个扣费条目
+   * 
+   * @param consumed - consumeCreditLots 的返回值
+   * @param amounts - 各条目的扣费金额
+   * @returns 每个条目消耗的积分批次
+   */
+  private splitConsumedLots(
+    consumed: Array<{ lotId: string; amount: number }>,
+    amounts: number[]
+  ): Array<Array<{ lotId: string; amount: number }>> {
+    const queue = consumed.map(lot => ({ ...lot }));
+
+    return amounts.map(amount => {
+      const shares: Array<{ lotId: string; amount: number }> = [];
+      let needed = amount;
+
+      while (needed > 0 && queue.length > 0) {
+        const lot = queue[0]!;
+        const taken = Math.min(lot.amount, needed);
+
+        shares.push({ lotId: lot.lotId, amount: taken });
+        lot.amount -= taken;
+        needed -= taken;
+
+        if (lot.amount <= 0) {
+          queue.shift();
+        }
+      }
+
+      return shares;
+    });
+  }
+
+  /**
+   * 执行退款步骤
+   * 
+   * @param params - 退款参数（txn 和 idempotencyKey 为本次尝试使用的值）
+   * @param resolved - 解析出的原交易和退款对象，供失败审计使用
+   * @returns 退款结果
+   */
+  private async executeRefund(
+    params: RefundParams,
+    resolved: RefundResolution
+  ): Promise<RefundResult> {
+    const { idempotencyKey, metadata = {}, txn } = params;
+
+    // 步骤 1: 幂等性检查
+    if (idempotencyKey) {
+      this.logger.debug('Checking idempotency', { idempotencyKey });
+      const existingRecord = await this.idempotencyManager.claim(
+        idempotencyKey,
+        txn,
+        { operation: 'refund', params }
+      );
+      
+      if (existingRecord) {
+        this.logger.info('Idempotency key found, returning cached result', {
+          idempotencyKey,
+          userId: params.userId
+        });
+        return existingRecord.result as RefundResult;
+      }
+    }
+
+    // 步骤 2: 确定退款对象
+    if (params.transactionId === undefined) {
+      resolved.target = {
+        userId: params.userId,
+        amount: params.amount,
+        action: params.action,
+        wallet: params.wallet ?? DEFAULT_WALLET,
+        organizationId: null
+      };
+    } else {
+      resolved.originalCharge = await this.getRefundableCharge(params, txn);
+      resolved.target = await this.claimTransactionRefund(resolved.originalCharge, params, txn);
+    }
+
+    const { userId, amount, action, wallet, organizationId, original } = resolved.target;
+
+    // 步骤 3: 获取用户信息
+    this.logger.debug('Fetching user', { userId });
+    const user = await this.storage.getUserById(userId, txn);
+    
+    if (!user) {
+      this.logger.warn('User not found', { userId });
+      throw new UserNotFoundError(userId);
+    }
+
+    this.logger.debug('User found', {
+      userId,
+      credits: user.credits
+    });
+
+    // 步骤 4: 更新余额（增加积分）
+    this.logger.debug('Updating user balance', { userId, wallet, organizationId, amount });
+
+    const { balanceBefore, balanceAfter } = organizationId
+      ? await this.creditPool(organizationId, amount, txn)
+      : await this.creditWallet(user, wallet, amount, txn);
+
+    this.logger.debug('User balance updated', {
+      userId,
+      balanceBefore,
+      balanceAfter
+    });
+
+    // 步骤 5: 创建交易记录（正金额表示增加）
+    this.logger.debug('Creating transaction record', { userId, action, amount });
+
+    const transaction = await this.storage.createTransaction(
+      {
+        userId,
+        action,
+        amount, // 正数表示退款/增加
+        balanceBefore,
+        balanceAfter,
+        ...(wallet !== DEFAULT_WALLET && { wallet }),
+        operation: 'refund',
+        metadata: {
+          ...metadata,
+          ...(original && { originalTransactionId: original.transactionId }),
+          ...(organizationId && { organizationId })
+        }
+      },
+      txn
+    );
+
+    this.logger.debug('Transaction record created', {
+      transactionId: transaction.id
+    });
+
+    // 步骤 6: 创建审计日志
+    if (this.config.audit.enabled) {
+      this.logger.debug('Creating audit log', { userId, action });
+
+      await this.auditTrail.log(
+        {
+          userId,
+          action: 'refund',
+          status: 'success',
+          metadata: {
+            operation: action,
+            amount,
+            balanceBefore,
+            balanceAfter,
+            ...(wallet !== DEFAULT_WALLET && { wallet }),
+            ...(original && { originalTransactionId: original.transactionId }),
+            ...(organizationId && { organizationId }),
+            transactionId: transaction.id,
+            ...metadata
+          }
+        },
+        txn
+      );
+
+      this.logger.debug('Audit log created', { userId });
+    }
+
+    // 构建结果
+    const result: RefundResult = {
+      success: true,
+      transactionId: transaction.id,
+      amount,
+      balanceAfter,
+      ...(original && {
+        originalTransactionId: original.transactionId,
+        totalRefunded: original.totalRefunded,
+        remainingRefundable: original.remainingRefundable
+      })
+    };
+
+    // 步骤 7: 保存幂等记录
+    if (idempotencyKey) {
+      this.logger.debug('Saving idempotency record', { idempotencyKey });
+      await this.idempotencyManager.save(idempotencyKey, result, txn, {
+        operation: 'refund',
+        params
+      });
+    }
+
+    this.logger.info('Refund operation completed successfully', {
+      userId,
+      action,
+      amount,
+      transactionId: transaction.id
+    });
+
+    return result;
+  }
+
+  /**
+   * 执行发放步骤
+   * 
+   * @param params - 发放参数（txn 和 idempotencyKey 为本次尝试使用的值）
+   * @returns 发放结果
+   */
+  private async executeGrant(params: GrantParams): Promise<GrantResult> {
+    const {
+      userId,
+      amount,
+      action,
+      wallet = DEFAULT_WALLET,
+      expiresAt,
+      idempotencyKey,
+      metadata = {},
+      txn
+    } = params;
+
+    // 步骤 1: 验证金额为正数
+    if (amount <= 0) {
+      this.logger.warn('Invalid grant amount', { userId, amount });
+      throw new ConfigurationError(
+        `Grant amount must be positive, got ${amount}`
+      );
+    }
+
+    if (expiresAt !== undefined) {
+      this.requireStorage('createCreditLot', 'expiring grants');
+
+      if (wallet !== DEFAULT_WALLET) {
+        throw new ConfigurationError(
+          `Expiring grants are only supported for the default wallet, got '${wallet}'`
+        );
+      }
+
+      if (expiresAt.getTime() <= Date.now()) {
+        this.logger.warn('Invalid grant expiry', { userId, expiresAt });
+        throw new ConfigurationError(
+          `Grant expiresAt must be in the future, got ${expiresAt.toISOString()}`
+        );
+      }
+    }
+
+    this.logger.debug('Amount validation passed', { amount });
+
+    // 步骤 2: 幂等性检查
+    if (idempotencyKey) {
+      this.logger.debug('Checking idempotency', { idempotencyKey });
+      const existingRecord = await this.idempotencyManager.claim(
+        idempotencyKey,
+        txn,
+        { operation: 'grant', params }
+      );
+
+      if (existingRecord) {
+        this.logger.info('Idempotency key found, returning cached result', {
+          idempotencyKey,
+          userId
+        });
+        return existingRecord.result as GrantResult;
+      }
+    }
+
+    // 步骤 3: 获取用户信息
+    this.logger.debug('Fetching user', { userId });
+    const user = await this.storage.getUserById(userId, txn);
+    
+    if (!user) {
+      this.logger.warn('User not found', { userId });
+      throw new UserNotFoundError(userId);
+    }
+
+    this.logger.debug('User found', {
+      userId,
+      credits: user.credits
+    });
+
+    // 步骤 4: 更新余额（增加积分）
+    this.logger.debug('Updating user balance', { userId, wallet, amount });
+
+    const { balanceBefore, balanceAfter } = await this.creditWallet(user, wallet, amount, txn);
+
+    this.logger.debug('User balance updated', {
+      userId,
+      balanceBefore,
+      balanceAfter
+    });
+
+    // 带到期时间的积分记录为独立的积分批次
+    let lotId: string | undefined;
+
+    if (expiresAt !== undefined) {
+      const lot = await this.storage.createCreditLot!(
+        { userId, amount, expiresAt, metadata: { action } },
+        txn
+      );
+      lotId = lot.id;
+
+      this.logger.debug('Credit lot created', { userId, lotId, expiresAt });
+    }
+
+    // 步骤 5: 创建交易记录（正金额表示增加）
+    this.logger.debug('Creating transaction record', { userId, action, amount });
+
+    const transaction = await this.storage.createTransaction(
+      {
+        userId,
+        action,
+        amount, // 正数表示发放/增加
+        balanceBefore,
+        balanceAfter,
+        ...(wallet !== DEFAULT_WALLET && { wallet }),
+        operation: 'grant',
+        metadata: {
+          ...metadata,
+          ...(lotId !== undefined && { lotId, expiresAt: expiresAt!.toISOString() })
+        }
+      },
+      txn
+    );
+
+    this.logger.debug('Transaction record created', {
+      transactionId: transaction.id
+    });
+
+    // 步骤 6: 创建审计日志
+    if (this.config.audit.enabled) {
+      this.logger.debug('Creating audit log', { userId, action });
+
+      await this.auditTrail.log(
+        {
+          userId,
+          action: 'grant',
+          status: 'success',
+          metadata: {
+            operation: action,
+            amount,
+            balanceBefore,
+            balanceAfter,
+            ...(wallet !== DEFAULT_WALLET && { wallet }),
+            transactionId: transaction.id,
+            ...metadata
+          }
+        },
+        txn
+      );
+
+      this.logger.debug('Audit log created', { userId });
+    }
+
+    // 构建结果
+    const result: GrantResult = {
+      success: true,
+      transactionId: transaction.id,
+      amount,
+      balanceAfter,
+      ...(lotId !== undefined && { lotId })
+    };
+
+    // 步骤 7: 保存幂等记录
+    if (idempotencyKey) {
+      this.logger.debug('Saving idempotency record', { idempotencyKey });
+      await this.idempotencyManager.save(idempotencyKey, result, txn, {
+        operation: 'grant',
+        params
+      });
+    }
+
+    this.logger.info('Grant operation completed successfully', {
+      userId,
+      action,
+      amount,
+      transactionId: transaction.id
+    });
+
+    return result;
+  }
+
+  /**
+   * 执行升级步骤
+   * 
+   * @param params - 升级参数（txn 和 idempotencyKey 为本次尝试使用的值）
+   * @returns 升级结果
+   */
+  private async executeUpgradeTier(params: UpgradeTierParams): Promise<TierChangeResult> {
+    const { userId, targetTier, membershipExpiresAt, idempotencyKey, metadata = {}, txn } = params;
+
+    // 步骤 1: 幂等性检查
+    if (idempotencyKey) {
+      this.logger.debug('Checking idempotency', { idempotencyKey });
+      const existingRecord = await this.idempotencyManager.claim(
+        idempotencyKey,
+        txn,
+        { operation: 'upgradeTier', params }
+      );
+      
+      if (existingRecord) {
+        this.logger.info('Idempotency key found, returning cached result', {
+          idempotencyKey,
+          userId
+        });
+        return existingRecord.result as TierChangeResult;
+      }
+    }
+
+    // 步骤 2: 获取用户信息
+    this.logger.debug('Fetching user', { userId });
+    const user = await this.storage.getUserById(userId, txn);
+    
+    if (!user) {
+      this.logger.warn('User not found', { userId });
+      throw new UserNotFoundError(userId);
+    }
+
+    this.logger.debug('User found', {
+      userId,
+      credits: user.credits,
+      membershipTier: user.membershipTier
+    });
+
+    // 步骤 3: 验证目标等级存在
+    if (!(targetTier in this.config.membership.tiers)) {
+      this.logger.warn('Target tier not defined', { targetTier });
+      throw new UndefinedTierError(targetTier);
+    }
+
+    this.logger.debug('Target tier validated', { targetTier });
+
+    // 步骤 4: 验证升级方向
+    const currentLevel = user.membershipTier 
+      ? (this.config.membership.tiers[user.membershipTier] ?? -1)
+      : -1;
+    const targetLevel = this.config.membership.tiers[targetTier];
+    
+    // TypeScript 类型保护：确保 targetLevel 已定义
+    if (targetLevel === undefined) {
+      throw new UndefinedTierError(targetTier);
+    }
+    
+    if (targetLevel <= currentLevel) {
+      this.logger.warn('Invalid upgrade direction', {
+        userId,
+        currentTier: user.membershipTier,
+        currentLevel,
+        targetTier,
+        targetLevel
+      });
+
+      throw new InvalidTierChangeError(
+        userId, 
+        user.membershipTier, 
+        targetTier,
+        'Target tier must be higher than current tier for upgrade'
+      );
+    }
+
+    this.logger.debug('Upgrade direction validated', {
+      currentLevel,
+      targetLevel
+    });
+
+    // 步骤 5: 获取目标等级的积分上限，周期中途升级时按剩余时间折算
+    const targetCap = this.config.membership.creditsCaps[targetTier];
+    
+    // TypeScript 类型保护：确保 targetCap 已定义
+    if (targetCap === undefined) {
+      throw new UndefinedTierError(targetTier);
+    }
+
+    const proration = this.getProration(user, targetTier, params.prorate);
+    
+    this.logger.debug('Credits cap retrieved', {
+      targetTier,
+      targetCap,
+      prorated: !!proration
+    });
+
+    // 步骤 6: 按增量更新积分，再更新用户等级
+    this.logger.debug('Updating user membership', {
+      userId,
+      targetTier,
+      membershipExpiresAt
+    });
+
+    const { balanceBefore, balanceAfter: newCredits } = await this.updateMembershipCredits(
+      user,
+      targetTier,
+      credits => proration ? this.applyProration(credits, proration) : targetCap,
+      membershipExpiresAt,
+      txn
+    );
+    const creditsDelta = newCredits - balanceBefore;
+
+    // 立即生效的等级变更取代之前计划的变更，并结束试用
+    await this.clearScheduledTierChange(userId, txn);
+    await this.endTrial(user, txn);
+
+    this.logger.debug('User membership updated', { userId });
+
+    // 步骤 7: 创建交易记录
+    this.logger.debug('Creating transaction record', {
+      userId,
+      action: 'tier-upgrade',
+      creditsDelta
+    });
+
+    const transaction = await this.storage.createTransaction(
+      {
+        userId,
+        action: 'tier-upgrade',
+        amount: creditsDelta,
+        balanceBefore,
+        balanceAfter: newCredits,
+        operation: 'upgradeTier',
+        metadata: {
+          oldTier: user.membershipTier,
+          newTier: targetTier,
+          oldCredits: balanceBefore,
+          newCredits,
+          creditsDelta,
+          membershipExpiresAt,
+          ...(proration && { proration }),
+          ...metadata
+        }
+      },
+      txn
+    );
+
+    this.logger.debug('Transaction record created', {
+      transactionId: transaction.id
+    });
+
+    // 步骤 8: 创建审计日志
+    if (this.config.audit.enabled) {
+      this.logger.debug('Creating audit log', { userId, action: 'upgradeTier' });
+
+      await this.auditTrail.log(
+        {
+          userId,
+          action: 'upgradeTier',
+          status: 'success',
+          metadata: {
+            oldTier: user.membershipTier,
+            newTier: targetTier,
+            oldCredits: balanceBefore,
+            newCredits,
+            creditsDelta,
+            transactionId: transaction.id,
+            membershipExpiresAt,
+            ...metadata
+          }
+        },
+        txn
+      );
+
+      this.logger.debug('Audit log created', { userId });
+    }
+
+    // 构建结果
+    const result: TierChangeResult = {
+      success: true,
+      transactionId: transaction.id,
+      oldTier: user.membershipTier,
+      newTier: targetTier,
+      oldCredits: balanceBefore,
+      newCredits,
+      creditsDelta,
+      ...(proration && { proration })
+    };
+
+    // 步骤 9: 保存幂等记录
+    if (idempotencyKey) {
+      this.logger.debug('Saving idempotency record', { idempotencyKey });
+      await this.idempotencyManager.save(idempotencyKey, result, txn, {
+        operation: 'upgradeTier',
+        params
+      });
+    }
+
+    this.logger.info('UpgradeTier operation completed successfully', {
+      userId,
+      oldTier: user.membershipTier,
+      newTier: targetTier,
+      creditsDelta,
+      transactionId: transaction.id
+    });
+
+    return result;
+  }
+
+  /**
+   * 执行降级步骤
+   * 
+   * @param params - 降级参数（txn 和 idempotencyKey 为本次尝试使用的值）
+   * @param transactionAction - 交易记录的 action
+   * @param auditAction - 审计日志的 action
+   * @returns 降级结果
+   */
+  private async executeDowngradeTier(
+    params: DowngradeTierParams,
+    transactionAction = 'tier-downgrade',
+    auditAction = 'downgradeTier'
+  ): Promise<TierChangeResult> {
+    const {
+      userId,
+      targetTier,
+      clearExpiration = false,
+      atPeriodEnd = false,
+      idempotencyKey,
+      metadata = {},
+      txn
+    } = params;
+
+    if (atPeriodEnd) {
+      this.requireStorage('saveScheduledTierChange', 'scheduled downgrades');
+    }
+
+    // 步骤 1: 幂等性检查
+    if (idempotencyKey) {
+      this.logger.debug('Checking idempotency', { idempotencyKey });
+      const existingRecord = await this.idempotencyManager.claim(
+        idempotencyKey,
+        txn,
+        { operation: 'downgradeTier', params }
+      );
+      
+      if (existingRecord) {
+        this.logger.info('Idempotency key found, returning cached result', {
+          idempotencyKey,
+          userId
+        });
+        return existingRecord.result as TierChangeResult;
+      }
+    }
+
+    // 步骤 2: 获取用户信息
+    this.logger.debug('Fetching user', { userId });
+    const user = await this.storage.getUserById(userId, txn);
+    
+    if (!user) {
+      this.logger.warn('User not found', { userId });
+      throw new UserNotFoundError(userId);
+    }
+
+    this.logger.debug('User found', {
+      userId,
+      credits: user.credits,
+      membershipTier: user.membershipTier
+    });
+
+    // 步骤 3: 验证目标等级存在
+    if (!(targetTier in this.config.membership.tiers)) {
+      this.logger.warn('Target tier not defined', { targetTier });
+      throw new UndefinedTierError(targetTier);
+    }
+
+    this.logger.debug('Target tier validated', { targetTier });
+
+    // 步骤 4: 验证降级方向
+    const currentLevel = user.membershipTier 
+      ? (this.config.membership.tiers[user.membershipTier] ?? -1)
+      : -1;
+    const targetLevel = this.config.membership.tiers[targetTier];
+    
+    // TypeScript 类型保护：确保 targetLevel 已定义
+    if (targetLevel === undefined) {
+      throw new UndefinedTierError(targetTier);
+    }
+    
+    if (targetLevel >= currentLevel) {
+      this.logger.warn('Invalid downgrade direction', {
+        userId,
+        currentTier: user.membershipTier,
+        currentLevel,
+        targetTier,
+        targetLevel
+      });
+
+      throw new InvalidTierChangeError(
+        userId, 
+        user.membershipTier, 
+        targetTier,
+        'Target tier must be lower than current tier for downgrade'
+      );
+    }
+
+    this.logger.debug('Downgrade direction validated', {
+      currentLevel,
+      targetLevel
+    });
+
+    if (atPeriodEnd) {
+      const scheduled = await this.scheduleDowngradeAtPeriodEnd(user, params);
+
+      if (idempotencyKey) {
+        await this.idempotencyManager.save(idempotencyKey, scheduled, txn, {
+          operation: 'downgradeTier',
+          params
+        });
+      }
+
+      return scheduled;
+    }
+
+    // 步骤 5: 获取目标等级的积分上限，周期中途降级时按剩余时间折算
+    const targetCap = this.config.membership.creditsCaps[targetTier];
+    
+    // TypeScript 类型保护：确保 targetCap 已定义
+    if (targetCap === undefined) {
+      throw new UndefinedTierError(targetTier);
+    }
+
+    const proration = this.getProration(user, targetTier, params.prorate);
+    
+    this.logger.debug('Credits cap retrieved', {
+      targetTier,
+      targetCap,
+      prorated: !!proration
+    });
+
+    // 步骤 6: 按增量更新积分，再更新用户等级
+    // 确定会员到期时间：如果 clearExpiration 为 true，则设置为 null
+    const membershipExpiresAt = clearExpiration ? null : undefined;
+
+    this.logger.debug('Updating user membership', {
+      userId,
+      targetTier,
+      clearExpiration,
+      membershipExpiresAt
+    });
+
+    const { balanceBefore, balanceAfter: newCredits } = await this.updateMembershipCredits(
+      user,
+      targetTier,
+      credits => proration ? this.applyProration(credits, proration) : targetCap,
+      membershipExpiresAt,
+      txn
+    );
+    const creditsDelta = newCredits - balanceBefore;
+
+    await this.clearScheduledTierChange(userId, txn);
+    await this.endTrial(user, txn);
+
+    this.logger.debug('User membership updated', { userId });
+
+    // 步骤 7: 创建交易记录
+    this.logger.debug('Creating transaction record', {
+      userId,
+      action: transactionAction,
+      creditsDelta
+    });
+
+    const transaction = await this.storage.createTransaction(
+      {
+        userId,
+        action: transactionAction,
+        amount: creditsDelta,
+        balanceBefore,
+        balanceAfter: newCredits,
+        operation: auditAction,
+        metadata: {
+          oldTier: user.membershipTier,
+          newTier: targetTier,
+          oldCredits: balanceBefore,
+          newCredits,
+          creditsDelta,
+          clearExpiration,
+          ...(proration && { proration }),
+          ...metadata
+        }
+      },
+      txn
+    );
+
+    this.logger.debug('Transaction record created', {
+      transactionId: transaction.id
+    });
+
+    // 步骤 8: 创建审计日志
+    if (this.config.audit.enabled) {
+      this.logger.debug('Creating audit log', { userId, action: auditAction });
+
+      await this.auditTrail.log(
+        {
+          userId,
+          action: auditAction,
+          status: 'success',
+          metadata: {
+            oldTier: user.membershipTier,
+            newTier: targetTier,
+            oldCredits: balanceBefore,
+            newCredits,
+            creditsDelta,
+            transactionId: transaction.id,
+            clearExpiration,
+            ...metadata
+          }
+        },
+        txn
+      );
+
+      this.logger.debug('Audit log created', { userId });
+    }
+
+    // 构建结果
+    const result: TierChangeResult = {
+      success: true,
+      transactionId: transaction.id,
+      oldTier: user.membershipTier,
+      newTier: targetTier,
+      oldCredits: balanceBefore,
+      newCredits,
+      creditsDelta,
+      ...(proration && { proration })
+    };
+
+    // 步骤 9: 保存幂等记录
+    if (idempotencyKey) {
+      this.logger.debug('Saving idempotency record', { idempotencyKey });
+      await this.idempotencyManager.save(idempotencyKey, result, txn, {
+        operation: 'downgradeTier',
+        params
+      });
+    }
+
+    this.logger.info('DowngradeTier operation completed successfully', {
+      userId,
+      oldTier: user.membershipTier,
+      newTier: targetTier,
+      creditsDelta,
+      transactionId: transaction.id
+    });
+
+    return result;
+  }
+
+  /**
+   * 计划在当前周期结束时降级
+   * 
+   * 只保存计划变更，等级和积分保持不变，由 processExpiredMemberships 或 applyDueTierChanges
+   * 在会员到期后执行降级。创建金额为 0 的 tier-downgrade-scheduled 交易记录。
+   * 
+   * @param user - 用户对象（已验证降级方向）
+   * @param params - 降级参数
+   * @returns 等级变更结果，effectiveAt 为计划生效时间
+   * @throws {InvalidTierChangeError} 当用户没有未到期的会员周期时
+   */
+  private async scheduleDowngradeAtPeriodEnd(
+    user: User,
+    params: DowngradeTierParams
+  ): Promise<TierChangeResult> {
+    const { userId, targetTier, metadata = {}, txn } = params;
+    const effectiveAt = user.membershipExpiresAt;
+
+    if (!effectiveAt || this.membershipValidator.isExpired(effectiveAt)) {
+      throw new InvalidTierChangeError(
+        userId,
+        user.membershipTier,
+        targetTier,
+        'User has no active membership period to downgrade at the end of'
+      );
+    }
+
+    const { transaction } = await this.persistScheduledTierChange(
+      user,
+      targetTier,
+      effectiveAt,
+      metadata,
+      txn
+    );
+
+    this.logger.info('Downgrade scheduled for period end', {
+      userId,
+      targetTier,
+      effectiveAt
+    });
+
+    if (this.config.audit.enabled) {
+      await this.auditTrail.log(
+        {
+          userId,
+          action: 'downgradeTier',
+          status: 'success',
+          metadata: {
+            oldTier: user.membershipTier,
+            newTier: targetTier,
+            effectiveAt: effectiveAt.toISOString(),
+            transactionId: transaction.id,
+            atPeriodEnd: true,
+            ...metadata
+          }
+        },
+        txn
+      );
+    }
+
+    return {
+      success: true,
+      transactionId: transaction.id,
+      oldTier: user.membershipTier,
+      newTier: targetTier,
+      oldCredits: user.credits,
+      newCredits: user.credits,
+      creditsDelta: 0,
+      effectiveAt
+    };
+  }
+
+  /**
+   * 保存计划变更并创建金额为 0 的交易记录
+   * 
+   * 交易类型按变更方向为 tier-upgrade-scheduled 或 tier-downgrade-scheduled。
+   * 
+   * @param user - 用户对象
+   * @param targetTier - 目标等级（已验证存在且与当前等级不同）
+   * @param effectiveAt - 生效时间
+   * @param metadata - 元数据
+   * @param txn - 可选的事务上下文
+   * @returns 保存的计划变更和交易记录
+   */
+  private async persistScheduledTierChange(
+    user: User,
+    targetTier: string,
+    effectiveAt: Date,
+    metadata: Record<string, any>,
+    txn?: any
+  ): Promise<{ scheduled: ScheduledTierChange; transaction: Transaction }> {
+    const { tiers } = this.config.membership;
+    const currentLevel = user.membershipTier ? tiers[user.membershipTier] ?? -1 : -1;
+    const direction = tiers[targetTier]! > currentLevel ? 'upgrade' : 'downgrade';
+
+    const scheduled = await this.storage.saveScheduledTierChange!(
+      { userId: user.id, targetTier, effectiveAt, metadata },
+      txn
+    );
+
+    const transaction = await this.storage.createTransaction(
+      {
+        userId: user.id,
+        action: `tier-${direction}-scheduled`,
+        amount: 0,
+        balanceBefore: user.credits,
+        balanceAfter: user.credits,
+        operation: 'scheduleTierChange',
+        metadata: {
+          oldTier: user.membershipTier,
+          newTier: targetTier,
+          effectiveAt: effectiveAt.toISOString(),
+          scheduledChangeId: scheduled.id,
+          ...metadata
+        }
+      },
+      txn
+    );
+
+    return { scheduled, transaction };
+  }
+
+  /**
+   * 执行计划等级变更步骤
+   * 
+   * @param params - 计划变更参数
+   * @returns 计划变更结果
+   */
+  private async executeScheduleTierChange(
+    params: ScheduleTierChangeParams
+  ): Promise<ScheduleTierChangeResult> {
+    const { userId, targetTier, effectiveAt, idempotencyKey, metadata = {}, txn } = params;
+
+    this.requireStorage('saveScheduledTierChange', 'scheduled tier changes');
+    this.requireStorage('getScheduledTierChange', 'scheduled tier changes');
+
+    if (!(effectiveAt instanceof Date) || Number.isNaN(effectiveAt.getTime()) || effectiveAt.getTime() <= Date.now()) {
+      throw new ConfigurationError(
+        `Scheduled tier change effectiveAt must be a future date, got ${String(effectiveAt)}`
+      );
+    }
+
+    // 步骤 1: 幂等性检查
+    if (idempotencyKey) {
+      this.logger.debug('Checking idempotency', { idempotencyKey });
+      const existingRecord = await this.idempotencyManager.claim(
+        idempotencyKey,
+        txn,
+        { operation: 'scheduleTierChange', params }
+      );
+
+      if (existingRecord) {
+        this.logger.info('Idempotency key found, returning cached result', {
+          idempotencyKey,
+          userId
+        });
+        return existingRecord.result as ScheduleTierChangeResult;
+      }
+    }
+
+    // 步骤 2: 获取用户信息
+    const user = await this.storage.getUserById(userId, txn);
+
+    if (!user) {
+      this.logger.warn('User not found', { userId });
+      throw new UserNotFoundError(userId);
+    }
+
+    // 步骤 3: 验证目标等级
+    if (!(targetTier in this.config.membership.tiers)) {
+      this.logger.warn('Target tier not defined', { targetTier });
+      throw new UndefinedTierError(targetTier);
+    }
+
+    if (targetTier === user.membershipTier) {
+      throw new InvalidTierChangeError(
+        userId,
+        user.membershipTier,
+        targetTier,
+        'Target tier is the same as the current tier'
+      );
+    }
+
+    // 步骤 4-5: 保存计划变更并创建交易记录
+    const replaced = await this.storage.getScheduledTierChange!(userId, txn);
+    const { scheduled, transaction } = await this.persistScheduledTierChange(
+      user,
+      targetTier,
+      effectiveAt,
+      metadata,
+      txn
+    );
+
+    this.logger.info('Tier change scheduled', {
+      userId,
+      targetTier,
+      effectiveAt,
+      replacedChangeId: replaced?.id
+    });
+
+    // 步骤 6: 记录审计日志
+    if (this.config.audit.enabled) {
+      await this.auditTrail.log(
+        {
+          userId,
+          action: 'scheduleTierChange',
+          status: 'success',
+          metadata: {
+            oldTier: user.membershipTier,
+            newTier: targetTier,
+            effectiveAt: effectiveAt.toISOString(),
+            transactionId: transaction.id,
+            scheduledChangeId: scheduled.id,
+            ...(replaced && { replacedChangeId: replaced.id }),
+            ...metadata
+          }
+        },
+        txn
+      );
+    }
+
+    const result: ScheduleTierChangeResult = {
+      success: true,
+      transactionId: transaction.id,
+      scheduledChange: scheduled,
+      replaced
+    };
+
+    // 步骤 7: 保存幂等记录
+    if (idempotencyKey) {
+      await this.idempotencyManager.save(idempotencyKey, result, txn, {
+        operation: 'scheduleTierChange',
+        params
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 执行开始试用步骤
+   * 
+   * @param params - 试用参数（txn 和 idempotencyKey 为本次尝试使用的值）
+   * @returns 试用结果
+   */
+  private async executeStartTrial(params: StartTrialParams): Promise<StartTrialResult> {
+    const { userId, tier, idempotencyKey, metadata = {}, txn } = params;
+    const { tiers, creditsCaps, trialDays } = this.config.membership;
+
+    this.requireStorage('setMembershipTrial', 'trials');
+
+    // 步骤 1: 幂等性检查
+    if (idempotencyKey) {
+      this.logger.debug('Checking idempotency', { idempotencyKey });
+      const existingRecord = await this.idempotencyManager.claim(
+        idempotencyKey,
+        txn,
+        { operation: 'startTrial', params }
+      );
+
+      if (existingRecord) {
+        this.logger.info('Idempotency key found, returning cached result', {
+          idempotencyKey,
+          userId
+        });
+        return existingRecord.result as StartTrialResult;
+      }
+    }
+
+    // 步骤 2: 获取用户信息
+    const user = await this.storage.getUserById(userId, txn);
+
+    if (!user) {
+      this.logger.warn('User not found', { userId });
+      throw new UserNotFoundError(userId);
+    }
+
+    // 步骤 3: 验证试用等级
+    const days = trialDays?.[tier];
+
+    if (days === undefined) {
+      throw new ConfigurationError(`No trial configured for tier '${tier}'`);
+    }
+
+    const trialCap = creditsCaps[tier];
+
+    if (trialCap === undefined) {
+      throw new UndefinedTierError(tier);
+    }
+
+    // 步骤 4: 验证用户可以试用
+    if (
+      user.membershipTier &&
+      user.membershipExpiresAt !== null &&
+      !this.membershipValidator.isExpired(user.membershipExpiresAt)
+    ) {
+      throw new InvalidTierChangeError(
+        userId,
+        user.membershipTier,
+        tier,
+        'Trials are only available to members without an active paid period'
+      );
+    }
+
+    const { effectiveTier } = this.membershipValidator.getState(user);
+    const currentLevel = effectiveTier ? tiers[effectiveTier] ?? -1 : -1;
+
+    if (tiers[tier]! <= currentLevel) {
+      throw new InvalidTierChangeError(
+        userId,
+        user.membershipTier,
+        tier,
+        'Trial tier must be higher than the current tier'
+      );
+    }
+
+    const [previousTrial] = await this.storage.getTransactions(
+      userId,
+      { action: 'trial-started', limit: 1 },
+      txn
+    );
+
+    if (previousTrial) {
+      throw new InvalidTierChangeError(userId, user.membershipTier, tier, 'User has already used a trial');
+    }
+
+    // 步骤 5: 按增量将积分调整为试用等级的上限，更新会员等级和试用结束时间
+    const trialEndsAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+    const { balanceBefore: oldCredits, balanceAfter: newCredits } = await this.updateMembershipCredits(
+      user,
+      tier,
+      () => trialCap,
+      trialEndsAt,
+      txn
+    );
+    await this.storage.setMembershipTrial!(userId, trialEndsAt, txn);
+
+    // 步骤 6: 计划试用结束时恢复原有的永久等级
+    // 原等级有到期时间时已过期，试用结束后按过期会员处理
+    const revertTier =
+      effectiveTier !== null &&
+      user.membershipExpiresAt === null &&
+      typeof this.storage.saveScheduledTierChange === 'function'
+        ? effectiveTier
+        : null;
+
+    if (revertTier) {
+      await this.storage.saveScheduledTierChange!(
+        { userId, targetTier: revertTier, effectiveAt: trialEndsAt, metadata: { trial: true } },
+        txn
+      );
+    } else {
+      await this.clearScheduledTierChange(userId, txn);
+    }
+
+    this.logger.info('Trial started', { userId, tier, trialEndsAt, revertTier });
+
+    // 步骤 7: 创建交易记录
+    const creditsDelta = newCredits - oldCredits;
+    const transaction = await this.storage.createTransaction(
+      {
+        userId,
+        action: 'trial-started',
+        amount: creditsDelta,
+        balanceBefore: oldCredits,
+        balanceAfter: newCredits,
+        operation: 'startTrial',
+        metadata: {
+          oldTier: user.membershipTier,
+          newTier: tier,
+          trialEndsAt: trialEndsAt.toISOString(),
+          revertTier,
+          ...metadata
+        }
+      },
+      txn
+    );
+
+    // 步骤 8: 记录审计日志
+    if (this.config.audit.enabled) {
+      await this.auditTrail.log(
+        {
+          userId,
+          action: 'startTrial',
+          status: 'success',
+          metadata: {
+            oldTier: user.membershipTier,
+            newTier: tier,
+            trialEndsAt: trialEndsAt.toISOString(),
+            revertTier,
+            transactionId: transaction.id,
+            ...metadata
+          }
+        },
+        txn
+      );
+    }
+
+    const result: StartTrialResult = {
+      success: true,
+      transactionId: transaction.id,
+      oldTier: user.membershipTier,
+      newTier: tier,
+      oldCredits,
+      newCredits,
+      creditsDelta,
+      trialEndsAt,
+      revertTier
+    };
+
+    // 步骤 9: 保存幂等记录
+    if (idempotencyKey) {
+      await this.idempotencyManager.save(idempotencyKey, result, txn, {
+        operation: 'startTrial',
+        params
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 执行单个到期的计划等级变更
+   * 
+   * @param params - 计划变更标识（txn 和 idempotencyKey 为本次尝试使用的值）
+   * @param now - 判断是否到期的时间点
+   * @returns 处理状态；变更等级时附带等级变更结果
+   */
+  private async executeScheduledTierChange(
+    params: { userId: string; scheduledChangeId: string; idempotencyKey?: string; txn?: any },
+    now: Date
+  ): Promise<{ status: 'upgraded' | 'downgraded' | 'discarded' | 'skipped'; result?: TierChangeResult }> {
+    const { userId, scheduledChangeId, idempotencyKey, txn } = params;
+
+    // 步骤 1: 幂等性检查，并发执行的任务只有一个会执行变更
+    if (idempotencyKey) {
+      const existingRecord = await this.idempotencyManager.claim(
+        idempotencyKey,
+        txn,
+        { operation: 'applyScheduledTierChange', params }
+      );
+
+      if (existingRecord) {
+        return existingRecord.result;
+      }
+    }
+
+    const outcome = await this.applyScheduledTierChange(userId, scheduledChangeId, now, txn);
+
+    if (idempotencyKey) {
+      await this.idempotencyManager.save(idempotencyKey, outcome, txn, {
+        operation: 'applyScheduledTierChange',
+        params
+      });
+    }
+
+    return outcome;
+  }
+
+  /**
+   * 按计划变更升级或降级用户
+   * 
+   * @param userId - 用户 ID
+   * @param scheduledChangeId - 查询到的计划变更 ID
+   * @param now - 判断是否到期的时间点
+   * @param txn - 可选的事务上下文
+   * @returns 处理状态；变更等级时附带等级变更结果
+   */
+  private async applyScheduledTierChange(
+    userId: string,
+    scheduledChangeId: string,
+    now: Date,
+    txn?: any
+  ): Promise<{ status: 'upgraded' | 'downgraded' | 'discarded' | 'skipped'; result?: TierChangeResult }> {
+    const { tiers } = this.config.membership;
+
+    // 步骤 1: 重新读取计划变更，查询之后可能已被取消、替换或执行
+    const scheduled = await this.storage.getScheduledTierChange!(userId, txn);
+
+    if (!scheduled || scheduled.id !== scheduledChangeId || scheduled.effectiveAt > now) {
+      this.logger.debug('Scheduled tier change no longer due, skipping', { userId, scheduledChangeId });
+      return { status: 'skipped' };
+    }
+
+    // 步骤 2: 无法执行的计划变更直接删除
+    const user = await this.storage.getUserById(userId, txn);
+
+    if (!user || !(scheduled.targetTier in tiers) || scheduled.targetTier === user.membershipTier) {
+      await this.clearScheduledTierChange(userId, txn);
+
+      this.logger.warn('Discarded scheduled tier change that can no longer be applied', {
+        userId,
+        scheduledChangeId,
+        targetTier: scheduled.targetTier,
+        membershipTier: user?.membershipTier
+      });
+
+      return { status: 'discarded' };
+    }
+
+    // 步骤 3: 升级或降级，会员周期已结束时清除到期时间
+    const periodEnded = user.membershipExpiresAt !== null && user.membershipExpiresAt <= now;
+    const metadata = { ...scheduled.metadata, scheduledChangeId: scheduled.id };
+    const currentLevel = user.membershipTier ? tiers[user.membershipTier] ?? -1 : -1;
+
+    if (tiers[scheduled.targetTier]! > currentLevel) {
+      const result = await this.executeUpgradeTier({
+        userId,
+        targetTier: scheduled.targetTier,
+        membershipExpiresAt: periodEnded ? null : undefined,
+        metadata,
+        txn
+      });
+      return { status: 'upgraded', result };
+    }
+
+    const result = await this.executeDowngradeTier({
+      userId,
+      targetTier: scheduled.targetTier,
+      clearExpiration: periodEnded,
+      metadata,
+      txn
+    });
+    return { status: 'downgraded', result };
+  }
+
+  /**
+   * 执行单个用户的会员到期处理步骤
+   * 
+   * @param params - 降级到回退等级的参数（txn 和 idempotencyKey 为本次尝试使用的值）
+   * @param now - 判断过期的时间点（已扣除宽限期）
+   * @returns 处理状态；降级时附带降级结果
+   */
+  private async executeMembershipExpiry(
+    params: DowngradeTierParams,
+    now: Date
+  ): Promise<{ status: 'downgraded' | 'cleared' | 'skipped'; result?: TierChangeResult }> {
+    const { userId, txn } = params;
+    const { tiers } = this.config.membership;
+
+    // 步骤 1: 重新读取用户，查询之后可能已续费或已被并发执行的任务处理
+    const user = await this.storage.getUserById(userId, txn);
+
+    if (
+      !user?.membershipTier ||
+      user.membershipExpiresAt === null ||
+      user.membershipExpiresAt >= now
+    ) {
+      this.logger.debug('Membership no longer expired, skipping', { userId });
+      return { status: 'skipped' };
+    }
+
+    // 步骤 2: 到期前计划了降级时降级到计划的等级，否则降级到回退等级
+    // 会员周期已经结束，不按剩余时间折算
+    const scheduled = typeof this.storage.getScheduledTierChange === 'function'
+      ? await this.storage.getScheduledTierChange(userId, txn)
+      : null;
+    const downgrade: DowngradeTierParams =
+      scheduled && scheduled.effectiveAt <= now && scheduled.targetTier in tiers
+        ? {
+            ...params,
+            prorate: false,
+            targetTier: scheduled.targetTier,
+            metadata: { ...params.metadata, scheduledChangeId: scheduled.id }
+          }
+        : { ...params, prorate: false };
+
+    // 步骤 3: 等级不高于目标等级时只清除到期时间，积分保持写入时的余额
+    const currentLevel = tiers[user.membershipTier] ?? -1;
+
+    if (currentLevel <= tiers[downgrade.targetTier]!) {
+      await this.updateMembershipCredits(user, user.membershipTier, credits => credits, null, txn);
+      await this.clearScheduledTierChange(userId, txn);
+
+      this.logger.info('Cleared expiration of membership at or below fallback tier', {
+        userId,
+        membershipTier: user.membershipTier
+      });
+
+      return { status: 'cleared' };
+    }
+
+    // 步骤 4: 降级
+    const result = await this.executeDowngradeTier(downgrade, 'tier-expired', 'expireMembership');
+    return { status: 'downgraded', result };
+  }
+
+  /**
+   * 执行续费步骤
+   * 
+   * @param params - 续费参数（txn 和 idempotencyKey 为本次尝试使用的值）
+   * @returns 续费结果
+   */
+  private async executeRenewMembership(params: RenewMembershipParams): Promise<RenewMembershipResult> {
+    const { userId, periodEnd, idempotencyKey, metadata = {}, txn } = params;
+
+    if (!(periodEnd instanceof Date) || Number.isNaN(periodEnd.getTime()) || periodEnd.getTime() <= Date.now()) {
+      throw new ConfigurationError(
+        `Renewal periodEnd must be a future date, got ${String(periodEnd)}`
+      );
+    }
+
+    // 步骤 1: 幂等性检查
+    if (idempotencyKey) {
+      this.logger.debug('Checking idempotency', { idempotencyKey });
+      const existingRecord = await this.idempotencyManager.claim(
+        idempotencyKey,
+        txn,
+        { operation: 'renewMembership', params }
+      );
+
+      if (existingRecord) {
+        this.logger.info('Idempotency key found, returning cached result', {
+          idempotencyKey,
+          userId
+        });
+        return existingRecord.result as RenewMembershipResult;
+      }
+    }
+
+    // 步骤 2: 获取用户信息并验证等级
+    const user = await this.storage.getUserById(userId, txn);
+
+    if (!user) {
+      this.logger.warn('User not found', { userId });
+      throw new UserNotFoundError(userId);
+    }
+
+    const tier = user.membershipTier;
+
+    if (!tier) {
+      throw new InvalidTierChangeError(userId, null, 'none', 'User has no membership tier to renew');
+    }
+
+    const granted = this.config.membership.creditsCaps[tier];
+
+    if (!(tier in this.config.membership.tiers) || granted === undefined) {
+      throw new UndefinedTierError(tier);
+    }
+
+    // 步骤 3: 计算保留和作废的剩余积分，按计算结果条件扣除作废的积分
+    // 未过期的冻结仍占用积分，不参与续费策略，扣除后的余额不低于积分批次与冻结的总额；
+    // 读取之后并发扣费用掉了剩余积分时重新读取并计算
+    const policy: RolloverPolicy = this.config.membership.rolloverPolicies?.[tier] ?? { type: 'reset' };
+    let current = user;
+    let carriedOver: number;
+    let forfeited: number;
+
+    while (true) {
+      const { active, expiredTotal } = await this.getCreditLots(userId, new Date(), txn);
+      const held = await this.getHeldCredits(userId, txn);
+      const lotsTotal = active.reduce((sum, lot) => sum + lot.remaining, 0) + expiredTotal;
+      const permanent = Math.max(0, current.credits - lotsTotal - held);
+      carriedOver = this.getRolloverAmount(policy, permanent, granted);
+      forfeited = permanent - carriedOver;
+
+      this.logger.debug('Rollover calculated', {
+        userId,
+        tier,
+        policy: policy.type,
+        permanent,
+        held,
+        carriedOver,
+        forfeited,
+        granted
+      });
+
+      if (forfeited === 0 || await this.debitUserCredits(userId, forfeited, lotsTotal + held, txn)) {
+        break;
+      }
+
+      const latest = await this.storage.getUserById(userId, txn);
+
+      if (!latest) {
+        throw new UserNotFoundError(userId);
+      }
+
+      current = latest;
+    }
+
+    // 步骤 4: 按增量发放新周期积分，再以写入后的余额更新会员到期时间；试用期内续费转为付费会员
+    const updatedUser = await this.storage.updateUserCredits(userId, granted, txn);
+    const newCredits = updatedUser.credits;
+    const afterReset = newCredits - granted;
+    const oldCredits = afterReset + forfeited;
+
+    await this.storage.updateUserMembership(userId, tier, newCredits, periodEnd, txn);
+    await this.endTrial(user, txn);
+
+    // 步骤 5: 创建交易记录
+    const ledgerMetadata = {
+      tier,
+      policy: policy.type,
+      carriedOver,
+      forfeited,
+      periodEnd: periodEnd.toISOString(),
+      ...metadata
+    };
+    const transactionIds: string[] = [];
+
+    if (forfeited > 0) {
+      const reset = await this.storage.createTransaction(
+        {
+          userId,
+          action: 'membership-reset',
+          amount: -forfeited,
+          balanceBefore: oldCredits,
+          balanceAfter: afterReset,
+          operation: 'renewMembership',
+          metadata: ledgerMetadata
+        },
+        txn
+      );
+      transactionIds.push(reset.id);
+    }
+
+    const rollover = await this.storage.createTransaction(
+      {
+        userId,
+        action: 'membership-rollover',
+        amount: granted,
+        balanceBefore: afterReset,
+        balanceAfter: newCredits,
+        operation: 'renewMembership',
+        metadata: ledgerMetadata
+      },
+      txn
+    );
+    transactionIds.push(rollover.id);
+
+    // 步骤 6: 创建审计日志
+    if (this.config.audit.enabled) {
+      await this.auditTrail.log(
+        {
+          userId,
+          action: 'renewMembership',
+          status: 'success',
+          metadata: {
+            ...ledgerMetadata,
+            oldCredits,
+            newCredits,
+            previousExpiresAt: user.membershipExpiresAt?.toISOString() ?? null,
+            transactionIds
+          }
+        },
+        txn
+      );
+    }
+
+    const result: RenewMembershipResult = {
+      success: true,
+      tier,
+      policy: policy.type,
+      oldCredits,
+      carriedOver,
+      forfeited,
+      granted,
+      newCredits,
+      transactionIds
+    };
+
+    // 步骤 7: 保存幂等记录
+    if (idempotencyKey) {
+      await this.idempotencyManager.save(idempotencyKey, result, txn, {
+        operation: 'renewMembership',
+        params
+      });
+    }
+
+    this.logger.info('RenewMembership operation completed successfully', {
+      userId,
+      tier,
+      carriedOver,
+      forfeited,
+      newCredits
+    });
+
+    return result;
+  }
+
+  /**
+   * 按续费策略计算保留到新周期的积分
+   * 
+   * @param policy - 续费策略
+   * @param remaining - 可参与续费计算的剩余积分（非负）
+   * @param cap - 等级积分上限
+   * @returns 保留的积分，不超过 remaining
+   */
+  private getRolloverAmount(policy: RolloverPolicy, remaining: number, cap: number): number {
+    switch (policy.type) {
+      case 'accumulate':
+        return remaining;
+      case 'carryover':
+        return Math.min(
+          remaining,
+          policy.maxCredits ?? Infinity,
+          policy.maxPercent !== undefined ? Math.floor(cap * policy.maxPercent / 100) : Infinity
+        );
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * 计算周期中途变更等级的按比例折算
+   * 
+   * 只在配置了 membership.proration、用户有已配置的等级且会员周期未到期时折算；
+   * 其他情况返回 null，由调用方按原逻辑设置为目标等级的积分上限。
+   * 
+   * @param user - 用户对象
+   * @param targetTier - 目标等级
+   * @param prorate - 调用方是否要求折算（undefined 表示按配置）
+   * @returns 折算过程；不折算时返回 null
+   * @throws {ConfigurationError} 当 prorate 为 true 但未配置 membership.proration 时
+   */
+  private getProration(
+    user: User,
+    targetTier: string,
+    prorate?: boolean
+  ): ProrationDetails | null {
+    const config = this.config.membership.proration;
+    const now = new Date();
+
+    if (prorate === true && !config) {
+      throw new ConfigurationError('Proration requires membership.proration to be configured');
+    }
+
+    if (!config || prorate === false) {
+      return null;
+    }
+
+    const { creditsCaps } = this.config.membership;
+    const oldCap = user.membershipTier ? creditsCaps[user.membershipTier] : undefined;
+    const newCap = creditsCaps[targetTier];
+    const periodEnd = user.membershipExpiresAt;
+
+    if (oldCap === undefined || newCap === undefined || !periodEnd || periodEnd <= now) {
+      return null;
+    }
+
+    const periodMs = config.periodDays * 24 * 60 * 60 * 1000;
+    const fraction = Math.min(1, (periodEnd.getTime() - now.getTime()) / periodMs);
+    const rawDelta = (newCap - oldCap) * fraction;
+    const rounding = config.rounding ?? 'round';
+
+    return {
+      periodEnd: periodEnd.toISOString(),
+      periodDays: config.periodDays,
+      fraction,
+      oldCap,
+      newCap,
+      rawDelta,
+      rounding,
+      proratedDelta: Math[rounding](rawDelta)
+    };
+  }
+
+  /**
+   * 将折算积分应用到余额
+   * 
+   * 折算为负数时余额最多扣至 0；已经为负的余额保持不变。
+   * 
+   * @param credits - 当前余额
+   * @param proration - 折算过程
+   * @returns 折算后的余额
+   */
+  private applyProration(credits: number, proration: ProrationDetails): number {
+    return Math.max(credits + proration.proratedDelta, Math.min(credits, 0));
+  }
+
+  /**
+   * 按增量调整用户积分，并更新会员等级
+   * 
+   * 不把读取时计算的余额直接写回，而是：
+   * 1. 根据当前余额计算目标余额，以两者之差作为增量
+   * 2. 增量为正时原子增加；为负时条件扣减，扣减后不低于 0 (目标余额为负时不低于目标余额)
+   * 3. 条件扣减失败说明读取之后余额被并发修改，重新读取余额后从步骤 1 重试
+   * 4. 以实际写入后的余额更新会员等级和到期时间
+   * 
+   * 读取之后并发提交的扣费和发放不会被覆盖；在事务中执行时，步骤 2 的写入已锁定用户行。
+   * 
+   * @param user - 变更前读取的用户
+   * @param tier - 新的会员等级
+   * @param computeCredits - 根据当前余额计算目标余额
+   * @param membershipExpiresAt - 会员到期时间 (undefined 表示不修改)
+   * @param txn - 可选的事务上下文
+   * @returns 写入前后的余额
+   * @throws {UserNotFoundError} 当重新读取时用户已不存在时
+   */
+  private async updateMembershipCredits(
+    user: User,
+    tier: string,
+    computeCredits: (credits: number) => number,
+    membershipExpiresAt: Date | null | undefined,
+    txn?: any
+  ): Promise<{ balanceBefore: number; balanceAfter: number }> {
+    let credits = user.credits;
+
+    while (true) {
+      const target = computeCredits(credits);
+      const delta = target - credits;
+      const updatedUser = delta < 0
+        ? await this.debitUserCredits(user.id, -delta, Math.min(target, 0), txn)
+        : await this.storage.updateUserCredits(user.id, delta, txn);
+
+      if (updatedUser) {
+        await this.storage.updateUserMembership(
+          user.id,
+          tier,
+          updatedUser.credits,
+          membershipExpiresAt,
+          txn
+        );
+
+        return { balanceBefore: updatedUser.credits - delta, balanceAfter: updatedUser.credits };
+      }
+
+      const latest = await this.storage.getUserById(user.id, txn);
+
+      if (!latest) {
+        throw new UserNotFoundError(user.id);
+      }
+
+      credits = latest.credits;
+    }
+  }
+
+  /**
+   * 删除用户计划中的等级变更
+   * 
+   * 存储适配器未实现计划等级变更特性时不做处理。
+   * 
+   * @param userId - 用户 ID
+   * @param txn - 可选的事务上下文
+   */
+  private async clearScheduledTierChange(userId: string, txn?: any): Promise<void> {
+    if (typeof this.storage.deleteScheduledTierChange === 'function') {
+      await this.storage.deleteScheduledTierChange(userId, txn);
+    }
+  }
+
+  /**
+   * 结束用户的试用
+   * 
+   * 清除试用结束时间，并删除试用结束时恢复原等级的计划变更。
+   * 用户不在试用中或存储适配器未实现试用特性时不做处理。
+   * 
+   * @param user - 变更前读取的用户
+   * @param txn - 可选的事务上下文
+   */
+  private async endTrial(user: User, txn?: any): Promise<void> {
+    if (!user.trialEndsAt || typeof this.storage.setMembershipTrial !== 'function') {
+      return;
+    }
+
+    const scheduled = typeof this.storage.getScheduledTierChange === 'function'
+      ? await this.storage.getScheduledTierChange(user.id, txn)
+      : null;
+
+    if (scheduled?.metadata.trial === true) {
+      await this.clearScheduledTierChange(user.id, txn);
+    }
+
+    await this.storage.setMembershipTrial(user.id, null, txn);
+  }
+
+  /**
+   * 在给定事务中执行转账步骤
+   * 
+   * @param params - 转账参数
+   * @param txn - 事务上下文
+   * @returns 转账结果
+   */
+  private async executeTransfer(params: TransferParams, txn: any): Promise<TransferResult> {
+    const {
+      fromUserId,
+      toUserId,
+      amount,
+      wallet = DEFAULT_WALLET,
+      idempotencyKey,
+      metadata = {}
+    } = params;
+    const isDefaultWallet = wallet === DEFAULT_WALLET;
+
+    // 步骤 1: 幂等性检查
+    if (idempotencyKey) {
+      const existingRecord = await this.idempotencyManager.claim(
+        idempotencyKey,
+        txn,
+        { operation: 'transfer', params }
+      );
+
+      if (existingRecord) {
+        this.logger.info('Idempotency key found, returning cached result', {
+          idempotencyKey,
+          fromUserId
+        });
+        return existingRecord.result as TransferResult;
+      }
+    }
+
+    // 步骤 2: 获取双方用户信息
+    const fromUser = await this.storage.getUserById(fromUserId, txn);
+    if (!fromUser) {
+      throw new UserNotFoundError(fromUserId);
+    }
+
+    const toUser = await this.storage.getUserById(toUserId, txn);
+    if (!toUser) {
+      throw new UserNotFoundError(toUserId);
+    }
+
+    // 步骤 3: 检查转出方可用余额（规则与 charge 相同）
+    const { lots, unavailable, available } = await this.getSpendableBalance(fromUser, wallet, txn);
+
+    if (available < amount) {
+      this.logger.warn('Insufficient credits for transfer', {
+        fromUserId,
+        required: amount,
+        available
+      });
+
+      throw new InsufficientCreditsError(fromUserId, amount, available);
+    }
+
+    // 步骤 4: 原子条件扣减转出方，增加转入方
+    const fromBalanceAfter = await this.debitWallet(fromUserId, wallet, amount, unavailable, txn);
+
+    if (fromBalanceAfter === null) {
+      const latestAvailable = (await this.getWalletBalance(fromUserId, wallet, txn)) - unavailable;
+      throw new InsufficientCreditsError(fromUserId, amount, latestAvailable);
+    }
+
+    const consumedLots = await this.consumeCreditLots(lots.active, amount, txn);
+    const to = await this.creditWallet(toUser, wallet, amount, txn);
+
+    // 步骤 5: 创建两条共享 transferId 的交易记录
+    const transferId = `transfer-${randomBytes(12).toString('hex')}`;
+
+    const fromTransaction = await this.storage.createTransaction(
+      {
+        userId: fromUserId,
+        action: 'transfer-out',
+        amount: -amount,
+        balanceBefore: fromBalanceAfter + amount,
+        balanceAfter: fromBalanceAfter,
+        ...(!isDefaultWallet && { wallet }),
+        operation: 'transfer',
+        metadata: {
+          ...metadata,
+          transferId,
+          toUserId,
+          ...(consumedLots.length > 0 && { creditLots: consumedLots })
+        }
+      },
+      txn
+    );
+
+    const toTransaction = await this.storage.createTransaction(
+      {
+        userId: toUserId,
+        action: 'transfer-in',
+        amount,
+        balanceBefore: to.balanceBefore,
+        balanceAfter: to.balanceAfter,
+        ...(!isDefaultWallet && { wallet }),
+        operation: 'transfer',
+        metadata: {
+          ...metadata,
+          transferId,
+          fromUserId
+        }
+      },
+      txn
+    );
+
+    // 步骤 6: 创建审计日志
+    if (this.config.audit.enabled) {
+      await this.auditTrail.log(
+        {
+          userId: fromUserId,
+          action: 'transfer',
+          status: 'success',
+          metadata: {
+            transferId,
+            toUserId,
+            amount,
+            ...(!isDefaultWallet && { wallet }),
+            fromTransactionId: fromTransaction.id,
+            toTransactionId: toTransaction.id,
+            ...metadata
+          }
+        },
+        txn
+      );
+    }
+
+    const result: TransferResult = {
+      success: true,
+      transferId,
+      fromTransactionId: fromTransaction.id,
+      toTransactionId: toTransaction.id,
+      amount,
+      fromBalanceAfter,
+      toBalanceAfter: to.balanceAfter
+    };
+
+    // 步骤 7: 保存幂等记录
+    if (idempotencyKey) {
+      await this.idempotencyManager.save(idempotencyKey, result, txn, {
+        operation: 'transfer',
+        params
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 确定扣费使用的钱包
+   * 
+   * @param action - 操作名称
+   * @param wallet - 调用方指定的钱包 (可选)
+   * @returns 指定的钱包，否则为成本配置中的 wallet，都未设置时为默认钱包
+   */
+  private resolveWallet(action: string, wallet?: string): string {
+    return wallet ?? this.config.costs[action]?.wallet ?? DEFAULT_WALLET;
+  }
+
+  /**
+   * 计算钱包的可用余额
+   * 
+   * 冻结中的积分和已过期未清除的积分不可用；冻结和积分批次只作用于默认钱包。
+   * 
+   * @param user - 用户对象
+   * @param wallet - 钱包名称
+   * @param txn - 可选的事务上下文
+   * @returns 钱包余额、不可用额度及其组成、可用余额
+   */
+  private async getSpendableBalance(
+    user: User,
+    wallet: string,
+    txn?: any
+  ): Promise<{
+    balance: number;
+    heldCredits: number;
+    lots: { active: CreditLot[]; expiredTotal: number };
+    unavailable: number;
+    available: number;
+  }> {
+    if (wallet !== DEFAULT_WALLET) {
+      const balance = await this.getWalletBalance(user.id, wallet, txn);
+      return {
+        balance,
+        heldCredits: 0,
+        lots: { active: [], expiredTotal: 0 },
+        unavailable: 0,
+        available: balance
+      };
+    }
+
+    const heldCredits = await this.getHeldCredits(user.id, txn);
+    const lots = await this.getCreditLots(user.id, new Date(), txn);
+    const unavailable = heldCredits + lots.expiredTotal;
+
+    return {
+      balance: user.credits,
+      heldCredits,
+      lots,
+      unavailable,
+      available: user.credits - unavailable
+    };
+  }
+
+  /**
+   * 计算扣费可用的余额
+   * 
+   * 组织成员的默认钱包扣费使用组织积分池；其他情况使用用户钱包，默认钱包还可以使用会员等级的透支额度。
+   * 返回的 available 已包含透支额度，扣减时的最低余额为 unavailable - overdraftLimit。
+   * 
+   * @param user - 用户对象
+   * @param wallet - 钱包名称
+   * @param organizationId - 扣费的组织积分池，不从积分池扣费时为 null
+   * @param txn - 可选的事务上下文
+   * @returns 余额、不可用额度及其组成、透支额度、可用余额
+   */
+  private async getChargeableBalance(
+    user: User,
+    wallet: string,
+    organizationId: string | null,
+    txn?: any
+  ): Promise<{
+    balance: number;
+    heldCredits: number;
+    lots: { active: CreditLot[]; expiredTotal: number };
+    unavailable: number;
+    overdraftLimit: number;
+    available: number;
+  }> {
+    if (organizationId) {
+      return { ...(await this.getPoolBalance(organizationId, txn)), overdraftLimit: 0 };
+    }
+
+    const spendable = await this.getSpendableBalance(user, wallet, txn);
+    const overdraftLimit = wallet === DEFAULT_WALLET ? this.getOverdraftLimit(user) : 0;
+
+    return {
+      ...spendable,
+      overdraftLimit,
+      available: spendable.available + overdraftLimit
+    };
+  }
+
+  /**
+   * 获取用户当前生效的透支额度
+   * 
+   * @param user - 用户对象
+   * @returns 会员等级配置的透支额度；无会员、会员已过期（宽限期外）或等级未配置时为 0
+   */
+  private getOverdraftLimit(user: User): number {
+    const limits = this.config.membership.overdraftLimits;
+    const { effectiveTier } = this.membershipValidator.getState(user);
+
+    if (!limits || !effectiveTier) {
+      return 0;
+    }
+
+    return limits[effectiveTier] ?? 0;
+  }
+
+  /**
+   * 计算一次扣费使用的透支额度
+   * 
+   * @param cost - 扣费金额
+   * @param balanceAfter - 扣费后余额
+   * @param unavailable - 不可用额度
+   * @param overdraftLimit - 透支额度
+   * @returns 本次扣费中超出可用余额的金额和透支额度；未透支时返回 null
+   */
+  private getOverdraftUsage(
+    cost: number,
+    balanceAfter: number,
+    unavailable: number,
+    overdraftLimit: number
+  ): { amount: number; limit: number } | null {
+    const amount = Math.min(cost, unavailable - balanceAfter);
+    return amount > 0 ? { amount, limit: overdraftLimit } : null;
+  }
+
+  /**
+   * 读取钱包余额
+   * 
+   * @param userId - 用户 ID
+   * @param wallet - 钱包名称
+   * @param txn - 可选的事务上下文
+   * @returns 钱包余额
+   * @throws {ConfigurationError} 当使用附加钱包但存储适配器未实现钱包方法时
+   */
+  private async getWalletBalance(userId: string, wallet: string, txn?: any): Promise<number> {
+    if (wallet === DEFAULT_WALLET) {
+      const user = await this.storage.getUserById(userId, txn);
+      return user?.credits ?? 0;
+    }
+
+    this.requireStorage('getWalletBalance', 'wallets');
+    return await this.storage.getWalletBalance!(userId, wallet, txn);
+  }
+
+  /**
+   * 条件扣减钱包余额
+   * 
+   * @param userId - 用户 ID
+   * @param wallet - 钱包名称
+   * @param amount - 扣减金额
+   * @param minBalance - 扣减后允许的最低余额
+   * @param txn - 可选的事务上下文
+   * @returns 扣减后的余额；余额不足时返回 null
+   * @throws {ConfigurationError} 当使用附加钱包但存储适配器未实现钱包方法时
+   */
+  private async debitWallet(
+    userId: string,
+    wallet: string,
+    amount: number,
+    minBalance: number,
+    txn?: any
+  ): Promise<number | null> {
+    if (wallet === DEFAULT_WALLET) {
+      const updatedUser = await this.debitUserCredits(userId, amount, minBalance, txn);
+      return updatedUser ? updatedUser.credits : null;
+    }
+
+    this.requireStorage('debitWalletBalance', 'wallets');
+    return await this.storage.debitWalletBalance!(userId, wallet, amount, minBalance, txn);
+  }
+
+  /**
+   * 条件扣减用户积分
+   * 
+   * 扣减必须由存储适配器的 debitUserCredits 在一条语句中完成余额检查和更新。
+   * 先扣减再加回的做法会让并发读取看到低于 minBalance 的余额，两次写入之间中断时余额会一直低于 minBalance。
+   * 
+   * @param userId - 用户 ID
+   * @param amount - 扣减金额
+   * @param minBalance - 扣减后允许的最低余额
+   * @param txn - 可选的事务上下文
+   * @returns 扣减后的用户对象；余额不足时返回 null
+   * @throws {ConfigurationError} 当存储适配器未实现 debitUserCredits 时
+   */
+  private async debitUserCredits(
+    userId: string,
+    amount: number,
+    minBalance: number,
+    txn?: any
+  ): Promise<User | null> {
+    this.requireStorage('debitUserCredits', 'debits');
+    return await this.storage.debitUserCredits!(userId, amount, minBalance, txn);
+  }
+
+  /**
+   * 增加钱包余额
+   * 
+   * @param user - 用户对象
+   * @param wallet - 钱包名称
+   * @param amount - 增加的金额
+   * @param txn - 可选的事务上下文
+   * @returns 操作前后的余额 (根据实际写入后的余额计算，不使用读取的快照)
+   * @throws {ConfigurationError} 当使用附加钱包但存储适配器未实现钱包方法时
+   */
+  private async creditWallet(
+    user: User,
+    wallet: string,
+    amount: number,
+    txn?: any
+  ): Promise<{ balanceBefore: number; balanceAfter: number }> {
+    if (wallet === DEFAULT_WALLET) {
+      const updatedUser = await this.storage.updateUserCredits(user.id, amount, txn);
+      return { balanceBefore: updatedUser.credits - amount, balanceAfter: updatedUser.credits };
+    }
+
+    this.requireStorage('updateWalletBalance', 'wallets');
+    const balanceAfter = await this.storage.updateWalletBalance!(user.id, wallet, amount, txn);
+    return { balanceBefore: balanceAfter - amount, balanceAfter };
+  }
+
+  /**
+   * 查找可退款的原扣费交易
+   * 
+   * @param params - 按原交易退款的参数
+   * @param txn - 可选的事务上下文
+   * @returns 原扣费交易
+   * @throws {TransactionNotFoundError} 当原交易不存在时
+   * @throws {ConfigurationError} 当原交易不是扣费、用户不一致，
+   *   或存储适配器未实现所需方法时
+   */
+  private async getRefundableCharge(
+    params: TransactionRefundParams,
+    txn?: any
+  ): Promise<Transaction> {
+    const { transactionId } = params;
+
+    this.requireStorage('getTransactionById', 'refunds by transaction');
+    this.requireStorage('addTransactionRefund', 'refunds by transaction');
+
+    const original = await this.storage.getTransactionById!(transactionId, txn);
+
+    if (!original) {
+      this.logger.warn('Transaction not found', { transactionId });
+      throw new TransactionNotFoundError(transactionId);
+    }
+
+    const isCharge = original.operation !== undefined
+      ? REFUNDABLE_OPERATIONS.has(original.operation)
+      : !NON_CHARGE_ACTIONS.has(original.action);
+
+    if (original.amount >= 0 || !isCharge) {
+      throw new ConfigurationError(`Transaction ${transactionId} is not a charge and cannot be refunded`);
+    }
+
+    if (params.userId !== undefined && params.userId !== original.userId) {
+      throw new ConfigurationError(
+        `Transaction ${transactionId} does not belong to user ${params.userId}`
+      );
+    }
+
+    return original;
+  }
+
+  /**
+   * 登记对原扣费交易的本次退款
+   * 
+   * 先根据原交易计算默认退款金额，再通过条件更新原子增加累计退款金额，
+   * 并发退款不会让累计退款超过原扣费金额。
+   * 
+   * @param original - 原扣费交易
+   * @param params - 按原交易退款的参数
+   * @param txn - 可选的事务上下文
+   * @returns 退款对象（用户、钱包和组织积分池取自原交易）
+   * @throws {RefundExceedsChargeError} 当累计退款会超过原扣费金额时
+   * @throws {ConfigurationError} 当退款金额不是正数时
+   */
+  private async claimTransactionRefund(
+    original: Transaction,
+    params: TransactionRefundParams,
+    txn?: any
+  ): Promise<RefundTarget> {
+    const transactionId = original.id;
+    const charged = -original.amount;
+    const alreadyRefunded = original.refundedAmount ?? 0;
+    const remaining = charged - alreadyRefunded;
+
+    if (params.amount !== undefined && params.amount <= 0) {
+      throw new ConfigurationError(`Refund amount must be positive, got ${params.amount}`);
+    }
+
+    // 未指定金额时退回剩余的全部可退金额
+    if (params.amount === undefined && remaining <= 0) {
+      throw new RefundExceedsChargeError(transactionId, charged, charged, alreadyRefunded);
+    }
+
+    const amount = params.amount ?? remaining;
+
+    const totalRefunded = await this.storage.addTransactionRefund!(
+      transactionId,
+      amount,
+      charged,
+      txn
+    );
+
+    if (totalRefunded === null) {
+      const latest = await this.storage.getTransactionById!(transactionId, txn);
+      const refunded = latest?.refundedAmount ?? alreadyRefunded;
+
+      this.logger.warn('Refund exceeds charge', {
+        transactionId,
+        requested: amount,
+        charged,
+        refunded
+      });
+
+      throw new RefundExceedsChargeError(transactionId, amount, charged, refunded);
+    }
+
+    return {
+      userId: original.userId,
+      amount,
+      action: params.action ?? original.action,
+      wallet: original.wallet ?? DEFAULT_WALLET,
+      organizationId: original.metadata.organizationId ?? null,
+      original: {
+        transactionId,
+        totalRefunded,
+        remainingRefundable: charged - totalRefunded
+      }
+    };
+  }
+
+  /**
+   * 计算组织积分池的可用余额
+   * 
+   * 返回结构与 getSpendableBalance 相同；积分池没有冻结和积分批次，全部余额可用。
+   * 
+   * @param organizationId - 组织 ID
+   * @param txn - 可选的事务上下文
+   * @returns 积分池余额与可用余额
+   * @throws {OrganizationNotFoundError} 当组织不存在时
+   * @throws {ConfigurationError} 当存储适配器未实现组织方法时
+   */
+  private async getPoolBalance(
+    organizationId: string,
+    txn?: any
+  ): Promise<{
+    balance: number;
+    heldCredits: number;
+    lots: { active: CreditLot[]; expiredTotal: number };
+    unavailable: number;
+    available: number;
+  }> {
+    this.requireStorage('getOrganizationById', 'organization credit pools');
+    const organization = await this.storage.getOrganizationById!(organizationId, txn);
+
+    if (!organization) {
+      this.logger.warn('Organization not found', { organizationId });
+      throw new OrganizationNotFoundError(organizationId);
+    }
+
+    return {
+      balance: organization.credits,
+      heldCredits: 0,
+      lots: { active: [], expiredTotal: 0 },
+      unavailable: 0,
+      available: organization.credits
+    };
+  }
+
+  /**
+   * 条件扣减组织积分池
+   * 
+   * @param organizationId - 组织 ID
+   * @param amount - 扣减金额
+   * @param txn - 可选的事务上下文
+   * @returns 扣减后的积分池余额；余额不足时返回 null
+   * @throws {ConfigurationError} 当存储适配器未实现组织方法时
+   */
+  private async debitPool(organizationId: string, amount: number, txn?: any): Promise<number | null> {
+    this.requireStorage('debitOrganizationCredits', 'organization credit pools');
+    const organization = await this.storage.debitOrganizationCredits!(organizationId, amount, 0, txn);
+    return organization ? organization.credits : null;
+  }
+
+  /**
+   * 增加组织积分池余额
+   * 
+   * @param organizationId - 组织 ID
+   * @param amount - 增加的金额
+   * @param txn - 可选的事务上下文
+   * @returns 操作前后的积分池余额
+   * @throws {ConfigurationError} 当存储适配器未实现组织方法时
+   */
+  private async creditPool(
+    organizationId: string,
+    amount: number,
+    txn?: any
+  ): Promise<{ balanceBefore: number; balanceAfter: number }> {
+    this.requireStorage('updateOrganizationCredits', 'organization credit pools');
+    const organization = await this.storage.updateOrganizationCredits!(organizationId, amount, txn);
+    return { balanceBefore: organization.credits - amount, balanceAfter: organization.credits };
+  }
+
+  /**
+   * 校验组织成员的消费限额
+   * 
+   * 对成员的每个限额，统计当前周期内已从积分池消费的积分，
+   * 加上本次扣费后不得超过限额。存储适配器未实现限额方法时视为没有限额。
+   * 
+   * 注意：统计与扣减不是同一个原子操作，并发扣费可能让成员略微超出限额；
+   * 需要严格限额时应在事务中调用 charge。
+   * 
+   * @param organizationId - 组织 ID
+   * @param userId - 成员的用户 ID
+   * @param amount - 本次扣费金额
+   * @param txn - 可选的事务上下文
+   * @throws {SpendingLimitExceededError} 当本次扣费会超出任一限额时
+   * @throws {ConfigurationError} 当设置了限额但存储适配器未实现 getMemberSpending 时
+   */
+  private async assertSpendingLimits(
+    organizationId: string,
+    userId: string,
+    amount: number,
+    txn?: any
+  ): Promise<void> {
+    if (typeof this.storage.getMemberSpendingLimits !== 'function') {
+      return;
+    }
+
+    const limits = await this.storage.getMemberSpendingLimits(organizationId, userId, txn);
+    if (limits.length === 0) {
+      return;
+    }
+
+    this.requireStorage('getMemberSpending', 'member spending limits');
+    const now = new Date();
+
+    for (const { period, limit } of limits) {
+      const since = this.getSpendingPeriodStart(period, now);
+      const spent = await this.storage.getMemberSpending!(organizationId, userId, since, txn);
+
+      if (spent + amount > limit) {
+        this.logger.warn('Member spending limit exceeded', {
+          userId,
+          organizationId,
+          period,
+          limit,
+          spent,
+          requested: amount
+        });
+
+        throw new SpendingLimitExceededError(userId, organizationId, period, limit, spent, amount);
+      }
+    }
+  }
+
+  /**
+   * 校验用户的用量配额
+   * 
+   * 按用户的有效会员等级选择配额规则，对每条规则统计当前窗口内该操作的扣费交易数（包括成本为 0 的扣费，不包括退款），
+   * 加上本次请求的次数后不得超过限额。操作没有配置配额时直接通过。
+   * 
+   * 注意：与消费限额相同，统计与写入交易记录不是同一个原子操作，
+   * 并发请求可能让用户略微超出配额。
+   * 
+   * @param user - 用户
+   * @param action - 操作名称
+   * @param requested - 本次请求的次数（批量扣费时包含批次中已通过校验的条目）
+   * @param txn - 可选的事务上下文
+   * @throws {QuotaExceededError} 当本次请求会超出任一配额时
+   * @throws {ConfigurationError} 当配置了配额但存储适配器未实现 countActionUsage 时
+   */
+  private async assertQuota(user: User, action: string, requested: number, txn?: any): Promise<void> {
+    const { effectiveTier } = this.membershipValidator.getState(user);
+    const rules = this.quotaManager.getRules(action, effectiveTier);
+    if (rules.length === 0) {
+      return;
+    }
+
+    this.requireStorage('countActionUsage', 'usage quotas');
+    const now = new Date();
+
+    for (const { limit, window } of rules) {
+      const range = this.quotaManager.getWindow(window, now);
+      const used = await this.storage.countActionUsage!(user.id, action, range.start, txn);
+
+      if (used + requested > limit) {
+        const retryAfter = this.quotaManager.getRetryAfter(range, now);
+
+        this.logger.warn('Usage quota exceeded', {
+          userId: user.id,
+          action,
+          window,
+          limit,
+          used,
+          retryAfter
+        });
+
+        throw new QuotaExceededError(user.id, action, window, limit, used, retryAfter, range.end);
+      }
+    }
+  }
+
+  /**
+   * 计算消费限额统计周期的起始时间 (UTC)
+   * 
+   * @param period - 统计周期
+   * @param now - 当前时间
+   * @returns 当天 0 点或当月 1 日 0 点 (UTC)
+   */
+  private getSpendingPeriodStart(period: SpendingLimitPeriod, now: Date): Date {
+    return period === 'daily'
+      ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+
+  /**
+   * 获取处于 pending 状态且未过期的冻结记录
+   * 
+   * @param holdId - 冻结记录 ID
+   * @param txn - 可选的事务上下文
+   * @returns 冻结记录
+   * @throws {HoldNotFoundError} 当冻结不存在时
+   * @throws {InvalidHoldOperationError} 当冻结已完结或已过期时
+   */
+  private async getPendingHold(holdId: string, txn?: any): Promise<CreditHold> {
+    const hold = await this.storage.getCreditHold!(holdId, txn);
+
+    if (!hold) {
+      this.logger.warn('Credit hold not found', { holdId });
+      throw new HoldNotFoundError(holdId);
+    }
+
+    if (hold.status !== 'pending') {
+      throw new InvalidHoldOperationError(holdId, hold.status, 'Hold is not pending');
+    }
+
+    if (hold.expiresAt <= new Date()) {
+      throw new InvalidHoldOperationError(holdId, hold.status, 'Hold has expired');
+    }
+
+    return hold;
+  }
+
+  /**
+   * 执行写操作，在启用重试时自动重试瞬态故障
+   * 
+   * 提供了 txn 时只执行一次，由调用方决定是否重试外部事务。
+   * 否则每次尝试在新的存储事务中执行整个操作，操作中途失败时事务回滚，重试不会重复写入。
+   * 操作执行完、提交时才失败的，写入可能已经提交：
+   * 调用方提供了幂等键时，幂等记录与写入在同一事务中提交，重试会命中记录并返回第一次的结果；
+   * 没有幂等键或未启用幂等性时无法判断是否已提交，不再重试，直接抛出错误。
+   * 
+   * 存储适配器未实现 runInTransaction 时无法回滚失败的尝试，只执行一次（构造时记录警告），
+   * 失败时释放调用方幂等键的占用。
+   * 只执行一次时仍然经过熔断器。
+   * 
+   * @param operationName - 操作类型，与幂等性检查使用的相同
+   * @param params - 操作参数
+   * @param operation - 每次尝试执行的操作，参数中的 txn 为本次尝试使用的事务
+   *   （只执行一次时为调用方的 txn，可能为空）
+   * @param replayable - 重试是否会命中已提交的幂等记录，默认取决于是否提供了幂等键
+   * @returns 操作结果
+   */
+  private async runWithRetry<P extends { idempotencyKey?: string; txn?: any }, T>(
+    operationName: string,
+    params: P,
+    operation: (params: P) => Promise<T>,
+    replayable: boolean = !!params.idempotencyKey
+  ): Promise<T> {
+    if (
+      params.txn ||
+      !this.config.retry.enabled ||
+      typeof this.storage.runInTransaction !== 'function'
+    ) {
+      try {
+        return await this.retryHandler.executeOnce(() => operation(params), RETRY_OPTIONS);
+      } catch (error) {
+        await this.releaseIdempotencyKey(operationName, params, error);
+        throw error;
+      }
+    }
+
+    const canRetryCommit = replayable && this.idempotencyManager.isEnabled();
+    let executed = false;
+
+    return await this.retryHandler.execute(
+      () => {
+        executed = false;
+        return this.storage.runInTransaction!(async txn => {
+          const result = await operation({ ...params, txn });
+          executed = true;
+          return result;
+        });
+      },
+      { shouldRetry: error => RETRY_OPTIONS.shouldRetry!(error) && (!executed || canRetryCommit) }
+    );
+  }
+
+  /**
+   * 释放失败请求对幂等键的占用，使相同的请求可以立即重试
+   * 
+   * 只处理未在事务中执行的请求：事务中的占用会随事务一起回滚，
+   * 外部事务由调用方决定提交或回滚。幂等键被其他请求占用或冲突时，
+   * 本次调用没有占用幂等键，不做处理。释放失败时只记录警告，
+   * 占用会在 lockTimeout 后自动失效。
+   * 
+   * @param operationName - 操作类型，与幂等性检查使用的相同
+   * @param params - 操作参数
+   * @param error - 请求失败的错误
+   */
+  private async releaseIdempotencyKey(
+    operationName: string,
+    params: { idempotencyKey?: string; txn?: any },
+    error: unknown
+  ): Promise<void> {
+    if (
+      !params.idempotencyKey ||
+      params.txn ||
+      error instanceof IdempotencyRequestInProgressError ||
+      error instanceof IdempotencyKeyConflictError
+    ) {
+      return;
+    }
+
+    try {
+      await this.idempotencyManager.release(params.idempotencyKey, undefined, {
+        operation: operationName,
+        params
+      });
+    } catch (releaseError) {
+      this.logger.warn('Failed to release idempotency key', {
+        idempotencyKey: params.idempotencyKey,
+        operation: operationName,
+        error: releaseError instanceof Error ? releaseError.message : String(releaseError)
+      });
+    }
+  }
+
+  /**
+   * 调用存储适配器的过期数据删除方法，直到没有更多可删除的数据
+   * 
+   * @param method - 存储适配器删除方法名
+   * @param before - 删除在此时间之前过期的数据
+   * @param batchSize - 每批删除的数量
+   * @returns 删除的总数；存储适配器未实现该方法时返回 0
+   */
+  private async purgeInBatches(
+    method: 'deleteExpiredIdempotencyRecords' | 'deleteExpiredCreditHolds' | 'deleteExpiredCreditLots',
+    before: Date,
+    batchSize: number
+  ): Promise<number> {
+    if (typeof this.storage[method] !== 'function') {
+      this.logger.debug('Storage adapter does not support purging, skipping', { method });
+      return 0;
+    }
+
+    let total = 0;
+
+    while (true) {
+      const deleted = await this.retryHandler.execute(
+        () => this.storage[method]!(before, batchSize),
+        RETRY_OPTIONS
+      );
+      total += deleted;
+
+      this.logger.debug('Purged expired batch', { method, deleted });
+
+      if (deleted < batchSize) {
+        return total;
+      }
+    }
+  }
+
+  /**
+   * 执行只读的存储操作，在启用重试时自动重试瞬态故障
+   * 
+   * 提供了 txn 时只执行一次：外部事务中的失败通常需要重试整个事务。
+   * 
+   * @param txn - 可选的事务上下文
+   * @param operation - 存储操作
+   * @returns 操作结果
+   */
+  private async retryRead<T>(txn: any, operation: () => Promise<T>): Promise<T> {
+    if (txn) {
+      return await this.retryHandler.executeOnce(operation, RETRY_OPTIONS);
+    }
+
+    return await this.retryHandler.execute(operation, RETRY_OPTIONS);
+  }
+
+  /**
+   * 确认存储适配器实现了某个可选方法
+   * 
+   * @param method - 存储适配器方法名
+   * @param feature - 依赖该方法的特性名称（用于错误消息）
+   * @throws {ConfigurationError} 当存储适配器未实现该方法时
+   */
+  private requireStorage(method: keyof IStorageAdapter, feature: string): void {
+    if (typeof this.storage[method] !== 'function') {
+      throw new ConfigurationError(
+        `Storage adapter does not implement '${String(method)}', which is required for ${feature}`
+      );
+    }
+  }
+
+  /**
+   * 记录失败操作的审计日志
+   * 
+   * 审计日志写入失败时只记录警告，不影响原始错误的抛出。
+   * 
+   * @param userId - 用户 ID
+   * @param action - 审计操作类型
+   * @param metadata - 审计元数据
+   * @param error - 原始错误
+   * @param txn - 可选的事务上下文
+   */
+  private async logFailedOperation(
+    userId: string,
+    action: string,
+    metadata: Record<string, any>,
+    error: unknown,
+    txn?: any
+  ): Promise<void> {
+    if (!this.config.audit.enabled) {
+      return;
+    }
+
+    try {
+      await this.auditTrail.log(
+        {
+          userId,
+          action,
+          status: 'failed',
+          metadata,
+          errorMessage: error instanceof Error ? error.message : String(error)
+        },
+        txn
+      );
+    } catch (auditError) {
+      // 如果审计日志记录失败，只记录警告，不影响主错误的抛出
+      this.logger.warn('Failed to create audit log for failed operation', {
+        userId,
+        action,
+        error: auditError
+      });
+    }
+  }
 }
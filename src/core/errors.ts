@@ -105,12 +105,42 @@ export class MembershipRequiredError extends CreditsSDKError {
   }
 }
 
+/**
+ * 权益不足错误
+ * 当用户的等级和附加包没有授予操作所需的功能时抛出
+ * 
+ * @example
+ * ```typescript
+ * throw new EntitlementRequiredError('user123', 'call-api', ['api']);
+ * // Error: User user123 lacks entitlement api required for call-api
+ * ```
+ */
+export class EntitlementRequiredError extends CreditsSDKError {
+  /**
+   * 创建一个新的 EntitlementRequiredError
+   * @param userId - 用户 ID
+   * @param action - 操作名称
+   * @param missing - 缺少的功能
+   */
+  constructor(
+    public userId: string,
+    public action: string,
+    public missing: string[]
+  ) {
+    super(
+      `User ${userId} lacks entitlement ${missing.join(', ')} required for ${action}`,
+      'ENTITLEMENT_REQUIRED'
+    );
+    this.name = 'EntitlementRequiredError';
+    Object.setPrototypeOf(this, EntitlementRequiredError.prototype);
+  }
+}
+
 /**
  * 幂等键冲突错误
- * 当检测到幂等键冲突时抛出
+ * 当幂等键被同一操作类型、但请求参数不同的调用复用时抛出
  * 
- * 注意: 根据设计文档，在正常流程中不应该抛出此错误，
- * 而是应该返回缓存的结果。此错误主要用于异常情况。
+ * 参数相同的重复调用不会抛出此错误，而是返回缓存的结果。
  * 
  * @example
  * ```typescript
@@ -122,7 +152,7 @@ export class IdempotencyKeyConflictError extends CreditsSDKError {
   /**
    * 创建一个新的 IdempotencyKeyConflictError
    * @param key - 幂等键
-   * @param existingTransaction - 已存在的交易详情
+   * @param existingTransaction - 已存在的交易详情（首次调用缓存的结果）
    */
   constructor(
     public key: string,
@@ -137,6 +167,60 @@ export class IdempotencyKeyConflictError extends CreditsSDKError {
   }
 }
 
+/**
+ * 幂等请求执行中错误
+ * 当相同幂等键的请求仍在执行，且在等待时间内没有完成时抛出
+ * 
+ * @example
+ * ```typescript
+ * throw new IdempotencyRequestInProgressError('key123', new Date('2024-01-15T10:01:00Z'));
+ * // Error: Request with idempotency key key123 is still in progress
+ * ```
+ */
+export class IdempotencyRequestInProgressError extends CreditsSDKError {
+  /**
+   * 创建一个新的 IdempotencyRequestInProgressError
+   * @param key - 幂等键
+   * @param lockedUntil - 执行中请求占用幂等键的失效时间
+   */
+  constructor(
+    public key: string,
+    public lockedUntil: Date
+  ) {
+    super(
+      `Request with idempotency key ${key} is still in progress`,
+      'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+    );
+    this.name = 'IdempotencyRequestInProgressError';
+    Object.setPrototypeOf(this, IdempotencyRequestInProgressError.prototype);
+  }
+}
+
+/**
+ * 熔断器断开错误
+ * 当存储连续出现瞬态故障、熔断器断开期间拒绝请求时抛出
+ * 
+ * @example
+ * ```typescript
+ * throw new CircuitOpenError(new Date('2024-01-15T10:00:30Z'));
+ * // Error: Circuit breaker is open, retry after 2024-01-15T10:00:30.000Z
+ * ```
+ */
+export class CircuitOpenError extends CreditsSDKError {
+  /**
+   * 创建一个新的 CircuitOpenError
+   * @param retryAt - 允许试探请求的时间
+   */
+  constructor(public retryAt: Date) {
+    super(
+      `Circuit breaker is open, retry after ${retryAt.toISOString()}`,
+      'CIRCUIT_OPEN'
+    );
+    this.name = 'CircuitOpenError';
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
+}
+
 /**
  * 配置错误
  * 当 SDK 配置无效或缺失时抛出
@@ -567,3 +651,252 @@ export class FormulaEvaluationError extends CreditsSDKError {
     Object.setPrototypeOf(this, FormulaEvaluationError.prototype);
   }
 }
+
+/**
+ * 公式语法错误
+ * 当公式不符合支持的语法时抛出，包含出错的字符位置
+ *
+ * 继承自 ConfigurationError，已有的 `instanceof ConfigurationError` 判断仍然有效。
+ *
+ * @example
+ * ```typescript
+ * const parser = new FormulaParser();
+ *
+ * try {
+ *   parser.validate('{token} * * 0.5');
+ * } catch (error) {
+ *   if (error instanceof FormulaSyntaxError) {
+ *     console.error(error.message);
+ *     // "Invalid formula '{token} * * 0.5' at position 10: unexpected '*'"
+ *
+ *     console.log(error.position); // 10 (从 0 开始的字符偏移)
+ *     console.log(error.reason); // "unexpected '*'"
+ *   }
+ * }
+ * ```
+ *
+ * @see {@link FormulaParser} 公式解析器
+ */
+export class FormulaSyntaxError extends ConfigurationError {
+  /**
+   * 创建一个新的 FormulaSyntaxError
+   * @param formula - 公式字符串
+   * @param position - 出错位置（从 0 开始的字符偏移）
+   * @param reason - 错误原因
+   */
+  constructor(
+    public formula: string,
+    public position: number,
+    public reason: string
+  ) {
+    super(`Invalid formula '${formula}' at position ${position}: ${reason}`);
+    this.name = 'FormulaSyntaxError';
+    Object.setPrototypeOf(this, FormulaSyntaxError.prototype);
+  }
+}
+
+/**
+ * 冻结记录不存在错误
+ * 当结算或释放不存在的冻结记录时抛出
+ * 
+ * @example
+ * ```typescript
+ * throw new HoldNotFoundError('hold-123');
+ * // Error: Credit hold hold-123 not found
+ * ```
+ */
+export class HoldNotFoundError extends CreditsSDKError {
+  /**
+   * 创建一个新的 HoldNotFoundError
+   * @param holdId - 冻结记录 ID
+   */
+  constructor(public holdId: string) {
+    super(`Credit hold ${holdId} not found`, 'HOLD_NOT_FOUND');
+    this.name = 'HoldNotFoundError';
+    Object.setPrototypeOf(this, HoldNotFoundError.prototype);
+  }
+}
+
+/**
+ * 无效冻结操作错误
+ * 当冻结记录已结算、已释放、已过期，或结算金额超过冻结金额时抛出
+ * 
+ * @example
+ * ```typescript
+ * throw new InvalidHoldOperationError('hold-123', 'captured', 'Hold is not pending');
+ * // Error: Invalid operation on credit hold hold-123 (status: captured): Hold is not pending
+ * ```
+ */
+export class InvalidHoldOperationError extends CreditsSDKError {
+  /**
+   * 创建一个新的 InvalidHoldOperationError
+   * @param holdId - 冻结记录 ID
+   * @param status - 冻结记录当前状态
+   * @param reason - 错误原因
+   */
+  constructor(
+    public holdId: string,
+    public status: string,
+    public reason: string
+  ) {
+    super(
+      `Invalid operation on credit hold ${holdId} (status: ${status}): ${reason}`,
+      'INVALID_HOLD_OPERATION'
+    );
+    this.name = 'InvalidHoldOperationError';
+    Object.setPrototypeOf(this, InvalidHoldOperationError.prototype);
+  }
+}
+
+/**
+ * 组织不存在错误
+ * 当用户所属的组织不存在时抛出
+ * 
+ * @example
+ * ```typescript
+ * throw new OrganizationNotFoundError('org-123');
+ * // Error: Organization org-123 not found
+ * ```
+ */
+export class OrganizationNotFoundError extends CreditsSDKError {
+  /**
+   * 创建一个新的 OrganizationNotFoundError
+   * @param organizationId - 组织 ID
+   */
+  constructor(public organizationId: string) {
+    super(`Organization ${organizationId} not found`, 'ORGANIZATION_NOT_FOUND');
+    this.name = 'OrganizationNotFoundError';
+    Object.setPrototypeOf(this, OrganizationNotFoundError.prototype);
+  }
+}
+
+/**
+ * 超出消费限额错误
+ * 当组织成员本次扣费会超出其在当前周期的消费限额时抛出
+ * 
+ * @example
+ * ```typescript
+ * throw new SpendingLimitExceededError('user123', 'org-123', 'daily', 100, 90, 20);
+ * // Error: User user123 would exceed the daily spending limit of organization org-123. Limit: 100, Spent: 90, Requested: 20
+ * ```
+ */
+export class SpendingLimitExceededError extends CreditsSDKError {
+  /**
+   * 创建一个新的 SpendingLimitExceededError
+   * @param userId - 成员的用户 ID
+   * @param organizationId - 组织 ID
+   * @param period - 限额的统计周期
+   * @param limit - 周期内允许消费的最大积分
+   * @param spent - 周期内已消费的积分
+   * @param requested - 本次请求消费的积分
+   */
+  constructor(
+    public userId: string,
+    public organizationId: string,
+    public period: string,
+    public limit: number,
+    public spent: number,
+    public requested: number
+  ) {
+    super(
+      `User ${userId} would exceed the ${period} spending limit of organization ${organizationId}. Limit: ${limit}, Spent: ${spent}, Requested: ${requested}`,
+      'SPENDING_LIMIT_EXCEEDED'
+    );
+    this.name = 'SpendingLimitExceededError';
+    Object.setPrototypeOf(this, SpendingLimitExceededError.prototype);
+  }
+}
+
+/**
+ * 超出用量配额错误
+ * 当用户在当前窗口内执行操作的次数已达到配额时抛出
+ * 
+ * @example
+ * ```typescript
+ * throw new QuotaExceededError('user123', 'generate-post', 'day', 20, 20, 3600, resetsAt);
+ * // Error: User user123 exceeded the day quota for generate-post. Limit: 20, Used: 20, Retry after: 3600s
+ * ```
+ */
+export class QuotaExceededError extends CreditsSDKError {
+  /**
+   * 创建一个新的 QuotaExceededError
+   * @param userId - 用户 ID
+   * @param action - 操作名称
+   * @param window - 配额的统计窗口
+   * @param limit - 窗口内允许执行的最大次数
+   * @param used - 窗口内已执行的次数
+   * @param retryAfter - 距离窗口重置的秒数
+   * @param resetsAt - 窗口重置的时间
+   */
+  constructor(
+    public userId: string,
+    public action: string,
+    public window: string,
+    public limit: number,
+    public used: number,
+    public retryAfter: number,
+    public resetsAt: Date
+  ) {
+    super(
+      `User ${userId} exceeded the ${window} quota for ${action}. Limit: ${limit}, Used: ${used}, Retry after: ${retryAfter}s`,
+      'QUOTA_EXCEEDED'
+    );
+    this.name = 'QuotaExceededError';
+    Object.setPrototypeOf(this, QuotaExceededError.prototype);
+  }
+}
+
+/**
+ * 交易不存在错误
+ * 当按交易 ID 退款但交易不存在时抛出
+ * 
+ * @example
+ * ```typescript
+ * throw new TransactionNotFoundError('txn-123');
+ * // Error: Transaction txn-123 not found
+ * ```
+ */
+export class TransactionNotFoundError extends CreditsSDKError {
+  /**
+   * 创建一个新的 TransactionNotFoundError
+   * @param transactionId - 交易 ID
+   */
+  constructor(public transactionId: string) {
+    super(`Transaction ${transactionId} not found`, 'TRANSACTION_NOT_FOUND');
+    this.name = 'TransactionNotFoundError';
+    Object.setPrototypeOf(this, TransactionNotFoundError.prototype);
+  }
+}
+
+/**
+ * 超额退款错误
+ * 当对某笔扣费的累计退款会超过原扣费金额时抛出
+ * 
+ * @example
+ * ```typescript
+ * throw new RefundExceedsChargeError('txn-123', 30, 50, 40);
+ * // Error: Refund of 30 exceeds the refundable amount of transaction txn-123. Charged: 50, Already refunded: 40
+ * ```
+ */
+export class RefundExceedsChargeError extends CreditsSDKError {
+  /**
+   * 创建一个新的 RefundExceedsChargeError
+   * @param transactionId - 原扣费交易 ID
+   * @param requested - 本次请求退款的金额
+   * @param charged - 原扣费金额
+   * @param refunded - 已累计退款的金额
+   */
+  constructor(
+    public transactionId: string,
+    public requested: number,
+    public charged: number,
+    public refunded: number
+  ) {
+    super(
+      `Refund of ${requested} exceeds the refundable amount of transaction ${transactionId}. Charged: ${charged}, Already refunded: ${refunded}`,
+      'REFUND_EXCEEDS_CHARGE'
+    );
+    this.name = 'RefundExceedsChargeError';
+    Object.setPrototypeOf(this, RefundExceedsChargeError.prototype);
+  }
+}
@@ -16,6 +16,10 @@ export interface User {
   membershipTier: string | null;
   /** 会员到期时间 (null 表示无会员或永久) */
   membershipExpiresAt: Date | null;
+  /** 试用结束时间 (可选，不为 null 表示当前会员是试用，任何其他等级变更或续费都会清除) */
+  trialEndsAt?: Date | null;
+  /** 所属组织 ID (可选，设置后默认钱包的扣费从组织积分池中扣除) */
+  organizationId?: string | null;
   /** 创建时间 */
   createdAt: Date;
   /** 更新时间 */
@@ -39,6 +43,12 @@ export interface Transaction {
   balanceBefore: number;
   /** 操作后余额 */
   balanceAfter: number;
+  /** 钱包名称 (未设置表示默认钱包) */
+  wallet?: string;
+  /** 累计已退款金额 (仅扣费交易在按原交易退款后存在) */
+  refundedAmount?: number;
+  /** 写入交易的 SDK 操作 (如 'charge'、'transfer'，由 CreditsEngine 设置；早期版本写入的交易没有) */
+  operation?: string;
   /** 元数据 (存储操作相关的额外信息) */
   metadata: Record<string, any>;
   /** 创建时间 */
@@ -55,6 +65,8 @@ export interface TransactionInput {
   amount: number;
   balanceBefore: number;
   balanceAfter: number;
+  wallet?: string;
+  operation?: string;
   metadata?: Record<string, any>;
 }
 
@@ -104,6 +116,29 @@ export interface IdempotencyRecord {
   createdAt: Date;
   /** 过期时间 */
   expiresAt: Date;
+  /** 请求参数指纹 (可选，用于检测幂等键被不同的请求复用) */
+  fingerprint?: string;
+  /**
+   * 记录状态 (可选，未设置时视为 'completed')
+   * 'pending' 表示请求仍在执行，expiresAt 为占用的失效时间，result 为空
+   */
+  status?: IdempotencyRecordStatus;
+}
+
+/**
+ * 幂等记录状态类型
+ */
+export type IdempotencyRecordStatus = 'pending' | 'completed';
+
+/**
+ * 幂等键占用输入类型
+ * 用于在执行请求前占用幂等键
+ */
+export interface IdempotencyClaimInput {
+  key: string;
+  fingerprint?: string;
+  /** 占用的失效时间，之后未完成的占用可被其他请求接管 */
+  expiresAt: Date;
 }
 
 /**
@@ -114,6 +149,18 @@ export interface IdempotencyRecordInput {
   key: string;
   result: any;
   expiresAt: Date;
+  fingerprint?: string;
+}
+
+/**
+ * 幂等请求类型
+ * 幂等键按 operation 划分作用域，params 用于计算请求指纹
+ */
+export interface IdempotencyRequest {
+  /** 操作类型 (如 'charge'、'grant') */
+  operation: string;
+  /** 请求参数 (txn、idempotencyKey 和 metadata 不参与指纹计算) */
+  params: Record<string, any>;
 }
 
 /**
@@ -125,6 +172,8 @@ export interface ChargeParams {
   userId: string;
   /** 操作名称 */
   action: string;
+  /** 扣费的钱包 (可选，默认使用成本配置中的 wallet，未配置时为默认钱包) */
+  wallet?: string;
   /** 幂等键 (可选，用于防止重复扣费) */
   idempotencyKey?: string;
   /** 元数据 (可选，存储额外信息) */
@@ -150,74 +199,778 @@ export interface ChargeResult {
   balanceBefore: number;
   /** 操作后余额 */
   balanceAfter: number;
+  /** 扣费的组织积分池 (仅在从组织积分池扣费时存在，此时余额为积分池余额) */
+  organizationId?: string;
+  /** 用户的会员状态 (仅在会员处于试用期或宽限期时存在，便于提醒用户付费) */
+  membershipState?: MembershipState;
+}
+
+/**
+ * 扣费预估参数类型
+ * 用于调用 estimate 方法，字段含义与 ChargeParams 相同
+ */
+export interface EstimateParams {
+  /** 用户 ID */
+  userId: string;
+  /** 操作名称 */
+  action: string;
+  /** 扣费的钱包 (可选，默认使用成本配置中的 wallet，未配置时为默认钱包) */
+  wallet?: string;
+  /** 动态公式变量 (可选，用于动态成本计算) */
+  variables?: Record<string, number>;
+  /** 事务上下文 (可选) */
+  txn?: any;
+}
+
+/**
+ * 预估扣费失败原因类型
+ * code 与 charge 会抛出的错误的 code 相同
+ */
+export interface EstimateFailureReason {
+  /** 错误代码 */
+  code:
+    | 'MEMBERSHIP_REQUIRED'
+    | 'ENTITLEMENT_REQUIRED'
+    | 'QUOTA_EXCEEDED'
+    | 'SPENDING_LIMIT_EXCEEDED'
+    | 'INSUFFICIENT_CREDITS';
+  /** 错误消息 */
+  message: string;
+}
+
+/**
+ * 扣费预估结果类型
+ * estimate 方法的返回值
+ */
+export interface EstimateResult {
+  /** 预计扣费金额 */
+  cost: number;
+  /** 成本计算详情 */
+  calculationDetails: CalculationDetails;
+  /** 按当前状态调用 charge 是否会成功 */
+  wouldSucceed: boolean;
+  /** 当前可用余额，包含可透支额度 (从组织积分池扣费时为积分池的可用余额) */
+  available: number;
+  /** 扣费的组织积分池 (仅在会从组织积分池扣费时存在) */
+  organizationId?: string;
+  /** 失败原因 (仅在 wouldSucceed 为 false 时存在) */
+  failureReason?: EstimateFailureReason;
+}
+
+/**
+ * 批量扣费模式
+ * - all-or-nothing: 任一条目失败时不扣除任何条目
+ * - best-effort: 扣除能成功的条目，跳过失败的条目
+ */
+export type ChargeBatchMode = 'all-or-nothing' | 'best-effort';
+
+/**
+ * 批量扣费条目类型
+ * 字段含义与 ChargeParams 相同
+ */
+export interface ChargeBatchItem {
+  /** 用户 ID */
+  userId: string;
+  /** 操作名称 */
+  action: string;
+  /** 扣费的钱包 (可选，默认使用成本配置中的 wallet，未配置时为默认钱包) */
+  wallet?: string;
+  /** 动态公式变量 (可选，用于动态成本计算) */
+  variables?: Record<string, number>;
+  /** 幂等键 (可选，与 charge 共用同一命名空间) */
+  idempotencyKey?: string;
+  /** 元数据 (可选，写入该条目的交易记录) */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * 批量扣费选项类型
+ */
+export interface ChargeBatchOptions {
+  /** 批量扣费模式 (可选，默认 'all-or-nothing') */
+  mode?: ChargeBatchMode;
+  /** 事务上下文 (可选) */
+  txn?: any;
+}
+
+/**
+ * 批量扣费条目状态
+ * - charged: 本次已扣费
+ * - replayed: 幂等键已使用过，返回缓存的结果，未重复扣费
+ * - failed: 条目校验失败，未扣费
+ * - skipped: 条目本身可以扣费，但 all-or-nothing 模式下因其他条目失败而未扣费
+ */
+export type ChargeBatchItemStatus = 'charged' | 'replayed' | 'failed' | 'skipped';
+
+/**
+ * 批量扣费条目结果类型
+ */
+export interface ChargeBatchItemResult {
+  /** 条目在 items 中的下标 */
+  index: number;
+  /** 条目状态 */
+  status: ChargeBatchItemStatus;
+  /** 扣费结果 (仅在 charged 和 replayed 时存在) */
+  result?: ChargeResult;
+  /** 失败原因 (仅在 failed 时存在)，code 与单独调用 charge 时抛出的错误的 code 相同 */
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * 批量扣费结果类型
+ * chargeBatch 方法的返回值
+ */
+export interface ChargeBatchResult {
+  /** 使用的批量扣费模式 */
+  mode: ChargeBatchMode;
+  /** 已扣费的条目数量 (含 replayed) */
+  succeeded: number;
+  /** 失败的条目数量 */
+  failed: number;
+  /** 每个条目的结果，顺序与 items 相同 */
+  items: ChargeBatchItemResult[];
+}
+
+/**
+ * 透支用户查询选项类型
+ */
+export interface OverdrawnUsersOptions {
+  /** 返回的最大数量 (可选，默认 100) */
+  limit?: number;
+  /** 跳过的数量 (可选，默认 0) */
+  offset?: number;
+  /** 事务上下文 (可选) */
+  txn?: any;
+}
+
+/**
+ * 透支用户类型
+ * getOverdrawnUsers 方法的返回值条目
+ */
+export interface OverdrawnUser {
+  /** 用户 ID */
+  userId: string;
+  /** 当前余额 (负数) */
+  credits: number;
+  /** 会员等级 */
+  membershipTier: string | null;
+  /** 当前生效的透支额度 (会员已过期或等级未配置时为 0) */
+  overdraftLimit: number;
 }
 
 /**
  * 退款参数类型
- * 用于调用 refund 方法
+ * 用于调用 refund 方法：按金额退款，或按原扣费交易退款
+ */
+export type RefundParams = AmountRefundParams | TransactionRefundParams;
+
+/**
+ * 按金额退款参数类型
+ * 退回任意金额，不关联原扣费交易
+ */
+export interface AmountRefundParams {
+  /** 用户 ID */
+  userId: string;
+  /** 退款金额 */
+  amount: number;
+  /** 操作名称 (用于记录) */
+  action: string;
+  /** 退回的钱包 (可选，默认为默认钱包) */
+  wallet?: string;
+  /** 不关联原扣费交易 */
+  transactionId?: undefined;
+  /** 幂等键 (可选) */
+  idempotencyKey?: string;
+  /** 元数据 (可选) */
+  metadata?: Record<string, any>;
+  /** 事务上下文 (可选) */
+  txn?: any;
+}
+
+/**
+ * 按原扣费交易退款参数类型
+ * 退回到原交易所扣的钱包 (或组织积分池)，累计退款不超过原扣费金额
+ */
+export interface TransactionRefundParams {
+  /** 原扣费交易 ID */
+  transactionId: string;
+  /** 退款金额 (可选，默认退回剩余的全部可退金额) */
+  amount?: number;
+  /** 用户 ID (可选，提供时必须与原交易的用户一致) */
+  userId?: string;
+  /** 操作名称 (可选，默认为原交易的操作名称) */
+  action?: string;
+  /** 幂等键 (可选) */
+  idempotencyKey?: string;
+  /** 元数据 (可选) */
+  metadata?: Record<string, any>;
+  /** 事务上下文 (可选) */
+  txn?: any;
+}
+
+/**
+ * 退款结果类型
+ * refund 方法的返回值
+ */
+export interface RefundResult {
+  /** 操作是否成功 */
+  success: true;
+  /** 交易 ID */
+  transactionId: string;
+  /** 退款金额 */
+  amount: number;
+  /** 操作后余额 */
+  balanceAfter: number;
+  /** 原扣费交易 ID (仅按原交易退款时存在) */
+  originalTransactionId?: string;
+  /** 原交易累计已退款金额，包括本次 (仅按原交易退款时存在) */
+  totalRefunded?: number;
+  /** 原交易剩余可退金额 (仅按原交易退款时存在) */
+  remainingRefundable?: number;
+}
+
+/**
+ * 发放参数类型
+ * 用于调用 grant 方法
+ */
+export interface GrantParams {
+  /** 用户 ID */
+  userId: string;
+  /** 发放金额 */
+  amount: number;
+  /** 操作名称 (用于记录) */
+  action: string;
+  /** 发放到的钱包 (可选，默认为默认钱包) */
+  wallet?: string;
+  /**
+   * 积分到期时间 (可选)
+   * 提供时发放的积分作为独立的积分批次记录，到期后由 expireCredits 清除；
+   * 不提供时为永久积分
+   */
+  expiresAt?: Date;
+  /** 幂等键 (可选) */
+  idempotencyKey?: string;
+  /** 元数据 (可选) */
+  metadata?: Record<string, any>;
+  /** 事务上下文 (可选) */
+  txn?: any;
+}
+
+/**
+ * 发放结果类型
+ * grant 方法的返回值
+ */
+export interface GrantResult {
+  /** 操作是否成功 */
+  success: true;
+  /** 交易 ID */
+  transactionId: string;
+  /** 发放金额 */
+  amount: number;
+  /** 操作后余额 */
+  balanceAfter: number;
+  /** 积分批次 ID (仅在指定 expiresAt 时存在) */
+  lotId?: string;
+}
+
+/**
+ * 积分批次类型
+ * 一次带到期时间的发放对应一个批次，扣费时按到期时间由近到远消耗
+ */
+export interface CreditLot {
+  /** 批次唯一标识符 */
+  id: string;
+  /** 用户 ID */
+  userId: string;
+  /** 发放时的金额 */
+  amount: number;
+  /** 剩余未消耗的金额 */
+  remaining: number;
+  /** 到期时间 */
+  expiresAt: Date;
+  /** 元数据 */
+  metadata: Record<string, any>;
+  /** 创建时间 */
+  createdAt: Date;
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 积分批次输入类型
+ * 用于创建新的积分批次 (remaining 初始等于 amount)
+ */
+export interface CreditLotInput {
+  /** 用户 ID */
+  userId: string;
+  /** 发放金额 */
+  amount: number;
+  /** 到期时间 */
+  expiresAt: Date;
+  /** 元数据 (可选) */
+  metadata?: Record<string, any>;
+}
+
+/**
+ * 余额查询选项
+ * 用于 queryBalance 方法
+ */
+export interface QueryBalanceOptions {
+  /** 是否返回按批次划分的余额明细 */
+  breakdown?: boolean;
+  /** 查询的钱包 (可选，默认为默认钱包；breakdown 为 true 时忽略) */
+  wallet?: string;
+}
+
+/**
+ * 单个积分批次的余额
+ */
+export interface CreditLotBalance {
+  /** 批次 ID */
+  lotId: string;
+  /** 剩余金额 */
+  remaining: number;
+  /** 到期时间 */
+  expiresAt: Date;
+}
+
+/**
+ * 余额明细
+ * queryBalance 在 breakdown 为 true 时的返回值
+ */
+export interface BalanceBreakdown {
+  /** 用户 ID */
+  userId: string;
+  /** 账面余额 (等于 User.credits) */
+  total: number;
+  /** 可用余额 = 账面余额 - 冻结额度 - 已过期未清除的积分 */
+  available: number;
+  /** 被冻结的额度 */
+  held: number;
+  /** 已过期但尚未被 expireCredits 清除的积分 */
+  expired: number;
+  /** 永久积分 (不属于任何未过期批次的余额) */
+  permanent: number;
+  /** 未过期的积分批次，按到期时间升序排列 */
+  lots: CreditLotBalance[];
+  /** 各钱包的余额 (默认钱包的键为 'default'，其值等于 total) */
+  wallets: Record<string, number>;
+}
+
+/**
+ * 过期积分清理参数
+ * 用于 expireCredits 方法
+ */
+export interface ExpireCreditsParams {
+  /** 判断过期的时间点 (默认为当前时间) */
+  now?: Date;
+  /** 每批处理的批次数量 (默认为 100) */
+  batchSize?: number;
+  /** 事务上下文 (可选) */
+  txn?: any;
+}
+
+/**
+ * 过期积分清理结果
+ * expireCredits 方法的返回值
+ */
+export interface ExpireCreditsResult {
+  /** 被清除的批次数量 */
+  expiredLots: number;
+  /** 被清除的积分总额 */
+  expiredCredits: number;
+  /** 生成的 credit-expiry 交易 ID */
+  transactionIds: string[];
+}
+
+/**
+ * 会员到期处理参数
+ * 用于 processExpiredMemberships 方法
+ */
+export interface ProcessExpiredMembershipsParams {
+  /** 判断过期的时间点 (默认为当前时间) */
+  now?: Date;
+  /** 每批查询的用户数量 (默认为 100) */
+  batchSize?: number;
+  /** 事务上下文 (可选) */
+  txn?: any;
+}
+
+/**
+ * 会员到期处理结果
+ * processExpiredMemberships 方法的返回值
+ */
+export interface ProcessExpiredMembershipsResult {
+  /** 被降级到回退等级的用户数量 */
+  downgraded: number;
+  /** 等级不高于回退等级、只清除了到期时间的用户数量 */
+  cleared: number;
+  /** 生成的 tier-expired 交易 ID */
+  transactionIds: string[];
+}
+
+/**
+ * 到期等级变更处理参数
+ * 用于 applyDueTierChanges 方法
+ */
+export interface ApplyDueTierChangesParams {
+  /** 判断是否到期的时间点 (默认为当前时间) */
+  now?: Date;
+  /** 每批查询的计划变更数量 (默认为 100) */
+  batchSize?: number;
+  /** 事务上下文 (可选) */
+  txn?: any;
+}
+
+/**
+ * 到期等级变更处理结果
+ * applyDueTierChanges 方法的返回值
+ */
+export interface ApplyDueTierChangesResult {
+  /** 已升级的用户数量 */
+  upgraded: number;
+  /** 已降级的用户数量 */
+  downgraded: number;
+  /** 无法执行而被删除的计划变更数量（目标等级未定义或与当前等级相同） */
+  discarded: number;
+  /** 生成的 tier-upgrade / tier-downgrade 交易 ID */
+  transactionIds: string[];
+}
+
+/**
+ * 过期数据清理参数
+ * 用于 purgeExpiredData 方法
+ */
+export interface PurgeExpiredDataParams {
+  /** 删除在此时间之前过期的数据 (默认为当前时间，不能晚于当前时间) */
+  before?: Date;
+  /** 每批删除的数量 (默认为 1000) */
+  batchSize?: number;
+}
+
+/**
+ * 过期数据清理结果
+ * purgeExpiredData 方法的返回值，存储适配器不支持的数据类型计为 0
+ */
+export interface PurgeExpiredDataResult {
+  /** 删除的幂等性记录数量 */
+  idempotencyRecords: number;
+  /** 删除的冻结记录数量 */
+  creditHolds: number;
+  /** 删除的积分批次数量 */
+  creditLots: number;
+}
+
+/**
+ * 冻结记录状态
+ * - pending: 冻结中，占用可用余额
+ * - captured: 已结算，按最终金额扣费
+ * - released: 已释放，不产生扣费
+ */
+export type CreditHoldStatus = 'pending' | 'captured' | 'released';
+
+/**
+ * 积分冻结记录类型
+ * 两阶段扣费（预授权 / 结算 / 释放）中的冻结额度
+ */
+export interface CreditHold {
+  /** 冻结记录唯一标识符 */
+  id: string;
+  /** 用户 ID */
+  userId: string;
+  /** 操作名称 (结算时作为交易记录的 action) */
+  action: string;
+  /** 冻结金额 */
+  amount: number;
+  /** 冻结状态 */
+  status: CreditHoldStatus;
+  /** 实际结算金额 (仅在 captured 状态下存在) */
+  capturedAmount: number | null;
+  /** 元数据 */
+  metadata: Record<string, any>;
+  /** 过期时间 (过期后自动不再占用余额) */
+  expiresAt: Date;
+  /** 创建时间 */
+  createdAt: Date;
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 积分冻结记录输入类型
+ * 用于创建新的冻结记录
+ */
+export interface CreditHoldInput {
+  userId: string;
+  action: string;
+  amount: number;
+  expiresAt: Date;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * 预授权参数类型
+ * 用于调用 reserve 方法
+ */
+export interface ReserveParams {
+  /** 用户 ID */
+  userId: string;
+  /** 操作名称 */
+  action: string;
+  /** 冻结金额 (可选，未提供时按成本配置计算) */
+  amount?: number;
+  /** 动态公式变量 (可选，用于估算冻结金额) */
+  variables?: Record<string, number>;
+  /** 冻结有效期 (秒，可选，默认使用 reservations.defaultTtl) */
+  ttl?: number;
+  /** 幂等键 (可选) */
+  idempotencyKey?: string;
+  /** 元数据 (可选) */
+  metadata?: Record<string, any>;
+  /** 事务上下文 (可选) */
+  txn?: any;
+}
+
+/**
+ * 预授权结果类型
+ * reserve 方法的返回值
+ */
+export interface ReserveResult {
+  /** 操作是否成功 */
+  success: true;
+  /** 冻结记录 ID */
+  holdId: string;
+  /** 交易 ID */
+  transactionId: string;
+  /** 冻结金额 */
+  amount: number;
+  /** 冻结过期时间 */
+  expiresAt: Date;
+  /** 冻结前可用余额 */
+  availableBefore: number;
+  /** 冻结后可用余额 */
+  availableAfter: number;
+}
+
+/**
+ * 结算参数类型
+ * 用于调用 capture 方法
+ */
+export interface CaptureParams {
+  /** 冻结记录 ID */
+  holdId: string;
+  /** 最终扣费金额 (可选，不能超过冻结金额) */
+  amount?: number;
+  /** 动态公式变量 (可选，用于计算最终金额) */
+  variables?: Record<string, number>;
+  /** 幂等键 (可选) */
+  idempotencyKey?: string;
+  /** 元数据 (可选) */
+  metadata?: Record<string, any>;
+  /** 事务上下文 (可选) */
+  txn?: any;
+}
+
+/**
+ * 结算结果类型
+ * capture 方法的返回值
+ */
+export interface CaptureResult {
+  /** 操作是否成功 */
+  success: true;
+  /** 冻结记录 ID */
+  holdId: string;
+  /** 交易 ID */
+  transactionId: string;
+  /** 实际扣费金额 */
+  cost: number;
+  /** 释放回可用余额的金额 (冻结金额 - 实际扣费) */
+  releasedAmount: number;
+  /** 操作前余额 */
+  balanceBefore: number;
+  /** 操作后余额 */
+  balanceAfter: number;
+}
+
+/**
+ * 释放参数类型
+ * 用于调用 release 方法
+ */
+export interface ReleaseParams {
+  /** 冻结记录 ID */
+  holdId: string;
+  /** 幂等键 (可选) */
+  idempotencyKey?: string;
+  /** 元数据 (可选) */
+  metadata?: Record<string, any>;
+  /** 事务上下文 (可选) */
+  txn?: any;
+}
+
+/**
+ * 释放结果类型
+ * release 方法的返回值
+ */
+export interface ReleaseResult {
+  /** 操作是否成功 */
+  success: true;
+  /** 冻结记录 ID */
+  holdId: string;
+  /** 交易 ID */
+  transactionId: string;
+  /** 释放的金额 */
+  releasedAmount: number;
+}
+
+/**
+ * 转账参数类型
+ * 用于调用 transfer 方法
+ */
+export interface TransferParams {
+  /** 转出用户 ID */
+  fromUserId: string;
+  /** 转入用户 ID */
+  toUserId: string;
+  /** 转账金额 */
+  amount: number;
+  /** 转出和转入的钱包 (可选，默认为默认钱包) */
+  wallet?: string;
+  /** 幂等键 (可选，用于防止重复转账) */
+  idempotencyKey?: string;
+  /** 元数据 (可选) */
+  metadata?: Record<string, any>;
+  /** 事务上下文 (可选，未提供时由存储适配器开启事务) */
+  txn?: any;
+}
+
+/**
+ * 转账结果类型
+ * transfer 方法的返回值
+ */
+export interface TransferResult {
+  /** 操作是否成功 */
+  success: true;
+  /** 转账 ID (两条交易记录共享) */
+  transferId: string;
+  /** 转出方的交易 ID */
+  fromTransactionId: string;
+  /** 转入方的交易 ID */
+  toTransactionId: string;
+  /** 转账金额 */
+  amount: number;
+  /** 转出方操作后余额 */
+  fromBalanceAfter: number;
+  /** 转入方操作后余额 */
+  toBalanceAfter: number;
+}
+
+/**
+ * 组织类型
+ * 组织持有共享的积分池，成员的扣费从积分池中扣除
+ */
+export interface Organization {
+  /** 组织唯一标识符 */
+  id: string;
+  /** 积分池余额 */
+  credits: number;
+  /** 创建时间 */
+  createdAt: Date;
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 成员消费限额的统计周期
+ * - daily: 自然日 (UTC)
+ * - monthly: 自然月 (UTC)
+ */
+export type SpendingLimitPeriod = 'daily' | 'monthly';
+
+/**
+ * 成员消费限额类型
+ * 限制组织成员在一个周期内从组织积分池消费的积分
+ */
+export interface MemberSpendingLimit {
+  /** 组织 ID */
+  organizationId: string;
+  /** 成员的用户 ID */
+  userId: string;
+  /** 统计周期 */
+  period: SpendingLimitPeriod;
+  /** 周期内允许消费的最大积分 */
+  limit: number;
+  /** 创建时间 */
+  createdAt: Date;
+  /** 更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 创建或更新成员消费限额的输入类型
  */
-export interface RefundParams {
-  /** 用户 ID */
+export interface MemberSpendingLimitInput {
+  /** 组织 ID */
+  organizationId: string;
+  /** 成员的用户 ID */
   userId: string;
-  /** 退款金额 */
-  amount: number;
-  /** 操作名称 (用于记录) */
-  action: string;
-  /** 幂等键 (可选) */
-  idempotencyKey?: string;
-  /** 元数据 (可选) */
-  metadata?: Record<string, any>;
-  /** 事务上下文 (可选) */
-  txn?: any;
+  /** 统计周期 */
+  period: SpendingLimitPeriod;
+  /** 周期内允许消费的最大积分 */
+  limit: number;
 }
 
 /**
- * 退款结果类型
- * refund 方法的返回值
+ * 计划中的等级变更
+ * 每个用户最多有一条，到 effectiveAt 时生效
  */
-export interface RefundResult {
-  /** 操作是否成功 */
-  success: true;
-  /** 交易 ID */
-  transactionId: string;
-  /** 退款金额 */
-  amount: number;
-  /** 操作后余额 */
-  balanceAfter: number;
+export interface ScheduledTierChange {
+  /** 记录 ID */
+  id: string;
+  /** 用户 ID */
+  userId: string;
+  /** 目标会员等级 */
+  targetTier: string;
+  /** 生效时间 */
+  effectiveAt: Date;
+  /** 元数据 */
+  metadata: Record<string, any>;
+  /** 创建时间 */
+  createdAt: Date;
 }
 
 /**
- * 发放参数类型
- * 用于调用 grant 方法
+ * 计划中的等级变更输入类型
+ * 用于保存计划变更
  */
-export interface GrantParams {
+export interface ScheduledTierChangeInput {
   /** 用户 ID */
   userId: string;
-  /** 发放金额 */
-  amount: number;
-  /** 操作名称 (用于记录) */
-  action: string;
-  /** 幂等键 (可选) */
-  idempotencyKey?: string;
+  /** 目标会员等级 */
+  targetTier: string;
+  /** 生效时间 */
+  effectiveAt: Date;
   /** 元数据 (可选) */
   metadata?: Record<string, any>;
-  /** 事务上下文 (可选) */
-  txn?: any;
 }
 
 /**
- * 发放结果类型
- * grant 方法的返回值
+ * 设置成员消费限额参数类型
+ * 用于调用 setMemberSpendingLimit 方法
  */
-export interface GrantResult {
-  /** 操作是否成功 */
-  success: true;
-  /** 交易 ID */
-  transactionId: string;
-  /** 发放金额 */
-  amount: number;
-  /** 操作后余额 */
-  balanceAfter: number;
+export interface SetMemberSpendingLimitParams {
+  /** 组织 ID */
+  organizationId: string;
+  /** 成员的用户 ID */
+  userId: string;
+  /** 统计周期 */
+  period: SpendingLimitPeriod;
+  /** 周期内允许消费的最大积分 (null 表示移除该周期的限额) */
+  limit: number | null;
+  /** 事务上下文 (可选) */
+  txn?: any;
 }
 
 /**
@@ -477,6 +1230,9 @@ export interface DynamicCostConfig {
   [action: string]: {
     /** 默认成本或公式 (无会员或未定义等级时使用) */
     default: number | string;
+    /** 扣费的钱包 (可选，未配置时为默认钱包) */
+    wallet?: string;
+  } & {
     /** 各会员等级的成本或公式 */
     [tier: string]: number | string;
   };
@@ -739,6 +1495,120 @@ export interface MembershipConfig {
   };
   /** 每个等级的积分上限 */
   creditsCaps: TierCreditsCapConfig;
+  /**
+   * 每个等级的透支额度 (可选)
+   * 会员有效期内，该等级用户的默认钱包扣费可以使余额降到 -透支额度；未配置的等级不能透支
+   */
+  overdraftLimits?: TierOverdraftLimitConfig;
+  /**
+   * 会员到期后降级到的等级 (可选)
+   * processExpiredMemberships 需要此配置
+   */
+  fallbackTier?: string;
+  /**
+   * 每个等级续费时剩余积分的处理策略 (可选)
+   * 未配置的等级使用 reset 策略
+   */
+  rolloverPolicies?: TierRolloverPolicyConfig;
+  /**
+   * 周期中途变更等级时的按比例折算配置 (可选)
+   * 配置后 upgradeTier 和 downgradeTier 默认按剩余时间折算积分变动
+   */
+  proration?: ProrationConfig;
+  /**
+   * 可以试用的等级及试用天数 (可选)
+   * startTrial 只能开始这里配置的等级的试用
+   */
+  trialDays?: TierTrialDaysConfig;
+  /**
+   * 会员到期后仍保留权限的宽限天数 (可选，默认为 0)
+   * 试用到期后没有宽限期
+   */
+  gracePeriodDays?: number;
+  /**
+   * 权益配置 (可选)
+   * 等级和附加包授予命名的功能，操作可以要求功能，与 requirements 中的最低等级同时生效
+   */
+  entitlements?: EntitlementsConfig;
+}
+
+/**
+ * 权益配置
+ * 例如 { addOns: { 'api-access': ['api'] }, requirements: { 'call-api': ['api'] } }
+ * 让免费用户购买 api-access 附加包后可以执行 call-api
+ */
+export interface EntitlementsConfig {
+  /** 每个等级授予的功能；用户同时拥有所有不高于其等级的等级授予的功能 */
+  tiers?: {
+    [tier: string]: string[];
+  };
+  /** 每个附加包授予的功能；附加包独立于会员等级，不随会员到期失效 */
+  addOns?: {
+    [addOn: string]: string[];
+  };
+  /** 操作所需的功能，用户必须拥有全部功能 */
+  requirements?: {
+    [action: string]: string[];
+  };
+}
+
+/**
+ * 会员等级试用天数配置
+ * 值为正数，例如 { premium: 7 } 表示可以试用 7 天 premium
+ */
+export interface TierTrialDaysConfig {
+  [tier: string]: number;
+}
+
+/**
+ * 会员状态
+ * - none: 没有会员等级
+ * - active: 会员有效（包括永久会员）
+ * - trial: 试用中
+ * - grace: 已到期但仍在宽限期内，保留会员权限
+ * - expired: 已到期，视为无会员
+ */
+export type MembershipState = 'none' | 'active' | 'trial' | 'grace' | 'expired';
+
+/**
+ * 按比例折算配置
+ */
+export interface ProrationConfig {
+  /** 一个计费周期的天数，剩余时间占比 = 距 membershipExpiresAt 的时间 / 周期长度 */
+  periodDays: number;
+  /** 折算结果的取整方式 (默认为 round)，按 Math.floor / Math.ceil / Math.round 处理 */
+  rounding?: ProrationRounding;
+}
+
+/**
+ * 折算结果的取整方式
+ */
+export type ProrationRounding = 'floor' | 'ceil' | 'round';
+
+/**
+ * 续费时剩余积分的处理策略
+ * - reset: 剩余积分作废，余额重置为等级上限
+ * - accumulate: 保留全部剩余积分，再加上等级上限
+ * - carryover: 最多保留 maxCredits 积分或等级上限的 maxPercent%（同时配置时取较小值），其余作废，再加上等级上限
+ */
+export type RolloverPolicy =
+  | { type: 'reset' }
+  | { type: 'accumulate' }
+  | { type: 'carryover'; maxPercent?: number; maxCredits?: number };
+
+/**
+ * 会员等级续费策略配置
+ */
+export interface TierRolloverPolicyConfig {
+  [tier: string]: RolloverPolicy;
+}
+
+/**
+ * 会员等级透支额度配置
+ * 值为非负数，例如 1000 表示余额最低可到 -1000
+ */
+export interface TierOverdraftLimitConfig {
+  [tier: string]: number;
 }
 
 /**
@@ -756,6 +1626,65 @@ export interface RetryConfig {
   maxDelay: number;
   /** 退避倍数 */
   backoffMultiplier: number;
+  /** 退避抖动策略 (可选，默认 'none') */
+  jitter?: RetryJitter;
+  /**
+   * 单次操作所有尝试的总时间上限 (毫秒，可选)
+   * 下一次重试的等待会超过上限时不再重试，直接抛出最后一次的错误
+   */
+  deadline?: number;
+  /**
+   * 熔断器配置 (可选，未设置时不启用熔断)
+   * 连续的瞬态故障达到阈值后快速失败，不再访问存储
+   */
+  circuitBreaker?: CircuitBreakerConfig;
+}
+
+/**
+ * 重试退避抖动策略
+ * - none: 不加抖动，按指数退避等待
+ * - full: 在 0 到指数退避延迟之间均匀随机
+ * - decorrelated: 在 initialDelay 到上一次延迟的 3 倍之间均匀随机
+ */
+export type RetryJitter = 'none' | 'full' | 'decorrelated';
+
+/**
+ * 瞬态错误分类函数类型
+ * 返回 true 表示可以重试，false 表示不应重试，undefined 表示交给默认规则判断
+ */
+export type TransientErrorClassifier = (error: unknown) => boolean | undefined;
+
+/**
+ * 熔断器配置类型
+ */
+export interface CircuitBreakerConfig {
+  /** 连续多少次瞬态故障后断开 */
+  failureThreshold: number;
+  /** 断开后多久允许一次试探请求 (毫秒) */
+  resetTimeout: number;
+}
+
+/**
+ * 熔断器状态
+ * - closed: 正常放行
+ * - open: 拒绝所有请求
+ * - half-open: 放行一次试探请求，成功后闭合，失败后重新断开
+ */
+export type CircuitBreakerState = 'closed' | 'open' | 'half-open';
+
+/**
+ * 熔断器状态快照
+ * getCircuitBreakerStatus 方法的返回值
+ */
+export interface CircuitBreakerStatus {
+  /** 当前状态 */
+  state: CircuitBreakerState;
+  /** 连续瞬态故障次数 */
+  consecutiveFailures: number;
+  /** 最近一次断开的时间 (仅在 open 和 half-open 状态下存在) */
+  openedAt?: Date;
+  /** 允许试探请求的时间 (仅在 open 和 half-open 状态下存在) */
+  retryAt?: Date;
 }
 
 /**
@@ -767,6 +1696,21 @@ export interface IdempotencyConfig {
   enabled: boolean;
   /** 记录保留时间 (秒) */
   ttl: number;
+  /**
+   * 执行中请求占用幂等键的最长时间 (秒，可选，默认 60)
+   * 超过后视为请求已中断（如进程崩溃），其他请求可接管该幂等键
+   */
+  lockTimeout?: number;
+  /**
+   * 重复请求等待执行中请求完成的最长时间 (毫秒，可选，默认 0)
+   * 为 0 时立即抛出 IdempotencyRequestInProgressError
+   */
+  waitTimeout?: number;
+  /**
+   * 是否仍按原始幂等键查找未划分作用域的旧记录 (可选，默认 true)
+   * 按操作类型划分幂等键之前保存的记录只能这样命中；升级后超过 ttl 即可关闭
+   */
+  legacyKeyLookup?: boolean;
 }
 
 /**
@@ -778,6 +1722,83 @@ export interface AuditConfig {
   enabled: boolean;
 }
 
+/**
+ * 预授权配置类型
+ * 定义积分冻结行为
+ */
+export interface ReservationConfig {
+  /** 默认冻结有效期 (秒) */
+  defaultTtl: number;
+}
+
+/**
+ * 用量配额的统计窗口
+ * 按 UTC 对齐的固定窗口：整分钟、整点、当天 0 点或当月 1 日 0 点开始
+ */
+export type QuotaWindow = 'minute' | 'hour' | 'day' | 'month';
+
+/**
+ * 用量配额规则
+ */
+export interface QuotaRule {
+  /** 窗口内允许执行操作的最大次数 */
+  limit: number;
+  /** 统计窗口 */
+  window: QuotaWindow;
+}
+
+/**
+ * 用量配额配置类型
+ * 按操作和会员等级限制执行次数，与 costs 的结构相同：
+ * 等级没有配置时使用 default，值为 null 表示不限次数，数组表示同时满足多条规则
+ * 
+ * @example
+ * ```typescript
+ * const quotas: QuotaConfig = {
+ *   'generate-post': {
+ *     default: { limit: 20, window: 'day' },
+ *     premium: [{ limit: 10, window: 'minute' }, { limit: 1000, window: 'day' }]
+ *   }
+ * };
+ * ```
+ */
+export interface QuotaConfig {
+  [action: string]: {
+    [tier: string]: QuotaRule | QuotaRule[] | null;
+  };
+}
+
+/**
+ * 单条配额规则的用量
+ */
+export interface QuotaUsage {
+  /** 操作名称 */
+  action: string;
+  /** 窗口内允许执行的最大次数 */
+  limit: number;
+  /** 统计窗口 */
+  window: QuotaWindow;
+  /** 当前窗口内已执行的次数 */
+  used: number;
+  /** 当前窗口内剩余的次数 */
+  remaining: number;
+  /** 当前窗口结束、用量重置的时间 */
+  resetsAt: Date;
+}
+
+/**
+ * 用户配额状态类型
+ * getQuotaStatus 方法的返回值
+ */
+export interface QuotaStatus {
+  /** 用户 ID */
+  userId: string;
+  /** 选择配额规则使用的有效会员等级 (会员过期且不在宽限期内时为 null) */
+  tier: string | null;
+  /** 适用于该用户的每条配额规则的用量，按配置顺序排列 */
+  quotas: QuotaUsage[];
+}
+
 /**
  * SDK 配置类型
  * 包含所有配置选项
@@ -785,6 +1806,8 @@ export interface AuditConfig {
 export interface CreditsConfig {
   /** 成本配置 (支持固定成本和动态公式) */
   costs: DynamicCostConfig;
+  /** 用量配额配置 (可选，charge 扣费前检查) */
+  quotas?: QuotaConfig;
   /** 会员配置 */
   membership: MembershipConfig;
   /** 重试配置 */
@@ -793,6 +1816,8 @@ export interface CreditsConfig {
   idempotency: IdempotencyConfig;
   /** 审计配置 */
   audit: AuditConfig;
+  /** 预授权配置 (可选，默认冻结有效期 3600 秒) */
+  reservations?: ReservationConfig;
 }
 
 /**
@@ -806,6 +1831,8 @@ export interface UpgradeTierParams {
   targetTier: string;
   /** 会员到期时间（可选，null表示不更新） */
   membershipExpiresAt?: Date | null;
+  /** 是否按剩余时间折算积分（可选，配置了 membership.proration 时默认为 true） */
+  prorate?: boolean;
   /** 幂等键（可选，用于防止重复操作） */
   idempotencyKey?: string;
   /** 元数据（可选，存储额外信息） */
@@ -825,6 +1852,201 @@ export interface DowngradeTierParams {
   targetTier: string;
   /** 是否清除会员到期时间（可选，默认false） */
   clearExpiration?: boolean;
+  /** 是否按剩余时间折算积分（可选，配置了 membership.proration 时默认为 true） */
+  prorate?: boolean;
+  /** 是否推迟到当前周期结束（membershipExpiresAt）时降级（可选，默认false） */
+  atPeriodEnd?: boolean;
+  /** 幂等键（可选，用于防止重复操作） */
+  idempotencyKey?: string;
+  /** 元数据（可选，存储额外信息） */
+  metadata?: Record<string, any>;
+  /** 事务上下文（可选，用于事务透传） */
+  txn?: any;
+}
+
+/**
+ * 计划等级变更参数
+ * 用于调用 scheduleTierChange 方法
+ */
+export interface ScheduleTierChangeParams {
+  /** 用户 ID */
+  userId: string;
+  /** 目标会员等级，可以高于或低于当前等级 */
+  targetTier: string;
+  /** 生效时间，必须晚于当前时间 */
+  effectiveAt: Date;
+  /** 幂等键（可选，用于防止重复操作） */
+  idempotencyKey?: string;
+  /** 元数据（可选，生效时合并到等级变更的交易记录中） */
+  metadata?: Record<string, any>;
+  /** 事务上下文（可选，用于事务透传） */
+  txn?: any;
+}
+
+/**
+ * 计划等级变更结果
+ * scheduleTierChange 方法的返回值
+ */
+export interface ScheduleTierChangeResult {
+  /** 操作是否成功 */
+  success: true;
+  /** 金额为 0 的 tier-upgrade-scheduled / tier-downgrade-scheduled 交易 ID */
+  transactionId: string;
+  /** 保存的计划变更 */
+  scheduledChange: ScheduledTierChange;
+  /** 被替换的计划变更（没有时为 null） */
+  replaced: ScheduledTierChange | null;
+}
+
+/**
+ * 取消计划等级变更参数
+ * 用于调用 cancelScheduledTierChange 方法
+ */
+export interface CancelScheduledTierChangeParams {
+  /** 用户 ID */
+  userId: string;
+  /** 元数据（可选，记录在审计日志中） */
+  metadata?: Record<string, any>;
+  /** 事务上下文（可选，用于事务透传） */
+  txn?: any;
+}
+
+/**
+ * 取消计划等级变更结果
+ * cancelScheduledTierChange 方法的返回值
+ */
+export interface CancelScheduledTierChangeResult {
+  /** 操作是否成功 */
+  success: true;
+  /** 被取消的计划变更（没有计划变更时为 null） */
+  cancelled: ScheduledTierChange | null;
+}
+
+/**
+ * 会员状态
+ * getMembershipStatus 方法的返回值
+ */
+export interface MembershipStatus {
+  /** 用户 ID */
+  userId: string;
+  /** 存储的会员等级 */
+  tier: string | null;
+  /** 会员到期时间 (null 表示永久会员或没有会员) */
+  expiresAt: Date | null;
+  /** 会员是否已过期（宽限期内也为 true） */
+  expired: boolean;
+  /** 会员状态 */
+  state: MembershipState;
+  /** 试用结束时间（仅试用中存在） */
+  trialEndsAt?: Date;
+  /** 宽限期结束时间（仅宽限期内存在） */
+  graceEndsAt?: Date;
+  /** 计划中的等级变更（没有时为 null） */
+  pendingChange: ScheduledTierChange | null;
+}
+
+/**
+ * 开始试用参数
+ * 用于调用 startTrial 方法
+ */
+export interface StartTrialParams {
+  /** 用户 ID */
+  userId: string;
+  /** 试用的会员等级，必须在 membership.trialDays 中配置 */
+  tier: string;
+  /** 幂等键（可选，用于防止重复操作） */
+  idempotencyKey?: string;
+  /** 元数据（可选，存储额外信息） */
+  metadata?: Record<string, any>;
+  /** 事务上下文（可选，用于事务透传） */
+  txn?: any;
+}
+
+/**
+ * 开始试用结果
+ * startTrial 方法的返回值
+ */
+export interface StartTrialResult extends TierChangeResult {
+  /** 试用结束时间，同时设为会员到期时间 */
+  trialEndsAt: Date;
+  /** 试用结束后恢复到的等级（没有时为 null，试用结束后视为无会员） */
+  revertTier: string | null;
+}
+
+/**
+ * 用户持有的附加包
+ */
+export interface UserAddOn {
+  /** 用户 ID */
+  userId: string;
+  /** 附加包名称，对应 membership.entitlements.addOns 的键 */
+  addOn: string;
+  /** 授予时间 */
+  createdAt: Date;
+}
+
+/**
+ * 授予或撤销附加包的参数类型
+ * 用于 grantAddOn 和 revokeAddOn 方法
+ */
+export interface AddOnParams {
+  /** 用户 ID */
+  userId: string;
+  /** 附加包名称 */
+  addOn: string;
+  /** 元数据（可选，记录在审计日志中） */
+  metadata?: Record<string, any>;
+  /** 事务上下文（可选，用于事务透传） */
+  txn?: any;
+}
+
+/**
+ * 授予或撤销附加包的结果类型
+ */
+export interface AddOnResult {
+  /** 操作是否成功 */
+  success: true;
+  /** 用户 ID */
+  userId: string;
+  /** 操作后用户持有的附加包，按授予时间排序 */
+  addOns: string[];
+  /** 是否发生变化（重复授予或撤销未持有的附加包时为 false） */
+  changed: boolean;
+}
+
+/**
+ * 用户权益类型
+ * getEntitlements 方法的返回值
+ */
+export interface UserEntitlements {
+  /** 用户 ID */
+  userId: string;
+  /** 授予功能的有效会员等级（会员过期且不在宽限期内时为 null） */
+  tier: string | null;
+  /** 用户持有的附加包，按授予时间排序 */
+  addOns: string[];
+  /** 用户拥有的功能，去重并排序 */
+  entitlements: string[];
+}
+
+/**
+ * 访问权限验证选项
+ * 用于 validateAccess 方法
+ */
+export interface ValidateAccessOptions {
+  /** 是否返回验证详情而不是 true (默认为 false) */
+  details?: boolean;
+}
+
+/**
+ * 会员续费参数
+ * 用于调用 renewMembership 方法
+ */
+export interface RenewMembershipParams {
+  /** 用户 ID */
+  userId: string;
+  /** 新计费周期的结束时间，续费后设为会员到期时间 */
+  periodEnd: Date;
   /** 幂等键（可选，用于防止重复操作） */
   idempotencyKey?: string;
   /** 元数据（可选，存储额外信息） */
@@ -833,6 +2055,31 @@ export interface DowngradeTierParams {
   txn?: any;
 }
 
+/**
+ * 会员续费结果
+ * renewMembership 方法的返回值
+ */
+export interface RenewMembershipResult {
+  /** 操作是否成功 */
+  success: true;
+  /** 续费的会员等级 */
+  tier: string;
+  /** 使用的续费策略 */
+  policy: RolloverPolicy['type'];
+  /** 续费前的积分余额 */
+  oldCredits: number;
+  /** 保留到新周期的剩余积分 */
+  carriedOver: number;
+  /** 作废的剩余积分 */
+  forfeited: number;
+  /** 新周期发放的积分（等级上限） */
+  granted: number;
+  /** 续费后的积分余额 */
+  newCredits: number;
+  /** 生成的交易 ID（membership-reset 在前，没有作废积分时只有 membership-rollover） */
+  transactionIds: string[];
+}
+
 /**
  * 等级变更结果
  * upgradeTier 和 downgradeTier 方法的返回值
@@ -852,4 +2099,31 @@ export interface TierChangeResult {
   newCredits: number;
   /** 积分变动量 */
   creditsDelta: number;
+  /** 按比例折算的计算过程（仅折算时存在） */
+  proration?: ProrationDetails;
+  /** 计划降级的生效时间（仅 atPeriodEnd 时存在，此时等级和积分尚未变更） */
+  effectiveAt?: Date;
+}
+
+/**
+ * 按比例折算的计算过程
+ * 同时记录在 TierChangeResult 和交易记录的 metadata.proration 中
+ */
+export interface ProrationDetails {
+  /** 当前周期结束时间 (ISO 8601) */
+  periodEnd: string;
+  /** 计费周期天数 */
+  periodDays: number;
+  /** 剩余时间占周期的比例 (0-1) */
+  fraction: number;
+  /** 原等级积分上限 */
+  oldCap: number;
+  /** 新等级积分上限 */
+  newCap: number;
+  /** 未取整的折算积分：(newCap - oldCap) * fraction */
+  rawDelta: number;
+  /** 取整方式 */
+  rounding: ProrationRounding;
+  /** 取整后的折算积分；降级时余额最多扣至 0，实际变动见 creditsDelta */
+  proratedDelta: number;
 }
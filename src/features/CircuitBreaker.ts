@@ -0,0 +1,155 @@
+/**
+ * CircuitBreaker - 熔断器模块
+ * 存储持续故障时快速失败，避免重试请求继续压向正在恢复的数据库
+ */
+
+import { CircuitBreakerConfig, CircuitBreakerState, CircuitBreakerStatus } from '../core/types';
+import { CircuitOpenError } from '../core/errors';
+import { ILogAdapter } from '../adapters/ILogAdapter';
+
+/**
+ * 熔断器类
+ * 按连续瞬态故障次数在 closed / open / half-open 之间切换
+ * 
+ * 状态转换：
+ * - closed: 连续故障达到 failureThreshold 后断开
+ * - open: 拒绝所有请求，resetTimeout 毫秒后进入 half-open
+ * - half-open: 只放行一次试探请求，成功后闭合，失败后重新断开
+ * 
+ * 状态转换会通过日志适配器记录。
+ * 
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker({ failureThreshold: 5, resetTimeout: 30000 }, logger);
+ * 
+ * breaker.acquire(); // 断开时抛出 CircuitOpenError
+ * try {
+ *   const result = await storageCall();
+ *   breaker.recordSuccess();
+ *   return result;
+ * } catch (error) {
+ *   breaker.recordFailure();
+ *   throw error;
+ * }
+ * ```
+ */
+export class CircuitBreaker {
+  private state: CircuitBreakerState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  /**
+   * 创建一个新的 CircuitBreaker 实例
+   * @param config - 熔断器配置
+   * @param logger - 日志适配器（可选）
+   */
+  constructor(
+    private config: CircuitBreakerConfig,
+    private logger?: ILogAdapter
+  ) {}
+
+  /**
+   * 获取熔断器当前状态
+   * 
+   * @returns 状态快照
+   */
+  getStatus(): CircuitBreakerStatus {
+    const state = this.refreshState();
+
+    if (this.openedAt === null || state === 'closed') {
+      return { state, consecutiveFailures: this.consecutiveFailures };
+    }
+
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: new Date(this.openedAt),
+      retryAt: this.retryAt()
+    };
+  }
+
+  /**
+   * 在请求前申请放行
+   * 
+   * 每次放行后必须调用 recordSuccess 或 recordFailure 报告结果。
+   * 
+   * @throws {CircuitOpenError} 当熔断器断开，或 half-open 状态下已有试探请求在执行时
+   */
+  acquire(): void {
+    const state = this.refreshState();
+
+    if (state === 'closed') {
+      return;
+    }
+
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+
+    throw new CircuitOpenError(this.retryAt());
+  }
+
+  /**
+   * 报告请求成功（包括存储可用、但因业务规则失败的请求）
+   */
+  recordSuccess(): void {
+    this.trialInFlight = false;
+    this.consecutiveFailures = 0;
+
+    if (this.state !== 'closed') {
+      this.state = 'closed';
+      this.openedAt = null;
+      this.logger?.info('Circuit breaker closed', { state: this.state });
+    }
+  }
+
+  /**
+   * 报告请求因瞬态故障失败
+   */
+  recordFailure(): void {
+    this.trialInFlight = false;
+    this.consecutiveFailures++;
+
+    if (
+      this.state === 'half-open' ||
+      (this.state === 'closed' && this.consecutiveFailures >= this.config.failureThreshold)
+    ) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      this.logger?.warn('Circuit breaker opened', {
+        state: this.state,
+        consecutiveFailures: this.consecutiveFailures,
+        retryAt: this.retryAt()
+      });
+    }
+  }
+
+  /**
+   * 断开时间超过 resetTimeout 后切换到 half-open
+   * 
+   * @returns 切换后的状态
+   */
+  private refreshState(): CircuitBreakerState {
+    if (
+      this.state === 'open' &&
+      this.openedAt !== null &&
+      Date.now() >= this.openedAt + this.config.resetTimeout
+    ) {
+      this.state = 'half-open';
+      this.logger?.info('Circuit breaker half-open', { state: this.state });
+    }
+
+    return this.state;
+  }
+
+  /**
+   * 计算允许试探请求的时间
+   * 
+   * @returns 断开时间 + resetTimeout
+   */
+  private retryAt(): Date {
+    return new Date((this.openedAt ?? Date.now()) + this.config.resetTimeout);
+  }
+}
@@ -247,7 +247,7 @@
 import { CostFormula } from './CostFormula';
 import { FormulaParser, ParsedFormula } from './FormulaParser';
 import { DynamicCostConfig, CalculationDetails } from '../core/types';
-import { UndefinedActionError } from '../core/errors';
+import { UndefinedActionError, ConfigurationError } from '../core/errors';
 
 /**
  * 动态成本计算类
@@ -307,7 +307,8 @@ export class DynamicCostFormula extends CostFormula {
 
   /**
    * 验证配置中的所有动态公式
-   * 在构造函数中调用，确保所有公式语法正确
+   * 在构造函数中调用，确保所有公式语法正确，
+   * 且调用的函数都在白名单中、参数个数正确
    * 
    * @throws {ConfigurationError} 当任何公式语法无效时
    * @private
@@ -319,12 +320,17 @@ export class DynamicCostFormula extends CostFormula {
       
       // 遍历该操作的所有配置项（default + 各个会员等级）
       for (const key in actionConfig) {
+        // wallet 是钱包名称，不是成本
+        if (key === 'wallet') {
+          continue;
+        }
+
         const value = actionConfig[key];
         
         // 如果是字符串，说明是动态公式，需要验证
         if (typeof value === 'string') {
           try {
-            // 验证公式语法
+            // 验证公式语法（包括函数名和参数个数）
             this.parser.validate(value);
             
             // 解析并缓存公式
@@ -332,7 +338,7 @@ export class DynamicCostFormula extends CostFormula {
             this.formulaCache.set(value, parsed);
           } catch (error) {
             // 如果验证失败，抛出更详细的错误信息
-            throw new Error(
+            throw new ConfigurationError(
               `Invalid formula for action '${action}' (${key}): ${
                 error instanceof Error ? error.message : String(error)
               }`
@@ -2,6 +2,9 @@
  * FormulaParser - 公式解析器
  * 负责解析、验证和执行数学公式，支持动态成本计算
  * 
+ * 公式由内置的词法分析器、语法分析器和树遍历求值器执行，不使用 `eval` / `new Function`，
+ * 因此可以安全地执行存储在数据库中或由管理员编辑的公式，也可以运行在禁止 eval 的环境中。
+ * 
  * ## 支持的功能
  * 
  * ### 变量占位符
@@ -16,6 +19,14 @@
  * - 三元运算符：`condition ? value1 : value2` 用于条件计算
  * - 比较运算符：`<`, `>`, `<=`, `>=`, `==`, `!=`
  * 
+ * ### 内置函数
+ * - `min(a, b, ...)` / `max(a, b, ...)`：最小值 / 最大值（至少 1 个参数）
+ * - `ceil(x)` / `floor(x)` / `abs(x)`：向上取整 / 向下取整 / 绝对值
+ * - `round(x)` / `round(x, digits)`：四舍五入，可指定保留的小数位数
+ * - `clamp(x, lo, hi)`：将 x 限制在 [lo, hi] 范围内
+ * 
+ * 只允许以上白名单中的函数，未知函数或参数个数不符时在验证阶段抛出 FormulaSyntaxError。
+ * 
  * ### 数字常量
  * - 整数：`10`, `100`, `1000`
  * - 小数：`0.5`, `0.001`, `3.14`
@@ -49,7 +60,14 @@
  * console.log(cost2); // 150
  * ```
  * 
- * ### 3. 多变量计费
+ * ### 3. 上下限与取整
+ * ```typescript
+ * // 每开始 1k token 收 1 credit，至少 1 credit，最多 500 credit
+ * const cost = parser.evaluate('clamp(ceil({token} / 1000), 1, 500)', { token: 3500 });
+ * console.log(cost); // 4
+ * ```
+ * 
+ * ### 4. 多变量计费
  * ```typescript
  * // 视频处理：基于时长和分辨率
  * const formula = '{duration} * 2 + {resolution} * 0.5';
@@ -57,7 +75,7 @@
  * console.log(cost); // 780
  * ```
  * 
- * ### 4. 公式验证
+ * ### 5. 公式验证
  * ```typescript
  * // 验证有效公式
  * parser.validate('{token} * 0.5'); // 通过
@@ -66,23 +84,24 @@
  * try {
  *   parser.validate('{token * 0.5'); // 括号不匹配
  * } catch (error) {
- *   console.error(error.message); // "Mismatched braces: unclosed opening braces"
+ *   console.error(error.message); // "Invalid formula '{token * 0.5' at position 0: unclosed '{'"
  * }
  * 
  * try {
  *   parser.validate('{token-count} * 0.5'); // 变量名包含连字符
  * } catch (error) {
- *   console.error(error.message); // "Invalid variable name 'token-count'..."
+ *   console.error(error.message); // "...invalid variable name 'token-count'..."
  * }
  * ```
  * 
  * ## 错误处理
  * 
- * ### ConfigurationError
- * 公式语法无效时抛出：
+ * ### FormulaSyntaxError (ConfigurationError 的子类)
+ * 公式语法无效时抛出，`position` 为出错的字符位置（从 0 开始）：
  * - 括号不匹配
  * - 变量名不符合规范
- * - 包含非法字符
+ * - 包含非法字符或不支持的语法（如裸标识符、`&&`、`%`）
+ * - 调用未知函数或函数参数个数不符
  * 
  * ### MissingVariableError
  * 计算时缺少必需变量：
@@ -116,32 +135,442 @@
  * @see {@link ConfigurationError} 配置错误
  */
 
-import { ConfigurationError, MissingVariableError, FormulaEvaluationError } from '../core/errors';
+import {
+  ConfigurationError,
+  MissingVariableError,
+  FormulaEvaluationError,
+  FormulaSyntaxError
+} from '../core/errors';
+
+/**
+ * 二元运算符
+ */
+export type BinaryOperator = '+' | '-' | '*' | '/' | '<' | '>' | '<=' | '>=' | '==' | '!=';
+
+/**
+ * 公式语法树节点
+ * 每个节点都记录其在原始公式中的字符位置（从 0 开始）
+ */
+export type FormulaNode =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'variable'; name: string; position: number }
+  | { type: 'unary'; operator: '+' | '-'; operand: FormulaNode; position: number }
+  | { type: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode; position: number }
+  | { type: 'conditional'; test: FormulaNode; consequent: FormulaNode; alternate: FormulaNode; position: number }
+  | { type: 'call'; name: string; args: FormulaNode[]; position: number };
 
 /**
  * 解析后的公式对象
- * 包含原始公式、提取的变量和编译后的计算函数
+ * 包含原始公式、提取的变量、语法树和计算函数
  */
 export interface ParsedFormula {
   /** 原始公式字符串 */
   raw: string;
   /** 提取的变量名列表 */
   variables: string[];
+  /** 公式语法树 */
+  ast: FormulaNode;
   /** 编译后的计算函数 */
   compute: (variables: Record<string, number>) => number;
 }
 
 /**
- * 公式解析器类
- * 负责解析、验证和执行数学公式
+ * 词法单元
  */
-export class FormulaParser {
+interface Token {
+  type: 'number' | 'variable' | 'identifier' | 'operator' | 'eof';
+  value: string;
+  position: number;
+}
+
+/**
+ * 求值过程中的中间值
+ * 比较运算产生布尔值，与 JavaScript 表达式语义保持一致
+ */
+type FormulaValue = number | boolean;
+
+/** 变量名正则表达式：字母开头，后跟字母、数字或下划线 */
+const VARIABLE_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+
+/** 数字常量：整数、小数及可选的科学计数法指数 */
+const NUMBER_PATTERN = /(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/y;
+
+/** 裸标识符（不在 {} 中的名称） */
+const IDENTIFIER_PATTERN = /[a-zA-Z_][a-zA-Z0-9_]*/y;
+
+/** 运算符、括号和参数分隔符，多字符运算符在前以优先匹配 */
+const OPERATORS = ['<=', '>=', '==', '!=', '+', '-', '*', '/', '<', '>', '?', ':', '(', ')', ','];
+
+/**
+ * 内置函数定义
+ */
+interface FormulaFunction {
+  /** 最少参数个数 */
+  minArgs: number;
+  /** 最多参数个数 */
+  maxArgs: number;
+  /** 函数实现 */
+  apply: (args: number[]) => number;
+}
+
+/**
+ * 公式中允许调用的函数白名单
+ */
+const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  min: { minArgs: 1, maxArgs: Infinity, apply: args => Math.min(...args) },
+  max: { minArgs: 1, maxArgs: Infinity, apply: args => Math.max(...args) },
+  ceil: { minArgs: 1, maxArgs: 1, apply: ([x]) => Math.ceil(x!) },
+  floor: { minArgs: 1, maxArgs: 1, apply: ([x]) => Math.floor(x!) },
+  abs: { minArgs: 1, maxArgs: 1, apply: ([x]) => Math.abs(x!) },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    apply: ([x, digits = 0]) => {
+      const factor = Math.pow(10, digits);
+      return Math.round(x! * factor) / factor;
+    }
+  },
+  clamp: { minArgs: 3, maxArgs: 3, apply: ([x, lo, hi]) => Math.min(Math.max(x!, lo!), hi!) }
+};
+
+/** 最大嵌套深度，防止恶意公式导致栈溢出 */
+const MAX_NESTING_DEPTH = 100;
+
+/**
+ * 将公式字符串切分为词法单元
+ *
+ * @param formula - 公式字符串
+ * @returns 词法单元列表，以 eof 结尾
+ * @throws {FormulaSyntaxError} 当包含非法字符或变量占位符无效时
+ */
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < formula.length) {
+    const char = formula[index]!;
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    // 变量占位符 {name}
+    if (char === '{') {
+      let end = index + 1;
+      while (end < formula.length && formula[end] !== '}') {
+        if (formula[end] === '{') {
+          throw new FormulaSyntaxError(formula, end, "unexpected '{' inside variable placeholder");
+        }
+        end++;
+      }
+
+      if (end >= formula.length) {
+        throw new FormulaSyntaxError(formula, index, "unclosed '{'");
+      }
+
+      const name = formula.slice(index + 1, end);
+      if (name.trim().length === 0) {
+        throw new FormulaSyntaxError(formula, index, 'variable name cannot be empty');
+      }
+      if (!VARIABLE_NAME_PATTERN.test(name)) {
+        throw new FormulaSyntaxError(
+          formula,
+          index + 1,
+          `invalid variable name '${name}': must start with a letter and contain only letters, numbers, and underscores`
+        );
+      }
+
+      tokens.push({ type: 'variable', value: name, position: index });
+      index = end + 1;
+      continue;
+    }
+
+    NUMBER_PATTERN.lastIndex = index;
+    const numberMatch = NUMBER_PATTERN.exec(formula);
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: numberMatch[0], position: index });
+      index += numberMatch[0].length;
+      continue;
+    }
+
+    IDENTIFIER_PATTERN.lastIndex = index;
+    const identifierMatch = IDENTIFIER_PATTERN.exec(formula);
+    if (identifierMatch) {
+      tokens.push({ type: 'identifier', value: identifierMatch[0], position: index });
+      index += identifierMatch[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => formula.startsWith(op, index));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: index });
+      index += operator.length;
+      continue;
+    }
+
+    throw new FormulaSyntaxError(formula, index, `unexpected character '${char}'`);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: formula.length });
+  return tokens;
+}
+
+/**
+ * 递归下降语法分析器
+ *
+ * 语法（优先级从低到高）：
+ * ```
+ * conditional    := equality ('?' conditional ':' conditional)?
+ * equality       := relational (('==' | '!=') relational)*
+ * relational     := additive (('<' | '>' | '<=' | '>=') additive)*
+ * additive       := multiplicative (('+' | '-') multiplicative)*
+ * multiplicative := unary (('*' | '/') unary)*
+ * unary          := ('+' | '-') unary | primary
+ * primary        := number | '{' name '}' | call | '(' conditional ')'
+ * call           := function '(' conditional (',' conditional)* ')'
+ * ```
+ */
+class FormulaAstBuilder {
+  private tokens: Token[];
+  private current = 0;
+  private depth = 0;
+
+  constructor(private formula: string) {
+    this.tokens = tokenize(formula);
+  }
+
+  /**
+   * 构建完整公式的语法树
+   * @throws {FormulaSyntaxError} 当公式不符合语法时
+   */
+  build(): FormulaNode {
+    const node = this.parseConditional();
+    const next = this.peek();
+
+    if (next.type !== 'eof') {
+      throw this.unexpected(next);
+    }
+
+    return node;
+  }
+
+  private parseConditional(): FormulaNode {
+    this.enter();
+    const test = this.parseEquality();
+
+    let node = test;
+    const question = this.peek();
+    if (this.matchOperator('?')) {
+      const consequent = this.parseConditional();
+      this.expectOperator(':', question);
+      const alternate = this.parseConditional();
+      node = { type: 'conditional', test, consequent, alternate, position: question.position };
+    }
+
+    this.depth--;
+    return node;
+  }
+
+  private parseEquality(): FormulaNode {
+    return this.parseBinary(['==', '!='], () => this.parseRelational());
+  }
+
+  private parseRelational(): FormulaNode {
+    return this.parseBinary(['<', '>', '<=', '>='], () => this.parseAdditive());
+  }
+
+  private parseAdditive(): FormulaNode {
+    return this.parseBinary(['+', '-'], () => this.parseMultiplicative());
+  }
+
+  private parseMultiplicative(): FormulaNode {
+    return this.parseBinary(['*', '/'], () => this.parseUnary());
+  }
+
+  /**
+   * 解析左结合的二元运算
+   */
+  private parseBinary(operators: BinaryOperator[], parseOperand: () => FormulaNode): FormulaNode {
+    let left = parseOperand();
+
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== 'operator' || !operators.includes(token.value as BinaryOperator)) {
+        return left;
+      }
+
+      this.current++;
+      const right = parseOperand();
+      left = {
+        type: 'binary',
+        operator: token.value as BinaryOperator,
+        left,
+        right,
+        position: token.position
+      };
+    }
+  }
+
+  private parseUnary(): FormulaNode {
+    const token = this.peek();
+
+    if (this.matchOperator('-') || this.matchOperator('+')) {
+      this.enter();
+      const operand = this.parseUnary();
+      this.depth--;
+      return { type: 'unary', operator: token.value as '+' | '-', operand, position: token.position };
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.peek();
+
+    if (token.type === 'number') {
+      this.current++;
+      return { type: 'number', value: Number(token.value), position: token.position };
+    }
+
+    if (token.type === 'variable') {
+      this.current++;
+      return { type: 'variable', name: token.value, position: token.position };
+    }
+
+    if (this.matchOperator('(')) {
+      const node = this.parseConditional();
+      this.expectOperator(')', token);
+      return node;
+    }
+
+    if (token.type === 'identifier' && this.isOperator(this.tokens[this.current + 1]!, '(')) {
+      return this.parseCall(token);
+    }
+
+    if (token.type === 'identifier') {
+      throw new FormulaSyntaxError(
+        this.formula,
+        token.position,
+        `unexpected identifier '${token.value}' (variables must be written as {${token.value}})`
+      );
+    }
+
+    throw this.unexpected(token);
+  }
+
+  /**
+   * 解析函数调用，并检查函数名是否在白名单中以及参数个数
+   */
+  private parseCall(name: Token): FormulaNode {
+    // 只查找白名单自身的属性，避免匹配到 constructor 等原型属性
+    const fn = Object.prototype.hasOwnProperty.call(FORMULA_FUNCTIONS, name.value)
+      ? FORMULA_FUNCTIONS[name.value]
+      : undefined;
+    if (!fn) {
+      throw new FormulaSyntaxError(
+        this.formula,
+        name.position,
+        `unknown function '${name.value}' (supported functions: ${Object.keys(FORMULA_FUNCTIONS).join(', ')})`
+      );
+    }
+
+    // 跳过函数名和左括号
+    this.current++;
+    const open = this.peek();
+    this.current++;
+
+    const args: FormulaNode[] = [];
+    if (!this.isOperator(this.peek(), ')')) {
+      do {
+        args.push(this.parseConditional());
+      } while (this.matchOperator(','));
+    }
+    this.expectOperator(')', open);
+
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+      const expected = fn.minArgs === fn.maxArgs
+        ? `${fn.minArgs}`
+        : fn.maxArgs === Infinity
+          ? `at least ${fn.minArgs}`
+          : `${fn.minArgs} to ${fn.maxArgs}`;
+
+      throw new FormulaSyntaxError(
+        this.formula,
+        name.position,
+        `function '${name.value}' expects ${expected} argument(s) but got ${args.length}`
+      );
+    }
+
+    return { type: 'call', name: name.value, args, position: name.position };
+  }
+
+  private isOperator(token: Token, operator: string): boolean {
+    return token.type === 'operator' && token.value === operator;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.current]!;
+  }
+
+  private matchOperator(operator: string): boolean {
+    if (this.isOperator(this.peek(), operator)) {
+      this.current++;
+      return true;
+    }
+    return false;
+  }
+
   /**
-   * 变量名正则表达式
-   * 匹配字母开头，后跟字母、数字或下划线
+   * 要求下一个词法单元为指定运算符
+   * @param operator - 期望的运算符
+   * @param opening - 与之配对的起始词法单元（用于错误信息）
    */
-  private readonly VARIABLE_NAME_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+  private expectOperator(operator: string, opening: Token): void {
+    if (this.matchOperator(operator)) {
+      return;
+    }
+
+    const token = this.peek();
+    if (token.type === 'eof') {
+      throw new FormulaSyntaxError(
+        this.formula,
+        opening.position,
+        `unclosed '${opening.value}': expected '${operator}'`
+      );
+    }
 
+    throw new FormulaSyntaxError(
+      this.formula,
+      token.position,
+      `expected '${operator}' but found '${token.value}'`
+    );
+  }
+
+  private enter(): void {
+    this.depth++;
+    if (this.depth > MAX_NESTING_DEPTH) {
+      throw new FormulaSyntaxError(
+        this.formula,
+        this.peek().position,
+        `formula is nested more than ${MAX_NESTING_DEPTH} levels deep`
+      );
+    }
+  }
+
+  private unexpected(token: Token): FormulaSyntaxError {
+    if (token.type === 'eof') {
+      return new FormulaSyntaxError(this.formula, token.position, 'unexpected end of formula');
+    }
+    return new FormulaSyntaxError(this.formula, token.position, `unexpected '${token.value}'`);
+  }
+}
+
+/**
+ * 公式解析器类
+ * 负责解析、验证和执行数学公式
+ */
+export class FormulaParser {
   /**
    * 变量占位符正则表达式
    * 匹配 {variableName} 格式
@@ -157,7 +586,7 @@ export class FormulaParser {
    * 解析公式字符串
    * 
    * 解析过程：
-   * 1. 验证公式语法
+   * 1. 构建语法树（同时完成语法验证）
    * 2. 提取所有变量名
    * 3. 构建计算函数
    * 
@@ -176,18 +605,19 @@ export class FormulaParser {
    * ```
    */
   parse(formula: string): ParsedFormula {
-    // 验证公式语法
-    this.validate(formula);
+    // 构建语法树
+    const ast = this.buildAst(formula);
 
     // 提取变量名
     const variables = this.extractVariables(formula);
 
     // 构建计算函数
-    const compute = this.buildComputeFunction(formula, variables);
+    const compute = this.buildComputeFunction(formula, variables, ast);
 
     return {
       raw: formula,
       variables,
+      ast,
       compute
     };
   }
@@ -199,10 +629,11 @@ export class FormulaParser {
    * 1. 公式不能为空
    * 2. 括号必须匹配
    * 3. 变量名必须符合命名规范
-   * 4. 不能包含非法字符
+   * 4. 只能包含数字、变量占位符、支持的运算符和括号
    * 
    * @param formula - 公式字符串
-   * @throws {ConfigurationError} 当公式语法无效时
+   * @throws {ConfigurationError} 当公式为空时
+   * @throws {FormulaSyntaxError} 当公式语法无效时，包含出错的字符位置
    * 
    * @example
    * ```typescript
@@ -212,78 +643,7 @@ export class FormulaParser {
    * ```
    */
   validate(formula: string): void {
-    // 1. 检查公式不能为空
-    if (!formula || formula.trim().length === 0) {
-      throw new ConfigurationError('Formula cannot be empty');
-    }
-
-    // 2. 检查括号匹配
-    let bracketCount = 0;
-    let braceCount = 0;
-    
-    for (let i = 0; i < formula.length; i++) {
-      const char = formula[i];
-      if (char === '(') bracketCount++;
-      if (char === ')') bracketCount--;
-      if (char === '{') braceCount++;
-      if (char === '}') braceCount--;
-      
-      // 括号计数不能为负（右括号多于左括号）
-      if (bracketCount < 0) {
-        throw new ConfigurationError('Mismatched parentheses: too many closing parentheses');
-      }
-      if (braceCount < 0) {
-        throw new ConfigurationError('Mismatched braces: too many closing braces');
-      }
-    }
-    
-    // 最终括号必须匹配
-    if (bracketCount !== 0) {
-      throw new ConfigurationError('Mismatched parentheses: unclosed opening parentheses');
-    }
-    if (braceCount !== 0) {
-      throw new ConfigurationError('Mismatched braces: unclosed opening braces');
-    }
-
-    // 3. 验证变量名规范
-    // 提取所有变量占位符
-    const placeholderPattern = /\{([^}]*)\}/g;
-    let match;
-    
-    while ((match = placeholderPattern.exec(formula)) !== null) {
-      const variableName = match[1];
-      
-      // 检查变量名是否为空
-      if (!variableName || variableName.trim().length === 0) {
-        throw new ConfigurationError('Variable name cannot be empty');
-      }
-      
-      // 检查变量名是否符合命名规范
-      if (!this.VARIABLE_NAME_PATTERN.test(variableName)) {
-        throw new ConfigurationError(
-          `Invalid variable name '${variableName}': must start with a letter and contain only letters, numbers, and underscores`
-        );
-      }
-    }
-
-    // 4. 检查非法字符
-    // 允许的字符：数字、字母、下划线、运算符、括号、空格、小数点
-    const allowedPattern = /^[a-zA-Z0-9_+\-*/(){}.\s?:<>=!&|]*$/;
-    if (!allowedPattern.test(formula)) {
-      throw new ConfigurationError('Formula contains invalid characters');
-    }
-
-    // 5. 尝试构建一个测试性的JavaScript表达式来验证语法
-    // 将变量占位符替换为有效的数字，然后尝试创建函数
-    const testFormula = formula.replace(this.VARIABLE_PLACEHOLDER_PATTERN, '1');
-    try {
-      // 使用 Function 构造函数测试语法
-      new Function(`return ${testFormula}`);
-    } catch (error) {
-      throw new ConfigurationError(
-        `Invalid formula syntax: ${error instanceof Error ? error.message : String(error)}`
-      );
-    }
+    this.buildAst(formula);
   }
 
   /**
@@ -347,18 +707,37 @@ export class FormulaParser {
     return parsed.compute(variables);
   }
 
+  /**
+   * 构建公式语法树
+   * 
+   * @param formula - 公式字符串
+   * @returns 语法树根节点
+   * @throws {ConfigurationError} 当公式为空时
+   * @throws {FormulaSyntaxError} 当公式语法无效时
+   * @private
+   */
+  private buildAst(formula: string): FormulaNode {
+    if (!formula || formula.trim().length === 0) {
+      throw new ConfigurationError('Formula cannot be empty');
+    }
+
+    return new FormulaAstBuilder(formula).build();
+  }
+
   /**
    * 构建计算函数
-   * 将公式字符串编译为可执行的函数
+   * 返回的函数在语法树上求值，不会执行任何动态生成的代码
    * 
    * @param formula - 公式字符串
    * @param variables - 变量名列表
+   * @param ast - 公式语法树
    * @returns 计算函数
    * @private
    */
   private buildComputeFunction(
     formula: string,
-    variables: string[]
+    variables: string[],
+    ast: FormulaNode
   ): (variables: Record<string, number>) => number {
     return (variableValues: Record<string, number>) => {
       // 检查所有必需的变量是否都提供了
@@ -369,12 +748,10 @@ export class FormulaParser {
         }
       }
 
-      // 将公式中的变量占位符替换为实际值
-      let jsExpression = formula;
+      // 验证变量值是有效的数字
       for (const variable of variables) {
         const value = variableValues[variable];
         
-        // 验证变量值是有效的数字
         if (typeof value !== 'number' || isNaN(value)) {
           throw new FormulaEvaluationError(
             formula,
@@ -382,58 +759,90 @@ export class FormulaParser {
             `Variable '${variable}' has invalid value: ${value}`
           );
         }
-        
-        // 替换变量占位符为实际值
-        // 使用全局替换确保所有出现的变量都被替换
-        const placeholder = `{${variable}}`;
-        jsExpression = jsExpression.split(placeholder).join(String(value));
       }
 
-      // 执行计算
-      try {
-        // 使用 Function 构造函数创建并执行表达式
-        const computeFn = new Function(`return ${jsExpression}`);
-        const result = computeFn();
-        
-        // 检查结果是否有效
-        if (typeof result !== 'number') {
-          throw new FormulaEvaluationError(
-            formula,
-            variableValues,
-            `Formula evaluation did not return a number: ${result}`
-          );
-        }
-        
-        if (isNaN(result)) {
-          throw new FormulaEvaluationError(
-            formula,
-            variableValues,
-            'Formula evaluation resulted in NaN'
-          );
-        }
-        
-        if (!isFinite(result)) {
-          throw new FormulaEvaluationError(
-            formula,
-            variableValues,
-            'Formula evaluation resulted in Infinity (possible division by zero)'
-          );
-        }
-        
-        return result;
-      } catch (error) {
-        // 如果是我们自己抛出的错误，直接重新抛出
-        if (error instanceof MissingVariableError || error instanceof FormulaEvaluationError) {
-          throw error;
-        }
-        
-        // 其他错误包装为 FormulaEvaluationError
+      const result = this.evaluateNode(ast, variableValues);
+
+      // 检查结果是否有效
+      if (typeof result !== 'number') {
+        throw new FormulaEvaluationError(
+          formula,
+          variableValues,
+          `Formula evaluation did not return a number: ${result}`
+        );
+      }
+      
+      if (isNaN(result)) {
+        throw new FormulaEvaluationError(
+          formula,
+          variableValues,
+          'Formula evaluation resulted in NaN'
+        );
+      }
+      
+      if (!isFinite(result)) {
         throw new FormulaEvaluationError(
           formula,
           variableValues,
-          error instanceof Error ? error.message : String(error)
+          'Formula evaluation resulted in Infinity (possible division by zero)'
         );
       }
+      
+      return result;
     };
   }
+
+  /**
+   * 在语法树节点上求值
+   * 
+   * 运算语义与 JavaScript 表达式一致：比较运算返回布尔值，
+   * 参与算术运算时布尔值按 1/0 处理，三元运算只计算被选中的分支。
+   * 
+   * @param node - 语法树节点
+   * @param variables - 已验证的变量值映射
+   * @returns 计算结果
+   * @private
+   */
+  private evaluateNode(node: FormulaNode, variables: Record<string, number>): FormulaValue {
+    switch (node.type) {
+      case 'number':
+        return node.value;
+
+      case 'variable':
+        return variables[node.name]!;
+
+      case 'unary': {
+        const operand = Number(this.evaluateNode(node.operand, variables));
+        return node.operator === '-' ? -operand : operand;
+      }
+
+      case 'binary': {
+        const left = Number(this.evaluateNode(node.left, variables));
+        const right = Number(this.evaluateNode(node.right, variables));
+
+        switch (node.operator) {
+          case '+': return left + right;
+          case '-': return left - right;
+          case '*': return left * right;
+          case '/': return left / right;
+          case '<': return left < right;
+          case '>': return left > right;
+          case '<=': return left <= right;
+          case '>=': return left >= right;
+          case '==': return left === right;
+          case '!=': return left !== right;
+        }
+      }
+
+      case 'conditional':
+        return this.evaluateNode(node.test, variables)
+          ? this.evaluateNode(node.consequent, variables)
+          : this.evaluateNode(node.alternate, variables);
+
+      case 'call': {
+        const args = node.args.map(arg => Number(this.evaluateNode(arg, variables)));
+        return FORMULA_FUNCTIONS[node.name]!.apply(args);
+      }
+    }
+  }
 }
@@ -3,8 +3,26 @@
  * 防止重复操作，通过幂等键缓存操作结果
  */
 
+import { createHash } from 'crypto';
 import { IStorageAdapter } from '../adapters/IStorageAdapter';
-import { IdempotencyRecord, IdempotencyConfig } from '../core/types';
+import { IdempotencyRecord, IdempotencyConfig, IdempotencyRequest } from '../core/types';
+import { IdempotencyKeyConflictError, IdempotencyRequestInProgressError } from '../core/errors';
+
+/**
+ * 不参与请求指纹计算的参数
+ * 事务上下文和幂等键本身不属于请求内容，metadata 只用于记录
+ */
+const UNFINGERPRINTED_PARAMS = new Set(['txn', 'idempotencyKey', 'metadata']);
+
+/**
+ * 默认的幂等键占用时间 (秒)
+ */
+const DEFAULT_LOCK_TIMEOUT = 60;
+
+/**
+ * 等待执行中请求完成时的轮询间隔 (毫秒)
+ */
+const POLL_INTERVAL = 50;
 
 /**
  * 幂等性管理器类
@@ -15,6 +33,8 @@ import { IdempotencyRecord, IdempotencyConfig } from '../core/types';
  * - 返回缓存的操作结果
  * - 保存新的幂等记录
  * - 自动处理 TTL 过期
+ * - 按操作类型划分幂等键，并拒绝以不同请求参数复用幂等键
+ * - 执行前占用幂等键，并发的重复请求等待第一个请求完成或被拒绝
  * 
  * @example
  * ```typescript
@@ -57,11 +77,19 @@ export class IdempotencyManager {
    * 1. 如果幂等性未启用，返回 null
    * 2. 通过存储适配器查询幂等记录
    * 3. 存储适配器会自动处理过期检查
-   * 4. 返回已存在的记录或 null
+   * 4. 提供了 request 时，比较记录的请求指纹，不一致时抛出冲突错误
+   * 5. 记录仍在执行中（status 为 'pending'）时抛出执行中错误
+   * 6. 返回已存在的记录或 null
+   * 
+   * 提供了 request 时按 request.operation 查找记录，
+   * 同一幂等键在不同操作类型之间互不影响；找不到时再查找升级前以原始幂等键保存的旧记录。
    * 
    * @param key - 幂等键
    * @param txn - 可选的事务上下文
+   * @param request - 可选的请求描述，用于划分作用域和校验请求指纹
    * @returns 已存在的幂等记录，如果不存在或已过期则返回 null
+   * @throws {IdempotencyKeyConflictError} 当幂等键已被参数不同的请求使用时
+   * @throws {IdempotencyRequestInProgressError} 当相同幂等键的请求仍在执行时
    * 
    * @example
    * ```typescript
@@ -76,9 +104,19 @@ export class IdempotencyManager {
    * 
    * // 在事务中检查
    * const recordInTxn = await manager.check('idempotency-key-456', txn);
+   * 
+   * // 按操作类型和请求参数检查
+   * const charged = await manager.check('idempotency-key-789', undefined, {
+   *   operation: 'charge',
+   *   params: { userId: 'user-123', action: 'generate-post' }
+   * });
    * ```
    */
-  async check(key: string, txn?: any): Promise<IdempotencyRecord | null> {
+  async check(
+    key: string,
+    txn?: any,
+    request?: IdempotencyRequest
+  ): Promise<IdempotencyRecord | null> {
     // 如果幂等性未启用，直接返回 null
     if (!this.config.enabled) {
       return null;
@@ -86,22 +124,124 @@ export class IdempotencyManager {
 
     // 通过存储适配器查询幂等记录
     // 存储适配器负责检查过期时间
-    const record = await this.storage.getIdempotencyRecord(key, txn);
+    const record =
+      await this.storage.getIdempotencyRecord(this.scopeKey(key, request), txn) ??
+      await this.getLegacyRecord(key, txn, request);
+
+    if (record) {
+      this.assertSameRequest(key, record, request);
+
+      if (record.status === 'pending') {
+        throw new IdempotencyRequestInProgressError(key, record.expiresAt);
+      }
+    }
 
     return record;
   }
 
+  /**
+   * 在执行请求前占用幂等键
+   * 
+   * 占用逻辑：
+   * 1. 如果幂等性未启用，返回 null
+   * 2. 存储适配器未实现 claimIdempotencyRecord 时退化为 check
+   * 3. 升级前以原始幂等键保存的旧记录存在时直接返回
+   * 4. 原子地写入 pending 记录，占用在 lockTimeout 秒后失效
+   * 5. 幂等键已有记录时校验请求指纹，已完成的记录直接返回
+   * 6. 记录仍在执行中时轮询等待，超过 waitTimeout 仍未完成则抛出执行中错误
+   * 
+   * 返回 null 表示本次调用占用了幂等键，应执行请求并调用 save 保存结果；
+   * 请求失败时调用 release 释放占用，使相同的请求可以立即重试。
+   * 
+   * @param key - 幂等键
+   * @param txn - 可选的事务上下文
+   * @param request - 可选的请求描述，用于划分作用域和校验请求指纹
+   * @returns 已完成的幂等记录，本次调用占用了幂等键时返回 null
+   * @throws {IdempotencyKeyConflictError} 当幂等键已被参数不同的请求使用时
+   * @throws {IdempotencyRequestInProgressError} 当相同幂等键的请求在等待时间内没有完成时
+   * 
+   * @example
+   * ```typescript
+   * const request = { operation: 'charge', params };
+   * const existing = await manager.claim('idempotency-key-123', undefined, request);
+   * if (existing) {
+   *   return existing.result;
+   * }
+   * 
+   * try {
+   *   const result = await performOperation();
+   *   await manager.save('idempotency-key-123', result, undefined, request);
+   *   return result;
+   * } catch (error) {
+   *   await manager.release('idempotency-key-123', undefined, request);
+   *   throw error;
+   * }
+   * ```
+   */
+  async claim(
+    key: string,
+    txn?: any,
+    request?: IdempotencyRequest
+  ): Promise<IdempotencyRecord | null> {
+    if (!this.config.enabled) {
+      return null;
+    }
+
+    if (typeof this.storage.claimIdempotencyRecord !== 'function') {
+      return await this.check(key, txn, request);
+    }
+
+    const legacy = await this.getLegacyRecord(key, txn, request);
+    if (legacy) {
+      return legacy;
+    }
+
+    const scopedKey = this.scopeKey(key, request);
+    const fingerprint = request && this.fingerprint(request);
+    const lockTimeout = this.config.lockTimeout ?? DEFAULT_LOCK_TIMEOUT;
+    const deadline = Date.now() + (this.config.waitTimeout ?? 0);
+
+    for (;;) {
+      const existing = await this.storage.claimIdempotencyRecord(
+        {
+          key: scopedKey,
+          expiresAt: new Date(Date.now() + lockTimeout * 1000),
+          ...(fingerprint && { fingerprint })
+        },
+        txn
+      );
+
+      if (!existing) {
+        return null;
+      }
+
+      this.assertSameRequest(key, existing, request);
+
+      if (existing.status !== 'pending') {
+        return existing;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new IdempotencyRequestInProgressError(key, existing.expiresAt);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, Math.min(POLL_INTERVAL, remaining)));
+    }
+  }
+
   /**
    * 保存幂等记录
    * 
    * 保存逻辑：
    * 1. 如果幂等性未启用，直接返回
    * 2. 计算过期时间（当前时间 + TTL）
-   * 3. 通过存储适配器创建幂等记录
+   * 3. 通过存储适配器保存幂等记录，覆盖 claim 写入的 pending 记录
    * 
    * @param key - 幂等键
    * @param result - 操作结果（将被缓存）
    * @param txn - 可选的事务上下文
+   * @param request - 可选的请求描述，与 check 时传入的相同
    * 
    * @example
    * ```typescript
@@ -120,7 +260,7 @@ export class IdempotencyManager {
    * await manager.save('idempotency-key-456', result, txn);
    * ```
    */
-  async save(key: string, result: any, txn?: any): Promise<void> {
+  async save(key: string, result: any, txn?: any, request?: IdempotencyRequest): Promise<void> {
     // 如果幂等性未启用，直接返回
     if (!this.config.enabled) {
       return;
@@ -129,13 +269,43 @@ export class IdempotencyManager {
     // 计算过期时间（当前时间 + TTL 秒）
     const expiresAt = new Date(Date.now() + this.config.ttl * 1000);
 
-    // 通过存储适配器创建幂等记录
-    await this.storage.createIdempotencyRecord(
-      {
-        key,
-        result,
-        expiresAt
-      },
+    const record = {
+      key: this.scopeKey(key, request),
+      result,
+      expiresAt,
+      ...(request && { fingerprint: this.fingerprint(request) })
+    };
+
+    if (typeof this.storage.completeIdempotencyRecord === 'function') {
+      await this.storage.completeIdempotencyRecord(record, txn);
+    } else {
+      await this.storage.createIdempotencyRecord(record, txn);
+    }
+  }
+
+  /**
+   * 释放 claim 占用的幂等键
+   * 
+   * 只删除仍在执行中的记录，已保存结果的记录不受影响。
+   * 提供了 request 时只释放请求指纹相同的占用。
+   * 
+   * @param key - 幂等键
+   * @param txn - 可选的事务上下文
+   * @param request - 可选的请求描述，与 claim 时传入的相同
+   * 
+   * @example
+   * ```typescript
+   * await manager.release('idempotency-key-123', undefined, { operation: 'charge', params });
+   * ```
+   */
+  async release(key: string, txn?: any, request?: IdempotencyRequest): Promise<void> {
+    if (!this.config.enabled || typeof this.storage.releaseIdempotencyRecord !== 'function') {
+      return;
+    }
+
+    await this.storage.releaseIdempotencyRecord(
+      this.scopeKey(key, request),
+      request && this.fingerprint(request),
       txn
     );
   }
@@ -170,4 +340,104 @@ export class IdempotencyManager {
   getTTL(): number {
     return this.config.ttl;
   }
+
+  /**
+   * 校验幂等记录属于同一个请求
+   * 
+   * 没有指纹的记录（未提供 request 时保存的）不做校验。
+   * 
+   * @param key - 调用方提供的幂等键
+   * @param record - 已存在的幂等记录
+   * @param request - 可选的请求描述
+   * @throws {IdempotencyKeyConflictError} 当请求指纹不一致时
+   */
+  private assertSameRequest(
+    key: string,
+    record: IdempotencyRecord,
+    request?: IdempotencyRequest
+  ): void {
+    if (record.fingerprint && request && record.fingerprint !== this.fingerprint(request)) {
+      throw new IdempotencyKeyConflictError(key, record.result);
+    }
+  }
+
+  /**
+   * 查找升级前以原始幂等键保存的记录
+   * 
+   * 按操作类型划分幂等键之前，记录以调用方提供的幂等键保存且没有请求指纹。
+   * 重试请求在 TTL 内仍可能命中这些记录；旧记录过期后存储适配器不再返回，过渡期随之结束。
+   * 
+   * @param key - 调用方提供的幂等键
+   * @param txn - 可选的事务上下文
+   * @param request - 可选的请求描述
+   * @returns 旧记录，未提供 request、关闭了 legacyKeyLookup 或不存在时返回 null
+   */
+  private async getLegacyRecord(
+    key: string,
+    txn?: any,
+    request?: IdempotencyRequest
+  ): Promise<IdempotencyRecord | null> {
+    if (!request || this.config.legacyKeyLookup === false) {
+      return null;
+    }
+
+    const record = await this.storage.getIdempotencyRecord(key, txn);
+    return record && !record.fingerprint ? record : null;
+  }
+
+  /**
+   * 计算存储使用的幂等键
+   * 
+   * @param key - 调用方提供的幂等键
+   * @param request - 可选的请求描述
+   * @returns 带操作类型前缀的幂等键，未提供 request 时原样返回
+   */
+  private scopeKey(key: string, request?: IdempotencyRequest): string {
+    return request ? `${request.operation}:${key}` : key;
+  }
+
+  /**
+   * 计算请求指纹
+   * 
+   * 对请求参数按键名排序后序列化并取 SHA-256，参数顺序不影响结果。
+   * 
+   * @param request - 请求描述
+   * @returns 十六进制指纹
+   */
+  private fingerprint(request: IdempotencyRequest): string {
+    const params = Object.fromEntries(
+      Object.entries(request.params).filter(([name]) => !UNFINGERPRINTED_PARAMS.has(name))
+    );
+
+    return createHash('sha256')
+      .update(JSON.stringify({ operation: request.operation, params: canonicalize(params) }))
+      .digest('hex');
+  }
+}
+
+/**
+ * 将值转换为键名有序的等价结构，用于稳定序列化
+ * 
+ * @param value - 任意值
+ * @returns 对象键名排序后的值（Date 转为 ISO 字符串，undefined 字段被忽略）
+ */
+function canonicalize(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .filter(name => (value as Record<string, unknown>)[name] !== undefined)
+        .map(name => [name, canonicalize((value as Record<string, unknown>)[name])])
+    );
+  }
+
+  return value;
 }
@@ -3,7 +3,9 @@
  * 验证用户会员等级和过期状态
  */
 
-import { User, MembershipConfig } from '../core/types';
+import { User, MembershipConfig, MembershipState } from '../core/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * 验证结果类型
@@ -18,8 +20,44 @@ export interface ValidationResult {
   currentTier: string | null;
   /** 所需等级 */
   requiredTier: string | null;
-  /** 会员是否已过期 */
+  /** 会员是否已过期（宽限期内也为 true） */
   isExpired: boolean;
+  /** 会员状态 */
+  state: MembershipState;
+  /** 试用结束时间（仅试用中存在） */
+  trialEndsAt?: Date;
+  /** 宽限期结束时间（仅宽限期内存在） */
+  graceEndsAt?: Date;
+  /** 所需功能 (仅在检查了功能要求时存在) */
+  requiredEntitlements?: string[];
+  /** 缺少的功能 (仅在因缺少功能验证失败时存在) */
+  missingEntitlements?: string[];
+}
+
+/**
+ * 功能要求
+ * validate 方法的可选参数
+ */
+export interface EntitlementRequirement {
+  /** 所需功能，用户必须拥有全部功能 */
+  required: string[];
+  /** 用户持有的附加包 (默认为空) */
+  addOns?: string[];
+}
+
+/**
+ * 会员状态详情
+ * getState 方法的返回值
+ */
+export interface MembershipStateDetails {
+  /** 会员状态 */
+  state: MembershipState;
+  /** 权限检查使用的等级（expired 和 none 时为 null） */
+  effectiveTier: string | null;
+  /** 试用结束时间（仅试用中存在） */
+  trialEndsAt?: Date;
+  /** 宽限期结束时间（仅宽限期内存在） */
+  graceEndsAt?: Date;
 }
 
 /**
@@ -59,36 +97,125 @@ export class MembershipValidator {
    * 验证用户会员资格
    * 
    * 验证逻辑：
-   * 1. 检查会员是否过期
-   * 2. 如果过期，将用户视为无会员
-   * 3. 如果不需要会员（requiredTier 为 null），验证通过
+   * 1. 确定会员状态（见 getState）
+   * 2. 如果过期且不在宽限期内，将用户视为无会员
+   * 3. 如果不需要会员（requiredTier 为 null），等级验证通过
    * 4. 比较用户等级和所需等级的层次结构
+   * 5. 等级验证通过且提供了功能要求时，检查用户是否拥有全部所需功能（见 getEntitlements）
    * 
    * @param user - 用户对象
    * @param requiredTier - 所需会员等级 (null 表示不需要会员)
+   * @param entitlements - 功能要求 (可选)
    * @returns 验证结果
    * 
    * @example
    * ```typescript
    * // 验证通过
    * const result1 = validator.validate(premiumUser, 'basic');
-   * // { valid: true, currentTier: 'premium', requiredTier: 'basic', isExpired: false }
+   * // { valid: true, currentTier: 'premium', requiredTier: 'basic', isExpired: false, state: 'active' }
    * 
    * // 验证失败 - 等级不足
    * const result2 = validator.validate(basicUser, 'premium');
-   * // { valid: false, reason: 'Insufficient membership tier', currentTier: 'basic', requiredTier: 'premium', isExpired: false }
+   * // { valid: false, reason: 'Insufficient membership tier', currentTier: 'basic', requiredTier: 'premium', isExpired: false, state: 'active' }
    * 
    * // 验证失败 - 会员过期
    * const result3 = validator.validate(expiredUser, 'premium');
-   * // { valid: false, reason: 'Membership expired', currentTier: null, requiredTier: 'premium', isExpired: true }
+   * // { valid: false, reason: 'Membership expired', currentTier: null, requiredTier: 'premium', isExpired: true, state: 'expired' }
+   * 
+   * // 验证通过 - 宽限期内
+   * const result4 = validator.validate(lapsedPremiumUser, 'premium');
+   * // { valid: true, currentTier: 'premium', requiredTier: 'premium', isExpired: true, state: 'grace', graceEndsAt: ... }
+   * 
+   * // 验证失败 - 缺少功能
+   * const result5 = validator.validate(freeUser, null, { required: ['api'], addOns: [] });
+   * // { valid: false, reason: 'Missing entitlement', ..., requiredEntitlements: ['api'], missingEntitlements: ['api'] }
    * ```
    */
-  validate(user: User, requiredTier: string | null): ValidationResult {
+  validate(
+    user: User,
+    requiredTier: string | null,
+    entitlements?: EntitlementRequirement
+  ): ValidationResult {
+    const result = this.validateTier(user, requiredTier);
+
+    if (!result.valid || !entitlements || entitlements.required.length === 0) {
+      return result;
+    }
+
+    const granted = new Set(this.getEntitlements(user, entitlements.addOns));
+    const missing = entitlements.required.filter(feature => !granted.has(feature));
+
+    if (missing.length > 0) {
+      return {
+        ...result,
+        valid: false,
+        reason: 'Missing entitlement',
+        requiredEntitlements: entitlements.required,
+        missingEntitlements: missing
+      };
+    }
+
+    return { ...result, requiredEntitlements: entitlements.required };
+  }
+
+  /**
+   * 获取用户拥有的功能
+   * 
+   * 用户拥有所有不高于其有效等级（见 getState）的等级授予的功能，
+   * 以及持有的附加包授予的功能。会员过期且不在宽限期内时只保留附加包授予的功能。
+   * 
+   * @param user - 用户对象
+   * @param addOns - 用户持有的附加包 (默认为空)
+   * @returns 去重并排序的功能名称；未配置 entitlements 时为空数组
+   * 
+   * @example
+   * ```typescript
+   * // entitlements: { tiers: { basic: ['export'] }, addOns: { 'api-access': ['api'] } }
+   * validator.getEntitlements(premiumUser, ['api-access']); // ['api', 'export']
+   * ```
+   */
+  getEntitlements(user: User, addOns: string[] = []): string[] {
+    const config = this.membershipConfig.entitlements;
+    const granted = new Set<string>();
+
+    if (!config) {
+      return [];
+    }
+
+    const { effectiveTier } = this.getState(user);
+    const level = effectiveTier === null ? undefined : this.membershipConfig.tiers[effectiveTier];
+
+    if (level !== undefined) {
+      for (const [tier, features] of Object.entries(config.tiers ?? {})) {
+        const tierLevel = this.membershipConfig.tiers[tier];
+
+        if (tierLevel !== undefined && tierLevel <= level) {
+          features.forEach(feature => granted.add(feature));
+        }
+      }
+    }
+
+    for (const addOn of addOns) {
+      (config.addOns?.[addOn] ?? []).forEach(feature => granted.add(feature));
+    }
+
+    return Array.from(granted).sort();
+  }
+
+  /**
+   * 验证用户会员等级是否满足所需等级
+   * 
+   * @param user - 用户对象
+   * @param requiredTier - 所需会员等级 (null 表示不需要会员)
+   * @returns 验证结果
+   */
+  private validateTier(user: User, requiredTier: string | null): ValidationResult {
     // 检查会员是否过期
     const expired = this.isExpired(user.membershipExpiresAt);
     
-    // 确定用户的有效会员等级（过期则视为无会员）
-    const effectiveTier = expired ? null : user.membershipTier;
+    // 确定会员状态和有效会员等级（过期且不在宽限期内则视为无会员）
+    const { effectiveTier, ...stateDetails } = this.getState(user);
+    const base = { isExpired: expired, ...stateDetails };
 
     // 如果不需要会员，验证通过
     if (requiredTier === null) {
@@ -96,18 +223,18 @@ export class MembershipValidator {
         valid: true,
         currentTier: effectiveTier,
         requiredTier: null,
-        isExpired: expired
+        ...base
       };
     }
 
     // 如果会员已过期
-    if (expired && user.membershipTier !== null) {
+    if (stateDetails.state === 'expired') {
       return {
         valid: false,
         reason: 'Membership expired',
         currentTier: null,
         requiredTier,
-        isExpired: true
+        ...base
       };
     }
 
@@ -118,7 +245,7 @@ export class MembershipValidator {
         reason: 'No active membership',
         currentTier: null,
         requiredTier,
-        isExpired: expired
+        ...base
       };
     }
 
@@ -133,7 +260,7 @@ export class MembershipValidator {
         reason: `Required tier '${requiredTier}' not defined in configuration`,
         currentTier: effectiveTier,
         requiredTier,
-        isExpired: expired
+        ...base
       };
     }
 
@@ -144,7 +271,7 @@ export class MembershipValidator {
         reason: `Current tier '${effectiveTier}' not defined in configuration`,
         currentTier: effectiveTier,
         requiredTier,
-        isExpired: expired
+        ...base
       };
     }
 
@@ -155,7 +282,7 @@ export class MembershipValidator {
         reason: 'Insufficient membership tier',
         currentTier: effectiveTier,
         requiredTier,
-        isExpired: expired
+        ...base
       };
     }
 
@@ -164,10 +291,58 @@ export class MembershipValidator {
       valid: true,
       currentTier: effectiveTier,
       requiredTier,
-      isExpired: expired
+      ...base
     };
   }
 
+  /**
+   * 确定用户的会员状态
+   * 
+   * 状态判断：
+   * 1. 没有会员等级时为 none
+   * 2. 没有到期时间（永久会员）或未到期时为 active；trialEndsAt 不为 null 时为 trial
+   * 3. 已到期但在 gracePeriodDays 宽限期内时为 grace，保留会员等级；试用到期后没有宽限期
+   * 4. 其他情况为 expired，视为无会员
+   * 
+   * @param user - 用户对象
+   * @returns 会员状态详情
+   * 
+   * @example
+   * ```typescript
+   * const { state, graceEndsAt } = validator.getState(user);
+   * if (state === 'grace') {
+   *   console.log(`Renew before ${graceEndsAt} to keep access`);
+   * }
+   * ```
+   */
+  getState(user: User): MembershipStateDetails {
+    const { membershipTier, membershipExpiresAt, trialEndsAt } = user;
+
+    if (membershipTier === null) {
+      return { state: 'none', effectiveTier: null };
+    }
+
+    const isTrial = trialEndsAt !== undefined && trialEndsAt !== null;
+
+    if (!this.isExpired(membershipExpiresAt)) {
+      return isTrial
+        ? { state: 'trial', effectiveTier: membershipTier, trialEndsAt }
+        : { state: 'active', effectiveTier: membershipTier };
+    }
+
+    const graceDays = this.membershipConfig.gracePeriodDays ?? 0;
+
+    if (!isTrial && graceDays > 0) {
+      const graceEndsAt = new Date(membershipExpiresAt!.getTime() + graceDays * DAY_MS);
+
+      if (new Date() <= graceEndsAt) {
+        return { state: 'grace', effectiveTier: membershipTier, graceEndsAt };
+      }
+    }
+
+    return { state: 'expired', effectiveTier: null };
+  }
+
   /**
    * 检查会员是否过期
    * 
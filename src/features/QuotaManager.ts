@@ -0,0 +1,139 @@
+/**
+ * QuotaManager - 用量配额模块
+ * 根据操作和会员等级选择配额规则，计算统计窗口
+ */
+
+import { QuotaConfig, QuotaRule, QuotaWindow } from '../core/types';
+
+const WINDOW_MS: Record<'minute' | 'hour', number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000
+};
+
+/**
+ * 配额统计窗口
+ */
+export interface QuotaWindowRange {
+  /** 窗口开始时间 (包含) */
+  start: Date;
+  /** 窗口结束时间 (不包含)，即用量重置的时间 */
+  end: Date;
+}
+
+/**
+ * 用量配额管理器类
+ * 负责查找适用的配额规则和计算 UTC 对齐的固定窗口，不访问存储
+ *
+ * @example
+ * ```typescript
+ * const quotaManager = new QuotaManager({
+ *   'generate-post': {
+ *     default: { limit: 20, window: 'day' },
+ *     premium: { limit: 10, window: 'minute' }
+ *   }
+ * });
+ *
+ * quotaManager.getRules('generate-post', 'premium'); // [{ limit: 10, window: 'minute' }]
+ * quotaManager.getRules('generate-post', null);      // [{ limit: 20, window: 'day' }]
+ * ```
+ */
+export class QuotaManager {
+  /**
+   * 创建一个新的 QuotaManager 实例
+   * @param quotaConfig - 用量配额配置 (默认为空，不限制任何操作)
+   */
+  constructor(private quotaConfig: QuotaConfig = {}) {}
+
+  /**
+   * 获取配置了配额的操作
+   *
+   * @returns 操作名称，按配置顺序排列
+   */
+  getActions(): string[] {
+    return Object.keys(this.quotaConfig);
+  }
+
+  /**
+   * 获取操作对某个会员等级适用的配额规则
+   *
+   * 查找逻辑：
+   * 1. 操作没有配置配额时不限次数
+   * 2. 有会员等级且该等级有配置时使用等级配置，否则使用 default
+   * 3. 配置为 null 或缺失时不限次数
+   *
+   * @param action - 操作名称
+   * @param tier - 会员等级 (null 表示无会员)
+   * @returns 配额规则；不限次数时为空数组
+   *
+   * @example
+   * ```typescript
+   * quotaManager.getRules('generate-post', 'unknown-tier'); // 使用 default 的规则
+   * quotaManager.getRules('undefined-action', 'premium');   // []
+   * ```
+   */
+  getRules(action: string, tier: string | null): QuotaRule[] {
+    const actionConfig = this.quotaConfig[action];
+
+    if (!actionConfig) {
+      return [];
+    }
+
+    const rules = tier !== null && actionConfig[tier] !== undefined
+      ? actionConfig[tier]
+      : actionConfig.default;
+
+    if (!rules) {
+      return [];
+    }
+
+    return Array.isArray(rules) ? rules : [rules];
+  }
+
+  /**
+   * 计算包含指定时间的统计窗口 (UTC)
+   *
+   * @param window - 统计窗口
+   * @param now - 当前时间
+   * @returns 窗口的开始和结束时间
+   *
+   * @example
+   * ```typescript
+   * quotaManager.getWindow('day', new Date('2025-01-01T15:30:00Z'));
+   * // { start: 2025-01-01T00:00:00Z, end: 2025-01-02T00:00:00Z }
+   * ```
+   */
+  getWindow(window: QuotaWindow, now: Date): QuotaWindowRange {
+    if (window === 'minute' || window === 'hour') {
+      const size = WINDOW_MS[window];
+      const start = Math.floor(now.getTime() / size) * size;
+      return { start: new Date(start), end: new Date(start + size) };
+    }
+
+    const year = now.getUTCFullYear();
+    const month = now.getUTCMonth();
+
+    if (window === 'day') {
+      const date = now.getUTCDate();
+      return {
+        start: new Date(Date.UTC(year, month, date)),
+        end: new Date(Date.UTC(year, month, date + 1))
+      };
+    }
+
+    return {
+      start: new Date(Date.UTC(year, month, 1)),
+      end: new Date(Date.UTC(year, month + 1, 1))
+    };
+  }
+
+  /**
+   * 计算距离窗口重置的秒数
+   *
+   * @param range - 统计窗口
+   * @param now - 当前时间
+   * @returns 向上取整的秒数，至少为 1
+   */
+  getRetryAfter(range: QuotaWindowRange, now: Date): number {
+    return Math.max(1, Math.ceil((range.end.getTime() - now.getTime()) / 1000));
+  }
+}
@@ -1,10 +1,17 @@
 /**
  * RetryHandler - 重试处理模块
- * 为瞬态故障提供自动重试逻辑和指数退避
+ * 为瞬态故障提供自动重试逻辑、指数退避和熔断
  */
 
-import { RetryConfig } from '../core/types';
+import {
+  RetryConfig,
+  RetryJitter,
+  CircuitBreakerStatus,
+  TransientErrorClassifier
+} from '../core/types';
+import { CircuitOpenError } from '../core/errors';
 import { ILogAdapter } from '../adapters/ILogAdapter';
+import { CircuitBreaker } from './CircuitBreaker';
 
 /**
  * 重试选项类型
@@ -21,11 +28,25 @@ export interface RetryOptions {
   backoffMultiplier?: number;
   /** 可重试的错误类型（错误名称或错误代码） */
   retryableErrors?: string[];
+  /**
+   * 额外的重试判断（可选）
+   * 返回 false 的错误不重试，即使匹配 retryableErrors
+   */
+  shouldRetry?: (error: unknown) => boolean;
+  /** 退避抖动策略 */
+  jitter?: RetryJitter;
+  /** 所有尝试的总时间上限（毫秒） */
+  deadline?: number;
 }
 
+/**
+ * decorrelated 抖动的延迟增长倍数
+ */
+const DECORRELATED_JITTER_FACTOR = 3;
+
 /**
  * 默认可重试的错误类型
- * 这些通常是瞬态错误，重试可能会成功
+ * 这些通常是瞬态错误，重试可能会成功；存储适配器提供了 isTransientError 时优先使用适配器的判断
  */
 const DEFAULT_RETRYABLE_ERRORS = [
   // 网络错误
@@ -56,7 +77,10 @@ const DEFAULT_RETRYABLE_ERRORS = [
 
 /**
  * 重试处理器类
- * 负责执行带重试逻辑的操作，支持指数退避
+ * 负责执行带重试逻辑的操作，支持指数退避、抖动、总时间上限和熔断
+ * 
+ * 配置了 circuitBreaker 时，同一个 RetryHandler 执行的所有操作共享一个熔断器：
+ * 每次尝试都需要熔断器放行，瞬态故障计入连续失败次数。
  * 
  * @example
  * ```typescript
@@ -79,16 +103,19 @@ const DEFAULT_RETRYABLE_ERRORS = [
  * ```
  */
 export class RetryHandler {
-  private readonly config: Required<RetryConfig>;
+  private readonly config: RetryConfig;
+  private readonly circuitBreaker?: CircuitBreaker;
   
   /**
    * 创建一个新的 RetryHandler 实例
    * @param retryConfig - 重试配置对象
    * @param logger - 日志适配器（可选）
+   * @param classifyError - 瞬态错误分类函数（可选），通常来自存储适配器的 isTransientError
    */
   constructor(
     retryConfig: RetryConfig,
-    private logger?: ILogAdapter
+    private logger?: ILogAdapter,
+    private classifyError?: TransientErrorClassifier
   ) {
     // 确保配置完整
     this.config = {
@@ -96,20 +123,26 @@ export class RetryHandler {
       maxAttempts: retryConfig.maxAttempts,
       initialDelay: retryConfig.initialDelay,
       maxDelay: retryConfig.maxDelay,
-      backoffMultiplier: retryConfig.backoffMultiplier
+      backoffMultiplier: retryConfig.backoffMultiplier,
+      jitter: retryConfig.jitter ?? 'none',
+      ...(retryConfig.deadline !== undefined && { deadline: retryConfig.deadline })
     };
+
+    if (retryConfig.circuitBreaker) {
+      this.circuitBreaker = new CircuitBreaker(retryConfig.circuitBreaker, logger);
+    }
   }
 
   /**
    * 执行带重试的操作
    * 
    * 执行逻辑：
-   * 1. 如果重试未启用，直接执行操作
-   * 2. 尝试执行操作
+   * 1. 如果重试未启用，只执行一次（仍受熔断器约束）
+   * 2. 尝试执行操作，熔断器断开时抛出 CircuitOpenError
    * 3. 如果成功，返回结果
    * 4. 如果失败且错误可重试，等待后重试
-   * 5. 使用指数退避计算延迟时间
-   * 6. 如果超过最大重试次数，抛出原始错误
+   * 5. 使用指数退避和抖动策略计算延迟时间
+   * 6. 如果超过最大重试次数或等待会超过总时间上限，抛出错误
    * 
    * @param operation - 要执行的操作（返回 Promise 的函数）
    * @param options - 重试选项（可选，覆盖默认配置）
@@ -140,9 +173,9 @@ export class RetryHandler {
     operation: () => Promise<T>,
     options?: RetryOptions
   ): Promise<T> {
-    // 如果重试未启用，直接执行操作
+    // 如果重试未启用，只执行一次
     if (!this.config.enabled) {
-      return await operation();
+      return await this.executeOnce(operation, options);
     }
 
     // 合并配置和选项
@@ -150,8 +183,11 @@ export class RetryHandler {
     const initialDelay = options?.initialDelay ?? this.config.initialDelay;
     const maxDelay = options?.maxDelay ?? this.config.maxDelay;
     const backoffMultiplier = options?.backoffMultiplier ?? this.config.backoffMultiplier;
-    const retryableErrors = options?.retryableErrors ?? DEFAULT_RETRYABLE_ERRORS;
+    const jitter = options?.jitter ?? this.config.jitter;
+    const deadline = options?.deadline ?? this.config.deadline;
 
+    const startedAt = Date.now();
+    let previousDelay = initialDelay;
     let lastError: Error | undefined;
     let attempt = 0;
 
@@ -160,7 +196,7 @@ export class RetryHandler {
 
       try {
         // 尝试执行操作
-        const result = await operation();
+        const result = await this.attempt(operation, options);
         
         // 如果之前有重试，记录成功日志
         if (attempt > 1) {
@@ -174,8 +210,13 @@ export class RetryHandler {
       } catch (error) {
         lastError = error as Error;
 
+        // 熔断器拒绝的请求不重试，直接快速失败
+        if (error instanceof CircuitOpenError) {
+          throw error;
+        }
+
         // 检查是否是可重试的错误
-        const isRetryable = this.isRetryableError(error, retryableErrors);
+        const isRetryable = this.isTransientFailure(error, options);
 
         // 如果不可重试或已达到最大重试次数，抛出错误
         if (!isRetryable || attempt >= maxAttempts) {
@@ -195,13 +236,25 @@ export class RetryHandler {
           throw error;
         }
 
-        // 计算延迟时间（指数退避）
+        // 计算延迟时间（指数退避 + 抖动）
         const delay = this.calculateDelay(
           attempt,
           initialDelay,
           maxDelay,
-          backoffMultiplier
+          backoffMultiplier,
+          jitter,
+          previousDelay
         );
+        previousDelay = delay;
+
+        if (deadline !== undefined && Date.now() + delay - startedAt >= deadline) {
+          this.logger?.error('Retry deadline exceeded', {
+            error: this.getErrorInfo(error),
+            attempt,
+            deadline
+          });
+          throw error;
+        }
 
         // 记录重试日志
         this.logger?.warn('Operation failed, retrying', {
@@ -220,6 +273,94 @@ export class RetryHandler {
     throw lastError || new Error('Operation failed after all retries');
   }
 
+  /**
+   * 执行一次操作，不重试
+   * 
+   * 用于重试不安全的场景（如外部事务中）。配置了熔断器时仍然受熔断器约束，
+   * 并向熔断器报告结果。
+   * 
+   * @param operation - 要执行的操作
+   * @param options - 重试选项（可选，用于判断失败是否为瞬态故障）
+   * @returns 操作结果
+   * @throws {CircuitOpenError} 当熔断器断开时
+   */
+  async executeOnce<T>(operation: () => Promise<T>, options?: RetryOptions): Promise<T> {
+    return await this.attempt(operation, options);
+  }
+
+  /**
+   * 获取熔断器状态
+   * 
+   * @returns 熔断器状态快照；未配置熔断器时返回 null
+   * 
+   * @example
+   * ```typescript
+   * const status = handler.getCircuitBreakerStatus();
+   * if (status?.state === 'open') {
+   *   console.log(`Storage unavailable until ${status.retryAt}`);
+   * }
+   * ```
+   */
+  getCircuitBreakerStatus(): CircuitBreakerStatus | null {
+    return this.circuitBreaker?.getStatus() ?? null;
+  }
+
+  /**
+   * 在熔断器约束下执行一次尝试
+   * 
+   * 瞬态故障计为熔断器失败；成功和非瞬态错误（如业务错误）说明存储可用，计为成功。
+   * 
+   * @param operation - 要执行的操作
+   * @param options - 重试选项（可选）
+   * @returns 操作结果
+   * @throws {CircuitOpenError} 当熔断器断开时
+   */
+  private async attempt<T>(operation: () => Promise<T>, options?: RetryOptions): Promise<T> {
+    if (!this.circuitBreaker) {
+      return await operation();
+    }
+
+    this.circuitBreaker.acquire();
+
+    try {
+      const result = await operation();
+      this.circuitBreaker.recordSuccess();
+      return result;
+    } catch (error) {
+      if (this.isTransientFailure(error, options)) {
+        this.circuitBreaker.recordFailure();
+      } else {
+        this.circuitBreaker.recordSuccess();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 判断错误是否为可重试的瞬态故障
+   * 
+   * 判断顺序：
+   * 1. shouldRetry 返回 false 的错误不重试
+   * 2. 分类函数返回 true 或 false 时以其结果为准
+   * 3. 否则按 retryableErrors（默认 DEFAULT_RETRYABLE_ERRORS）匹配
+   * 
+   * @param error - 错误对象
+   * @param options - 重试选项（可选）
+   * @returns 是否为瞬态故障
+   */
+  private isTransientFailure(error: unknown, options?: RetryOptions): boolean {
+    if (options?.shouldRetry?.(error) === false) {
+      return false;
+    }
+
+    const classified = this.classifyError?.(error);
+    if (classified !== undefined) {
+      return classified;
+    }
+
+    return this.isRetryableError(error, options?.retryableErrors ?? DEFAULT_RETRYABLE_ERRORS);
+  }
+
   /**
    * 检查错误是否可重试
    * 
@@ -275,14 +416,19 @@ export class RetryHandler {
   }
 
   /**
-   * 计算重试延迟时间（指数退避）
+   * 计算重试延迟时间（指数退避 + 抖动）
    * 
-   * 计算公式：delay = min(initialDelay * (backoffMultiplier ^ (attempt - 1)), maxDelay)
+   * 计算公式：base = min(initialDelay * (backoffMultiplier ^ (attempt - 1)), maxDelay)
+   * - none: delay = base
+   * - full: delay = random(0, base)
+   * - decorrelated: delay = min(random(initialDelay, previousDelay * 3), maxDelay)
    * 
    * @param attempt - 当前尝试次数（从 1 开始）
    * @param initialDelay - 初始延迟（毫秒）
    * @param maxDelay - 最大延迟（毫秒）
    * @param backoffMultiplier - 退避倍数
+   * @param jitter - 抖动策略（默认 'none'）
+   * @param previousDelay - 上一次的延迟，用于 decorrelated 抖动（默认 initialDelay）
    * @returns 延迟时间（毫秒）
    * 
    * @example
@@ -299,14 +445,23 @@ export class RetryHandler {
     attempt: number,
     initialDelay: number,
     maxDelay: number,
-    backoffMultiplier: number
+    backoffMultiplier: number,
+    jitter: RetryJitter = 'none',
+    previousDelay: number = initialDelay
   ): number {
+    if (jitter === 'decorrelated') {
+      const upper = Math.max(initialDelay, previousDelay * DECORRELATED_JITTER_FACTOR);
+      return Math.min(initialDelay + Math.random() * (upper - initialDelay), maxDelay);
+    }
+
     // 计算指数退避延迟
     // attempt - 1 是因为第一次重试（attempt = 2）应该使用 initialDelay
     const exponentialDelay = initialDelay * Math.pow(backoffMultiplier, attempt - 1);
     
     // 确保不超过最大延迟
-    return Math.min(exponentialDelay, maxDelay);
+    const delay = Math.min(exponentialDelay, maxDelay);
+
+    return jitter === 'full' ? Math.random() * delay : delay;
   }
 
   /**
@@ -5,8 +5,15 @@
 
 export { CostFormula } from './CostFormula';
 export { DynamicCostFormula } from './DynamicCostFormula';
-export { MembershipValidator, ValidationResult } from './MembershipValidator';
+export {
+  MembershipValidator,
+  ValidationResult,
+  MembershipStateDetails,
+  EntitlementRequirement
+} from './MembershipValidator';
+export { QuotaManager, QuotaWindowRange } from './QuotaManager';
 export { IdempotencyManager } from './IdempotencyManager';
 export { AuditTrail, AuditLogEntry } from './AuditTrail';
 export { RetryHandler, RetryOptions } from './RetryHandler';
-export { FormulaParser, ParsedFormula } from './FormulaParser';
+export { CircuitBreaker } from './CircuitBreaker';
+export { FormulaParser, ParsedFormula, FormulaNode, BinaryOperator } from './FormulaParser';
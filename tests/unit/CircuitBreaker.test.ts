@@ -0,0 +1,115 @@
+/**
+ * CircuitBreaker 单元测试
+ * 测试 closed / open / half-open 状态转换和状态日志
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CircuitBreaker } from '../../src/features/CircuitBreaker';
+import { CircuitOpenError } from '../../src/core/errors';
+import { ILogAdapter } from '../../src/adapters/ILogAdapter';
+
+const START = new Date('2025-01-15T12:00:00Z');
+
+describe('CircuitBreaker', () => {
+  let logger: ILogAdapter;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+
+    logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeout: 30000 }, logger);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * 连续报告指定次数的失败
+   */
+  function fail(times: number) {
+    for (let i = 0; i < times; i++) {
+      breaker.acquire();
+      breaker.recordFailure();
+    }
+  }
+
+  it('should start closed', () => {
+    expect(breaker.getStatus()).toEqual({ state: 'closed', consecutiveFailures: 0 });
+    expect(() => breaker.acquire()).not.toThrow();
+  });
+
+  it('should open after consecutive failures reach the threshold', () => {
+    fail(3);
+
+    expect(breaker.getStatus()).toEqual({
+      state: 'open',
+      consecutiveFailures: 3,
+      openedAt: START,
+      retryAt: new Date(START.getTime() + 30000)
+    });
+    expect(logger.warn).toHaveBeenCalledWith('Circuit breaker opened', expect.objectContaining({
+      state: 'open',
+      consecutiveFailures: 3
+    }));
+  });
+
+  it('should reset the failure count on success', () => {
+    fail(2);
+    breaker.recordSuccess();
+    fail(2);
+
+    expect(breaker.getStatus().state).toBe('closed');
+  });
+
+  it('should reject requests while open', () => {
+    fail(3);
+
+    const error = (() => {
+      try {
+        breaker.acquire();
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect((error as CircuitOpenError).retryAt).toEqual(new Date(START.getTime() + 30000));
+  });
+
+  it('should let a single trial through after the reset timeout', () => {
+    fail(3);
+    vi.advanceTimersByTime(30000);
+
+    expect(breaker.getStatus().state).toBe('half-open');
+    expect(logger.info).toHaveBeenCalledWith('Circuit breaker half-open', { state: 'half-open' });
+
+    breaker.acquire();
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+  });
+
+  it('should close when the trial succeeds', () => {
+    fail(3);
+    vi.advanceTimersByTime(30000);
+
+    breaker.acquire();
+    breaker.recordSuccess();
+
+    expect(breaker.getStatus()).toEqual({ state: 'closed', consecutiveFailures: 0 });
+    expect(logger.info).toHaveBeenCalledWith('Circuit breaker closed', { state: 'closed' });
+  });
+
+  it('should reopen when the trial fails', () => {
+    fail(3);
+    vi.advanceTimersByTime(30000);
+
+    breaker.acquire();
+    breaker.recordFailure();
+
+    const status = breaker.getStatus();
+    expect(status.state).toBe('open');
+    expect(status.retryAt).toEqual(new Date(START.getTime() + 60000));
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * CreditsEngine 批量扣费单元测试
+ *
+ * 测试两种批量模式、按账户合并扣减、逐条交易记录、条目幂等键、
+ * 组织积分池和消费限额、审计日志以及重试
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CreditsEngine } from '../../src/core/CreditsEngine';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
+import { ConfigurationError, InsufficientCreditsError } from '../../src/core/errors';
+import type { ChargeBatchItem, CreditsConfig } from '../../src/core/types';
+
+describe('CreditsEngine chargeBatch', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+  let config: CreditsConfig;
+
+  beforeEach(async () => {
+    config = {
+      costs: {
+        'ai-completion': { default: '{token} * 0.001 + 10' },
+        'generate-post': { default: 10 },
+        'generate-video': { default: 50 },
+        'generate-image': { default: 20, wallet: 'image' }
+      },
+      membership: {
+        tiers: { free: 0, premium: 1 },
+        requirements: {
+          'ai-completion': null,
+          'generate-post': null,
+          'generate-video': 'premium',
+          'generate-image': null
+        },
+        creditsCaps: { free: 1000, premium: 5000 }
+      },
+      retry: {
+        enabled: false,
+        maxAttempts: 1,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: true, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+
+    await adapter.createUser({ id: 'user-1', credits: 100 });
+    await adapter.createUser({ id: 'user-2', credits: 15 });
+  });
+
+  const post = (userId: string, extra: Partial<ChargeBatchItem> = {}): ChargeBatchItem => ({
+    userId,
+    action: 'generate-post',
+    ...extra
+  });
+
+  describe('best-effort', () => {
+    it('should charge each item and report per-item results', async () => {
+      const result = await engine.chargeBatch(
+        [post('user-1'), post('user-2'), post('user-2'), post('user-1')],
+        { mode: 'best-effort' }
+      );
+
+      expect(result).toMatchObject({ mode: 'best-effort', succeeded: 3, failed: 1 });
+      expect(result.items.map(item => item.status)).toEqual(['charged', 'charged', 'failed', 'charged']);
+      expect(result.items[2]!.error).toEqual({
+        code: 'INSUFFICIENT_CREDITS',
+        message: expect.stringContaining('user-2')
+      });
+
+      expect(await engine.queryBalance('user-1')).toBe(80);
+      expect(await engine.queryBalance('user-2')).toBe(5);
+    });
+
+    it('should debit each account once and write one transaction per item', async () => {
+      const debit = vi.spyOn(adapter, 'debitUserCredits');
+
+      const result = await engine.chargeBatch(
+        [post('user-1'), post('user-1', { metadata: { eventId: 'e-2' } }), post('user-1')],
+        { mode: 'best-effort' }
+      );
+
+      expect(debit).toHaveBeenCalledTimes(1);
+      expect(debit).toHaveBeenCalledWith('user-1', 30, 0, expect.anything());
+
+      const transactions = adapter.getAllTransactions();
+      expect(transactions.map(t => [t.amount, t.balanceBefore, t.balanceAfter])).toEqual([
+        [-10, 100, 90],
+        [-10, 90, 80],
+        [-10, 80, 70]
+      ]);
+      expect(transactions[1]!.metadata).toEqual({ eventId: 'e-2' });
+      expect(result.items.map(item => item.result!.transactionId)).toEqual(transactions.map(t => t.id));
+    });
+
+    it('should compute costs per item with their own variables', async () => {
+      const result = await engine.chargeBatch(
+        [
+          { userId: 'user-1', action: 'ai-completion', variables: { token: 3500 } },
+          { userId: 'user-1', action: 'ai-completion', variables: { token: 1000 } }
+        ],
+        { mode: 'best-effort' }
+      );
+
+      expect(result.items.map(item => item.result!.cost)).toEqual([13.5, 11]);
+      expect(await engine.queryBalance('user-1')).toBe(75.5);
+      expect(adapter.getAllTransactions()[0]!.metadata.dynamicCost).toMatchObject({
+        variables: { token: 3500 },
+        finalCost: 13.5
+      });
+    });
+
+    it('should report membership, unknown user and unknown action failures per item', async () => {
+      const result = await engine.chargeBatch(
+        [
+          post('user-1', { action: 'generate-video' }),
+          post('missing'),
+          post('user-1', { action: 'unknown' }),
+          post('user-1')
+        ],
+        { mode: 'best-effort' }
+      );
+
+      expect(result.items.map(item => item.error?.code)).toEqual([
+        'MEMBERSHIP_REQUIRED',
+        'USER_NOT_FOUND',
+        'UNDEFINED_ACTION',
+        undefined
+      ]);
+      expect(await engine.queryBalance('user-1')).toBe(90);
+    });
+
+    it('should exclude held credits and charge other wallets separately', async () => {
+      await engine.reserve({ userId: 'user-1', amount: 85 });
+      await adapter.updateWalletBalance('user-1', 'image', 30);
+
+      const result = await engine.chargeBatch(
+        [post('user-1'), post('user-1'), post('user-1', { action: 'generate-image' })],
+        { mode: 'best-effort' }
+      );
+
+      expect(result.items.map(item => item.status)).toEqual(['charged', 'failed', 'charged']);
+      expect(await engine.queryBalance('user-1')).toBe(90);
+      expect(await adapter.getWalletBalance('user-1', 'image')).toBe(10);
+      expect(adapter.getAllTransactions().at(-1)!.wallet).toBe('image');
+    });
+
+    it('should split consumed credit lots between items', async () => {
+      const expiresAt = new Date(Date.now() + 86400000);
+      const lot = await engine.grant({ userId: 'user-2', amount: 15, action: 'promotion', expiresAt });
+
+      await engine.chargeBatch([post('user-2'), post('user-2')], { mode: 'best-effort' });
+
+      const charges = adapter.getAllTransactions().filter(t => t.action === 'generate-post');
+      expect(charges[0]!.metadata.creditLots).toEqual([{ lotId: lot.lotId, amount: 10 }]);
+      expect(charges[1]!.metadata.creditLots).toEqual([{ lotId: lot.lotId, amount: 5 }]);
+    });
+  });
+
+  describe('all-or-nothing', () => {
+    it('should be the default mode', async () => {
+      const result = await engine.chargeBatch([post('user-1')]);
+
+      expect(result.mode).toBe('all-or-nothing');
+      expect(result.items[0]!.status).toBe('charged');
+    });
+
+    it('should charge nothing when any item fails', async () => {
+      const result = await engine.chargeBatch([post('user-1'), post('user-2'), post('user-2')]);
+
+      expect(result).toMatchObject({ succeeded: 0, failed: 1 });
+      expect(result.items.map(item => item.status)).toEqual(['skipped', 'skipped', 'failed']);
+      expect(await engine.queryBalance('user-1')).toBe(100);
+      expect(await engine.queryBalance('user-2')).toBe(15);
+      expect(adapter.getAllTransactions()).toHaveLength(0);
+    });
+
+    it('should release the idempotency keys of items that were not charged', async () => {
+      await engine.chargeBatch([
+        post('user-1', { idempotencyKey: 'event-1' }),
+        post('user-2', { action: 'generate-video', idempotencyKey: 'event-2' })
+      ]);
+
+      const result = await engine.chargeBatch([post('user-1', { idempotencyKey: 'event-1' })]);
+
+      expect(result.items[0]!.status).toBe('charged');
+      expect(await engine.queryBalance('user-1')).toBe(90);
+    });
+  });
+
+  describe('idempotency', () => {
+    it('should replay items whose key was already used', async () => {
+      const items = [post('user-1', { idempotencyKey: 'event-1' }), post('user-2', { idempotencyKey: 'event-2' })];
+
+      const first = await engine.chargeBatch(items);
+      const second = await engine.chargeBatch([...items, post('user-1', { idempotencyKey: 'event-3' })]);
+
+      expect(second.items.map(item => item.status)).toEqual(['replayed', 'replayed', 'charged']);
+      expect(second.items[0]!.result).toEqual(first.items[0]!.result);
+      expect(second.succeeded).toBe(3);
+      expect(await engine.queryBalance('user-1')).toBe(80);
+      expect(adapter.getAllTransactions()).toHaveLength(3);
+    });
+
+    it('should share keys with single charges', async () => {
+      const single = await engine.charge({ userId: 'user-1', action: 'generate-post', idempotencyKey: 'event-1' });
+
+      const result = await engine.chargeBatch([post('user-1', { idempotencyKey: 'event-1' })]);
+
+      expect(result.items[0]).toEqual({ index: 0, status: 'replayed', result: single });
+    });
+
+    it('should fail only the item whose key was used for a different request', async () => {
+      await engine.chargeBatch([post('user-1', { idempotencyKey: 'event-1' })]);
+
+      const result = await engine.chargeBatch(
+        [post('user-2', { idempotencyKey: 'event-1' }), post('user-2')],
+        { mode: 'best-effort' }
+      );
+
+      expect(result.items.map(item => item.status)).toEqual(['failed', 'charged']);
+      expect(result.items[0]!.error!.code).toBe('IDEMPOTENCY_KEY_CONFLICT');
+    });
+
+    it('should not charge twice when a retried commit had succeeded', async () => {
+      config.retry = { enabled: true, maxAttempts: 3, initialDelay: 0, maxDelay: 0, backoffMultiplier: 1 };
+      engine = new CreditsEngine({ storage: adapter, config });
+
+      const runInTransaction = adapter.runInTransaction.bind(adapter);
+      vi.spyOn(adapter, 'runInTransaction').mockImplementationOnce(async fn => {
+        await runInTransaction(fn);
+        throw Object.assign(new Error('Connection reset'), { code: 'ECONNRESET' });
+      }).mockImplementation(runInTransaction);
+
+      const result = await engine.chargeBatch([
+        post('user-1', { idempotencyKey: 'event-1' }),
+        post('user-2', { idempotencyKey: 'event-2' })
+      ]);
+
+      expect(result.items.map(item => item.status)).toEqual(['replayed', 'replayed']);
+      expect(await engine.queryBalance('user-1')).toBe(90);
+      expect(adapter.getAllTransactions()).toHaveLength(2);
+    });
+
+    it('should not retry a lost commit response when an item has no key', async () => {
+      config.retry = { enabled: true, maxAttempts: 3, initialDelay: 0, maxDelay: 0, backoffMultiplier: 1 };
+      engine = new CreditsEngine({ storage: adapter, config });
+
+      const runInTransaction = adapter.runInTransaction.bind(adapter);
+      vi.spyOn(adapter, 'runInTransaction').mockImplementationOnce(async fn => {
+        await runInTransaction(fn);
+        throw Object.assign(new Error('Connection reset'), { code: 'ECONNRESET' });
+      }).mockImplementation(runInTransaction);
+
+      await expect(
+        engine.chargeBatch([post('user-1', { idempotencyKey: 'event-1' }), post('user-2')])
+      ).rejects.toThrow('Connection reset');
+      expect(await engine.queryBalance('user-1')).toBe(90);
+      expect(adapter.getAllTransactions()).toHaveLength(2);
+    });
+  });
+
+  describe('organization pools', () => {
+    beforeEach(async () => {
+      await adapter.createOrganization({ id: 'org-1', credits: 25 });
+      await adapter.createUser({ id: 'member-1', credits: 0, organizationId: 'org-1' });
+      await adapter.createUser({ id: 'member-2', credits: 0, organizationId: 'org-1' });
+    });
+
+    it('should debit the shared pool once for all members', async () => {
+      const result = await engine.chargeBatch(
+        [post('member-1'), post('member-2'), post('member-1')],
+        { mode: 'best-effort' }
+      );
+
+      expect(result.items.map(item => item.status)).toEqual(['charged', 'charged', 'failed']);
+      expect(result.items[0]!.result!.organizationId).toBe('org-1');
+      expect((await adapter.getOrganizationById('org-1'))!.credits).toBe(5);
+    });
+
+    it('should count earlier items of the batch towards member spending limits', async () => {
+      await engine.setMemberSpendingLimit({
+        organizationId: 'org-1',
+        userId: 'member-1',
+        period: 'daily',
+        limit: 15
+      });
+
+      const result = await engine.chargeBatch(
+        [post('member-1'), post('member-1'), post('member-2')],
+        { mode: 'best-effort' }
+      );
+
+      expect(result.items.map(item => item.error?.code)).toEqual([
+        undefined,
+        'SPENDING_LIMIT_EXCEEDED',
+        undefined
+      ]);
+    });
+  });
+
+  describe('audit', () => {
+    it('should write one audit entry per user', async () => {
+      await engine.chargeBatch(
+        [post('user-1'), post('user-2'), post('user-1'), post('user-2', { action: 'generate-video' })],
+        { mode: 'best-effort' }
+      );
+
+      const logs = adapter.getAuditLogs();
+      expect(logs).toHaveLength(2);
+      expect(logs[0]).toMatchObject({
+        userId: 'user-1',
+        action: 'chargeBatch',
+        status: 'success',
+        metadata: { mode: 'best-effort', cost: 20 }
+      });
+      expect(logs[0]!.metadata.transactionIds).toHaveLength(2);
+      expect(logs[1]!.metadata.failedItems).toEqual([
+        { index: 3, action: 'generate-video', error: expect.stringContaining('premium') }
+      ]);
+    });
+
+    it('should audit aborted batches as failed', async () => {
+      await engine.chargeBatch([post('user-1'), post('user-2', { action: 'generate-video' })]);
+
+      const logs = adapter.getAuditLogs();
+      expect(logs.map(log => [log.userId, log.status])).toEqual([
+        ['user-1', 'failed'],
+        ['user-2', 'failed']
+      ]);
+      expect(logs[0]!.metadata.skippedItems).toBe(1);
+    });
+  });
+
+  describe('validation', () => {
+    it('should return an empty result for an empty batch', async () => {
+      expect(await engine.chargeBatch([])).toEqual({
+        mode: 'all-or-nothing',
+        succeeded: 0,
+        failed: 0,
+        items: []
+      });
+    });
+
+    it('should reject invalid modes and duplicate keys', async () => {
+      await expect(
+        engine.chargeBatch([post('user-1')], { mode: 'partial' as any })
+      ).rejects.toThrow(ConfigurationError);
+
+      await expect(
+        engine.chargeBatch([
+          post('user-1', { idempotencyKey: 'event-1' }),
+          post('user-2', { idempotencyKey: 'event-1' })
+        ])
+      ).rejects.toThrow(/unique/);
+    });
+
+    it('should require transaction support from the storage adapter', async () => {
+      (adapter as any).runInTransaction = undefined;
+
+      await expect(engine.chargeBatch([post('user-1')])).rejects.toThrow(/runInTransaction/);
+    });
+
+    it('should roll back the whole batch when the balance changed concurrently', async () => {
+      vi.spyOn(adapter, 'debitUserCredits').mockResolvedValueOnce(null);
+
+      await expect(
+        engine.chargeBatch([post('user-2'), post('user-1')], { mode: 'best-effort' })
+      ).rejects.toThrow(InsufficientCreditsError);
+
+      expect(adapter.getAllTransactions()).toHaveLength(0);
+      expect(adapter.getAuditLogs().map(log => [log.userId, log.action, log.status])).toEqual([
+        ['user-2', 'chargeBatch', 'failed'],
+        ['user-1', 'chargeBatch', 'failed']
+      ]);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * CreditsEngine 并发扣费单元测试
+ *
+ * 验证并发 charge 在存储层条件扣减的保护下不会使余额变为负数，
+ * 以及启用重试（每次操作在存储事务中执行）时并发操作的回滚不会撤销其他已提交的写入
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CreditsEngine } from '../../src/core/CreditsEngine';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
+import { ConfigurationError, InsufficientCreditsError } from '../../src/core/errors';
+import type { CreditsConfig } from '../../src/core/types';
+
+describe('CreditsEngine concurrent charges', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+
+  beforeEach(async () => {
+    const config: CreditsConfig = {
+      costs: {
+        'generate-post': { default: 10 }
+      },
+      membership: {
+        tiers: { free: 0 },
+        requirements: { 'generate-post': null },
+        creditsCaps: { free: 1000 }
+      },
+      retry: {
+        enabled: false,
+        maxAttempts: 1,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: false, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+
+    await adapter.createUser({ id: 'user-1', credits: 100 });
+  });
+
+  it('should never push the balance below zero', async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 25 }, () =>
+        engine.charge({ userId: 'user-1', action: 'generate-post' })
+      )
+    );
+
+    const fulfilled = results.filter(r => r.status === 'fulfilled');
+    const rejected = results.filter(r => r.status === 'rejected');
+
+    expect(fulfilled).toHaveLength(10);
+    expect(rejected).toHaveLength(15);
+    for (const result of rejected) {
+      expect((result as PromiseRejectedResult).reason).toBeInstanceOf(InsufficientCreditsError);
+    }
+
+    expect(await engine.queryBalance('user-1')).toBe(0);
+  });
+
+  it('should record balances from the rows that were actually written', async () => {
+    await Promise.allSettled(
+      Array.from({ length: 12 }, () =>
+        engine.charge({ userId: 'user-1', action: 'generate-post' })
+      )
+    );
+
+    const transactions = adapter.getAllTransactions();
+    expect(transactions).toHaveLength(10);
+
+    for (const transaction of transactions) {
+      expect(transaction.balanceAfter).toBeGreaterThanOrEqual(0);
+      expect(transaction.balanceBefore - transaction.balanceAfter).toBe(10);
+    }
+
+    // 每次扣费看到的都是不同的余额，而不是同一个读取快照
+    const balancesAfter = transactions.map(t => t.balanceAfter).sort((a, b) => a - b);
+    expect(balancesAfter).toEqual([0, 10, 20, 30, 40, 50, 60, 70, 80, 90]);
+  });
+
+  it('should record grant balances from the rows that were actually written', async () => {
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        engine.grant({ userId: 'user-1', amount: 10, action: 'bonus' })
+      )
+    );
+
+    const balancesAfter = adapter.getAllTransactions().map(t => t.balanceAfter).sort((a, b) => a - b);
+    expect(balancesAfter).toEqual([110, 120, 130, 140, 150]);
+    for (const transaction of adapter.getAllTransactions()) {
+      expect(transaction.balanceAfter - transaction.balanceBefore).toBe(10);
+    }
+  });
+
+  it('should keep held credits out of reach of concurrent charges', async () => {
+    await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 50 });
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 10 }, () =>
+        engine.charge({ userId: 'user-1', action: 'generate-post' })
+      )
+    );
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(5);
+    expect(await engine.queryBalance('user-1')).toBe(50);
+  });
+
+  it('should refuse to charge when the adapter does not implement debitUserCredits', async () => {
+    (adapter as any).debitUserCredits = undefined;
+
+    await expect(engine.charge({ userId: 'user-1', action: 'generate-post' })).rejects.toThrow(
+      ConfigurationError
+    );
+
+    expect(await engine.queryBalance('user-1')).toBe(100);
+    expect(adapter.getAllTransactions()).toHaveLength(0);
+  });
+
+  it('should report the latest available balance when the conditional debit fails', async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 11 }, () =>
+        engine.charge({ userId: 'user-1', action: 'generate-post' })
+      )
+    );
+
+    const rejected = results.find(r => r.status === 'rejected') as PromiseRejectedResult;
+    expect(rejected.reason.available).toBe(0);
+  });
+});
+
+describe('CreditsEngine concurrent operations with retry enabled', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+
+  beforeEach(async () => {
+    const config: CreditsConfig = {
+      costs: {
+        'generate-post': { default: 10 }
+      },
+      membership: {
+        tiers: { free: 0 },
+        requirements: { 'generate-post': null },
+        creditsCaps: { free: 1000 }
+      },
+      retry: {
+        enabled: true,
+        maxAttempts: 3,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: true, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+
+    await adapter.createUser({ id: 'user-1', credits: 100 });
+    await adapter.createUser({ id: 'user-2', credits: 0 });
+  });
+
+  it('should keep every committed charge when other charges roll back', async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 25 }, () =>
+        engine.charge({ userId: 'user-1', action: 'generate-post' })
+      )
+    );
+
+    const fulfilled = results.filter(r => r.status === 'fulfilled');
+    const rejected = results.filter(r => r.status === 'rejected');
+
+    expect(fulfilled).toHaveLength(10);
+    for (const result of rejected) {
+      expect((result as PromiseRejectedResult).reason).toBeInstanceOf(InsufficientCreditsError);
+    }
+
+    expect(await engine.queryBalance('user-1')).toBe(0);
+    expect(adapter.getAllTransactions()).toHaveLength(10);
+  });
+
+  it('should keep concurrent grants, transfers and refunds consistent', async () => {
+    const charge = await engine.charge({ userId: 'user-1', action: 'generate-post' });
+
+    await Promise.allSettled([
+      ...Array.from({ length: 5 }, () => engine.grant({ userId: 'user-1', amount: 10, action: 'bonus' })),
+      ...Array.from({ length: 12 }, () => engine.transfer({ fromUserId: 'user-1', toUserId: 'user-2', amount: 10 })),
+      engine.refund({ transactionId: charge.transactionId })
+    ]);
+
+    const user1 = await engine.queryBalance('user-1');
+    const user2 = await engine.queryBalance('user-2');
+
+    expect(user1 + user2).toBe(150);
+    expect(user1).toBeGreaterThanOrEqual(0);
+
+    // 余额与交易记录的合计一致：没有已提交的写入被其他事务的回滚撤销
+    const ledger = adapter.getAllTransactions();
+    const sum = (userId: string) => ledger.filter(t => t.userId === userId).reduce((s, t) => s + t.amount, 0);
+    expect(sum('user-1')).toBe(user1 - 100);
+    expect(sum('user-2')).toBe(user2);
+  });
+
+  it('should keep concurrent charges on wallets, organization pools and expiring lots', async () => {
+    await adapter.createOrganization({ id: 'org-1', credits: 50 });
+    await adapter.createUser({ id: 'member-1', credits: 0, organizationId: 'org-1' });
+    await adapter.updateWalletBalance('user-2', 'image', 30);
+    await engine.grant({ userId: 'user-2', amount: 40, action: 'promo', expiresAt: new Date(Date.now() + 86400000) });
+
+    await Promise.allSettled([
+      ...Array.from({ length: 8 }, () => engine.charge({ userId: 'member-1', action: 'generate-post' })),
+      ...Array.from({ length: 5 }, () =>
+        engine.charge({ userId: 'user-2', action: 'generate-post', wallet: 'image' })
+      ),
+      ...Array.from({ length: 6 }, () => engine.charge({ userId: 'user-2', action: 'generate-post' }))
+    ]);
+
+    expect((await adapter.getOrganizationById('org-1'))!.credits).toBe(0);
+    expect(await engine.queryBalance('user-2', undefined, { wallet: 'image' })).toBe(0);
+    expect(await engine.queryBalance('user-2')).toBe(0);
+    expect(adapter.getAllCreditLots().map(lot => lot.remaining)).toEqual([0]);
+    expect(adapter.getAllTransactions().filter(t => t.amount < 0)).toHaveLength(5 + 3 + 4);
+  });
+
+  it('should not let concurrent batches overdraw an account', async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 4 }, () =>
+        engine.chargeBatch(Array.from({ length: 3 }, () => ({ userId: 'user-1', action: 'generate-post' })))
+      )
+    );
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(4);
+    const charged = results.filter(
+      r => r.status === 'fulfilled' && r.value.succeeded === 3
+    );
+
+    expect(charged).toHaveLength(3);
+    expect(await engine.queryBalance('user-1')).toBe(10);
+    expect(adapter.getAllTransactions()).toHaveLength(9);
+  });
+});
@@ -24,6 +24,9 @@ class MockStorageAdapter implements IStorageAdapter {
   async updateUserCredits(userId: string, amount: number, txn?: any): Promise<any> {
     throw new Error('Not implemented');
   }
+  async debitUserCredits(userId: string, amount: number, minBalance: number, txn?: any): Promise<any> {
+    throw new Error('Not implemented');
+  }
   async createTransaction(transaction: any, txn?: any): Promise<any> {
     throw new Error('Not implemented');
   }
@@ -0,0 +1,316 @@
+/**
+ * CreditsEngine 积分批次单元测试
+ *
+ * 测试带到期时间的发放、按到期顺序消耗、过期清除和余额明细
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CreditsEngine } from '../../src/core/CreditsEngine';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
+import { InsufficientCreditsError, ConfigurationError } from '../../src/core/errors';
+import type { CreditsConfig } from '../../src/core/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = new Date('2025-01-01T00:00:00Z');
+
+describe('CreditsEngine credit lots', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+  let config: CreditsConfig;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+
+    config = {
+      costs: {
+        'generate-post': { default: 10 },
+        'big-action': { default: 70 }
+      },
+      membership: {
+        tiers: { free: 0 },
+        requirements: { 'generate-post': null, 'big-action': null },
+        creditsCaps: { free: 1000 }
+      },
+      retry: {
+        enabled: false,
+        maxAttempts: 1,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: false, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+
+    await adapter.createUser({ id: 'user-1', credits: 20 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const grantExpiring = (amount: number, days: number) =>
+    engine.grant({
+      userId: 'user-1',
+      amount,
+      action: 'promotion',
+      expiresAt: new Date(START.getTime() + days * DAY)
+    });
+
+  describe('grant with expiresAt', () => {
+    it('should record the grant as a credit lot', async () => {
+      const result = await grantExpiring(50, 30);
+
+      expect(result.lotId).toBeDefined();
+      expect(result.balanceAfter).toBe(70);
+
+      const lots = adapter.getAllCreditLots();
+      expect(lots).toHaveLength(1);
+      expect(lots[0]!.id).toBe(result.lotId);
+      expect(lots[0]!.remaining).toBe(50);
+
+      const transaction = adapter.getAllTransactions()[0]!;
+      expect(transaction.metadata.lotId).toBe(result.lotId);
+      expect(transaction.metadata.expiresAt).toBe(new Date(START.getTime() + 30 * DAY).toISOString());
+    });
+
+    it('should not create a lot for permanent grants', async () => {
+      const result = await engine.grant({ userId: 'user-1', amount: 50, action: 'promotion' });
+
+      expect(result.lotId).toBeUndefined();
+      expect(adapter.getAllCreditLots()).toHaveLength(0);
+    });
+
+    it('should reject an expiry that is not in the future', async () => {
+      await expect(grantExpiring(50, 0)).rejects.toThrow(ConfigurationError);
+      expect(await engine.queryBalance('user-1')).toBe(20);
+    });
+
+    it('should require lot support from the storage adapter', async () => {
+      const storage = new MockAdapter();
+      await storage.createUser({ id: 'user-1', credits: 0 });
+      (storage as any).createCreditLot = undefined;
+      const plainEngine = new CreditsEngine({ storage, config });
+
+      await expect(
+        plainEngine.grant({
+          userId: 'user-1',
+          amount: 50,
+          action: 'promotion',
+          expiresAt: new Date(START.getTime() + DAY)
+        })
+      ).rejects.toThrow(/createCreditLot/);
+    });
+  });
+
+  describe('charge', () => {
+    it('should consume the soonest-expiring lots first', async () => {
+      const later = await grantExpiring(30, 60);
+      const sooner = await grantExpiring(30, 10);
+
+      const result = await engine.charge({ userId: 'user-1', action: 'big-action' });
+
+      const lots = adapter.getAllCreditLots();
+      expect(lots.find(l => l.id === sooner.lotId)!.remaining).toBe(0);
+      expect(lots.find(l => l.id === later.lotId)!.remaining).toBe(0);
+
+      const transaction = adapter.getAllTransactions().find(t => t.id === result.transactionId)!;
+      expect(transaction.metadata.creditLots).toEqual([
+        { lotId: sooner.lotId, amount: 30 },
+        { lotId: later.lotId, amount: 30 }
+      ]);
+      expect(result.balanceAfter).toBe(10);
+    });
+
+    it('should fall back to permanent credits once lots are used up', async () => {
+      const { lotId } = await grantExpiring(5, 10);
+
+      await engine.charge({ userId: 'user-1', action: 'generate-post' });
+
+      expect(adapter.getAllCreditLots()[0]!.remaining).toBe(0);
+      expect(await engine.queryBalance('user-1')).toBe(15);
+      expect(adapter.getAllTransactions().at(-1)!.metadata.creditLots).toEqual([
+        { lotId, amount: 5 }
+      ]);
+    });
+
+    it('should not record lots when only permanent credits exist', async () => {
+      await engine.charge({ userId: 'user-1', action: 'generate-post' });
+
+      expect(adapter.getAllTransactions()[0]!.metadata.creditLots).toBeUndefined();
+    });
+
+    it('should not spend credits from expired lots', async () => {
+      await grantExpiring(100, 1);
+      vi.setSystemTime(new Date(START.getTime() + 2 * DAY));
+
+      await expect(
+        engine.charge({ userId: 'user-1', action: 'big-action' })
+      ).rejects.toThrow(InsufficientCreditsError);
+
+      await engine.charge({ userId: 'user-1', action: 'generate-post' });
+      expect(await engine.queryBalance('user-1')).toBe(110);
+    });
+
+    it('should keep expired lot credits out of reserve', async () => {
+      await grantExpiring(100, 1);
+      vi.setSystemTime(new Date(START.getTime() + 2 * DAY));
+
+      await expect(
+        engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 30 })
+      ).rejects.toThrow(InsufficientCreditsError);
+    });
+  });
+
+  describe('capture', () => {
+    it('should consume lots for the captured amount', async () => {
+      const { lotId } = await grantExpiring(50, 10);
+      const hold = await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 40 });
+
+      const result = await engine.capture({ holdId: hold.holdId, amount: 25 });
+
+      expect(adapter.getAllCreditLots()[0]!.remaining).toBe(25);
+      const transaction = adapter.getAllTransactions().find(t => t.id === result.transactionId)!;
+      expect(transaction.metadata.creditLots).toEqual([{ lotId, amount: 25 }]);
+    });
+  });
+
+  describe('expireCredits', () => {
+    it('should remove the remaining credits of expired lots', async () => {
+      const { lotId } = await grantExpiring(50, 1);
+      await engine.charge({ userId: 'user-1', action: 'generate-post' });
+      vi.setSystemTime(new Date(START.getTime() + 2 * DAY));
+
+      const result = await engine.expireCredits();
+
+      expect(result.expiredLots).toBe(1);
+      expect(result.expiredCredits).toBe(40);
+      expect(await engine.queryBalance('user-1')).toBe(20);
+      expect(adapter.getAllCreditLots()[0]!.remaining).toBe(0);
+
+      const transaction = adapter.getAllTransactions().find(t => t.id === result.transactionIds[0])!;
+      expect(transaction.action).toBe('credit-expiry');
+      expect(transaction.amount).toBe(-40);
+      expect(transaction.balanceBefore).toBe(60);
+      expect(transaction.balanceAfter).toBe(20);
+      expect(transaction.metadata).toMatchObject({ lotId, expiredAmount: 40 });
+
+      const logs = adapter.getAuditLogs().filter(l => l.action === 'expireCredits');
+      expect(logs).toHaveLength(1);
+      expect(logs[0]!.status).toBe('success');
+    });
+
+    it('should leave unexpired lots alone', async () => {
+      await grantExpiring(50, 10);
+
+      const result = await engine.expireCredits();
+
+      expect(result).toEqual({ expiredLots: 0, expiredCredits: 0, transactionIds: [] });
+      expect(await engine.queryBalance('user-1')).toBe(70);
+    });
+
+    it('should process every expired lot across batches', async () => {
+      for (let i = 1; i <= 5; i++) {
+        await grantExpiring(10, i);
+      }
+
+      const result = await engine.expireCredits({
+        now: new Date(START.getTime() + 10 * DAY),
+        batchSize: 2
+      });
+
+      expect(result.expiredLots).toBe(5);
+      expect(result.expiredCredits).toBe(50);
+      expect(await engine.queryBalance('user-1')).toBe(20);
+    });
+
+    it('should not push the balance below zero', async () => {
+      await grantExpiring(50, 1);
+      const user = await adapter.getUserById('user-1');
+      adapter.setUser({ ...user!, credits: 30 });
+
+      const result = await engine.expireCredits({ now: new Date(START.getTime() + 2 * DAY) });
+
+      expect(result.expiredCredits).toBe(30);
+      expect(await engine.queryBalance('user-1')).toBe(0);
+      expect(adapter.getAllTransactions().at(-1)!.metadata.expiredAmount).toBe(50);
+    });
+
+    it('should roll back the lot when debiting the balance fails', async () => {
+      await grantExpiring(50, 1);
+      vi.spyOn(adapter, 'debitUserCredits').mockRejectedValueOnce(new Error('connection lost'));
+      const now = new Date(START.getTime() + 2 * DAY);
+
+      await expect(engine.expireCredits({ now })).rejects.toThrow('connection lost');
+      expect(adapter.getAllCreditLots()[0]!.remaining).toBe(50);
+      expect(await engine.queryBalance('user-1')).toBe(70);
+
+      const result = await engine.expireCredits({ now });
+      expect(result.expiredCredits).toBe(50);
+      expect(await engine.queryBalance('user-1')).toBe(20);
+    });
+
+    it('should retry a lot that failed with a transient error', async () => {
+      engine = new CreditsEngine({
+        storage: adapter,
+        config: {
+          ...config,
+          retry: { enabled: true, maxAttempts: 2, initialDelay: 0, maxDelay: 0, backoffMultiplier: 1 },
+          idempotency: { enabled: true, ttl: 86400 }
+        }
+      });
+      await grantExpiring(50, 1);
+      vi.spyOn(adapter, 'debitUserCredits').mockRejectedValueOnce(
+        Object.assign(new Error('connection reset'), { code: 'ECONNRESET' })
+      );
+
+      const pending = engine.expireCredits({ now: new Date(START.getTime() + 2 * DAY) });
+      await vi.runAllTimersAsync();
+      const result = await pending;
+
+      expect(result.expiredLots).toBe(1);
+      expect(result.expiredCredits).toBe(50);
+      expect(await engine.queryBalance('user-1')).toBe(20);
+      expect(adapter.getAllTransactions().filter(t => t.action === 'credit-expiry')).toHaveLength(1);
+    });
+
+    it('should reject a non-positive batch size', async () => {
+      await expect(engine.expireCredits({ batchSize: 0 })).rejects.toThrow(ConfigurationError);
+    });
+  });
+
+  describe('queryBalance breakdown', () => {
+    it('should split the balance into lots, permanent, held and expired credits', async () => {
+      const expiring = await grantExpiring(30, 1);
+      const active = await grantExpiring(50, 30);
+      await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 15, ttl: 7 * 86400 });
+      vi.setSystemTime(new Date(START.getTime() + 2 * DAY));
+
+      const breakdown = await engine.queryBalance('user-1', undefined, { breakdown: true });
+
+      expect(breakdown).toEqual({
+        userId: 'user-1',
+        total: 100,
+        available: 55,
+        held: 15,
+        expired: 30,
+        permanent: 20,
+        lots: [
+          { lotId: active.lotId, remaining: 50, expiresAt: new Date(START.getTime() + 30 * DAY) }
+        ],
+        wallets: { default: 100 }
+      });
+      expect(expiring.lotId).not.toBe(active.lotId);
+    });
+
+    it('should still return a number by default', async () => {
+      await grantExpiring(30, 1);
+
+      expect(await engine.queryBalance('user-1')).toBe(50);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * CreditsEngine 权益单元测试
+ *
+ * 测试等级和附加包授予的功能、操作的功能要求、附加包的授予和撤销，以及配置校验
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CreditsEngine } from '../../src/core/CreditsEngine';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
+import {
+  ConfigurationError,
+  EntitlementRequiredError,
+  MembershipRequiredError
+} from '../../src/core/errors';
+import type { CreditsConfig } from '../../src/core/types';
+
+describe('CreditsEngine entitlements', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+  let config: CreditsConfig;
+
+  beforeEach(async () => {
+    config = {
+      costs: {
+        'call-api': { default: 5 },
+        'export-report': { default: 20 },
+        'bulk-export': { default: 50 }
+      },
+      membership: {
+        tiers: { free: 0, basic: 1, premium: 2 },
+        requirements: { 'bulk-export': 'premium' },
+        creditsCaps: { free: 100, basic: 500, premium: 2000 },
+        entitlements: {
+          tiers: { basic: ['export'], premium: ['priority'] },
+          addOns: { 'api-access': ['api'], 'export-pack': ['export'] },
+          requirements: {
+            'call-api': ['api'],
+            'export-report': ['export'],
+            'bulk-export': ['export', 'api']
+          }
+        }
+      },
+      retry: {
+        enabled: false,
+        maxAttempts: 1,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: true, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+
+    await adapter.createUser({ id: 'free-user', credits: 100, membershipTier: 'free', membershipExpiresAt: null });
+    await adapter.createUser({ id: 'premium-user', credits: 1000, membershipTier: 'premium', membershipExpiresAt: null });
+  });
+
+  describe('access checks', () => {
+    it('should grant the features of the tier and all lower tiers', async () => {
+      expect(await engine.validateAccess('premium-user', 'export-report')).toBe(true);
+      expect(await engine.getEntitlements('premium-user')).toEqual({
+        userId: 'premium-user',
+        tier: 'premium',
+        addOns: [],
+        entitlements: ['export', 'priority']
+      });
+    });
+
+    it('should name the missing entitlement', async () => {
+      const error = await engine.validateAccess('free-user', 'call-api').catch(e => e);
+
+      expect(error).toBeInstanceOf(EntitlementRequiredError);
+      expect(error).toMatchObject({ userId: 'free-user', action: 'call-api', missing: ['api'] });
+      expect(error.message).toContain('api');
+    });
+
+    it('should let add-ons grant features on any tier', async () => {
+      await engine.grantAddOn({ userId: 'free-user', addOn: 'api-access' });
+
+      expect(await engine.validateAccess('free-user', 'call-api')).toBe(true);
+
+      const result = await engine.charge({ userId: 'free-user', action: 'call-api' });
+      expect(result.cost).toBe(5);
+    });
+
+    it('should check the tier requirement before the features', async () => {
+      await engine.grantAddOn({ userId: 'free-user', addOn: 'api-access' });
+      await engine.grantAddOn({ userId: 'free-user', addOn: 'export-pack' });
+
+      await expect(engine.validateAccess('free-user', 'bulk-export')).rejects.toThrow(MembershipRequiredError);
+
+      await expect(engine.validateAccess('premium-user', 'bulk-export')).rejects.toThrow(/lacks entitlement api/);
+    });
+
+    it('should return the entitlement details', async () => {
+      await engine.grantAddOn({ userId: 'premium-user', addOn: 'api-access' });
+
+      expect(
+        await engine.validateAccess('premium-user', 'bulk-export', undefined, { details: true })
+      ).toMatchObject({
+        valid: true,
+        requiredTier: 'premium',
+        requiredEntitlements: ['export', 'api']
+      });
+    });
+
+    it('should reject charges without the entitlement', async () => {
+      await expect(engine.charge({ userId: 'free-user', action: 'call-api' })).rejects.toThrow(
+        EntitlementRequiredError
+      );
+      expect(adapter.getAllTransactions()).toHaveLength(0);
+    });
+
+    it('should report the missing entitlement in estimates', async () => {
+      const estimate = await engine.estimate({ userId: 'free-user', action: 'call-api' });
+
+      expect(estimate.wouldSucceed).toBe(false);
+      expect(estimate.failureReason?.code).toBe('ENTITLEMENT_REQUIRED');
+    });
+
+    it('should drop tier features when the membership expires but keep add-ons', async () => {
+      await adapter.createUser({
+        id: 'expired-user',
+        credits: 100,
+        membershipTier: 'basic',
+        membershipExpiresAt: new Date(Date.now() - 1000)
+      });
+      await engine.grantAddOn({ userId: 'expired-user', addOn: 'api-access' });
+
+      expect(await engine.getEntitlements('expired-user')).toMatchObject({ tier: null, entitlements: ['api'] });
+      await expect(engine.validateAccess('expired-user', 'export-report')).rejects.toThrow(EntitlementRequiredError);
+    });
+  });
+
+  describe('add-ons', () => {
+    it('should grant and revoke add-ons', async () => {
+      const granted = await engine.grantAddOn({ userId: 'free-user', addOn: 'api-access' });
+      expect(granted).toEqual({ success: true, userId: 'free-user', addOns: ['api-access'], changed: true });
+
+      const repeated = await engine.grantAddOn({ userId: 'free-user', addOn: 'api-access' });
+      expect(repeated.changed).toBe(false);
+
+      const revoked = await engine.revokeAddOn({ userId: 'free-user', addOn: 'api-access' });
+      expect(revoked).toEqual({ success: true, userId: 'free-user', addOns: [], changed: true });
+
+      await expect(engine.validateAccess('free-user', 'call-api')).rejects.toThrow(EntitlementRequiredError);
+    });
+
+    it('should write audit logs', async () => {
+      await engine.grantAddOn({ userId: 'free-user', addOn: 'api-access', metadata: { orderId: 'o-1' } });
+      await engine.revokeAddOn({ userId: 'free-user', addOn: 'api-access' });
+
+      const logs = adapter.getAuditLogs().filter(log => log.action.endsWith('AddOn'));
+      expect(logs.map(log => log.action)).toEqual(['grantAddOn', 'revokeAddOn']);
+      expect(logs[0]!.metadata).toMatchObject({ addOn: 'api-access', changed: true, orderId: 'o-1' });
+    });
+
+    it('should reject unknown add-ons and users', async () => {
+      await expect(engine.grantAddOn({ userId: 'free-user', addOn: 'unknown' })).rejects.toThrow(ConfigurationError);
+      await expect(engine.grantAddOn({ userId: 'missing', addOn: 'api-access' })).rejects.toThrow(/missing/);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should reject invalid entitlement settings', () => {
+      config.membership.entitlements = { tiers: { platinum: ['api'] } };
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(/platinum/);
+
+      config.membership.entitlements = { addOns: { 'api-access': 'api' as any } };
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(ConfigurationError);
+
+      config.membership.entitlements = { requirements: { 'call-api': ['api'] } };
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(/not granted by any tier or add-on/);
+    });
+  });
+});
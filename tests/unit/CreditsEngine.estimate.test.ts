@@ -0,0 +1,170 @@
+/**
+ * CreditsEngine 扣费预估单元测试
+ *
+ * 测试预估与 charge 使用相同的成本计算和检查，并且不写入任何数据
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CreditsEngine } from '../../src/core/CreditsEngine';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
+import {
+  UserNotFoundError,
+  UndefinedActionError,
+  MissingVariableError
+} from '../../src/core/errors';
+import type { CreditsConfig } from '../../src/core/types';
+
+describe('CreditsEngine estimate', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+  let config: CreditsConfig;
+
+  beforeEach(async () => {
+    config = {
+      costs: {
+        'ai-completion': { default: '{token} * 0.001 + 10', premium: '{token} * 0.0008 + 8' },
+        'generate-post': { default: 10 },
+        'generate-video': { default: 50 },
+        'generate-image': { default: 20, wallet: 'image' }
+      },
+      membership: {
+        tiers: { free: 0, premium: 1 },
+        requirements: {
+          'ai-completion': null,
+          'generate-post': null,
+          'generate-video': 'premium',
+          'generate-image': null
+        },
+        creditsCaps: { free: 1000, premium: 5000 }
+      },
+      retry: {
+        enabled: false,
+        maxAttempts: 1,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: true, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+
+    await adapter.createUser({ id: 'user-1', credits: 20 });
+  });
+
+  it('should return the cost and calculation details of a dynamic formula', async () => {
+    const result = await engine.estimate({
+      userId: 'user-1',
+      action: 'ai-completion',
+      variables: { token: 3500 }
+    });
+
+    expect(result).toEqual({
+      cost: 13.5,
+      calculationDetails: {
+        formula: '{token} * 0.001 + 10',
+        variables: { token: 3500 },
+        rawCost: 13.5,
+        finalCost: 13.5,
+        isDynamic: true
+      },
+      wouldSucceed: true,
+      available: 20
+    });
+  });
+
+  it('should match the cost charged afterwards', async () => {
+    await adapter.updateUserMembership('user-1', 'premium', 20, null);
+    const params = { userId: 'user-1', action: 'ai-completion', variables: { token: 3500 } };
+
+    const estimate = await engine.estimate(params);
+    const charge = await engine.charge(params);
+
+    expect(estimate.cost).toBe(10.8);
+    expect(charge.cost).toBe(estimate.cost);
+  });
+
+  it('should not write balances, transactions, audit logs or idempotency records', async () => {
+    await engine.estimate({ userId: 'user-1', action: 'generate-post' });
+    await engine.estimate({ userId: 'user-1', action: 'generate-video' });
+
+    expect(await engine.queryBalance('user-1')).toBe(20);
+    expect(adapter.getAllTransactions()).toHaveLength(0);
+    expect(adapter.getAuditLogs()).toHaveLength(0);
+    expect(adapter.getAllIdempotencyRecords()).toHaveLength(0);
+  });
+
+  it('should report insufficient credits', async () => {
+    const result = await engine.estimate({
+      userId: 'user-1',
+      action: 'ai-completion',
+      variables: { token: 20000 }
+    });
+
+    expect(result.cost).toBe(30);
+    expect(result.wouldSucceed).toBe(false);
+    expect(result.failureReason).toEqual({
+      code: 'INSUFFICIENT_CREDITS',
+      message: expect.stringContaining('user-1')
+    });
+  });
+
+  it('should report a missing membership before the balance', async () => {
+    const result = await engine.estimate({ userId: 'user-1', action: 'generate-video' });
+
+    expect(result.cost).toBe(50);
+    expect(result.available).toBe(20);
+    expect(result.failureReason?.code).toBe('MEMBERSHIP_REQUIRED');
+  });
+
+  it('should exclude held credits from the available balance', async () => {
+    await engine.reserve({ userId: 'user-1', amount: 15 });
+
+    const result = await engine.estimate({ userId: 'user-1', action: 'generate-post' });
+
+    expect(result.available).toBe(5);
+    expect(result.wouldSucceed).toBe(false);
+  });
+
+  it('should estimate against the wallet of the action', async () => {
+    await adapter.updateWalletBalance('user-1', 'image', 25);
+
+    const result = await engine.estimate({ userId: 'user-1', action: 'generate-image' });
+
+    expect(result).toMatchObject({ cost: 20, available: 25, wouldSucceed: true });
+  });
+
+  it('should check the organization pool and member spending limits', async () => {
+    await adapter.createOrganization({ id: 'org-1', credits: 100 });
+    await adapter.createUser({ id: 'member-1', credits: 0, organizationId: 'org-1' });
+
+    const allowed = await engine.estimate({ userId: 'member-1', action: 'generate-post' });
+    expect(allowed).toMatchObject({ available: 100, organizationId: 'org-1', wouldSucceed: true });
+
+    await engine.setMemberSpendingLimit({
+      organizationId: 'org-1',
+      userId: 'member-1',
+      period: 'daily',
+      limit: 5
+    });
+
+    const limited = await engine.estimate({ userId: 'member-1', action: 'generate-post' });
+    expect(limited.failureReason?.code).toBe('SPENDING_LIMIT_EXCEEDED');
+  });
+
+  it('should throw for unknown users, actions and missing variables', async () => {
+    await expect(
+      engine.estimate({ userId: 'missing', action: 'generate-post' })
+    ).rejects.toThrow(UserNotFoundError);
+
+    await expect(
+      engine.estimate({ userId: 'user-1', action: 'unknown-action' })
+    ).rejects.toThrow(UndefinedActionError);
+
+    await expect(
+      engine.estimate({ userId: 'user-1', action: 'ai-completion' })
+    ).rejects.toThrow(MissingVariableError);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * CreditsEngine 会员到期处理单元测试
+ *
+ * 测试到期会员降级到回退等级、重复执行和并发续费时不重复处理，以及配置校验
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CreditsEngine } from '../../src/core/CreditsEngine';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
+import { ConfigurationError } from '../../src/core/errors';
+import type { CreditsConfig } from '../../src/core/types';
+
+describe('CreditsEngine processExpiredMemberships', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+  let config: CreditsConfig;
+
+  const now = new Date('2025-06-01T00:00:00Z');
+  const expiredAt = new Date('2025-05-01T00:00:00Z');
+
+  beforeEach(async () => {
+    config = {
+      costs: {
+        'generate-post': { default: 10 }
+      },
+      membership: {
+        tiers: { free: 0, basic: 1, premium: 2 },
+        requirements: { 'generate-post': null },
+        creditsCaps: { free: 100, basic: 500, premium: 2000 },
+        fallbackTier: 'basic'
+      },
+      retry: {
+        enabled: false,
+        maxAttempts: 1,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: true, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+
+    await adapter.createUser({
+      id: 'user-1',
+      credits: 1500,
+      membershipTier: 'premium',
+      membershipExpiresAt: expiredAt
+    });
+  });
+
+  it('should downgrade expired members to the fallback tier', async () => {
+    const result = await engine.processExpiredMemberships({ now });
+
+    const user = await adapter.getUserById('user-1');
+    expect(user).toMatchObject({ membershipTier: 'basic', credits: 500, membershipExpiresAt: null });
+    expect(result).toEqual({
+      downgraded: 1,
+      cleared: 0,
+      transactionIds: [adapter.getAllTransactions()[0]!.id]
+    });
+  });
+
+  it('should record a tier-expired transaction and an expireMembership audit log', async () => {
+    await engine.processExpiredMemberships({ now });
+
+    const [transaction] = adapter.getAllTransactions();
+    expect(transaction).toMatchObject({
+      userId: 'user-1',
+      action: 'tier-expired',
+      amount: -1000,
+      balanceBefore: 1500,
+      balanceAfter: 500
+    });
+    expect(transaction!.metadata).toMatchObject({
+      oldTier: 'premium',
+      newTier: 'basic',
+      expiredAt: expiredAt.toISOString()
+    });
+    expect(adapter.getAuditLogs().map(l => [l.action, l.status])).toEqual([
+      ['expireMembership', 'success']
+    ]);
+  });
+
+  it('should leave active and permanent memberships alone', async () => {
+    await adapter.createUser({
+      id: 'active',
+      credits: 2000,
+      membershipTier: 'premium',
+      membershipExpiresAt: new Date('2025-07-01T00:00:00Z')
+    });
+    await adapter.createUser({ id: 'forever', credits: 2000, membershipTier: 'premium' });
+
+    await engine.processExpiredMemberships({ now });
+
+    expect((await adapter.getUserById('active'))!.membershipTier).toBe('premium');
+    expect((await adapter.getUserById('forever'))!.membershipTier).toBe('premium');
+  });
+
+  it('should do nothing when run again', async () => {
+    await engine.processExpiredMemberships({ now });
+    const second = await engine.processExpiredMemberships({ now });
+
+    expect(second).toEqual({ downgraded: 0, cleared: 0, transactionIds: [] });
+    expect(adapter.getAllTransactions()).toHaveLength(1);
+  });
+
+  it('should only clear the expiry of members at or below the fallback tier', async () => {
+    await adapter.createUser({
+      id: 'free-user',
+      credits: 80,
+      membershipTier: 'free',
+      membershipExpiresAt: expiredAt
+    });
+
+    const result = await engine.processExpiredMemberships({ now });
+
+    expect(await adapter.getUserById('free-user')).toMatchObject({
+      membershipTier: 'free',
+      credits: 80,
+      membershipExpiresAt: null
+    });
+    expect(result).toMatchObject({ downgraded: 1, cleared: 1 });
+    expect(adapter.getAllTransactions()).toHaveLength(1);
+  });
+
+  it('should keep charges committed while clearing the expiry', async () => {
+    await adapter.createUser({
+      id: 'free-user',
+      credits: 80,
+      membershipTier: 'free',
+      membershipExpiresAt: expiredAt
+    });
+    const getScheduledTierChange = adapter.getScheduledTierChange.bind(adapter);
+    vi.spyOn(adapter, 'getScheduledTierChange').mockImplementation(async (userId, txn) => {
+      if (userId === 'free-user') {
+        await adapter.updateUserCredits(userId, -10);
+      }
+      return await getScheduledTierChange(userId, txn);
+    });
+
+    await engine.processExpiredMemberships({ now });
+
+    expect(await adapter.getUserById('free-user')).toMatchObject({ credits: 70, membershipExpiresAt: null });
+  });
+
+  it('should process every batch', async () => {
+    for (const id of ['user-2', 'user-3']) {
+      await adapter.createUser({
+        id,
+        credits: 2000,
+        membershipTier: 'premium',
+        membershipExpiresAt: expiredAt
+      });
+    }
+
+    const result = await engine.processExpiredMemberships({ now, batchSize: 1 });
+
+    expect(result.downgraded).toBe(3);
+  });
+
+  it('should skip members who renewed after they were queried', async () => {
+    const stale = (await adapter.getUserById('user-1'))!;
+    await adapter.updateUserMembership('user-1', 'premium', 1500, new Date('2026-05-01T00:00:00Z'));
+    vi.spyOn(adapter, 'getUsersWithExpiredMembership').mockResolvedValueOnce([stale]);
+
+    const result = await engine.processExpiredMemberships({ now });
+
+    expect(result).toMatchObject({ downgraded: 0, cleared: 0 });
+    expect((await adapter.getUserById('user-1'))!.membershipTier).toBe('premium');
+  });
+
+  it('should not downgrade twice when a concurrent run already handled the member', async () => {
+    const stale = (await adapter.getUserById('user-1'))!;
+    await engine.processExpiredMemberships({ now });
+    vi.spyOn(adapter, 'getUsersWithExpiredMembership').mockResolvedValueOnce([stale]);
+
+    await engine.processExpiredMemberships({ now });
+
+    expect(adapter.getAllTransactions()).toHaveLength(1);
+  });
+
+  it('should not downgrade twice when the commit succeeded but the response was lost', async () => {
+    config.retry = { enabled: true, maxAttempts: 3, initialDelay: 0, maxDelay: 0, backoffMultiplier: 1 };
+    engine = new CreditsEngine({ storage: adapter, config });
+    const runInTransaction = adapter.runInTransaction.bind(adapter);
+    vi.spyOn(adapter, 'runInTransaction').mockImplementationOnce(async fn => {
+      await runInTransaction(fn);
+      throw Object.assign(new Error('Connection reset'), { code: 'ECONNRESET' });
+    }).mockImplementation(runInTransaction);
+
+    await engine.processExpiredMemberships({ now });
+
+    expect(adapter.getAllTransactions()).toHaveLength(1);
+    expect((await adapter.getUserById('user-1'))!.credits).toBe(500);
+  });
+
+  describe('configuration', () => {
+    it('should require a fallback tier', async () => {
+      delete config.membership.fallbackTier;
+      engine = new CreditsEngine({ storage: adapter, config });
+
+      await expect(engine.processExpiredMemberships({ now })).rejects.toThrow(/fallbackTier/);
+    });
+
+    it('should reject an undefined fallback tier', () => {
+      config.membership.fallbackTier = 'gold';
+
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(ConfigurationError);
+    });
+
+    it('should reject an invalid batch size', async () => {
+      await expect(
+        engine.processExpiredMemberships({ now, batchSize: 0 })
+      ).rejects.toThrow(ConfigurationError);
+    });
+
+    it('should require adapter support', async () => {
+      (adapter as any).getUsersWithExpiredMembership = undefined;
+
+      await expect(
+        engine.processExpiredMemberships({ now })
+      ).rejects.toThrow(/getUsersWithExpiredMembership/);
+    });
+  });
+});
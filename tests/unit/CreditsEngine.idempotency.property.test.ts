@@ -12,6 +12,11 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import * as fc from 'fast-check';
 import { CreditsEngine } from '../../src/core/CreditsEngine';
 import { MockAdapter } from '../../src/adapters/MockAdapter';
+import {
+  IdempotencyKeyConflictError,
+  IdempotencyRequestInProgressError,
+  InsufficientCreditsError
+} from '../../src/core/errors';
 import type { CreditsConfig, User } from '../../src/core/types';
 
 describe('CreditsEngine Idempotency - Property Tests', () => {
@@ -373,5 +378,167 @@ describe('CreditsEngine Idempotency - Property Tests', () => {
         { numRuns: 100 }
       );
     });
+
+    /**
+     * Property 10.6: 幂等键按操作类型划分
+     * 
+     * For any idempotency key, a grant with the key must not replay the cached
+     * result of a charge with the same key; both operations execute.
+     */
+    it('should scope idempotency keys by operation type', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.string({ minLength: 10, maxLength: 50 }),
+          fc.integer({ min: 1, max: 1000 }),
+          async (idempotencyKey, amount) => {
+            const userId = `user-scope-${Date.now()}-${Math.floor(Math.random() * 1000000)}`;
+            const uniqueIdempotencyKey = `${userId}-${idempotencyKey}`;
+            await adapter.createUser({ id: userId, credits: 100 });
+
+            const charge = await engine.charge({
+              userId,
+              action: 'test-action',
+              idempotencyKey: uniqueIdempotencyKey
+            });
+            const grant = await engine.grant({
+              userId,
+              amount,
+              action: 'promotion',
+              idempotencyKey: uniqueIdempotencyKey
+            });
+
+            expect(grant.transactionId).not.toBe(charge.transactionId);
+            expect(grant.balanceAfter).toBe(90 + amount);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    /**
+     * Property 10.7: 以不同参数复用幂等键应该抛出冲突错误
+     * 
+     * For any grant with an idempotency key, repeating the key with a different
+     * amount must fail with IdempotencyKeyConflictError and leave the balance unchanged.
+     */
+    it('should reject idempotency key reuse with different parameters', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.string({ minLength: 10, maxLength: 50 }),
+          fc.tuple(
+            fc.integer({ min: 1, max: 1000 }),
+            fc.integer({ min: 1, max: 1000 })
+          ).filter(([first, second]) => first !== second),
+          async (idempotencyKey, [firstAmount, secondAmount]) => {
+            const userId = `user-conflict-${Date.now()}-${Math.floor(Math.random() * 1000000)}`;
+            const uniqueIdempotencyKey = `${userId}-${idempotencyKey}`;
+            await adapter.createUser({ id: userId, credits: 0 });
+
+            await engine.grant({
+              userId,
+              amount: firstAmount,
+              action: 'promotion',
+              idempotencyKey: uniqueIdempotencyKey
+            });
+
+            await expect(
+              engine.grant({
+                userId,
+                amount: secondAmount,
+                action: 'promotion',
+                idempotencyKey: uniqueIdempotencyKey
+              })
+            ).rejects.toThrow(IdempotencyKeyConflictError);
+
+            expect(await engine.queryBalance(userId)).toBe(firstAmount);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    /**
+     * Property 10.8: 并发的重复请求只执行一次
+     * 
+     * For any number of concurrent grants sharing an idempotency key, exactly one
+     * executes. With a wait timeout the duplicates return its result; without one
+     * they fail with IdempotencyRequestInProgressError.
+     */
+    it('should execute concurrent duplicate requests only once', async () => {
+      const waitingEngine = new CreditsEngine({
+        storage: adapter,
+        config: { ...config, idempotency: { ...config.idempotency, waitTimeout: 1000 } }
+      });
+
+      await fc.assert(
+        fc.asyncProperty(
+          fc.integer({ min: 2, max: 5 }),
+          fc.integer({ min: 1, max: 1000 }),
+          fc.boolean(),
+          async (concurrency, amount, wait) => {
+            const userId = `user-concurrent-${Date.now()}-${Math.floor(Math.random() * 1000000)}`;
+            await adapter.createUser({ id: userId, credits: 0 });
+            const target = wait ? waitingEngine : engine;
+
+            const results = await Promise.allSettled(
+              Array.from({ length: concurrency }, () =>
+                target.grant({ userId, amount, action: 'promotion', idempotencyKey: `${userId}-key` })
+              )
+            );
+
+            const [first, ...duplicates] = results;
+            expect(first!.status).toBe('fulfilled');
+            for (const duplicate of duplicates) {
+              if (wait) {
+                expect(duplicate).toEqual(first);
+              } else {
+                expect(duplicate.status).toBe('rejected');
+                expect((duplicate as PromiseRejectedResult).reason).toBeInstanceOf(
+                  IdempotencyRequestInProgressError
+                );
+              }
+            }
+
+            expect(await engine.queryBalance(userId)).toBe(amount);
+            expect(adapter.getAllTransactions().filter(t => t.userId === userId)).toHaveLength(1);
+          }
+        ),
+        { numRuns: 20 }
+      );
+    });
+
+    /**
+     * Property 10.9: 失败的请求不占用幂等键
+     * 
+     * For any charge that fails with an idempotency key, repeating the same request
+     * once it can succeed executes it instead of failing as in progress.
+     */
+    it('should release the idempotency key when a request fails', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.string({ minLength: 10, maxLength: 50 }),
+          fc.integer({ min: 0, max: 9 }),
+          async (idempotencyKey, credits) => {
+            const userId = `user-release-${Date.now()}-${Math.floor(Math.random() * 1000000)}`;
+            const uniqueIdempotencyKey = `${userId}-${idempotencyKey}`;
+            await adapter.createUser({ id: userId, credits });
+
+            const charge = () => engine.charge({
+              userId,
+              action: 'test-action',
+              idempotencyKey: uniqueIdempotencyKey
+            });
+
+            await expect(charge()).rejects.toThrow(InsufficientCreditsError);
+
+            await engine.grant({ userId, amount: 10, action: 'promotion' });
+            const result = await charge();
+
+            expect(result.balanceAfter).toBe(credits);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
   });
 });
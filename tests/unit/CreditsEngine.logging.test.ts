@@ -69,6 +69,14 @@ class MockStorageAdapter implements IStorageAdapter {
     return user;
   }
 
+  async debitUserCredits(userId: string, amount: number, minBalance: number, txn?: any): Promise<any> {
+    const user = this.users.get(userId);
+    if (!user) throw new Error('User not found');
+    if (user.credits - amount < minBalance) return null;
+    user.credits -= amount;
+    return user;
+  }
+
   async createTransaction(transaction: any, txn?: any): Promise<any> {
     const txn_record = {
       id: `txn-${Date.now()}`,
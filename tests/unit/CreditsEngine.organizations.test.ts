@@ -0,0 +1,289 @@
+/**
+ * CreditsEngine 组织积分池单元测试
+ *
+ * 测试组织成员从积分池扣费、成员消费限额和消费归属
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CreditsEngine } from '../../src/core/CreditsEngine';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
+import {
+  InsufficientCreditsError,
+  ConfigurationError,
+  OrganizationNotFoundError,
+  SpendingLimitExceededError
+} from '../../src/core/errors';
+import type { CreditsConfig } from '../../src/core/types';
+
+const START = new Date('2025-01-15T12:00:00Z');
+
+describe('CreditsEngine organization credit pools', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+  let config: CreditsConfig;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+
+    config = {
+      costs: {
+        'generate-post': { default: 10 },
+        'generate-image': { default: 20, wallet: 'image' }
+      },
+      membership: {
+        tiers: { free: 0 },
+        requirements: { 'generate-post': null, 'generate-image': null },
+        creditsCaps: { free: 1000 }
+      },
+      retry: {
+        enabled: false,
+        maxAttempts: 1,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: false, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+
+    await adapter.createOrganization({ id: 'org-1', credits: 100 });
+    await adapter.createUser({ id: 'member-1', credits: 5, organizationId: 'org-1' });
+    await adapter.createUser({ id: 'member-2', credits: 0, organizationId: 'org-1' });
+    await adapter.createUser({ id: 'solo', credits: 50 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('charge', () => {
+    it('should draw from the organization pool', async () => {
+      const result = await engine.charge({ userId: 'member-1', action: 'generate-post' });
+
+      expect(result.organizationId).toBe('org-1');
+      expect(result.balanceBefore).toBe(100);
+      expect(result.balanceAfter).toBe(90);
+      expect((await adapter.getOrganizationById('org-1'))!.credits).toBe(90);
+      expect(await engine.queryBalance('member-1')).toBe(5);
+    });
+
+    it('should attribute the usage to the member', async () => {
+      await engine.charge({
+        userId: 'member-1',
+        action: 'generate-post',
+        metadata: { requestId: 'req-1' }
+      });
+
+      const transaction = adapter.getAllTransactions()[0]!;
+      expect(transaction.userId).toBe('member-1');
+      expect(transaction.metadata).toEqual({ requestId: 'req-1', organizationId: 'org-1' });
+
+      const history = await engine.getHistory('member-1');
+      expect(history).toHaveLength(1);
+
+      const log = adapter.getAuditLogs()[0]!;
+      expect(log.userId).toBe('member-1');
+      expect(log.metadata.organizationId).toBe('org-1');
+    });
+
+    it('should check the pool balance instead of the member balance', async () => {
+      await adapter.debitOrganizationCredits('org-1', 95, 0);
+
+      await expect(
+        engine.charge({ userId: 'member-1', action: 'generate-post' })
+      ).rejects.toMatchObject({ name: 'InsufficientCreditsError', available: 5 });
+
+      expect(await engine.queryBalance('member-1')).toBe(5);
+    });
+
+    it('should share the pool between members', async () => {
+      await engine.charge({ userId: 'member-1', action: 'generate-post' });
+      await engine.charge({ userId: 'member-2', action: 'generate-post' });
+
+      expect((await adapter.getOrganizationById('org-1'))!.credits).toBe(80);
+    });
+
+    it('should keep charging other wallets from the member', async () => {
+      await adapter.updateWalletBalance('member-1', 'image', 30);
+
+      const result = await engine.charge({ userId: 'member-1', action: 'generate-image' });
+
+      expect(result.organizationId).toBeUndefined();
+      expect(result.balanceAfter).toBe(10);
+      expect((await adapter.getOrganizationById('org-1'))!.credits).toBe(100);
+    });
+
+    it('should leave users without an organization unchanged', async () => {
+      const result = await engine.charge({ userId: 'solo', action: 'generate-post' });
+
+      expect(result).not.toHaveProperty('organizationId');
+      expect(result.balanceAfter).toBe(40);
+      expect(adapter.getAllTransactions()[0]!.metadata).not.toHaveProperty('organizationId');
+    });
+
+    it('should fail when the organization does not exist', async () => {
+      await adapter.createUser({ id: 'orphan', organizationId: 'org-missing' });
+
+      await expect(
+        engine.charge({ userId: 'orphan', action: 'generate-post' })
+      ).rejects.toThrow(OrganizationNotFoundError);
+    });
+
+    it('should require pool support from the storage adapter', async () => {
+      (adapter as any).getOrganizationById = undefined;
+
+      await expect(
+        engine.charge({ userId: 'member-1', action: 'generate-post' })
+      ).rejects.toThrow(/getOrganizationById/);
+    });
+  });
+
+  describe('member spending limits', () => {
+    it('should reject charges over the daily limit', async () => {
+      await engine.setMemberSpendingLimit({
+        organizationId: 'org-1',
+        userId: 'member-1',
+        period: 'daily',
+        limit: 25
+      });
+
+      await engine.charge({ userId: 'member-1', action: 'generate-post' });
+      await engine.charge({ userId: 'member-1', action: 'generate-post' });
+
+      const error = await engine
+        .charge({ userId: 'member-1', action: 'generate-post' })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(SpendingLimitExceededError);
+      expect(error).toMatchObject({ period: 'daily', limit: 25, spent: 20, requested: 10 });
+      expect((await adapter.getOrganizationById('org-1'))!.credits).toBe(80);
+    });
+
+    it('should not limit other members', async () => {
+      await engine.setMemberSpendingLimit({
+        organizationId: 'org-1',
+        userId: 'member-1',
+        period: 'daily',
+        limit: 0
+      });
+
+      await expect(
+        engine.charge({ userId: 'member-1', action: 'generate-post' })
+      ).rejects.toThrow(SpendingLimitExceededError);
+
+      await engine.charge({ userId: 'member-2', action: 'generate-post' });
+    });
+
+    it('should reset the daily limit at the next UTC day', async () => {
+      await engine.setMemberSpendingLimit({
+        organizationId: 'org-1',
+        userId: 'member-1',
+        period: 'daily',
+        limit: 10
+      });
+      await engine.charge({ userId: 'member-1', action: 'generate-post' });
+
+      vi.setSystemTime(new Date('2025-01-16T00:00:00Z'));
+
+      await engine.charge({ userId: 'member-1', action: 'generate-post' });
+      expect((await adapter.getOrganizationById('org-1'))!.credits).toBe(80);
+    });
+
+    it('should count the whole calendar month for monthly limits', async () => {
+      await engine.setMemberSpendingLimit({
+        organizationId: 'org-1',
+        userId: 'member-1',
+        period: 'monthly',
+        limit: 15
+      });
+      await engine.charge({ userId: 'member-1', action: 'generate-post' });
+
+      vi.setSystemTime(new Date('2025-01-31T23:00:00Z'));
+      await expect(
+        engine.charge({ userId: 'member-1', action: 'generate-post' })
+      ).rejects.toThrow(SpendingLimitExceededError);
+
+      vi.setSystemTime(new Date('2025-02-01T00:00:00Z'));
+      await engine.charge({ userId: 'member-1', action: 'generate-post' });
+    });
+
+    it('should remove a limit when set to null', async () => {
+      await engine.setMemberSpendingLimit({
+        organizationId: 'org-1',
+        userId: 'member-1',
+        period: 'daily',
+        limit: 0
+      });
+
+      const removed = await engine.setMemberSpendingLimit({
+        organizationId: 'org-1',
+        userId: 'member-1',
+        period: 'daily',
+        limit: null
+      });
+
+      expect(removed).toBeNull();
+      await engine.charge({ userId: 'member-1', action: 'generate-post' });
+    });
+
+    it('should audit limit changes', async () => {
+      await engine.setMemberSpendingLimit({
+        organizationId: 'org-1',
+        userId: 'member-1',
+        period: 'monthly',
+        limit: 500
+      });
+
+      const log = adapter.getAuditLogs()[0]!;
+      expect(log.action).toBe('setMemberSpendingLimit');
+      expect(log.metadata).toEqual({ organizationId: 'org-1', period: 'monthly', limit: 500 });
+    });
+
+    it('should reject invalid limits', async () => {
+      await expect(
+        engine.setMemberSpendingLimit({
+          organizationId: 'org-1',
+          userId: 'member-1',
+          period: 'weekly' as any,
+          limit: 10
+        })
+      ).rejects.toThrow(ConfigurationError);
+
+      await expect(
+        engine.setMemberSpendingLimit({
+          organizationId: 'org-1',
+          userId: 'member-1',
+          period: 'daily',
+          limit: -1
+        })
+      ).rejects.toThrow(ConfigurationError);
+
+      await expect(
+        engine.setMemberSpendingLimit({
+          organizationId: 'org-1',
+          userId: 'solo',
+          period: 'daily',
+          limit: 10
+        })
+      ).rejects.toThrow(/not a member/);
+    });
+
+    it('should still enforce the pool balance under a generous limit', async () => {
+      await engine.setMemberSpendingLimit({
+        organizationId: 'org-1',
+        userId: 'member-1',
+        period: 'daily',
+        limit: 1000
+      });
+      await adapter.debitOrganizationCredits('org-1', 95, 0);
+
+      await expect(
+        engine.charge({ userId: 'member-1', action: 'generate-post' })
+      ).rejects.toThrow(InsufficientCreditsError);
+    });
+  });
+});
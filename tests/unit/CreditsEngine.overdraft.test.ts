@@ -0,0 +1,227 @@
+/**
+ * CreditsEngine 透支单元测试
+ *
+ * 测试按会员等级配置的透支额度在扣费、预估和批量扣费中的生效范围，
+ * 透支标记，以及透支用户查询
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CreditsEngine } from '../../src/core/CreditsEngine';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
+import {
+  InsufficientCreditsError,
+  ConfigurationError
+} from '../../src/core/errors';
+import type { CreditsConfig } from '../../src/core/types';
+
+describe('CreditsEngine overdraft', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+  let config: CreditsConfig;
+
+  const future = () => new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+
+  beforeEach(async () => {
+    config = {
+      costs: {
+        'generate-post': { default: 30 },
+        'generate-image': { default: 30, wallet: 'image' }
+      },
+      membership: {
+        tiers: { free: 0, premium: 1, enterprise: 2 },
+        requirements: { 'generate-post': null, 'generate-image': null },
+        creditsCaps: { free: 100, premium: 1000, enterprise: 10000 },
+        overdraftLimits: { premium: 50, enterprise: 1000 }
+      },
+      retry: {
+        enabled: false,
+        maxAttempts: 1,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: true, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+
+    await adapter.createUser({
+      id: 'user-1',
+      credits: 10,
+      membershipTier: 'premium',
+      membershipExpiresAt: future()
+    });
+  });
+
+  describe('charge', () => {
+    it('should let the balance go negative down to the tier limit', async () => {
+      const first = await engine.charge({ userId: 'user-1', action: 'generate-post' });
+      const second = await engine.charge({ userId: 'user-1', action: 'generate-post' });
+
+      expect(first.balanceAfter).toBe(-20);
+      expect(second.balanceAfter).toBe(-50);
+      expect(await engine.queryBalance('user-1')).toBe(-50);
+
+      await expect(
+        engine.charge({ userId: 'user-1', action: 'generate-post' })
+      ).rejects.toThrow(InsufficientCreditsError);
+      expect(await engine.queryBalance('user-1')).toBe(-50);
+    });
+
+    it('should flag the transaction with the overdraft amount and limit', async () => {
+      await engine.charge({ userId: 'user-1', action: 'generate-post' });
+      await engine.charge({ userId: 'user-1', action: 'generate-post' });
+
+      const [first, second] = adapter.getAllTransactions();
+      expect(first!.metadata.overdraft).toEqual({ amount: 20, limit: 50 });
+      expect(second!.metadata.overdraft).toEqual({ amount: 30, limit: 50 });
+    });
+
+    it('should not flag charges covered by the balance', async () => {
+      await adapter.updateUserCredits('user-1', 90);
+
+      await engine.charge({ userId: 'user-1', action: 'generate-post' });
+
+      expect(adapter.getAllTransactions()[0]!.metadata).not.toHaveProperty('overdraft');
+    });
+
+    it('should keep held credits out of the overdraft', async () => {
+      await engine.reserve({ userId: 'user-1', amount: 10 });
+
+      const result = await engine.charge({ userId: 'user-1', action: 'generate-post' });
+
+      const transaction = adapter.getAllTransactions().find(t => t.id === result.transactionId);
+      expect(result.balanceAfter).toBe(-20);
+      expect(transaction!.metadata.overdraft).toEqual({ amount: 30, limit: 50 });
+    });
+
+    it('should not grant an overdraft to tiers without a limit or expired memberships', async () => {
+      await adapter.createUser({ id: 'free-user', credits: 10, membershipTier: 'free' });
+      await adapter.createUser({
+        id: 'lapsed',
+        credits: 10,
+        membershipTier: 'enterprise',
+        membershipExpiresAt: new Date(Date.now() - 1000)
+      });
+
+      await expect(
+        engine.charge({ userId: 'free-user', action: 'generate-post' })
+      ).rejects.toThrow(InsufficientCreditsError);
+      await expect(
+        engine.charge({ userId: 'lapsed', action: 'generate-post' })
+      ).rejects.toThrow(InsufficientCreditsError);
+    });
+
+    it('should only apply to the default wallet', async () => {
+      await adapter.updateWalletBalance('user-1', 'image', 10);
+
+      await expect(
+        engine.charge({ userId: 'user-1', action: 'generate-image' })
+      ).rejects.toThrow(InsufficientCreditsError);
+    });
+
+    it('should not apply to organization pools', async () => {
+      await adapter.createOrganization({ id: 'org-1', credits: 10 });
+      await adapter.createUser({
+        id: 'member-1',
+        credits: 0,
+        membershipTier: 'enterprise',
+        membershipExpiresAt: future(),
+        organizationId: 'org-1'
+      });
+
+      await expect(
+        engine.charge({ userId: 'member-1', action: 'generate-post' })
+      ).rejects.toThrow(InsufficientCreditsError);
+    });
+  });
+
+  describe('estimate', () => {
+    it('should include the overdraft in the available balance', async () => {
+      const result = await engine.estimate({ userId: 'user-1', action: 'generate-post' });
+
+      expect(result).toMatchObject({ cost: 30, available: 60, wouldSucceed: true });
+    });
+  });
+
+  describe('chargeBatch', () => {
+    it('should charge into the overdraft and flag only the items that used it', async () => {
+      await adapter.updateUserCredits('user-1', 30);
+
+      const result = await engine.chargeBatch([
+        { userId: 'user-1', action: 'generate-post' },
+        { userId: 'user-1', action: 'generate-post' },
+        { userId: 'user-1', action: 'generate-post' },
+        { userId: 'user-1', action: 'generate-post' }
+      ], { mode: 'best-effort' });
+
+      expect(result.items.map(i => i.status)).toEqual(['charged', 'charged', 'charged', 'failed']);
+      expect(await engine.queryBalance('user-1')).toBe(-50);
+      expect(adapter.getAllTransactions().map(t => t.metadata.overdraft)).toEqual([
+        undefined,
+        { amount: 20, limit: 50 },
+        { amount: 30, limit: 50 }
+      ]);
+    });
+  });
+
+  describe('getOverdrawnUsers', () => {
+    it('should list users below zero with their current overdraft limit', async () => {
+      await adapter.createUser({
+        id: 'user-2',
+        credits: -400,
+        membershipTier: 'enterprise',
+        membershipExpiresAt: future()
+      });
+      await engine.charge({ userId: 'user-1', action: 'generate-post' });
+
+      expect(await engine.getOverdrawnUsers()).toEqual([
+        { userId: 'user-2', credits: -400, membershipTier: 'enterprise', overdraftLimit: 1000 },
+        { userId: 'user-1', credits: -20, membershipTier: 'premium', overdraftLimit: 50 }
+      ]);
+      expect(await engine.getOverdrawnUsers({ limit: 1, offset: 1 })).toHaveLength(1);
+    });
+
+    it('should report a zero limit once the membership has lapsed', async () => {
+      await adapter.createUser({
+        id: 'lapsed',
+        credits: -100,
+        membershipTier: 'enterprise',
+        membershipExpiresAt: new Date(Date.now() - 1000)
+      });
+
+      const [user] = await engine.getOverdrawnUsers();
+
+      expect(user).toMatchObject({ userId: 'lapsed', overdraftLimit: 0 });
+    });
+
+    it('should reject invalid paging options', async () => {
+      await expect(engine.getOverdrawnUsers({ limit: 0 })).rejects.toThrow(ConfigurationError);
+      await expect(engine.getOverdrawnUsers({ offset: -1 })).rejects.toThrow(ConfigurationError);
+    });
+
+    it('should require adapter support', async () => {
+      (adapter as any).getOverdrawnUsers = undefined;
+
+      await expect(engine.getOverdrawnUsers()).rejects.toThrow(/getOverdrawnUsers/);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should reject limits for undefined tiers', () => {
+      config.membership.overdraftLimits = { platinum: 100 };
+
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(/undefined tier 'platinum'/);
+    });
+
+    it('should reject negative or non-finite limits', () => {
+      config.membership.overdraftLimits = { premium: -1 };
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(ConfigurationError);
+
+      config.membership.overdraftLimits = { premium: Infinity };
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(ConfigurationError);
+    });
+  });
+});
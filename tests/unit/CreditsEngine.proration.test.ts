@@ -0,0 +1,294 @@
+/**
+ * CreditsEngine 等级变更折算单元测试
+ *
+ * 测试按会员周期剩余时间折算升降级积分、取整方式、周期结束时降级，以及配置校验
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CreditsEngine } from '../../src/core/CreditsEngine';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
+import { ConfigurationError, InvalidTierChangeError } from '../../src/core/errors';
+import type { CreditsConfig } from '../../src/core/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = new Date('2025-01-01T00:00:00Z');
+const HALF_PERIOD_END = new Date(START.getTime() + 15 * DAY);
+
+describe('CreditsEngine proration', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+  let config: CreditsConfig;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+
+    config = {
+      costs: {
+        'generate-post': { default: 10 }
+      },
+      membership: {
+        tiers: { free: 0, basic: 1, premium: 2 },
+        requirements: { 'generate-post': null },
+        creditsCaps: { free: 100, basic: 500, premium: 2000 },
+        fallbackTier: 'free',
+        proration: { periodDays: 30 }
+      },
+      retry: {
+        enabled: false,
+        maxAttempts: 1,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: true, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+
+    await adapter.createUser({
+      id: 'user-1',
+      credits: 300,
+      membershipTier: 'basic',
+      membershipExpiresAt: HALF_PERIOD_END
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('upgrade', () => {
+    it('should add the cap difference for the remaining part of the period', async () => {
+      const result = await engine.upgradeTier({ userId: 'user-1', targetTier: 'premium' });
+
+      expect(result).toMatchObject({ oldCredits: 300, newCredits: 1050, creditsDelta: 750 });
+      expect(result.proration).toEqual({
+        periodEnd: HALF_PERIOD_END.toISOString(),
+        periodDays: 30,
+        fraction: 0.5,
+        oldCap: 500,
+        newCap: 2000,
+        rawDelta: 750,
+        rounding: 'round',
+        proratedDelta: 750
+      });
+      expect(await engine.queryBalance('user-1')).toBe(1050);
+    });
+
+    it('should record the calculation in the transaction metadata', async () => {
+      const result = await engine.upgradeTier({ userId: 'user-1', targetTier: 'premium' });
+
+      const [transaction] = adapter.getAllTransactions();
+      expect(transaction).toMatchObject({ action: 'tier-upgrade', amount: 750 });
+      expect(transaction!.metadata.proration).toEqual(result.proration);
+    });
+
+    it('should count at most one full period', async () => {
+      await adapter.updateUserMembership('user-1', 'basic', 300, new Date(START.getTime() + 60 * DAY));
+
+      const result = await engine.upgradeTier({ userId: 'user-1', targetTier: 'premium' });
+
+      expect(result.proration?.fraction).toBe(1);
+      expect(result.newCredits).toBe(1800);
+    });
+
+    it('should round with the configured rounding mode', async () => {
+      config.membership.creditsCaps.premium = 2001;
+
+      const rounded = await engine.upgradeTier({ userId: 'user-1', targetTier: 'premium' });
+      expect(rounded.proration).toMatchObject({ rawDelta: 750.5, proratedDelta: 751 });
+
+      config.membership.proration!.rounding = 'floor';
+      engine = new CreditsEngine({ storage: adapter, config });
+      await adapter.updateUserMembership('user-1', 'basic', 300, HALF_PERIOD_END);
+
+      const floored = await engine.upgradeTier({ userId: 'user-1', targetTier: 'premium' });
+      expect(floored.proration).toMatchObject({ rounding: 'floor', proratedDelta: 750 });
+      expect(floored.newCredits).toBe(1050);
+    });
+
+    it('should set the cap when the membership has no active period', async () => {
+      await adapter.createUser({ id: 'permanent', credits: 300, membershipTier: 'basic', membershipExpiresAt: null });
+      await adapter.createUser({
+        id: 'expired',
+        credits: 300,
+        membershipTier: 'basic',
+        membershipExpiresAt: new Date(START.getTime() - DAY)
+      });
+      await adapter.createUser({ id: 'no-tier', credits: 300 });
+
+      for (const userId of ['permanent', 'expired', 'no-tier']) {
+        const result = await engine.upgradeTier({ userId, targetTier: 'premium' });
+
+        expect(result.newCredits).toBe(2000);
+        expect(result.proration).toBeUndefined();
+      }
+    });
+
+    it('should set the cap when proration is turned off for the call', async () => {
+      const result = await engine.upgradeTier({ userId: 'user-1', targetTier: 'premium', prorate: false });
+
+      expect(result.newCredits).toBe(2000);
+      expect(result.proration).toBeUndefined();
+      expect(adapter.getAllTransactions()[0]!.metadata).not.toHaveProperty('proration');
+    });
+
+    it('should throw when proration is requested without configuration', async () => {
+      delete config.membership.proration;
+      engine = new CreditsEngine({ storage: adapter, config });
+
+      await expect(
+        engine.upgradeTier({ userId: 'user-1', targetTier: 'premium', prorate: true })
+      ).rejects.toThrow(ConfigurationError);
+
+      const result = await engine.upgradeTier({ userId: 'user-1', targetTier: 'premium' });
+      expect(result.newCredits).toBe(2000);
+    });
+  });
+
+  describe('downgrade', () => {
+    beforeEach(async () => {
+      await adapter.updateUserMembership('user-1', 'premium', 1500, HALF_PERIOD_END);
+    });
+
+    it('should remove the cap difference for the remaining part of the period', async () => {
+      const result = await engine.downgradeTier({ userId: 'user-1', targetTier: 'basic' });
+
+      expect(result).toMatchObject({ newTier: 'basic', oldCredits: 1500, newCredits: 750, creditsDelta: -750 });
+      expect(result.proration).toMatchObject({ fraction: 0.5, rawDelta: -750, proratedDelta: -750 });
+      expect(adapter.getAllTransactions()[0]!.metadata.proration).toEqual(result.proration);
+    });
+
+    it('should not reduce the balance below zero', async () => {
+      await adapter.updateUserMembership('user-1', 'premium', 200, HALF_PERIOD_END);
+
+      const result = await engine.downgradeTier({ userId: 'user-1', targetTier: 'basic' });
+
+      expect(result.newCredits).toBe(0);
+      expect(result.proration?.proratedDelta).toBe(-750);
+    });
+  });
+
+  describe('concurrent writes', () => {
+    /**
+     * 在等级变更读取用户之后扣除积分，模拟读取之后并发提交的扣费
+     */
+    function chargeAfterRead(amount: number) {
+      const getUserById = adapter.getUserById.bind(adapter);
+      vi.spyOn(adapter, 'getUserById').mockImplementationOnce(async (userId, txn) => {
+        const user = await getUserById(userId, txn);
+        await adapter.updateUserCredits(userId, -amount);
+        return user;
+      });
+    }
+
+    it('should apply the upgrade on top of a charge committed after the read', async () => {
+      chargeAfterRead(100);
+
+      const result = await engine.upgradeTier({ userId: 'user-1', targetTier: 'premium' });
+
+      expect(result).toMatchObject({ oldCredits: 200, newCredits: 950, creditsDelta: 750 });
+      expect(await engine.queryBalance('user-1')).toBe(950);
+    });
+
+    it('should recompute the downgrade when a charge lowered the balance', async () => {
+      await adapter.updateUserMembership('user-1', 'premium', 1000, HALF_PERIOD_END);
+      chargeAfterRead(900);
+
+      const result = await engine.downgradeTier({ userId: 'user-1', targetTier: 'basic' });
+
+      expect(result).toMatchObject({ oldCredits: 100, newCredits: 0, creditsDelta: -100 });
+      expect(adapter.getAllTransactions()[0]).toMatchObject({ amount: -100, balanceBefore: 100, balanceAfter: 0 });
+    });
+  });
+
+  describe('downgrade at period end', () => {
+    beforeEach(async () => {
+      await adapter.updateUserMembership('user-1', 'premium', 1500, HALF_PERIOD_END);
+    });
+
+    it('should keep the current tier and record the scheduled change', async () => {
+      const result = await engine.downgradeTier({ userId: 'user-1', targetTier: 'basic', atPeriodEnd: true });
+
+      expect(result).toMatchObject({
+        oldTier: 'premium',
+        newTier: 'basic',
+        oldCredits: 1500,
+        newCredits: 1500,
+        creditsDelta: 0,
+        effectiveAt: HALF_PERIOD_END
+      });
+      expect(await adapter.getUserById('user-1')).toMatchObject({ membershipTier: 'premium', credits: 1500 });
+
+      const scheduled = await adapter.getScheduledTierChange('user-1');
+      expect(scheduled).toMatchObject({ targetTier: 'basic', effectiveAt: HALF_PERIOD_END });
+
+      const [transaction] = adapter.getAllTransactions();
+      expect(transaction).toMatchObject({ id: result.transactionId, action: 'tier-downgrade-scheduled', amount: 0 });
+      expect(transaction!.metadata).toMatchObject({
+        oldTier: 'premium',
+        newTier: 'basic',
+        effectiveAt: HALF_PERIOD_END.toISOString(),
+        scheduledChangeId: scheduled!.id
+      });
+    });
+
+    it('should apply the scheduled tier when the membership expires', async () => {
+      await engine.downgradeTier({ userId: 'user-1', targetTier: 'basic', atPeriodEnd: true });
+      vi.setSystemTime(new Date(HALF_PERIOD_END.getTime() + DAY));
+
+      const result = await engine.processExpiredMemberships();
+
+      expect(result.downgraded).toBe(1);
+      expect(await adapter.getUserById('user-1')).toMatchObject({
+        membershipTier: 'basic',
+        credits: 500,
+        membershipExpiresAt: null
+      });
+      expect(await adapter.getScheduledTierChange('user-1')).toBeNull();
+
+      const expired = adapter.getAllTransactions().find(t => t.action === 'tier-expired');
+      expect(expired!.metadata).toHaveProperty('scheduledChangeId');
+      expect(expired!.metadata).not.toHaveProperty('proration');
+    });
+
+    it('should drop the scheduled change when the tier changes immediately', async () => {
+      await engine.downgradeTier({ userId: 'user-1', targetTier: 'free', atPeriodEnd: true });
+      await engine.downgradeTier({ userId: 'user-1', targetTier: 'basic' });
+
+      expect(await adapter.getScheduledTierChange('user-1')).toBeNull();
+    });
+
+    it('should reject users without an active membership period', async () => {
+      await adapter.updateUserMembership('user-1', 'premium', 1500, null);
+
+      await expect(
+        engine.downgradeTier({ userId: 'user-1', targetTier: 'basic', atPeriodEnd: true })
+      ).rejects.toThrow(InvalidTierChangeError);
+      expect(await adapter.getScheduledTierChange('user-1')).toBeNull();
+    });
+
+    it('should return the same result for a repeated idempotency key', async () => {
+      const params = { userId: 'user-1', targetTier: 'basic', atPeriodEnd: true, idempotencyKey: 'cancel-1' };
+
+      const first = await engine.downgradeTier(params);
+      const second = await engine.downgradeTier(params);
+
+      expect(second).toEqual(first);
+      expect(adapter.getAllTransactions()).toHaveLength(1);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should reject invalid proration settings', () => {
+      config.membership.proration = { periodDays: 0 };
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(ConfigurationError);
+
+      config.membership.proration = { periodDays: 30, rounding: 'nearest' as any };
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(/rounding/);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * CreditsEngine 过期数据清理单元测试
+ *
+ * 测试按批删除过期的幂等记录、冻结和积分批次，以及未实现删除方法时的跳过
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CreditsEngine } from '../../src/core/CreditsEngine';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
+import { ConfigurationError } from '../../src/core/errors';
+import type { CreditsConfig } from '../../src/core/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('CreditsEngine purgeExpiredData', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+  let config: CreditsConfig;
+
+  beforeEach(async () => {
+    config = {
+      costs: {
+        'generate-post': { default: 10 }
+      },
+      membership: {
+        tiers: { free: 0 },
+        requirements: { 'generate-post': null },
+        creditsCaps: { free: 1000 }
+      },
+      retry: {
+        enabled: false,
+        maxAttempts: 1,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: true, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+
+    await adapter.createUser({ id: 'user-1', credits: 100 });
+  });
+
+  /**
+   * 写入一条在指定时间过期的幂等记录
+   */
+  function addIdempotencyRecord(key: string, expiresAt: Date) {
+    return adapter.createIdempotencyRecord({ key, result: null, expiresAt });
+  }
+
+  it('should delete expired data of every kind', async () => {
+    const past = new Date(Date.now() - DAY);
+    const future = new Date(Date.now() + DAY);
+
+    await addIdempotencyRecord('expired', past);
+    await addIdempotencyRecord('active', future);
+    await adapter.createCreditHold({ userId: 'user-1', action: 'generate-post', amount: 10, expiresAt: past });
+    await adapter.createCreditHold({ userId: 'user-1', action: 'generate-post', amount: 10, expiresAt: future });
+    const drained = await adapter.createCreditLot({ userId: 'user-1', amount: 10, expiresAt: past });
+    await adapter.consumeCreditLot(drained.id, 10);
+
+    const result = await engine.purgeExpiredData();
+
+    expect(result).toEqual({ idempotencyRecords: 1, creditHolds: 1, creditLots: 1 });
+    expect(adapter.getAllIdempotencyRecords().map(r => r.key)).toEqual(['active']);
+    expect(adapter.getAllCreditHolds()).toHaveLength(1);
+    expect(adapter.getAllCreditLots()).toHaveLength(0);
+  });
+
+  it('should keep lots whose credits have not been expired yet', async () => {
+    await adapter.createCreditLot({ userId: 'user-1', amount: 10, expiresAt: new Date(Date.now() - DAY) });
+
+    expect((await engine.purgeExpiredData()).creditLots).toBe(0);
+
+    await engine.expireCredits();
+    expect((await engine.purgeExpiredData()).creditLots).toBe(1);
+  });
+
+  it('should delete in batches until nothing is left', async () => {
+    for (let i = 0; i < 5; i++) {
+      await addIdempotencyRecord(`key-${i}`, new Date(Date.now() - DAY));
+    }
+    const spy = vi.spyOn(adapter, 'deleteExpiredIdempotencyRecords');
+
+    const result = await engine.purgeExpiredData({ batchSize: 2 });
+
+    expect(result.idempotencyRecords).toBe(5);
+    expect(spy).toHaveBeenCalledTimes(3);
+  });
+
+  it('should only delete data that expired before the given time', async () => {
+    await addIdempotencyRecord('last-week', new Date(Date.now() - 7 * DAY));
+    await addIdempotencyRecord('yesterday', new Date(Date.now() - DAY));
+
+    const result = await engine.purgeExpiredData({ before: new Date(Date.now() - 3 * DAY) });
+
+    expect(result.idempotencyRecords).toBe(1);
+    expect(adapter.getAllIdempotencyRecords().map(r => r.key)).toEqual(['yesterday']);
+  });
+
+  it('should skip data the storage adapter cannot purge', async () => {
+    await addIdempotencyRecord('expired', new Date(Date.now() - DAY));
+    (adapter as any).deleteExpiredCreditHolds = undefined;
+
+    const result = await engine.purgeExpiredData();
+
+    expect(result).toEqual({ idempotencyRecords: 1, creditHolds: 0, creditLots: 0 });
+  });
+
+  it('should reject invalid batch sizes', async () => {
+    await expect(engine.purgeExpiredData({ batchSize: 0 })).rejects.toThrow(ConfigurationError);
+    await expect(engine.purgeExpiredData({ batchSize: 1.5 })).rejects.toThrow(ConfigurationError);
+  });
+
+  it('should reject cutoffs later than now', async () => {
+    await addIdempotencyRecord('active', new Date(Date.now() + DAY));
+    await adapter.createCreditHold({
+      userId: 'user-1',
+      action: 'generate-post',
+      amount: 10,
+      expiresAt: new Date(Date.now() + DAY)
+    });
+
+    await expect(engine.purgeExpiredData({ before: new Date(Date.now() + 2 * DAY) })).rejects.toThrow(
+      ConfigurationError
+    );
+    await expect(engine.purgeExpiredData({ before: new Date(NaN) })).rejects.toThrow(ConfigurationError);
+    expect(adapter.getAllIdempotencyRecords()).toHaveLength(1);
+    expect(adapter.getAllCreditHolds()).toHaveLength(1);
+  });
+});
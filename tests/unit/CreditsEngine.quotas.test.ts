@@ -0,0 +1,235 @@
+/**
+ * CreditsEngine 用量配额单元测试
+ *
+ * 测试按会员等级的配额规则、扣费前的配额检查、窗口重置、批量扣费计数、配额状态查询，以及配置校验
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CreditsEngine } from '../../src/core/CreditsEngine';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
+import { ConfigurationError, QuotaExceededError } from '../../src/core/errors';
+import type { CreditsConfig } from '../../src/core/types';
+
+const START = new Date('2025-01-01T10:00:30Z');
+
+describe('CreditsEngine quotas', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+  let config: CreditsConfig;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+
+    config = {
+      costs: {
+        'generate-post': { default: 1 },
+        'generate-image': { default: 5 }
+      },
+      quotas: {
+        'generate-post': {
+          default: { limit: 3, window: 'day' },
+          premium: { limit: 2, window: 'minute' }
+        }
+      },
+      membership: {
+        tiers: { free: 0, premium: 1 },
+        requirements: {},
+        creditsCaps: { free: 100, premium: 1000 }
+      },
+      retry: {
+        enabled: false,
+        maxAttempts: 1,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: true, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+
+    await adapter.createUser({ id: 'free-user', credits: 100, membershipTier: 'free', membershipExpiresAt: null });
+    await adapter.createUser({ id: 'premium-user', credits: 100, membershipTier: 'premium', membershipExpiresAt: null });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /**
+   * 连续扣费指定次数
+   */
+  async function chargeTimes(userId: string, times: number) {
+    for (let i = 0; i < times; i++) {
+      await engine.charge({ userId, action: 'generate-post' });
+    }
+  }
+
+  describe('charge', () => {
+    it('should reject charges over the daily quota before debiting', async () => {
+      await chargeTimes('free-user', 3);
+
+      const error = await engine.charge({ userId: 'free-user', action: 'generate-post' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(QuotaExceededError);
+      expect(error).toMatchObject({
+        userId: 'free-user',
+        action: 'generate-post',
+        window: 'day',
+        limit: 3,
+        used: 3,
+        retryAfter: 14 * 60 * 60 - 30,
+        resetsAt: new Date('2025-01-02T00:00:00Z')
+      });
+      expect((await adapter.getUserById('free-user'))!.credits).toBe(97);
+      expect(adapter.getAllTransactions()).toHaveLength(3);
+    });
+
+    it('should apply the rules of the member tier', async () => {
+      await chargeTimes('premium-user', 2);
+
+      await expect(engine.charge({ userId: 'premium-user', action: 'generate-post' })).rejects.toMatchObject({
+        window: 'minute',
+        retryAfter: 30
+      });
+
+      vi.setSystemTime(new Date(START.getTime() + 30 * 1000));
+
+      const result = await engine.charge({ userId: 'premium-user', action: 'generate-post' });
+      expect(result.success).toBe(true);
+    });
+
+    it('should reset the quota in the next window', async () => {
+      await chargeTimes('free-user', 3);
+      vi.setSystemTime(new Date('2025-01-02T00:00:00Z'));
+
+      await expect(engine.charge({ userId: 'free-user', action: 'generate-post' })).resolves.toMatchObject({
+        success: true
+      });
+    });
+
+    it('should not count refunds as uses', async () => {
+      const charge = await engine.charge({ userId: 'free-user', action: 'generate-post' });
+      await engine.refund({ transactionId: charge.transactionId });
+
+      expect((await engine.getQuotaStatus('free-user')).quotas[0]).toMatchObject({ used: 1, remaining: 2 });
+      await expect(chargeTimes('free-user', 2)).resolves.toBeUndefined();
+    });
+
+    it('should count charges that cost nothing', async () => {
+      config.costs['generate-post'] = { default: 1, premium: 0 };
+      engine = new CreditsEngine({ storage: adapter, config });
+      await chargeTimes('premium-user', 2);
+
+      await expect(engine.charge({ userId: 'premium-user', action: 'generate-post' })).rejects.toThrow(
+        QuotaExceededError
+      );
+      expect(await engine.queryBalance('premium-user')).toBe(100);
+    });
+
+    it('should not limit actions without quotas', async () => {
+      for (let i = 0; i < 5; i++) {
+        await engine.charge({ userId: 'free-user', action: 'generate-image' });
+      }
+
+      expect(adapter.getAllTransactions()).toHaveLength(5);
+    });
+
+    it('should apply the default rules once the membership expires', async () => {
+      await adapter.createUser({
+        id: 'lapsed',
+        credits: 100,
+        membershipTier: 'premium',
+        membershipExpiresAt: new Date(START.getTime() - 1000)
+      });
+
+      await chargeTimes('lapsed', 3);
+
+      await expect(engine.charge({ userId: 'lapsed', action: 'generate-post' })).rejects.toMatchObject({
+        window: 'day'
+      });
+    });
+  });
+
+  describe('estimate, reserve and chargeBatch', () => {
+    it('should report the exceeded quota in estimates', async () => {
+      await chargeTimes('free-user', 3);
+
+      const estimate = await engine.estimate({ userId: 'free-user', action: 'generate-post' });
+
+      expect(estimate.wouldSucceed).toBe(false);
+      expect(estimate.failureReason?.code).toBe('QUOTA_EXCEEDED');
+    });
+
+    it('should check the quota when reserving and count captures', async () => {
+      const hold = await engine.reserve({ userId: 'premium-user', action: 'generate-post' });
+      await engine.capture({ holdId: hold.holdId });
+      await chargeTimes('premium-user', 1);
+
+      await expect(engine.reserve({ userId: 'premium-user', action: 'generate-post' })).rejects.toThrow(
+        QuotaExceededError
+      );
+    });
+
+    it('should count earlier items of the same batch', async () => {
+      await chargeTimes('free-user', 1);
+
+      const result = await engine.chargeBatch(
+        [
+          { userId: 'free-user', action: 'generate-post' },
+          { userId: 'free-user', action: 'generate-image' },
+          { userId: 'free-user', action: 'generate-post' },
+          { userId: 'free-user', action: 'generate-post' }
+        ],
+        { mode: 'best-effort' }
+      );
+
+      expect(result.items.map(item => item.status)).toEqual(['charged', 'charged', 'charged', 'failed']);
+      expect(result.items[3]!.error?.code).toBe('QUOTA_EXCEEDED');
+    });
+  });
+
+  describe('getQuotaStatus', () => {
+    it('should return the usage of every applicable rule', async () => {
+      await chargeTimes('free-user', 2);
+
+      expect(await engine.getQuotaStatus('free-user')).toEqual({
+        userId: 'free-user',
+        tier: 'free',
+        quotas: [
+          {
+            action: 'generate-post',
+            limit: 3,
+            window: 'day',
+            used: 2,
+            remaining: 1,
+            resetsAt: new Date('2025-01-02T00:00:00Z')
+          }
+        ]
+      });
+    });
+
+    it('should reject unknown users', async () => {
+      await expect(engine.getQuotaStatus('missing')).rejects.toThrow(/missing/);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should reject invalid quota settings', () => {
+      config.quotas = { 'unknown-action': { default: { limit: 1, window: 'day' } } };
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(/unknown-action/);
+
+      config.quotas = { 'generate-post': { platinum: { limit: 1, window: 'day' } } };
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(/platinum/);
+
+      config.quotas = { 'generate-post': { default: { limit: 1.5, window: 'day' } } };
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(ConfigurationError);
+
+      config.quotas = { 'generate-post': { default: { limit: 1, window: 'week' as any } } };
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(/window/);
+    });
+  });
+});
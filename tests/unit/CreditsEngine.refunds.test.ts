@@ -0,0 +1,247 @@
+/**
+ * CreditsEngine 按原交易退款单元测试
+ *
+ * 测试按原扣费交易退款、部分退款累计、超额退款拒绝和退款目标钱包
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CreditsEngine } from '../../src/core/CreditsEngine';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
+import {
+  ConfigurationError,
+  TransactionNotFoundError,
+  RefundExceedsChargeError
+} from '../../src/core/errors';
+import type { CreditsConfig } from '../../src/core/types';
+
+describe('CreditsEngine refund by transaction', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+  let config: CreditsConfig;
+
+  beforeEach(async () => {
+    config = {
+      costs: {
+        'generate-post': { default: 30 },
+        'generate-image': { default: 20, wallet: 'image' }
+      },
+      membership: {
+        tiers: { free: 0 },
+        requirements: { 'generate-post': null, 'generate-image': null },
+        creditsCaps: { free: 1000 }
+      },
+      retry: {
+        enabled: false,
+        maxAttempts: 1,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: true, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+
+    await adapter.createUser({ id: 'user-1', credits: 100 });
+  });
+
+  const charge = () => engine.charge({ userId: 'user-1', action: 'generate-post' });
+
+  it('should refund the full remaining amount by default', async () => {
+    const { transactionId } = await charge();
+
+    const result = await engine.refund({ transactionId });
+
+    expect(result.amount).toBe(30);
+    expect(result.balanceAfter).toBe(100);
+    expect(result.originalTransactionId).toBe(transactionId);
+    expect(result.totalRefunded).toBe(30);
+    expect(result.remainingRefundable).toBe(0);
+  });
+
+  it('should write a refund transaction that references the original', async () => {
+    const { transactionId } = await charge();
+
+    const result = await engine.refund({
+      transactionId,
+      amount: 10,
+      metadata: { ticket: 'SUP-1' }
+    });
+
+    const refund = adapter.getAllTransactions().find(t => t.id === result.transactionId)!;
+    expect(refund.userId).toBe('user-1');
+    expect(refund.action).toBe('generate-post');
+    expect(refund.amount).toBe(10);
+    expect(refund.metadata).toEqual({ ticket: 'SUP-1', originalTransactionId: transactionId });
+
+    const original = adapter.getAllTransactions().find(t => t.id === transactionId)!;
+    expect(original.refundedAmount).toBe(10);
+  });
+
+  it('should track partial refunds cumulatively', async () => {
+    const { transactionId } = await charge();
+
+    await engine.refund({ transactionId, amount: 10 });
+    const second = await engine.refund({ transactionId, amount: 15 });
+    expect(second.totalRefunded).toBe(25);
+    expect(second.remainingRefundable).toBe(5);
+
+    const rest = await engine.refund({ transactionId });
+    expect(rest.amount).toBe(5);
+    expect(await engine.queryBalance('user-1')).toBe(100);
+  });
+
+  it('should reject refunds beyond the original cost', async () => {
+    const { transactionId } = await charge();
+    await engine.refund({ transactionId, amount: 20 });
+
+    const error = await engine.refund({ transactionId, amount: 11 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(RefundExceedsChargeError);
+    expect(error).toMatchObject({ requested: 11, charged: 30, refunded: 20 });
+    expect(await engine.queryBalance('user-1')).toBe(90);
+  });
+
+  it('should reject refunding the same charge twice', async () => {
+    const { transactionId } = await charge();
+    await engine.refund({ transactionId });
+
+    await expect(engine.refund({ transactionId })).rejects.toThrow(RefundExceedsChargeError);
+    expect(await engine.queryBalance('user-1')).toBe(100);
+
+    const logs = adapter.getAuditLogs().filter(l => l.action === 'refund');
+    expect(logs.map(l => l.status)).toEqual(['success', 'failed']);
+    expect(logs[1]!.metadata.originalTransactionId).toBe(transactionId);
+  });
+
+  it('should return the cached result for a repeated idempotency key', async () => {
+    const { transactionId } = await charge();
+
+    const first = await engine.refund({ transactionId, idempotencyKey: 'refund-1' });
+    const second = await engine.refund({ transactionId, idempotencyKey: 'refund-1' });
+
+    expect(second).toEqual(first);
+  });
+
+  it('should refund into the wallet of the original charge', async () => {
+    await adapter.updateWalletBalance('user-1', 'image', 50);
+    const { transactionId } = await engine.charge({ userId: 'user-1', action: 'generate-image' });
+
+    const result = await engine.refund({ transactionId });
+
+    expect(result.balanceAfter).toBe(50);
+    expect(await engine.queryBalance('user-1')).toBe(100);
+    expect(adapter.getAllTransactions().at(-1)!.wallet).toBe('image');
+  });
+
+  it('should refund organization pool charges into the pool', async () => {
+    await adapter.createOrganization({ id: 'org-1', credits: 100 });
+    await adapter.createUser({ id: 'member-1', credits: 0, organizationId: 'org-1' });
+    const { transactionId } = await engine.charge({ userId: 'member-1', action: 'generate-post' });
+
+    await engine.refund({ transactionId, amount: 30 });
+
+    expect((await adapter.getOrganizationById('org-1'))!.credits).toBe(100);
+    expect(await engine.queryBalance('member-1')).toBe(0);
+    expect(adapter.getAllTransactions().at(-1)!.metadata.organizationId).toBe('org-1');
+  });
+
+  it('should reject invalid refunds', async () => {
+    const { transactionId } = await charge();
+    const grant = await engine.grant({ userId: 'user-1', amount: 10, action: 'promotion' });
+
+    await expect(engine.refund({ transactionId: 'missing' })).rejects.toThrow(TransactionNotFoundError);
+    await expect(engine.refund({ transactionId: grant.transactionId })).rejects.toThrow(/not a charge/);
+    await expect(engine.refund({ transactionId, amount: 0 })).rejects.toThrow(ConfigurationError);
+    await expect(
+      engine.refund({ transactionId, userId: 'someone-else' })
+    ).rejects.toThrow(/does not belong/);
+  });
+
+  it('should refund charges written by chargeBatch and capture', async () => {
+    const batch = await engine.chargeBatch([{ userId: 'user-1', action: 'generate-post' }]);
+    const hold = await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 20 });
+    const capture = await engine.capture({ holdId: hold.holdId });
+
+    await engine.refund({ transactionId: batch.items[0]!.result!.transactionId });
+    await engine.refund({ transactionId: capture.transactionId });
+
+    expect(await engine.queryBalance('user-1')).toBe(100);
+  });
+
+  it('should reject refunding debits that are not charges', async () => {
+    for (const action of ['tier-downgrade', 'tier-expired', 'membership-reset', 'trial-started', 'credit-expiry']) {
+      const debit = await adapter.createTransaction({
+        userId: 'user-1',
+        action,
+        amount: -20,
+        balanceBefore: 100,
+        balanceAfter: 80,
+        metadata: {}
+      });
+
+      await expect(engine.refund({ transactionId: debit.id })).rejects.toThrow(/not a charge/);
+    }
+
+    await adapter.createUser({ id: 'user-2', credits: 0 });
+    await engine.transfer({ fromUserId: 'user-1', toUserId: 'user-2', amount: 10 });
+    const transferOut = adapter.getAllTransactions().find(t => t.action === 'transfer-out')!;
+    await expect(engine.refund({ transactionId: transferOut.id })).rejects.toThrow(/not a charge/);
+  });
+
+  it('should reject refunding a tier downgrade', async () => {
+    config.membership = {
+      tiers: { free: 0, premium: 1 },
+      requirements: { 'generate-post': null, 'generate-image': null },
+      creditsCaps: { free: 50, premium: 1000 }
+    };
+    engine = new CreditsEngine({ storage: adapter, config });
+    await adapter.createUser({ id: 'member', credits: 200, membershipTier: 'premium', membershipExpiresAt: null });
+
+    const downgrade = await engine.downgradeTier({ userId: 'member', targetTier: 'free' });
+
+    expect(adapter.getAllTransactions().find(t => t.id === downgrade.transactionId)!.amount).toBeLessThan(0);
+    await expect(engine.refund({ transactionId: downgrade.transactionId })).rejects.toThrow(/not a charge/);
+    expect(await engine.queryBalance('member')).toBe(50);
+  });
+
+  it('should not let caller metadata make a transfer refundable', async () => {
+    await adapter.createUser({ id: 'user-2', credits: 0 });
+    await engine.transfer({
+      fromUserId: 'user-1',
+      toUserId: 'user-2',
+      amount: 10,
+      metadata: { operation: 'charge', chargeOperation: 'charge' }
+    });
+    const transferOut = adapter.getAllTransactions().find(t => t.action === 'transfer-out')!;
+
+    expect(transferOut.operation).toBe('transfer');
+    await expect(engine.refund({ transactionId: transferOut.id })).rejects.toThrow(/not a charge/);
+    expect(await engine.queryBalance('user-1')).toBe(90);
+  });
+
+  it('should refund charges written before transactions recorded their operation', async () => {
+    const legacy = await adapter.createTransaction({
+      userId: 'user-1',
+      action: 'generate-post',
+      amount: -30,
+      balanceBefore: 130,
+      balanceAfter: 100,
+      metadata: {}
+    });
+
+    const result = await engine.refund({ transactionId: legacy.id });
+
+    expect(result.amount).toBe(30);
+    expect(await engine.queryBalance('user-1')).toBe(130);
+  });
+
+  it('should still accept arbitrary amount refunds', async () => {
+    const result = await engine.refund({ userId: 'user-1', amount: 500, action: 'goodwill' });
+
+    expect(result.balanceAfter).toBe(600);
+    expect(result).not.toHaveProperty('originalTransactionId');
+  });
+});
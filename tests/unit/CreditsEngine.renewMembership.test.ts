@@ -0,0 +1,311 @@
+/**
+ * CreditsEngine.renewMembership 单元测试
+ *
+ * 测试各续费策略下剩余积分的保留和作废、交易记录、幂等性和配置校验
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CreditsEngine } from '../../src/core/CreditsEngine';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
+import {
+  UserNotFoundError,
+  UndefinedTierError,
+  InvalidTierChangeError,
+  ConfigurationError
+} from '../../src/core/errors';
+import type { CreditsConfig } from '../../src/core/types';
+
+describe('CreditsEngine.renewMembership', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+  let config: CreditsConfig;
+
+  const periodEnd = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+
+  beforeEach(async () => {
+    config = {
+      costs: {
+        'generate-post': { default: 10 }
+      },
+      membership: {
+        tiers: { free: 0, basic: 1, pro: 2, premium: 3 },
+        requirements: { 'generate-post': null },
+        creditsCaps: { free: 100, basic: 500, pro: 1000, premium: 2000 },
+        rolloverPolicies: {
+          basic: { type: 'accumulate' },
+          pro: { type: 'carryover', maxPercent: 50 },
+          premium: { type: 'carryover', maxPercent: 50, maxCredits: 300 }
+        }
+      },
+      retry: {
+        enabled: false,
+        maxAttempts: 1,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: true, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+  });
+
+  async function createMember(tier: string, credits: number) {
+    await adapter.createUser({
+      id: 'user-1',
+      credits,
+      membershipTier: tier,
+      membershipExpiresAt: new Date(Date.now() + 1000)
+    });
+  }
+
+  describe('policies', () => {
+    it('should reset to the cap when the tier has no policy', async () => {
+      await createMember('free', 30);
+
+      const result = await engine.renewMembership({ userId: 'user-1', periodEnd });
+
+      expect(result).toEqual({
+        success: true,
+        tier: 'free',
+        policy: 'reset',
+        oldCredits: 30,
+        carriedOver: 0,
+        forfeited: 30,
+        granted: 100,
+        newCredits: 100,
+        transactionIds: adapter.getAllTransactions().map(t => t.id)
+      });
+    });
+
+    it('should add the cap on top with accumulate', async () => {
+      await createMember('basic', 320);
+
+      const result = await engine.renewMembership({ userId: 'user-1', periodEnd });
+
+      expect(result).toMatchObject({ carriedOver: 320, forfeited: 0, newCredits: 820 });
+      expect(await engine.queryBalance('user-1')).toBe(820);
+    });
+
+    it('should carry over up to a percentage of the cap', async () => {
+      await createMember('pro', 700);
+
+      const result = await engine.renewMembership({ userId: 'user-1', periodEnd });
+
+      expect(result).toMatchObject({ carriedOver: 500, forfeited: 200, newCredits: 1500 });
+    });
+
+    it('should carry over everything below the limit', async () => {
+      await createMember('pro', 120);
+
+      const result = await engine.renewMembership({ userId: 'user-1', periodEnd });
+
+      expect(result).toMatchObject({ carriedOver: 120, forfeited: 0, newCredits: 1120 });
+    });
+
+    it('should apply the smaller of maxPercent and maxCredits', async () => {
+      await createMember('premium', 1800);
+
+      const result = await engine.renewMembership({ userId: 'user-1', periodEnd });
+
+      expect(result).toMatchObject({ carriedOver: 300, forfeited: 1500, newCredits: 2300 });
+    });
+
+    it('should carry a negative balance into the new period', async () => {
+      await createMember('free', -40);
+
+      const result = await engine.renewMembership({ userId: 'user-1', periodEnd });
+
+      expect(result).toMatchObject({ carriedOver: 0, forfeited: 0, newCredits: 60 });
+      expect(adapter.getAllTransactions().map(t => t.action)).toEqual(['membership-rollover']);
+    });
+
+    it('should leave expiring credit lots to their own expiry', async () => {
+      await createMember('free', 0);
+      await engine.grant({
+        userId: 'user-1',
+        amount: 50,
+        action: 'promotion',
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000)
+      });
+
+      const result = await engine.renewMembership({ userId: 'user-1', periodEnd });
+
+      expect(result).toMatchObject({ forfeited: 0, newCredits: 150 });
+    });
+
+    it('should not forfeit credits held by pending reservations', async () => {
+      await createMember('free', 30);
+      const hold = await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 20 });
+
+      const result = await engine.renewMembership({ userId: 'user-1', periodEnd });
+
+      expect(result).toMatchObject({ forfeited: 10, newCredits: 120 });
+      await expect(engine.capture({ holdId: hold.holdId })).resolves.toMatchObject({ balanceAfter: 100 });
+    });
+  });
+
+  describe('ledger', () => {
+    it('should write a reset transaction for forfeited credits and a rollover transaction for the grant', async () => {
+      await createMember('pro', 700);
+
+      await engine.renewMembership({ userId: 'user-1', periodEnd, metadata: { invoiceId: 'inv-1' } });
+
+      const transactions = adapter.getAllTransactions();
+      expect(transactions.map(t => [t.action, t.amount, t.balanceBefore, t.balanceAfter])).toEqual([
+        ['membership-reset', -200, 700, 500],
+        ['membership-rollover', 1000, 500, 1500]
+      ]);
+      expect(transactions[0]!.metadata).toEqual({
+        tier: 'pro',
+        policy: 'carryover',
+        carriedOver: 500,
+        forfeited: 200,
+        periodEnd: periodEnd.toISOString(),
+        invoiceId: 'inv-1'
+      });
+    });
+
+    it('should extend the membership and keep the tier', async () => {
+      await createMember('pro', 0);
+
+      await engine.renewMembership({ userId: 'user-1', periodEnd });
+
+      expect(await adapter.getUserById('user-1')).toMatchObject({
+        membershipTier: 'pro',
+        membershipExpiresAt: periodEnd
+      });
+    });
+
+    it('should renew a membership that has already lapsed', async () => {
+      await adapter.createUser({
+        id: 'user-1',
+        credits: 10,
+        membershipTier: 'basic',
+        membershipExpiresAt: new Date(Date.now() - 1000)
+      });
+
+      const result = await engine.renewMembership({ userId: 'user-1', periodEnd });
+
+      expect(result.newCredits).toBe(510);
+    });
+
+    it('should write a renewMembership audit log', async () => {
+      await createMember('basic', 0);
+
+      await engine.renewMembership({ userId: 'user-1', periodEnd });
+
+      expect(adapter.getAuditLogs().map(l => [l.action, l.status])).toEqual([
+        ['renewMembership', 'success']
+      ]);
+    });
+  });
+
+  describe('concurrent writes', () => {
+    /**
+     * 在续费读取用户之后、写入余额之前扣除积分，模拟并发提交的扣费
+     */
+    function chargeAfterRead(amount: number) {
+      const getCreditLots = adapter.getCreditLots.bind(adapter);
+      vi.spyOn(adapter, 'getCreditLots').mockImplementationOnce(async (userId, txn) => {
+        await adapter.updateUserCredits(userId, -amount);
+        return await getCreditLots(userId, txn);
+      });
+    }
+
+    it('should keep a charge committed after the balance was read', async () => {
+      await createMember('basic', 200);
+      chargeAfterRead(10);
+
+      const result = await engine.renewMembership({ userId: 'user-1', periodEnd });
+
+      expect(result.newCredits).toBe(690);
+      expect(await engine.queryBalance('user-1')).toBe(690);
+    });
+
+    it('should only forfeit the credits that are left', async () => {
+      await createMember('free', 30);
+      chargeAfterRead(10);
+
+      const result = await engine.renewMembership({ userId: 'user-1', periodEnd });
+
+      expect(result).toMatchObject({ oldCredits: 20, forfeited: 20, newCredits: 100 });
+      expect(adapter.getAllTransactions().map(t => [t.action, t.amount, t.balanceBefore, t.balanceAfter])).toEqual([
+        ['membership-reset', -20, 20, 0],
+        ['membership-rollover', 100, 0, 100]
+      ]);
+    });
+  });
+
+  describe('idempotency', () => {
+    it('should return the cached result without renewing twice', async () => {
+      await createMember('basic', 100);
+
+      const first = await engine.renewMembership({ userId: 'user-1', periodEnd, idempotencyKey: 'inv-1' });
+      const second = await engine.renewMembership({ userId: 'user-1', periodEnd, idempotencyKey: 'inv-1' });
+
+      expect(second).toEqual(first);
+      expect(await engine.queryBalance('user-1')).toBe(600);
+    });
+  });
+
+  describe('errors', () => {
+    it('should throw for unknown users', async () => {
+      await expect(
+        engine.renewMembership({ userId: 'missing', periodEnd })
+      ).rejects.toThrow(UserNotFoundError);
+    });
+
+    it('should throw for users without a tier', async () => {
+      await adapter.createUser({ id: 'user-1', credits: 0 });
+
+      await expect(
+        engine.renewMembership({ userId: 'user-1', periodEnd })
+      ).rejects.toThrow(InvalidTierChangeError);
+    });
+
+    it('should throw for tiers missing from the configuration', async () => {
+      await createMember('legacy', 0);
+
+      await expect(
+        engine.renewMembership({ userId: 'user-1', periodEnd })
+      ).rejects.toThrow(UndefinedTierError);
+    });
+
+    it('should reject a period end in the past', async () => {
+      await createMember('basic', 0);
+
+      await expect(
+        engine.renewMembership({ userId: 'user-1', periodEnd: new Date(Date.now() - 1000) })
+      ).rejects.toThrow(ConfigurationError);
+      expect(adapter.getAuditLogs().map(l => l.status)).toEqual(['failed']);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should reject policies for undefined tiers', () => {
+      config.membership.rolloverPolicies = { gold: { type: 'reset' } };
+
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(/undefined tier 'gold'/);
+    });
+
+    it('should reject unknown policy types', () => {
+      config.membership.rolloverPolicies = { pro: { type: 'keep' } as any };
+
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(ConfigurationError);
+    });
+
+    it('should require a limit for carryover and reject invalid limits', () => {
+      config.membership.rolloverPolicies = { pro: { type: 'carryover' } };
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(/maxPercent or maxCredits/);
+
+      config.membership.rolloverPolicies = { pro: { type: 'carryover', maxPercent: 150 } };
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(ConfigurationError);
+
+      config.membership.rolloverPolicies = { pro: { type: 'carryover', maxCredits: -1 } };
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(ConfigurationError);
+    });
+  });
+});
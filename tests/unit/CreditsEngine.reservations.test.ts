@@ -0,0 +1,361 @@
+/**
+ * CreditsEngine 两阶段扣费单元测试
+ *
+ * 测试 reserve / capture / release 的核心逻辑
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CreditsEngine } from '../../src/core/CreditsEngine';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
+import {
+  InsufficientCreditsError,
+  HoldNotFoundError,
+  InvalidHoldOperationError,
+  MembershipRequiredError,
+  ConfigurationError
+} from '../../src/core/errors';
+import type { CreditsConfig } from '../../src/core/types';
+
+describe('CreditsEngine reservations', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+  let config: CreditsConfig;
+
+  beforeEach(async () => {
+    config = {
+      costs: {
+        'ai-completion': { default: '{token} * 0.01 + 1' },
+        'generate-post': { default: 10 },
+        'premium-action': { default: 5 }
+      },
+      membership: {
+        tiers: { free: 0, premium: 1 },
+        requirements: {
+          'ai-completion': null,
+          'generate-post': null,
+          'premium-action': 'premium'
+        },
+        creditsCaps: { free: 100, premium: 1000 }
+      },
+      retry: {
+        enabled: false,
+        maxAttempts: 1,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: true, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+
+    await adapter.createUser({ id: 'user-1', credits: 100 });
+  });
+
+  describe('reserve', () => {
+    it('should hold credits without changing the balance', async () => {
+      const result = await engine.reserve({
+        userId: 'user-1',
+        action: 'generate-post',
+        amount: 30
+      });
+
+      expect(result.amount).toBe(30);
+      expect(result.availableBefore).toBe(100);
+      expect(result.availableAfter).toBe(70);
+      expect(await engine.queryBalance('user-1')).toBe(100);
+
+      const holds = adapter.getAllCreditHolds();
+      expect(holds).toHaveLength(1);
+      expect(holds[0]!.status).toBe('pending');
+    });
+
+    it('should estimate the hold amount from the cost formula', async () => {
+      const result = await engine.reserve({
+        userId: 'user-1',
+        action: 'ai-completion',
+        variables: { token: 2000 }
+      });
+
+      expect(result.amount).toBe(21);
+    });
+
+    it('should write a zero-amount credit-hold transaction and an audit entry', async () => {
+      const result = await engine.reserve({
+        userId: 'user-1',
+        action: 'generate-post',
+        amount: 30
+      });
+
+      const transaction = adapter.getAllTransactions().find(t => t.id === result.transactionId);
+      expect(transaction?.action).toBe('credit-hold');
+      expect(transaction?.amount).toBe(0);
+      expect(transaction?.metadata.holdId).toBe(result.holdId);
+
+      const auditLog = adapter.getAuditLogs().find(l => l.action === 'reserve');
+      expect(auditLog?.status).toBe('success');
+      expect(auditLog?.metadata.holdId).toBe(result.holdId);
+    });
+
+    it('should exclude held credits from the spendable balance', async () => {
+      await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 95 });
+
+      await expect(
+        engine.charge({ userId: 'user-1', action: 'generate-post' })
+      ).rejects.toThrow(InsufficientCreditsError);
+
+      await expect(
+        engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 10 })
+      ).rejects.toThrow(InsufficientCreditsError);
+    });
+
+    it('should stop counting holds once they expire', async () => {
+      await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 95, ttl: -1 });
+
+      const result = await engine.charge({ userId: 'user-1', action: 'generate-post' });
+      expect(result.balanceAfter).toBe(90);
+    });
+
+    it('should enforce membership requirements', async () => {
+      await expect(
+        engine.reserve({ userId: 'user-1', action: 'premium-action' })
+      ).rejects.toThrow(MembershipRequiredError);
+    });
+
+    it('should grant only the concurrent holds the balance can cover', async () => {
+      const results = await Promise.allSettled([
+        engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 80 }),
+        engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 80 }),
+        engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 80 })
+      ]);
+
+      const granted = results.filter(r => r.status === 'fulfilled');
+      const rejected = results.filter(r => r.status === 'rejected') as PromiseRejectedResult[];
+      expect(granted).toHaveLength(1);
+      expect(rejected.every(r => r.reason instanceof InsufficientCreditsError)).toBe(true);
+      expect(adapter.getAllCreditHolds()).toHaveLength(1);
+
+      for (const result of granted) {
+        await engine.capture({ holdId: (result as PromiseFulfilledResult<any>).value.holdId });
+      }
+      expect(await engine.queryBalance('user-1')).toBe(20);
+    });
+
+    it('should not leave a hold behind when writing the ledger fails', async () => {
+      vi.spyOn(adapter, 'createTransaction').mockRejectedValueOnce(new Error('write failed'));
+
+      await expect(
+        engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 30 })
+      ).rejects.toThrow('write failed');
+
+      expect(adapter.getAllCreditHolds()).toHaveLength(0);
+      expect(adapter.getAllTransactions()).toHaveLength(0);
+    });
+
+    it('should reject non-positive amounts', async () => {
+      await expect(
+        engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 0 })
+      ).rejects.toThrow(ConfigurationError);
+    });
+
+    it('should return the cached result for a repeated idempotency key', async () => {
+      const first = await engine.reserve({
+        userId: 'user-1',
+        action: 'generate-post',
+        amount: 30,
+        idempotencyKey: 'reserve-1'
+      });
+      const second = await engine.reserve({
+        userId: 'user-1',
+        action: 'generate-post',
+        amount: 30,
+        idempotencyKey: 'reserve-1'
+      });
+
+      expect(second.holdId).toBe(first.holdId);
+      expect(adapter.getAllCreditHolds()).toHaveLength(1);
+    });
+  });
+
+  describe('capture', () => {
+    it('should charge the final amount and release the remainder', async () => {
+      const hold = await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 50 });
+
+      const result = await engine.capture({ holdId: hold.holdId, amount: 20 });
+
+      expect(result.cost).toBe(20);
+      expect(result.releasedAmount).toBe(30);
+      expect(result.balanceBefore).toBe(100);
+      expect(result.balanceAfter).toBe(80);
+      expect(await engine.queryBalance('user-1')).toBe(80);
+
+      const transaction = adapter.getAllTransactions().find(t => t.id === result.transactionId);
+      expect(transaction?.action).toBe('generate-post');
+      expect(transaction?.amount).toBe(-20);
+      expect(transaction?.metadata.holdId).toBe(hold.holdId);
+
+      // 结算后不再占用可用余额
+      const next = await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 80 });
+      expect(next.availableBefore).toBe(80);
+    });
+
+    it('should compute the final amount from formula variables', async () => {
+      const hold = await engine.reserve({
+        userId: 'user-1',
+        action: 'ai-completion',
+        variables: { token: 5000 }
+      });
+
+      const result = await engine.capture({ holdId: hold.holdId, variables: { token: 3000 } });
+
+      expect(result.cost).toBe(31);
+      const transaction = adapter.getAllTransactions().find(t => t.id === result.transactionId);
+      expect(transaction?.metadata.dynamicCost.variables).toEqual({ token: 3000 });
+    });
+
+    it('should capture the held amount when no final amount is given', async () => {
+      const hold = await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 40 });
+
+      const result = await engine.capture({ holdId: hold.holdId });
+
+      expect(result.cost).toBe(40);
+      expect(result.releasedAmount).toBe(0);
+    });
+
+    it('should reject a final amount larger than the hold', async () => {
+      const hold = await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 40 });
+
+      await expect(
+        engine.capture({ holdId: hold.holdId, amount: 41 })
+      ).rejects.toThrow(InvalidHoldOperationError);
+      expect(await engine.queryBalance('user-1')).toBe(100);
+    });
+
+    it('should reject capturing a hold twice', async () => {
+      const hold = await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 40 });
+      await engine.capture({ holdId: hold.holdId, amount: 10 });
+
+      await expect(
+        engine.capture({ holdId: hold.holdId, amount: 10 })
+      ).rejects.toThrow(InvalidHoldOperationError);
+      expect(await engine.queryBalance('user-1')).toBe(90);
+    });
+
+    it('should reject capturing an expired hold', async () => {
+      const hold = await engine.reserve({
+        userId: 'user-1',
+        action: 'generate-post',
+        amount: 40,
+        ttl: -1
+      });
+
+      await expect(
+        engine.capture({ holdId: hold.holdId })
+      ).rejects.toThrow(/expired/);
+    });
+
+    it('should not overdraw when the balance dropped after reserving', async () => {
+      const hold = await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 80 });
+      await adapter.updateUserCredits('user-1', -90);
+
+      await expect(
+        engine.capture({ holdId: hold.holdId })
+      ).rejects.toThrow(InsufficientCreditsError);
+
+      // 扣费失败时结算一同回滚，预留仍可释放
+      expect(await engine.queryBalance('user-1')).toBe(10);
+      expect(adapter.getAllCreditHolds()[0]!.status).toBe('pending');
+      await expect(engine.release({ holdId: hold.holdId })).resolves.toMatchObject({ releasedAmount: 80 });
+    });
+
+    it('should throw HoldNotFoundError for an unknown hold', async () => {
+      await expect(
+        engine.capture({ holdId: 'missing' })
+      ).rejects.toThrow(HoldNotFoundError);
+    });
+  });
+
+  describe('release', () => {
+    it('should release the hold without charging', async () => {
+      const hold = await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 60 });
+
+      const result = await engine.release({ holdId: hold.holdId });
+
+      expect(result.releasedAmount).toBe(60);
+      expect(await engine.queryBalance('user-1')).toBe(100);
+      expect(adapter.getAllCreditHolds()[0]!.status).toBe('released');
+
+      const transaction = adapter.getAllTransactions().find(t => t.id === result.transactionId);
+      expect(transaction?.action).toBe('credit-hold-release');
+      expect(transaction?.amount).toBe(0);
+
+      const charge = await engine.charge({ userId: 'user-1', action: 'generate-post' });
+      expect(charge.balanceAfter).toBe(90);
+    });
+
+    it('should keep the hold pending when writing the ledger fails', async () => {
+      const hold = await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 60 });
+      vi.spyOn(adapter, 'createTransaction').mockRejectedValueOnce(new Error('write failed'));
+
+      await expect(engine.release({ holdId: hold.holdId })).rejects.toThrow('write failed');
+
+      expect(adapter.getAllCreditHolds()[0]!.status).toBe('pending');
+      await expect(engine.release({ holdId: hold.holdId })).resolves.toMatchObject({ releasedAmount: 60 });
+    });
+
+    it('should not allow capturing a released hold', async () => {
+      const hold = await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 60 });
+      await engine.release({ holdId: hold.holdId });
+
+      await expect(
+        engine.capture({ holdId: hold.holdId })
+      ).rejects.toThrow(InvalidHoldOperationError);
+    });
+  });
+
+  describe('storage support', () => {
+    it('should throw ConfigurationError when the adapter does not support holds', async () => {
+      const storage = new MockAdapter();
+      await storage.createUser({ id: 'user-1', credits: 100 });
+      (storage as any).createCreditHold = undefined;
+
+      const limitedEngine = new CreditsEngine({ storage, config });
+
+      await expect(
+        limitedEngine.reserve({ userId: 'user-1', action: 'generate-post', amount: 10 })
+      ).rejects.toThrow(ConfigurationError);
+    });
+
+    it('should fall back to createCreditHold when the conditional primitive is missing', async () => {
+      (adapter as any).createCreditHoldIfAvailable = undefined;
+
+      const result = await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 30 });
+
+      expect(result.availableAfter).toBe(70);
+      expect(adapter.getAllCreditHolds()).toHaveLength(1);
+    });
+
+    it('should require transaction support to capture outside a transaction', async () => {
+      const hold = await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 30 });
+      (adapter as any).runInTransaction = undefined;
+
+      await expect(
+        engine.capture({ holdId: hold.holdId })
+      ).rejects.toThrow(ConfigurationError);
+      expect(await engine.queryBalance('user-1')).toBe(100);
+    });
+
+    it('should require transaction support to reserve or release outside a transaction', async () => {
+      const hold = await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 30 });
+      (adapter as any).runInTransaction = undefined;
+
+      await expect(
+        engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 30 })
+      ).rejects.toThrow(ConfigurationError);
+      await expect(engine.release({ holdId: hold.holdId })).rejects.toThrow(ConfigurationError);
+      expect(adapter.getAllCreditHolds()).toHaveLength(1);
+    });
+  });
+});
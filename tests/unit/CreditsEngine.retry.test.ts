@@ -0,0 +1,368 @@
+/**
+ * CreditsEngine 重试单元测试
+ *
+ * 测试存储操作的瞬态故障重试、写入已提交但响应丢失时的幂等重试，
+ * 外部事务和业务错误不重试，存储适配器的错误分类，以及熔断器
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CreditsEngine } from '../../src/core/CreditsEngine';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
+import {
+  InsufficientCreditsError,
+  ConfigurationError,
+  CircuitOpenError
+} from '../../src/core/errors';
+import type { CreditsConfig } from '../../src/core/types';
+
+/**
+ * 创建一个可重试的瞬态错误
+ */
+function transientError(): Error {
+  const error = new Error('Connection reset by peer') as Error & { code: string };
+  error.code = 'ECONNRESET';
+  return error;
+}
+
+describe('CreditsEngine retry', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+  let config: CreditsConfig;
+
+  beforeEach(async () => {
+    config = {
+      costs: {
+        'generate-post': { default: 10 }
+      },
+      membership: {
+        tiers: { free: 0, premium: 1 },
+        requirements: { 'generate-post': null },
+        creditsCaps: { free: 100, premium: 1000 }
+      },
+      retry: {
+        enabled: true,
+        maxAttempts: 3,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: true, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+
+    await adapter.createUser({ id: 'user-1', credits: 100, membershipTier: 'free' });
+  });
+
+  /**
+   * 让存储方法第一次调用失败，之后正常执行
+   */
+  function failOnce<K extends keyof MockAdapter>(method: K, error: Error = transientError()) {
+    const original = (adapter[method] as any).bind(adapter);
+    return vi.spyOn(adapter, method as any).mockImplementationOnce(async () => {
+      throw error;
+    }).mockImplementation(original);
+  }
+
+  /**
+   * 让第一次存储事务提交后仍然报错，模拟响应丢失
+   */
+  function loseFirstCommitAck() {
+    const runInTransaction = adapter.runInTransaction.bind(adapter);
+    return vi.spyOn(adapter, 'runInTransaction').mockImplementationOnce(async fn => {
+      await runInTransaction(fn);
+      throw transientError();
+    }).mockImplementation(runInTransaction);
+  }
+
+  describe('writes', () => {
+    it('should retry a charge that failed with a transient error', async () => {
+      failOnce('createTransaction');
+
+      const result = await engine.charge({ userId: 'user-1', action: 'generate-post' });
+
+      expect(result.balanceAfter).toBe(90);
+      expect(await engine.queryBalance('user-1')).toBe(90);
+      expect(adapter.getAllTransactions()).toHaveLength(1);
+    });
+
+    it('should not charge twice when the commit succeeded but the response was lost', async () => {
+      const spy = loseFirstCommitAck();
+
+      const result = await engine.charge({
+        userId: 'user-1',
+        action: 'generate-post',
+        idempotencyKey: 'charge-1'
+      });
+
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(result.transactionId).toBe(adapter.getAllTransactions()[0]!.id);
+      expect(adapter.getAllTransactions()).toHaveLength(1);
+      expect(await engine.queryBalance('user-1')).toBe(90);
+    });
+
+    it('should not retry a lost commit response without an idempotency key', async () => {
+      const spy = loseFirstCommitAck();
+
+      await expect(
+        engine.charge({ userId: 'user-1', action: 'generate-post' })
+      ).rejects.toThrow('Connection reset');
+
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(adapter.getAllTransactions()).toHaveLength(1);
+      expect(await engine.queryBalance('user-1')).toBe(90);
+    });
+
+    it('should not write idempotency records for calls without a key', async () => {
+      failOnce('createTransaction');
+
+      await engine.charge({ userId: 'user-1', action: 'generate-post' });
+      await engine.grant({ userId: 'user-1', amount: 50, action: 'promotion' });
+
+      expect(adapter.getAllIdempotencyRecords()).toHaveLength(0);
+    });
+
+    it('should reuse the caller idempotency key across attempts', async () => {
+      loseFirstCommitAck();
+
+      const first = await engine.charge({
+        userId: 'user-1',
+        action: 'generate-post',
+        idempotencyKey: 'charge-1'
+      });
+      const second = await engine.charge({
+        userId: 'user-1',
+        action: 'generate-post',
+        idempotencyKey: 'charge-1'
+      });
+
+      expect(second).toEqual(first);
+      expect(await engine.queryBalance('user-1')).toBe(90);
+    });
+
+    it('should not grant, refund or change tiers twice after a lost response', async () => {
+      loseFirstCommitAck();
+      await engine.grant({ userId: 'user-1', amount: 50, action: 'promotion', idempotencyKey: 'k-1' });
+
+      loseFirstCommitAck();
+      await engine.refund({ userId: 'user-1', amount: 5, action: 'goodwill', idempotencyKey: 'k-2' });
+
+      loseFirstCommitAck();
+      const upgrade = await engine.upgradeTier({ userId: 'user-1', targetTier: 'premium', idempotencyKey: 'k-3' });
+
+      loseFirstCommitAck();
+      const downgrade = await engine.downgradeTier({ userId: 'user-1', targetTier: 'free', idempotencyKey: 'k-4' });
+
+      expect(upgrade.oldCredits).toBe(155);
+      expect(downgrade.newCredits).toBe(100);
+      expect(adapter.getAllTransactions().map(t => t.action)).toEqual([
+        'promotion',
+        'goodwill',
+        'tier-upgrade',
+        'tier-downgrade'
+      ]);
+    });
+
+    it('should not retry business errors', async () => {
+      // 错误消息中的 500 会被当作 HTTP 状态码匹配
+      await adapter.createUser({ id: 'user-500', credits: 0 });
+      const spy = vi.spyOn(adapter, 'runInTransaction');
+
+      await expect(
+        engine.charge({ userId: 'user-500', action: 'generate-post' })
+      ).rejects.toThrow(InsufficientCreditsError);
+
+      await expect(
+        engine.grant({ userId: 'user-1', amount: -500, action: 'promotion' })
+      ).rejects.toThrow(ConfigurationError);
+
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should write a single failed audit entry after the last attempt', async () => {
+      const spy = vi.spyOn(adapter, 'createTransaction').mockRejectedValue(transientError());
+
+      await expect(
+        engine.charge({ userId: 'user-1', action: 'generate-post' })
+      ).rejects.toThrow('Connection reset');
+
+      expect(spy).toHaveBeenCalledTimes(3);
+      expect(await engine.queryBalance('user-1')).toBe(100);
+      expect(adapter.getAuditLogs().map(l => l.status)).toEqual(['failed']);
+    });
+
+    it('should not retry inside a caller transaction', async () => {
+      failOnce('createTransaction');
+
+      await expect(
+        engine.charge({ userId: 'user-1', action: 'generate-post', txn: { external: true } })
+      ).rejects.toThrow('Connection reset');
+    });
+
+    it('should retry failures before the commit when idempotency is disabled', async () => {
+      config.idempotency.enabled = false;
+      engine = new CreditsEngine({ storage: adapter, config });
+      const spy = failOnce('createTransaction');
+
+      const result = await engine.charge({ userId: 'user-1', action: 'generate-post' });
+
+      expect(result.balanceAfter).toBe(90);
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(adapter.getAllTransactions()).toHaveLength(1);
+    });
+
+    it('should retry reserve, capture, release and transfer', async () => {
+      await adapter.createUser({ id: 'user-2', credits: 0 });
+
+      failOnce('createTransaction');
+      const hold = await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 30 });
+
+      failOnce('createTransaction');
+      await engine.capture({ holdId: hold.holdId, amount: 20 });
+
+      const other = await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 10 });
+      failOnce('createTransaction');
+      await engine.release({ holdId: other.holdId });
+
+      failOnce('createTransaction');
+      await engine.transfer({ fromUserId: 'user-1', toUserId: 'user-2', amount: 30 });
+
+      expect(adapter.getAllCreditHolds().map(h => h.status)).toEqual(['captured', 'released']);
+      expect(adapter.getAllTransactions().map(t => t.action)).toEqual([
+        'credit-hold',
+        'generate-post',
+        'credit-hold',
+        'credit-hold-release',
+        'transfer-out',
+        'transfer-in'
+      ]);
+      expect(await engine.queryBalance('user-1')).toBe(50);
+      expect(await engine.queryBalance('user-2')).toBe(30);
+    });
+
+    it('should warn that writes run once when the adapter lacks transactions', async () => {
+      const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+      (adapter as any).runInTransaction = undefined;
+
+      new CreditsEngine({ storage: adapter, config, logger });
+
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Write retries are disabled'));
+    });
+  });
+
+  describe('reads', () => {
+    it('should retry balance queries', async () => {
+      const spy = failOnce('getUserById');
+
+      expect(await engine.queryBalance('user-1')).toBe(100);
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry history queries', async () => {
+      await engine.grant({ userId: 'user-1', amount: 50, action: 'promotion' });
+      failOnce('getTransactions');
+
+      expect(await engine.getHistory('user-1')).toHaveLength(1);
+    });
+
+    it('should not retry reads inside a caller transaction', async () => {
+      failOnce('getUserById');
+
+      await expect(engine.queryBalance('user-1', { external: true })).rejects.toThrow('Connection reset');
+    });
+  });
+
+  describe('adapter error classification', () => {
+    it('should retry errors the adapter classifies as transient', async () => {
+      (adapter as any).isTransientError = (error: any) => error.code === 'WRITE_CONFLICT';
+      engine = new CreditsEngine({ storage: adapter, config });
+      const conflict = Object.assign(new Error('Write conflict'), { code: 'WRITE_CONFLICT' });
+      const spy = failOnce('createTransaction', conflict);
+
+      const result = await engine.charge({ userId: 'user-1', action: 'generate-post' });
+
+      expect(result.balanceAfter).toBe(90);
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry errors the adapter classifies as permanent', async () => {
+      (adapter as any).isTransientError = () => false;
+      engine = new CreditsEngine({ storage: adapter, config });
+      const spy = failOnce('getUserById');
+
+      await expect(engine.queryBalance('user-1')).rejects.toThrow('Connection reset');
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should never retry business errors even if the adapter says so', async () => {
+      (adapter as any).isTransientError = () => true;
+      engine = new CreditsEngine({ storage: adapter, config });
+      await adapter.createUser({ id: 'poor', credits: 0 });
+      const spy = vi.spyOn(adapter, 'runInTransaction');
+
+      await expect(
+        engine.charge({ userId: 'poor', action: 'generate-post' })
+      ).rejects.toThrow(InsufficientCreditsError);
+      expect(spy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    beforeEach(() => {
+      config.retry.circuitBreaker = { failureThreshold: 3, resetTimeout: 60000 };
+      engine = new CreditsEngine({ storage: adapter, config });
+    });
+
+    it('should report no breaker when it is not configured', () => {
+      delete config.retry.circuitBreaker;
+
+      expect(new CreditsEngine({ storage: adapter, config }).getCircuitBreakerStatus()).toBeNull();
+    });
+
+    it('should fail fast across operations once the storage keeps failing', async () => {
+      vi.spyOn(adapter, 'createTransaction').mockRejectedValue(transientError());
+
+      await expect(
+        engine.charge({ userId: 'user-1', action: 'generate-post' })
+      ).rejects.toThrow('Connection reset');
+      expect(engine.getCircuitBreakerStatus()).toMatchObject({ state: 'open', consecutiveFailures: 3 });
+
+      const spy = vi.spyOn(adapter, 'getUserById');
+      await expect(engine.queryBalance('user-1')).rejects.toThrow(CircuitOpenError);
+      expect(spy).not.toHaveBeenCalled();
+    });
+
+    it('should not open on business errors', async () => {
+      await adapter.createUser({ id: 'poor', credits: 0 });
+
+      for (let i = 0; i < 3; i++) {
+        await expect(
+          engine.charge({ userId: 'poor', action: 'generate-post' })
+        ).rejects.toThrow(InsufficientCreditsError);
+      }
+
+      expect(engine.getCircuitBreakerStatus()?.state).toBe('closed');
+    });
+
+    it('should guard operations inside a caller transaction', async () => {
+      vi.spyOn(adapter, 'getUserById').mockRejectedValue(transientError());
+
+      for (let i = 0; i < 3; i++) {
+        await expect(engine.queryBalance('user-1', { external: true })).rejects.toThrow('Connection reset');
+      }
+
+      await expect(engine.queryBalance('user-1', { external: true })).rejects.toThrow(CircuitOpenError);
+    });
+
+    it('should reject invalid breaker configuration', () => {
+      config.retry.circuitBreaker = { failureThreshold: 0, resetTimeout: 1000 };
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(ConfigurationError);
+
+      config.retry.circuitBreaker = { failureThreshold: 1, resetTimeout: 1000 };
+      config.retry.jitter = 'random' as any;
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(/jitter/);
+    });
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * CreditsEngine 计划等级变更单元测试
+ *
+ * 测试计划和取消等级变更、到期后执行升降级、无法执行的计划变更被丢弃，以及会员状态查询
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CreditsEngine } from '../../src/core/CreditsEngine';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
+import {
+  ConfigurationError,
+  InvalidTierChangeError,
+  UndefinedTierError,
+  UserNotFoundError
+} from '../../src/core/errors';
+import type { CreditsConfig } from '../../src/core/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = new Date('2025-01-01T00:00:00Z');
+const PERIOD_END = new Date(START.getTime() + 30 * DAY);
+
+describe('CreditsEngine scheduled tier changes', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+  let config: CreditsConfig;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+
+    config = {
+      costs: {
+        'generate-post': { default: 10 }
+      },
+      membership: {
+        tiers: { free: 0, basic: 1, premium: 2 },
+        requirements: { 'generate-post': null },
+        creditsCaps: { free: 100, basic: 500, premium: 2000 }
+      },
+      retry: {
+        enabled: false,
+        maxAttempts: 1,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: true, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+
+    await adapter.createUser({
+      id: 'user-1',
+      credits: 300,
+      membershipTier: 'basic',
+      membershipExpiresAt: PERIOD_END
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('scheduleTierChange', () => {
+    it('should save the change without touching the tier or credits', async () => {
+      const effectiveAt = new Date(START.getTime() + 10 * DAY);
+
+      const result = await engine.scheduleTierChange({
+        userId: 'user-1',
+        targetTier: 'premium',
+        effectiveAt,
+        metadata: { orderId: 'order-1' }
+      });
+
+      expect(result.scheduledChange).toMatchObject({
+        userId: 'user-1',
+        targetTier: 'premium',
+        effectiveAt,
+        metadata: { orderId: 'order-1' }
+      });
+      expect(result.replaced).toBeNull();
+      expect(await adapter.getScheduledTierChange('user-1')).toEqual(result.scheduledChange);
+      expect(await adapter.getUserById('user-1')).toMatchObject({ membershipTier: 'basic', credits: 300 });
+    });
+
+    it('should record a zero-amount transaction named after the direction', async () => {
+      const up = await engine.scheduleTierChange({
+        userId: 'user-1',
+        targetTier: 'premium',
+        effectiveAt: PERIOD_END
+      });
+      await engine.scheduleTierChange({ userId: 'user-1', targetTier: 'free', effectiveAt: PERIOD_END });
+
+      const [upgrade, downgrade] = adapter.getAllTransactions();
+      expect(upgrade).toMatchObject({ id: up.transactionId, action: 'tier-upgrade-scheduled', amount: 0 });
+      expect(upgrade!.metadata).toMatchObject({
+        oldTier: 'basic',
+        newTier: 'premium',
+        effectiveAt: PERIOD_END.toISOString(),
+        scheduledChangeId: up.scheduledChange.id
+      });
+      expect(downgrade).toMatchObject({ action: 'tier-downgrade-scheduled', amount: 0 });
+    });
+
+    it('should replace the existing scheduled change', async () => {
+      const first = await engine.scheduleTierChange({
+        userId: 'user-1',
+        targetTier: 'premium',
+        effectiveAt: PERIOD_END
+      });
+      const second = await engine.scheduleTierChange({
+        userId: 'user-1',
+        targetTier: 'free',
+        effectiveAt: PERIOD_END
+      });
+
+      expect(second.replaced).toEqual(first.scheduledChange);
+      expect((await adapter.getScheduledTierChange('user-1'))?.targetTier).toBe('free');
+
+      const audit = adapter.getAuditLogs().filter(l => l.action === 'scheduleTierChange');
+      expect(audit[1]!.metadata.replacedChangeId).toBe(first.scheduledChange.id);
+    });
+
+    it('should return the cached result for a repeated idempotency key', async () => {
+      const params = {
+        userId: 'user-1',
+        targetTier: 'premium',
+        effectiveAt: PERIOD_END,
+        idempotencyKey: 'schedule-1'
+      };
+
+      const first = await engine.scheduleTierChange(params);
+      const second = await engine.scheduleTierChange(params);
+
+      expect(second).toEqual(first);
+      expect(adapter.getAllTransactions()).toHaveLength(1);
+    });
+
+    it('should reject invalid changes and log the failure', async () => {
+      await expect(
+        engine.scheduleTierChange({ userId: 'user-1', targetTier: 'premium', effectiveAt: START })
+      ).rejects.toThrow(ConfigurationError);
+
+      await expect(
+        engine.scheduleTierChange({ userId: 'user-1', targetTier: 'basic', effectiveAt: PERIOD_END })
+      ).rejects.toThrow(InvalidTierChangeError);
+
+      await expect(
+        engine.scheduleTierChange({ userId: 'user-1', targetTier: 'gold', effectiveAt: PERIOD_END })
+      ).rejects.toThrow(UndefinedTierError);
+
+      await expect(
+        engine.scheduleTierChange({ userId: 'missing', targetTier: 'premium', effectiveAt: PERIOD_END })
+      ).rejects.toThrow(UserNotFoundError);
+
+      expect(await adapter.getScheduledTierChange('user-1')).toBeNull();
+      expect(adapter.getAuditLogs().map(l => [l.action, l.status])).toEqual(
+        Array(4).fill(['scheduleTierChange', 'failed'])
+      );
+    });
+  });
+
+  describe('cancelScheduledTierChange', () => {
+    it('should delete the scheduled change and return it', async () => {
+      const { scheduledChange } = await engine.scheduleTierChange({
+        userId: 'user-1',
+        targetTier: 'free',
+        effectiveAt: PERIOD_END
+      });
+
+      const result = await engine.cancelScheduledTierChange({ userId: 'user-1' });
+
+      expect(result).toEqual({ success: true, cancelled: scheduledChange });
+      expect(await adapter.getScheduledTierChange('user-1')).toBeNull();
+      expect(adapter.getAuditLogs().at(-1)).toMatchObject({
+        action: 'cancelScheduledTierChange',
+        metadata: { scheduledChangeId: scheduledChange.id, targetTier: 'free' }
+      });
+    });
+
+    it('should do nothing when there is no scheduled change', async () => {
+      const result = await engine.cancelScheduledTierChange({ userId: 'user-1' });
+
+      expect(result).toEqual({ success: true, cancelled: null });
+      expect(adapter.getAuditLogs()).toHaveLength(0);
+    });
+
+    it('should cancel a downgrade scheduled for the period end', async () => {
+      await engine.downgradeTier({ userId: 'user-1', targetTier: 'free', atPeriodEnd: true });
+
+      const { cancelled } = await engine.cancelScheduledTierChange({ userId: 'user-1' });
+
+      expect(cancelled?.targetTier).toBe('free');
+      vi.setSystemTime(new Date(PERIOD_END.getTime() + DAY));
+      expect(await engine.applyDueTierChanges()).toMatchObject({ upgraded: 0, downgraded: 0 });
+    });
+  });
+
+  describe('applyDueTierChanges', () => {
+    it('should leave changes that are not due yet', async () => {
+      await engine.scheduleTierChange({ userId: 'user-1', targetTier: 'premium', effectiveAt: PERIOD_END });
+
+      const result = await engine.applyDueTierChanges();
+
+      expect(result).toEqual({ upgraded: 0, downgraded: 0, discarded: 0, transactionIds: [] });
+      expect(await adapter.getScheduledTierChange('user-1')).not.toBeNull();
+    });
+
+    it('should upgrade with the upgradeTier logic once the change is due', async () => {
+      const effectiveAt = new Date(START.getTime() + 10 * DAY);
+      const { scheduledChange } = await engine.scheduleTierChange({
+        userId: 'user-1',
+        targetTier: 'premium',
+        effectiveAt,
+        metadata: { orderId: 'order-1' }
+      });
+      vi.setSystemTime(effectiveAt);
+
+      const result = await engine.applyDueTierChanges();
+
+      expect(result).toMatchObject({ upgraded: 1, downgraded: 0, discarded: 0 });
+      expect(await adapter.getUserById('user-1')).toMatchObject({
+        membershipTier: 'premium',
+        credits: 2000,
+        membershipExpiresAt: PERIOD_END
+      });
+      expect(await adapter.getScheduledTierChange('user-1')).toBeNull();
+
+      const transaction = adapter.getAllTransactions().find(t => t.id === result.transactionIds[0]);
+      expect(transaction).toMatchObject({ action: 'tier-upgrade', amount: 1700 });
+      expect(transaction!.metadata).toMatchObject({
+        orderId: 'order-1',
+        scheduledChangeId: scheduledChange.id
+      });
+      expect(adapter.getAuditLogs().at(-1)).toMatchObject({ action: 'upgradeTier', status: 'success' });
+    });
+
+    it('should downgrade and clear the expiry when the period has ended', async () => {
+      await engine.scheduleTierChange({ userId: 'user-1', targetTier: 'free', effectiveAt: PERIOD_END });
+      vi.setSystemTime(new Date(PERIOD_END.getTime() + DAY));
+
+      const result = await engine.applyDueTierChanges();
+
+      expect(result).toMatchObject({ upgraded: 0, downgraded: 1 });
+      expect(await adapter.getUserById('user-1')).toMatchObject({
+        membershipTier: 'free',
+        credits: 100,
+        membershipExpiresAt: null
+      });
+      expect(adapter.getAllTransactions().at(-1)!.action).toBe('tier-downgrade');
+    });
+
+    it('should keep the expiry when the change is applied mid-period', async () => {
+      const effectiveAt = new Date(START.getTime() + 10 * DAY);
+      await engine.scheduleTierChange({ userId: 'user-1', targetTier: 'free', effectiveAt });
+      vi.setSystemTime(effectiveAt);
+
+      await engine.applyDueTierChanges();
+
+      expect((await adapter.getUserById('user-1'))!.membershipExpiresAt).toEqual(PERIOD_END);
+    });
+
+    it('should apply downgrades scheduled for the period end', async () => {
+      await engine.downgradeTier({ userId: 'user-1', targetTier: 'free', atPeriodEnd: true });
+      vi.setSystemTime(PERIOD_END);
+
+      const result = await engine.applyDueTierChanges();
+
+      expect(result.downgraded).toBe(1);
+      expect((await adapter.getUserById('user-1'))!.membershipTier).toBe('free');
+    });
+
+    it('should discard changes that can no longer be applied', async () => {
+      await adapter.createUser({ id: 'user-2', credits: 0, membershipTier: 'basic' });
+      await adapter.saveScheduledTierChange({ userId: 'user-1', targetTier: 'gold', effectiveAt: START });
+      await adapter.saveScheduledTierChange({ userId: 'user-2', targetTier: 'basic', effectiveAt: START });
+
+      const result = await engine.applyDueTierChanges();
+
+      expect(result).toMatchObject({ upgraded: 0, downgraded: 0, discarded: 2 });
+      expect(await adapter.getScheduledTierChange('user-1')).toBeNull();
+      expect(await adapter.getScheduledTierChange('user-2')).toBeNull();
+      expect(adapter.getAllTransactions()).toHaveLength(0);
+    });
+
+    it('should process every batch and not apply a change twice', async () => {
+      await adapter.createUser({ id: 'user-2', credits: 0, membershipTier: 'free' });
+      await adapter.createUser({ id: 'user-3', credits: 0 });
+      for (const userId of ['user-1', 'user-2', 'user-3']) {
+        await engine.scheduleTierChange({ userId, targetTier: 'premium', effectiveAt: PERIOD_END });
+      }
+      vi.setSystemTime(PERIOD_END);
+
+      const first = await engine.applyDueTierChanges({ batchSize: 1 });
+      const second = await engine.applyDueTierChanges({ batchSize: 1 });
+
+      expect(first).toMatchObject({ upgraded: 3 });
+      expect(first.transactionIds).toHaveLength(3);
+      expect(second).toMatchObject({ upgraded: 0, downgraded: 0, discarded: 0 });
+    });
+
+    it('should reject an invalid batch size', async () => {
+      await expect(engine.applyDueTierChanges({ batchSize: 0 })).rejects.toThrow(ConfigurationError);
+    });
+  });
+
+  describe('getMembershipStatus', () => {
+    it('should return the membership and the pending change', async () => {
+      expect(await engine.getMembershipStatus('user-1')).toEqual({
+        userId: 'user-1',
+        tier: 'basic',
+        expiresAt: PERIOD_END,
+        expired: false,
+        state: 'active',
+        pendingChange: null
+      });
+
+      const { scheduledChange } = await engine.scheduleTierChange({
+        userId: 'user-1',
+        targetTier: 'free',
+        effectiveAt: PERIOD_END
+      });
+
+      expect((await engine.getMembershipStatus('user-1')).pendingChange).toEqual(scheduledChange);
+    });
+
+    it('should report expired memberships', async () => {
+      vi.setSystemTime(new Date(PERIOD_END.getTime() + DAY));
+
+      expect(await engine.getMembershipStatus('user-1')).toMatchObject({ tier: 'basic', expired: true });
+    });
+
+    it('should throw for unknown users', async () => {
+      await expect(engine.getMembershipStatus('missing')).rejects.toThrow(UserNotFoundError);
+    });
+  });
+});
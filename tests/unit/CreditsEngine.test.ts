@@ -20,6 +20,9 @@ class MockStorageAdapter implements IStorageAdapter {
   async updateUserCredits(userId: string, amount: number, txn?: any): Promise<any> {
     throw new Error('Not implemented');
   }
+  async debitUserCredits(userId: string, amount: number, minBalance: number, txn?: any): Promise<any> {
+    throw new Error('Not implemented');
+  }
   async createTransaction(transaction: any, txn?: any): Promise<any> {
     throw new Error('Not implemented');
   }
@@ -635,6 +638,22 @@ describe('CreditsEngine Constructor', () => {
         new CreditsEngine({ storage, config: invalidConfig });
       }).toThrow('Idempotency ttl must be non-negative');
     });
+
+    it('should throw ConfigurationError when idempotency lock timeouts are invalid', () => {
+      expect(() => {
+        new CreditsEngine({
+          storage,
+          config: { ...validConfig, idempotency: { ...validConfig.idempotency, lockTimeout: 0 } }
+        });
+      }).toThrow('Idempotency lockTimeout must be positive');
+
+      expect(() => {
+        new CreditsEngine({
+          storage,
+          config: { ...validConfig, idempotency: { ...validConfig.idempotency, waitTimeout: -1 } }
+        });
+      }).toThrow('Idempotency waitTimeout must be non-negative');
+    });
   });
 
   describe('Configuration Validation - Audit', () => {
@@ -793,7 +812,7 @@ describe('CreditsEngine charge method', () => {
 
       // Mock storage methods
       storage.getUserById = async () => user;
-      storage.updateUserCredits = async () => ({ ...user, credits: 90 });
+      storage.debitUserCredits = async () => ({ ...user, credits: 90 });
       storage.createTransaction = async () => transaction;
       storage.createAuditLog = async () => auditLog;
 
@@ -845,7 +864,7 @@ describe('CreditsEngine charge method', () => {
       };
 
       storage.getUserById = async () => user;
-      storage.updateUserCredits = async () => ({ ...user, credits: 92 });
+      storage.debitUserCredits = async () => ({ ...user, credits: 92 });
       storage.createTransaction = async () => transaction;
       storage.createAuditLog = async () => auditLog;
 
@@ -874,7 +893,7 @@ describe('CreditsEngine charge method', () => {
       let capturedAuditMetadata: any;
 
       storage.getUserById = async () => user;
-      storage.updateUserCredits = async () => ({ ...user, credits: 90 });
+      storage.debitUserCredits = async () => ({ ...user, credits: 90 });
       storage.createTransaction = async (input) => {
         capturedTransactionMetadata = input.metadata;
         return {
@@ -966,7 +985,7 @@ describe('CreditsEngine charge method', () => {
       let savedIdempotencyRecord: any;
 
       storage.getUserById = async () => user;
-      storage.updateUserCredits = async () => ({ ...user, credits: 90 });
+      storage.debitUserCredits = async () => ({ ...user, credits: 90 });
       storage.createTransaction = async () => ({
         id: 'txn-123',
         userId: 'user-123',
@@ -1003,7 +1022,7 @@ describe('CreditsEngine charge method', () => {
 
       // Verify idempotency record was saved
       expect(savedIdempotencyRecord).toBeDefined();
-      expect(savedIdempotencyRecord.key).toBe('idempotency-key-123');
+      expect(savedIdempotencyRecord.key).toBe('charge:idempotency-key-123');
       expect(savedIdempotencyRecord.result).toMatchObject({
         success: true,
         transactionId: 'txn-123',
@@ -1209,8 +1228,8 @@ describe('CreditsEngine charge method', () => {
         if (txn === mockTxn) txnCalls.push('getUserById');
         return user;
       };
-      storage.updateUserCredits = async (userId, amount, txn) => {
-        if (txn === mockTxn) txnCalls.push('updateUserCredits');
+      storage.debitUserCredits = async (userId, amount, minBalance, txn) => {
+        if (txn === mockTxn) txnCalls.push('debitUserCredits');
         return { ...user, credits: 90 };
       };
       storage.createTransaction = async (input, txn) => {
@@ -1259,7 +1278,7 @@ describe('CreditsEngine charge method', () => {
 
       // Verify all operations received the transaction context
       expect(txnCalls).toContain('getUserById');
-      expect(txnCalls).toContain('updateUserCredits');
+      expect(txnCalls).toContain('debitUserCredits');
       expect(txnCalls).toContain('createTransaction');
       expect(txnCalls).toContain('createAuditLog');
       expect(txnCalls).toContain('getIdempotencyRecord');
@@ -1292,7 +1311,7 @@ describe('CreditsEngine charge method', () => {
       let auditLogCalled = false;
 
       storage.getUserById = async () => user;
-      storage.updateUserCredits = async () => ({ ...user, credits: 90 });
+      storage.debitUserCredits = async () => ({ ...user, credits: 90 });
       storage.createTransaction = async () => ({
         id: 'txn-123',
         userId: 'user-123',
@@ -1329,7 +1348,7 @@ describe('CreditsEngine charge method', () => {
       };
 
       storage.getUserById = async () => user;
-      storage.updateUserCredits = async () => ({ ...user, credits: 90 });
+      storage.debitUserCredits = async () => ({ ...user, credits: 90 });
       storage.createTransaction = async () => ({
         id: 'txn-123',
         userId: 'user-123',
@@ -1684,7 +1703,7 @@ describe('CreditsEngine refund method', () => {
 
       // Verify idempotency record was saved
       expect(savedIdempotencyRecord).toBeDefined();
-      expect(savedIdempotencyRecord.key).toBe('refund-idempotency-key-123');
+      expect(savedIdempotencyRecord.key).toBe('refund:refund-idempotency-key-123');
       expect(savedIdempotencyRecord.result).toMatchObject({
         success: true,
         transactionId: 'txn-refund-123',
@@ -3214,8 +3233,8 @@ describe('CreditsEngine queryBalance method', () => {
       let currentBalance = 100;
 
       storage.getUserById = async () => ({ ...user, credits: currentBalance });
-      storage.updateUserCredits = async (userId, amount) => {
-        currentBalance += amount;
+      storage.debitUserCredits = async (userId, amount) => {
+        currentBalance -= amount;
         return { ...user, credits: currentBalance };
       };
       storage.createTransaction = async () => ({
@@ -0,0 +1,197 @@
+/**
+ * CreditsEngine 转账单元测试
+ *
+ * 测试用户间转账的原子性、交易记录关联、余额规则和幂等性
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CreditsEngine } from '../../src/core/CreditsEngine';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
+import {
+  InsufficientCreditsError,
+  UserNotFoundError,
+  ConfigurationError
+} from '../../src/core/errors';
+import type { CreditsConfig } from '../../src/core/types';
+
+describe('CreditsEngine transfer', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+  let config: CreditsConfig;
+
+  beforeEach(async () => {
+    config = {
+      costs: {
+        'generate-post': { default: 10 }
+      },
+      membership: {
+        tiers: { free: 0 },
+        requirements: { 'generate-post': null },
+        creditsCaps: { free: 1000 }
+      },
+      retry: {
+        enabled: false,
+        maxAttempts: 1,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: true, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+
+    await adapter.createUser({ id: 'admin', credits: 100 });
+    await adapter.createUser({ id: 'member', credits: 5 });
+  });
+
+  it('should move credits between users', async () => {
+    const result = await engine.transfer({ fromUserId: 'admin', toUserId: 'member', amount: 40 });
+
+    expect(result.amount).toBe(40);
+    expect(result.fromBalanceAfter).toBe(60);
+    expect(result.toBalanceAfter).toBe(45);
+    expect(await engine.queryBalance('admin')).toBe(60);
+    expect(await engine.queryBalance('member')).toBe(45);
+  });
+
+  it('should write two transactions linked by the transfer id', async () => {
+    const result = await engine.transfer({
+      fromUserId: 'admin',
+      toUserId: 'member',
+      amount: 40,
+      metadata: { reason: 'monthly allowance' }
+    });
+
+    const [outgoing, incoming] = adapter.getAllTransactions();
+    expect(outgoing!.id).toBe(result.fromTransactionId);
+    expect(outgoing!.action).toBe('transfer-out');
+    expect(outgoing!.amount).toBe(-40);
+    expect(outgoing!.balanceBefore).toBe(100);
+    expect(outgoing!.metadata).toMatchObject({
+      transferId: result.transferId,
+      toUserId: 'member',
+      reason: 'monthly allowance'
+    });
+
+    expect(incoming!.id).toBe(result.toTransactionId);
+    expect(incoming!.action).toBe('transfer-in');
+    expect(incoming!.amount).toBe(40);
+    expect(incoming!.balanceBefore).toBe(5);
+    expect(incoming!.metadata).toMatchObject({ transferId: result.transferId, fromUserId: 'admin' });
+  });
+
+  it('should write a single audit entry', async () => {
+    const result = await engine.transfer({ fromUserId: 'admin', toUserId: 'member', amount: 40 });
+
+    const logs = adapter.getAuditLogs();
+    expect(logs).toHaveLength(1);
+    expect(logs[0]!.action).toBe('transfer');
+    expect(logs[0]!.userId).toBe('admin');
+    expect(logs[0]!.metadata.transferId).toBe(result.transferId);
+  });
+
+  it('should apply the same balance rules as charge', async () => {
+    await engine.reserve({ userId: 'admin', action: 'generate-post', amount: 70 });
+
+    await expect(
+      engine.transfer({ fromUserId: 'admin', toUserId: 'member', amount: 40 })
+    ).rejects.toMatchObject({ name: 'InsufficientCreditsError', available: 30 });
+
+    expect(await engine.queryBalance('member')).toBe(5);
+    expect(adapter.getAllTransactions().filter(t => t.action.startsWith('transfer'))).toHaveLength(0);
+  });
+
+  it('should roll back the debit when crediting the recipient fails', async () => {
+    const createTransaction = adapter.createTransaction.bind(adapter);
+    vi.spyOn(adapter, 'createTransaction').mockImplementation(async (input, txn) => {
+      if (input.action === 'transfer-in') {
+        throw new Error('Database connection lost');
+      }
+      return createTransaction(input, txn);
+    });
+
+    await expect(
+      engine.transfer({ fromUserId: 'admin', toUserId: 'member', amount: 40 })
+    ).rejects.toThrow('Database connection lost');
+
+    expect(await engine.queryBalance('admin')).toBe(100);
+    expect(await engine.queryBalance('member')).toBe(5);
+    expect(adapter.getAllTransactions()).toHaveLength(0);
+
+    const logs = adapter.getAuditLogs();
+    expect(logs).toHaveLength(1);
+    expect(logs[0]!.status).toBe('failed');
+  });
+
+  it('should return the cached result for a repeated idempotency key', async () => {
+    const first = await engine.transfer({
+      fromUserId: 'admin',
+      toUserId: 'member',
+      amount: 40,
+      idempotencyKey: 'transfer-1'
+    });
+    const second = await engine.transfer({
+      fromUserId: 'admin',
+      toUserId: 'member',
+      amount: 40,
+      idempotencyKey: 'transfer-1'
+    });
+
+    expect(second).toEqual(first);
+    expect(await engine.queryBalance('admin')).toBe(60);
+  });
+
+  it('should transfer between wallets of the same name', async () => {
+    await adapter.updateWalletBalance('admin', 'image', 50);
+
+    const result = await engine.transfer({
+      fromUserId: 'admin',
+      toUserId: 'member',
+      amount: 20,
+      wallet: 'image'
+    });
+
+    expect(result.fromBalanceAfter).toBe(30);
+    expect(await engine.queryBalance('member', undefined, { wallet: 'image' })).toBe(20);
+    expect(await engine.queryBalance('admin')).toBe(100);
+  });
+
+  it('should reject invalid transfers', async () => {
+    await expect(
+      engine.transfer({ fromUserId: 'admin', toUserId: 'member', amount: 0 })
+    ).rejects.toThrow(ConfigurationError);
+
+    await expect(
+      engine.transfer({ fromUserId: 'admin', toUserId: 'admin', amount: 10 })
+    ).rejects.toThrow(ConfigurationError);
+
+    await expect(
+      engine.transfer({ fromUserId: 'admin', toUserId: 'nobody', amount: 10 })
+    ).rejects.toThrow(UserNotFoundError);
+
+    await expect(
+      engine.transfer({ fromUserId: 'member', toUserId: 'admin', amount: 10 })
+    ).rejects.toThrow(InsufficientCreditsError);
+
+    expect(await engine.queryBalance('admin')).toBe(100);
+  });
+
+  it('should require a transaction when the adapter cannot open one', async () => {
+    (adapter as any).runInTransaction = undefined;
+
+    await expect(
+      engine.transfer({ fromUserId: 'admin', toUserId: 'member', amount: 10 })
+    ).rejects.toThrow(/runInTransaction/);
+
+    const result = await engine.transfer({
+      fromUserId: 'admin',
+      toUserId: 'member',
+      amount: 10,
+      txn: { external: true }
+    });
+    expect(result.fromBalanceAfter).toBe(90);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * CreditsEngine 试用和宽限期单元测试
+ *
+ * 测试开始试用、试用结束后恢复原等级、宽限期内保留权限、状态在结果中的体现，以及配置校验
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CreditsEngine } from '../../src/core/CreditsEngine';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
+import {
+  ConfigurationError,
+  InvalidTierChangeError,
+  MembershipRequiredError
+} from '../../src/core/errors';
+import type { CreditsConfig } from '../../src/core/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = new Date('2025-01-01T00:00:00Z');
+const TRIAL_END = new Date(START.getTime() + 7 * DAY);
+
+describe('CreditsEngine trials and grace periods', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+  let config: CreditsConfig;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+
+    config = {
+      costs: {
+        'generate-post': { default: 10 },
+        'generate-image': { default: 50 }
+      },
+      membership: {
+        tiers: { free: 0, basic: 1, premium: 2 },
+        requirements: { 'generate-post': null, 'generate-image': 'premium' },
+        creditsCaps: { free: 100, basic: 500, premium: 2000 },
+        fallbackTier: 'free',
+        trialDays: { premium: 7 },
+        gracePeriodDays: 3
+      },
+      retry: {
+        enabled: false,
+        maxAttempts: 1,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: true, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+
+    await adapter.createUser({ id: 'user-1', credits: 300, membershipTier: 'basic', membershipExpiresAt: null });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('startTrial', () => {
+    it('should upgrade to the trial tier until the trial ends', async () => {
+      const result = await engine.startTrial({ userId: 'user-1', tier: 'premium' });
+
+      expect(result).toMatchObject({
+        oldTier: 'basic',
+        newTier: 'premium',
+        oldCredits: 300,
+        newCredits: 2000,
+        creditsDelta: 1700,
+        trialEndsAt: TRIAL_END,
+        revertTier: 'basic'
+      });
+      expect(await adapter.getUserById('user-1')).toMatchObject({
+        membershipTier: 'premium',
+        membershipExpiresAt: TRIAL_END,
+        trialEndsAt: TRIAL_END
+      });
+
+      const [transaction] = adapter.getAllTransactions();
+      expect(transaction).toMatchObject({ id: result.transactionId, action: 'trial-started', amount: 1700 });
+      expect(adapter.getAuditLogs().find(log => log.action === 'startTrial')).toBeDefined();
+    });
+
+    it('should report the trial in the membership status', async () => {
+      await engine.startTrial({ userId: 'user-1', tier: 'premium' });
+
+      expect(await engine.getMembershipStatus('user-1')).toMatchObject({
+        state: 'trial',
+        trialEndsAt: TRIAL_END,
+        pendingChange: { targetTier: 'basic', effectiveAt: TRIAL_END }
+      });
+    });
+
+    it('should revert to the previous tier when the trial ends', async () => {
+      await engine.startTrial({ userId: 'user-1', tier: 'premium' });
+      vi.setSystemTime(new Date(TRIAL_END.getTime() + DAY));
+
+      const result = await engine.applyDueTierChanges();
+
+      expect(result.downgraded).toBe(1);
+      expect(await adapter.getUserById('user-1')).toMatchObject({
+        membershipTier: 'basic',
+        credits: 500,
+        membershipExpiresAt: null,
+        trialEndsAt: null
+      });
+    });
+
+    it('should not give expired trials a grace period', async () => {
+      await adapter.createUser({ id: 'user-2', credits: 0 });
+      await engine.startTrial({ userId: 'user-2', tier: 'premium' });
+      vi.setSystemTime(new Date(TRIAL_END.getTime() + DAY));
+
+      await expect(engine.validateAccess('user-2', 'generate-image')).rejects.toThrow(MembershipRequiredError);
+      expect((await engine.getMembershipStatus('user-2')).state).toBe('expired');
+
+      // 到期处理只在宽限天数之后处理到期的会员
+      vi.setSystemTime(new Date(TRIAL_END.getTime() + 4 * DAY));
+      const result = await engine.processExpiredMemberships();
+      expect(result.downgraded).toBe(1);
+      expect(await adapter.getUserById('user-2')).toMatchObject({ membershipTier: 'free', trialEndsAt: null });
+    });
+
+    it('should end the trial when the member renews', async () => {
+      await engine.startTrial({ userId: 'user-1', tier: 'premium' });
+      const periodEnd = new Date(START.getTime() + 30 * DAY);
+
+      await engine.renewMembership({ userId: 'user-1', periodEnd });
+
+      expect(await adapter.getUserById('user-1')).toMatchObject({
+        membershipTier: 'premium',
+        membershipExpiresAt: periodEnd,
+        trialEndsAt: null
+      });
+      expect(await adapter.getScheduledTierChange('user-1')).toBeNull();
+      expect((await engine.getMembershipStatus('user-1')).state).toBe('active');
+    });
+
+    it('should keep a charge committed after the user was read', async () => {
+      const getUserById = adapter.getUserById.bind(adapter);
+      vi.spyOn(adapter, 'getUserById').mockImplementationOnce(async (userId, txn) => {
+        const user = await getUserById(userId, txn);
+        await adapter.updateUserCredits(userId, -10);
+        return user;
+      });
+
+      const result = await engine.startTrial({ userId: 'user-1', tier: 'premium' });
+
+      expect(result).toMatchObject({ oldCredits: 290, newCredits: 1990, creditsDelta: 1700 });
+      expect(await engine.queryBalance('user-1')).toBe(1990);
+    });
+
+    it('should allow only one trial per user', async () => {
+      await engine.startTrial({ userId: 'user-1', tier: 'premium' });
+      await engine.downgradeTier({ userId: 'user-1', targetTier: 'basic', clearExpiration: true });
+
+      await expect(engine.startTrial({ userId: 'user-1', tier: 'premium' })).rejects.toThrow(/already used a trial/);
+    });
+
+    it('should reject members with an active paid period', async () => {
+      await adapter.updateUserMembership('user-1', 'basic', 300, new Date(START.getTime() + 10 * DAY));
+
+      await expect(engine.startTrial({ userId: 'user-1', tier: 'premium' })).rejects.toThrow(InvalidTierChangeError);
+      expect(adapter.getAllTransactions()).toHaveLength(0);
+    });
+
+    it('should reject tiers without a configured trial', async () => {
+      await adapter.createUser({ id: 'user-2', credits: 0 });
+
+      await expect(engine.startTrial({ userId: 'user-2', tier: 'basic' })).rejects.toThrow(ConfigurationError);
+    });
+
+    it('should return the same result for a repeated idempotency key', async () => {
+      const params = { userId: 'user-1', tier: 'premium', idempotencyKey: 'trial-1' };
+
+      const first = await engine.startTrial(params);
+      const second = await engine.startTrial(params);
+
+      expect(second).toEqual(first);
+      expect(adapter.getAllTransactions()).toHaveLength(1);
+    });
+  });
+
+  describe('grace period', () => {
+    const expiresAt = new Date(START.getTime() - DAY);
+
+    beforeEach(async () => {
+      await adapter.createUser({ id: 'lapsed', credits: 1000, membershipTier: 'premium', membershipExpiresAt: expiresAt });
+    });
+
+    it('should keep access during the grace period', async () => {
+      expect(await engine.validateAccess('lapsed', 'generate-image')).toBe(true);
+
+      const details = await engine.validateAccess('lapsed', 'generate-image', undefined, { details: true });
+      expect(details).toMatchObject({
+        valid: true,
+        currentTier: 'premium',
+        isExpired: true,
+        state: 'grace',
+        graceEndsAt: new Date(expiresAt.getTime() + 3 * DAY)
+      });
+    });
+
+    it('should tell which state applied to a charge', async () => {
+      const graceCharge = await engine.charge({ userId: 'lapsed', action: 'generate-image' });
+      expect(graceCharge.membershipState).toBe('grace');
+
+      const activeCharge = await engine.charge({ userId: 'user-1', action: 'generate-post' });
+      expect(activeCharge).not.toHaveProperty('membershipState');
+    });
+
+    it('should deny access after the grace period', async () => {
+      vi.setSystemTime(new Date(expiresAt.getTime() + 4 * DAY));
+
+      await expect(engine.validateAccess('lapsed', 'generate-image')).rejects.toThrow(MembershipRequiredError);
+      await expect(engine.charge({ userId: 'lapsed', action: 'generate-image' })).rejects.toThrow(
+        MembershipRequiredError
+      );
+    });
+
+    it('should not downgrade members during the grace period', async () => {
+      expect(await engine.processExpiredMemberships()).toMatchObject({ downgraded: 0, cleared: 0 });
+      expect(await adapter.getUserById('lapsed')).toMatchObject({ membershipTier: 'premium' });
+
+      vi.setSystemTime(new Date(expiresAt.getTime() + 4 * DAY));
+
+      expect(await engine.processExpiredMemberships()).toMatchObject({ downgraded: 1 });
+      expect(await adapter.getUserById('lapsed')).toMatchObject({ membershipTier: 'free' });
+    });
+
+    it('should return the details for actions without a requirement', async () => {
+      const details = await engine.validateAccess('user-1', 'generate-post', undefined, { details: true });
+
+      expect(details).toMatchObject({ valid: true, requiredTier: null, state: 'active' });
+    });
+  });
+
+  describe('configuration', () => {
+    it('should reject invalid trial and grace settings', () => {
+      config.membership.trialDays = { platinum: 7 };
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(/platinum/);
+
+      config.membership.trialDays = { premium: 0 };
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(ConfigurationError);
+
+      config.membership.trialDays = { premium: 7 };
+      config.membership.gracePeriodDays = -1;
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(/gracePeriodDays/);
+    });
+  });
+});
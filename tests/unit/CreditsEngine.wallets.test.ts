@@ -0,0 +1,190 @@
+/**
+ * CreditsEngine 多钱包单元测试
+ *
+ * 测试按钱包扣费、发放、退款和余额查询，以及默认钱包的向后兼容
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CreditsEngine } from '../../src/core/CreditsEngine';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
+import { InsufficientCreditsError, ConfigurationError } from '../../src/core/errors';
+import type { CreditsConfig } from '../../src/core/types';
+
+describe('CreditsEngine wallets', () => {
+  let adapter: MockAdapter;
+  let engine: CreditsEngine;
+  let config: CreditsConfig;
+
+  beforeEach(async () => {
+    config = {
+      costs: {
+        'generate-post': { default: 10 },
+        'generate-image': { default: '{count} * 5', wallet: 'image' }
+      },
+      membership: {
+        tiers: { free: 0 },
+        requirements: { 'generate-post': null, 'generate-image': null },
+        creditsCaps: { free: 1000 }
+      },
+      retry: {
+        enabled: false,
+        maxAttempts: 1,
+        initialDelay: 0,
+        maxDelay: 0,
+        backoffMultiplier: 1
+      },
+      idempotency: { enabled: false, ttl: 86400 },
+      audit: { enabled: true }
+    };
+
+    adapter = new MockAdapter();
+    engine = new CreditsEngine({ storage: adapter, config });
+
+    await adapter.createUser({ id: 'user-1', credits: 100 });
+    await adapter.updateWalletBalance('user-1', 'image', 30);
+  });
+
+  describe('charge', () => {
+    it('should draw from the wallet declared in the cost config', async () => {
+      const result = await engine.charge({
+        userId: 'user-1',
+        action: 'generate-image',
+        variables: { count: 2 }
+      });
+
+      expect(result.balanceBefore).toBe(30);
+      expect(result.balanceAfter).toBe(20);
+      expect(await engine.queryBalance('user-1')).toBe(100);
+      expect(await engine.queryBalance('user-1', undefined, { wallet: 'image' })).toBe(20);
+
+      const transaction = adapter.getAllTransactions()[0]!;
+      expect(transaction.wallet).toBe('image');
+      expect(transaction.amount).toBe(-10);
+    });
+
+    it('should let the caller override the wallet', async () => {
+      await adapter.updateWalletBalance('user-1', 'bonus', 15);
+
+      const result = await engine.charge({
+        userId: 'user-1',
+        action: 'generate-post',
+        wallet: 'bonus'
+      });
+
+      expect(result.balanceAfter).toBe(5);
+      expect(await engine.queryBalance('user-1')).toBe(100);
+    });
+
+    it('should check the balance of the wallet being charged', async () => {
+      await expect(
+        engine.charge({ userId: 'user-1', action: 'generate-image', variables: { count: 7 } })
+      ).rejects.toThrow(InsufficientCreditsError);
+
+      await expect(
+        engine.charge({ userId: 'user-1', action: 'generate-post', wallet: 'text' })
+      ).rejects.toMatchObject({ available: 0 });
+    });
+
+    it('should not touch default-wallet holds when charging another wallet', async () => {
+      await engine.reserve({ userId: 'user-1', action: 'generate-post', amount: 100 });
+
+      const result = await engine.charge({
+        userId: 'user-1',
+        action: 'generate-image',
+        variables: { count: 6 }
+      });
+
+      expect(result.balanceAfter).toBe(0);
+    });
+
+    it('should leave single-wallet transactions unchanged', async () => {
+      await engine.charge({ userId: 'user-1', action: 'generate-post' });
+
+      const transaction = adapter.getAllTransactions()[0]!;
+      expect(transaction).not.toHaveProperty('wallet');
+      expect(transaction.balanceAfter).toBe(90);
+    });
+  });
+
+  describe('grant and refund', () => {
+    it('should grant into a new wallet', async () => {
+      const result = await engine.grant({
+        userId: 'user-1',
+        amount: 50,
+        action: 'promotion',
+        wallet: 'text'
+      });
+
+      expect(result.balanceAfter).toBe(50);
+      expect(await engine.queryBalance('user-1', undefined, { wallet: 'text' })).toBe(50);
+      expect(await engine.queryBalance('user-1')).toBe(100);
+      expect(adapter.getAllTransactions()[0]!.wallet).toBe('text');
+    });
+
+    it('should refund into the given wallet', async () => {
+      const result = await engine.refund({
+        userId: 'user-1',
+        amount: 10,
+        action: 'refund-image',
+        wallet: 'image'
+      });
+
+      expect(result.balanceAfter).toBe(40);
+      expect(await engine.queryBalance('user-1')).toBe(100);
+    });
+
+    it('should only allow expiring grants in the default wallet', async () => {
+      await expect(
+        engine.grant({
+          userId: 'user-1',
+          amount: 50,
+          action: 'promotion',
+          wallet: 'bonus',
+          expiresAt: new Date(Date.now() + 60000)
+        })
+      ).rejects.toThrow(ConfigurationError);
+    });
+  });
+
+  describe('queryBalance', () => {
+    it('should report every wallet in the breakdown', async () => {
+      await engine.grant({ userId: 'user-1', amount: 5, action: 'promotion', wallet: 'bonus' });
+
+      const breakdown = await engine.queryBalance('user-1', undefined, { breakdown: true });
+
+      expect(breakdown.wallets).toEqual({ default: 100, image: 30, bonus: 5 });
+      expect(breakdown.total).toBe(100);
+    });
+
+    it('should return the default balance for the default wallet name', async () => {
+      expect(await engine.queryBalance('user-1', undefined, { wallet: 'default' })).toBe(100);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should reject an empty wallet name in the cost config', () => {
+      config.costs['generate-post'] = { default: 10, wallet: '' };
+
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(ConfigurationError);
+    });
+
+    it('should reject a membership tier named like the wallet key', () => {
+      config.membership.tiers = { free: 0, wallet: 1 };
+      config.membership.creditsCaps = { free: 1000, wallet: 1000 };
+
+      expect(() => new CreditsEngine({ storage: adapter, config })).toThrow(/wallet/);
+    });
+
+    it('should require wallet support from the storage adapter', async () => {
+      (adapter as any).debitWalletBalance = undefined;
+      (adapter as any).getWalletBalance = undefined;
+
+      await expect(
+        engine.charge({ userId: 'user-1', action: 'generate-image', variables: { count: 1 } })
+      ).rejects.toThrow(/getWalletBalance/);
+
+      await engine.charge({ userId: 'user-1', action: 'generate-post' });
+      expect(await engine.queryBalance('user-1')).toBe(90);
+    });
+  });
+});
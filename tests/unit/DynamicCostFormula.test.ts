@@ -56,6 +56,28 @@ describe('DynamicCostFormula', () => {
       expect(() => new DynamicCostFormula(config)).toThrow();
     });
 
+    it('should accept formulas that call built-in functions', () => {
+      const config: DynamicCostConfig = {
+        'test-action': {
+          default: 'clamp(ceil({token} / 1000), 1, 500)',
+          premium: 'max(1, {token} * 0.0008)'
+        }
+      };
+
+      const formula = new DynamicCostFormula(config);
+      expect(formula.calculate('test-action', null, { token: 3500 })).toBe(4);
+    });
+
+    it('should reject unknown functions and wrong arity during construction', () => {
+      expect(() => new DynamicCostFormula({
+        'test-action': { default: 'pow({token}, 2)' }
+      })).toThrow(ConfigurationError);
+
+      expect(() => new DynamicCostFormula({
+        'test-action': { default: 10, premium: 'clamp({token}, 1)' }
+      })).toThrow(/Invalid formula for action 'test-action' \(premium\)/);
+    });
+
     it('should accept mixed config (fixed costs and formulas)', () => {
       const config: DynamicCostConfig = {
         'fixed-action': {
@@ -71,6 +93,18 @@ describe('DynamicCostFormula', () => {
       const formula = new DynamicCostFormula(config);
       expect(formula).toBeInstanceOf(DynamicCostFormula);
     });
+
+    it('should not treat the wallet name as a formula', () => {
+      const config: DynamicCostConfig = {
+        'generate-image': {
+          default: '{count} * 5',
+          wallet: 'image'
+        }
+      };
+
+      const formula = new DynamicCostFormula(config);
+      expect(formula.calculate('generate-image', null, { count: 2 })).toBe(10);
+    });
   });
 
   describe('calculate - 固定成本', () => {
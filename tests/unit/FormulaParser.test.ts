@@ -5,7 +5,12 @@
 
 import { describe, it, expect } from 'vitest';
 import { FormulaParser } from '../../src/features/FormulaParser';
-import { ConfigurationError, MissingVariableError, FormulaEvaluationError } from '../../src/core/errors';
+import {
+  ConfigurationError,
+  MissingVariableError,
+  FormulaEvaluationError,
+  FormulaSyntaxError
+} from '../../src/core/errors';
 
 describe('FormulaParser', () => {
   describe('validate', () => {
@@ -106,6 +111,66 @@ describe('FormulaParser', () => {
     });
   });
 
+  describe('syntax errors', () => {
+    const positionOf = (formula: string): number => {
+      try {
+        new FormulaParser().validate(formula);
+      } catch (error) {
+        expect(error).toBeInstanceOf(FormulaSyntaxError);
+        return (error as FormulaSyntaxError).position;
+      }
+      throw new Error(`Expected '${formula}' to be rejected`);
+    };
+
+    it('should report the position of the offending token', () => {
+      expect(positionOf('{token} * * 0.5')).toBe(10);
+      expect(positionOf('{token} 0.5')).toBe(8);
+      expect(positionOf('{token}) * 0.5')).toBe(7);
+      expect(positionOf('1 +')).toBe(3);
+    });
+
+    it('should report the position of unclosed braces and parentheses', () => {
+      expect(positionOf('{token * 0.5')).toBe(0);
+      expect(positionOf('2 * ({token} * 0.5')).toBe(4);
+      expect(positionOf('{a} > 1 ? 2')).toBe(8);
+    });
+
+    it('should report the position of invalid characters and variable names', () => {
+      expect(positionOf('{token} @ 2')).toBe(8);
+      expect(positionOf('1 + {token-count}')).toBe(5);
+      expect(positionOf('{{token} * 0.5')).toBe(1);
+    });
+
+    it('should include the position in the error message', () => {
+      expect(() => new FormulaParser().validate('{token} * * 0.5')).toThrow(
+        "Invalid formula '{token} * * 0.5' at position 10: unexpected '*'"
+      );
+    });
+
+    it('should reject operators outside the supported grammar', () => {
+      const parser = new FormulaParser();
+
+      expect(() => parser.validate('{a} && {b}')).toThrow(FormulaSyntaxError);
+      expect(() => parser.validate('{a} % 2')).toThrow(FormulaSyntaxError);
+      expect(() => parser.validate('{a} === 1')).toThrow(FormulaSyntaxError);
+      expect(() => parser.validate('{a} = 1')).toThrow(FormulaSyntaxError);
+    });
+
+    it('should reject code instead of executing it', () => {
+      const parser = new FormulaParser();
+
+      expect(() => parser.validate('constructor.constructor("return process")()')).toThrow(FormulaSyntaxError);
+      expect(() => parser.validate('process.exit(1)')).toThrow(FormulaSyntaxError);
+      expect(() => parser.validate('{token} * (this)')).toThrow(FormulaSyntaxError);
+    });
+
+    it('should reject deeply nested formulas without overflowing the stack', () => {
+      const formula = '('.repeat(500) + '1' + ')'.repeat(500);
+
+      expect(() => new FormulaParser().validate(formula)).toThrow(FormulaSyntaxError);
+    });
+  });
+
   describe('extractVariables', () => {
     it('should extract single variable', () => {
       const parser = new FormulaParser();
@@ -299,6 +364,132 @@ describe('FormulaParser', () => {
     });
   });
 
+  describe('evaluation semantics', () => {
+    it('should apply operator precedence and associativity', () => {
+      const parser = new FormulaParser();
+
+      expect(parser.evaluate('2 + 3 * 4', {})).toBe(14);
+      expect(parser.evaluate('10 - 4 - 3', {})).toBe(3);
+      expect(parser.evaluate('100 / 10 / 2', {})).toBe(5);
+    });
+
+    it('should support unary minus on variables and groups', () => {
+      const parser = new FormulaParser();
+
+      expect(parser.evaluate('-{x} + 10', { x: 3 })).toBe(7);
+      expect(parser.evaluate('5 - -{x}', { x: 3 })).toBe(8);
+      expect(parser.evaluate('-(2 + 3)', {})).toBe(-5);
+    });
+
+    it('should support equality comparisons and nested ternaries', () => {
+      const parser = new FormulaParser();
+      const formula = '{tier} == 1 ? 5 : {tier} != 2 ? 20 : 10';
+
+      expect(parser.evaluate(formula, { tier: 1 })).toBe(5);
+      expect(parser.evaluate(formula, { tier: 2 })).toBe(10);
+      expect(parser.evaluate(formula, { tier: 3 })).toBe(20);
+    });
+
+    it('should only evaluate the selected ternary branch', () => {
+      const parser = new FormulaParser();
+
+      expect(parser.evaluate('{count} > 0 ? {amount} / {count} : 0', { amount: 10, count: 0 })).toBe(0);
+    });
+
+    it('should support scientific notation constants', () => {
+      const parser = new FormulaParser();
+
+      expect(parser.evaluate('{token} * 1e-3', { token: 2000 })).toBe(2);
+    });
+
+    it('should throw FormulaEvaluationError when the result is not a number', () => {
+      const parser = new FormulaParser();
+
+      expect(() => parser.evaluate('{token} > 10', { token: 5 })).toThrow(FormulaEvaluationError);
+    });
+
+    it('should expose the syntax tree of a parsed formula', () => {
+      const parsed = new FormulaParser().parse('{token} * 2');
+
+      expect(parsed.ast).toEqual({
+        type: 'binary',
+        operator: '*',
+        position: 8,
+        left: { type: 'variable', name: 'token', position: 0 },
+        right: { type: 'number', value: 2, position: 10 }
+      });
+    });
+  });
+
+  describe('built-in functions', () => {
+    it('should evaluate min, max and abs', () => {
+      const parser = new FormulaParser();
+
+      expect(parser.evaluate('max(1, {token} * 0.001)', { token: 200 })).toBe(1);
+      expect(parser.evaluate('min(500, {token} * 0.001)', { token: 900000 })).toBe(500);
+      expect(parser.evaluate('max({a}, {b}, {c})', { a: 3, b: 9, c: 4 })).toBe(9);
+      expect(parser.evaluate('abs({delta})', { delta: -12 })).toBe(12);
+    });
+
+    it('should evaluate rounding functions', () => {
+      const parser = new FormulaParser();
+
+      expect(parser.evaluate('ceil({token} / 1000)', { token: 3500 })).toBe(4);
+      expect(parser.evaluate('floor({token} / 1000)', { token: 3500 })).toBe(3);
+      expect(parser.evaluate('round({x})', { x: 2.5 })).toBe(3);
+      expect(parser.evaluate('round({x}, 2)', { x: 1.23456 })).toBe(1.23);
+    });
+
+    it('should evaluate clamp', () => {
+      const parser = new FormulaParser();
+      const formula = 'clamp(ceil({token} / 1000), 1, 500)';
+
+      expect(parser.evaluate(formula, { token: 0 })).toBe(1);
+      expect(parser.evaluate(formula, { token: 3500 })).toBe(4);
+      expect(parser.evaluate(formula, { token: 10000000 })).toBe(500);
+    });
+
+    it('should allow functions in nested expressions and ternaries', () => {
+      const parser = new FormulaParser();
+
+      expect(parser.evaluate('{rows} > 100 ? max(10, {rows} * 0.05) : 5', { rows: 400 })).toBe(20);
+      expect(parser.evaluate('-min(2, 3) + max(min(1, 2), 0)', {})).toBe(-1);
+    });
+
+    it('should extract variables used as function arguments', () => {
+      const parser = new FormulaParser();
+
+      expect(parser.extractVariables('clamp({x}, {lo}, {hi})')).toEqual(['x', 'lo', 'hi']);
+      expect(parser.parse('max(1, ceil({token} / 1000))').variables).toEqual(['token']);
+    });
+
+    it('should reject unknown functions', () => {
+      const parser = new FormulaParser();
+
+      expect(() => parser.validate('pow({x}, 2)')).toThrow(FormulaSyntaxError);
+      expect(() => parser.validate('constructor(1)')).toThrow(FormulaSyntaxError);
+      expect(() => parser.validate('1 + sqrt(4)')).toThrow(/at position 4: unknown function 'sqrt'/);
+    });
+
+    it('should reject calls with the wrong number of arguments', () => {
+      const parser = new FormulaParser();
+
+      expect(() => parser.validate('ceil({x}, 2)')).toThrow(/function 'ceil' expects 1 argument/);
+      expect(() => parser.validate('clamp({x}, 1)')).toThrow(/function 'clamp' expects 3 argument/);
+      expect(() => parser.validate('round({x}, 1, 2)')).toThrow(/expects 1 to 2 argument/);
+      expect(() => parser.validate('max()')).toThrow(/expects at least 1 argument/);
+    });
+
+    it('should reject malformed argument lists', () => {
+      const parser = new FormulaParser();
+
+      expect(() => parser.validate('max(1,)')).toThrow(FormulaSyntaxError);
+      expect(() => parser.validate('max(1 2)')).toThrow(FormulaSyntaxError);
+      expect(() => parser.validate('max(1, 2')).toThrow(FormulaSyntaxError);
+      expect(() => parser.validate('1, 2')).toThrow(FormulaSyntaxError);
+    });
+  });
+
   describe('compute function from parse', () => {
     it('should compute correctly using parsed formula', () => {
       const parser = new FormulaParser();
@@ -6,7 +6,12 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { IdempotencyManager } from '../../src/features/IdempotencyManager';
 import { IStorageAdapter } from '../../src/adapters/IStorageAdapter';
+import { MockAdapter } from '../../src/adapters/MockAdapter';
 import { IdempotencyRecord, IdempotencyConfig } from '../../src/core/types';
+import {
+  IdempotencyKeyConflictError,
+  IdempotencyRequestInProgressError
+} from '../../src/core/errors';
 
 // Mock 存储适配器
 class MockStorageAdapter implements Partial<IStorageAdapter> {
@@ -289,6 +294,211 @@ describe('IdempotencyManager', () => {
     });
   });
 
+  describe('请求指纹', () => {
+    const chargeRequest = {
+      operation: 'charge',
+      params: { userId: 'user-1', action: 'generate-post', variables: { count: 2 } }
+    };
+
+    it('应该按操作类型划分幂等键', async () => {
+      const manager = new IdempotencyManager(storage as any, config);
+
+      await manager.save('key-1', { transactionId: 'txn-1' }, undefined, chargeRequest);
+
+      const grantRecord = await manager.check('key-1', undefined, {
+        operation: 'grant',
+        params: chargeRequest.params
+      });
+      const chargeRecord = await manager.check('key-1', undefined, chargeRequest);
+
+      expect(grantRecord).toBeNull();
+      expect(chargeRecord?.key).toBe('charge:key-1');
+      expect(chargeRecord?.result).toEqual({ transactionId: 'txn-1' });
+    });
+
+    it('应该在请求参数不同时抛出冲突错误', async () => {
+      const manager = new IdempotencyManager(storage as any, config);
+      await manager.save('key-1', { transactionId: 'txn-1' }, undefined, chargeRequest);
+
+      const error = await manager.check('key-1', undefined, {
+        operation: 'charge',
+        params: { ...chargeRequest.params, userId: 'user-2' }
+      }).catch(e => e);
+
+      expect(error).toBeInstanceOf(IdempotencyKeyConflictError);
+      expect(error.key).toBe('key-1');
+      expect(error.existingTransaction).toEqual({ transactionId: 'txn-1' });
+    });
+
+    it('应该忽略参数顺序、metadata、txn 和 undefined 参数', async () => {
+      const manager = new IdempotencyManager(storage as any, config);
+      await manager.save('key-1', { transactionId: 'txn-1' }, undefined, chargeRequest);
+
+      const record = await manager.check('key-1', { txn: true }, {
+        operation: 'charge',
+        params: {
+          variables: { count: 2 },
+          action: 'generate-post',
+          userId: 'user-1',
+          wallet: undefined,
+          idempotencyKey: 'key-1',
+          metadata: { requestId: 'req-2' },
+          txn: { txn: true }
+        }
+      });
+
+      expect(record?.result).toEqual({ transactionId: 'txn-1' });
+    });
+
+    it('应该不校验没有指纹的记录', async () => {
+      const manager = new IdempotencyManager(storage as any, config);
+      await storage.createIdempotencyRecord({
+        key: 'charge:key-1',
+        result: { transactionId: 'txn-1' },
+        expiresAt: new Date(Date.now() + 60000)
+      });
+
+      const record = await manager.check('key-1', undefined, chargeRequest);
+
+      expect(record?.result).toEqual({ transactionId: 'txn-1' });
+    });
+
+    it('应该找到划分作用域之前以原始幂等键保存的记录', async () => {
+      await storage.createIdempotencyRecord({
+        key: 'key-1',
+        result: { transactionId: 'txn-legacy' },
+        expiresAt: new Date(Date.now() + 60000)
+      });
+
+      const record = await new IdempotencyManager(storage as any, config).check('key-1', undefined, chargeRequest);
+      const disabled = await new IdempotencyManager(storage as any, { ...config, legacyKeyLookup: false })
+        .check('key-1', undefined, chargeRequest);
+
+      expect(record?.result).toEqual({ transactionId: 'txn-legacy' });
+      expect(disabled).toBeNull();
+    });
+  });
+
+  describe('占用幂等键', () => {
+    const chargeRequest = {
+      operation: 'charge',
+      params: { userId: 'user-1', action: 'generate-post' }
+    };
+    let adapter: MockAdapter;
+
+    beforeEach(() => {
+      adapter = new MockAdapter();
+    });
+
+    it('应该在首次占用时返回 null 并写入 pending 记录', async () => {
+      const manager = new IdempotencyManager(adapter, config);
+
+      expect(await manager.claim('key-1', undefined, chargeRequest)).toBeNull();
+
+      const [record] = adapter.getAllIdempotencyRecords();
+      expect(record).toMatchObject({ key: 'charge:key-1', status: 'pending' });
+    });
+
+    it('应该返回以原始幂等键保存的旧记录而不占用幂等键', async () => {
+      const manager = new IdempotencyManager(adapter, config);
+      await adapter.createIdempotencyRecord({
+        key: 'key-1',
+        result: { transactionId: 'txn-legacy' },
+        expiresAt: new Date(Date.now() + 60000)
+      });
+
+      const record = await manager.claim('key-1', undefined, chargeRequest);
+
+      expect(record?.result).toEqual({ transactionId: 'txn-legacy' });
+      expect(adapter.getAllIdempotencyRecords()).toHaveLength(1);
+    });
+
+    it('应该忽略带指纹的同名记录', async () => {
+      const manager = new IdempotencyManager(adapter, config);
+      await adapter.createIdempotencyRecord({
+        key: 'key-1',
+        result: { transactionId: 'txn-1' },
+        expiresAt: new Date(Date.now() + 60000),
+        fingerprint: 'other'
+      });
+
+      expect(await manager.claim('key-1', undefined, chargeRequest)).toBeNull();
+    });
+
+    it('应该在请求执行中时立即抛出错误', async () => {
+      const manager = new IdempotencyManager(adapter, config);
+      await manager.claim('key-1', undefined, chargeRequest);
+
+      const error = await manager.claim('key-1', undefined, chargeRequest).catch(e => e);
+
+      expect(error).toBeInstanceOf(IdempotencyRequestInProgressError);
+      expect(error.key).toBe('key-1');
+      await expect(manager.check('key-1', undefined, chargeRequest)).rejects.toThrow(
+        IdempotencyRequestInProgressError
+      );
+    });
+
+    it('应该等待执行中的请求完成并返回其结果', async () => {
+      const manager = new IdempotencyManager(adapter, { ...config, waitTimeout: 1000 });
+      await manager.claim('key-1', undefined, chargeRequest);
+
+      const waiting = manager.claim('key-1', undefined, chargeRequest);
+      await manager.save('key-1', { transactionId: 'txn-1' }, undefined, chargeRequest);
+
+      expect((await waiting)?.result).toEqual({ transactionId: 'txn-1' });
+    });
+
+    it('应该在等待超时后抛出错误', async () => {
+      const manager = new IdempotencyManager(adapter, { ...config, waitTimeout: 60 });
+      await manager.claim('key-1', undefined, chargeRequest);
+
+      await expect(manager.claim('key-1', undefined, chargeRequest)).rejects.toThrow(
+        IdempotencyRequestInProgressError
+      );
+    });
+
+    it('应该拒绝参数不同的请求占用执行中的幂等键', async () => {
+      const manager = new IdempotencyManager(adapter, config);
+      await manager.claim('key-1', undefined, chargeRequest);
+
+      await expect(
+        manager.claim('key-1', undefined, {
+          operation: 'charge',
+          params: { userId: 'user-2', action: 'generate-post' }
+        })
+      ).rejects.toThrow(IdempotencyKeyConflictError);
+    });
+
+    it('应该在释放后允许重新占用', async () => {
+      const manager = new IdempotencyManager(adapter, config);
+      await manager.claim('key-1', undefined, chargeRequest);
+
+      await manager.release('key-1', undefined, chargeRequest);
+
+      expect(await manager.claim('key-1', undefined, chargeRequest)).toBeNull();
+    });
+
+    it('应该在占用超过 lockTimeout 后允许接管', async () => {
+      const manager = new IdempotencyManager(adapter, { ...config, lockTimeout: 0.05 });
+      await manager.claim('key-1', undefined, chargeRequest);
+
+      await new Promise(resolve => setTimeout(resolve, 60));
+
+      expect(await manager.claim('key-1', undefined, chargeRequest)).toBeNull();
+    });
+
+    it('应该在存储适配器不支持占用时退化为 check', async () => {
+      const manager = new IdempotencyManager(storage as any, config);
+      await manager.save('key-1', { transactionId: 'txn-1' }, undefined, chargeRequest);
+
+      const record = await manager.claim('key-1', undefined, chargeRequest);
+
+      expect(record?.result).toEqual({ transactionId: 'txn-1' });
+      await manager.release('key-1', undefined, chargeRequest);
+      expect(storage.getRecordCount()).toBe(1);
+    });
+  });
+
   describe('边缘情况', () => {
     it('应该处理空字符串作为幂等键', async () => {
       const manager = new IdempotencyManager(storage as any, config);
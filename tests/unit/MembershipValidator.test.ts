@@ -255,6 +255,110 @@ describe('MembershipValidator', () => {
     });
   });
 
+  describe('getState', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const validator = new MembershipValidator(membershipConfig);
+    const graceValidator = new MembershipValidator({ ...membershipConfig, gracePeriodDays: 3 });
+
+    it('should return none for users without a tier', () => {
+      expect(validator.getState(createUser(null, null))).toEqual({ state: 'none', effectiveTier: null });
+    });
+
+    it('should return active for unexpired and permanent memberships', () => {
+      expect(validator.getState(createUser('basic', null)).state).toBe('active');
+      expect(validator.getState(createUser('basic', new Date(Date.now() + DAY))).state).toBe('active');
+    });
+
+    it('should return trial while the trial has not ended', () => {
+      const trialEndsAt = new Date(Date.now() + DAY);
+      const user = { ...createUser('premium', trialEndsAt), trialEndsAt };
+
+      expect(validator.getState(user)).toEqual({ state: 'trial', effectiveTier: 'premium', trialEndsAt });
+    });
+
+    it('should keep the tier during the grace period', () => {
+      const expiresAt = new Date(Date.now() - DAY);
+      const user = createUser('premium', expiresAt);
+
+      expect(graceValidator.getState(user)).toEqual({
+        state: 'grace',
+        effectiveTier: 'premium',
+        graceEndsAt: new Date(expiresAt.getTime() + 3 * DAY)
+      });
+
+      const result = graceValidator.validate(user, 'premium');
+      expect(result).toMatchObject({ valid: true, currentTier: 'premium', isExpired: true, state: 'grace' });
+    });
+
+    it('should return expired after the grace period or without one', () => {
+      const user = createUser('premium', new Date(Date.now() - 4 * DAY));
+
+      expect(graceValidator.getState(user)).toEqual({ state: 'expired', effectiveTier: null });
+      expect(validator.getState(createUser('premium', new Date(Date.now() - DAY))).state).toBe('expired');
+    });
+
+    it('should not give expired trials a grace period', () => {
+      const trialEndsAt = new Date(Date.now() - DAY);
+      const user = { ...createUser('premium', trialEndsAt), trialEndsAt };
+
+      expect(graceValidator.getState(user).state).toBe('expired');
+      expect(graceValidator.validate(user, 'basic')).toMatchObject({
+        valid: false,
+        reason: 'Membership expired',
+        state: 'expired'
+      });
+    });
+  });
+
+  describe('entitlements', () => {
+    const entitlementValidator = new MembershipValidator({
+      ...membershipConfig,
+      entitlements: {
+        tiers: { basic: ['export'], enterprise: ['sso'] },
+        addOns: { 'api-access': ['api'] }
+      }
+    });
+
+    it('should grant features of lower tiers and add-ons', () => {
+      const user = createUser('premium', null);
+
+      expect(entitlementValidator.getEntitlements(user)).toEqual(['export']);
+      expect(entitlementValidator.getEntitlements(user, ['api-access', 'unknown'])).toEqual(['api', 'export']);
+      expect(new MembershipValidator(membershipConfig).getEntitlements(user, ['api-access'])).toEqual([]);
+    });
+
+    it('should fail validation with the missing entitlements', () => {
+      const result = entitlementValidator.validate(createUser('basic', null), null, {
+        required: ['export', 'api']
+      });
+
+      expect(result).toMatchObject({
+        valid: false,
+        reason: 'Missing entitlement',
+        currentTier: 'basic',
+        requiredEntitlements: ['export', 'api'],
+        missingEntitlements: ['api']
+      });
+    });
+
+    it('should pass validation when add-ons grant the features', () => {
+      const result = entitlementValidator.validate(createUser(null, null), null, {
+        required: ['api'],
+        addOns: ['api-access']
+      });
+
+      expect(result).toMatchObject({ valid: true, requiredEntitlements: ['api'] });
+      expect(result.missingEntitlements).toBeUndefined();
+    });
+
+    it('should report the tier failure before the entitlements', () => {
+      const result = entitlementValidator.validate(createUser('basic', null), 'premium', { required: ['api'] });
+
+      expect(result.reason).toBe('Insufficient membership tier');
+      expect(result.missingEntitlements).toBeUndefined();
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle empty tier hierarchy', () => {
       const emptyConfig: MembershipConfig = {
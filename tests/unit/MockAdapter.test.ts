@@ -6,7 +6,11 @@
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { MockAdapter } from '../../src/adapters/MockAdapter';
-import { UserNotFoundError } from '../../src/core/errors';
+import {
+  UserNotFoundError,
+  OrganizationNotFoundError,
+  TransactionNotFoundError
+} from '../../src/core/errors';
 
 describe('MockAdapter', () => {
   let adapter: MockAdapter;
@@ -108,6 +112,76 @@ describe('MockAdapter', () => {
     });
   });
 
+  describe('debitUserCredits', () => {
+    it('should throw UserNotFoundError for non-existent user', async () => {
+      await expect(
+        adapter.debitUserCredits('non-existent', 10, 0)
+      ).rejects.toThrow(UserNotFoundError);
+    });
+
+    it('should debit credits when the balance stays above the minimum', async () => {
+      await adapter.createUser({ id: 'user-123', credits: 100 });
+
+      const updated = await adapter.debitUserCredits('user-123', 30, 50);
+      expect(updated?.credits).toBe(70);
+    });
+
+    it('should return null and leave the balance unchanged when it would drop below the minimum', async () => {
+      await adapter.createUser({ id: 'user-123', credits: 100 });
+
+      const updated = await adapter.debitUserCredits('user-123', 60, 50);
+      expect(updated).toBeNull();
+
+      const user = await adapter.getUserById('user-123');
+      expect(user?.credits).toBe(100);
+    });
+
+    it('should never let concurrent debits overdraw the balance', async () => {
+      await adapter.createUser({ id: 'user-123', credits: 100 });
+
+      const results = await Promise.all(
+        Array.from({ length: 15 }, () => adapter.debitUserCredits('user-123', 10, 0))
+      );
+
+      expect(results.filter(r => r !== null)).toHaveLength(10);
+      const user = await adapter.getUserById('user-123');
+      expect(user?.credits).toBe(0);
+    });
+
+    it('should allow a negative minimum balance for overdraft', async () => {
+      await adapter.createUser({ id: 'user-123', credits: 10 });
+
+      expect((await adapter.debitUserCredits('user-123', 50, -40))?.credits).toBe(-40);
+      expect(await adapter.debitUserCredits('user-123', 1, -40)).toBeNull();
+    });
+  });
+
+  describe('getOverdrawnUsers', () => {
+    it('should page through users with a negative balance, most overdrawn first', async () => {
+      await adapter.createUser({ id: 'b', credits: -50 });
+      await adapter.createUser({ id: 'a', credits: -50 });
+      await adapter.createUser({ id: 'c', credits: -200 });
+      await adapter.createUser({ id: 'd', credits: 0 });
+
+      expect((await adapter.getOverdrawnUsers(10, 0)).map(u => u.id)).toEqual(['c', 'a', 'b']);
+      expect((await adapter.getOverdrawnUsers(1, 1)).map(u => u.id)).toEqual(['a']);
+    });
+  });
+
+  describe('getUsersWithExpiredMembership', () => {
+    it('should return members whose expiry has passed, earliest first', async () => {
+      const now = new Date('2025-06-01T00:00:00Z');
+      await adapter.createUser({ id: 'late', membershipTier: 'premium', membershipExpiresAt: new Date('2025-05-20') });
+      await adapter.createUser({ id: 'early', membershipTier: 'premium', membershipExpiresAt: new Date('2025-05-01') });
+      await adapter.createUser({ id: 'active', membershipTier: 'premium', membershipExpiresAt: new Date('2025-07-01') });
+      await adapter.createUser({ id: 'forever', membershipTier: 'premium', membershipExpiresAt: null });
+      await adapter.createUser({ id: 'no-tier', membershipTier: null, membershipExpiresAt: new Date('2025-05-01') });
+
+      expect((await adapter.getUsersWithExpiredMembership(now, 10)).map(u => u.id)).toEqual(['early', 'late']);
+      expect((await adapter.getUsersWithExpiredMembership(now, 1)).map(u => u.id)).toEqual(['early']);
+    });
+  });
+
   describe('createTransaction', () => {
     it('should create transaction with generated ID', async () => {
       const transaction = await adapter.createTransaction({
@@ -311,6 +385,77 @@ describe('MockAdapter', () => {
     });
   });
 
+  describe('idempotency claims', () => {
+    const claim = () => ({
+      key: 'charge:idempotency-123',
+      fingerprint: 'abc',
+      expiresAt: new Date(Date.now() + 60000)
+    });
+
+    it('should let only the first concurrent claim succeed', async () => {
+      const results = await Promise.all([
+        adapter.claimIdempotencyRecord(claim()),
+        adapter.claimIdempotencyRecord(claim())
+      ]);
+
+      expect(results[0]).toBeNull();
+      expect(results[1]).toMatchObject({ status: 'pending', fingerprint: 'abc', result: null });
+    });
+
+    it('should take over an expired claim', async () => {
+      await adapter.claimIdempotencyRecord({ ...claim(), expiresAt: new Date(Date.now() - 1000) });
+
+      expect(await adapter.claimIdempotencyRecord(claim())).toBeNull();
+    });
+
+    it('should complete a claim with the result', async () => {
+      await adapter.claimIdempotencyRecord(claim());
+      await adapter.completeIdempotencyRecord({
+        key: 'charge:idempotency-123',
+        result: { success: true },
+        fingerprint: 'abc',
+        expiresAt: new Date(Date.now() + 60000)
+      });
+
+      const existing = await adapter.claimIdempotencyRecord(claim());
+      expect(existing!.result).toEqual({ success: true });
+      expect(existing).not.toHaveProperty('status');
+    });
+
+    it('should release only pending claims with a matching fingerprint', async () => {
+      await adapter.claimIdempotencyRecord(claim());
+
+      await adapter.releaseIdempotencyRecord('charge:idempotency-123', 'other');
+      expect(adapter.getAllIdempotencyRecords()).toHaveLength(1);
+
+      await adapter.releaseIdempotencyRecord('charge:idempotency-123', 'abc');
+      expect(adapter.getAllIdempotencyRecords()).toHaveLength(0);
+
+      await adapter.createIdempotencyRecord({
+        key: 'charge:idempotency-123',
+        result: { success: true },
+        expiresAt: new Date(Date.now() + 60000)
+      });
+      await adapter.releaseIdempotencyRecord('charge:idempotency-123');
+      expect(adapter.getAllIdempotencyRecords()).toHaveLength(1);
+    });
+
+    it('should delete expired records in batches', async () => {
+      const now = Date.now();
+      for (const [key, offset] of [['a', -2000], ['b', -1000], ['c', 60000]] as const) {
+        await adapter.createIdempotencyRecord({
+          key,
+          result: null,
+          expiresAt: new Date(now + offset)
+        });
+      }
+
+      expect(await adapter.deleteExpiredIdempotencyRecords(new Date(now), 1)).toBe(1);
+      expect(await adapter.deleteExpiredIdempotencyRecords(new Date(now), 10)).toBe(1);
+      expect(adapter.getAllIdempotencyRecords().map(r => r.key)).toEqual(['c']);
+    });
+  });
+
   describe('updateUserMembership', () => {
     it('should throw UserNotFoundError for non-existent user', async () => {
       await expect(
@@ -447,6 +592,40 @@ describe('MockAdapter', () => {
     });
   });
 
+  describe('setMembershipTrial', () => {
+    it('should set and clear the trial end', async () => {
+      await adapter.createUser({ id: 'user-123', credits: 100, membershipTier: 'premium' });
+      const trialEndsAt = new Date('2025-01-08');
+
+      await adapter.setMembershipTrial('user-123', trialEndsAt);
+      expect((await adapter.getUserById('user-123'))!.trialEndsAt).toEqual(trialEndsAt);
+
+      await adapter.setMembershipTrial('user-123', null);
+      expect((await adapter.getUserById('user-123'))!.trialEndsAt).toBeNull();
+    });
+
+    it('should throw UserNotFoundError when user does not exist', async () => {
+      await expect(adapter.setMembershipTrial('non-existent', null)).rejects.toThrow(UserNotFoundError);
+    });
+  });
+
+  describe('add-ons', () => {
+    it('should save, list and delete add-ons', async () => {
+      const saved = await adapter.saveUserAddOn('user-123', 'api-access');
+      await adapter.saveUserAddOn('user-123', 'export-pack');
+      await adapter.saveUserAddOn('user-456', 'api-access');
+
+      expect(await adapter.saveUserAddOn('user-123', 'api-access')).toEqual(saved);
+      expect((await adapter.getUserAddOns('user-123')).map(a => a.addOn)).toEqual(['api-access', 'export-pack']);
+
+      await adapter.deleteUserAddOn('user-123', 'api-access');
+      await adapter.deleteUserAddOn('user-123', 'missing');
+
+      expect((await adapter.getUserAddOns('user-123')).map(a => a.addOn)).toEqual(['export-pack']);
+      expect(await adapter.getUserAddOns('user-456')).toHaveLength(1);
+    });
+  });
+
   describe('getTransactions', () => {
     beforeEach(async () => {
       // 创建测试数据
@@ -589,6 +768,381 @@ describe('MockAdapter', () => {
     });
   });
 
+  describe('credit holds', () => {
+    it('should create pending holds', async () => {
+      const hold = await adapter.createCreditHold({
+        userId: 'user-123',
+        action: 'test',
+        amount: 50,
+        expiresAt: new Date(Date.now() + 60000)
+      });
+
+      expect(hold.id).toBeDefined();
+      expect(hold.status).toBe('pending');
+      expect(hold.capturedAmount).toBeNull();
+      expect(await adapter.getCreditHold(hold.id)).toEqual(hold);
+    });
+
+    it('should sum only active, unexpired holds', async () => {
+      const now = new Date();
+      await adapter.createCreditHold({
+        userId: 'user-123', action: 'test', amount: 50, expiresAt: new Date(now.getTime() + 60000)
+      });
+      await adapter.createCreditHold({
+        userId: 'user-123', action: 'test', amount: 20, expiresAt: new Date(now.getTime() - 1)
+      });
+      const released = await adapter.createCreditHold({
+        userId: 'user-123', action: 'test', amount: 30, expiresAt: new Date(now.getTime() + 60000)
+      });
+      await adapter.createCreditHold({
+        userId: 'other-user', action: 'test', amount: 40, expiresAt: new Date(now.getTime() + 60000)
+      });
+      await adapter.finalizeCreditHold(released.id, 'released', null);
+
+      expect(await adapter.getActiveHoldsTotal('user-123', now)).toBe(50);
+    });
+
+    it('should create conditional holds only when the balance covers them', async () => {
+      await adapter.createUser({ id: 'user-123', credits: 100 });
+      const now = new Date();
+      const input = { userId: 'user-123', action: 'test', amount: 60, expiresAt: new Date(now.getTime() + 60000) };
+
+      const hold = await adapter.createCreditHoldIfAvailable(input, 0, now);
+      expect(hold?.status).toBe('pending');
+
+      expect(await adapter.createCreditHoldIfAvailable(input, 0, now)).toBeNull();
+      expect(await adapter.createCreditHoldIfAvailable({ ...input, amount: 40 }, 0, now)).not.toBeNull();
+      expect(await adapter.getActiveHoldsTotal('user-123', now)).toBe(100);
+      await expect(adapter.createCreditHoldIfAvailable({ ...input, userId: 'missing' }, 0, now)).rejects.toThrow(
+        UserNotFoundError
+      );
+    });
+
+    it('should finalize a hold only once', async () => {
+      const hold = await adapter.createCreditHold({
+        userId: 'user-123', action: 'test', amount: 50, expiresAt: new Date(Date.now() + 60000)
+      });
+
+      const captured = await adapter.finalizeCreditHold(hold.id, 'captured', 30);
+      expect(captured?.status).toBe('captured');
+      expect(captured?.capturedAmount).toBe(30);
+
+      expect(await adapter.finalizeCreditHold(hold.id, 'released', null)).toBeNull();
+      expect(await adapter.finalizeCreditHold('missing', 'released', null)).toBeNull();
+    });
+
+    it('should delete expired holds in batches', async () => {
+      const now = Date.now();
+      for (const offset of [-3000, -2000, 60000]) {
+        await adapter.createCreditHold({
+          userId: 'user-123', action: 'test', amount: 10, expiresAt: new Date(now + offset)
+        });
+      }
+
+      expect(await adapter.deleteExpiredCreditHolds(new Date(now), 1)).toBe(1);
+      expect(await adapter.deleteExpiredCreditHolds(new Date(now), 10)).toBe(1);
+      expect(await adapter.deleteExpiredCreditHolds(new Date(now), 10)).toBe(0);
+      expect(await adapter.getActiveHoldsTotal('user-123', new Date(now))).toBe(10);
+    });
+
+    it('should keep pending holds that have not expired yet', async () => {
+      const expiresAt = new Date(Date.now() + 60000);
+      const pending = await adapter.createCreditHold({ userId: 'user-123', action: 'test', amount: 10, expiresAt });
+      const settled = await adapter.createCreditHold({ userId: 'user-123', action: 'test', amount: 20, expiresAt });
+      await adapter.finalizeCreditHold(settled.id, 'captured', 20);
+
+      expect(await adapter.deleteExpiredCreditHolds(new Date(Date.now() + 120000), 10)).toBe(1);
+      expect(adapter.getAllCreditHolds().map(hold => hold.id)).toEqual([pending.id]);
+    });
+  });
+
+  describe('credit lots', () => {
+    it('should create lots with the full amount remaining', async () => {
+      const expiresAt = new Date(Date.now() + 60000);
+      const lot = await adapter.createCreditLot({ userId: 'user-123', amount: 50, expiresAt });
+
+      expect(lot.id).toBeDefined();
+      expect(lot.remaining).toBe(50);
+      expect(lot.metadata).toEqual({});
+      expect(await adapter.getCreditLots('user-123')).toEqual([lot]);
+    });
+
+    it('should list lots with credits left, soonest expiry first', async () => {
+      const now = Date.now();
+      const later = await adapter.createCreditLot({
+        userId: 'user-123', amount: 10, expiresAt: new Date(now + 120000)
+      });
+      const sooner = await adapter.createCreditLot({
+        userId: 'user-123', amount: 10, expiresAt: new Date(now + 60000)
+      });
+      const used = await adapter.createCreditLot({
+        userId: 'user-123', amount: 10, expiresAt: new Date(now + 30000)
+      });
+      await adapter.createCreditLot({
+        userId: 'other-user', amount: 10, expiresAt: new Date(now + 30000)
+      });
+      await adapter.consumeCreditLot(used.id, 10);
+
+      const lots = await adapter.getCreditLots('user-123');
+      expect(lots.map(l => l.id)).toEqual([sooner.id, later.id]);
+    });
+
+    it('should consume at most the remaining amount', async () => {
+      const lot = await adapter.createCreditLot({
+        userId: 'user-123', amount: 30, expiresAt: new Date(Date.now() + 60000)
+      });
+
+      expect(await adapter.consumeCreditLot(lot.id, 20)).toBe(20);
+      expect(await adapter.consumeCreditLot(lot.id, 20)).toBe(10);
+      expect(await adapter.consumeCreditLot(lot.id, 20)).toBe(0);
+      expect(await adapter.consumeCreditLot('missing', 20)).toBe(0);
+      expect(adapter.getAllCreditLots()[0]!.remaining).toBe(0);
+    });
+
+    it('should find expired lots across users up to the limit', async () => {
+      const now = new Date();
+      const first = await adapter.createCreditLot({
+        userId: 'user-123', amount: 10, expiresAt: new Date(now.getTime() - 2000)
+      });
+      const second = await adapter.createCreditLot({
+        userId: 'other-user', amount: 10, expiresAt: new Date(now.getTime() - 1000)
+      });
+      await adapter.createCreditLot({
+        userId: 'user-123', amount: 10, expiresAt: new Date(now.getTime() + 60000)
+      });
+
+      const expired = await adapter.getExpiredCreditLots(now, 10);
+      expect(expired.map(l => l.id)).toEqual([first.id, second.id]);
+      expect(await adapter.getExpiredCreditLots(now, 1)).toHaveLength(1);
+    });
+
+    it('should delete only expired lots with nothing remaining', async () => {
+      const now = new Date();
+      const drained = await adapter.createCreditLot({
+        userId: 'user-123', amount: 10, expiresAt: new Date(now.getTime() - 1000)
+      });
+      await adapter.consumeCreditLot(drained.id, 10);
+      await adapter.createCreditLot({
+        userId: 'user-123', amount: 10, expiresAt: new Date(now.getTime() - 1000)
+      });
+      const active = await adapter.createCreditLot({
+        userId: 'user-123', amount: 10, expiresAt: new Date(now.getTime() + 60000)
+      });
+      await adapter.consumeCreditLot(active.id, 10);
+
+      expect(await adapter.deleteExpiredCreditLots(now, 10)).toBe(1);
+      expect(adapter.getAllCreditLots()).toHaveLength(2);
+    });
+  });
+
+  describe('wallets', () => {
+    beforeEach(async () => {
+      await adapter.createUser({ id: 'user-123', credits: 1000 });
+    });
+
+    it('should treat missing wallets as empty', async () => {
+      expect(await adapter.getWalletBalance('user-123', 'image')).toBe(0);
+      expect(await adapter.getWalletBalances('user-123')).toEqual({});
+    });
+
+    it('should create wallets on first update and track them separately', async () => {
+      expect(await adapter.updateWalletBalance('user-123', 'image', 50)).toBe(50);
+      expect(await adapter.updateWalletBalance('user-123', 'text', 20)).toBe(20);
+      expect(await adapter.updateWalletBalance('user-123', 'image', -10)).toBe(40);
+
+      expect(await adapter.getWalletBalances('user-123')).toEqual({ image: 40, text: 20 });
+      expect((await adapter.getUserById('user-123'))!.credits).toBe(1000);
+    });
+
+    it('should debit a wallet only when the minimum balance is kept', async () => {
+      await adapter.updateWalletBalance('user-123', 'image', 30);
+
+      expect(await adapter.debitWalletBalance('user-123', 'image', 20, 0)).toBe(10);
+      expect(await adapter.debitWalletBalance('user-123', 'image', 20, 0)).toBeNull();
+      expect(await adapter.debitWalletBalance('user-123', 'text', 1, 0)).toBeNull();
+      expect(await adapter.getWalletBalance('user-123', 'image')).toBe(10);
+    });
+
+    it('should throw UserNotFoundError for unknown users', async () => {
+      await expect(adapter.updateWalletBalance('missing', 'image', 10)).rejects.toThrow(UserNotFoundError);
+      await expect(adapter.debitWalletBalance('missing', 'image', 10, 0)).rejects.toThrow(UserNotFoundError);
+    });
+  });
+
+  describe('transaction refunds', () => {
+    it('should track refunds up to the maximum total', async () => {
+      await adapter.createUser({ id: 'user-123', credits: 100 });
+      const charge = await adapter.createTransaction({
+        userId: 'user-123', action: 'test', amount: -30, balanceBefore: 100, balanceAfter: 70
+      });
+
+      expect(charge).not.toHaveProperty('refundedAmount');
+      expect(await adapter.addTransactionRefund(charge.id, 20, 30)).toBe(20);
+      expect(await adapter.addTransactionRefund(charge.id, 20, 30)).toBeNull();
+      expect(await adapter.addTransactionRefund(charge.id, 10, 30)).toBe(30);
+      expect((await adapter.getTransactionById(charge.id))!.refundedAmount).toBe(30);
+    });
+
+    it('should throw TransactionNotFoundError for unknown transactions', async () => {
+      expect(await adapter.getTransactionById('missing')).toBeNull();
+      await expect(adapter.addTransactionRefund('missing', 1, 1)).rejects.toThrow(TransactionNotFoundError);
+    });
+  });
+
+  describe('organizations', () => {
+    beforeEach(async () => {
+      await adapter.createOrganization({ id: 'org-1', credits: 100 });
+      await adapter.createUser({ id: 'user-123', organizationId: 'org-1' });
+    });
+
+    it('should debit the pool only when the minimum balance is kept', async () => {
+      expect((await adapter.debitOrganizationCredits('org-1', 60, 0))!.credits).toBe(40);
+      expect(await adapter.debitOrganizationCredits('org-1', 60, 0)).toBeNull();
+      expect((await adapter.getOrganizationById('org-1'))!.credits).toBe(40);
+      await expect(adapter.debitOrganizationCredits('missing', 1, 0)).rejects.toThrow(OrganizationNotFoundError);
+    });
+
+    it('should keep one spending limit per period', async () => {
+      await adapter.setMemberSpendingLimit({ organizationId: 'org-1', userId: 'user-123', period: 'daily', limit: 10 });
+      await adapter.setMemberSpendingLimit({ organizationId: 'org-1', userId: 'user-123', period: 'daily', limit: 20 });
+      await adapter.setMemberSpendingLimit({ organizationId: 'org-1', userId: 'user-123', period: 'monthly', limit: 100 });
+
+      const limits = await adapter.getMemberSpendingLimits('org-1', 'user-123');
+      expect(limits.map(l => [l.period, l.limit])).toEqual([['daily', 20], ['monthly', 100]]);
+
+      await adapter.deleteMemberSpendingLimit('org-1', 'user-123', 'daily');
+      expect(await adapter.getMemberSpendingLimits('org-1', 'user-123')).toHaveLength(1);
+    });
+
+    it('should sum pool charges of the member since the given time', async () => {
+      const since = new Date();
+      await adapter.createTransaction({
+        userId: 'user-123', action: 'a', amount: -10, balanceBefore: 100, balanceAfter: 90,
+        metadata: { organizationId: 'org-1' }
+      });
+      await adapter.createTransaction({
+        userId: 'user-123', action: 'b', amount: -5, balanceBefore: 0, balanceAfter: -5
+      });
+      await adapter.createTransaction({
+        userId: 'user-123', action: 'c', amount: 20, balanceBefore: 90, balanceAfter: 110,
+        metadata: { organizationId: 'org-1' }
+      });
+
+      expect(await adapter.getMemberSpending('org-1', 'user-123', since)).toBe(10);
+      expect(await adapter.getMemberSpending('org-1', 'user-123', new Date(Date.now() + 1000))).toBe(0);
+    });
+
+    it('should count charges of the action since the given time', async () => {
+      const since = new Date();
+      await adapter.createTransaction({
+        userId: 'user-123', action: 'a', amount: -10, balanceBefore: 100, balanceAfter: 90, operation: 'charge'
+      });
+      await adapter.createTransaction({
+        userId: 'user-123', action: 'a', amount: 0, balanceBefore: 90, balanceAfter: 90, operation: 'chargeBatch'
+      });
+      await adapter.createTransaction({
+        userId: 'user-123', action: 'a', amount: -3, balanceBefore: 90, balanceAfter: 87, operation: 'capture'
+      });
+      await adapter.createTransaction({
+        userId: 'user-123', action: 'a', amount: 10, balanceBefore: 87, balanceAfter: 97, operation: 'refund'
+      });
+      await adapter.createTransaction({
+        userId: 'user-123', action: 'b', amount: -5, balanceBefore: 90, balanceAfter: 85, operation: 'charge'
+      });
+
+      expect(await adapter.countActionUsage('user-123', 'a', since)).toBe(3);
+      expect(await adapter.countActionUsage('user-456', 'a', since)).toBe(0);
+      expect(await adapter.countActionUsage('user-123', 'a', new Date(Date.now() + 1000))).toBe(0);
+    });
+  });
+
+  describe('scheduled tier changes', () => {
+    it('should keep one scheduled change per user', async () => {
+      const effectiveAt = new Date('2030-01-01');
+      await adapter.saveScheduledTierChange({ userId: 'user-123', targetTier: 'basic', effectiveAt });
+      const saved = await adapter.saveScheduledTierChange({
+        userId: 'user-123',
+        targetTier: 'free',
+        effectiveAt,
+        metadata: { reason: 'cancel' }
+      });
+
+      expect(await adapter.getScheduledTierChange('user-123')).toEqual(saved);
+      expect(saved).toMatchObject({ targetTier: 'free', effectiveAt, metadata: { reason: 'cancel' } });
+      expect(await adapter.getScheduledTierChange('other')).toBeNull();
+    });
+
+    it('should delete the scheduled change and ignore missing ones', async () => {
+      await adapter.saveScheduledTierChange({ userId: 'user-123', targetTier: 'free', effectiveAt: new Date() });
+
+      await adapter.deleteScheduledTierChange('user-123');
+      await adapter.deleteScheduledTierChange('user-123');
+
+      expect(await adapter.getScheduledTierChange('user-123')).toBeNull();
+    });
+
+    it('should return due changes by effective time', async () => {
+      const now = new Date('2025-06-01');
+      await adapter.saveScheduledTierChange({ userId: 'late', targetTier: 'free', effectiveAt: new Date('2025-05-20') });
+      await adapter.saveScheduledTierChange({ userId: 'future', targetTier: 'free', effectiveAt: new Date('2025-07-01') });
+      await adapter.saveScheduledTierChange({ userId: 'early', targetTier: 'free', effectiveAt: new Date('2025-05-01') });
+      await adapter.saveScheduledTierChange({ userId: 'exact', targetTier: 'free', effectiveAt: now });
+
+      const due = await adapter.getDueScheduledTierChanges(now, 10);
+      expect(due.map(c => c.userId)).toEqual(['early', 'late', 'exact']);
+      expect(await adapter.getDueScheduledTierChanges(now, 1)).toHaveLength(1);
+    });
+  });
+
+  describe('runInTransaction', () => {
+    beforeEach(async () => {
+      await adapter.createUser({ id: 'user-123', credits: 100 });
+    });
+
+    it('should return the callback result', async () => {
+      const result = await adapter.runInTransaction(async (txn) => {
+        await adapter.updateUserCredits('user-123', -10, txn);
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      expect((await adapter.getUserById('user-123'))!.credits).toBe(90);
+    });
+
+    it('should roll back all writes when the callback throws', async () => {
+      await expect(
+        adapter.runInTransaction(async (txn) => {
+          await adapter.updateUserCredits('user-123', -10, txn);
+          await adapter.updateWalletBalance('user-123', 'image', 5, txn);
+          await adapter.createTransaction({
+            userId: 'user-123', action: 'test', amount: -10, balanceBefore: 100, balanceAfter: 90
+          }, txn);
+          throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+
+      expect((await adapter.getUserById('user-123'))!.credits).toBe(100);
+      expect(await adapter.getWalletBalance('user-123', 'image')).toBe(0);
+      expect(adapter.getAllTransactions()).toHaveLength(0);
+    });
+
+    it('should not undo writes committed by concurrent transactions', async () => {
+      const failing = adapter.runInTransaction(async (txn) => {
+        await adapter.updateUserCredits('user-123', -10, txn);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        throw new Error('boom');
+      });
+      const committed = adapter.runInTransaction(async (txn) => {
+        await adapter.updateUserCredits('user-123', -20, txn);
+      });
+
+      await expect(failing).rejects.toThrow('boom');
+      await committed;
+
+      expect((await adapter.getUserById('user-123'))!.credits).toBe(80);
+    });
+  });
+
   describe('Test Helper Methods', () => {
     describe('createUser', () => {
       it('should create user with provided values', async () => {
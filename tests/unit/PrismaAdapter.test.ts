@@ -9,24 +9,72 @@
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { PrismaAdapter } from '../../src/adapters/PrismaAdapter';
-import { UserNotFoundError } from '../../src/core/errors';
+import {
+  UserNotFoundError,
+  OrganizationNotFoundError,
+  TransactionNotFoundError
+} from '../../src/core/errors';
 
 // Mock PrismaClient
 const mockPrismaClient = {
   user: {
     findUnique: vi.fn(),
+    findMany: vi.fn(),
     update: vi.fn()
   },
+  $queryRaw: vi.fn(),
+  $executeRaw: vi.fn(),
+  $transaction: vi.fn(),
   transaction: {
     create: vi.fn(),
-    findMany: vi.fn()
+    findMany: vi.fn(),
+    findUnique: vi.fn(),
+    aggregate: vi.fn(),
+    count: vi.fn()
   },
   auditLog: {
     create: vi.fn()
   },
   idempotencyRecord: {
     findUnique: vi.fn(),
-    create: vi.fn()
+    create: vi.fn(),
+    upsert: vi.fn(),
+    deleteMany: vi.fn()
+  },
+  creditHold: {
+    create: vi.fn(),
+    findUnique: vi.fn(),
+    aggregate: vi.fn(),
+    updateMany: vi.fn()
+  },
+  creditLot: {
+    create: vi.fn(),
+    findMany: vi.fn()
+  },
+  creditWallet: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    upsert: vi.fn()
+  },
+  organization: {
+    findUnique: vi.fn(),
+    update: vi.fn()
+  },
+  memberSpendingLimit: {
+    findMany: vi.fn(),
+    upsert: vi.fn(),
+    deleteMany: vi.fn()
+  },
+  scheduledTierChange: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    upsert: vi.fn(),
+    deleteMany: vi.fn()
+  },
+  userAddOn: {
+    findMany: vi.fn(),
+    upsert: vi.fn(),
+    deleteMany: vi.fn()
   }
 };
 
@@ -138,6 +186,57 @@ describe('PrismaAdapter', () => {
     });
   });
 
+  describe('debitUserCredits', () => {
+    const mockUser = {
+      id: 'user-123',
+      credits: 90,
+      membershipTier: null,
+      membershipExpiresAt: null,
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-15')
+    };
+
+    it('应该执行条件扣减并返回实际写入的记录', async () => {
+      mockPrismaClient.$queryRaw.mockResolvedValue([mockUser]);
+
+      const result = await adapter.debitUserCredits('user-123', 10, 0);
+
+      expect(result).toEqual(mockUser);
+      const [strings, ...values] = mockPrismaClient.$queryRaw.mock.calls[0]!;
+      expect(strings.join('?')).toContain('WHERE "id" = ? AND "credits" - ? >= ?');
+      expect(values).toEqual([10, 'user-123', 10, 0]);
+    });
+
+    it('应该在余额不足时返回 null', async () => {
+      mockPrismaClient.$queryRaw.mockResolvedValue([]);
+      mockPrismaClient.user.findUnique.mockResolvedValue(mockUser);
+
+      const result = await adapter.debitUserCredits('user-123', 100, 0);
+
+      expect(result).toBeNull();
+    });
+
+    it('应该在用户不存在时抛出 UserNotFoundError', async () => {
+      mockPrismaClient.$queryRaw.mockResolvedValue([]);
+      mockPrismaClient.user.findUnique.mockResolvedValue(null);
+
+      await expect(
+        adapter.debitUserCredits('nonexistent', 10, 0)
+      ).rejects.toThrow(UserNotFoundError);
+    });
+
+    it('应该使用事务上下文', async () => {
+      const mockTxn = {
+        $queryRaw: vi.fn().mockResolvedValue([mockUser])
+      };
+
+      await adapter.debitUserCredits('user-123', 10, 0, mockTxn);
+
+      expect(mockTxn.$queryRaw).toHaveBeenCalled();
+      expect(mockPrismaClient.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+
   describe('createTransaction', () => {
     it('应该创建交易记录', async () => {
       const transactionInput = {
@@ -192,6 +291,57 @@ describe('PrismaAdapter', () => {
         }
       });
     });
+
+    it('应该记录附加钱包', async () => {
+      const transactionInput = {
+        userId: 'user-123',
+        action: 'generate-image',
+        amount: -5,
+        balanceBefore: 20,
+        balanceAfter: 15,
+        wallet: 'image',
+        metadata: {}
+      };
+
+      mockPrismaClient.transaction.create.mockResolvedValue({
+        id: 'txn-790',
+        ...transactionInput,
+        createdAt: new Date('2024-01-15')
+      });
+
+      const result = await adapter.createTransaction(transactionInput);
+
+      expect(result.wallet).toBe('image');
+      expect(mockPrismaClient.transaction.create).toHaveBeenCalledWith({
+        data: transactionInput
+      });
+    });
+
+    it('应该在独立字段中记录写入交易的操作', async () => {
+      const transactionInput = {
+        userId: 'user-123',
+        action: 'generate-post',
+        amount: -10,
+        balanceBefore: 100,
+        balanceAfter: 90,
+        operation: 'charge',
+        metadata: {}
+      };
+
+      mockPrismaClient.transaction.create.mockResolvedValue({
+        id: 'txn-791',
+        ...transactionInput,
+        wallet: null,
+        createdAt: new Date('2024-01-15')
+      });
+
+      const result = await adapter.createTransaction(transactionInput);
+
+      expect(result.operation).toBe('charge');
+      expect(mockPrismaClient.transaction.create).toHaveBeenCalledWith({
+        data: transactionInput
+      });
+    });
   });
 
   describe('createAuditLog', () => {
@@ -312,6 +462,199 @@ describe('PrismaAdapter', () => {
         data: recordInput
       });
     });
+    it('应该保存请求指纹', async () => {
+      const recordInput = {
+        key: 'charge:idempotency-key-123',
+        result: { success: true },
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        fingerprint: 'abc123'
+      };
+
+      mockPrismaClient.idempotencyRecord.create.mockResolvedValue({
+        ...recordInput,
+        createdAt: new Date('2024-01-15')
+      });
+
+      const result = await adapter.createIdempotencyRecord(recordInput);
+
+      expect(result.fingerprint).toBe('abc123');
+      expect(mockPrismaClient.idempotencyRecord.create).toHaveBeenCalledWith({
+        data: recordInput
+      });
+    });
+  });
+
+  describe('claimIdempotencyRecord', () => {
+    const claim = {
+      key: 'charge:idempotency-key-123',
+      fingerprint: 'abc123',
+      expiresAt: new Date(Date.now() + 60 * 1000)
+    };
+
+    it('应该在写入 pending 记录后返回 null', async () => {
+      mockPrismaClient.$queryRaw.mockResolvedValue([{ key: claim.key }]);
+
+      const result = await adapter.claimIdempotencyRecord(claim);
+
+      expect(result).toBeNull();
+      expect(mockPrismaClient.idempotencyRecord.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('应该在幂等键已被占用时返回现有记录', async () => {
+      mockPrismaClient.$queryRaw.mockResolvedValue([]);
+      mockPrismaClient.idempotencyRecord.findUnique.mockResolvedValue({
+        key: claim.key,
+        result: null,
+        fingerprint: 'abc123',
+        status: 'pending',
+        createdAt: new Date('2024-01-15'),
+        expiresAt: claim.expiresAt
+      });
+
+      const result = await adapter.claimIdempotencyRecord(claim);
+
+      expect(result).toMatchObject({ key: claim.key, status: 'pending', fingerprint: 'abc123' });
+    });
+
+    it('应该不为已完成的记录设置 status', async () => {
+      mockPrismaClient.$queryRaw.mockResolvedValue([]);
+      mockPrismaClient.idempotencyRecord.findUnique.mockResolvedValue({
+        key: claim.key,
+        result: { success: true },
+        fingerprint: 'abc123',
+        status: 'completed',
+        createdAt: new Date('2024-01-15'),
+        expiresAt: claim.expiresAt
+      });
+
+      const result = await adapter.claimIdempotencyRecord(claim);
+
+      expect(result).not.toHaveProperty('status');
+      expect(result!.result).toEqual({ success: true });
+    });
+  });
+
+  describe('completeIdempotencyRecord', () => {
+    it('应该覆盖 pending 记录并标记为已完成', async () => {
+      const recordInput = {
+        key: 'charge:idempotency-key-123',
+        result: { success: true },
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        fingerprint: 'abc123'
+      };
+
+      mockPrismaClient.idempotencyRecord.upsert.mockResolvedValue({
+        ...recordInput,
+        status: 'completed',
+        createdAt: new Date('2024-01-15')
+      });
+
+      const result = await adapter.completeIdempotencyRecord(recordInput);
+
+      expect(result.result).toEqual({ success: true });
+      expect(mockPrismaClient.idempotencyRecord.upsert).toHaveBeenCalledWith({
+        where: { key: recordInput.key },
+        create: {
+          key: recordInput.key,
+          result: recordInput.result,
+          expiresAt: recordInput.expiresAt,
+          status: 'completed',
+          fingerprint: 'abc123'
+        },
+        update: {
+          result: recordInput.result,
+          expiresAt: recordInput.expiresAt,
+          status: 'completed',
+          fingerprint: 'abc123'
+        }
+      });
+    });
+  });
+
+  describe('releaseIdempotencyRecord', () => {
+    it('应该只删除指纹相同的 pending 记录', async () => {
+      mockPrismaClient.idempotencyRecord.deleteMany.mockResolvedValue({ count: 1 });
+
+      await adapter.releaseIdempotencyRecord('charge:idempotency-key-123', 'abc123');
+
+      expect(mockPrismaClient.idempotencyRecord.deleteMany).toHaveBeenCalledWith({
+        where: { key: 'charge:idempotency-key-123', status: 'pending', fingerprint: 'abc123' }
+      });
+    });
+  });
+
+  describe('过期数据删除', () => {
+    it('应该返回每批删除的数量', async () => {
+      mockPrismaClient.$executeRaw.mockResolvedValue(3);
+      const before = new Date('2024-01-15');
+
+      expect(await adapter.deleteExpiredIdempotencyRecords(before, 100)).toBe(3);
+      expect(await adapter.deleteExpiredCreditHolds(before, 100)).toBe(3);
+      expect(await adapter.deleteExpiredCreditLots(before, 100)).toBe(3);
+
+      const [holdStrings, ...holdValues] = mockPrismaClient.$executeRaw.mock.calls[1]!;
+      expect(holdStrings.join('?')).toContain(`"status" <> 'pending'`);
+      expect(holdValues).toEqual([before, expect.any(Date), 100]);
+
+      const [strings, ...values] = mockPrismaClient.$executeRaw.mock.calls[2]!;
+      expect(strings.join('?')).toContain('"remaining" = 0');
+      expect(values).toEqual([before, 100]);
+    });
+  });
+
+  describe('getOverdrawnUsers', () => {
+    it('应该按余额升序分页查询负余额用户', async () => {
+      mockPrismaClient.user.findMany.mockResolvedValue([
+        {
+          id: 'user-1',
+          credits: -300,
+          membershipTier: 'enterprise',
+          membershipExpiresAt: null,
+          organizationId: null,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        }
+      ]);
+
+      const users = await adapter.getOverdrawnUsers(50, 100);
+
+      expect(users.map(u => [u.id, u.credits])).toEqual([['user-1', -300]]);
+      expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith({
+        where: { credits: { lt: 0 } },
+        orderBy: [{ credits: 'asc' }, { id: 'asc' }],
+        take: 50,
+        skip: 100
+      });
+    });
+  });
+
+  describe('getUsersWithExpiredMembership', () => {
+    it('应该按到期时间升序查询会员已过期的用户', async () => {
+      const now = new Date('2025-06-01T00:00:00Z');
+      mockPrismaClient.user.findMany.mockResolvedValue([
+        {
+          id: 'user-1',
+          credits: 500,
+          membershipTier: 'premium',
+          membershipExpiresAt: new Date('2025-05-01T00:00:00Z'),
+          organizationId: null,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        }
+      ]);
+
+      const users = await adapter.getUsersWithExpiredMembership(now, 20);
+
+      expect(users.map(u => u.id)).toEqual(['user-1']);
+      expect(mockPrismaClient.user.findMany).toHaveBeenCalledWith({
+        where: {
+          membershipTier: { not: null },
+          membershipExpiresAt: { lt: now }
+        },
+        orderBy: [{ membershipExpiresAt: 'asc' }, { id: 'asc' }],
+        take: 20
+      });
+    });
   });
 
   describe('getTransactions', () => {
@@ -625,6 +968,504 @@ describe('PrismaAdapter', () => {
     });
   });
 
+  describe('setMembershipTrial', () => {
+    it('应该更新试用结束时间', async () => {
+      const trialEndsAt = new Date('2025-01-08');
+      mockPrismaClient.user.update.mockResolvedValue({});
+
+      await adapter.setMembershipTrial('user-123', trialEndsAt);
+
+      expect(mockPrismaClient.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-123' },
+        data: { trialEndsAt }
+      });
+    });
+
+    it('应该在用户不存在时抛出 UserNotFoundError', async () => {
+      mockPrismaClient.user.update.mockRejectedValue({ code: 'P2025', message: 'Record not found' });
+
+      await expect(adapter.setMembershipTrial('nonexistent', null)).rejects.toThrow(UserNotFoundError);
+    });
+  });
+
+  describe('credit holds', () => {
+    const mockHold = {
+      id: 'hold-1',
+      userId: 'user-123',
+      action: 'ai-completion',
+      amount: 50,
+      status: 'pending',
+      capturedAmount: null,
+      metadata: {},
+      expiresAt: new Date('2030-01-01'),
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01')
+    };
+
+    it('应该创建 pending 状态的冻结记录', async () => {
+      mockPrismaClient.creditHold.create.mockResolvedValue(mockHold);
+
+      const result = await adapter.createCreditHold({
+        userId: 'user-123',
+        action: 'ai-completion',
+        amount: 50,
+        expiresAt: mockHold.expiresAt
+      });
+
+      expect(result).toEqual(mockHold);
+      expect(mockPrismaClient.creditHold.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-123',
+          action: 'ai-completion',
+          amount: 50,
+          status: 'pending',
+          metadata: {},
+          expiresAt: mockHold.expiresAt
+        }
+      });
+    });
+
+    it('应该只汇总未过期的 pending 冻结', async () => {
+      const now = new Date('2024-06-01');
+      mockPrismaClient.creditHold.aggregate.mockResolvedValue({ _sum: { amount: 70 } });
+
+      const total = await adapter.getActiveHoldsTotal('user-123', now);
+
+      expect(total).toBe(70);
+      expect(mockPrismaClient.creditHold.aggregate).toHaveBeenCalledWith({
+        where: { userId: 'user-123', status: 'pending', expiresAt: { gt: now } },
+        _sum: { amount: true }
+      });
+    });
+
+    it('应该在没有冻结时返回 0', async () => {
+      mockPrismaClient.creditHold.aggregate.mockResolvedValue({ _sum: { amount: null } });
+
+      expect(await adapter.getActiveHoldsTotal('user-123', new Date())).toBe(0);
+    });
+
+    it('应该在锁定用户行后按可用余额条件创建冻结', async () => {
+      const now = new Date('2024-06-01');
+      mockPrismaClient.$transaction.mockImplementation(async (fn: any) => fn(mockPrismaClient));
+      mockPrismaClient.$queryRaw.mockResolvedValue([{ credits: 100 }]);
+      mockPrismaClient.creditHold.aggregate.mockResolvedValue({ _sum: { amount: 30 } });
+      mockPrismaClient.creditHold.create.mockResolvedValue(mockHold);
+      const input = { userId: 'user-123', action: 'ai-completion', amount: 50, expiresAt: mockHold.expiresAt };
+
+      expect(await adapter.createCreditHoldIfAvailable(input, 0, now)).toEqual(mockHold);
+      const [strings] = mockPrismaClient.$queryRaw.mock.calls[0]!;
+      expect(strings.join('')).toContain('FOR UPDATE');
+
+      expect(await adapter.createCreditHoldIfAvailable(input, 30, now)).toBeNull();
+      expect(mockPrismaClient.creditHold.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('应该在条件创建冻结时对不存在的用户抛出错误', async () => {
+      mockPrismaClient.$queryRaw.mockResolvedValue([]);
+
+      await expect(
+        adapter.createCreditHoldIfAvailable(
+          { userId: 'missing', action: 'ai-completion', amount: 50, expiresAt: mockHold.expiresAt },
+          0,
+          new Date(),
+          mockPrismaClient
+        )
+      ).rejects.toThrow(UserNotFoundError);
+    });
+
+    it('应该使用条件更新完结冻结', async () => {
+      mockPrismaClient.creditHold.updateMany.mockResolvedValue({ count: 1 });
+      mockPrismaClient.creditHold.findUnique.mockResolvedValue({
+        ...mockHold,
+        status: 'captured',
+        capturedAmount: 30
+      });
+
+      const result = await adapter.finalizeCreditHold('hold-1', 'captured', 30);
+
+      expect(result?.status).toBe('captured');
+      expect(result?.capturedAmount).toBe(30);
+      expect(mockPrismaClient.creditHold.updateMany).toHaveBeenCalledWith({
+        where: { id: 'hold-1', status: 'pending' },
+        data: { status: 'captured', capturedAmount: 30 }
+      });
+    });
+
+    it('应该在冻结已完结时返回 null', async () => {
+      mockPrismaClient.creditHold.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await adapter.finalizeCreditHold('hold-1', 'released', null);
+
+      expect(result).toBeNull();
+      expect(mockPrismaClient.creditHold.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('credit lots', () => {
+    const mockLot = {
+      id: 'lot-1',
+      userId: 'user-123',
+      amount: 100,
+      remaining: 100,
+      expiresAt: new Date('2030-01-01'),
+      metadata: {},
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-01')
+    };
+
+    it('应该创建剩余金额等于发放金额的批次', async () => {
+      mockPrismaClient.creditLot.create.mockResolvedValue(mockLot);
+
+      const result = await adapter.createCreditLot({
+        userId: 'user-123',
+        amount: 100,
+        expiresAt: mockLot.expiresAt
+      });
+
+      expect(result).toEqual(mockLot);
+      expect(mockPrismaClient.creditLot.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-123',
+          amount: 100,
+          remaining: 100,
+          expiresAt: mockLot.expiresAt,
+          metadata: {}
+        }
+      });
+    });
+
+    it('应该按到期时间升序查询有剩余的批次', async () => {
+      mockPrismaClient.creditLot.findMany.mockResolvedValue([mockLot]);
+
+      const result = await adapter.getCreditLots('user-123');
+
+      expect(result).toEqual([mockLot]);
+      expect(mockPrismaClient.creditLot.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user-123', remaining: { gt: 0 } },
+        orderBy: { expiresAt: 'asc' }
+      });
+    });
+
+    it('应该返回实际扣减的金额', async () => {
+      mockPrismaClient.$queryRaw.mockResolvedValue([{ consumed: 40 }]);
+
+      expect(await adapter.consumeCreditLot('lot-1', 60)).toBe(40);
+    });
+
+    it('应该在批次已耗尽时返回 0', async () => {
+      mockPrismaClient.$queryRaw.mockResolvedValue([]);
+
+      expect(await adapter.consumeCreditLot('lot-1', 60)).toBe(0);
+    });
+
+    it('应该分页查询已过期的批次', async () => {
+      const now = new Date('2024-06-01');
+      mockPrismaClient.creditLot.findMany.mockResolvedValue([mockLot]);
+
+      await adapter.getExpiredCreditLots(now, 50);
+
+      expect(mockPrismaClient.creditLot.findMany).toHaveBeenCalledWith({
+        where: { remaining: { gt: 0 }, expiresAt: { lte: now } },
+        orderBy: { expiresAt: 'asc' },
+        take: 50
+      });
+    });
+  });
+
+  describe('runInTransaction', () => {
+    it('应该在 Prisma 交互式事务中执行回调', async () => {
+      const tx = { user: mockPrismaClient.user };
+      mockPrismaClient.$transaction.mockImplementation(async (fn: any) => fn(tx));
+
+      const callback = vi.fn().mockResolvedValue('done');
+      const result = await adapter.runInTransaction(callback);
+
+      expect(result).toBe('done');
+      expect(callback).toHaveBeenCalledWith(tx);
+    });
+  });
+
+  describe('wallets', () => {
+    it('应该在钱包不存在时返回 0', async () => {
+      mockPrismaClient.creditWallet.findUnique.mockResolvedValue(null);
+
+      expect(await adapter.getWalletBalance('user-123', 'image')).toBe(0);
+      expect(mockPrismaClient.creditWallet.findUnique).toHaveBeenCalledWith({
+        where: { userId_wallet: { userId: 'user-123', wallet: 'image' } }
+      });
+    });
+
+    it('应该返回所有钱包余额的映射', async () => {
+      mockPrismaClient.creditWallet.findMany.mockResolvedValue([
+        { wallet: 'image', credits: 40 },
+        { wallet: 'text', credits: 20 }
+      ]);
+
+      expect(await adapter.getWalletBalances('user-123')).toEqual({ image: 40, text: 20 });
+    });
+
+    it('应该使用 upsert 变更钱包余额', async () => {
+      mockPrismaClient.creditWallet.upsert.mockResolvedValue({ wallet: 'image', credits: 60 });
+
+      expect(await adapter.updateWalletBalance('user-123', 'image', 10)).toBe(60);
+      expect(mockPrismaClient.creditWallet.upsert).toHaveBeenCalledWith({
+        where: { userId_wallet: { userId: 'user-123', wallet: 'image' } },
+        create: { userId: 'user-123', wallet: 'image', credits: 10 },
+        update: { credits: { increment: 10 } }
+      });
+    });
+
+    it('应该在用户不存在时抛出 UserNotFoundError', async () => {
+      mockPrismaClient.creditWallet.upsert.mockRejectedValue({ code: 'P2003' });
+
+      await expect(adapter.updateWalletBalance('missing', 'image', 10)).rejects.toThrow(UserNotFoundError);
+    });
+
+    it('应该返回条件扣减后的钱包余额', async () => {
+      mockPrismaClient.$queryRaw.mockResolvedValue([{ credits: 15 }]);
+
+      expect(await adapter.debitWalletBalance('user-123', 'image', 5, 0)).toBe(15);
+    });
+
+    it('应该在钱包余额不足时返回 null', async () => {
+      mockPrismaClient.$queryRaw.mockResolvedValue([]);
+
+      expect(await adapter.debitWalletBalance('user-123', 'image', 5, 0)).toBeNull();
+      expect(mockPrismaClient.creditWallet.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('transaction refunds', () => {
+    it('应该在有退款时映射 refundedAmount', async () => {
+      mockPrismaClient.transaction.findUnique.mockResolvedValue({
+        id: 'txn-1',
+        userId: 'user-123',
+        action: 'generate-post',
+        amount: -30,
+        balanceBefore: 100,
+        balanceAfter: 70,
+        wallet: null,
+        refundedAmount: 10,
+        metadata: {},
+        createdAt: new Date('2024-01-01')
+      });
+
+      const result = await adapter.getTransactionById('txn-1');
+
+      expect(result!.refundedAmount).toBe(10);
+      expect(result).not.toHaveProperty('wallet');
+    });
+
+    it('应该返回条件更新后的累计退款金额', async () => {
+      mockPrismaClient.$queryRaw.mockResolvedValue([{ refundedAmount: 25 }]);
+
+      expect(await adapter.addTransactionRefund('txn-1', 15, 30)).toBe(25);
+    });
+
+    it('应该区分超额退款与交易不存在', async () => {
+      mockPrismaClient.$queryRaw.mockResolvedValue([]);
+      mockPrismaClient.transaction.findUnique.mockResolvedValueOnce({ id: 'txn-1' });
+
+      expect(await adapter.addTransactionRefund('txn-1', 15, 30)).toBeNull();
+
+      mockPrismaClient.transaction.findUnique.mockResolvedValueOnce(null);
+      await expect(adapter.addTransactionRefund('missing', 1, 1)).rejects.toThrow(TransactionNotFoundError);
+    });
+  });
+
+  describe('organizations', () => {
+    const organization = {
+      id: 'org-1',
+      credits: 40,
+      createdAt: new Date('2024-01-01'),
+      updatedAt: new Date('2024-01-15')
+    };
+
+    it('应该返回条件扣减后的组织', async () => {
+      mockPrismaClient.$queryRaw.mockResolvedValue([organization]);
+
+      expect(await adapter.debitOrganizationCredits('org-1', 10, 0)).toEqual(organization);
+    });
+
+    it('应该区分积分池余额不足与组织不存在', async () => {
+      mockPrismaClient.$queryRaw.mockResolvedValue([]);
+      mockPrismaClient.organization.findUnique.mockResolvedValueOnce(organization);
+
+      expect(await adapter.debitOrganizationCredits('org-1', 100, 0)).toBeNull();
+
+      mockPrismaClient.organization.findUnique.mockResolvedValueOnce(null);
+      await expect(adapter.debitOrganizationCredits('missing', 1, 0)).rejects.toThrow(OrganizationNotFoundError);
+    });
+
+    it('应该在组织不存在时抛出 OrganizationNotFoundError', async () => {
+      mockPrismaClient.organization.update.mockRejectedValue({ code: 'P2025' });
+
+      await expect(adapter.updateOrganizationCredits('missing', 10)).rejects.toThrow(OrganizationNotFoundError);
+    });
+
+    it('应该使用 upsert 保存成员消费限额', async () => {
+      mockPrismaClient.memberSpendingLimit.upsert.mockResolvedValue({
+        id: 'limit-1',
+        organizationId: 'org-1',
+        userId: 'user-123',
+        period: 'daily',
+        limit: 50,
+        createdAt: new Date('2024-01-01'),
+        updatedAt: new Date('2024-01-01')
+      });
+
+      const result = await adapter.setMemberSpendingLimit({
+        organizationId: 'org-1',
+        userId: 'user-123',
+        period: 'daily',
+        limit: 50
+      });
+
+      expect(result.limit).toBe(50);
+      expect(result).not.toHaveProperty('id');
+      expect(mockPrismaClient.memberSpendingLimit.upsert).toHaveBeenCalledWith({
+        where: {
+          organizationId_userId_period: { organizationId: 'org-1', userId: 'user-123', period: 'daily' }
+        },
+        create: { organizationId: 'org-1', userId: 'user-123', period: 'daily', limit: 50 },
+        update: { limit: 50 }
+      });
+    });
+
+    it('应该按 metadata.organizationId 统计成员消费', async () => {
+      const since = new Date('2024-01-01');
+      mockPrismaClient.transaction.aggregate.mockResolvedValue({ _sum: { amount: -30 } });
+
+      expect(await adapter.getMemberSpending('org-1', 'user-123', since)).toBe(30);
+      expect(mockPrismaClient.transaction.aggregate).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-123',
+          amount: { lt: 0 },
+          createdAt: { gte: since },
+          metadata: { path: ['organizationId'], equals: 'org-1' }
+        },
+        _sum: { amount: true }
+      });
+    });
+
+    it('应该按用户和操作统计扣费次数', async () => {
+      const since = new Date('2024-01-01');
+      mockPrismaClient.transaction.count.mockResolvedValue(7);
+
+      expect(await adapter.countActionUsage('user-123', 'generate-post', since)).toBe(7);
+      expect(mockPrismaClient.transaction.count).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-123',
+          action: 'generate-post',
+          operation: { in: ['charge', 'chargeBatch', 'capture'] },
+          createdAt: { gte: since }
+        }
+      });
+    });
+  });
+
+  describe('scheduled tier changes', () => {
+    const mockChange = {
+      id: 'change-1',
+      userId: 'user-123',
+      targetTier: 'free',
+      effectiveAt: new Date('2025-12-31'),
+      metadata: {},
+      createdAt: new Date('2024-01-01')
+    };
+
+    it('应该按 userId upsert 计划变更', async () => {
+      mockPrismaClient.scheduledTierChange.upsert.mockResolvedValue(mockChange);
+
+      const result = await adapter.saveScheduledTierChange({
+        userId: 'user-123',
+        targetTier: 'free',
+        effectiveAt: mockChange.effectiveAt
+      });
+
+      expect(result).toEqual(mockChange);
+      expect(mockPrismaClient.scheduledTierChange.upsert).toHaveBeenCalledWith({
+        where: { userId: 'user-123' },
+        create: { userId: 'user-123', targetTier: 'free', effectiveAt: mockChange.effectiveAt, metadata: {} },
+        update: { targetTier: 'free', effectiveAt: mockChange.effectiveAt, metadata: {} }
+      });
+    });
+
+    it('应该在没有计划变更时返回 null', async () => {
+      mockPrismaClient.scheduledTierChange.findUnique.mockResolvedValue(null);
+
+      expect(await adapter.getScheduledTierChange('user-123')).toBeNull();
+    });
+
+    it('应该使用 deleteMany 删除计划变更', async () => {
+      mockPrismaClient.scheduledTierChange.deleteMany.mockResolvedValue({ count: 0 });
+
+      await adapter.deleteScheduledTierChange('user-123');
+
+      expect(mockPrismaClient.scheduledTierChange.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-123' }
+      });
+    });
+
+    it('应该按生效时间查询已到期的计划变更', async () => {
+      const now = new Date('2026-01-01');
+      mockPrismaClient.scheduledTierChange.findMany.mockResolvedValue([mockChange]);
+
+      const result = await adapter.getDueScheduledTierChanges(now, 50);
+
+      expect(result).toEqual([mockChange]);
+      expect(mockPrismaClient.scheduledTierChange.findMany).toHaveBeenCalledWith({
+        where: { effectiveAt: { lte: now } },
+        orderBy: [{ effectiveAt: 'asc' }, { id: 'asc' }],
+        take: 50
+      });
+    });
+  });
+
+  describe('add-ons', () => {
+    const mockAddOn = {
+      id: 'addon-1',
+      userId: 'user-123',
+      addOn: 'api-access',
+      createdAt: new Date('2024-01-01')
+    };
+
+    it('应该按 (userId, addOn) upsert 附加包', async () => {
+      mockPrismaClient.userAddOn.upsert.mockResolvedValue(mockAddOn);
+
+      const result = await adapter.saveUserAddOn('user-123', 'api-access');
+
+      expect(result).toEqual({ userId: 'user-123', addOn: 'api-access', createdAt: mockAddOn.createdAt });
+      expect(mockPrismaClient.userAddOn.upsert).toHaveBeenCalledWith({
+        where: { userId_addOn: { userId: 'user-123', addOn: 'api-access' } },
+        create: { userId: 'user-123', addOn: 'api-access' },
+        update: {}
+      });
+    });
+
+    it('应该按授予时间查询用户的附加包', async () => {
+      mockPrismaClient.userAddOn.findMany.mockResolvedValue([mockAddOn]);
+
+      const result = await adapter.getUserAddOns('user-123');
+
+      expect(result.map(a => a.addOn)).toEqual(['api-access']);
+      expect(mockPrismaClient.userAddOn.findMany).toHaveBeenCalledWith({
+        where: { userId: 'user-123' },
+        orderBy: [{ createdAt: 'asc' }, { addOn: 'asc' }]
+      });
+    });
+
+    it('应该使用 deleteMany 删除附加包', async () => {
+      mockPrismaClient.userAddOn.deleteMany.mockResolvedValue({ count: 0 });
+
+      await adapter.deleteUserAddOn('user-123', 'api-access');
+
+      expect(mockPrismaClient.userAddOn.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-123', addOn: 'api-access' }
+      });
+    });
+  });
+
   describe('错误处理', () => {
     it('应该处理 Prisma 唯一约束冲突错误', async () => {
       const prismaError = {
@@ -685,5 +1526,39 @@ describe('PrismaAdapter', () => {
         adapter.getUserById('user-123')
       ).rejects.toThrow(/Database error/);
     });
+
+    it('应该为转换后的 Prisma 错误标记是否可重试', async () => {
+      const writeConflict = { code: 'P2034', message: 'Write conflict' };
+      mockPrismaClient.user.findUnique.mockRejectedValueOnce(writeConflict);
+
+      const transient = await adapter.getUserById('user-123').catch(e => e);
+      expect(transient).toMatchObject({ code: 'P2034', retryable: true, cause: writeConflict });
+      expect(adapter.isTransientError(transient)).toBe(true);
+
+      mockPrismaClient.user.findUnique.mockRejectedValueOnce({ code: 'P2002', message: 'Unique' });
+
+      const permanent = await adapter.getUserById('user-123').catch(e => e);
+      expect(permanent).toMatchObject({ code: 'P2002', retryable: false });
+      expect(adapter.isTransientError(permanent)).toBe(false);
+    });
+
+    it('应该保留非 Prisma 错误代码并交给默认规则判断', async () => {
+      const networkError = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+      mockPrismaClient.user.findUnique.mockRejectedValue(networkError);
+
+      const error = await adapter.getUserById('user-123').catch(e => e);
+
+      expect(error.code).toBe('ECONNRESET');
+      expect(error).not.toHaveProperty('retryable');
+      expect(adapter.isTransientError(error)).toBeUndefined();
+    });
+
+    it('应该按错误代码判断未经转换的 Prisma 错误', () => {
+      expect(adapter.isTransientError({ code: 'P2024' })).toBe(true);
+      expect(adapter.isTransientError({ errorCode: 'P1001' })).toBe(true);
+      expect(adapter.isTransientError({ code: 'P2025' })).toBe(false);
+      expect(adapter.isTransientError(new Error('P2034 mentioned in a message'))).toBeUndefined();
+      expect(adapter.isTransientError(null)).toBeUndefined();
+    });
   });
 });
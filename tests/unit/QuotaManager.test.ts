@@ -0,0 +1,80 @@
+/**
+ * QuotaManager 单元测试
+ * 测试配额规则的选择和 UTC 统计窗口的计算
+ */
+
+import { describe, it, expect } from 'vitest';
+import { QuotaManager } from '../../src/features/QuotaManager';
+
+describe('QuotaManager', () => {
+  const quotaManager = new QuotaManager({
+    'generate-post': {
+      default: { limit: 20, window: 'day' },
+      premium: [{ limit: 10, window: 'minute' }, { limit: 500, window: 'month' }],
+      enterprise: null
+    },
+    'generate-image': {
+      basic: { limit: 5, window: 'hour' }
+    }
+  });
+
+  describe('getRules', () => {
+    it('should use the tier rules and fall back to default', () => {
+      expect(quotaManager.getRules('generate-post', 'premium')).toEqual([
+        { limit: 10, window: 'minute' },
+        { limit: 500, window: 'month' }
+      ]);
+      expect(quotaManager.getRules('generate-post', 'basic')).toEqual([{ limit: 20, window: 'day' }]);
+      expect(quotaManager.getRules('generate-post', null)).toEqual([{ limit: 20, window: 'day' }]);
+    });
+
+    it('should not limit null tiers, missing defaults or actions without quotas', () => {
+      expect(quotaManager.getRules('generate-post', 'enterprise')).toEqual([]);
+      expect(quotaManager.getRules('generate-image', 'premium')).toEqual([]);
+      expect(quotaManager.getRules('export-report', 'basic')).toEqual([]);
+      expect(new QuotaManager().getActions()).toEqual([]);
+    });
+
+    it('should list the configured actions', () => {
+      expect(quotaManager.getActions()).toEqual(['generate-post', 'generate-image']);
+    });
+  });
+
+  describe('getWindow', () => {
+    const now = new Date('2025-02-28T15:42:30.500Z');
+
+    it('should align windows to UTC boundaries', () => {
+      expect(quotaManager.getWindow('minute', now)).toEqual({
+        start: new Date('2025-02-28T15:42:00Z'),
+        end: new Date('2025-02-28T15:43:00Z')
+      });
+      expect(quotaManager.getWindow('hour', now)).toEqual({
+        start: new Date('2025-02-28T15:00:00Z'),
+        end: new Date('2025-02-28T16:00:00Z')
+      });
+      expect(quotaManager.getWindow('day', now)).toEqual({
+        start: new Date('2025-02-28T00:00:00Z'),
+        end: new Date('2025-03-01T00:00:00Z')
+      });
+      expect(quotaManager.getWindow('month', now)).toEqual({
+        start: new Date('2025-02-01T00:00:00Z'),
+        end: new Date('2025-03-01T00:00:00Z')
+      });
+    });
+
+    it('should roll over to the next year', () => {
+      expect(quotaManager.getWindow('month', new Date('2025-12-31T23:59:59Z')).end).toEqual(
+        new Date('2026-01-01T00:00:00Z')
+      );
+    });
+  });
+
+  describe('getRetryAfter', () => {
+    it('should round up to whole seconds', () => {
+      const now = new Date('2025-02-28T15:42:30.500Z');
+
+      expect(quotaManager.getRetryAfter(quotaManager.getWindow('minute', now), now)).toBe(30);
+      expect(quotaManager.getRetryAfter(quotaManager.getWindow('day', now), now)).toBe(29850);
+    });
+  });
+});
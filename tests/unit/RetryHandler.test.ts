@@ -3,8 +3,9 @@
  * 测试重试逻辑、指数退避和错误识别
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { RetryHandler } from '../../src/features/RetryHandler';
+import { CircuitOpenError } from '../../src/core/errors';
 import { RetryConfig } from '../../src/core/types';
 import { ILogAdapter } from '../../src/adapters/ILogAdapter';
 
@@ -311,6 +312,25 @@ describe('RetryHandler', () => {
       expect(result).toBe('success');
       expect(attempts).toBe(2);
     });
+
+    it('应该不重试 shouldRetry 返回 false 的错误', async () => {
+      const handler = new RetryHandler(retryConfig, mockLogger);
+
+      let attempts = 0;
+      const operation = async () => {
+        attempts++;
+        const error = new Error('User user-500 not found');
+        (error as any).code = 'USER_NOT_FOUND';
+        throw error;
+      };
+
+      await expect(
+        handler.execute(operation, {
+          shouldRetry: error => (error as any).code !== 'USER_NOT_FOUND'
+        })
+      ).rejects.toThrow('User user-500 not found');
+      expect(attempts).toBe(1);
+    });
   });
 
   describe('日志记录', () => {
@@ -487,4 +507,194 @@ describe('RetryHandler', () => {
       expect(attempts).toBe(retryConfig.maxAttempts);
     });
   });
+
+  /**
+   * 创建一个总是以瞬态错误失败的操作
+   */
+  function alwaysTimesOut() {
+    return vi.fn(async () => {
+      const error = new Error('Error');
+      (error as any).code = 'ETIMEDOUT';
+      throw error;
+    });
+  }
+
+  /**
+   * 读取 'Operation failed, retrying' 日志中记录的延迟
+   */
+  function loggedDelays(): number[] {
+    return mockLogger.logs
+      .filter(log => log.message === 'Operation failed, retrying')
+      .map(log => log.context.nextRetryIn);
+  }
+
+  describe('抖动', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('应该使用 full 抖动在 0 到指数退避延迟之间取值', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      const handler = new RetryHandler({ ...retryConfig, initialDelay: 10, jitter: 'full' }, mockLogger);
+
+      await expect(handler.execute(alwaysTimesOut())).rejects.toThrow();
+
+      expect(loggedDelays()).toEqual([5, 10]);
+    });
+
+    it('应该使用 decorrelated 抖动基于上一次延迟取值', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(1);
+      const handler = new RetryHandler({
+        ...retryConfig,
+        maxAttempts: 4,
+        initialDelay: 2,
+        maxDelay: 40,
+        jitter: 'decorrelated'
+      }, mockLogger);
+
+      await expect(handler.execute(alwaysTimesOut())).rejects.toThrow();
+
+      expect(loggedDelays()).toEqual([6, 18, 40]);
+    });
+
+    it('应该允许操作级别覆盖抖动策略', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      const handler = new RetryHandler({ ...retryConfig, initialDelay: 10 }, mockLogger);
+
+      await expect(handler.execute(alwaysTimesOut(), { jitter: 'full' })).rejects.toThrow();
+
+      expect(loggedDelays()).toEqual([0, 0]);
+    });
+  });
+
+  describe('总时间上限', () => {
+    it('应该在等待会超过总时间上限时停止重试', async () => {
+      const handler = new RetryHandler({ ...retryConfig, maxAttempts: 10, deadline: 250 }, mockLogger);
+      const operation = alwaysTimesOut();
+
+      await expect(handler.execute(operation)).rejects.toThrow('Error');
+
+      // 100ms 和 200ms 的等待之和超过 250ms，第二次失败后停止
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(mockLogger.logs.some(log => log.message === 'Retry deadline exceeded')).toBe(true);
+    });
+  });
+
+  describe('熔断器', () => {
+    let handler: RetryHandler;
+
+    beforeEach(() => {
+      handler = new RetryHandler({
+        ...retryConfig,
+        initialDelay: 0,
+        maxDelay: 0,
+        circuitBreaker: { failureThreshold: 2, resetTimeout: 60000 }
+      }, mockLogger);
+    });
+
+    it('应该在未配置熔断器时返回 null', () => {
+      expect(new RetryHandler(retryConfig).getCircuitBreakerStatus()).toBeNull();
+    });
+
+    it('应该在连续瞬态故障后断开并快速失败', async () => {
+      const operation = alwaysTimesOut();
+
+      await expect(handler.execute(operation)).rejects.toThrow(CircuitOpenError);
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(handler.getCircuitBreakerStatus()?.state).toBe('open');
+
+      const next = vi.fn(async () => 'success');
+      await expect(handler.execute(next)).rejects.toThrow(CircuitOpenError);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('应该在操作之间共享熔断器', async () => {
+      await expect(handler.execute(alwaysTimesOut(), { maxAttempts: 1 })).rejects.toThrow('Error');
+      await expect(handler.execute(alwaysTimesOut(), { maxAttempts: 1 })).rejects.toThrow('Error');
+
+      expect(handler.getCircuitBreakerStatus()?.state).toBe('open');
+    });
+
+    it('应该不把业务错误计为故障', async () => {
+      const operation = vi.fn(async () => {
+        throw new Error('Invalid input');
+      });
+
+      for (let i = 0; i < 3; i++) {
+        await expect(handler.execute(operation)).rejects.toThrow('Invalid input');
+      }
+
+      expect(handler.getCircuitBreakerStatus()).toEqual({ state: 'closed', consecutiveFailures: 0 });
+    });
+
+    it('应该在重试未启用时仍然经过熔断器', async () => {
+      const disabled = new RetryHandler({
+        ...retryConfig,
+        enabled: false,
+        circuitBreaker: { failureThreshold: 1, resetTimeout: 60000 }
+      });
+
+      await expect(disabled.execute(alwaysTimesOut())).rejects.toThrow('Error');
+      await expect(disabled.executeOnce(async () => 'success')).rejects.toThrow(CircuitOpenError);
+    });
+  });
+
+  describe('适配器错误分类', () => {
+    const fastConfig = (): RetryConfig => ({ ...retryConfig, initialDelay: 0, maxDelay: 0 });
+
+    /**
+     * 创建一个先抛出指定错误、之后成功的操作
+     */
+    const failsOnceWith = (error: Error) =>
+      vi.fn().mockRejectedValueOnce(error).mockResolvedValue('success');
+
+    it('应该重试分类函数判断为瞬态的错误', async () => {
+      const handler = new RetryHandler(fastConfig(), mockLogger, error =>
+        (error as any).retryable
+      );
+      const operation = failsOnceWith(Object.assign(new Error('Write conflict'), { retryable: true }));
+
+      expect(await handler.execute(operation)).toBe('success');
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('应该以分类函数的判断覆盖默认规则', async () => {
+      const handler = new RetryHandler(fastConfig(), mockLogger, () => false);
+      const operation = failsOnceWith(Object.assign(new Error('Connection reset'), { code: 'ECONNRESET' }));
+
+      await expect(handler.execute(operation)).rejects.toThrow('Connection reset');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('应该在分类函数无法判断时回退到默认规则', async () => {
+      const handler = new RetryHandler(fastConfig(), mockLogger, () => undefined);
+      const operation = failsOnceWith(Object.assign(new Error('Connection reset'), { code: 'ECONNRESET' }));
+
+      expect(await handler.execute(operation)).toBe('success');
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('应该优先遵守 shouldRetry', async () => {
+      const handler = new RetryHandler(fastConfig(), mockLogger, () => true);
+      const operation = failsOnceWith(new Error('Insufficient credits'));
+
+      await expect(
+        handler.execute(operation, { shouldRetry: () => false })
+      ).rejects.toThrow('Insufficient credits');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('应该按分类结果计入熔断器故障', async () => {
+      const handler = new RetryHandler(
+        { ...fastConfig(), circuitBreaker: { failureThreshold: 1, resetTimeout: 60000 } },
+        mockLogger,
+        () => false
+      );
+
+      await expect(
+        handler.execute(async () => { throw new Error('Timeout'); })
+      ).rejects.toThrow('Timeout');
+      expect(handler.getCircuitBreakerStatus()?.state).toBe('closed');
+    });
+  });
 });
@@ -9,6 +9,8 @@ import {
   InsufficientCreditsError,
   UserNotFoundError,
   MembershipRequiredError,
+  EntitlementRequiredError,
+  QuotaExceededError,
   IdempotencyKeyConflictError,
   ConfigurationError,
   UndefinedActionError,
@@ -16,6 +18,7 @@ import {
   UndefinedTierError,
   MissingVariableError,
   FormulaEvaluationError,
+  FormulaSyntaxError,
 } from '../../src/core/errors';
 
 describe('CreditsSDKError', () => {
@@ -168,6 +171,33 @@ describe('MembershipRequiredError', () => {
   });
 });
 
+describe('EntitlementRequiredError', () => {
+  it('should name the missing entitlements', () => {
+    const error = new EntitlementRequiredError('user123', 'call-api', ['api', 'exports']);
+
+    expect(error.message).toBe('User user123 lacks entitlement api, exports required for call-api');
+    expect(error.code).toBe('ENTITLEMENT_REQUIRED');
+    expect(error.name).toBe('EntitlementRequiredError');
+    expect(error.missing).toEqual(['api', 'exports']);
+    expect(error).toBeInstanceOf(CreditsSDKError);
+  });
+});
+
+describe('QuotaExceededError', () => {
+  it('should report the window, usage and retry-after', () => {
+    const resetsAt = new Date('2025-01-02T00:00:00Z');
+    const error = new QuotaExceededError('user123', 'generate-post', 'day', 20, 20, 3600, resetsAt);
+
+    expect(error.message).toBe(
+      'User user123 exceeded the day quota for generate-post. Limit: 20, Used: 20, Retry after: 3600s'
+    );
+    expect(error.code).toBe('QUOTA_EXCEEDED');
+    expect(error.name).toBe('QuotaExceededError');
+    expect(error).toMatchObject({ limit: 20, used: 20, retryAfter: 3600, resetsAt });
+    expect(error).toBeInstanceOf(CreditsSDKError);
+  });
+});
+
 describe('IdempotencyKeyConflictError', () => {
   it('should create error with correct message format', () => {
     const error = new IdempotencyKeyConflictError('key123', { id: 'txn456' });
@@ -661,3 +691,29 @@ describe('FormulaEvaluationError', () => {
     expect(error.message).toContain(JSON.stringify(variables));
   });
 });
+
+describe('FormulaSyntaxError', () => {
+  it('should create error with correct message format', () => {
+    const error = new FormulaSyntaxError('{token} * * 0.5', 10, "unexpected '*'");
+
+    expect(error.message).toBe("Invalid formula '{token} * * 0.5' at position 10: unexpected '*'");
+  });
+
+  it('should store formula, position, and reason properties', () => {
+    const error = new FormulaSyntaxError('{token * 0.5', 0, "unclosed '{'");
+
+    expect(error.formula).toBe('{token * 0.5');
+    expect(error.position).toBe(0);
+    expect(error.reason).toBe("unclosed '{'");
+  });
+
+  it('should be a ConfigurationError with the configuration error code', () => {
+    const error = new FormulaSyntaxError('1 +', 3, 'unexpected end of formula');
+
+    expect(error).toBeInstanceOf(FormulaSyntaxError);
+    expect(error).toBeInstanceOf(ConfigurationError);
+    expect(error).toBeInstanceOf(CreditsSDKError);
+    expect(error.name).toBe('FormulaSyntaxError');
+    expect(error.code).toBe('CONFIGURATION_ERROR');
+  });
+});